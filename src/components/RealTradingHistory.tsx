@@ -1,14 +1,14 @@
 /**
  * RealTradingHistory - REAL mode version of TradingHistory
  *
- * 3 tabs: Open Positions / SELL Trades / Reverted
+ * 4 tabs: Open Positions / SELL Trades / Reverted / Tax
  * No "Confirmed only" toggle (each tab is already filtered by status).
  */
 import { useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowUpRight, ArrowDownLeft, AlertTriangle } from 'lucide-react';
+import { ArrowUpRight, ArrowDownLeft, AlertTriangle, Receipt } from 'lucide-react';
 import { useRealTradeHistory } from '@/hooks/useRealTradeHistory';
 import { useRealPositions } from '@/hooks/useRealPositions';
 import { useOpenTrades } from '@/hooks/useOpenTrades';
@@ -20,6 +20,7 @@ import { useAccountedMockTradeIds } from '@/hooks/useAccountedMockTradeIds';
 import { useTradingMode } from '@/hooks/useTradingMode';
 import { RealPositionsTable } from '@/components/trading/RealPositionsTable';
 import { RevertedTradesTable } from '@/components/trading/RevertedTradesTable';
+import { TaxReportPanel } from '@/components/trading/TaxReportPanel';
 import { LiveSellTradeCard } from '@/components/trading/LiveSellTradeCard';
 import { useLiveSellTrades } from '@/hooks/useLiveSellTrades';
 import { PortfolioSummaryHeader, type PortfolioSummaryData } from '@/components/trading/PortfolioSummaryHeader';
@@ -139,7 +140,7 @@ export function RealTradingHistory({ hasActiveStrategy, onCreateStrategy }: Real
         <PortfolioSummaryHeader data={summary} />
 
         <Tabs defaultValue="positions">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="positions" className="flex items-center gap-2">
               <ArrowUpRight className="w-4 h-4" />
               Open Positions ({openTrades.length})
@@ -157,6 +158,10 @@ export function RealTradingHistory({ hasActiveStrategy, onCreateStrategy }: Real
               <AlertTriangle className="w-4 h-4" />
               Reverted ({revertedRows.length})
             </TabsTrigger>
+            <TabsTrigger value="tax" className="flex items-center gap-2">
+              <Receipt className="w-4 h-4" />
+              Tax
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="positions" className="mt-4">
@@ -194,6 +199,10 @@ export function RealTradingHistory({ hasActiveStrategy, onCreateStrategy }: Real
           <TabsContent value="reverted" className="mt-4">
             <RevertedTradesTable />
           </TabsContent>
+
+          <TabsContent value="tax" className="mt-4">
+            <TaxReportPanel />
+          </TabsContent>
         </Tabs>
       </Card>
     </div>
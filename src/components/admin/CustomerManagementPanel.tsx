@@ -7,6 +7,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Users, Search, ChevronLeft, ChevronRight, Mail, Calendar, Shield, Link, Trash2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { WithdrawalQueuePanel } from '@/components/admin/WithdrawalQueuePanel';
 
 interface Customer {
   id: string;
@@ -231,253 +232,256 @@ export const CustomerManagementPanel = () => {
   };
 
   return (
-    <Card className="bg-slate-800 border-slate-700">
-      <CardHeader>
-        <div className="flex items-center justify-between">
-          <div>
-            <CardTitle className="text-white flex items-center gap-2">
-              <Users className="w-5 h-5" />
-              Customer Management
-            </CardTitle>
-            <CardDescription>
-              View and manage customer accounts ({totalCustomers} total customers)
-            </CardDescription>
-          </div>
-          <div className="flex gap-2">
-            <Button onClick={fetchCustomers} variant="outline" size="sm">
-              Refresh
-            </Button>
-            <Button onClick={handleUserSyncAudit} variant="outline" size="sm" className="text-green-400 border-green-400 hover:bg-green-400/10">
-              Sync Audit & Repair
-            </Button>
-            <Button 
-              onClick={() => setShowOrphaned(!showOrphaned)} 
-              variant="outline" 
-              size="sm"
-              className="text-yellow-400 border-yellow-400 hover:bg-yellow-400/10"
-            >
-              {showOrphaned ? 'Hide' : 'Show'} Orphaned Data ({orphanedData.length})
-            </Button>
-            <Button onClick={handleCleanupOrphanedData} variant="outline" size="sm" className="text-orange-400 border-orange-400 hover:bg-orange-400/10">
-              Cleanup Orphaned Data
-            </Button>
-            <Button onClick={handleCleanupConnections} variant="outline" size="sm" className="text-blue-400 border-blue-400 hover:bg-blue-400/10">
-              Cleanup Connections
-            </Button>
-          </div>
-        </div>
-        
-        {/* Search */}
-        <div className="flex items-center gap-2 max-w-md">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
-            <Input
-              placeholder="Search customers by name or ID..."
-              value={searchTerm}
-              onChange={(e) => {
-                setSearchTerm(e.target.value);
-                setCurrentPage(1); // Reset to first page when searching
-              }}
-              className="pl-10 bg-slate-700 border-slate-600 text-white"
-            />
-          </div>
-        </div>
-      </CardHeader>
-
-      <CardContent>
-        {/* Orphaned Data Section */}
-        {showOrphaned && (
-          <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
-            <h3 className="text-yellow-400 font-medium mb-3">Orphaned User Data</h3>
-            {orphanedData.length === 0 ? (
-              <p className="text-slate-400">No orphaned data found.</p>
-            ) : (
-              <div className="space-y-2">
-                {orphanedData.map((item) => (
-                  <div key={item.user_id} className="flex items-center justify-between p-2 bg-slate-700/50 rounded border border-slate-600">
-                    <div className="text-sm">
-                      <span className="text-white">User ID: {item.user_id}</span>
-                      <span className="text-slate-400 ml-4">Role: {item.role}</span>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
-        )}
-
-        {loading ? (
-          <div className="flex items-center justify-center py-8">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+    <div className="space-y-6">
+      <WithdrawalQueuePanel />
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Customer Management
+              </CardTitle>
+              <CardDescription>
+                View and manage customer accounts ({totalCustomers} total customers)
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={fetchCustomers} variant="outline" size="sm">
+                Refresh
+              </Button>
+              <Button onClick={handleUserSyncAudit} variant="outline" size="sm" className="text-green-400 border-green-400 hover:bg-green-400/10">
+                Sync Audit & Repair
+              </Button>
+              <Button 
+                onClick={() => setShowOrphaned(!showOrphaned)} 
+                variant="outline" 
+                size="sm"
+                className="text-yellow-400 border-yellow-400 hover:bg-yellow-400/10"
+              >
+                {showOrphaned ? 'Hide' : 'Show'} Orphaned Data ({orphanedData.length})
+              </Button>
+              <Button onClick={handleCleanupOrphanedData} variant="outline" size="sm" className="text-orange-400 border-orange-400 hover:bg-orange-400/10">
+                Cleanup Orphaned Data
+              </Button>
+              <Button onClick={handleCleanupConnections} variant="outline" size="sm" className="text-blue-400 border-blue-400 hover:bg-blue-400/10">
+                Cleanup Connections
+              </Button>
+            </div>
           </div>
-        ) : customers.length === 0 ? (
-          <div className="text-center py-8 text-slate-400">
-            {searchTerm ? 'No customers found matching your search.' : 'No customers found.'}
+          
+          {/* Search */}
+          <div className="flex items-center gap-2 max-w-md">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+              <Input
+                placeholder="Search customers by name or ID..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setCurrentPage(1); // Reset to first page when searching
+                }}
+                className="pl-10 bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
           </div>
-        ) : (
-          <>
-            {/* Customer List */}
-            <div className="space-y-4">
-              {customers.map((customer) => (
-                <div
-                  key={customer.id}
-                  className="flex items-center justify-between p-4 bg-slate-700/50 rounded-lg border border-slate-600 hover:bg-slate-700/70 transition-colors"
-                >
-                  <div className="flex items-center gap-4">
-                    {/* Avatar */}
-                    <div className="w-10 h-10 bg-cyan-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
-                      {customer.avatar_url ? (
-                        <img 
-                          src={customer.avatar_url} 
-                          alt={customer.full_name || 'User'} 
-                          className="w-10 h-10 rounded-full object-cover"
-                        />
-                      ) : (
-                        getInitials(customer.full_name || customer.email)
-                      )}
+        </CardHeader>
+
+        <CardContent>
+          {/* Orphaned Data Section */}
+          {showOrphaned && (
+            <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+              <h3 className="text-yellow-400 font-medium mb-3">Orphaned User Data</h3>
+              {orphanedData.length === 0 ? (
+                <p className="text-slate-400">No orphaned data found.</p>
+              ) : (
+                <div className="space-y-2">
+                  {orphanedData.map((item) => (
+                    <div key={item.user_id} className="flex items-center justify-between p-2 bg-slate-700/50 rounded border border-slate-600">
+                      <div className="text-sm">
+                        <span className="text-white">User ID: {item.user_id}</span>
+                        <span className="text-slate-400 ml-4">Role: {item.role}</span>
+                      </div>
                     </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
 
-                    {/* Customer Info */}
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2">
-                        <h3 className="text-white font-medium">
-                          {customer.full_name || 'Unknown User'}
-                        </h3>
-                        <Badge 
-                          variant="outline" 
-                          className={getRoleBadgeColor(customer.role || 'user')}
-                        >
-                          {customer.role === 'admin' && <Shield className="w-3 h-3 mr-1" />}
-                          {customer.role === 'no-role' ? 'NO ROLE' : customer.role === 'error' ? 'ERROR' : customer.role || 'user'}
-                        </Badge>
-                        {(!customer.has_profile || !customer.has_role) && (
-                          <Badge variant="outline" className="bg-red-500/20 text-red-400 border-red-500/30">
-                            SYNC ISSUE
-                          </Badge>
-                        )}
-                        {!customer.confirmed && (
-                          <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
-                            UNCONFIRMED
-                          </Badge>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+            </div>
+          ) : customers.length === 0 ? (
+            <div className="text-center py-8 text-slate-400">
+              {searchTerm ? 'No customers found matching your search.' : 'No customers found.'}
+            </div>
+          ) : (
+            <>
+              {/* Customer List */}
+              <div className="space-y-4">
+                {customers.map((customer) => (
+                  <div
+                    key={customer.id}
+                    className="flex items-center justify-between p-4 bg-slate-700/50 rounded-lg border border-slate-600 hover:bg-slate-700/70 transition-colors"
+                  >
+                    <div className="flex items-center gap-4">
+                      {/* Avatar */}
+                      <div className="w-10 h-10 bg-cyan-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
+                        {customer.avatar_url ? (
+                          <img 
+                            src={customer.avatar_url} 
+                            alt={customer.full_name || 'User'} 
+                            className="w-10 h-10 rounded-full object-cover"
+                          />
+                        ) : (
+                          getInitials(customer.full_name || customer.email)
                         )}
                       </div>
-                      <div className="flex items-center gap-4 text-sm text-slate-400 mt-1">
-                        <span className="flex items-center gap-1">
-                          <Mail className="w-3 h-3" />
-                          {customer.email}
-                        </span>
-                        <span className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          Joined {formatDate(customer.created_at)}
-                        </span>
-                        <span className="text-xs">
-                          Profile: {customer.has_profile ? '✅' : '❌'} | Role: {customer.has_role ? '✅' : '❌'}
-                        </span>
+
+                      {/* Customer Info */}
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="text-white font-medium">
+                            {customer.full_name || 'Unknown User'}
+                          </h3>
+                          <Badge 
+                            variant="outline" 
+                            className={getRoleBadgeColor(customer.role || 'user')}
+                          >
+                            {customer.role === 'admin' && <Shield className="w-3 h-3 mr-1" />}
+                            {customer.role === 'no-role' ? 'NO ROLE' : customer.role === 'error' ? 'ERROR' : customer.role || 'user'}
+                          </Badge>
+                          {(!customer.has_profile || !customer.has_role) && (
+                            <Badge variant="outline" className="bg-red-500/20 text-red-400 border-red-500/30">
+                              SYNC ISSUE
+                            </Badge>
+                          )}
+                          {!customer.confirmed && (
+                            <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                              UNCONFIRMED
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-4 text-sm text-slate-400 mt-1">
+                          <span className="flex items-center gap-1">
+                            <Mail className="w-3 h-3" />
+                            {customer.email}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Calendar className="w-3 h-3" />
+                            Joined {formatDate(customer.created_at)}
+                          </span>
+                          <span className="text-xs">
+                            Profile: {customer.has_profile ? '✅' : '❌'} | Role: {customer.has_role ? '✅' : '❌'}
+                          </span>
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Customer Stats & Actions */}
-                  <div className="flex items-center gap-6 text-sm">
-                    <div className="text-center">
-                      <div className="text-white font-medium">{customer.total_strategies || 0}</div>
-                      <div className="text-slate-400">Strategies</div>
-                    </div>
-                    <div className="text-center">
-                      <div className={`flex items-center gap-1 ${customer.has_coinbase_connection ? 'text-green-400' : 'text-slate-400'}`}>
-                        <Link className="w-3 h-3" />
-                        {customer.has_coinbase_connection ? 'Connected' : 'Not Connected'}
+                    {/* Customer Stats & Actions */}
+                    <div className="flex items-center gap-6 text-sm">
+                      <div className="text-center">
+                        <div className="text-white font-medium">{customer.total_strategies || 0}</div>
+                        <div className="text-slate-400">Strategies</div>
                       </div>
-                      <div className="text-slate-400">Coinbase</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-white font-medium">
-                        {customer.last_active ? formatDate(customer.last_active) : 'Never'}
+                      <div className="text-center">
+                        <div className={`flex items-center gap-1 ${customer.has_coinbase_connection ? 'text-green-400' : 'text-slate-400'}`}>
+                          <Link className="w-3 h-3" />
+                          {customer.has_coinbase_connection ? 'Connected' : 'Not Connected'}
+                        </div>
+                        <div className="text-slate-400">Coinbase</div>
                       </div>
-                      <div className="text-slate-400">Last Active</div>
-                    </div>
-                    
-                    {/* Delete Button */}
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-red-400 border-red-400 hover:bg-red-400/10 hover:text-red-300"
-                          disabled={deletingUserId === customer.id}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent className="bg-slate-800 border-slate-700">
-                        <AlertDialogHeader>
-                          <AlertDialogTitle className="text-white">Delete User Account</AlertDialogTitle>
-                          <AlertDialogDescription className="text-slate-400">
-                            Are you sure you want to permanently delete this user account? This action will:
-                            <ul className="list-disc list-inside mt-2 space-y-1">
-                              <li>Remove the user from the authentication system</li>
-                              <li>Delete all their trading strategies and history</li>
-                              <li>Remove all their data and connections</li>
-                            </ul>
-                            <br />
-                            <strong className="text-red-400">This action cannot be undone.</strong>
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600">
-                            Cancel
-                          </AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => handleDeleteUser(customer.id)}
-                            className="bg-red-600 hover:bg-red-700 text-white"
+                      <div className="text-center">
+                        <div className="text-white font-medium">
+                          {customer.last_active ? formatDate(customer.last_active) : 'Never'}
+                        </div>
+                        <div className="text-slate-400">Last Active</div>
+                      </div>
+                      
+                      {/* Delete Button */}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-400 border-red-400 hover:bg-red-400/10 hover:text-red-300"
                             disabled={deletingUserId === customer.id}
                           >
-                            {deletingUserId === customer.id ? 'Deleting...' : 'Delete User'}
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="bg-slate-800 border-slate-700">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle className="text-white">Delete User Account</AlertDialogTitle>
+                            <AlertDialogDescription className="text-slate-400">
+                              Are you sure you want to permanently delete this user account? This action will:
+                              <ul className="list-disc list-inside mt-2 space-y-1">
+                                <li>Remove the user from the authentication system</li>
+                                <li>Delete all their trading strategies and history</li>
+                                <li>Remove all their data and connections</li>
+                              </ul>
+                              <br />
+                              <strong className="text-red-400">This action cannot be undone.</strong>
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600">
+                              Cancel
+                            </AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeleteUser(customer.id)}
+                              className="bg-red-600 hover:bg-red-700 text-white"
+                              disabled={deletingUserId === customer.id}
+                            >
+                              {deletingUserId === customer.id ? 'Deleting...' : 'Delete User'}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-between mt-6 pt-4 border-t border-slate-600">
-                <div className="text-sm text-slate-400">
-                  Showing {(currentPage - 1) * customersPerPage + 1} to {Math.min(currentPage * customersPerPage, totalCustomers)} of {totalCustomers} customers
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                    disabled={currentPage === 1}
-                    className="flex items-center gap-1"
-                  >
-                    <ChevronLeft className="w-4 h-4" />
-                    Previous
-                  </Button>
-                  <span className="text-sm text-slate-400 px-2">
-                    Page {currentPage} of {totalPages}
-                  </span>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage === totalPages}
-                    className="flex items-center gap-1"
-                  >
-                    Next
-                    <ChevronRight className="w-4 h-4" />
-                  </Button>
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-6 pt-4 border-t border-slate-600">
+                  <div className="text-sm text-slate-400">
+                    Showing {(currentPage - 1) * customersPerPage + 1} to {Math.min(currentPage * customersPerPage, totalCustomers)} of {totalCustomers} customers
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                      disabled={currentPage === 1}
+                      className="flex items-center gap-1"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-slate-400 px-2">
+                      Page {currentPage} of {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                      disabled={currentPage === totalPages}
+                      className="flex items-center gap-1"
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            )}
-          </>
-        )}
-      </CardContent>
-    </Card>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
   );
 };
\ No newline at end of file
@@ -12,12 +12,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Bot, Save, TestTube, Settings, MessageSquare, Zap } from 'lucide-react';
 import { logger } from '@/utils/logger';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  LLM_PROVIDER_MODELS,
+  LLM_PROVIDER_SECRETS,
+  summarizeLlmUsage,
+  type LlmProviderOption,
+  type LlmUsageRow,
+  type LlmUsageSummary,
+} from '@/utils/llmUsage';
+
+const USAGE_WINDOW_DAYS = 30;
 
 export const LLMConfigPanel = () => {
   const [config, setConfig] = useState({
     enabled: true, // LLM is actually working since AI agent responds
-    provider: 'openai',
+    provider: 'openai' as LlmProviderOption,
     model: 'gpt-4o-mini',
+    baseUrl: '',
     apiKey: '••••••••', // Masked since it's stored in Supabase secrets
     temperature: 0.3,
     maxTokens: 2000,
@@ -32,13 +43,15 @@ export const LLMConfigPanel = () => {
   });
   const [originalConfig, setOriginalConfig] = useState(config);
   const [testing, setTesting] = useState(false);
+  const [usage, setUsage] = useState<LlmUsageSummary[]>([]);
 
   // Load LLM configuration from database
   useEffect(() => {
     const loadLLMConfig = async () => {
       try {
+        // base_url is newer than the generated types
         const { data, error } = await supabase
-          .from('llm_configurations')
+          .from('llm_configurations' as any)
           .select('*')
           .eq('is_active', true)
           .single();
@@ -49,13 +62,22 @@ export const LLMConfigPanel = () => {
         }
 
         if (data) {
+          const row = data as unknown as {
+            system_prompt: string;
+            temperature: number;
+            max_tokens: number;
+            model: string;
+            provider: LlmProviderOption;
+            base_url: string | null;
+          };
           const loadedConfig = {
             ...config,
-            systemPrompt: data.system_prompt,
-            temperature: data.temperature,
-            maxTokens: data.max_tokens,
-            model: data.model,
-            provider: data.provider,
+            systemPrompt: row.system_prompt,
+            temperature: row.temperature,
+            maxTokens: row.max_tokens,
+            model: row.model,
+            provider: row.provider,
+            baseUrl: row.base_url ?? '',
           };
           setConfig(loadedConfig);
           setOriginalConfig(loadedConfig);
@@ -65,19 +87,36 @@ export const LLMConfigPanel = () => {
       }
     };
 
+    const loadUsage = async () => {
+      try {
+        const since = new Date(Date.now() - USAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const { data, error } = await supabase
+          .from('llm_usage' as any)
+          .select('user_id, function_name, provider, model, input_tokens, output_tokens, cost_usd, success, created_at')
+          .gte('created_at', since);
+
+        if (error) throw error;
+        setUsage(summarizeLlmUsage((data || []) as unknown as LlmUsageRow[]));
+      } catch (error) {
+        logger.error('Error loading LLM usage:', error);
+      }
+    };
+
     loadLLMConfig();
+    loadUsage();
   }, []);
 
   const handleSaveConfig = async () => {
     try {
       const { error } = await supabase
-        .from('llm_configurations')
+        .from('llm_configurations' as any)
         .update({
           system_prompt: config.systemPrompt,
           temperature: config.temperature,
           max_tokens: config.maxTokens,
           model: config.model,
           provider: config.provider,
+          base_url: config.provider === 'local' ? config.baseUrl || null : null,
           updated_at: new Date().toISOString(),
         })
         .eq('is_active', true);
@@ -111,6 +150,7 @@ export const LLMConfigPanel = () => {
   };
 
   const hasChanges = JSON.stringify(config) !== JSON.stringify(originalConfig);
+  const totalCost = usage.reduce((sum, u) => sum + u.cost_usd, 0);
 
   return (
     <div className="space-y-6">
@@ -129,10 +169,11 @@ export const LLMConfigPanel = () => {
       </div>
 
       <Tabs defaultValue="general" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4 bg-slate-800">
+        <TabsList className="grid w-full grid-cols-5 bg-slate-800">
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="prompt">System Prompt</TabsTrigger>
           <TabsTrigger value="sources">Data Sources</TabsTrigger>
+          <TabsTrigger value="usage">Usage</TabsTrigger>
           <TabsTrigger value="test">Testing</TabsTrigger>
         </TabsList>
 
@@ -142,41 +183,60 @@ export const LLMConfigPanel = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label className="text-slate-300">Provider</Label>
-                <Select value={config.provider} onValueChange={(value) => setConfig(prev => ({ ...prev, provider: value }))}>
+                <Select
+                  value={config.provider}
+                  onValueChange={(value: LlmProviderOption) => setConfig(prev => ({
+                    ...prev,
+                    provider: value,
+                    model: LLM_PROVIDER_MODELS[value][0]?.value ?? '',
+                  }))}
+                >
                   <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="openai">OpenAI</SelectItem>
                     <SelectItem value="anthropic">Anthropic (Claude)</SelectItem>
-                    <SelectItem value="google">Google (Gemini)</SelectItem>
+                    <SelectItem value="local">Local (OpenAI-compatible)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div>
                 <Label className="text-slate-300">Model</Label>
-                <Select value={config.model} onValueChange={(value) => setConfig(prev => ({ ...prev, model: value }))}>
-                  <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {config.provider === 'openai' && (
-                      <>
-                        <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
-                        <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                      </>
-                    )}
-                    {config.provider === 'anthropic' && (
-                      <>
-                        <SelectItem value="claude-3-haiku">Claude 3 Haiku</SelectItem>
-                        <SelectItem value="claude-3-sonnet">Claude 3 Sonnet</SelectItem>
-                      </>
-                    )}
-                  </SelectContent>
-                </Select>
+                {config.provider === 'local' ? (
+                  <Input
+                    value={config.model}
+                    onChange={(e) => setConfig(prev => ({ ...prev, model: e.target.value }))}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    placeholder="llama3.1:8b"
+                  />
+                ) : (
+                  <Select value={config.model} onValueChange={(value) => setConfig(prev => ({ ...prev, model: value }))}>
+                    <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(LLM_PROVIDER_MODELS[config.provider] ?? []).map((model) => (
+                        <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
 
+              {config.provider === 'local' && (
+                <div className="md:col-span-2">
+                  <Label className="text-slate-300">Base URL</Label>
+                  <Input
+                    value={config.baseUrl}
+                    onChange={(e) => setConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                    className="bg-slate-800 border-slate-600 text-white"
+                    placeholder="http://localhost:11434/v1 (falls back to LLM_LOCAL_BASE_URL)"
+                  />
+                </div>
+              )}
+
               <div>
                 <Label className="text-slate-300">Temperature</Label>
                 <Input
@@ -319,6 +379,34 @@ export const LLMConfigPanel = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="usage" className="space-y-4">
+          <Card className="p-6 bg-slate-700/30 border-slate-600">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white">Usage (last {USAGE_WINDOW_DAYS} days)</h3>
+              <Badge variant="outline" className="text-green-400 border-green-400/30">
+                ${totalCost.toFixed(2)} estimated
+              </Badge>
+            </div>
+            {usage.length === 0 ? (
+              <p className="text-slate-400">No LLM calls recorded yet</p>
+            ) : (
+              <div className="space-y-2">
+                {usage.map((u) => (
+                  <div key={u.user_id ?? 'system'} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg">
+                    <div>
+                      <h4 className="font-medium text-white font-mono text-sm">{u.user_id ?? 'System jobs'}</h4>
+                      <p className="text-sm text-slate-400">
+                        {u.calls} calls{u.failures > 0 ? ` (${u.failures} failed)` : ''} · {(u.input_tokens + u.output_tokens).toLocaleString()} tokens · last {new Date(u.last_used_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className="text-white font-medium">${u.cost_usd.toFixed(4)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </TabsContent>
+
         <TabsContent value="test" className="space-y-4">
           <Card className="p-6 bg-slate-700/30 border-slate-600">
             <h3 className="text-lg font-semibold text-white mb-4">Test LLM Integration</h3>
@@ -333,7 +421,7 @@ export const LLMConfigPanel = () => {
                     {config.provider.toUpperCase()} {config.model}
                   </Badge>
                   <Badge variant="outline" className="text-blue-400 border-blue-400/30">
-                    OPENAI_API_KEY Configured
+                    {LLM_PROVIDER_SECRETS[config.provider] ?? 'API key'} Configured
                   </Badge>
                 </div>
               </div>
@@ -359,7 +447,7 @@ export const LLMConfigPanel = () => {
               <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
                 <p className="text-sm text-green-300">
                   <strong>Status:</strong> Your AI Trading Assistant is active and responding to user queries. 
-                  The OpenAI API key is configured in Supabase secrets and the edge function is working properly.
+                  The {LLM_PROVIDER_SECRETS[config.provider] ?? 'API key'} secret is configured in Supabase and the edge function is working properly.
                 </p>
               </div>
             </div>
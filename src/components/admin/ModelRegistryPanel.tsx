@@ -0,0 +1,478 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { fromTable } from "@/utils/supa";
+import { logger } from "@/utils/logger";
+import {
+  canPromote,
+  formatPnlPct,
+  formatRatio,
+  isValidSignalThreshold,
+  MODEL_STATUS_TRANSITIONS,
+  parseOfflineMetrics,
+  sortModels,
+  type MlModelRecord,
+  type MlModelStatus,
+} from "@/utils/modelRegistry";
+import { Brain, Crown, Plus, RefreshCw, Save, X } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+
+interface TrainingDatasetOption {
+  id: string;
+  name: string;
+  horizon: string;
+  created_at: string;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  version: '',
+  storage_path: '',
+  dataset_id: 'none',
+  signal_threshold: '0.94',
+  offline_metrics: '',
+  notes: '',
+};
+
+const STATUS_BADGE: Record<MlModelStatus, string> = {
+  champion: 'bg-yellow-500/20 text-yellow-400',
+  challenger: 'bg-blue-500/20 text-blue-400',
+  shadow: 'bg-slate-500/20 text-slate-300',
+  retired: 'bg-slate-700/40 text-slate-500',
+};
+
+export function ModelRegistryPanel() {
+  const [models, setModels] = useState<MlModelRecord[]>([]);
+  const [datasets, setDatasets] = useState<TrainingDatasetOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [evaluating, setEvaluating] = useState(false);
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [promoting, setPromoting] = useState<MlModelRecord | null>(null);
+  const [promotionReason, setPromotionReason] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadRegistry();
+  }, []);
+
+  const loadRegistry = async () => {
+    try {
+      setLoading(true);
+      const [modelsRes, datasetsRes] = await Promise.all([
+        fromTable('ml_models').select('*').order('created_at', { ascending: false }),
+        fromTable('training_datasets')
+          .select('id, name, horizon, created_at')
+          .eq('status', 'completed')
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+      if (modelsRes.error) throw modelsRes.error;
+      if (datasetsRes.error) throw datasetsRes.error;
+      setModels(sortModels((modelsRes.data as MlModelRecord[]) || []));
+      setDatasets((datasetsRes.data as TrainingDatasetOption[]) || []);
+    } catch (error) {
+      logger.error('Error loading model registry:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load model registry",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const registerModel = async () => {
+    const threshold = Number(form.signal_threshold);
+    const offline = parseOfflineMetrics(form.offline_metrics);
+    if (!form.name.trim() || !form.version.trim() || !form.storage_path.trim()) {
+      toast({ title: "Missing fields", description: "Name, version and storage path are required", variant: "destructive" });
+      return;
+    }
+    if (!isValidSignalThreshold(threshold)) {
+      toast({ title: "Invalid threshold", description: "Signal threshold must be between 0 and 1", variant: "destructive" });
+      return;
+    }
+    if ('error' in offline) {
+      toast({ title: "Invalid offline metrics", description: offline.error, variant: "destructive" });
+      return;
+    }
+
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await fromTable('ml_models').insert({
+        name: form.name.trim(),
+        version: form.version.trim(),
+        storage_path: form.storage_path.trim(),
+        dataset_id: form.dataset_id === 'none' ? null : form.dataset_id,
+        signal_threshold: threshold,
+        offline_metrics: offline.metrics,
+        notes: form.notes.trim() || null,
+        status: 'shadow',
+        created_by: userData.user?.id ?? null,
+      });
+      if (error) throw error;
+
+      toast({ title: "Model registered", description: `${form.name}@${form.version} now runs in shadow` });
+      setRegisterOpen(false);
+      setForm(EMPTY_FORM);
+      loadRegistry();
+    } catch (error) {
+      logger.error('Error registering model:', error);
+      toast({
+        title: "Error",
+        description: (error as Error)?.message || "Failed to register model",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeStatus = async (model: MlModelRecord, status: MlModelStatus) => {
+    try {
+      const { error } = await fromTable('ml_models').update({ status }).eq('id', model.id);
+      if (error) throw error;
+      toast({ title: "Status updated", description: `${model.name}@${model.version} is now ${status}` });
+      loadRegistry();
+    } catch (error) {
+      logger.error('Error updating model status:', error);
+      toast({ title: "Error", description: "Failed to update model status", variant: "destructive" });
+    }
+  };
+
+  const promoteModel = async () => {
+    if (!promoting) return;
+    try {
+      const { error } = await supabase.rpc('promote_ml_model' as any, {
+        p_model_id: promoting.id,
+        p_reason: promotionReason.trim() || null,
+      });
+      if (error) throw error;
+      toast({
+        title: "Champion promoted",
+        description: `${promoting.name}@${promoting.version} now gates entries`,
+      });
+      setPromoting(null);
+      setPromotionReason('');
+      loadRegistry();
+    } catch (error) {
+      logger.error('Error promoting model:', error);
+      toast({
+        title: "Promotion failed",
+        description: (error as Error)?.message || "Failed to promote model",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const evaluateNow = async () => {
+    try {
+      setEvaluating(true);
+      const { data, error } = await supabase.functions.invoke('ml-model-evaluation', { body: {} });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Evaluation failed');
+      toast({ title: "Evaluation complete", description: `${data.samples} scored entries (${data.horizon})` });
+      loadRegistry();
+    } catch (error) {
+      logger.error('Error evaluating models:', error);
+      toast({
+        title: "Error",
+        description: (error as Error)?.message || "Failed to evaluate models",
+        variant: "destructive",
+      });
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const datasetName = (id: string | null) => {
+    if (!id) return '—';
+    const dataset = datasets.find((d) => d.id === id);
+    return dataset ? dataset.name : id.slice(0, 8);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-slate-400">Loading model registry...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-900/50 border-slate-700">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-white flex items-center gap-2">
+              <Brain className="w-5 h-5" />
+              Model Registry
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Every active model scores each entry in shadow. The champion's probability and threshold gate entries;
+              online metrics come from decision outcomes over the last 30 days.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={evaluateNow} disabled={evaluating}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${evaluating ? 'animate-spin' : ''}`} />
+              Evaluate now
+            </Button>
+            <Button size="sm" onClick={() => setRegisterOpen(true)} className="bg-green-600 hover:bg-green-700">
+              <Plus className="w-4 h-4 mr-2" />
+              Register model
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {models.length === 0 ? (
+            <div className="text-slate-400 text-sm">
+              No models registered. Entries are gated by the ML_SIGNAL_THRESHOLD fallback.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-slate-700">
+                    <TableHead className="text-slate-400">Model</TableHead>
+                    <TableHead className="text-slate-400">Status</TableHead>
+                    <TableHead className="text-slate-400">Threshold</TableHead>
+                    <TableHead className="text-slate-400">Dataset</TableHead>
+                    <TableHead className="text-slate-400">Offline</TableHead>
+                    <TableHead className="text-slate-400">Samples</TableHead>
+                    <TableHead className="text-slate-400">Precision</TableHead>
+                    <TableHead className="text-slate-400">Recall</TableHead>
+                    <TableHead className="text-slate-400">Mean P&L</TableHead>
+                    <TableHead className="text-slate-400">Gated P&L</TableHead>
+                    <TableHead className="text-slate-400">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {models.map((model) => {
+                    const online = model.online_metrics;
+                    return (
+                      <TableRow key={model.id} className="border-slate-700">
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {model.status === 'champion' && <Crown className="w-4 h-4 text-yellow-400" />}
+                            <code className="text-sm text-slate-300">{model.name}@{model.version}</code>
+                          </div>
+                          <div className="text-xs text-slate-500 mt-1">{model.storage_path}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`capitalize ${STATUS_BADGE[model.status]}`}>{model.status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-white font-mono">{Number(model.signal_threshold).toFixed(2)}</span>
+                        </TableCell>
+                        <TableCell className="text-slate-400 text-sm">{datasetName(model.dataset_id)}</TableCell>
+                        <TableCell className="text-slate-400 text-xs font-mono">
+                          {Object.entries(model.offline_metrics ?? {}).map(([key, value]) => (
+                            <div key={key}>{key}: {value}</div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-slate-300 font-mono">{online?.samples ?? 0}</TableCell>
+                        <TableCell className="text-slate-300 font-mono">{formatRatio(online?.precision)}</TableCell>
+                        <TableCell className="text-slate-300 font-mono">{formatRatio(online?.recall)}</TableCell>
+                        <TableCell className="text-slate-300 font-mono">{formatPnlPct(online?.selected_mean_pnl_pct)}</TableCell>
+                        <TableCell className="text-slate-300 font-mono">
+                          {online?.gated_entries ? `${formatPnlPct(online.gated_pnl_pct_sum)} (${online.gated_entries})` : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {MODEL_STATUS_TRANSITIONS[model.status].length > 0 && (
+                              <Select value="" onValueChange={(value) => changeStatus(model, value as MlModelStatus)}>
+                                <SelectTrigger className="w-32 h-8 bg-slate-800 border-slate-600 text-white">
+                                  <SelectValue placeholder="Move to…" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {MODEL_STATUS_TRANSITIONS[model.status].map((status) => (
+                                    <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            {canPromote(model.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPromoting(model)}
+                                className="text-yellow-400 hover:text-yellow-300"
+                              >
+                                <Crown className="w-4 h-4 mr-1" />
+                                Promote
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Register Dialog */}
+      <Dialog open={registerOpen} onOpenChange={setRegisterOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Register Model</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              New models start in shadow: scored on every entry, never gating.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="model_name" className="text-slate-300">Name</Label>
+                <Input
+                  id="model_name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="xgb-entry"
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div>
+                <Label htmlFor="model_version" className="text-slate-300">Version</Label>
+                <Input
+                  id="model_version"
+                  value={form.version}
+                  onChange={(e) => setForm({ ...form, version: e.target.value })}
+                  placeholder="2026-10-18"
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="storage_path" className="text-slate-300">Bundle path (ml-models bucket)</Label>
+              <Input
+                id="storage_path"
+                value={form.storage_path}
+                onChange={(e) => setForm({ ...form, storage_path: e.target.value })}
+                placeholder="registry/xgb-entry/2026-10-18.json"
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-slate-300">Training dataset</Label>
+                <Select value={form.dataset_id} onValueChange={(value) => setForm({ ...form, dataset_id: value })}>
+                  <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {datasets.map((dataset) => (
+                      <SelectItem key={dataset.id} value={dataset.id}>{dataset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="signal_threshold" className="text-slate-300">Signal threshold</Label>
+                <Input
+                  id="signal_threshold"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  value={form.signal_threshold}
+                  onChange={(e) => setForm({ ...form, signal_threshold: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="offline_metrics" className="text-slate-300">Offline metrics (JSON)</Label>
+              <Textarea
+                id="offline_metrics"
+                value={form.offline_metrics}
+                onChange={(e) => setForm({ ...form, offline_metrics: e.target.value })}
+                placeholder='{"auc": 0.71, "precision": 0.64, "recall": 0.22}'
+                className="bg-slate-800 border-slate-700 text-white font-mono text-sm"
+              />
+            </div>
+            <div>
+              <Label htmlFor="model_notes" className="text-slate-300">Notes</Label>
+              <Input
+                id="model_notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRegisterOpen(false)} className="text-slate-400">
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={registerModel} className="bg-green-600 hover:bg-green-700">
+              <Save className="w-4 h-4 mr-2" />
+              Register
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Promote Dialog */}
+      <Dialog open={!!promoting} onOpenChange={(open) => !open && setPromoting(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Promote {promoting?.name}@{promoting?.version}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              This model's probability and threshold ({Number(promoting?.signal_threshold ?? 0).toFixed(2)}) will gate
+              entries. The current champion becomes a challenger.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="promotion_reason" className="text-slate-300">Reason</Label>
+            <Input
+              id="promotion_reason"
+              value={promotionReason}
+              onChange={(e) => setPromotionReason(e.target.value)}
+              placeholder="Higher precision over 30 days"
+              className="bg-slate-800 border-slate-700 text-white"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPromoting(null)} className="text-slate-400">
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={promoteModel} className="bg-yellow-600 hover:bg-yellow-700">
+              <Crown className="w-4 h-4 mr-2" />
+              Promote to champion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
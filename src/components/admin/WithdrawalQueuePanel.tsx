@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Check, Send, ShieldAlert, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  actionableWithdrawals,
+  canReview,
+  formatVelocity,
+  shortAddress,
+  WITHDRAW_FUNCTION_BY_SOURCE,
+  type WithdrawalRequestRecord,
+} from '@/utils/withdrawalQueue';
+
+export const WithdrawalQueuePanel = () => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<WithdrawalRequestRecord[]>([]);
+  const [adminId, setAdminId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const [{ data: userData }, { data, error }] = await Promise.all([
+        supabase.auth.getUser(),
+        supabase
+          .from('withdrawal_requests')
+          .select('*')
+          .in('status', ['pending_approval', 'approved'])
+          .order('created_at', { ascending: true }),
+      ]);
+      if (error) throw error;
+      setAdminId(userData.user?.id ?? null);
+      setRequests(actionableWithdrawals((data ?? []) as WithdrawalRequestRecord[]));
+    } catch (error) {
+      console.error('Error fetching withdrawal queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch pending withdrawals",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const execute = async (request: WithdrawalRequestRecord) => {
+    const { data, error } = await supabase.functions.invoke(WITHDRAW_FUNCTION_BY_SOURCE[request.source], {
+      body: { request_id: request.id },
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Withdrawal failed');
+    return data.tx_hash as string;
+  };
+
+  const handleReview = async (request: WithdrawalRequestRecord, approve: boolean) => {
+    setBusyId(request.id);
+    try {
+      const { error } = await supabase.rpc('review_withdrawal_request', {
+        p_request_id: request.id,
+        p_approve: approve,
+        p_note: notes[request.id]?.trim() || undefined,
+      });
+      if (error) throw error;
+
+      if (!approve) {
+        toast({ title: "Withdrawal rejected", description: `${request.amount} ${request.asset} was not sent` });
+      } else {
+        const txHash = await execute(request);
+        toast({ title: "Withdrawal sent", description: `${request.amount} ${request.asset} · ${shortAddress(txHash)}` });
+      }
+    } catch (error) {
+      console.error('Error reviewing withdrawal:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to review withdrawal",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+      await fetchQueue();
+    }
+  };
+
+  const handleRetry = async (request: WithdrawalRequestRecord) => {
+    setBusyId(request.id);
+    try {
+      const txHash = await execute(request);
+      toast({ title: "Withdrawal sent", description: `${request.amount} ${request.asset} · ${shortAddress(txHash)}` });
+    } catch (error) {
+      console.error('Error executing withdrawal:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to execute withdrawal",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+      await fetchQueue();
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5" />
+              Pending Withdrawals
+            </CardTitle>
+            <CardDescription>
+              Withdrawals above the approval threshold wait here. Another admin than the requester must approve.
+            </CardDescription>
+          </div>
+          <Button onClick={fetchQueue} variant="outline" size="sm">
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-4 text-slate-400">No withdrawals waiting for approval.</div>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => {
+              const usage = request.evaluation?.usage;
+              const reviewable = canReview(request, adminId);
+              return (
+                <div
+                  key={request.id}
+                  className="p-4 bg-slate-700/50 rounded-lg border border-slate-600 space-y-3"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium">{request.amount} {request.asset}</span>
+                        <span className="text-slate-400">→</span>
+                        <code className="text-sm text-slate-300">{shortAddress(request.to_address)}</code>
+                        <Badge variant="outline" className="bg-blue-500/20 text-blue-400 border-blue-500/30">
+                          {request.source === 'system_wallet' ? 'System wallet' : 'Execution wallet'}
+                        </Badge>
+                        {request.status === 'approved' && (
+                          <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                            APPROVED · NOT SENT
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-4 text-xs text-slate-400 mt-1">
+                        <span>User: {request.user_id}</span>
+                        {request.requested_by !== request.user_id && <span>Requested by: {request.requested_by}</span>}
+                        <span>Day: {formatVelocity(usage?.daily_used, usage?.daily_limit)}</span>
+                        <span>Week: {formatVelocity(usage?.weekly_used, usage?.weekly_limit)}</span>
+                        <span>{new Date(request.created_at).toLocaleString()}</span>
+                      </div>
+                      {request.evaluation?.reasons?.map((reason) => (
+                        <div key={reason.code} className="text-xs text-yellow-400 mt-1">{reason.message}</div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {request.status === 'pending_approval' ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        placeholder="Review note (optional)"
+                        value={notes[request.id] ?? ''}
+                        onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                        className="bg-slate-700 border-slate-600 text-white h-8"
+                        disabled={!reviewable}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleReview(request, true)}
+                        disabled={!reviewable || busyId === request.id}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve & send
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReview(request, false)}
+                        disabled={!reviewable || busyId === request.id}
+                        className="text-red-400 border-red-400 hover:bg-red-400/10"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                      {!reviewable && <span className="text-xs text-slate-500">Requested by you</span>}
+                    </div>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRetry(request)}
+                      disabled={busyId === request.id}
+                    >
+                      <Send className="w-4 h-4 mr-1" />
+                      Send now
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
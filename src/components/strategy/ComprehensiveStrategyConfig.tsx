@@ -19,6 +19,8 @@ import { CoinsAmountsPanel } from './CoinsAmountsPanel';
 import { PerformancePanel } from './PerformancePanel';
 import { SellSettingsPanel } from './SellSettingsPanel';
 import { AdvancedSymbolOverridesPanel } from './AdvancedSymbolOverridesPanel';
+import { RegimeProfilesPanel } from './RegimeProfilesPanel';
+import { StrategyVersionHistoryPanel } from './StrategyVersionHistoryPanel';
 import { 
   Save, 
   ArrowLeft, 
@@ -44,9 +46,11 @@ import {
   X,
   Brain,
   Lock,
-  Download
+  Download,
+  History
 } from 'lucide-react';
 import { serializeStrategy, generateExportFilename, downloadStrategyAsJson } from '@/utils/strategySerializer';
+import { cleanRegimeProfiles, type RegimeProfiles } from '@/utils/regimeProfiles';
 import { useAuth } from '@/hooks/useAuth';
 import { useTestMode } from '@/hooks/useTradeViewFilter';
 import { supabase } from '@/integrations/supabase/client';
@@ -216,6 +220,9 @@ interface StrategyFormData {
   spreadThresholdBps: number;    // Max allowed spread in basis points (0.1 - 200)
   priceStaleMaxMs: number;       // Max allowed price staleness in milliseconds (1000 - 60000)
   minDepthRatio: number;         // Min liquidity depth ratio (0 - 3)
+
+  // Per-regime overrides, resolved by the coordinator from the current market regime
+  regimeProfiles?: RegimeProfiles;
   
   // === STABILIZATION GATES (consumed by coordinator) ===
   minTrendScoreForBuy: number;       // 0-1, minimum trend score for BUY
@@ -296,6 +303,8 @@ const MENU_SECTIONS = [
     title: 'ADVANCED',
     items: [
       { id: 'advanced-overrides', label: 'Per-Symbol Overrides & Safety', icon: Shield },
+      { id: 'regime-profiles', label: 'Regime Profiles', icon: BarChart3 },
+      { id: 'version-history', label: 'Version History', icon: History },
       { id: 'deprecated-features', label: 'Deprecated / Inactive Features', icon: AlertTriangle }
     ]
   }
@@ -886,6 +895,8 @@ export const ComprehensiveStrategyConfig: React.FC<ComprehensiveStrategyConfigPr
         // Market quality gates (NEW CANONICAL KEYS)
         priceStaleMaxMs: canonicalPriceStaleMaxMs,
         spreadThresholdBps: canonicalSpreadThresholdBps,
+        // Per-regime overrides (known regimes / fields only)
+        regimeProfiles: cleanRegimeProfiles(formData.regimeProfiles),
       };
 
       // B31 fix: shared content fields only. Do NOT include test_mode or
@@ -2875,6 +2886,32 @@ export const ComprehensiveStrategyConfig: React.FC<ComprehensiveStrategyConfigPr
                     />
                   )}
 
+                  {/* Regime Profiles Panel */}
+                  {activeSection === 'regime-profiles' && (
+                    <RegimeProfilesPanel
+                      profiles={formData.regimeProfiles}
+                      baseValues={{
+                        takeProfitPercentage: formData.takeProfitPercentage,
+                        stopLossPercentage: formData.stopLossPercentage,
+                        trailingStopLossPercentage: formData.trailingStopLossPercentage,
+                        aiConfidenceThreshold: formData.aiIntelligenceConfig?.aiConfidenceThreshold,
+                        spreadThresholdBps: formData.spreadThresholdBps,
+                        perTradeAllocation: formData.perTradeAllocation,
+                        minHoldPeriodMs: formData.unifiedConfig?.minHoldPeriodMs,
+                        cooldownBetweenOppositeActionsMs: formData.unifiedConfig?.cooldownBetweenOppositeActionsMs,
+                      }}
+                      onChange={(regimeProfiles) => updateFormData('regimeProfiles', regimeProfiles)}
+                    />
+                  )}
+
+                  {/* Version History Panel */}
+                  {activeSection === 'version-history' && (
+                    <StrategyVersionHistoryPanel
+                      strategyId={existingStrategy?.id}
+                      onRolledBack={onBack}
+                    />
+                  )}
+
                   {/* Deprecated / Inactive Features Panel */}
                   {activeSection === 'deprecated-features' && (
                     <DeprecatedFieldsPanel />
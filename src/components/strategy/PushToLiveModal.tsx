@@ -3,34 +3,40 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { AlertTriangle, Check, X, Loader2, Rocket, Shield, Wallet, FileCheck } from 'lucide-react';
+import { Activity, AlertTriangle, Check, X, Loader2, Rocket, Shield, Wallet, FileCheck, FlaskConical, Target } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { logger } from '@/utils/logger';
+import {
+  formatPromotionCheck,
+  PROMOTION_CHECK_LABELS,
+  type PromotionCheck,
+  type PromotionCheckId,
+  type PromotionResponse,
+} from '@/utils/promotionChecklist';
 
 /**
- * NEW RPC CONTRACT (check_live_trading_prerequisites):
- * 
- * wallet_exists = EXTERNAL WALLET registered (user_external_addresses)
- * has_portfolio_capital = REAL portfolio capital > 0 (SOLE authority)
- * 
- * checks: {
- *   wallet_exists: boolean,           // External wallet registered
- *   has_portfolio_capital: boolean,   // REAL cash > 0
- *   rules_accepted: boolean
- * }
+ * PROMOTION GATE (strategy-promotion edge function):
+ *
+ * { action: 'check' }   → { passed, checks, metrics }  (preflight, nothing stored)
+ * { action: 'promote' } → re-evaluates server-side, stores a signed report and
+ *                         creates the LIVE strategy only when every check passed
+ *
+ * The wallet / capital / rules checks of check_live_trading_prerequisites are
+ * part of the server checklist; this modal only renders it.
  */
-interface PrerequisiteChecks {
-  wallet_exists: boolean;
-  has_portfolio_capital: boolean;
-  rules_accepted: boolean;
-}
-
-interface PrerequisiteMeta {
-  external_wallet_address: string | null;
-  portfolio_balance_eur: number;
-}
+const CHECK_ICONS: Record<PromotionCheckId, React.ReactNode> = {
+  mock_sample_size: <Activity className="h-4 w-4 text-muted-foreground" />,
+  max_drawdown: <Activity className="h-4 w-4 text-muted-foreground" />,
+  win_rate: <Target className="h-4 w-4 text-muted-foreground" />,
+  calibration: <Target className="h-4 w-4 text-muted-foreground" />,
+  portfolio_capital: <Wallet className="h-4 w-4 text-muted-foreground" />,
+  external_wallet: <Wallet className="h-4 w-4 text-muted-foreground" />,
+  rules_accepted: <FileCheck className="h-4 w-4 text-muted-foreground" />,
+  circuit_breakers: <Shield className="h-4 w-4 text-muted-foreground" />,
+  experiment: <FlaskConical className="h-4 w-4 text-muted-foreground" />,
+};
 
 interface PushToLiveModalProps {
   open: boolean;
@@ -53,7 +59,7 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
   const { user } = useAuth();
   const { toast } = useToast();
   const [step, setStep] = useState<ModalStep>('checking');
-  const [checks, setChecks] = useState<PrerequisiteChecks | null>(null);
+  const [checks, setChecks] = useState<PromotionCheck[] | null>(null);
   const [panicActive, setPanicActive] = useState(false);
   const [canTradeLive, setCanTradeLive] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
@@ -81,14 +87,14 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
   }, [open]);
 
   const runPreflightChecks = async () => {
-    if (!user) return;
+    if (!user || !strategy) return;
 
     setStep('checking');
     setErrorMessage('');
 
     try {
-      const { data, error } = await (supabase as any).rpc('check_live_trading_prerequisites', {
-        p_user_id: user.id,
+      const { data, error } = await supabase.functions.invoke('strategy-promotion', {
+        body: { action: 'check', strategyId: strategy.id },
       });
 
       if (error) {
@@ -98,12 +104,19 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
         return;
       }
 
-      const result = data as { ok: boolean; checks: PrerequisiteChecks; panic_active: boolean; meta: PrerequisiteMeta };
+      const result = data as PromotionResponse;
+      if (!result.success || !result.checks) {
+        setErrorMessage(result.error || 'Failed to check promotion gate.');
+        setStep('error');
+        return;
+      }
+
+      const ready = result.passed === true;
       setChecks(result.checks);
-      setPanicActive(result.panic_active === true);
-      setCanTradeLive(result.ok === true);
+      setPanicActive((result.metrics?.active_breakers ?? []).some((b) => b.startsWith('PANIC')));
+      setCanTradeLive(ready);
 
-      if (result.ok === true) {
+      if (ready) {
         setStep('confirm');
       } else {
         setStep('blocked');
@@ -125,9 +138,8 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
     setStep('promoting');
 
     try {
-      const { data, error } = await (supabase as any).rpc('promote_strategy_to_live', {
-        p_strategy_id: strategy.id,
-        p_user_id: user.id,
+      const { data, error } = await supabase.functions.invoke('strategy-promotion', {
+        body: { action: 'promote', strategyId: strategy.id },
       });
 
       if (error) {
@@ -137,8 +149,7 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
         return;
       }
 
-      // RPC returns { success: boolean, new_strategy_id?: string, error?: string }
-      const result = data as { success: boolean; new_strategy_id?: string; error?: string };
+      const result = data as PromotionResponse;
 
       if (result.success && result.new_strategy_id) {
         setNewStrategyId(result.new_strategy_id);
@@ -147,6 +158,11 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
           title: 'Strategy Promoted to LIVE',
           description: 'Your strategy has been created in LIVE mode (PAUSED). Activate it manually when ready.',
         });
+      } else if (result.error === 'promotion_gate_failed' && result.checks) {
+        // Something changed since the preflight; show what the server saw
+        setChecks(result.checks);
+        setCanTradeLive(false);
+        setStep('blocked');
       } else {
         setErrorMessage(result.error || 'Promotion failed unexpectedly.');
         setStep('error');
@@ -170,12 +186,16 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
     passed: boolean,
     icon: React.ReactNode,
     ctaLabel?: string,
-    ctaAction?: () => void
+    ctaAction?: () => void,
+    detail?: string
   ) => (
     <div className="flex items-center justify-between py-2 border-b border-border last:border-0">
       <div className="flex items-center gap-3">
         {icon}
-        <span className="text-sm font-medium">{label}</span>
+        <div>
+          <span className="text-sm font-medium">{label}</span>
+          {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+        </div>
       </div>
       <div className="flex items-center gap-2">
         {passed ? (
@@ -205,6 +225,15 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
     window.location.href = tab ? `/profile?tab=${tab}` : '/profile';
   };
 
+  const checkCta = (id: PromotionCheckId): [string, () => void] | [] => {
+    if (id === 'external_wallet') return ['Connect Wallet', () => navigateToProfile('wallet')];
+    if (id === 'portfolio_capital') return ['Fund Portfolio', () => navigateToProfile('wallet')];
+    if (id === 'rules_accepted') return ['Accept Rules', () => navigateToProfile('rules')];
+    return [];
+  };
+
+  const experimentWon = checks?.some((c) => c.id === 'experiment' && c.value === 'won') ?? false;
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="max-w-md">
@@ -243,32 +272,27 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
             <div className="py-4 space-y-1">
               {checks ? (
                 <>
-                  {renderCheckRow(
-                    'External Wallet Connected',
-                    checks.wallet_exists,
-                    <Wallet className="h-4 w-4 text-muted-foreground" />,
-                    'Connect Wallet',
-                    () => navigateToProfile('wallet')
-                  )}
-                  {renderCheckRow(
-                    'Portfolio Capital',
-                    checks.has_portfolio_capital,
-                    <Wallet className="h-4 w-4 text-muted-foreground" />,
-                    'Fund Portfolio',
-                    () => navigateToProfile('wallet')
-                  )}
-                  {renderCheckRow(
-                    'Trading Rules Accepted',
-                    checks.rules_accepted,
-                    <FileCheck className="h-4 w-4 text-muted-foreground" />,
-                    'Accept Rules',
-                    () => navigateToProfile('rules')
-                  )}
+                  {checks.map((check) => {
+                    const [ctaLabel, ctaAction] = checkCta(check.id);
+                    return (
+                      <React.Fragment key={check.id}>
+                        {renderCheckRow(
+                          PROMOTION_CHECK_LABELS[check.id],
+                          check.passed,
+                          CHECK_ICONS[check.id],
+                          ctaLabel,
+                          ctaAction,
+                          formatPromotionCheck(check)
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
                 </>
               ) : (
                 <div className="text-sm text-muted-foreground space-y-2">
                   <p>To trade LIVE, you need to:</p>
                   <ul className="list-disc list-inside space-y-1">
+                    <li>Build a MOCK track record for this strategy</li>
                     <li>Connect an external wallet</li>
                     <li>Fund portfolio capital</li>
                     <li>Accept the trading rules</li>
@@ -331,11 +355,16 @@ export const PushToLiveModal: React.FC<PushToLiveModalProps> = ({
                   <Check className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
                   <div className="text-sm">
                     <p className="font-medium text-green-800 dark:text-green-200">
-                      All prerequisites passed
+                      All promotion checks passed
                     </p>
                     <p className="text-green-700 dark:text-green-300">
-                      Wallet funded, rules accepted, no panic active.
+                      MOCK track record, calibration, funding and safety checks passed. A signed promotion report is stored with the LIVE strategy.
                     </p>
+                    {experimentWon && (
+                      <p className="text-green-700 dark:text-green-300">
+                        Won its latest A/B experiment.
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
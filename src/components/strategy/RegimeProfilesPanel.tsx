@@ -0,0 +1,107 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Activity, RotateCcw } from 'lucide-react';
+import {
+  MARKET_REGIMES,
+  REGIME_PROFILE_FIELDS,
+  type MarketRegime,
+  type RegimeProfileField,
+  type RegimeProfiles,
+} from '@/utils/regimeProfiles';
+
+interface RegimeProfilesPanelProps {
+  profiles: RegimeProfiles | undefined;
+  /** Flat configuration values, shown as the inherited default */
+  baseValues: Partial<Record<RegimeProfileField, number | undefined>>;
+  onChange: (profiles: RegimeProfiles) => void;
+}
+
+export const RegimeProfilesPanel: React.FC<RegimeProfilesPanelProps> = ({
+  profiles,
+  baseValues,
+  onChange
+}) => {
+  const current = profiles || {};
+
+  const updateField = (regime: MarketRegime, field: RegimeProfileField, raw: string) => {
+    const profile = { ...(current[regime] || {}) };
+    const value = Number(raw);
+    if (raw === '' || !Number.isFinite(value) || value < 0) {
+      delete profile[field];
+    } else {
+      profile[field] = value;
+    }
+    onChange({ ...current, [regime]: profile });
+  };
+
+  const clearRegime = (regime: MarketRegime) => {
+    const next = { ...current };
+    delete next[regime];
+    onChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Regime Profiles
+        </CardTitle>
+        <CardDescription>
+          Override part of the strategy while a market regime is active. The regime is classified per symbol
+          from 5m volatility, returns and EMA structure; empty fields keep the strategy value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {MARKET_REGIMES.map((regime) => {
+          const profile = current[regime.id] || {};
+          const overrideCount = Object.keys(profile).length;
+
+          return (
+            <div key={regime.id} className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm font-medium">{regime.label}</Label>
+                  <p className="text-xs text-muted-foreground">{regime.description}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={overrideCount > 0 ? 'default' : 'outline'} className="text-xs">
+                    {overrideCount > 0 ? `${overrideCount} override${overrideCount > 1 ? 's' : ''}` : 'Inherits strategy'}
+                  </Badge>
+                  {overrideCount > 0 && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => clearRegime(regime.id)}>
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {REGIME_PROFILE_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`${regime.id}-${field.key}`} className="text-xs">
+                      {field.label} ({field.unit})
+                    </Label>
+                    <Input
+                      id={`${regime.id}-${field.key}`}
+                      type="number"
+                      min={0}
+                      step={field.step}
+                      value={profile[field.key] ?? ''}
+                      placeholder={baseValues[field.key] !== undefined ? String(baseValues[field.key]) : 'strategy value'}
+                      onChange={(e) => updateField(regime.id, field.key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
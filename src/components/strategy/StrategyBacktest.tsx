@@ -4,30 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { TrendingUp, TrendingDown, Activity, DollarSign, Target, BarChart3 } from 'lucide-react';
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { runBacktest, type BacktestResult, type BacktestGranularity } from "@/engine/backtester";
 
-interface BacktestResult {
-  period_days: number;
-  total_trades: number;
-  winning_trades: number;
-  win_rate: number;
-  total_return: number;
-  final_portfolio_value: number;
-  initial_value: number;
-  trades: Array<{
-    timestamp: string;
-    action: string;
-    symbol: string;
-    amount: number;
-    price: number;
-    value: number;
-    reasoning: string;
-  }>;
-  signals_analyzed: number;
-  strategy_effectiveness: number;
-}
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
 
 interface Strategy {
   id: string;
@@ -40,6 +25,10 @@ export const StrategyBacktest: React.FC = () => {
   const [strategies, setStrategies] = useState<Strategy[]>([]);
   const [selectedStrategy, setSelectedStrategy] = useState<string>('');
   const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(null);
+  const [startDate, setStartDate] = useState<string>(toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState<string>(toDateInput(new Date()));
+  const [initialCapital, setInitialCapital] = useState<string>('1000');
+  const [granularity, setGranularity] = useState<BacktestGranularity>('1h');
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStrategies, setLoadingStrategies] = useState(true);
   const { toast } = useToast();
@@ -73,7 +62,7 @@ export const StrategyBacktest: React.FC = () => {
     }
   };
 
-  const runBacktest = async () => {
+  const handleRunBacktest = async () => {
     if (!selectedStrategy) {
       toast({
         title: "Error",
@@ -83,31 +72,51 @@ export const StrategyBacktest: React.FC = () => {
       return;
     }
 
+    const capital = Number(initialCapital);
+    if (!(capital > 0)) {
+      toast({
+        title: "Error",
+        description: "Starting capital must be a positive amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase.functions.invoke('automated-trading-engine', {
-        body: {
-          action: 'backtest_strategy',
-          userId: user.id,
-          strategyId: selectedStrategy
-        }
-      });
+      const strategy = strategies.find(s => s.id === selectedStrategy);
+      if (!strategy) throw new Error('Strategy not found');
 
-      if (error) throw error;
+      // Same fee rate the live ledger uses (profiles.fee_rate)
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('fee_rate')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      const result = await runBacktest(supabase, {
+        strategyId: strategy.id,
+        strategyConfig: strategy.configuration || {},
+        startDate: new Date(`${startDate}T00:00:00Z`),
+        endDate: new Date(`${endDate}T23:59:59Z`),
+        initialCapital: capital,
+        feeRate: profile?.fee_rate ?? 0,
+        granularity,
+      });
 
-      setBacktestResult(data.backtest_results);
+      setBacktestResult(result);
       toast({
         title: "Backtest Complete",
-        description: `Analyzed ${data.backtest_results.total_trades} trades over ${data.period_days} days`,
+        description: `Replayed ${result.barsProcessed} bars, ${result.totalLots} closed lots`,
       });
     } catch (error) {
       console.error('Error running backtest:', error);
       toast({
         title: "Error",
-        description: "Failed to run backtest. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to run backtest. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -181,22 +190,37 @@ export const StrategyBacktest: React.FC = () => {
             </div>
             
             <div className="space-y-2">
-              <label className="text-sm font-medium">Backtest Period</label>
-              <Select defaultValue="30">
+              <label className="text-sm font-medium">Candle Granularity</label>
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as BacktestGranularity)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="7">Last 7 days</SelectItem>
-                  <SelectItem value="30">Last 30 days</SelectItem>
-                  <SelectItem value="90">Last 90 days</SelectItem>
+                  <SelectItem value="5m">5 minutes</SelectItem>
+                  <SelectItem value="1h">1 hour</SelectItem>
+                  <SelectItem value="24h">1 day</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Start Date</label>
+              <Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">End Date</label>
+              <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Starting Capital (EUR)</label>
+              <Input type="number" min="1" step="100" value={initialCapital} onChange={(e) => setInitialCapital(e.target.value)} />
+            </div>
+          </div>
+
           <Button 
-            onClick={runBacktest} 
+            onClick={handleRunBacktest} 
             disabled={!selectedStrategy || isLoading}
             className="w-full"
           >
@@ -226,7 +250,8 @@ export const StrategyBacktest: React.FC = () => {
                 Backtest Results
               </CardTitle>
               <CardDescription>
-                Performance analysis for {backtestResult.period_days} days
+                {new Date(backtestResult.startDate).toLocaleDateString()} → {new Date(backtestResult.endDate).toLocaleDateString()}
+                {' '}· {backtestResult.barsProcessed} {backtestResult.granularity} bars · {backtestResult.signalsLoaded} signals
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -236,22 +261,22 @@ export const StrategyBacktest: React.FC = () => {
                     <TrendingUp className="h-4 w-4 text-muted-foreground" />
                     <span className="text-sm font-medium">Total Return</span>
                   </div>
-                  <div className={`text-2xl font-bold ${backtestResult.total_return >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatPercentage(backtestResult.total_return)}
+                  <div className={`text-2xl font-bold ${backtestResult.totalReturnPct >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatPercentage(backtestResult.totalReturnPct)}
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    {formatCurrency(backtestResult.final_portfolio_value)} final value
+                    {formatCurrency(backtestResult.finalEquity)} final equity
                   </div>
                 </div>
 
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
-                    <Activity className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm font-medium">Total Trades</span>
+                    <TrendingDown className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Max Drawdown</span>
                   </div>
-                  <div className="text-2xl font-bold">{backtestResult.total_trades}</div>
+                  <div className="text-2xl font-bold text-red-600">-{backtestResult.maxDrawdownPct.toFixed(2)}%</div>
                   <div className="text-sm text-muted-foreground">
-                    {backtestResult.signals_analyzed} signals analyzed
+                    Sharpe {backtestResult.sharpeRatio.toFixed(2)}
                   </div>
                 </div>
 
@@ -260,20 +285,22 @@ export const StrategyBacktest: React.FC = () => {
                     <Target className="h-4 w-4 text-muted-foreground" />
                     <span className="text-sm font-medium">Win Rate</span>
                   </div>
-                  <div className="text-2xl font-bold">{formatPercentage(backtestResult.win_rate)}</div>
+                  <div className="text-2xl font-bold">{backtestResult.winRate.toFixed(2)}%</div>
                   <div className="text-sm text-muted-foreground">
-                    {backtestResult.winning_trades} winning trades
+                    {backtestResult.winningLots} of {backtestResult.totalLots} closed lots
                   </div>
                 </div>
 
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
-                    <BarChart3 className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm font-medium">Effectiveness</span>
+                    <DollarSign className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Realized P&L</span>
+                  </div>
+                  <div className={`text-2xl font-bold ${backtestResult.realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(backtestResult.realizedPnl)}
                   </div>
-                  <div className="text-2xl font-bold">{formatPercentage(backtestResult.strategy_effectiveness)}</div>
                   <div className="text-sm text-muted-foreground">
-                    Signal to trade conversion
+                    {formatCurrency(backtestResult.totalFees)} fees · {formatCurrency(backtestResult.unrealizedPnl)} unrealized
                   </div>
                 </div>
               </div>
@@ -281,55 +308,113 @@ export const StrategyBacktest: React.FC = () => {
               <div className="mt-6 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Win Rate Progress</span>
-                  <span>{formatPercentage(backtestResult.win_rate)}</span>
+                  <span>{backtestResult.winRate.toFixed(2)}%</span>
                 </div>
-                <Progress value={backtestResult.win_rate} className="h-2" />
+                <Progress value={backtestResult.winRate} className="h-2" />
               </div>
+
+              {Object.keys(backtestResult.blockedReasons).length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <div className="text-sm font-medium">Entries blocked by gates</div>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(backtestResult.blockedReasons).map(([reason, count]) => (
+                      <Badge key={reason} variant="outline" className="text-xs">
+                        {reason}: {count}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
-          {/* Trade History */}
+          {/* Equity Curve */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Equity Curve
+              </CardTitle>
+              <CardDescription>Cash plus marked-to-market open lots at each bar close</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={backtestResult.equityCurve}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="timestamp" tickFormatter={(value) => new Date(value).toLocaleDateString()} />
+                    <YAxis domain={['auto', 'auto']} />
+                    <Tooltip
+                      formatter={(value: number) => [formatCurrency(value), 'Equity']}
+                      labelFormatter={(label) => new Date(label).toLocaleString()}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="equity"
+                      stroke="#8884d8"
+                      fill="#8884d8"
+                      fillOpacity={0.3}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Per-lot Results */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <DollarSign className="h-5 w-5" />
-                Trade History (Sample)
+                Closed Lots
               </CardTitle>
               <CardDescription>
-                Recent trades from the backtest simulation
+                Realized P&L per lot, net of entry and exit fees
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                {backtestResult.trades.map((trade, index) => (
-                  <div key={index} className="flex items-center justify-between p-3 rounded-lg border">
-                    <div className="flex items-center gap-3">
-                      <Badge 
-                        variant={trade.action === 'buy' ? 'default' : 'secondary'}
-                        className={trade.action === 'buy' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
-                      >
-                        {trade.action.toUpperCase()}
-                      </Badge>
-                      <div>
-                        <div className="font-medium">{trade.symbol}</div>
-                        <div className="text-sm text-muted-foreground">
-                          {trade.amount.toFixed(6)} @ {formatCurrency(trade.price)}
-                        </div>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="font-medium">{formatCurrency(trade.value)}</div>
-                      <div className="text-sm text-muted-foreground">
-                        {new Date(trade.timestamp).toLocaleDateString()}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-
-              {backtestResult.trades.length === 0 && (
+              {backtestResult.lots.length > 0 ? (
+                <div className="max-h-[400px] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Symbol</TableHead>
+                        <TableHead>Entry</TableHead>
+                        <TableHead>Exit</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Fees</TableHead>
+                        <TableHead className="text-right">P&L</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {backtestResult.lots.map((lot, index) => (
+                        <TableRow key={`${lot.lotId}-${index}`}>
+                          <TableCell className="font-medium">{lot.symbol}</TableCell>
+                          <TableCell>
+                            <div>{formatCurrency(lot.entryPrice)}</div>
+                            <div className="text-xs text-muted-foreground">{new Date(lot.entryDate).toLocaleString()}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{formatCurrency(lot.exitPrice)}</div>
+                            <div className="text-xs text-muted-foreground">{new Date(lot.exitDate).toLocaleString()}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className="text-xs">{lot.exitReason}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{lot.amount.toFixed(6)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(lot.fees)}</TableCell>
+                          <TableCell className={`text-right font-medium ${lot.realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(lot.realizedPnl)} ({formatPercentage(lot.realizedPnlPct)})
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
                 <div className="text-center py-6 text-muted-foreground">
-                  No trades were executed during this backtest period
+                  No lots were closed during this backtest period
                 </div>
               )}
             </CardContent>
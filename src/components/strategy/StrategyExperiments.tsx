@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, Play, RefreshCw, Square } from 'lucide-react';
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { logger } from '@/utils/logger';
+import { formatInterval, type StrategyExperiment } from '@/utils/strategyExperiments';
+
+interface MockStrategy {
+  id: string;
+  strategy_name: string;
+}
+
+const STATUS_VARIANT: Record<StrategyExperiment['status'], 'default' | 'secondary' | 'outline'> = {
+  running: 'default',
+  completed: 'secondary',
+  stopped: 'outline',
+};
+
+export const StrategyExperiments: React.FC = () => {
+  const { toast } = useToast();
+  const [strategies, setStrategies] = useState<MockStrategy[]>([]);
+  const [experiments, setExperiments] = useState<StrategyExperiment[]>([]);
+  const [name, setName] = useState('');
+  const [controlId, setControlId] = useState('');
+  const [variantId, setVariantId] = useState('');
+  const [splitMode, setSplitMode] = useState<'symbol' | 'time'>('symbol');
+  const [slotMinutes, setSlotMinutes] = useState('60');
+  const [primaryMetric, setPrimaryMetric] = useState<'pnl' | 'win_rate'>('pnl');
+  const [alpha, setAlpha] = useState('0.01');
+  const [minTrades, setMinTrades] = useState('30');
+  const [maxDays, setMaxDays] = useState('30');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [strategiesRes, experimentsRes] = await Promise.all([
+        supabase
+          .from('trading_strategies')
+          .select('id, strategy_name, execution_target')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('strategy_experiments')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('started_at', { ascending: false }),
+      ]);
+
+      if (strategiesRes.error) throw strategiesRes.error;
+      if (experimentsRes.error) throw experimentsRes.error;
+
+      setStrategies(
+        (strategiesRes.data || []).filter((s) => (s.execution_target || 'MOCK') === 'MOCK')
+      );
+      setExperiments((experimentsRes.data || []) as unknown as StrategyExperiment[]);
+    } catch (error) {
+      logger.error('Error loading experiments:', error);
+    }
+  };
+
+  const strategyName = (id: string) => strategies.find((s) => s.id === id)?.strategy_name ?? id.slice(0, 8);
+
+  const handleStart = async () => {
+    if (!name.trim() || !controlId || !variantId || controlId === variantId) {
+      toast({ title: "Error", description: "Name the experiment and pick two different strategies", variant: "destructive" });
+      return;
+    }
+
+    setBusy('start');
+    try {
+      const { error } = await supabase.rpc('start_strategy_experiment', {
+        p_name: name.trim(),
+        p_control_strategy_id: controlId,
+        p_variant_strategy_id: variantId,
+        p_split_mode: splitMode,
+        p_split_config: splitMode === 'time' ? { slot_minutes: Number(slotMinutes) } : {},
+        p_primary_metric: primaryMetric,
+        p_alpha: Number(alpha),
+        p_min_trades_per_arm: Number(minTrades),
+        p_max_duration_days: Number(maxDays),
+      });
+      if (error) throw error;
+
+      toast({ title: "Experiment started", description: "Both strategies are active in MOCK with the entry split applied." });
+      setName('');
+      await loadData();
+    } catch (error) {
+      logger.error('Error starting experiment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start experiment",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEvaluate = async (experiment: StrategyExperiment) => {
+    setBusy(experiment.id);
+    try {
+      const { error } = await supabase.functions.invoke('strategy-experiment-evaluator', {
+        body: { experimentId: experiment.id },
+      });
+      if (error) throw error;
+      await loadData();
+    } catch (error) {
+      logger.error('Error evaluating experiment:', error);
+      toast({ title: "Error", description: "Failed to evaluate experiment", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStop = async (experiment: StrategyExperiment) => {
+    setBusy(experiment.id);
+    try {
+      const { error } = await supabase
+        .from('strategy_experiments')
+        .update({ status: 'stopped', stopped_reason: 'manual', ended_at: new Date().toISOString() })
+        .eq('id', experiment.id)
+        .eq('status', 'running');
+      if (error) throw error;
+      await loadData();
+    } catch (error) {
+      logger.error('Error stopping experiment:', error);
+      toast({ title: "Error", description: "Failed to stop experiment", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            A/B Strategy Experiments
+          </CardTitle>
+          <CardDescription>
+            Run a control and a variant MOCK strategy on the same signals, each trading its own symbols or time
+            slots. The experiment stops by itself once the difference is significant; the winner can then be pushed to LIVE.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Wider TP in trends" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Control</label>
+              <Select value={controlId} onValueChange={setControlId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategies.map((strategy) => (
+                    <SelectItem key={strategy.id} value={strategy.id}>{strategy.strategy_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Variant</label>
+              <Select value={variantId} onValueChange={setVariantId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategies.filter((s) => s.id !== controlId).map((strategy) => (
+                    <SelectItem key={strategy.id} value={strategy.id}>{strategy.strategy_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Split</label>
+              <Select value={splitMode} onValueChange={(value) => setSplitMode(value as 'symbol' | 'time')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="symbol">By symbol</SelectItem>
+                  <SelectItem value="time">By time slot</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {splitMode === 'time' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Slot length (minutes)</label>
+                <Input type="number" min={5} value={slotMinutes} onChange={(e) => setSlotMinutes(e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Primary metric</label>
+              <Select value={primaryMetric} onValueChange={(value) => setPrimaryMetric(value as 'pnl' | 'win_rate')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pnl">P&L per trade (bootstrap)</SelectItem>
+                  <SelectItem value="win_rate">Win rate</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Significance (alpha)</label>
+              <Select value={alpha} onValueChange={setAlpha}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0.01">0.01 (99%)</SelectItem>
+                  <SelectItem value="0.05">0.05 (95%)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Min trades per arm</label>
+              <Input type="number" min={5} value={minTrades} onChange={(e) => setMinTrades(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Max duration (days)</label>
+              <Input type="number" min={1} max={365} value={maxDays} onChange={(e) => setMaxDays(e.target.value)} />
+            </div>
+          </div>
+          <Button onClick={handleStart} disabled={busy !== null}>
+            <Play className="h-4 w-4 mr-2" />
+            Start Experiment
+          </Button>
+        </CardContent>
+      </Card>
+
+      {experiments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Experiments</CardTitle>
+            <CardDescription>Differences are variant − control with the interval at the experiment's significance level</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Experiment</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Trades (C / V)</TableHead>
+                  <TableHead>Win rate Δ (pp)</TableHead>
+                  <TableHead>P&L Δ per trade (€)</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {experiments.map((experiment) => {
+                  const result = experiment.result;
+                  return (
+                    <TableRow key={experiment.id}>
+                      <TableCell>
+                        <div className="font-medium">{experiment.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {strategyName(experiment.control_strategy_id)} vs {strategyName(experiment.variant_strategy_id)}
+                          {' · '}split by {experiment.split_mode}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          <Badge variant={STATUS_VARIANT[experiment.status]}>{experiment.status}</Badge>
+                          {experiment.winner && (
+                            <Badge variant="outline" className="text-xs">
+                              {experiment.winner === 'inconclusive' ? 'inconclusive' : `${experiment.winner} wins`}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {result ? `${result.control.trades} / ${result.variant.trades}` : '—'}
+                        <div className="text-xs text-muted-foreground">min {experiment.min_trades_per_arm}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {formatInterval(result?.win_rate_diff, 100, 1)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {formatInterval(result?.pnl_diff)}
+                      </TableCell>
+                      <TableCell>
+                        {experiment.status === 'running' && (
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleEvaluate(experiment)}>
+                              <RefreshCw className="h-3 w-3" />
+                            </Button>
+                            <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleStop(experiment)}>
+                              <Square className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CheckCircle, SlidersHorizontal } from 'lucide-react';
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { BacktestGranularity, BacktestStrategyConfig } from "@/engine/backtester";
+import {
+  runParameterSweepFromDb,
+  buildParameterGrid,
+  SWEEPABLE_FIELDS,
+  OVERFIT_WFE_THRESHOLD,
+  type SweepableField,
+  type SweepMode,
+  type SweepParameterRange,
+  type SweepResult,
+} from "@/engine/parameterSweep";
+
+interface Strategy {
+  id: string;
+  strategy_name: string;
+  configuration: BacktestStrategyConfig | null;
+}
+
+interface RangeState {
+  enabled: boolean;
+  min: string;
+  max: string;
+  step: string;
+}
+
+const DEFAULT_RANGES: Record<SweepableField, RangeState> = {
+  takeProfitPercentage: { enabled: true, min: '1', max: '4', step: '0.5' },
+  stopLossPercentage: { enabled: true, min: '0.5', max: '3', step: '0.5' },
+  enterThreshold: { enabled: false, min: '55', max: '85', step: '5' },
+  perTradeAllocation: { enabled: false, min: '25', max: '100', step: '25' },
+};
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+export const StrategyParameterSweep: React.FC = () => {
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [selectedStrategy, setSelectedStrategy] = useState<string>('');
+  const [ranges, setRanges] = useState<Record<SweepableField, RangeState>>(DEFAULT_RANGES);
+  const [mode, setMode] = useState<SweepMode>('grid');
+  const [samples, setSamples] = useState<string>('30');
+  const [folds, setFolds] = useState<string>('3');
+  const [inSamplePct, setInSamplePct] = useState<string>('70');
+  const [startDate, setStartDate] = useState<string>(toDateInput(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState<string>(toDateInput(new Date()));
+  const [initialCapital, setInitialCapital] = useState<string>('1000');
+  const [granularity, setGranularity] = useState<BacktestGranularity>('1h');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [sweepResult, setSweepResult] = useState<SweepResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    loadStrategies();
+  }, []);
+
+  const loadStrategies = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('trading_strategies')
+        .select('id, strategy_name, configuration')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setStrategies((data || []) as Strategy[]);
+    } catch (error) {
+      console.error('Error loading strategies:', error);
+    }
+  };
+
+  const activeRanges = (): SweepParameterRange[] =>
+    (Object.entries(ranges) as [SweepableField, RangeState][])
+      .filter(([, r]) => r.enabled)
+      .map(([field, r]) => ({ field, min: Number(r.min), max: Number(r.max), step: Number(r.step) }));
+
+  const gridSize = buildParameterGrid(activeRanges()).length;
+
+  const updateRange = (field: SweepableField, patch: Partial<RangeState>) => {
+    setRanges(prev => ({ ...prev, [field]: { ...prev[field], ...patch } }));
+  };
+
+  const handleRunSweep = async () => {
+    const strategy = strategies.find(s => s.id === selectedStrategy);
+    if (!strategy) {
+      toast({ title: "Error", description: "Please select a strategy", variant: "destructive" });
+      return;
+    }
+    if (activeRanges().length === 0) {
+      toast({ title: "Error", description: "Enable at least one parameter range", variant: "destructive" });
+      return;
+    }
+
+    setIsRunning(true);
+    setSweepResult(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('fee_rate')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      const result = await runParameterSweepFromDb(supabase, {
+        strategyId: strategy.id,
+        baseConfig: strategy.configuration || {},
+        startDate: new Date(`${startDate}T00:00:00Z`),
+        endDate: new Date(`${endDate}T23:59:59Z`),
+        initialCapital: Number(initialCapital),
+        feeRate: profile?.fee_rate ?? 0,
+        granularity,
+        ranges: activeRanges(),
+        mode,
+        samples: Number(samples),
+        folds: Number(folds),
+        inSampleRatio: Number(inSamplePct) / 100,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+
+      setSweepResult(result);
+      toast({
+        title: "Sweep Complete",
+        description: `Evaluated ${result.combinationsEvaluated} combinations over ${result.folds.length} folds`,
+      });
+    } catch (error) {
+      console.error('Error running parameter sweep:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run parameter sweep",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const formatPercentage = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+  const overfitCount = sweepResult?.results.filter(r => r.overfit).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Walk-Forward Parameter Sweep
+          </CardTitle>
+          <CardDescription>
+            Evaluate parameter combinations on in-sample / out-of-sample splits and rank them by out-of-sample Sharpe
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Strategy</label>
+              <Select value={selectedStrategy} onValueChange={setSelectedStrategy}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategies.map((strategy) => (
+                    <SelectItem key={strategy.id} value={strategy.id}>
+                      {strategy.strategy_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Search Mode</label>
+              <Select value={mode} onValueChange={(value) => setMode(value as SweepMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="grid">Grid ({gridSize} combinations)</SelectItem>
+                  <SelectItem value="random">Random sample</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Candle Granularity</label>
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as BacktestGranularity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5m">5 minutes</SelectItem>
+                  <SelectItem value="1h">1 hour</SelectItem>
+                  <SelectItem value="24h">1 day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Start Date</label>
+              <Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">End Date</label>
+              <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Starting Capital (EUR)</label>
+              <Input type="number" min="1" value={initialCapital} onChange={(e) => setInitialCapital(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Walk-Forward Folds</label>
+              <Input type="number" min="1" max="10" value={folds} onChange={(e) => setFolds(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">In-Sample Share (%)</label>
+              <Input type="number" min="10" max="90" value={inSamplePct} onChange={(e) => setInSamplePct(e.target.value)} />
+            </div>
+            {mode === 'random' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Random Samples</label>
+                <Input type="number" min="1" value={samples} onChange={(e) => setSamples(e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="text-sm font-medium">Parameter Ranges</div>
+            {(Object.keys(SWEEPABLE_FIELDS) as SweepableField[]).map((field) => (
+              <div key={field} className="grid grid-cols-[auto_1fr_1fr_1fr_1fr] items-center gap-3">
+                <Checkbox
+                  checked={ranges[field].enabled}
+                  onCheckedChange={(checked) => updateRange(field, { enabled: checked === true })}
+                />
+                <span className="text-sm">
+                  {SWEEPABLE_FIELDS[field].label} {SWEEPABLE_FIELDS[field].unit && `(${SWEEPABLE_FIELDS[field].unit})`}
+                </span>
+                <Input type="number" placeholder="min" disabled={!ranges[field].enabled} value={ranges[field].min} onChange={(e) => updateRange(field, { min: e.target.value })} />
+                <Input type="number" placeholder="max" disabled={!ranges[field].enabled} value={ranges[field].max} onChange={(e) => updateRange(field, { max: e.target.value })} />
+                <Input type="number" placeholder="step" disabled={!ranges[field].enabled} value={ranges[field].step} onChange={(e) => updateRange(field, { step: e.target.value })} />
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={handleRunSweep} disabled={!selectedStrategy || isRunning} className="w-full">
+            {isRunning ? 'Running Sweep...' : 'Run Sweep'}
+          </Button>
+
+          {progress && progress.total > 0 && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Evaluating combinations</span>
+                <span>{progress.done} / {progress.total}</span>
+              </div>
+              <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {sweepResult && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Ranked Results</CardTitle>
+            <CardDescription>
+              {sweepResult.combinationsEvaluated} of {sweepResult.combinationsRequested} combinations ·
+              {' '}{sweepResult.folds.length} folds · ranked by mean out-of-sample Sharpe
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {overfitCount > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {overfitCount} combination{overfitCount > 1 ? 's are' : ' is'} flagged as overfit: profitable in-sample but
+                  losing out-of-sample, or keeping less than {OVERFIT_WFE_THRESHOLD * 100}% of in-sample return.
+                  Do not apply these values through the optimizer.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-[480px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Parameters</TableHead>
+                    <TableHead className="text-right">IS Return</TableHead>
+                    <TableHead className="text-right">OOS Return</TableHead>
+                    <TableHead className="text-right">IS Sharpe</TableHead>
+                    <TableHead className="text-right">OOS Sharpe</TableHead>
+                    <TableHead className="text-right">OOS Max DD</TableHead>
+                    <TableHead className="text-right">WFE</TableHead>
+                    <TableHead>Verdict</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sweepResult.results.map((row) => (
+                    <TableRow key={row.rank} className={row.overfit ? 'bg-red-50 dark:bg-red-950/20' : undefined}>
+                      <TableCell>{row.rank}</TableCell>
+                      <TableCell className="text-xs">
+                        {(Object.entries(row.parameters) as [SweepableField, number][]).map(([field, value]) => (
+                          <div key={field}>{SWEEPABLE_FIELDS[field].label}: {value}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercentage(row.meanInSampleReturnPct)}</TableCell>
+                      <TableCell className={`text-right font-medium ${row.meanOutOfSampleReturnPct >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatPercentage(row.meanOutOfSampleReturnPct)}
+                      </TableCell>
+                      <TableCell className="text-right">{row.meanInSampleSharpe.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-medium">{row.meanOutOfSampleSharpe.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">-{row.worstOutOfSampleDrawdownPct.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{row.walkForwardEfficiency ?? '—'}</TableCell>
+                      <TableCell>
+                        {row.overfit ? (
+                          <Badge variant="destructive" className="text-xs" title={row.overfitReason ?? undefined}>
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Overfit
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Robust
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
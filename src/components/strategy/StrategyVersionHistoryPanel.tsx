@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { logger } from '@/utils/logger';
+import {
+  CONFIG_VERSION_ACTOR_LABELS,
+  diffConfigVersions,
+  groupDiffByDimension,
+  type StrategyConfigVersion,
+} from '@/utils/strategyVersionDiff';
+
+interface StrategyVersionHistoryPanelProps {
+  strategyId?: string;
+  /** Called after a successful rollback so the editor can reload the strategy */
+  onRolledBack: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const StrategyVersionHistoryPanel: React.FC<StrategyVersionHistoryPanelProps> = ({
+  strategyId,
+  onRolledBack
+}) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<StrategyConfigVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>('previous');
+  const [confirmRollback, setConfirmRollback] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  useEffect(() => {
+    if (!strategyId) return;
+
+    const fetchVersions = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('strategy_config_versions' as any)
+        .select('id, strategy_id, version_no, configuration, symbol_parameters, actor, reason, suggestion_id, rolled_back_from, created_at')
+        .eq('strategy_id', strategyId)
+        .order('version_no', { ascending: false })
+        .limit(100);
+
+      if (error) {
+        logger.error('Error loading strategy versions:', error);
+      } else {
+        const rows = (data || []) as unknown as StrategyConfigVersion[];
+        setVersions(rows);
+        setSelectedId((current) => current ?? rows[0]?.id ?? null);
+      }
+      setLoading(false);
+    };
+
+    fetchVersions();
+  }, [strategyId]);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+  const latest = versions[0] ?? null;
+  const compareTo = compareId === 'previous'
+    ? versions.find((v) => selected && v.version_no < selected.version_no) ?? null
+    : versions.find((v) => v.id === compareId) ?? null;
+
+  const groups = useMemo(
+    () => (selected ? groupDiffByDimension(diffConfigVersions(compareTo, selected)) : []),
+    [selected, compareTo]
+  );
+
+  const handleRollback = async () => {
+    if (!selected) return;
+    setRollingBack(true);
+    try {
+      const { error } = await supabase.rpc('rollback_strategy_config' as any, {
+        p_version_id: selected.id,
+        p_reason: `Rollback to version ${selected.version_no} from the version history`,
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Strategy rolled back",
+        description: `Configuration restored to version ${selected.version_no}.`,
+      });
+      onRolledBack();
+    } catch (error) {
+      logger.error('Error rolling back strategy:', error);
+      toast({
+        title: "Rollback Failed",
+        description: "Failed to restore this version. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setRollingBack(false);
+      setConfirmRollback(false);
+    }
+  };
+
+  if (!strategyId) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-muted-foreground">
+          Version history is available once the strategy has been saved.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Every change to the configuration or per-symbol parameters is stored as an immutable version,
+          with who made it and why. Decisions are tagged with the version that produced them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions recorded yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <ScrollArea className="h-[520px] rounded-lg border border-border">
+              <div className="p-2 space-y-1">
+                {versions.map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full rounded-md p-3 text-left transition-colors ${
+                      version.id === selectedId ? 'bg-muted' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">v{version.version_no}</span>
+                      <Badge variant={version.actor === 'user' ? 'outline' : 'secondary'} className="text-xs">
+                        {CONFIG_VERSION_ACTOR_LABELS[version.actor] ?? version.actor}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</p>
+                    {version.reason && (
+                      <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{version.reason}</p>
+                    )}
+                    {version.id === latest?.id && (
+                      <Badge variant="default" className="mt-1 text-xs">Current</Badge>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="lg:col-span-2 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Compare v{selected.version_no} with</span>
+                    <Select value={compareId} onValueChange={setCompareId}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="previous">Previous version</SelectItem>
+                        {versions
+                          .filter((v) => v.id !== selected.id)
+                          .map((v) => (
+                            <SelectItem key={v.id} value={v.id}>v{v.version_no}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={selected.id === latest?.id || rollingBack}
+                    onClick={() => setConfirmRollback(true)}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Roll back to v{selected.version_no}
+                  </Button>
+                </div>
+
+                {selected.suggestion_id && (
+                  <p className="text-xs text-muted-foreground">
+                    Applied from calibration suggestion {selected.suggestion_id}
+                  </p>
+                )}
+
+                {groups.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {compareTo ? 'No field differences.' : 'First recorded version.'}
+                  </p>
+                ) : (
+                  groups.map((group) => (
+                    <div key={group.id} className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <h4 className="text-sm font-semibold">{group.label}</h4>
+                        <Badge variant="outline" className="text-xs">{group.entries.length}</Badge>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Field</TableHead>
+                            <TableHead>{compareTo ? `v${compareTo.version_no}` : 'Before'}</TableHead>
+                            <TableHead>v{selected.version_no}</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {group.entries.map((entry) => (
+                            <TableRow key={entry.path}>
+                              <TableCell className="font-mono text-xs">{entry.path}</TableCell>
+                              <TableCell className="font-mono text-xs text-red-400 break-all">
+                                {formatValue(entry.before)}
+                              </TableCell>
+                              <TableCell className="font-mono text-xs text-green-400 break-all">
+                                {formatValue(entry.after)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRollback} onOpenChange={setConfirmRollback}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to v{selected?.version_no}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The configuration and per-symbol parameters are restored from this version. The rollback is
+              recorded as a new version, so nothing in the history is lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rollingBack}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollback} disabled={rollingBack}>
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
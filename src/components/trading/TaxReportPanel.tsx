@@ -0,0 +1,179 @@
+/**
+ * TaxReportPanel — REAL realized gains for one calendar year.
+ * Method selector (FIFO / LIFO / HIFO / Average), short/long split,
+ * CSV export (generic per-lot) and French 2086 summary export.
+ */
+import { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { formatEuro } from '@/utils/currencyFormatter';
+import { useTaxReport } from '@/hooks/useTaxReport';
+import {
+  form2086ToCsv,
+  realizedGainsToCsv,
+  type CostBasisMethod,
+} from '@/utils/taxLots';
+
+const METHOD_OPTIONS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'FIFO', label: 'FIFO' },
+  { value: 'LIFO', label: 'LIFO' },
+  { value: 'HIFO', label: 'HIFO' },
+  { value: 'AVERAGE', label: 'Average cost' },
+];
+
+function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const gainClass = (n: number) => (n >= 0 ? 'text-emerald-500' : 'text-red-500');
+
+export function TaxReportPanel() {
+  const currentYear = new Date().getUTCFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [method, setMethod] = useState<CostBasisMethod>('FIFO');
+  const { report, form2086, years, isLoading, error, refetch } = useTaxReport(year, method);
+
+  const yearOptions = useMemo(
+    () => [...new Set([currentYear, ...years])].sort((a, b) => b - a),
+    [currentYear, years],
+  );
+  const unmatched = Object.entries(report?.unmatchedBySymbol ?? {});
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-4 border-b flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold">Realized gains</h3>
+          <Badge variant="outline" className="text-xs">REAL</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+            <SelectTrigger className="w-24 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {yearOptions.map((y) => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={method} onValueChange={(v) => setMethod(v as CostBasisMethod)}>
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METHOD_OPTIONS.map((m) => (
+                <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={refetch}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !report || !form2086 ? (
+        <div className="p-6 flex items-center justify-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Loading REAL ledger...</span>
+        </div>
+      ) : error ? (
+        <div className="p-6 text-center text-red-500 text-sm">{error}</div>
+      ) : (
+        <>
+          <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm border-b">
+            <div>
+              <p className="text-muted-foreground">Proceeds</p>
+              <p className="font-mono">{formatEuro(report.totals.proceedsEur)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Cost basis + fees</p>
+              <p className="font-mono">{formatEuro(report.totals.costBasisEur + report.totals.feesEur)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Short-term / Long-term</p>
+              <p className="font-mono">
+                <span className={gainClass(report.totals.shortTermGainEur)}>{formatEuro(report.totals.shortTermGainEur)}</span>
+                {' / '}
+                <span className={gainClass(report.totals.longTermGainEur)}>{formatEuro(report.totals.longTermGainEur)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">2086 net ({form2086.netGainEur >= 0 ? '3AN' : '3BN'})</p>
+              <p className={`font-mono ${gainClass(form2086.netGainEur)}`}>{formatEuro(form2086.netGainEur)}</p>
+            </div>
+          </div>
+
+          {unmatched.length > 0 && (
+            <div className="px-4 py-2 border-b flex items-center gap-2 text-xs text-amber-500">
+              <AlertTriangle className="h-3 w-3" />
+              <span>
+                Sold without a matching REAL acquisition (zero cost basis):{' '}
+                {unmatched.map(([sym, qty]) => `${qty.toFixed(8)} ${sym}`).join(', ')}
+              </span>
+            </div>
+          )}
+
+          {report.disposals.length === 0 ? (
+            <div className="p-6 text-center text-muted-foreground">
+              <p>No REAL disposals in {year}.</p>
+            </div>
+          ) : (
+            <div className="divide-y max-h-[400px] overflow-y-auto">
+              {report.disposals.map((d, i) => (
+                <div key={`${d.sellTradeId}-${d.lotId ?? 'unmatched'}-${i}`} className="p-3 flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{d.symbol}</span>
+                      <Badge variant="outline" className="text-[10px]">{d.term}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {d.amount.toFixed(8)} · {d.acquiredAt ? new Date(d.acquiredAt).toLocaleDateString() : '—'}
+                      {' → '}
+                      {new Date(d.disposedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="text-right font-mono text-xs">
+                    <p>{formatEuro(d.proceedsEur)} − {formatEuro(d.costBasisEur + d.feesEur)}</p>
+                    <p className={gainClass(d.gainEur)}>{formatEuro(d.gainEur)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="p-4 border-t flex flex-wrap gap-2 justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={report.disposals.length === 0}
+              onClick={() => downloadCsv(realizedGainsToCsv(report), `realized_gains_${year}_${method.toLowerCase()}.csv`)}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={form2086.lines.length === 0}
+              onClick={() => downloadCsv(form2086ToCsv(form2086), `formulaire_2086_${year}.csv`)}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export 2086
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -7,6 +7,11 @@
  * - User wallet existence triggers REAL mode (for authorization)
  * - User wallet is NOT the trading wallet - it's for deposit/audit only
  * - If no user wallet → MOCK trade (paper trading)
+ *
+ * RESTING ORDERS:
+ * - Limit / stop-loss / stop-limit orders are stored in resting_orders and
+ *   fired server-side when price_snapshots crosses the trigger
+ * - Open orders for this side are listed below the form and can be cancelled
  */
 
 import { useState, useEffect } from 'react';
@@ -31,11 +36,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { ArrowUpCircle, ArrowDownCircle, AlertTriangle, ExternalLink, Zap, FlaskConical } from 'lucide-react';
+import { ArrowUpCircle, ArrowDownCircle, AlertTriangle, ExternalLink, Zap, FlaskConical, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { SUPABASE_URL, MANUAL_STRATEGY_ID, TRADEABLE_TOKENS, SLIPPAGE_OPTIONS } from './ManualTradeConstants';
+import { useRestingOrders, type RestingOrderType } from '@/hooks/useRestingOrders';
+import { SUPABASE_URL, MANUAL_STRATEGY_ID, TRADEABLE_TOKENS, SLIPPAGE_OPTIONS, ORDER_TYPE_OPTIONS } from './ManualTradeConstants';
 
-type ExecutionStatus = 'failed' | 'pending' | 'confirmed' | 'reverted';
+type ExecutionStatus = 'failed' | 'pending' | 'confirmed' | 'reverted' | 'placed';
+type OrderType = 'MARKET' | RestingOrderType;
 
 interface ExecutionResult {
   status: ExecutionStatus;
@@ -73,6 +80,11 @@ const statusStyles: Record<ExecutionStatus, { bg: string; icon: string; title: s
     icon: '⚠️', 
     title: 'Reverted On-Chain' 
   },
+  placed: {
+    bg: 'bg-blue-500/10 border-blue-500/20 text-blue-600',
+    icon: '⏸',
+    title: 'Order Resting'
+  },
 };
 
 interface ExecutionWallet {
@@ -97,6 +109,9 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
   const [token, setToken] = useState<string>('ETH');
   const [amount, setAmount] = useState<string>('');
   const [slippage, setSlippage] = useState<string>('1.0');
+  const [orderType, setOrderType] = useState<OrderType>('MARKET');
+  const [limitPrice, setLimitPrice] = useState<string>('');
+  const [stopPrice, setStopPrice] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [result, setResult] = useState<ExecutionResult | null>(null);
@@ -107,6 +122,12 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
 
   const isBuy = side === 'BUY';
   const Icon = isBuy ? ArrowUpCircle : ArrowDownCircle;
+  const isRestingOrder = orderType !== 'MARKET';
+  const needsLimitPrice = orderType === 'LIMIT' || orderType === 'STOP_LIMIT';
+  const needsStopPrice = orderType === 'STOP_LOSS' || orderType === 'STOP_LIMIT';
+
+  const { openOrders, placeOrder, cancelOrder } = useRestingOrders(userId, MANUAL_STRATEGY_ID);
+  const sideOpenOrders = openOrders.filter((o) => o.side === side);
   
   // Derived: Is this a REAL trade?
   // System operator mode ALWAYS means real trade (uses system wallet)
@@ -247,15 +268,70 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
     return interval;
   };
 
+  const parsePrice = (value: string) => parseFloat(value.replace(',', '.'));
+
   const handleSubmit = () => {
     const parsedAmount = parseFloat(amount.replace(',', '.'));
     if (!parsedAmount || parsedAmount <= 0) {
       setResult({ status: 'failed', error: 'Invalid amount' });
       return;
     }
+    if (needsLimitPrice && !(parsePrice(limitPrice) > 0)) {
+      setResult({ status: 'failed', error: 'Invalid limit price' });
+      return;
+    }
+    if (needsStopPrice && !(parsePrice(stopPrice) > 0)) {
+      setResult({ status: 'failed', error: 'Invalid stop price' });
+      return;
+    }
     setShowConfirm(true);
   };
 
+  // Resting orders are only stored here; the server fires them on price refresh
+  const handlePlaceRestingOrder = async () => {
+    if (orderType === 'MARKET') return;
+    setShowConfirm(false);
+    setLoading(true);
+    setResult(null);
+
+    try {
+      await placeOrder({
+        symbol: token,
+        side,
+        orderType,
+        amount: parseFloat(amount.replace(',', '.')),
+        limitPrice: needsLimitPrice ? parsePrice(limitPrice) : null,
+        stopPrice: needsStopPrice ? parsePrice(stopPrice) : null,
+        slippageBps: parseFloat(slippage) * 100,
+      });
+      setResult({
+        status: 'placed',
+        message: 'Order will fire through the coordinator when the price condition is met',
+      });
+      setAmount('');
+      setLimitPrice('');
+      setStopPrice('');
+    } catch (err) {
+      setResult({
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Failed to place order',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelOrder = async (orderId: string) => {
+    try {
+      await cancelOrder(orderId);
+    } catch (err) {
+      setResult({
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Failed to cancel order',
+      });
+    }
+  };
+
   const handleConfirm = async () => {
     setShowConfirm(false);
     setLoading(true);
@@ -401,6 +477,9 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
   const formatEur = (value: number) =>
     new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(value);
 
+  const orderTypeLabel = (type: OrderType) =>
+    ORDER_TYPE_OPTIONS.find((o) => o.value === type)?.label ?? type;
+
   return (
     <>
       <Card>
@@ -445,6 +524,47 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
             </Select>
           </div>
 
+          {/* Order type selection */}
+          <div className="space-y-2">
+            <Label>Order Type</Label>
+            <Select value={orderType} onValueChange={(v) => setOrderType(v as OrderType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ORDER_TYPE_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Trigger prices (resting orders only) */}
+          {needsStopPrice && (
+            <div className="space-y-2">
+              <Label>Stop Price (EUR)</Label>
+              <Input
+                type="text"
+                placeholder={isBuy ? 'Trigger at or above' : 'Trigger at or below'}
+                value={stopPrice}
+                onChange={(e) => setStopPrice(e.target.value)}
+              />
+            </div>
+          )}
+          {needsLimitPrice && (
+            <div className="space-y-2">
+              <Label>Limit Price (EUR)</Label>
+              <Input
+                type="text"
+                placeholder={isBuy ? 'Buy at or below' : 'Sell at or above'}
+                value={limitPrice}
+                onChange={(e) => setLimitPrice(e.target.value)}
+              />
+            </div>
+          )}
+
           {/* Amount input */}
           <div className="space-y-2">
             <Label>Amount</Label>
@@ -483,7 +603,9 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
             className="w-full"
             variant={isBuy ? 'default' : 'destructive'}
           >
-            {loading ? 'Processing...' : `${side} ${token}${isRealTrade ? ' (REAL)' : ' (TEST)'}`}
+            {loading
+              ? 'Processing...'
+              : `${isRestingOrder ? `Place ${orderTypeLabel(orderType)} ` : ''}${side} ${token}${isRealTrade ? ' (REAL)' : ' (TEST)'}`}
           </Button>
 
           {/* Execution result inline display */}
@@ -555,6 +677,46 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
               </div>
             </div>
           )}
+
+          {/* Open resting orders for this side */}
+          {sideOpenOrders.length > 0 && (
+            <div className="space-y-2">
+              <Label>Open Orders</Label>
+              {sideOpenOrders.map((o) => (
+                <div key={o.id} className="flex items-center gap-2 p-2 rounded border text-xs">
+                  <div className="flex-1 space-y-0.5">
+                    <div className="font-semibold">
+                      {orderTypeLabel(o.order_type)} {o.side} {o.symbol}
+                      {o.status === 'TRIGGERED' && (
+                        <span className="ml-2 text-orange-600">triggered</span>
+                      )}
+                      {o.order_type === 'STOP_LIMIT' && o.stop_triggered_at && o.status === 'OPEN' && (
+                        <span className="ml-2 text-orange-600">stop armed</span>
+                      )}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {o.side === 'BUY' ? formatEur(o.amount) : `${o.amount} ${o.symbol}`}
+                      {o.stop_price != null && ` · stop ${formatEur(o.stop_price)}`}
+                      {o.limit_price != null && ` · limit ${formatEur(o.limit_price)}`}
+                    </div>
+                    {o.decision_reason && (
+                      <div className="text-muted-foreground opacity-70">Last: {o.decision_reason}</div>
+                    )}
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    disabled={o.status !== 'OPEN'}
+                    onClick={() => handleCancelOrder(o.id)}
+                    title="Cancel order"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -567,9 +729,16 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
               Confirm Manual {side} {isRealTrade ? '(REAL)' : '(TEST)'}
             </AlertDialogTitle>
             <AlertDialogDescription className="space-y-2">
-              <p>You are about to execute a {isRealTrade ? 'REAL' : 'TEST'} {side.toLowerCase()} trade:</p>
+              <p>
+                {isRestingOrder
+                  ? `You are about to place a resting ${isRealTrade ? 'REAL' : 'TEST'} ${side.toLowerCase()} order:`
+                  : `You are about to execute a ${isRealTrade ? 'REAL' : 'TEST'} ${side.toLowerCase()} trade:`}
+              </p>
               <ul className="list-disc list-inside text-sm">
                 <li>Token: <strong>{token}</strong></li>
+                <li>Order type: <strong>{orderTypeLabel(orderType)}</strong></li>
+                {needsStopPrice && <li>Stop price: <strong>{stopPrice}</strong> EUR</li>}
+                {needsLimitPrice && <li>Limit price: <strong>{limitPrice}</strong> EUR</li>}
                 <li>Amount: <strong>{amount}</strong> {isBuy ? 'EUR' : token}</li>
                 <li>Slippage: <strong>{slippage}%</strong></li>
                 <li>Mode: <strong className={isRealTrade ? 'text-yellow-600' : 'text-blue-600'}>
@@ -590,10 +759,10 @@ export function ManualTradeCard({ side, userId, onTradeComplete, isSystemOperato
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleConfirm}
+              onClick={isRestingOrder ? handlePlaceRestingOrder : handleConfirm}
               className={isBuy ? '' : 'bg-destructive text-destructive-foreground hover:bg-destructive/90'}
             >
-              Confirm {side}
+              {isRestingOrder ? `Place ${side} Order` : `Confirm ${side}`}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
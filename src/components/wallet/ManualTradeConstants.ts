@@ -21,5 +21,13 @@ export const TRADEABLE_TOKENS = [
 // Slippage options (in percentage) - Builder max is 50 bps (0.5%)
 export const SLIPPAGE_OPTIONS = [0.1, 0.2, 0.3, 0.4, 0.5] as const;
 
+// Market executes now; the others rest in resting_orders until price_snapshots triggers them
+export const ORDER_TYPE_OPTIONS = [
+  { value: 'MARKET', label: 'Market' },
+  { value: 'LIMIT', label: 'Limit' },
+  { value: 'STOP_LOSS', label: 'Stop-loss' },
+  { value: 'STOP_LIMIT', label: 'Stop-limit' },
+] as const;
+
 // Supabase project URL for edge functions
 export const SUPABASE_URL = 'https://fuieplftlcxdfkxyqzlt.supabase.co';
@@ -22,11 +22,13 @@ import {
   Loader2, 
   AlertTriangle, 
   CheckCircle, 
+  Clock,
   ExternalLink,
   Copy
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { WithdrawalReason, WithdrawResponse } from '@/utils/withdrawalQueue';
 
 interface TokenBalance {
   symbol: string;
@@ -46,7 +48,7 @@ interface WithdrawDialogProps {
   onWithdrawComplete: () => void;
 }
 
-type WithdrawStep = 'form' | 'confirm' | 'submitting' | 'success' | 'error';
+type WithdrawStep = 'form' | 'confirm' | 'submitting' | 'success' | 'queued' | 'error';
 
 export function WithdrawDialog({ 
   open, 
@@ -62,6 +64,7 @@ export function WithdrawDialog({
   const [toAddress, setToAddress] = useState('');
   const [amount, setAmount] = useState('');
   const [txHash, setTxHash] = useState<string | null>(null);
+  const [queued, setQueued] = useState<{ requestId: string; reasons: WithdrawalReason[] } | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Reset form when dialog opens
@@ -72,6 +75,7 @@ export function WithdrawDialog({
       setToAddress('');
       setAmount('');
       setTxHash(null);
+      setQueued(null);
       setError(null);
     }
   }, [open]);
@@ -162,7 +166,19 @@ export function WithdrawDialog({
         throw new Error(data?.error || 'Withdrawal failed');
       }
 
-      setTxHash(data.tx_hash);
+      const result = data as WithdrawResponse;
+      if (result.status === 'pending_approval') {
+        // Above the approval threshold: nothing was sent yet
+        setQueued({ requestId: result.request_id, reasons: result.reasons ?? [] });
+        setStep('queued');
+        toast({
+          title: "Withdrawal Awaiting Approval",
+          description: "An admin has to approve this withdrawal before it is sent",
+        });
+        return;
+      }
+
+      setTxHash(result.tx_hash);
       setStep('success');
 
       toast({
@@ -424,6 +440,46 @@ export function WithdrawDialog({
           </>
         )}
 
+        {/* Queued Step */}
+        {step === 'queued' && queued && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2 text-foreground">
+                <Clock className="w-5 h-5 text-yellow-400" />
+                Awaiting Approval
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4 my-4">
+              <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+                <p className="text-yellow-200 text-sm mb-3">
+                  Your withdrawal was queued for admin approval. It will be sent once approved.
+                </p>
+                {queued.reasons.length > 0 && (
+                  <ul className="text-yellow-200/80 text-xs list-disc pl-4 mb-3 space-y-1">
+                    {queued.reasons.map((reason) => (
+                      <li key={reason.code}>{reason.message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="bg-background/50 rounded p-3">
+                  <div className="text-xs text-muted-foreground mb-1">Request ID</div>
+                  <code className="text-xs font-mono text-foreground break-all">
+                    {queued.requestId}
+                  </code>
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button onClick={handleClose} className="w-full">
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
         {/* Error Step */}
         {step === 'error' && (
           <>
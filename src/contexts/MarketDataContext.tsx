@@ -3,6 +3,7 @@ import { toPairSymbol, BaseSymbol } from '@/utils/symbols';
 import { getAllSymbols, getAllTradingPairs } from '@/data/coinbaseCoins';
 import { filterSupportedSymbols } from '@/utils/marketAvailability';
 import { sharedPriceCache } from '@/utils/SharedPriceCache';
+import { supabase } from '@/integrations/supabase/client';
 
 interface MarketData {
   symbol: string;
@@ -18,6 +19,22 @@ interface MarketData {
   source: string;
 }
 
+/** One entry of a price-stream broadcast (see supabase/functions/price-stream) */
+interface StreamedPrice {
+  symbol: string;
+  price: number;
+  bid: number | null;
+  ask: number | null;
+  volume_24h: number | null;
+  high_24h: number | null;
+  low_24h: number | null;
+  open_24h: number | null;
+  time: string;
+}
+
+// Skip REST polls while the stream has delivered within this window
+const STREAM_LIVE_WINDOW_MS = 30000;
+
 interface MarketDataContextType {
   marketData: Record<string, MarketData>;
   isConnected: boolean;
@@ -42,6 +59,7 @@ export const MarketDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const [error, setError] = useState<string | null>(null);
   const [contextVersion, setContextVersion] = useState(0);
   const backoffUntilRef = useRef<number>(0);
+  const lastStreamAtRef = useRef<number>(0);
 
   const getCurrentData = useCallback(async (symbols: BaseSymbol[]): Promise<Record<string, MarketData>> => {
     const now = Date.now();
@@ -143,6 +161,48 @@ export const MarketDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     }
   }, []);
 
+  // Streamed prices pushed by the price-stream edge function over Realtime
+  useEffect(() => {
+    const channel = supabase
+      .channel('market-prices')
+      .on('broadcast', { event: 'ticker' }, ({ payload }) => {
+        const prices: StreamedPrice[] = payload?.prices ?? [];
+        if (prices.length === 0) return;
+
+        const streamed: Record<string, MarketData> = {};
+        for (const p of prices) {
+          const bid = p.bid ?? p.price;
+          const ask = p.ask ?? p.price;
+          sharedPriceCache.set(p.symbol, p.price, bid, ask);
+          const change = p.open_24h ? p.price - p.open_24h : 0;
+          streamed[p.symbol] = {
+            symbol: p.symbol,
+            price: p.price,
+            bid,
+            ask,
+            volume: p.volume_24h ?? 0,
+            change_24h: change.toString(),
+            change_percentage_24h: p.open_24h ? ((change / p.open_24h) * 100).toString() : '0',
+            high_24h: String(p.high_24h ?? p.price),
+            low_24h: String(p.low_24h ?? p.price),
+            timestamp: p.time,
+            source: 'coinbase_ws'
+          };
+        }
+
+        lastStreamAtRef.current = Date.now();
+        setMarketData(prev => ({ ...prev, ...streamed }));
+        setContextVersion(v => v + 1);
+        setError(null);
+        setIsConnected(true);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
   useEffect(() => {
     const commonSymbols: BaseSymbol[] = getAllSymbols() as BaseSymbol[];
     getCurrentData(commonSymbols);
@@ -164,7 +224,9 @@ export const MarketDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       // ignore URL parsing errors
     }
     
+    // REST polling is the fallback while the stream is not delivering
     const intervalId = setInterval(() => {
+      if (Date.now() - lastStreamAtRef.current < STREAM_LIVE_WINDOW_MS) return;
       getCurrentData(commonSymbols);
     }, pollInterval);
 
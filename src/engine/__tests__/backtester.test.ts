@@ -0,0 +1,174 @@
+/**
+ * Backtester Tests
+ *
+ * Validates:
+ * 1. Equity metrics (max drawdown, Sharpe)
+ * 2. Bar-by-bar replay: fusion entry → TP exit with fees
+ * 3. Coordinator gate parity (max lots, anti-contradictory, fail-closed config)
+ * 4. Point-in-time safety: future signals are never visible to earlier bars
+ * 5. Data loading surfaces query errors instead of backtesting on defaults
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  computeMaxDrawdownPct,
+  computeSharpeRatio,
+  toPeriodReturns,
+  simulateBacktest,
+  loadBacktestData,
+  type BacktestData,
+  type BacktestParams,
+} from '@/engine/backtester';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = new Date('2025-01-01T00:00:00.000Z').getTime();
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function candle(offsetHours: number, close: number) {
+  return {
+    symbol: 'BTC-EUR',
+    granularity: '1h',
+    ts_utc: iso(T0 + offsetHours * HOUR),
+    open: close,
+    high: close,
+    low: close,
+    close,
+  };
+}
+
+function bullishSignals(atMs: number) {
+  return [
+    { id: `a-${atMs}`, signal_type: 'ma_cross_bullish', source: 'technical_analysis', signal_strength: 100, timestamp: iso(atMs), symbol: 'BTC' },
+    { id: `b-${atMs}`, signal_type: 'whale_accumulation', source: 'whale_alert_ws', signal_strength: 100, timestamp: iso(atMs), symbol: 'BTC' },
+  ];
+}
+
+const registry = [
+  { key: 'ma_cross_bullish', default_weight: 1, direction_hint: 'bullish', is_enabled: true },
+  { key: 'whale_accumulation', default_weight: 1, direction_hint: 'bullish', is_enabled: true },
+];
+
+const baseConfig = {
+  selectedCoins: ['BTC'],
+  takeProfitPercentage: 5,
+  stopLossPercentage: 3,
+  epsilonPnLBufferPct: 0,
+  minHoldPeriodMs: 0,
+  buyCooldownMinutes: 0,
+  perTradeAllocation: 100,
+  maxWalletExposure: 100,
+  maxActiveCoins: 1,
+  maxLotsPerSymbol: 1,
+  stopLossCooldownMs: 0,
+  minEntrySpacingMs: 0,
+  maxTradesPerDay: 10,
+  antiContradictoryCooldownMs: HOUR,
+};
+
+function params(overrides: Partial<BacktestParams> = {}): BacktestParams {
+  return {
+    strategyId: 'strategy-1',
+    strategyConfig: baseConfig,
+    startDate: new Date(T0),
+    endDate: new Date(T0 + 3 * HOUR),
+    initialCapital: 1000,
+    ...overrides,
+  };
+}
+
+describe('Backtest metrics', () => {
+  it('computes max drawdown from peak to trough', () => {
+    expect(computeMaxDrawdownPct([100, 120, 90, 130, 117])).toBe(25);
+    expect(computeMaxDrawdownPct([100, 101, 102])).toBe(0);
+  });
+
+  it('returns zero Sharpe for flat equity', () => {
+    expect(computeSharpeRatio(toPeriodReturns([100, 100, 100]), 8760)).toBe(0);
+  });
+
+  it('returns positive Sharpe for steadily rising equity with noise', () => {
+    const sharpe = computeSharpeRatio(toPeriodReturns([100, 101, 101.5, 103, 103.2, 105]), 8760);
+    expect(sharpe).toBeGreaterThan(0);
+  });
+});
+
+describe('simulateBacktest', () => {
+  const data: BacktestData = {
+    candles: [candle(0, 100), candle(1, 100), candle(2, 110), candle(3, 110)],
+    signals: bullishSignals(T0),
+    signalRegistry: registry,
+    strategySignalWeights: [],
+  };
+
+  it('enters on fused signal and exits at take profit, net of fees', async () => {
+    const result = await simulateBacktest(params({ feeRate: 0.001 }), data);
+
+    expect(result.barsProcessed).toBe(4);
+    expect(result.totalLots).toBe(1);
+    expect(result.lots[0].exitReason).toBe('TAKE_PROFIT');
+    // 100 → 110 on €100: +10 gross, minus 0.10 entry fee and 0.11 exit fee
+    expect(result.lots[0].realizedPnl).toBeCloseTo(9.79, 2);
+    expect(result.totalFees).toBeCloseTo(0.21, 2);
+    expect(result.finalEquity).toBeCloseTo(1009.79, 2);
+    expect(result.equityCurve).toHaveLength(4);
+    // Only the entry fee dents equity (0.10 on 1000)
+    expect(result.maxDrawdownPct).toBeCloseTo(0.01, 2);
+  });
+
+  it('applies max-lots and anti-contradictory gates like the coordinator', async () => {
+    const result = await simulateBacktest(params(), data);
+
+    expect(result.blockedReasons['max_lots_per_symbol_reached']).toBe(1);
+    expect(result.blockedReasons['blocked_buy_during_unwind']).toBe(1);
+    expect(result.fills.filter(f => f.side === 'BUY')).toHaveLength(1);
+  });
+
+  it('fails closed when a required gate config is missing', async () => {
+    const { minEntrySpacingMs, ...incomplete } = baseConfig;
+    const result = await simulateBacktest(params({ strategyConfig: incomplete }), data);
+
+    expect(result.fills).toHaveLength(0);
+    expect(result.blockedReasons['blocked_missing_config:minEntrySpacingMs']).toBeGreaterThan(0);
+  });
+
+  it('never lets a bar see signals from the future', async () => {
+    const futureOnly: BacktestData = { ...data, signals: bullishSignals(T0 + 3 * HOUR) };
+    const result = await simulateBacktest(params(), futureOnly);
+
+    const buys = result.fills.filter(f => f.side === 'BUY');
+    expect(buys).toHaveLength(1);
+    expect(buys[0].timestamp).toBe(iso(T0 + 3 * HOUR));
+  });
+});
+
+describe('Backtest data loading', () => {
+  /** Every query resolves to its table's response; builder calls chain */
+  function stubClient(responses: Record<string, { data: unknown; error: { message: string } | null }>) {
+    return {
+      from: (table: string) => {
+        const response = responses[table] ?? { data: [], error: null };
+        const query = {
+          select: () => query,
+          in: () => query,
+          eq: () => query,
+          gte: () => query,
+          lte: () => query,
+          order: () => query,
+          range: () => query,
+          then: (resolve: (value: typeof response) => unknown) => Promise.resolve(response).then(resolve),
+        };
+        return query;
+      },
+    } as unknown as SupabaseClient;
+  }
+
+  it('throws when the strategy signal weights cannot be loaded', async () => {
+    const client = stubClient({
+      signal_registry: { data: registry, error: null },
+      strategy_signal_weights: { data: null, error: { message: 'permission denied' } },
+    });
+
+    await expect(loadBacktestData(client, params())).rejects.toMatchObject({ message: 'permission denied' });
+  });
+});
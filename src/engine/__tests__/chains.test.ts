@@ -0,0 +1,74 @@
+/**
+ * Execution Chain Enablement Tests
+ *
+ * Validates:
+ * 1. ONCHAIN_ENABLED_CHAIN_IDS defaults to Base
+ * 2. Only executable registry chains can be enabled (typos, quote-only chains dropped)
+ * 3. isExecutionChainEnabled follows the env list
+ * 4. Strategy chain selection fails closed on unknown chains
+ */
+
+import { afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+
+// Relative to this file; kept out of the static import graph because
+// chains.ts reads Deno.env, which tsc cannot follow.
+const CHAINS_MODULE = '../../../supabase/functions/_shared/chains.ts';
+
+interface ChainsModule {
+  getEnabledExecutionChainIds(): number[];
+  isExecutionChainEnabled(chainId: number): boolean;
+  resolveStrategyChainId(config: Record<string, unknown> | null | undefined): number | null;
+}
+
+const BASE_CHAIN_ID = 8453;
+const ARBITRUM_CHAIN_ID = 42161;
+const OPTIMISM_CHAIN_ID = 10;
+const ETHEREUM_CHAIN_ID = 1;
+
+let getEnabledExecutionChainIds: ChainsModule['getEnabledExecutionChainIds'];
+let isExecutionChainEnabled: ChainsModule['isExecutionChainEnabled'];
+let resolveStrategyChainId: ChainsModule['resolveStrategyChainId'];
+
+beforeAll(async () => {
+  ({ getEnabledExecutionChainIds, isExecutionChainEnabled, resolveStrategyChainId } =
+    (await import(/* @vite-ignore */ CHAINS_MODULE)) as ChainsModule);
+});
+
+function setEnv(env: Record<string, string>) {
+  vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ONCHAIN_ENABLED_CHAIN_IDS', () => {
+  it('enables only Base when unset', () => {
+    setEnv({});
+    expect(getEnabledExecutionChainIds()).toEqual([BASE_CHAIN_ID]);
+    expect(isExecutionChainEnabled(BASE_CHAIN_ID)).toBe(true);
+    expect(isExecutionChainEnabled(ARBITRUM_CHAIN_ID)).toBe(false);
+  });
+
+  it('enables each listed executable chain', () => {
+    setEnv({ ONCHAIN_ENABLED_CHAIN_IDS: `${BASE_CHAIN_ID}, ${ARBITRUM_CHAIN_ID},${OPTIMISM_CHAIN_ID}` });
+    expect(getEnabledExecutionChainIds()).toEqual([BASE_CHAIN_ID, ARBITRUM_CHAIN_ID, OPTIMISM_CHAIN_ID]);
+    expect(isExecutionChainEnabled(OPTIMISM_CHAIN_ID)).toBe(true);
+  });
+
+  it('drops typos, unknown and quote-only chains', () => {
+    setEnv({ ONCHAIN_ENABLED_CHAIN_IDS: `${ARBITRUM_CHAIN_ID},abc,999,${ETHEREUM_CHAIN_ID}` });
+    expect(getEnabledExecutionChainIds()).toEqual([ARBITRUM_CHAIN_ID]);
+    expect(isExecutionChainEnabled(ETHEREUM_CHAIN_ID)).toBe(false);
+    expect(isExecutionChainEnabled(BASE_CHAIN_ID)).toBe(false);
+  });
+});
+
+describe('resolveStrategyChainId', () => {
+  it('defaults to Base and rejects unknown chains', () => {
+    expect(resolveStrategyChainId(null)).toBe(BASE_CHAIN_ID);
+    expect(resolveStrategyChainId({ executionChainId: '' })).toBe(BASE_CHAIN_ID);
+    expect(resolveStrategyChainId({ executionChainId: String(ARBITRUM_CHAIN_ID) })).toBe(ARBITRUM_CHAIN_ID);
+    expect(resolveStrategyChainId({ executionChainId: 999 })).toBeNull();
+  });
+});
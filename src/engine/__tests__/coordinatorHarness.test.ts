@@ -0,0 +1,129 @@
+/**
+ * Coordinator Harness Tests
+ *
+ * Drives the real trading-decision-coordinator entry point against the
+ * in-memory Supabase:
+ * 1. MOCK BUY on the direct path: lot in mock_trades, cash debited, decision logged
+ * 2. Fail-closed config: a missing required key blocks before any write
+ * 3. MOCK SELL of a fixture lot credits cash with the realized proceeds
+ * 4. Unified decisions: the per-symbol exposure cap blocks a second BUY
+ * 5. Idempotency: a replayed unified intent returns the cached decision
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createCoordinatorHarness, type CoordinatorHarness } from '@/engine/harness/coordinatorHarness';
+
+const T0 = new Date('2026-01-05T12:00:00.000Z');
+const LOT_ID = '33333333-3333-4333-8333-333333333333';
+
+const UNIFIED_ON = {
+  enableUnifiedDecisions: true,
+  minHoldPeriodMs: 0,
+  cooldownBetweenOppositeActionsMs: 0,
+  confidenceOverrideThreshold: 0.7,
+};
+
+let harness: CoordinatorHarness | undefined;
+
+afterEach(() => {
+  harness?.dispose();
+  harness = undefined;
+});
+
+describe('coordinator harness', () => {
+  it('executes a MOCK BUY on the direct path and settles cash', async () => {
+    harness = await createCoordinatorHarness({ cashEur: 1000, prices: { BTC: 50_000 } }, { now: T0 });
+
+    const res = await harness.send({ symbol: 'BTC', side: 'BUY' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.decision.action).toBe('BUY');
+
+    const ledger = harness.ledger();
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ trade_type: 'buy', cryptocurrency: 'BTC', price: 50_000, total_value: 100 });
+    expect(harness.cash()).toBe(900);
+
+    const events = harness.decisionEvents();
+    expect(events.some((e) => e.side === 'BUY' && e.symbol === 'BTC')).toBe(true);
+    expect(harness.unhandledRequests).toEqual([]);
+  });
+
+  it('blocks when a required config key is missing', async () => {
+    harness = await createCoordinatorHarness(
+      { cashEur: 1000, prices: { BTC: 50_000 }, config: { takeProfitPercentage: undefined } },
+      { now: T0 },
+    );
+
+    const res = await harness.send({ symbol: 'BTC', side: 'BUY' });
+
+    expect(res.body.decision.action).toBe('BLOCK');
+    expect(res.body.decision.reason).toContain('takeProfitPercentage');
+    expect(harness.ledger()).toEqual([]);
+    expect(harness.cash()).toBe(1000);
+  });
+
+  it('sells a fixture lot and credits the proceeds', async () => {
+    harness = await createCoordinatorHarness(
+      {
+        cashEur: 900,
+        prices: { ETH: 2_200 },
+        lots: [{ id: LOT_ID, symbol: 'ETH', amount: 0.05, price: 2_000, executedAt: '2026-01-05T10:00:00.000Z' }],
+      },
+      { now: T0 },
+    );
+
+    const res = await harness.send({
+      symbol: 'ETH',
+      side: 'SELL',
+      qtySuggested: 0.05,
+      metadata: { originalTradeId: LOT_ID },
+    });
+
+    expect(res.body.decision.action).toBe('SELL');
+    const sells = harness.ledger().filter((t) => t.trade_type === 'sell');
+    expect(sells).toHaveLength(1);
+    expect(Number(sells[0].amount)).toBeCloseTo(0.05, 8);
+    expect(harness.cash()).toBeCloseTo(1010, 6);
+  });
+
+  it('applies the exposure cap when unified decisions are enabled', async () => {
+    harness = await createCoordinatorHarness(
+      {
+        cashEur: 1000,
+        prices: { BTC: 50_000 },
+        config: {
+          maxWalletExposure: 10,
+          maxActiveCoins: 1,
+          unifiedConfig: UNIFIED_ON,
+        },
+      },
+      { now: T0 },
+    );
+
+    const first = await harness.send({ symbol: 'BTC', side: 'BUY', metadata: { eurAmount: 100 } });
+    expect(first.body.decision.action).toBe('BUY');
+
+    harness.advance(60_000);
+    const second = await harness.send({ symbol: 'BTC', side: 'BUY', metadata: { eurAmount: 100 } });
+    expect(second.body.decision.action).toBe('DEFER');
+    expect(second.body.decision.reason).toContain('Guards tripped');
+    expect(harness.ledger().filter((t) => t.trade_type === 'buy')).toHaveLength(1);
+  });
+
+  it('does not execute a replayed intent twice', async () => {
+    harness = await createCoordinatorHarness(
+      { cashEur: 1000, prices: { BTC: 50_000 }, config: { unifiedConfig: UNIFIED_ON } },
+      { now: T0 },
+    );
+
+    const intent = { symbol: 'BTC', side: 'BUY' as const, idempotencyKey: 'replay-1', metadata: { eurAmount: 100 } };
+    const first = await harness.send(intent);
+    const replay = await harness.send(intent);
+
+    expect(replay.body.decision.action).toBe(first.body.decision.action);
+
+    expect(harness.ledger()).toHaveLength(1);
+    expect(harness.cash()).toBe(900);
+  });
+});
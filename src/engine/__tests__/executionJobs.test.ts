@@ -0,0 +1,198 @@
+/**
+ * Execution Job Tests
+ *
+ * Validates:
+ * 1. Retryable vs non-retryable onchain-sign-and-send failures
+ * 2. Capped exponential backoff
+ * 3. READY / FAILED / DEAD_LETTER transitions and the bounded attempt log
+ * 4. Lease-expiry re-claims counting toward the attempt cap
+ * 5. SUBMITTED → CONFIRMED / FAILED from real_trades receipts
+ * 6. Ambiguous submits (timeout / crash mid-submit) wait out the reconcile window
+ * 7. Broadcast lookup by placeholder across real_trades and managed_transactions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+import {
+  EXECUTION_JOB_DEFAULTS,
+  attemptsExhausted,
+  deferTransition,
+  failureTransition,
+  isAmbiguousFailure,
+  isRetryableFailure,
+  receiptTransition,
+  reconcileWaitUntil,
+  retryDelaySeconds,
+  submittedTransition,
+  submittingTransition,
+  type ExecutionJobState,
+} from '../../../supabase/functions/_shared/executionJobs';
+import { broadcastIntentKey, findIntentBroadcast } from '../../../supabase/functions/_shared/realTrades';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function job(overrides: Partial<ExecutionJobState> = {}): ExecutionJobState {
+  return { attempts: 1, max_attempts: 5, attempt_log: [], ...overrides };
+}
+
+describe('isRetryableFailure', () => {
+  it('retries infrastructure failures and gives up on guards/config', () => {
+    expect(isRetryableFailure({ code: 'BROADCAST_FAILED', message: 'nonce too low', httpStatus: 500 })).toBe(true);
+    expect(isRetryableFailure({ code: 'blocked_intent_retry_storm', message: '', httpStatus: 429 })).toBe(true);
+    expect(isRetryableFailure({ code: null, message: 'signal timed out', httpStatus: null })).toBe(true);
+    expect(isRetryableFailure({ code: 'blocked_insufficient_usdc_wallet', message: '', httpStatus: 400 })).toBe(false);
+    expect(isRetryableFailure({ code: 'UNSUPPORTED_CHAIN', message: '', httpStatus: 400 })).toBe(false);
+    expect(isRetryableFailure({ code: null, message: 'bad request', httpStatus: 400 })).toBe(false);
+  });
+});
+
+describe('retryDelaySeconds', () => {
+  it('doubles per attempt up to the cap', () => {
+    expect(retryDelaySeconds(1)).toBe(EXECUTION_JOB_DEFAULTS.BACKOFF_BASE_SECONDS);
+    expect(retryDelaySeconds(3)).toBe(EXECUTION_JOB_DEFAULTS.BACKOFF_BASE_SECONDS * 4);
+    expect(retryDelaySeconds(20)).toBe(EXECUTION_JOB_DEFAULTS.BACKOFF_MAX_SECONDS);
+  });
+});
+
+describe('failureTransition', () => {
+  const transient = { code: 'BUILD_FAILED', message: '0x quote unavailable', httpStatus: 400 };
+
+  it('requeues transient failures with backoff and releases the lease', () => {
+    const patch = failureTransition(job({ attempts: 2 }), transient, NOW);
+    expect(patch).toMatchObject({
+      status: 'READY',
+      locked_by: null,
+      lease_expires_at: null,
+      error_message: '0x quote unavailable',
+      next_attempt_at: new Date(NOW.getTime() + retryDelaySeconds(2) * 1000).toISOString(),
+    });
+    expect(patch.attempt_log).toEqual([
+      { attempt: 2, at: NOW.toISOString(), outcome: 'retry', code: 'BUILD_FAILED', message: '0x quote unavailable' },
+    ]);
+  });
+
+  it('dead-letters transient failures once attempts are used up', () => {
+    const patch = failureTransition(job({ attempts: 5 }), transient, NOW);
+    expect(patch).toMatchObject({ status: 'DEAD_LETTER', dead_lettered_at: NOW.toISOString() });
+  });
+
+  it('fails non-retryable errors immediately without dead-lettering', () => {
+    const patch = failureTransition(
+      job(),
+      { code: 'blocked_negative_cash', message: 'cash below zero', httpStatus: 400 },
+      NOW,
+    );
+    expect(patch.status).toBe('FAILED');
+    expect(patch).not.toHaveProperty('dead_lettered_at');
+  });
+
+  it('keeps only the most recent attempt log entries', () => {
+    const log = Array.from({ length: EXECUTION_JOB_DEFAULTS.ATTEMPT_LOG_LIMIT }, (_, i) => ({
+      attempt: i,
+      at: NOW.toISOString(),
+      outcome: 'retry' as const,
+    }));
+    const patch = failureTransition(job({ attempts: 2, max_attempts: 50, attempt_log: log }), transient, NOW);
+    const entries = patch.attempt_log as { attempt: number }[];
+    expect(entries).toHaveLength(EXECUTION_JOB_DEFAULTS.ATTEMPT_LOG_LIMIT);
+    expect(entries[0].attempt).toBe(1);
+  });
+});
+
+describe('attemptsExhausted', () => {
+  it('treats a re-claim past the cap (lease expired mid-job) as exhausted', () => {
+    expect(attemptsExhausted(job({ attempts: 5 }))).toBe(false);
+    expect(attemptsExhausted(job({ attempts: 6 }))).toBe(true);
+    expect(attemptsExhausted(job({ attempts: 6, max_attempts: null }))).toBe(true);
+  });
+});
+
+describe('submitted / receipt transitions', () => {
+  it('records the tx hash and clears the last error', () => {
+    expect(submittedTransition(job(), '0xabc', NOW)).toMatchObject({
+      status: 'SUBMITTED',
+      tx_hash: '0xabc',
+      submitted_at: NOW.toISOString(),
+      error_message: null,
+      locked_by: null,
+    });
+  });
+
+  it('confirms, fails on revert, and waits while pending', () => {
+    expect(receiptTransition(job(), 'CONFIRMED', NOW)).toMatchObject({ status: 'CONFIRMED', confirmed_at: NOW.toISOString() });
+    expect(receiptTransition(job(), 'REVERTED', NOW)).toMatchObject({ status: 'FAILED', error_message: 'tx_reverted' });
+    expect(receiptTransition(job(), 'SUBMITTED', NOW)).toBeNull();
+    expect(receiptTransition(job(), undefined, NOW)).toBeNull();
+  });
+});
+
+describe('ambiguous submits', () => {
+  const timeout = { code: null, message: 'signal timed out', httpStatus: null };
+  const reconcileMs = EXECUTION_JOB_DEFAULTS.RECONCILE_AFTER_SECONDS * 1000;
+
+  it('only treats code-less timeouts and gateway errors as ambiguous', () => {
+    expect(isAmbiguousFailure(timeout)).toBe(true);
+    expect(isAmbiguousFailure({ code: null, message: '', httpStatus: 504 })).toBe(true);
+    expect(isAmbiguousFailure({ code: 'BROADCAST_FAILED', message: '', httpStatus: 500 })).toBe(false);
+    expect(isAmbiguousFailure({ code: null, message: '', httpStatus: 500 })).toBe(false);
+  });
+
+  it('requeues an ambiguous failure no earlier than the reconcile window', () => {
+    const patch = failureTransition(job({ attempts: 1 }), timeout, NOW);
+    expect(patch).toMatchObject({
+      status: 'READY',
+      next_attempt_at: new Date(NOW.getTime() + reconcileMs).toISOString(),
+    });
+    expect((patch.attempt_log as { outcome: string }[])[0].outcome).toBe('ambiguous');
+  });
+
+  it('renews the lease and marks the submit before calling sign-and-send', () => {
+    const patch = submittingTransition(job({ attempts: 2 }), NOW);
+    expect(patch.lease_expires_at).toBe(new Date(NOW.getTime() + EXECUTION_JOB_DEFAULTS.LEASE_SECONDS * 1000).toISOString());
+    expect(patch.attempt_log).toEqual([{ attempt: 2, at: NOW.toISOString(), outcome: 'submitting' }]);
+    expect(EXECUTION_JOB_DEFAULTS.SUBMIT_TIMEOUT_MS).toBeLessThan(EXECUTION_JOB_DEFAULTS.LEASE_SECONDS * 1000);
+  });
+
+  it('blocks a resend after a crash mid-submit until the window has passed', () => {
+    const crashed = job({ attempts: 2, attempt_log: [{ attempt: 1, at: NOW.toISOString(), outcome: 'submitting' }] });
+    const until = new Date(NOW.getTime() + reconcileMs).toISOString();
+
+    expect(reconcileWaitUntil(crashed, new Date(NOW.getTime() + 200_000))).toBe(until);
+    expect(reconcileWaitUntil(crashed, new Date(NOW.getTime() + reconcileMs))).toBeNull();
+    expect(reconcileWaitUntil(job({ attempt_log: [{ attempt: 1, at: NOW.toISOString(), outcome: 'retry' }] }), NOW)).toBeNull();
+  });
+
+  it('hands a deferred job back without spending an attempt', () => {
+    expect(deferTransition(job({ attempts: 3 }), '2026-03-01T12:10:00.000Z')).toMatchObject({
+      status: 'READY',
+      attempts: 2,
+      locked_by: null,
+      next_attempt_at: '2026-03-01T12:10:00.000Z',
+    });
+  });
+});
+
+describe('findIntentBroadcast', () => {
+  it('finds a broadcast by placeholder before real_trades exists', async () => {
+    const db = new InMemorySupabase({
+      real_trades: [],
+      managed_transactions: [{ intent_key: broadcastIntentKey('mock-1'), tx_hash: '0xfirst', mined_tx_hash: null }],
+    });
+    expect(await findIntentBroadcast(db, 'mock-1')).toBe('0xfirst');
+    expect(await findIntentBroadcast(db, 'mock-2')).toBeNull();
+  });
+
+  it('prefers real_trades and keeps sliced children apart', async () => {
+    const db = new InMemorySupabase({
+      real_trades: [
+        { trade_id: 'mock-1', slice_index: 0, tx_hash: '0xslice0' },
+        { trade_id: 'mock-2', slice_index: null, tx_hash: '0xwhole' },
+      ],
+      managed_transactions: [{ intent_key: 'mock-2', tx_hash: '0xmanaged', mined_tx_hash: null }],
+    });
+    expect(await findIntentBroadcast(db, 'mock-1', 0)).toBe('0xslice0');
+    expect(await findIntentBroadcast(db, 'mock-1', 1)).toBeNull();
+    expect(await findIntentBroadcast(db, 'mock-1')).toBeNull();
+    expect(await findIntentBroadcast(db, 'mock-2')).toBe('0xwhole');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Knowledge Embeddings Tests
+ *
+ * Validates:
+ * 1. Chunking: sentence-aligned, overlapping, bounded chunks
+ * 2. The local hashing provider: deterministic, normalized, lexically similar
+ * 3. indexKnowledgeDocument: replaces a document's chunks with the provider's model
+ * 4. retrieveKnowledge + buildKnowledgeContext: one citation per document,
+ *    only cited sources are listed under the answer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+import {
+  KNOWLEDGE_DEFAULTS,
+  buildKnowledgeContext,
+  chunkText,
+  citedSources,
+  createHashingEmbeddingProvider,
+  embeddingProviderFromEnv,
+  formatSources,
+  indexKnowledgeDocument,
+  retrieveKnowledge,
+  type KnowledgeMatch,
+} from '../../../supabase/functions/_shared/knowledgeEmbeddings';
+
+const provider = createHashingEmbeddingProvider(256);
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const sentence = (i: number) => `Sentence number ${i} talks about bitcoin halving cycles and miner revenue.`;
+
+/** match_knowledge_embeddings over the in-memory rows, as in the migration */
+function knowledgeDb(seed: Record<string, object[]> = {}) {
+  const db: InMemorySupabase = new InMemorySupabase(seed, {
+    rpc: {
+      match_knowledge_embeddings: (p) => {
+        const query = p.query_embedding as number[];
+        const documents = new Map(db.rows('knowledge_documents').map((d) => [d.id, d]));
+        return db
+          .rows('knowledge_embeddings')
+          .filter((e) => documents.get(e.document_id)?.user_id === p.p_user_id)
+          .filter((e) => e.embedding_model === p.p_embedding_model)
+          .map((e) => {
+            const doc = documents.get(e.document_id)!;
+            return {
+              embedding_id: e.id,
+              document_id: e.document_id,
+              source_id: doc.source_id,
+              chunk_index: e.chunk_index,
+              title: doc.title,
+              content: e.content,
+              metadata: doc.metadata,
+              similarity: cosine(query, e.embedding as number[]),
+            };
+          })
+          .filter((m) => m.similarity >= Number(p.min_similarity))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, Number(p.match_count));
+      },
+    },
+  });
+  return db;
+}
+
+describe('chunkText', () => {
+  it('returns nothing for blank content and one chunk for short content', () => {
+    expect(chunkText('   \n ')).toEqual([]);
+    expect(chunkText('Short   note\nabout ETH.')).toEqual(['Short note about ETH.']);
+  });
+
+  it('splits long content into overlapping chunks that end on sentence breaks', () => {
+    const text = Array.from({ length: 60 }, (_, i) => sentence(i)).join(' ');
+    const chunks = chunkText(text, 400, 80);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(400);
+    for (const chunk of chunks.slice(0, -1)) expect(chunk.endsWith('.')).toBe(true);
+    // The start of each chunk repeats the tail of the previous one
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i - 1]).toContain(chunks[i].slice(0, 20));
+    }
+    expect(chunks[chunks.length - 1].endsWith(sentence(59))).toBe(true);
+  });
+});
+
+describe('hashing embedding provider', () => {
+  it('is deterministic, unit length and sized to the provider', async () => {
+    const [a, b] = await provider.embed(['Ethereum staking yield', 'Ethereum staking yield']);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(cosine(a, a)).toBeCloseTo(1, 6);
+  });
+
+  it('scores overlapping vocabulary above unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'what happens to bitcoin after the halving',
+      'Bitcoin halving cuts the block reward and miner revenue',
+      'Recipe for sourdough bread with rye flour',
+    ]);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('falls back to the local provider only when no API key is configured', () => {
+    expect(embeddingProviderFromEnv(() => undefined).model).toBe(`local-hashing-${KNOWLEDGE_DEFAULTS.DIMENSIONS}`);
+    const env: Record<string, string> = { OPENAI_API_KEY: 'sk-test' };
+    expect(embeddingProviderFromEnv((k) => env[k]).model).toBe(KNOWLEDGE_DEFAULTS.OPENAI_MODEL);
+    expect(() => embeddingProviderFromEnv((k) => ({ EMBEDDING_PROVIDER: 'openai' })[k])).toThrow(/OPENAI_API_KEY/);
+  });
+});
+
+describe('indexKnowledgeDocument', () => {
+  it('replaces the document chunks and tags them with the provider model', async () => {
+    const db = knowledgeDb({ knowledge_embeddings: [{ id: 'old', document_id: 'doc-1', chunk_index: 0, content: 'stale' }] });
+    const content = Array.from({ length: 40 }, (_, i) => sentence(i)).join(' ');
+
+    const written = await indexKnowledgeDocument(db, provider, {
+      id: 'doc-1',
+      title: 'Halving primer',
+      content,
+      metadata: { url: 'https://example.com/halving' },
+    });
+
+    const rows = db.rows('knowledge_embeddings');
+    expect(written).toBe(chunkText(content).length);
+    expect(rows).toHaveLength(written);
+    expect(rows.map((r) => r.chunk_index)).toEqual([...Array(written).keys()]);
+    expect(rows[0]).toMatchObject({
+      document_id: 'doc-1',
+      embedding_model: provider.model,
+      metadata: { title: 'Halving primer', url: 'https://example.com/halving', chunk_count: written },
+    });
+    expect(rows[0].embedding).toHaveLength(256);
+  });
+
+  it('rejects vectors that do not fit the column', async () => {
+    const db = knowledgeDb();
+    const wrong = { ...provider, dimensions: 1536 };
+    await expect(indexKnowledgeDocument(db, wrong, { id: 'doc-1', title: 't', content: 'some text' })).rejects.toThrow(
+      /256 dimensions, expected 1536/,
+    );
+    expect(db.rows('knowledge_embeddings')).toHaveLength(0);
+  });
+});
+
+describe('retrieval and citations', () => {
+  const seed = {
+    knowledge_documents: [
+      { id: 'doc-halving', user_id: 'u1', source_id: 's1', title: 'Halving primer', metadata: { url: 'https://example.com/halving' } },
+      { id: 'doc-staking', user_id: 'u1', source_id: 's1', title: 'Staking notes', metadata: {} },
+      { id: 'doc-other', user_id: 'u2', source_id: 's2', title: 'Someone else', metadata: {} },
+    ],
+  };
+
+  it('only returns the user’s own chunks, most similar first', async () => {
+    const db = knowledgeDb(seed);
+    await indexKnowledgeDocument(db, provider, {
+      id: 'doc-halving',
+      title: 'Halving primer',
+      content: 'The bitcoin halving cuts the block reward in half. Miner revenue drops after each halving.',
+    });
+    await indexKnowledgeDocument(db, provider, {
+      id: 'doc-staking',
+      title: 'Staking notes',
+      content: 'Ethereum validators earn staking yield for proposing blocks.',
+    });
+    await indexKnowledgeDocument(db, provider, {
+      id: 'doc-other',
+      title: 'Someone else',
+      content: 'The bitcoin halving cuts the block reward in half.',
+    });
+
+    const matches = await retrieveKnowledge(db, provider, { userId: 'u1', query: 'bitcoin halving block reward', minSimilarity: 0.1 });
+    expect(matches[0].document_id).toBe('doc-halving');
+    expect(matches.every((m) => m.document_id !== 'doc-other')).toBe(true);
+
+    const other = await retrieveKnowledge(db, createHashingEmbeddingProvider(128), { userId: 'u1', query: 'bitcoin halving' });
+    expect(other).toEqual([]);
+  });
+
+  it('numbers documents once and lists only the sources the answer cites', () => {
+    const match = (document_id: string, title: string, similarity: number, url?: string): KnowledgeMatch => ({
+      embedding_id: `${document_id}-${similarity}`,
+      document_id,
+      source_id: 's1',
+      chunk_index: 0,
+      title,
+      content: `${title} excerpt`,
+      metadata: url ? { url } : {},
+      similarity,
+    });
+    const context = buildKnowledgeContext([
+      match('doc-staking', 'Staking notes', 0.41),
+      match('doc-halving', 'Halving primer', 0.82, 'https://example.com/halving'),
+      match('doc-halving', 'Halving primer', 0.77, 'https://example.com/halving'),
+    ]);
+
+    expect(context.citations.map((c) => [c.n, c.documentId])).toEqual([
+      [1, 'doc-halving'],
+      [2, 'doc-staking'],
+    ]);
+    expect(context.prompt.match(/^\[1\]/gm)).toHaveLength(2);
+
+    const answer = 'Miner revenue usually drops after a halving [1].';
+    expect(formatSources(citedSources(answer, context.citations))).toBe(
+      '📚 **Sources**\n[1] Halving primer — https://example.com/halving',
+    );
+    expect(formatSources(citedSources('No citations here.', context.citations))).toBe('');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * LLM Provider Layer Tests
+ *
+ * Validates:
+ * 1. JSON schema validation paths and messages
+ * 2. Cost estimate by longest model prefix
+ * 3. Fixture provider: deterministic answers, no network
+ * 4. completeJson re-asks with the validation errors and records one usage row
+ * 5. Provider selection from llm_configurations and missing keys
+ * 6. NL strategy parsing end to end on the fixture provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createFixtureLlmProvider,
+  createLlmClient,
+  extractJson,
+  LLM_DEFAULTS,
+  llmCost,
+  llmProviderFromConfig,
+  loadLlmConfiguration,
+  validateJsonSchema,
+  type JsonSchema,
+} from '../../../supabase/functions/_shared/llm';
+import { parseStrategyPrompt, STRATEGY_PARSE_SCHEMA } from '../../../supabase/functions/_shared/strategyParsing';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['side', 'size'],
+  properties: {
+    side: { type: 'string', enum: ['buy', 'sell'] },
+    size: { type: 'number' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value (integers are numbers)', () => {
+    expect(validateJsonSchema({ side: 'buy', size: 2, tags: ['a'] }, SCHEMA)).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    expect(validateJsonSchema({ side: 'hold', tags: ['a', 3] }, SCHEMA)).toEqual([
+      '$.size: is required',
+      '$.side: must be one of "buy", "sell"',
+      '$.tags[1]: expected string, got integer',
+    ]);
+    expect(validateJsonSchema([], SCHEMA)).toEqual(['$: expected object, got array']);
+  });
+});
+
+describe('extractJson', () => {
+  it('tolerates a markdown fence', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson(' {"a":1} ')).toEqual({ a: 1 });
+  });
+});
+
+describe('llmCost', () => {
+  it('prices by the longest matching model prefix', () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 1_000_000 };
+    expect(llmCost('gpt-4o-mini-2024-07-18', usage)).toBe(0.75);
+    expect(llmCost('gpt-4o', usage)).toBe(12.5);
+    expect(llmCost('llama3.1:8b', usage)).toBe(0);
+  });
+});
+
+describe('createLlmClient', () => {
+  it('returns fixture answers and records usage per call', async () => {
+    const db = new InMemorySupabase();
+    const llm = createLlmClient(createFixtureLlmProvider([{ match: 'hello', response: 'hi there' }], 'gpt-4o-mini'), {
+      supabase: db,
+      userId: 'user-1',
+      functionName: 'test',
+    });
+
+    const completion = await llm.complete({ messages: [{ role: 'user', content: 'hello' }] });
+    expect(completion).toMatchObject({ content: 'hi there', provider: 'fixture', usage: { input_tokens: 2, output_tokens: 2 } });
+    expect(db.rows('llm_usage')).toMatchObject([
+      { user_id: 'user-1', function_name: 'test', provider: 'fixture', model: 'gpt-4o-mini', success: true, structured: false },
+    ]);
+  });
+
+  it('re-asks with the schema errors until the answer validates', async () => {
+    const db = new InMemorySupabase();
+    const seen: number[] = [];
+    const provider = createFixtureLlmProvider([
+      {
+        match: 'trade',
+        response: (request) => {
+          seen.push(request.messages.length);
+          return seen.length === 1 ? { side: 'hold' } : { side: 'buy', size: 1 };
+        },
+      },
+    ]);
+    const llm = createLlmClient(provider, { supabase: db, functionName: 'test' });
+
+    const result = await llm.completeJson<{ side: string; size: number }>(
+      { messages: [{ role: 'user', content: 'trade please' }] },
+      SCHEMA,
+    );
+    expect(result.data).toEqual({ side: 'buy', size: 1 });
+    expect(result.attempts).toBe(2);
+    // Second attempt carries the first answer and the validation errors
+    expect(seen).toEqual([1, 3]);
+
+    const [row] = db.rows('llm_usage');
+    expect(row).toMatchObject({ user_id: null, attempts: 2, structured: true, success: true });
+    expect(row.input_tokens).toBeGreaterThan(0);
+  });
+
+  it('fails after the configured retries and records the failure', async () => {
+    const db = new InMemorySupabase();
+    const llm = createLlmClient(createFixtureLlmProvider([{ match: 'trade', response: 'not json' }]), {
+      supabase: db,
+      functionName: 'test',
+      retries: 1,
+    });
+
+    await expect(llm.completeJson({ messages: [{ role: 'user', content: 'trade' }] }, SCHEMA)).rejects.toThrow(
+      /after 2 attempts: invalid JSON/,
+    );
+    expect(db.rows('llm_usage')).toMatchObject([{ attempts: 2, success: false }]);
+  });
+
+  it('records provider errors and rethrows them', async () => {
+    const db = new InMemorySupabase();
+    const llm = createLlmClient(createFixtureLlmProvider([]), { supabase: db, functionName: 'test' });
+
+    await expect(llm.complete({ messages: [{ role: 'user', content: 'unknown' }] })).rejects.toThrow(/no response/);
+    expect(db.rows('llm_usage')).toMatchObject([{ success: false, input_tokens: 0 }]);
+  });
+});
+
+describe('llmProviderFromConfig', () => {
+  const env = (values: Record<string, string>) => (key: string) => values[key];
+
+  it('picks the provider of the configuration', () => {
+    expect(llmProviderFromConfig({ provider: 'openai', model: 'gpt-4o' }, env({ OPENAI_API_KEY: 'k' }))).toMatchObject({
+      kind: 'openai',
+      model: 'gpt-4o',
+    });
+    expect(
+      llmProviderFromConfig({ provider: 'anthropic', model: 'claude-3-haiku' }, env({ ANTHROPIC_API_KEY: 'k' })),
+    ).toMatchObject({ kind: 'anthropic', model: 'claude-3-haiku-20240307' });
+    // Local endpoints need no key
+    expect(llmProviderFromConfig({ provider: 'local', model: 'llama3.1:8b' }, env({}))).toMatchObject({ kind: 'local' });
+  });
+
+  it('names the missing secret or unknown provider', () => {
+    expect(() => llmProviderFromConfig({ provider: 'openai', model: 'gpt-4o' }, env({}))).toThrow(/OPENAI_API_KEY/);
+    expect(() => llmProviderFromConfig({ provider: 'anthropic', model: 'x' }, env({}))).toThrow(/ANTHROPIC_API_KEY/);
+    expect(() => llmProviderFromConfig({ provider: 'google', model: 'gemini' }, env({}))).toThrow(/Unknown LLM provider/);
+  });
+});
+
+describe('loadLlmConfiguration', () => {
+  it('reads the active row and falls back to defaults', async () => {
+    const row = { provider: 'local', model: 'llama3.1:8b', temperature: 0.2, max_tokens: 500, is_active: true };
+    expect(await loadLlmConfiguration(new InMemorySupabase({ llm_configurations: [row] }))).toMatchObject({
+      provider: 'local',
+    });
+    expect(await loadLlmConfiguration(new InMemorySupabase())).toMatchObject({
+      provider: LLM_DEFAULTS.PROVIDER,
+      model: LLM_DEFAULTS.MODEL,
+    });
+  });
+});
+
+describe('parseStrategyPrompt', () => {
+  const parsed = {
+    strategy_name: 'Sentiment Dip Buyer',
+    description: 'Buys BTC on bullish sentiment after a dip',
+    configuration: {
+      action: 'buy',
+      assets: ['BTC'],
+      triggers: [{ type: 'sentiment', asset: 'BTC', condition: 'above', threshold: 60 }],
+      risk_management: { stop_loss: 5 },
+    },
+    required_categories: ['Social Sentiment', 'Whale Activity'],
+    risk_level: 'medium',
+    complexity: 'simple',
+  };
+
+  it('parses offline and reports categories that are not enabled', async () => {
+    const llm = createLlmClient(
+      createFixtureLlmProvider([{ match: /sentiment turns bullish/i, response: parsed }]),
+      { functionName: 'parse-strategy' },
+    );
+
+    const result = await parseStrategyPrompt(llm, 'Buy BTC when sentiment turns bullish, 5% stop loss', [
+      'Social Sentiment',
+      'Market Data',
+    ]);
+    expect(result).toEqual({ strategy: parsed, missing_categories: ['Whale Activity'], attempts: 1 });
+    expect(validateJsonSchema(result.strategy, STRATEGY_PARSE_SCHEMA)).toEqual([]);
+  });
+
+  it('puts the enabled categories in the system prompt', async () => {
+    let systemPrompt = '';
+    const llm = createLlmClient(
+      createFixtureLlmProvider([
+        {
+          match: 'DCA',
+          response: (request) => {
+            systemPrompt = request.messages[0].content;
+            return { ...parsed, required_categories: [] };
+          },
+        },
+      ]),
+      { functionName: 'parse-strategy' },
+    );
+
+    await parseStrategyPrompt(llm, 'DCA into ETH weekly', ['Market Data']);
+    expect(systemPrompt).toContain('Available data categories: Market Data');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * In-Process ML Inference Tests
+ *
+ * Validates:
+ * 1. Indicators: RSI and stochastic %K on known series
+ * 2. Feature vector names and missing values on short history
+ * 3. XGBoost JSON dump traversal: named / indexed splits, missing branch, base score
+ * 4. Logistic models with a scaler and mean imputation
+ * 5. Bundle ensemble, signal threshold and shape validation
+ * 6. Storage loader caching and retry after a failed download
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeMlFeatures,
+  computeRsi,
+  computeStochK,
+  createStorageModelLoader,
+  ML_FEATURE_NAMES,
+  parseModelBundle,
+  predictBundle,
+  predictModel,
+  scoreXgbTree,
+  type LogisticModel,
+  type MlCandle,
+  type MlModelBundle,
+  type XgbModel,
+  type XgbTreeNode,
+} from '../../../supabase/functions/_shared/mlInference';
+
+const candles = (closes: number[]): MlCandle[] =>
+  closes.map((close) => ({ open: close, high: close + 1, low: close - 1, close, volume: 10 }));
+
+const ramp = (n: number, start = 100, step = 0.1) => Array.from({ length: n }, (_, i) => start + i * step);
+
+// rsi14 < 50 → leaf -1, else split on f1 (index) at 0.01
+const TREE: XgbTreeNode = {
+  nodeid: 0,
+  split: 'rsi14',
+  split_condition: 50,
+  yes: 1,
+  no: 2,
+  missing: 1,
+  children: [
+    { nodeid: 1, leaf: -1 },
+    {
+      nodeid: 2,
+      split: 'f1',
+      split_condition: 0.01,
+      yes: 3,
+      no: 4,
+      missing: 4,
+      children: [
+        { nodeid: 3, leaf: 0.5 },
+        { nodeid: 4, leaf: 1.5 },
+      ],
+    },
+  ],
+};
+
+const FEATURES = ['rsi14', 'ret_12'];
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+const xgb: XgbModel = { name: 'xgb', format: 'xgboost_json_dump', base_score: 0.5, trees: [TREE] };
+const logistic: LogisticModel = {
+  name: 'logit',
+  format: 'logistic',
+  intercept: 0,
+  coefficients: [1, 2],
+  scaler: { mean: [50, 0], scale: [10, 0.01] },
+};
+
+describe('indicators', () => {
+  it('RSI is 100 on a steady rise and 50 on a flat series', () => {
+    expect(computeRsi(ramp(30))).toBe(100);
+    expect(computeRsi(Array(30).fill(100))).toBe(50);
+    expect(computeRsi(ramp(10))).toBeNull();
+  });
+
+  it('stochastic %K places the close in the recent range', () => {
+    // Last 14 lows/highs span 99..114 (closes 100..113 ± 1); close 113
+    expect(computeStochK(candles(ramp(14, 100, 1)))).toBeCloseTo((14 / 15) * 100, 6);
+  });
+});
+
+describe('computeMlFeatures', () => {
+  it('produces every named feature on a full window', () => {
+    const features = computeMlFeatures(candles(ramp(400)));
+    expect(Object.keys(features)).toEqual([...ML_FEATURE_NAMES]);
+    expect(Object.values(features).every((v) => v !== null)).toBe(true);
+    expect(features.ret_12).toBeCloseTo(Math.log(139.9 / 138.7), 10);
+    expect(features.ema9_dist).toBeGreaterThan(0);
+    expect(features.volume_ratio_48).toBe(1);
+  });
+
+  it('leaves long-window features missing on short history', () => {
+    const features = computeMlFeatures(candles(ramp(60)));
+    expect(features.ret_288).toBeNull();
+    expect(features.ema200_dist).toBeNull();
+    expect(features.ret_48).not.toBeNull();
+  });
+});
+
+describe('XGBoost JSON dump', () => {
+  it('follows named and indexed splits', () => {
+    expect(scoreXgbTree(TREE, [40, 0.05], FEATURES)).toBe(-1);
+    expect(scoreXgbTree(TREE, [60, 0.005], FEATURES)).toBe(0.5);
+    expect(scoreXgbTree(TREE, [60, 0.05], FEATURES)).toBe(1.5);
+  });
+
+  it('takes the missing branch for null values', () => {
+    expect(scoreXgbTree(TREE, [null, 0.05], FEATURES)).toBe(-1);
+    expect(scoreXgbTree(TREE, [60, null], FEATURES)).toBe(1.5);
+  });
+
+  it('adds leaf margins to the base score logit', () => {
+    expect(predictModel(xgb, [60, 0.05], FEATURES)).toBeCloseTo(sigmoid(1.5), 10);
+    const shifted = { ...xgb, base_score: 0.8, trees: [TREE, TREE] };
+    expect(predictModel(shifted, [60, 0.005], FEATURES)).toBeCloseTo(sigmoid(Math.log(4) + 1), 10);
+  });
+
+  it('rejects unknown split features', () => {
+    expect(() => scoreXgbTree({ ...TREE, split: 'f9' }, [60, 0], FEATURES)).toThrow(/unknown split feature/);
+  });
+});
+
+describe('logistic', () => {
+  it('standardizes features and imputes missing ones with the mean', () => {
+    // (60-50)/10 × 1 + (0.02-0)/0.01 × 2 = 5
+    expect(predictModel(logistic, [60, 0.02], FEATURES)).toBeCloseTo(sigmoid(5), 10);
+    expect(predictModel(logistic, [60, null], FEATURES)).toBeCloseTo(sigmoid(1), 10);
+  });
+});
+
+describe('bundles', () => {
+  const bundle: MlModelBundle = {
+    version: 'test-v1',
+    feature_names: FEATURES,
+    signal_threshold: 0.8,
+    models: [{ ...xgb, weight: 3 }, { ...logistic, weight: 1 }],
+  };
+
+  it('weights model probabilities into the ensemble', () => {
+    const prediction = predictBundle(bundle, { rsi14: 60, ret_12: 0.02, unused: 1 });
+    const expected = (sigmoid(1.5) * 3 + sigmoid(5)) / 4;
+    expect(prediction.ensemble_prob).toBeCloseTo(expected, 10);
+    expect(prediction).toMatchObject({
+      xgb_prob: sigmoid(1.5),
+      signal: 'BUY',
+      model_version: 'test-v1',
+      missing_features: [],
+    });
+  });
+
+  it('holds below the threshold and reports missing features', () => {
+    const prediction = predictBundle(bundle, { rsi14: 40 });
+    expect(prediction.signal).toBe('HOLD');
+    expect(prediction.missing_features).toEqual(['ret_12']);
+  });
+
+  it('validates the shape before use', () => {
+    expect(parseModelBundle(JSON.parse(JSON.stringify(bundle)))).toEqual(bundle);
+    expect(() => parseModelBundle({ feature_names: FEATURES, models: [{ ...logistic, coefficients: [1] }] })).toThrow(
+      'model bundle: version is required; logit: coefficients must match feature_names',
+    );
+    expect(() => parseModelBundle({ version: 'x', feature_names: FEATURES, models: [{ name: 'nn', format: 'onnx' }] }))
+      .toThrow(/unsupported format onnx/);
+  });
+});
+
+describe('createStorageModelLoader', () => {
+  const bundle: MlModelBundle = { version: 'stored', feature_names: FEATURES, models: [xgb] };
+
+  const storage = (responses: Array<{ data: { text(): Promise<string> } | null; error: { message: string } | null }>) => {
+    const calls: string[] = [];
+    return {
+      calls,
+      client: {
+        storage: {
+          from: (bucket: string) => ({
+            download: async (path: string) => {
+              calls.push(`${bucket}/${path}`);
+              return responses.shift()!;
+            },
+          }),
+        },
+      },
+    };
+  };
+  const file = (value: unknown) => ({ text: async () => JSON.stringify(value) });
+
+  it('caches the bundle for the TTL', async () => {
+    let now = 0;
+    const { calls, client } = storage([
+      { data: file(bundle), error: null },
+      { data: file({ ...bundle, version: 'newer' }), error: null },
+    ]);
+    const loader = createStorageModelLoader(client, { ttlMs: 1000, now: () => now });
+
+    expect((await loader.load()).version).toBe('stored');
+    now = 999;
+    expect((await loader.load()).version).toBe('stored');
+    now = 1000;
+    expect((await loader.load()).version).toBe('newer');
+    expect(calls).toEqual(['ml-models/shadow/current.json', 'ml-models/shadow/current.json']);
+  });
+
+  it('retries after a failed download', async () => {
+    const { client } = storage([
+      { data: null, error: { message: 'Object not found' } },
+      { data: file(bundle), error: null },
+    ]);
+    const loader = createStorageModelLoader(client, { path: 'shadow/v2.json' });
+
+    await expect(loader.load()).rejects.toThrow('model download ml-models/shadow/v2.json failed: Object not found');
+    expect((await loader.load()).version).toBe('stored');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Model Registry Tests
+ *
+ * Validates:
+ * 1. Active models load champion first; retired models are skipped
+ * 2. Every model scores the same features with its own threshold
+ * 3. A failing bundle is reported without stopping the others
+ * 4. Precision / recall and P&L attribution per model
+ * 5. Samples come from snapshots that recorded per-model scores
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateModels,
+  evaluationSamples,
+  fetchActiveModels,
+  scoreRegisteredModels,
+  type MlModelRow,
+  type ModelScore,
+} from '../../../supabase/functions/_shared/modelRegistry';
+import type { MlFeatures, MlModelBundle, ModelLoader } from '../../../supabase/functions/_shared/mlInference';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const features: MlFeatures = { rsi14: 55 };
+
+// Zero-weight logistic model: probability = sigmoid(intercept)
+const bundle = (version: string, intercept: number): MlModelBundle => ({
+  version,
+  feature_names: ['rsi14'],
+  models: [{ name: 'logit', format: 'logistic', intercept, coefficients: [0] }],
+});
+
+const model = (id: string, status: MlModelRow['status'], threshold: number): MlModelRow => ({
+  id,
+  name: `m-${id}`,
+  version: 'v1',
+  status,
+  storage_path: `registry/${id}.json`,
+  signal_threshold: String(threshold),
+});
+
+const loaders = (bundles: Record<string, MlModelBundle | Error>) => (path: string): ModelLoader => ({
+  load: async () => {
+    const b = bundles[path];
+    if (b instanceof Error) throw b;
+    return b;
+  },
+});
+
+const score = (model_id: string, would_enter: boolean, extra: Partial<ModelScore> = {}): ModelScore => ({
+  model_id,
+  name: `m-${model_id}`,
+  version: 'v1',
+  status: 'shadow',
+  threshold: 0.5,
+  prob: would_enter ? 0.9 : 0.1,
+  xgb_prob: null,
+  would_enter,
+  ...extra,
+});
+
+describe('fetchActiveModels', () => {
+  it('returns active models with the champion first', async () => {
+    const db = new InMemorySupabase({
+      ml_models: [
+        { ...model('a', 'shadow', 0.5), created_at: '2026-10-01T00:00:00Z' },
+        { ...model('b', 'retired', 0.5), created_at: '2026-10-02T00:00:00Z' },
+        { ...model('c', 'challenger', 0.5), created_at: '2026-10-03T00:00:00Z' },
+        { ...model('d', 'champion', 0.5), created_at: '2026-10-04T00:00:00Z' },
+      ],
+    });
+    expect((await fetchActiveModels(db)).map((m) => m.id)).toEqual(['d', 'a', 'c']);
+  });
+});
+
+describe('scoreRegisteredModels', () => {
+  it('scores each model against its own threshold', async () => {
+    const result = await scoreRegisteredModels(
+      [model('champ', 'champion', 0.9), model('chal', 'challenger', 0.6)],
+      loaders({
+        'registry/champ.json': bundle('champ-v1', Math.log(0.8 / 0.2)),
+        'registry/chal.json': bundle('chal-v1', Math.log(0.8 / 0.2)),
+      }),
+      features,
+    );
+    expect(result.scores.map((s) => [s.model_id, s.prob?.toFixed(2), s.would_enter])).toEqual([
+      ['champ', '0.80', false],
+      ['chal', '0.80', true],
+    ]);
+    expect(result.champion?.model_id).toBe('champ');
+    expect(result.champion?.threshold).toBe(0.9);
+  });
+
+  it('reports a failing bundle and keeps scoring the rest', async () => {
+    const result = await scoreRegisteredModels(
+      [model('champ', 'champion', 0.5), model('shadow', 'shadow', 0.5)],
+      loaders({ 'registry/champ.json': new Error('not found'), 'registry/shadow.json': bundle('s', 2) }),
+      features,
+    );
+    expect(result.scores[0]).toMatchObject({ model_id: 'champ', prob: null, would_enter: false, error: 'not found' });
+    expect(result.scores[1]).toMatchObject({ model_id: 'shadow', would_enter: true });
+    expect(result.champion).toBeNull();
+  });
+});
+
+describe('evaluateModels', () => {
+  it('computes precision, recall and P&L per model', () => {
+    const metrics = evaluateModels(
+      [
+        { decision_id: 'd1', champion_model_id: 'a', realized_pnl_pct: 2, models: [score('a', true), score('b', true)] },
+        { decision_id: 'd2', champion_model_id: 'a', realized_pnl_pct: -1, models: [score('a', true), score('b', false)] },
+        { decision_id: 'd3', champion_model_id: 'a', realized_pnl_pct: 0.5, models: [score('a', false), score('b', true)] },
+        { decision_id: 'd4', champion_model_id: 'a', realized_pnl_pct: null, models: [score('a', true), score('b', true)] },
+      ],
+      { horizon: '4h', since: '2026-09-18T00:00:00.000Z', now: '2026-10-18T00:00:00.000Z' },
+    );
+
+    expect(metrics.a).toMatchObject({
+      samples: 3,
+      positives: 2,
+      predicted_positive: 2,
+      true_positive: 1,
+      precision: 0.5,
+      recall: 0.5,
+      selected_pnl_pct_sum: 1,
+      selected_mean_pnl_pct: 0.5,
+      gated_entries: 2,
+      gated_pnl_pct_sum: 1,
+    });
+    expect(metrics.b).toMatchObject({
+      precision: 1,
+      recall: 1,
+      selected_pnl_pct_sum: 2.5,
+      gated_entries: 0,
+    });
+  });
+
+  it('skips errored scores and reports null ratios without predictions', () => {
+    const metrics = evaluateModels(
+      [
+        {
+          decision_id: 'd1',
+          champion_model_id: null,
+          realized_pnl_pct: 1,
+          models: [score('a', false), score('b', false, { prob: null, error: 'boom' })],
+        },
+      ],
+      { horizon: '4h', since: '2026-09-18T00:00:00.000Z' },
+    );
+    expect(metrics.a).toMatchObject({ samples: 1, precision: null, recall: 0, selected_mean_pnl_pct: null });
+    expect(metrics.b).toBeUndefined();
+  });
+});
+
+describe('evaluationSamples', () => {
+  it('joins scored snapshots with outcomes once per decision', () => {
+    const models = [score('a', true)];
+    const samples = evaluationSamples(
+      [
+        { decision_id: 'd1', market_context_json: { ml_shadow: { models, champion_model_id: 'a' } } },
+        { decision_id: 'd1', market_context_json: { ml_shadow: { models, champion_model_id: 'a' } } },
+        { decision_id: 'd2', market_context_json: { ml_shadow: { ensemble_prob: 0.9 } } },
+        { decision_id: 'd3', market_context_json: { ml_shadow: { models } } },
+      ],
+      [
+        { decision_id: 'd1', realized_pnl_pct: '1.5' },
+        { decision_id: 'd2', realized_pnl_pct: 1 },
+      ],
+    );
+    expect(samples).toEqual([{ decision_id: 'd1', models, champion_model_id: 'a', realized_pnl_pct: 1.5 }]);
+  });
+});
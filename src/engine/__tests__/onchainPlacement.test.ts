@@ -0,0 +1,92 @@
+/**
+ * On-chain Placement Provider Selection Tests
+ *
+ * Validates:
+ * 1. Only 0x on Base/USDC is placeable on-chain
+ * 2. 1inch, CoW, Uniswap and Coinbase are quote-only connectors
+ * 3. executeBest routes to the cheapest connector that can place the route
+ * 4. executeBest fails fast when nothing can place the request
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { canPlaceOnchain, PLACEABLE_ONCHAIN_PROVIDERS } from '@/execution/onchainPlacement';
+import { executeBest } from '@/execution/MetaRouter';
+import { CoinbaseConnector, CoWConnector, OneInchConnector, UniswapConnector } from '@/execution/connectors';
+import type { ExecutionConnector, Provider, QuoteReq } from '@/execution/types';
+
+// The browser client needs localStorage; selection never reaches the network
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const req = (overrides: Partial<QuoteReq> = {}): QuoteReq => ({
+  mode: 'ONCHAIN',
+  chainId: 8453,
+  base: 'ETH',
+  quote: 'USDC',
+  side: 'BUY',
+  amount: 100,
+  ...overrides,
+});
+
+function fakeConnector(provider: Provider, effectiveBpsCost: number, placeable: boolean) {
+  const placed: string[] = [];
+  const connector: ExecutionConnector = {
+    provider,
+    getQuote: async () => ({ provider, price: 3000, quoteTs: Date.now(), effectiveBpsCost }),
+    canPlace: () => placeable,
+    place: async () => {
+      placed.push(provider);
+      return { id: `0x${provider}`, txHash: `0x${provider}`, status: 'PENDING' };
+    },
+    getStatus: async () => 'PENDING',
+  };
+  return { connector, placed };
+}
+
+describe('canPlaceOnchain', () => {
+  it('accepts 0x on Base/USDC only', () => {
+    expect(PLACEABLE_ONCHAIN_PROVIDERS).toEqual(['0x']);
+    expect(canPlaceOnchain('0x', req())).toBe(true);
+    expect(canPlaceOnchain('0x', req({ chainId: undefined }))).toBe(true);
+    expect(canPlaceOnchain('0x', req({ quote: 'usdc' }))).toBe(true);
+  });
+
+  it('rejects other routes, modes and quote-only providers', () => {
+    expect(canPlaceOnchain('0x', req({ chainId: 1 }))).toBe(false);
+    expect(canPlaceOnchain('0x', req({ quote: 'EUR' }))).toBe(false);
+    expect(canPlaceOnchain('0x', req({ mode: 'COINBASE' }))).toBe(false);
+    expect(canPlaceOnchain('1inch', req())).toBe(false);
+    expect(canPlaceOnchain('cow', req())).toBe(false);
+    expect(canPlaceOnchain('uniswap', req())).toBe(false);
+  });
+
+  it('keeps the connectors without a builder quote-only', () => {
+    const connectors = [new OneInchConnector(), new CoWConnector(), new UniswapConnector(), new CoinbaseConnector()];
+    expect(connectors.map((c) => 'place' in c || 'canPlace' in c)).toEqual([false, false, false, false]);
+  });
+});
+
+describe('executeBest provider selection', () => {
+  it('places with the cheapest placeable connector even when one that cannot place is cheaper', async () => {
+    const oneInch = fakeConnector('1inch', 5, false);
+    const zeroEx = fakeConnector('0x', 12, true);
+
+    const routed = await executeBest(req(), [oneInch.connector, zeroEx.connector]);
+
+    expect(routed.quote.provider).toBe('0x');
+    expect(routed.connector).toBe(zeroEx.connector);
+    expect(routed.placement).toMatchObject({ id: '0x0x', status: 'PENDING' });
+    expect(oneInch.placed).toEqual([]);
+  });
+
+  it('throws when no connector can place the request', async () => {
+    const cow = fakeConnector('cow', 5, false);
+    await expect(executeBest(req(), [cow.connector])).rejects.toThrow('No connector can place');
+    expect(cow.placed).toEqual([]);
+  });
+
+  it('throws when the only placeable connector has no quote', async () => {
+    const zeroEx = fakeConnector('0x', Number.POSITIVE_INFINITY, true);
+    await expect(executeBest(req(), [zeroEx.connector])).rejects.toThrow('No viable quotes');
+    expect(zeroEx.placed).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Order Book Depth Tests
+ *
+ * Validates:
+ * 1. Spread, per-band depth and imbalance from a level-2 book
+ * 2. Empty / crossed books and truncated depth
+ * 3. Liquidity gate per context policy (pass, block, skipped reasons)
+ * 4. Latest-snapshot lookup ignores stale rows
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LIQUIDITY_POLICY,
+  computeOrderBookSnapshot,
+  evaluateLiquidityGate,
+  fetchLatestOrderBook,
+  liquidityContext,
+  takerSideDepthEur,
+} from '../../../supabase/functions/_shared/orderBookDepth';
+import { DEFAULT_CONTEXT_POLICY } from '../../utils/contextPolicyConfig';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const T0 = Date.parse('2026-03-01T12:00:00.000Z');
+const TS = new Date(T0).toISOString();
+
+// mid = 100, spread = 20 bps
+const BIDS: [string, string][] = [['99.9', '10'], ['99.8', '5'], ['99.6', '20'], ['99.0', '100']];
+const ASKS: [string, string][] = [['100.1', '4'], ['100.3', '10'], ['100.45', '8'], ['101.0', '100']];
+
+describe('computeOrderBookSnapshot', () => {
+  it('computes spread, band depth and imbalance around mid', () => {
+    const snap = computeOrderBookSnapshot('BTC-EUR', BIDS, ASKS, TS)!;
+
+    expect(snap).toMatchObject({ symbol: 'BTC-EUR', ts: TS, best_bid: 99.9, best_ask: 100.1, mid: 100, bid_levels: 4, ask_levels: 4 });
+    expect(snap.spread_bps).toBeCloseTo(20, 4);
+    // 10 bps: bids >= 99.9, asks <= 100.1
+    expect(snap.bid_depth_10bps).toBe(999);
+    expect(snap.ask_depth_10bps).toBe(400.4);
+    // 25 bps: bids >= 99.75, asks <= 100.25
+    expect(snap.bid_depth_25bps).toBe(1498);
+    expect(snap.ask_depth_25bps).toBe(400.4);
+    // 50 bps: bids >= 99.5, asks <= 100.5
+    expect(snap.bid_depth_50bps).toBe(3490);
+    expect(snap.ask_depth_50bps).toBe(2207);
+    expect(snap.imbalance).toBeCloseTo((1498 - 400.4) / (1498 + 400.4), 4);
+    expect(snap.depth_truncated).toBe(false);
+  });
+
+  it('sorts unordered levels and flags a book that ends inside the widest band', () => {
+    const snap = computeOrderBookSnapshot('ETH-EUR', [['99.8', '1'], ['99.9', '1']], [['100.1', '1']], TS)!;
+    expect(snap.best_bid).toBe(99.9);
+    expect(snap.depth_truncated).toBe(true);
+  });
+
+  it('returns null for empty or crossed books', () => {
+    expect(computeOrderBookSnapshot('BTC-EUR', [], ASKS, TS)).toBeNull();
+    expect(computeOrderBookSnapshot('BTC-EUR', BIDS, null, TS)).toBeNull();
+    expect(computeOrderBookSnapshot('BTC-EUR', [['100.2', '1']], [['100.1', '1']], TS)).toBeNull();
+  });
+});
+
+describe('liquidity gate', () => {
+  const snap = computeOrderBookSnapshot('BTC-EUR', BIDS, ASKS, TS)!;
+
+  it('mirrors the liquidity thresholds of DEFAULT_CONTEXT_POLICY', () => {
+    for (const context of ['ENTRY', 'TP', 'SL', 'MANUAL'] as const) {
+      expect(LIQUIDITY_POLICY[context]).toEqual(DEFAULT_CONTEXT_POLICY[context].liquidity);
+    }
+  });
+
+  it('maps intents to policy contexts', () => {
+    expect(liquidityContext({ source: 'manual', trigger: 'STOP_LOSS' })).toBe('MANUAL');
+    expect(liquidityContext({ source: 'intelligent', trigger: 'TAKE_PROFIT' })).toBe('TP');
+    expect(liquidityContext({ source: 'intelligent', trigger: 'TRAILING_STOP' })).toBe('SL');
+    expect(liquidityContext({ source: 'intelligent', trigger: '' })).toBe('ENTRY');
+  });
+
+  it('checks the side the order takes against the context threshold', () => {
+    expect(takerSideDepthEur(snap, 'BUY')).toBe(400.4);
+    expect(takerSideDepthEur(snap, 'SELL')).toBe(1498);
+
+    // BUY €100 against €400.4 of asks = 4.004x >= 3x
+    expect(evaluateLiquidityGate({ snapshot: snap, side: 'BUY', notionalEur: 100, context: 'ENTRY', nowMs: T0 })).toMatchObject({
+      status: 'pass',
+      depthRatio: 4.004,
+      minDepthRatio: 3,
+    });
+    // BUY €200 = 2.002x < 3x
+    expect(evaluateLiquidityGate({ snapshot: snap, side: 'BUY', notionalEur: 200, context: 'ENTRY', nowMs: T0 }).status).toBe('block');
+    // SELL €600 against €1498 of bids = 2.497x: passes SL (2x), blocks MANUAL (2.5x)
+    expect(evaluateLiquidityGate({ snapshot: snap, side: 'SELL', notionalEur: 600, context: 'SL', nowMs: T0 }).status).toBe('pass');
+    expect(evaluateLiquidityGate({ snapshot: snap, side: 'SELL', notionalEur: 600, context: 'MANUAL', nowMs: T0 }).status).toBe('block');
+  });
+
+  it('skips when not enforced, without notional or without a fresh snapshot', () => {
+    const base = { snapshot: snap, side: 'SELL' as const, notionalEur: 1e6, nowMs: T0 };
+    expect(evaluateLiquidityGate({ ...base, context: 'TP' })).toEqual({ status: 'skipped', reason: 'not_enforced' });
+    expect(evaluateLiquidityGate({ ...base, context: 'ENTRY', notionalEur: 0 })).toEqual({ status: 'skipped', reason: 'no_notional' });
+    expect(evaluateLiquidityGate({ ...base, context: 'ENTRY', snapshot: null })).toEqual({ status: 'skipped', reason: 'no_snapshot' });
+    expect(evaluateLiquidityGate({ ...base, context: 'ENTRY', nowMs: T0 + 180_000 })).toEqual({
+      status: 'skipped',
+      reason: 'stale_snapshot',
+    });
+  });
+});
+
+describe('fetchLatestOrderBook', () => {
+  it('returns the newest snapshot for the pair within the max age', async () => {
+    const db = new InMemorySupabase({
+      order_book_snapshots: [
+        { id: 'old', symbol: 'BTC-EUR', ts: new Date(T0 - 300_000).toISOString(), spread_bps: 9 },
+        { id: 'new', symbol: 'BTC-EUR', ts: new Date(T0 - 30_000).toISOString(), spread_bps: 4 },
+        { id: 'eth', symbol: 'ETH-EUR', ts: new Date(T0 - 10_000).toISOString(), spread_bps: 6 },
+      ],
+    });
+
+    expect((await fetchLatestOrderBook(db, 'BTC-EUR', T0))?.id).toBe('new');
+    expect(await fetchLatestOrderBook(db, 'BTC-EUR', T0 + 200_000)).toBeNull();
+    expect(await fetchLatestOrderBook(db, 'SOL-EUR', T0)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Order Slicing / TWAP Tests
+ *
+ * Validates:
+ * 1. Config resolution: defaults, clamping, IMPACT mode switch
+ * 2. Slice gating by enablement and minimum notional
+ * 3. Slice planning: TWAP spacing and sizing, remainder on the last child
+ * 4. IMPACT sizing toward the price-impact cap
+ * 5. Fill roll-up to a volume-weighted price
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SLICING_DEFAULTS,
+  impactSizedAmount,
+  resolveSliceMode,
+  resolveSlicingConfig,
+  rollUpFill,
+  shouldSliceOrder,
+  sliceIntervalMs,
+  twapSliceAmount,
+} from '../../../supabase/functions/_shared/orderSlicing';
+
+describe('resolveSlicingConfig', () => {
+  it('is off with defaults when nothing is configured', () => {
+    expect(resolveSlicingConfig(null)).toEqual({
+      enabled: false,
+      minNotionalEur: SLICING_DEFAULTS.MIN_NOTIONAL_EUR,
+      sliceCount: SLICING_DEFAULTS.SLICE_COUNT,
+      windowMs: SLICING_DEFAULTS.WINDOW_MINUTES * 60_000,
+      maxPriceImpactBps: null,
+    });
+  });
+
+  it('clamps the slice count and ignores invalid windows and impact caps', () => {
+    const cfg = resolveSlicingConfig({
+      executionSlicingEnabled: true,
+      sliceCount: 500,
+      sliceWindowMinutes: -5,
+      sliceMaxPriceImpactBps: 0,
+    });
+    expect(cfg.sliceCount).toBe(SLICING_DEFAULTS.MAX_SLICE_COUNT);
+    expect(cfg.windowMs).toBe(0);
+    expect(cfg.maxPriceImpactBps).toBeNull();
+    expect(resolveSlicingConfig({ sliceCount: 0 }).sliceCount).toBe(1);
+    expect(resolveSlicingConfig({ sliceCount: 'abc' }).sliceCount).toBe(SLICING_DEFAULTS.SLICE_COUNT);
+  });
+
+  it('switches to IMPACT mode when a price-impact cap is set', () => {
+    expect(resolveSliceMode(resolveSlicingConfig({ sliceMaxPriceImpactBps: 30 }))).toBe('IMPACT');
+    expect(resolveSliceMode(resolveSlicingConfig({}))).toBe('TWAP');
+  });
+});
+
+describe('shouldSliceOrder', () => {
+  const enabled = resolveSlicingConfig({ executionSlicingEnabled: true, sliceMinNotionalEur: 1000 });
+
+  it('slices only enabled orders at or above the minimum notional', () => {
+    expect(shouldSliceOrder(enabled, 1000)).toBe(true);
+    expect(shouldSliceOrder(enabled, 999)).toBe(false);
+    expect(shouldSliceOrder(enabled, Number.NaN)).toBe(false);
+    expect(shouldSliceOrder({ ...enabled, enabled: false }, 5000)).toBe(false);
+  });
+
+  it('needs more than one child unless IMPACT mode sizes them', () => {
+    expect(shouldSliceOrder({ ...enabled, sliceCount: 1 }, 5000)).toBe(false);
+    expect(shouldSliceOrder({ ...enabled, sliceCount: 1, maxPriceImpactBps: 25 }, 5000)).toBe(true);
+  });
+});
+
+describe('slice planning', () => {
+  it('spaces children evenly over the window', () => {
+    expect(sliceIntervalMs(20 * 60_000, 4)).toBe(5 * 60_000);
+    expect(sliceIntervalMs(20 * 60_000, 1)).toBe(0);
+    expect(sliceIntervalMs(0, 4)).toBe(0);
+  });
+
+  it('sizes TWAP children evenly and gives the last child the full remainder', () => {
+    let remaining = 1;
+    const children: number[] = [];
+    for (let submitted = 0; submitted < 3; submitted++) {
+      const amount = twapSliceAmount(remaining, submitted, 3);
+      children.push(amount);
+      remaining -= amount;
+    }
+    expect(children[0]).toBeCloseTo(1 / 3);
+    expect(children[1]).toBeCloseTo(1 / 3);
+    expect(children.reduce((a, b) => a + b, 0)).toBe(1);
+    expect(remaining).toBe(0);
+  });
+
+  it('sends whatever is left once the planned children are used up', () => {
+    expect(twapSliceAmount(0.2, 5, 4)).toBe(0.2);
+    expect(twapSliceAmount(0, 1, 4)).toBe(0);
+  });
+});
+
+describe('impactSizedAmount', () => {
+  it('keeps a child already under the cap', () => {
+    expect(impactSizedAmount(100, 20, 30, 5)).toBe(100);
+  });
+
+  it('scales down with a safety margin and gives up below the minimum slice', () => {
+    expect(impactSizedAmount(100, 60, 30, 5)).toBeCloseTo(45);
+    expect(impactSizedAmount(10, 600, 30, 5)).toBeNull();
+  });
+});
+
+describe('rollUpFill', () => {
+  it('volume-weights the children into one fill', () => {
+    // 0.5 @ 3000 + 0.5 @ 3100
+    expect(rollUpFill(1, 1500 + 1550)).toEqual({ amount: 1, price: 3050, totalValue: 3050 });
+  });
+
+  it('returns null when nothing filled', () => {
+    expect(rollUpFill(0, 0)).toBeNull();
+    expect(rollUpFill(1, 0)).toBeNull();
+  });
+});
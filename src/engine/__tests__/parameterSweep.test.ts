@@ -0,0 +1,127 @@
+/**
+ * Walk-Forward Parameter Sweep Tests
+ *
+ * Validates:
+ * 1. Grid expansion and reproducible random sampling
+ * 2. Walk-forward folds never leak OOS data into IS windows
+ * 3. Overfit classification (walk-forward efficiency)
+ * 4. Ranking by out-of-sample risk-adjusted return
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  expandRange,
+  buildParameterGrid,
+  sampleRandomCombinations,
+  buildWalkForwardFolds,
+  classifyOverfit,
+  runParameterSweep,
+  type SweepParameterRange,
+} from '@/engine/parameterSweep';
+import type { BacktestData } from '@/engine/backtester';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = new Date('2025-01-01T00:00:00.000Z').getTime();
+
+describe('Parameter space', () => {
+  it('expands ranges inclusively without float drift', () => {
+    expect(expandRange({ field: 'takeProfitPercentage', min: 1, max: 2, step: 0.5 })).toEqual([1, 1.5, 2]);
+    expect(expandRange({ field: 'stopLossPercentage', min: 0.1, max: 0.3, step: 0.1 })).toEqual([0.1, 0.2, 0.3]);
+  });
+
+  it('builds the cartesian product of all ranges', () => {
+    const ranges: SweepParameterRange[] = [
+      { field: 'takeProfitPercentage', min: 1, max: 3, step: 1 },
+      { field: 'stopLossPercentage', min: 1, max: 2, step: 1 },
+    ];
+    const grid = buildParameterGrid(ranges);
+    expect(grid).toHaveLength(6);
+    expect(grid).toContainEqual({ takeProfitPercentage: 3, stopLossPercentage: 2 });
+  });
+
+  it('samples random combinations reproducibly for a given seed', () => {
+    const ranges: SweepParameterRange[] = [
+      { field: 'takeProfitPercentage', min: 1, max: 10, step: 1 },
+      { field: 'enterThreshold', min: 50, max: 90, step: 5 },
+    ];
+    const a = sampleRandomCombinations(ranges, 5, 7);
+    const b = sampleRandomCombinations(ranges, 5, 7);
+    expect(a).toHaveLength(5);
+    expect(a).toEqual(b);
+  });
+});
+
+describe('Walk-forward folds', () => {
+  it('splits the window into consecutive IS/OOS segments', () => {
+    const folds = buildWalkForwardFolds(new Date(T0), new Date(T0 + 30 * HOUR), 3, 0.7);
+    expect(folds).toHaveLength(3);
+    for (const fold of folds) {
+      expect(fold.inSampleEnd.getTime()).toBeLessThan(fold.outOfSampleStart.getTime());
+    }
+    expect(folds[1].inSampleStart.getTime()).toBe(folds[0].outOfSampleEnd.getTime());
+    expect(folds[2].outOfSampleEnd.getTime()).toBe(T0 + 30 * HOUR);
+  });
+
+  it('rejects invalid split ratios', () => {
+    expect(() => buildWalkForwardFolds(new Date(T0), new Date(T0 + HOUR), 1, 1)).toThrow();
+  });
+});
+
+describe('Overfit classification', () => {
+  it('flags combinations profitable IS but losing OOS', () => {
+    expect(classifyOverfit(10, -2).overfit).toBe(true);
+  });
+
+  it('flags low walk-forward efficiency', () => {
+    const result = classifyOverfit(10, 3);
+    expect(result.walkForwardEfficiency).toBe(0.3);
+    expect(result.overfit).toBe(true);
+  });
+
+  it('accepts combinations that keep most of their IS performance', () => {
+    expect(classifyOverfit(10, 8).overfit).toBe(false);
+  });
+
+  it('does not compute efficiency when IS is not profitable', () => {
+    expect(classifyOverfit(-1, 2)).toEqual({ walkForwardEfficiency: null, overfit: false, overfitReason: null });
+  });
+});
+
+describe('runParameterSweep', () => {
+  it('evaluates every combination on every fold and ranks results', async () => {
+    const data: BacktestData = {
+      candles: Array.from({ length: 12 }, (_, i) => ({
+        symbol: 'BTC-EUR',
+        granularity: '1h',
+        ts_utc: new Date(T0 + i * HOUR).toISOString(),
+        open: 100,
+        high: 100,
+        low: 100,
+        close: 100 + i,
+      })),
+      signals: [],
+      signalRegistry: [],
+      strategySignalWeights: [],
+    };
+
+    const progress: number[] = [];
+    const result = await runParameterSweep(
+      {
+        strategyId: 'strategy-1',
+        baseConfig: { selectedCoins: ['BTC'] },
+        startDate: new Date(T0),
+        endDate: new Date(T0 + 11 * HOUR),
+        initialCapital: 1000,
+        ranges: [{ field: 'takeProfitPercentage', min: 1, max: 2, step: 1 }],
+        folds: 2,
+        onProgress: done => progress.push(done),
+      },
+      data,
+    );
+
+    expect(result.combinationsEvaluated).toBe(2);
+    expect(result.results.map(r => r.rank)).toEqual([1, 2]);
+    expect(result.results[0].folds).toHaveLength(2);
+    expect(progress).toEqual([1, 2]);
+  });
+});
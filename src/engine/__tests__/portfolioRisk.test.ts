@@ -0,0 +1,215 @@
+/**
+ * Portfolio Risk Tests
+ *
+ * Validates:
+ * 1. Correlation math and single-linkage clustering
+ * 2. Historical and parametric VaR on known series
+ * 3. Gate evaluation (fail-closed on short history, VaR budget, cluster cap)
+ * 4. Coordinator BUY path: breaches DEFER and land in decision_events
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  alignReturns,
+  assessPortfolioRisk,
+  correlationClusters,
+  correlationMatrix,
+  historicalVaR,
+  normalQuantile,
+  parametricVaR,
+  pearsonCorrelation,
+  resolvePortfolioRiskConfig,
+} from '../../../supabase/functions/_shared/portfolioRisk';
+import { createCoordinatorHarness, type CoordinatorHarness } from '@/engine/harness/coordinatorHarness';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = new Date('2026-01-05T12:00:00.000Z');
+
+// Deterministic hourly returns: BTC and ETH share a driver, SOL does not
+function returnAt(symbol: string, i: number): number {
+  if (symbol === 'BTC') return 0.01 * Math.sin(i);
+  if (symbol === 'ETH') return 0.012 * Math.sin(i) + 0.001 * Math.cos(3 * i);
+  return 0.01 * Math.sin(1.7 * i + 1) * Math.cos(0.3 * i);
+}
+
+function featureRows(symbols: string[], hours: number) {
+  return symbols.flatMap((symbol) =>
+    Array.from({ length: hours }, (_, i) => ({
+      symbol: `${symbol}-EUR`,
+      granularity: '1h',
+      ts_utc: new Date(T0.getTime() - (hours - i) * HOUR).toISOString(),
+      ret_1h: returnAt(symbol, i),
+    })),
+  );
+}
+
+function series(symbols: string[], n: number): Record<string, number[]> {
+  return Object.fromEntries(symbols.map((s) => [s, Array.from({ length: n }, (_, i) => returnAt(s, i))]));
+}
+
+describe('correlations', () => {
+  it('computes pearson correlation at the extremes', () => {
+    const a = [0.01, -0.02, 0.03, -0.01, 0.02];
+    expect(pearsonCorrelation(a, a)).toBeCloseTo(1, 10);
+    expect(pearsonCorrelation(a, a.map((x) => -x))).toBeCloseTo(-1, 10);
+    expect(pearsonCorrelation(a, [0, 0, 0, 0, 0])).toBe(0);
+  });
+
+  it('clusters co-moving symbols and leaves independent ones alone', () => {
+    const matrix = correlationMatrix(series(['BTC', 'ETH', 'SOL'], 100));
+    expect(matrix.BTC.ETH).toBeGreaterThan(0.9);
+    expect(Math.abs(matrix.BTC.SOL)).toBeLessThan(0.7);
+
+    const clusters = correlationClusters(matrix, 0.7).map((c) => [...c].sort());
+    expect(clusters).toContainEqual(['BTC', 'ETH']);
+    expect(clusters).toContainEqual(['SOL']);
+  });
+
+  it('aligns series on the timestamps every symbol has', () => {
+    const aligned = alignReturns(
+      [
+        { symbol: 'BTC-EUR', ts_utc: 't1', ret_1h: 0.01 },
+        { symbol: 'BTC-EUR', ts_utc: 't2', ret_1h: 0.02 },
+        { symbol: 'ETH-EUR', ts_utc: 't2', ret_1h: 0.03 },
+        { symbol: 'ETH-EUR', ts_utc: 't3', ret_1h: null },
+      ],
+      ['BTC', 'ETH'],
+    );
+    expect(aligned).toEqual({ BTC: [0.02], ETH: [0.03] });
+  });
+});
+
+describe('value at risk', () => {
+  it('takes the confidence quantile of replayed losses', () => {
+    const returns = { A: [-0.05, -0.04, -0.03, -0.02, -0.01, 0, 0.01, 0.02, 0.03, 0.04] };
+    // 10 losses, 90% → 9th smallest loss = 4% of €1000
+    expect(historicalVaR({ A: 1000 }, returns, 0.9)).toBeCloseTo(40, 6);
+  });
+
+  it('scales one standard deviation by the normal quantile', () => {
+    const returns = { A: [0.01, -0.01, 0.01, -0.01] };
+    const sd = Math.sqrt((4 * 0.0001) / 3);
+    expect(normalQuantile(0.95)).toBeCloseTo(1.6449, 3);
+    expect(parametricVaR({ A: 1000 }, returns, 0.95)).toBeCloseTo(1000 * sd * 1.6449, 1);
+  });
+
+  it('gives diversification credit only to uncorrelated positions', () => {
+    const s = series(['BTC', 'ETH', 'SOL'], 200);
+    const correlated = parametricVaR({ BTC: 500, ETH: 500 }, s, 0.95);
+    const diversified = parametricVaR({ BTC: 500, SOL: 500 }, s, 0.95);
+    expect(diversified).toBeLessThan(correlated);
+  });
+});
+
+describe('assessPortfolioRisk', () => {
+  const enabled = (overrides: Record<string, unknown> = {}) =>
+    resolvePortfolioRiskConfig({ portfolioRiskEnabled: true, ...overrides });
+
+  it('is off unless explicitly enabled', () => {
+    expect(resolvePortfolioRiskConfig({}).enabled).toBe(false);
+  });
+
+  it('fails closed on short history', () => {
+    const result = assessPortfolioRisk({
+      exposuresEur: {},
+      symbol: 'BTC',
+      tradeValueEur: 100,
+      walletValueEur: 1000,
+      returns: series(['BTC'], 10),
+      config: enabled(),
+    });
+    expect(result.breach).toBe('insufficient_history');
+  });
+
+  it('counts the whole correlated cluster against the cap', () => {
+    const input = {
+      exposuresEur: { ETH: 300 },
+      symbol: 'BTC',
+      tradeValueEur: 100,
+      walletValueEur: 1000,
+      returns: series(['BTC', 'ETH', 'SOL'], 168),
+      config: enabled({ maxPortfolioVaRPct: 100, maxClusterExposurePct: 35 }),
+    };
+    const btc = assessPortfolioRisk(input);
+    expect(btc.breach).toBe('cluster_cap');
+    expect(btc.clusterExposureEur).toBeCloseTo(400, 6);
+
+    const sol = assessPortfolioRisk({ ...input, symbol: 'SOL' });
+    expect(sol.breach).toBeNull();
+    expect(sol.cluster).toEqual(['SOL']);
+  });
+
+  it('blocks when post-trade VaR exceeds the budget', () => {
+    const result = assessPortfolioRisk({
+      exposuresEur: { ETH: 300 },
+      symbol: 'BTC',
+      tradeValueEur: 100,
+      walletValueEur: 1000,
+      returns: series(['BTC', 'ETH'], 168),
+      config: enabled({ maxPortfolioVaRPct: 0.5, maxClusterExposurePct: 100 }),
+    });
+    expect(result.breach).toBe('var_budget');
+    expect(result.varEur).toBeGreaterThan(result.varBudgetEur);
+  });
+});
+
+describe('coordinator portfolio risk gate', () => {
+  let harness: CoordinatorHarness | undefined;
+
+  afterEach(() => {
+    harness?.dispose();
+    harness = undefined;
+  });
+
+  const riskFixture = (config: Record<string, unknown>) => ({
+    cashEur: 1000,
+    prices: { BTC: 50_000, ETH: 2_000, SOL: 100 },
+    lots: [{ symbol: 'ETH', amount: 0.15, price: 2_000, executedAt: '2026-01-05T10:00:00.000Z' }],
+    config: {
+      portfolioRiskEnabled: true,
+      maxPortfolioVaRPct: 100,
+      maxClusterExposurePct: 25,
+      unifiedConfig: {
+        enableUnifiedDecisions: true,
+        minHoldPeriodMs: 0,
+        cooldownBetweenOppositeActionsMs: 0,
+        confidenceOverrideThreshold: 0.7,
+      },
+      ...config,
+    },
+    tables: { market_features_v0: featureRows(['BTC', 'ETH', 'SOL'], 168) },
+  });
+
+  it('defers a BUY that pushes a correlated cluster over its cap', async () => {
+    harness = await createCoordinatorHarness(riskFixture({}), { now: T0 });
+
+    const res = await harness.send({ symbol: 'BTC', side: 'BUY', metadata: { eurAmount: 100 } });
+
+    expect(res.body.decision.action).toBe('DEFER');
+    expect(res.body.decision.reason).toContain('clusterExposureExceeded');
+    expect(harness.decisionEvents().map((e) => e.reason)).toContainEqual(
+      expect.stringContaining('cluster_exposure_cap_reached'),
+    );
+    expect(harness.ledger().filter((t) => t.trade_type === 'buy')).toHaveLength(1);
+  });
+
+  it('lets an uncorrelated BUY through', async () => {
+    harness = await createCoordinatorHarness(riskFixture({}), { now: T0 });
+
+    const res = await harness.send({ symbol: 'SOL', side: 'BUY', metadata: { eurAmount: 100 } });
+
+    expect(res.body.decision.action).toBe('BUY');
+  });
+
+  it('defers a BUY over the VaR budget', async () => {
+    harness = await createCoordinatorHarness(
+      riskFixture({ maxPortfolioVaRPct: 0.5, maxClusterExposurePct: 100 }),
+      { now: T0 },
+    );
+
+    const res = await harness.send({ symbol: 'SOL', side: 'BUY', metadata: { eurAmount: 100 } });
+
+    expect(res.body.decision.action).toBe('DEFER');
+    expect(res.body.decision.reason).toContain('portfolioVarExceeded');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Price Stream Tests
+ *
+ * Validates:
+ * 1. Ticker handling and duplicate / out-of-order sequence drops
+ * 2. Gap detection: heartbeat ahead of the last ticker trade, l2update before snapshot
+ * 3. level2 top of book (including rescan when the best level is removed)
+ * 4. Heartbeat staleness, socket staleness and reconnect backoff
+ * 5. price_snapshots rows and Realtime payloads
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PRICE_STREAM_DEFAULTS,
+  createPriceStreamState,
+  reconnectDelayMs,
+  subscribeMessage,
+} from '../../../supabase/functions/_shared/priceStream';
+
+const T0 = Date.parse('2026-03-01T12:00:00.000Z');
+
+const ticker = (sequence: number, trade_id: number, price: string, extra: Record<string, string> = {}) => ({
+  type: 'ticker',
+  product_id: 'BTC-EUR',
+  sequence,
+  trade_id,
+  price,
+  best_bid: '99.5',
+  best_ask: '100.5',
+  volume_24h: '1234.5',
+  high_24h: '110',
+  low_24h: '90',
+  open_24h: '95',
+  time: '2026-03-01T12:00:00.000000Z',
+  ...extra,
+});
+
+const heartbeat = (sequence: number, last_trade_id: number, product_id = 'BTC-EUR') => ({
+  type: 'heartbeat',
+  product_id,
+  sequence,
+  last_trade_id,
+  time: '2026-03-01T12:00:01.000000Z',
+});
+
+describe('ticker and sequences', () => {
+  it('updates the quote and drops duplicate or older sequences', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+
+    expect(state.handle(ticker(10, 500, '100'), T0)).toEqual([{ type: 'quote', productId: 'BTC-EUR' }]);
+    expect(state.quote('BTC-EUR')).toMatchObject({ price: 100, bid: 99.5, ask: 100.5, lastTradeId: 500, sequence: 10 });
+
+    expect(state.handle(ticker(10, 500, '101'), T0 + 1)).toEqual([]);
+    expect(state.handle(ticker(9, 499, '98'), T0 + 2)).toEqual([]);
+    expect(state.quote('BTC-EUR')!.price).toBe(100);
+  });
+
+  it('ignores products it did not subscribe to and reports feed errors', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+    expect(state.handle({ ...ticker(1, 1, '5'), product_id: 'ETH-EUR' }, T0)).toEqual([]);
+    expect(state.handle({ type: 'error', message: 'Failed to subscribe', reason: 'FOO-EUR is not a valid product' }, T0)).toEqual([
+      { type: 'error', message: 'Failed to subscribe: FOO-EUR is not a valid product' },
+    ]);
+    expect(
+      state.handle({ type: 'subscriptions', channels: [{ name: 'ticker', product_ids: ['BTC-EUR'] }] }, T0),
+    ).toEqual([{ type: 'subscribed', productIds: ['BTC-EUR'] }]);
+  });
+});
+
+describe('gap detection', () => {
+  it('flags a heartbeat whose last trade is ahead of the last ticker, until re-synced', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+    state.handle(ticker(10, 500, '100'), T0);
+
+    expect(state.handle(heartbeat(11, 500), T0 + 1000)).toEqual([]);
+    expect(state.handle(heartbeat(14, 503), T0 + 2000)).toEqual([
+      { type: 'gap', productId: 'BTC-EUR', reason: 'missed_ticker', expected: 500, received: 503 },
+    ]);
+
+    expect(state.applyRestTicker('BTC-EUR', { price: '102', bid: '101', ask: '103', trade_id: 503 }, T0 + 2100)).toBe(true);
+    expect(state.quote('BTC-EUR')).toMatchObject({ price: 102, lastTradeId: 503 });
+    expect(state.handle(heartbeat(15, 503), T0 + 3000)).toEqual([]);
+  });
+
+  it('flags level2 updates that arrive before the book snapshot', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+    expect(state.handle({ type: 'l2update', product_id: 'BTC-EUR', changes: [['buy', '99', '1']] }, T0)).toEqual([
+      { type: 'gap', productId: 'BTC-EUR', reason: 'book_not_initialized', expected: null, received: null },
+    ]);
+  });
+
+  it('forgets sequences and books on reconnect', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+    state.handle(ticker(10, 500, '100'), T0);
+    state.resetConnection();
+    expect(state.handle(ticker(3, 200, '101'), T0 + 1)).toEqual([{ type: 'quote', productId: 'BTC-EUR' }]);
+  });
+});
+
+describe('level2 top of book', () => {
+  it('tracks best bid/ask and rescans when the best level is removed', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+    state.handle(
+      { type: 'snapshot', product_id: 'BTC-EUR', bids: [['99', '1'], ['98', '2']], asks: [['101', '1'], ['102', '3']] },
+      T0,
+    );
+    expect(state.quote('BTC-EUR')).toMatchObject({ bid: 99, ask: 101 });
+
+    state.handle({ type: 'l2update', product_id: 'BTC-EUR', changes: [['buy', '99.5', '0.3'], ['sell', '101', '0']] }, T0 + 1);
+    expect(state.quote('BTC-EUR')).toMatchObject({ bid: 99.5, ask: 102 });
+
+    // With a book, ticker best_bid/best_ask no longer override it
+    state.handle(ticker(10, 500, '100'), T0 + 2);
+    expect(state.quote('BTC-EUR')).toMatchObject({ price: 100, bid: 99.5, ask: 102 });
+  });
+});
+
+describe('staleness and reconnects', () => {
+  it('marks products stale without a recent heartbeat and the socket stale when silent', () => {
+    const state = createPriceStreamState(['BTC-EUR', 'ETH-EUR']);
+    state.handle(heartbeat(1, 1), T0);
+
+    expect(state.staleProducts(T0 + 1000)).toEqual(['ETH-EUR']);
+    expect(state.staleProducts(T0 + PRICE_STREAM_DEFAULTS.HEARTBEAT_STALE_MS + 1)).toEqual(['BTC-EUR', 'ETH-EUR']);
+
+    expect(state.isSocketStale(T0 + 1000, T0)).toBe(false);
+    expect(state.isSocketStale(T0 + PRICE_STREAM_DEFAULTS.SOCKET_STALE_MS + 1, T0)).toBe(true);
+  });
+
+  it('backs off exponentially up to the cap', () => {
+    expect([0, 1, 2, 3].map(reconnectDelayMs)).toEqual([500, 1000, 2000, 4000]);
+    expect(reconnectDelayMs(20)).toBe(PRICE_STREAM_DEFAULTS.RECONNECT_MAX_MS);
+  });
+
+  it('subscribes to the configured channels', () => {
+    expect(subscribeMessage(['BTC-EUR'])).toEqual({
+      type: 'subscribe',
+      product_ids: ['BTC-EUR'],
+      channels: ['heartbeat', 'ticker', 'level2_batch'],
+    });
+  });
+});
+
+describe('outputs', () => {
+  it('writes base and pair snapshot rows for live products only', () => {
+    const state = createPriceStreamState(['BTC-EUR', 'ETH-EUR']);
+    state.handle(ticker(10, 500, '100'), T0);
+    state.handle(heartbeat(11, 500), T0);
+    state.applyRestTicker('ETH-EUR', { price: '50', bid: '49', ask: '51', trade_id: 7 }, T0);
+
+    const rows = state.snapshotRows(T0 + 1000);
+    expect(rows).toEqual([
+      { symbol: 'BTC', ts: new Date(T0 + 1000).toISOString(), price: 100, bid: 99.5, ask: 100.5, source: 'coinbase_ws' },
+      { symbol: 'BTC-EUR', ts: new Date(T0 + 1000).toISOString(), price: 100, bid: 99.5, ask: 100.5, source: 'coinbase_ws' },
+    ]);
+  });
+
+  it('drains each changed product once for the Realtime broadcast', () => {
+    const state = createPriceStreamState(['BTC-EUR']);
+    state.handle(ticker(10, 500, '100'), T0);
+    state.handle(ticker(11, 501, '100.2'), T0 + 1);
+
+    expect(state.drainChanged()).toEqual([
+      {
+        symbol: 'BTC-EUR',
+        price: 100.2,
+        bid: 99.5,
+        ask: 100.5,
+        volume_24h: 1234.5,
+        high_24h: 110,
+        low_24h: 90,
+        open_24h: 95,
+        time: '2026-03-01T12:00:00.000000Z',
+      },
+    ]);
+    expect(state.drainChanged()).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Promotion Gate Tests
+ *
+ * Validates:
+ * 1. Paper trade stats: win rate, mean P&L %, drawdown on starting capital
+ * 2. Calibration error pooled by confidence band
+ * 3. Every checklist item must pass for promotion
+ * 4. Demotion only after MIN_LIVE_TRADES and only on a large shortfall
+ * 5. Report signatures: key-order independent, tamper-evident
+ * 6. Closed trade lookup by strategy and mode
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calibrationQuality,
+  canonicalJson,
+  demotionCheck,
+  evaluatePromotion,
+  fetchClosedTrades,
+  signPromotionReport,
+  tradeStats,
+  verifyPromotionReport,
+  type ClosedTrade,
+  type PromotionInputs,
+  type PromotionReport,
+  type TradeStats,
+} from '../../../supabase/functions/_shared/promotionGate';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const T0 = Date.parse('2026-03-01T12:00:00.000Z');
+
+/** wins × +winPnl then losses × −lossPnl, one per minute */
+const closedTrades = (wins: number, losses: number, winPnl = 10, lossPnl = 10): ClosedTrade[] =>
+  Array.from({ length: wins + losses }, (_, i) => ({
+    executed_at: new Date(T0 + i * 60_000).toISOString(),
+    profit_loss: i < wins ? winPnl : -lossPnl,
+    realized_pnl_pct: i < wins ? 2 : -1,
+  }));
+
+const stats = (overrides: Partial<TradeStats> = {}): TradeStats => ({
+  trades: 60,
+  wins: 36,
+  win_rate: 0.6,
+  total_pnl: 500,
+  mean_pnl_pct: 1,
+  max_drawdown_pct: 5,
+  ...overrides,
+});
+
+const inputs = (overrides: Partial<PromotionInputs> = {}): PromotionInputs => ({
+  paper: stats(),
+  calibration: { samples: 100, calibration_error: 0.05 },
+  real_cash_eur: 1000,
+  wallet_exists: true,
+  rules_accepted: true,
+  active_breakers: [],
+  experiment: { status: 'no_experiment', allowed: true },
+  ...overrides,
+});
+
+describe('tradeStats', () => {
+  it('computes win rate, mean P&L % and drawdown in execution order', () => {
+    // Given out of order: the losses come last in time
+    const result = tradeStats(closedTrades(6, 4).reverse(), 1000);
+    expect(result).toMatchObject({ trades: 10, wins: 6, win_rate: 0.6, total_pnl: 20, mean_pnl_pct: 0.8 });
+    // Peak 1060 → 1020
+    expect(result.max_drawdown_pct).toBeCloseTo((40 / 1060) * 100, 2);
+  });
+
+  it('skips trades without P&L and leaves drawdown unknown without capital', () => {
+    const trades = [...closedTrades(2, 0), { executed_at: new Date(T0).toISOString(), profit_loss: null }];
+    expect(tradeStats(trades, 0)).toMatchObject({ trades: 2, max_drawdown_pct: null });
+  });
+});
+
+describe('calibrationQuality', () => {
+  it('pools bands across symbols and weights the gap by samples', () => {
+    const quality = calibrationQuality([
+      { confidence_band: '[0.60-0.70)', sample_count: 30, win_rate_pct: 60 },
+      { confidence_band: '[0.60-0.70)', sample_count: 10, win_rate_pct: 80 },
+      { confidence_band: '[0.90-1.00]', sample_count: 60, win_rate_pct: 75 },
+    ]);
+    // band 0.65: 26/40 = 0.65 → 0; band 0.95: 0.75 → 0.2 × 60/100
+    expect(quality).toEqual({ samples: 100, calibration_error: 0.12 });
+  });
+
+  it('has no error without samples', () => {
+    expect(calibrationQuality([])).toEqual({ samples: 0, calibration_error: null });
+  });
+});
+
+describe('evaluatePromotion', () => {
+  it('passes when every check passes', () => {
+    const evaluation = evaluatePromotion(inputs());
+    expect(evaluation.passed).toBe(true);
+    expect(evaluation.checks.map((c) => c.id)).toEqual([
+      'mock_sample_size',
+      'max_drawdown',
+      'win_rate',
+      'calibration',
+      'portfolio_capital',
+      'external_wallet',
+      'rules_accepted',
+      'circuit_breakers',
+      'experiment',
+    ]);
+  });
+
+  it.each([
+    ['mock_sample_size', { paper: stats({ trades: 20 }) }],
+    ['max_drawdown', { paper: stats({ max_drawdown_pct: 25 }) }],
+    ['max_drawdown', { paper: stats({ max_drawdown_pct: null }) }],
+    ['win_rate', { paper: stats({ win_rate: 0.3 }) }],
+    ['calibration', { calibration: { samples: 10, calibration_error: 0.01 } }],
+    ['calibration', { calibration: { samples: 100, calibration_error: 0.3 } }],
+    ['portfolio_capital', { real_cash_eur: 0 }],
+    ['external_wallet', { wallet_exists: false }],
+    ['rules_accepted', { rules_accepted: false }],
+    ['circuit_breakers', { active_breakers: ['PANIC'] }],
+    ['experiment', { experiment: { status: 'lost', allowed: false } }],
+  ] as [string, Partial<PromotionInputs>][])('fails only %s', (id, overrides) => {
+    const evaluation = evaluatePromotion(inputs(overrides));
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.checks.filter((c) => !c.passed).map((c) => c.id)).toEqual([id]);
+  });
+
+  it('accepts threshold overrides', () => {
+    expect(evaluatePromotion(inputs({ paper: stats({ trades: 20 }) }), { MIN_MOCK_TRADES: 20 }).passed).toBe(true);
+  });
+});
+
+describe('demotionCheck', () => {
+  it('waits for MIN_LIVE_TRADES', () => {
+    expect(demotionCheck(stats(), stats({ trades: 10, win_rate: 0 }))).toEqual({ demote: false, reasons: [] });
+  });
+
+  it('keeps a strategy that is moderately behind paper', () => {
+    const live = stats({ trades: 30, win_rate: 0.5, mean_pnl_pct: 0.2, max_drawdown_pct: 8 });
+    expect(demotionCheck(stats(), live).demote).toBe(false);
+  });
+
+  it('demotes on a large win-rate, P&L or drawdown shortfall', () => {
+    const live = stats({ trades: 30, win_rate: 0.3, mean_pnl_pct: -1, max_drawdown_pct: 12 });
+    expect(demotionCheck(stats(), live)).toEqual({
+      demote: true,
+      reasons: ['win_rate_shortfall', 'pnl_shortfall', 'drawdown'],
+    });
+  });
+});
+
+describe('report signatures', () => {
+  const report: PromotionReport = {
+    id: 'report-1',
+    user_id: 'user-1',
+    kind: 'promotion',
+    strategy_id: 'strat-1',
+    promotion_report_id: null,
+    passed: true,
+    checks: [{ id: 'win_rate', passed: true, value: 0.6, threshold: 0.45 }],
+    metrics: { paper: stats() },
+    thresholds: { MIN_WIN_RATE: 0.45 },
+    created_at: new Date(T0).toISOString(),
+  };
+
+  it('serializes with sorted keys', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: null }], c: 'x' } })).toBe(
+      '{"a":{"c":"x","d":[1,{"e":null,"f":2}]},"b":1}',
+    );
+  });
+
+  it('signs independently of key order and detects tampering', async () => {
+    const signature = await signPromotionReport(report, 'secret');
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+
+    const reordered = Object.fromEntries(Object.entries(report).reverse()) as unknown as PromotionReport;
+    expect(await verifyPromotionReport(reordered, signature, 'secret')).toBe(true);
+    expect(await verifyPromotionReport({ ...report, passed: false }, signature, 'secret')).toBe(false);
+    expect(await verifyPromotionReport(report, signature, 'other-secret')).toBe(false);
+  });
+});
+
+describe('fetchClosedTrades', () => {
+  it('returns closed sells of the strategy in the requested mode since the cutoff', async () => {
+    const row = (overrides: Record<string, unknown>) => ({
+      user_id: 'user-1',
+      strategy_id: 'strat-1',
+      trade_type: 'sell',
+      is_test_mode: true,
+      is_corrupted: false,
+      executed_at: '2026-03-02T00:00:00.000Z',
+      profit_loss: 5,
+      realized_pnl_pct: 1,
+      ...overrides,
+    });
+    const db = new InMemorySupabase({
+      mock_trades: [
+        row({ id: 'ok' }),
+        row({ id: 'buy', trade_type: 'buy' }),
+        row({ id: 'live', is_test_mode: false }),
+        row({ id: 'corrupted', is_corrupted: true }),
+        row({ id: 'old', executed_at: '2026-02-01T00:00:00.000Z' }),
+        row({ id: 'other', strategy_id: 'strat-2' }),
+      ],
+    });
+
+    const trades = await fetchClosedTrades(db, {
+      userId: 'user-1',
+      strategyId: 'strat-1',
+      isTestMode: true,
+      since: '2026-03-01T00:00:00.000Z',
+    });
+    expect(trades.map((t) => (t as ClosedTrade & { id: string }).id)).toEqual(['ok']);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Real Trades Receipt State Tests
+ *
+ * Validates:
+ * 1. Receipt patch: CONFIRMED / REVERTED, block number and gas decoding
+ * 2. Sliced siblings sharing trade_id each keep their own receipt
+ * 3. A row is finalized once, so overlapping polls count a fill once
+ * 4. block_timestamp backfill touches one row and never overwrites
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+import {
+  applyReceiptToRealTrade,
+  backfillBlockTimestamp,
+  receiptStatePatch,
+} from '../../../supabase/functions/_shared/realTrades';
+
+const PLACEHOLDER = 'mock-trade-1';
+const receipt = (block: number, status = '0x1') => ({ status, blockNumber: `0x${block.toString(16)}`, gasUsed: '0x5208' });
+
+const sibling = (id: string, slice: number) => ({
+  id,
+  trade_id: PLACEHOLDER,
+  parent_order_id: 'order-1',
+  slice_index: slice,
+  tx_hash: `0xhash${slice}`,
+  execution_status: 'SUBMITTED',
+  block_timestamp: null,
+});
+
+/** Mirrors onchain-receipts: fills are recorded only for rows this poll finalized */
+async function poll(db: InMemorySupabase, rows: { id: string; tx_hash: string }[], receipts: Record<string, ReturnType<typeof receipt>>) {
+  return Promise.all(rows.map(async (row) => {
+    const result = await applyReceiptToRealTrade(db, row.id, receipts[row.tx_hash]);
+    if (result.applied) await db.rpc('record_sliced_order_fill', { p_order_id: 'order-1', p_success: true });
+    return result;
+  }));
+}
+
+function slicedOrderDb() {
+  const db = new InMemorySupabase({
+    real_trades: [sibling('rt-1', 0), sibling('rt-2', 1)],
+    sliced_orders: [{ id: 'order-1', slices_submitted: 2, slices_confirmed: 0, slices_failed: 0 }],
+  });
+  db.registerRpc('record_sliced_order_fill', (params, store) => {
+    const order = store.rows('sliced_orders').find((o) => o.id === params.p_order_id)!;
+    order.slices_confirmed = Number(order.slices_confirmed) + 1;
+    return order;
+  });
+  return db;
+}
+
+describe('receiptStatePatch', () => {
+  it('decodes success, block number and gas', () => {
+    expect(receiptStatePatch(receipt(255))).toMatchObject({
+      execution_status: 'CONFIRMED',
+      receipt_status: true,
+      block_number: 255,
+      gas_used: 21000,
+    });
+    expect(receiptStatePatch(receipt(1, '0x0'))).toMatchObject({ execution_status: 'REVERTED', receipt_status: false });
+  });
+});
+
+describe('applyReceiptToRealTrade', () => {
+  it('keeps each sibling receipt when two children confirm in the same poll', async () => {
+    const db = slicedOrderDb();
+    const rows = db.rows('real_trades').map((r) => ({ id: String(r.id), tx_hash: String(r.tx_hash) }));
+
+    const results = await poll(db, rows, { '0xhash0': receipt(100), '0xhash1': receipt(101) });
+
+    expect(results.map((r) => r.applied)).toEqual([true, true]);
+    expect(db.rows('real_trades').map((r) => [r.id, r.execution_status, r.block_number])).toEqual([
+      ['rt-1', 'CONFIRMED', 100],
+      ['rt-2', 'CONFIRMED', 101],
+    ]);
+    const order = db.rows('sliced_orders')[0];
+    expect(Number(order.slices_confirmed) + Number(order.slices_failed)).toBe(order.slices_submitted);
+  });
+
+  it('does not finalize or count a row twice across overlapping polls', async () => {
+    const db = slicedOrderDb();
+    const rows = [{ id: 'rt-1', tx_hash: '0xhash0' }];
+
+    await poll(db, rows, { '0xhash0': receipt(100) });
+    const second = await poll(db, rows, { '0xhash0': receipt(100) });
+
+    expect(second[0]).toMatchObject({ applied: false, error: null });
+    expect(db.rows('sliced_orders')[0].slices_confirmed).toBe(1);
+    expect(db.rows('real_trades')[1].execution_status).toBe('SUBMITTED');
+  });
+});
+
+describe('backfillBlockTimestamp', () => {
+  it('writes one row and keeps an existing timestamp', async () => {
+    const db = slicedOrderDb();
+    await backfillBlockTimestamp(db, 'rt-1', '2026-10-18T00:00:00.000Z');
+    await backfillBlockTimestamp(db, 'rt-1', '2026-10-19T00:00:00.000Z');
+
+    expect(db.rows('real_trades').map((r) => r.block_timestamp)).toEqual(['2026-10-18T00:00:00.000Z', null]);
+  });
+});
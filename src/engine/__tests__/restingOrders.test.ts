@@ -0,0 +1,134 @@
+/**
+ * Resting Orders Evaluation Tests
+ *
+ * Validates:
+ * 1. LIMIT fires at/below the limit for BUY, at/above for SELL
+ * 2. STOP_LOSS fires on the stop (SELL down, BUY stop-entry up)
+ * 3. STOP_LIMIT arms on the stop, then waits for the limit
+ * 4. Expiry wins over any trigger; bad prices never fire
+ * 5. Fired BUY allocation comes from resting-order metadata only
+ * 6. A RESTING_ORDER intent only resolves to a TRIGGERED order of its owner
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RESTING_ORDER_DEFAULTS,
+  evaluateRestingOrder,
+  loadFiringRestingOrder,
+  restingOrderAllocationEur,
+  type RestingOrder,
+} from '../../../supabase/functions/_shared/restingOrders';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const NOW = Date.parse('2026-10-19T00:00:00Z');
+
+const order = (overrides: Partial<RestingOrder>): RestingOrder => ({
+  id: 'ro-1',
+  side: 'BUY',
+  order_type: 'LIMIT',
+  limit_price: null,
+  stop_price: null,
+  stop_triggered_at: null,
+  expires_at: null,
+  ...overrides,
+});
+
+const action = (o: RestingOrder, price: number) => evaluateRestingOrder(o, price, NOW).action;
+
+describe('LIMIT', () => {
+  it('fires a BUY at or below the limit', () => {
+    const buy = order({ limit_price: 3000 });
+    expect(action(buy, 3001)).toBe('NONE');
+    expect(action(buy, 3000)).toBe('FIRE');
+    expect(action(buy, 2900)).toBe('FIRE');
+  });
+
+  it('fires a SELL at or above the limit', () => {
+    const sell = order({ side: 'SELL', limit_price: 3000 });
+    expect(action(sell, 2999)).toBe('NONE');
+    expect(action(sell, 3000)).toBe('FIRE');
+  });
+});
+
+describe('STOP_LOSS', () => {
+  it('fires a SELL when price falls to the stop and a BUY stop-entry when it rises', () => {
+    expect(action(order({ side: 'SELL', order_type: 'STOP_LOSS', stop_price: 2800 }), 2801)).toBe('NONE');
+    expect(action(order({ side: 'SELL', order_type: 'STOP_LOSS', stop_price: 2800 }), 2800)).toBe('FIRE');
+    expect(action(order({ side: 'BUY', order_type: 'STOP_LOSS', stop_price: 3200 }), 3199)).toBe('NONE');
+    expect(action(order({ side: 'BUY', order_type: 'STOP_LOSS', stop_price: 3200 }), 3250)).toBe('FIRE');
+  });
+});
+
+describe('STOP_LIMIT', () => {
+  const sell = order({ side: 'SELL', order_type: 'STOP_LIMIT', stop_price: 2800, limit_price: 2850 });
+
+  it('does nothing until the stop is reached', () => {
+    expect(action(sell, 2900)).toBe('NONE');
+  });
+
+  it('arms on the stop when the limit is not yet satisfied', () => {
+    expect(action(sell, 2790)).toBe('ARM_STOP');
+  });
+
+  it('fires on the same tick when stop and limit are both satisfied', () => {
+    const stopAboveLimit = order({ side: 'SELL', order_type: 'STOP_LIMIT', stop_price: 2800, limit_price: 2750 });
+    expect(action(stopAboveLimit, 2780)).toBe('FIRE');
+  });
+
+  it('once armed, waits for the limit and ignores the stop', () => {
+    const armed = { ...sell, stop_triggered_at: '2026-10-18T23:00:00Z' };
+    expect(action(armed, 2790)).toBe('NONE');
+    expect(action(armed, 2850)).toBe('FIRE');
+  });
+
+  it('never arms without both prices', () => {
+    expect(action({ ...sell, limit_price: null }, 2700)).toBe('NONE');
+  });
+});
+
+describe('expiry and bad prices', () => {
+  it('expires at expires_at even when the trigger is met', () => {
+    expect(action(order({ limit_price: 3000, expires_at: '2026-10-19T00:00:00Z' }), 2900)).toBe('EXPIRE');
+    expect(action(order({ limit_price: 3000, expires_at: '2026-10-19T00:00:01Z' }), 2900)).toBe('FIRE');
+  });
+
+  it('never fires on a non-positive or missing price', () => {
+    expect(action(order({ limit_price: 3000 }), 0)).toBe('NONE');
+    expect(action(order({ limit_price: 3000 }), Number.NaN)).toBe('NONE');
+  });
+});
+
+describe('restingOrderAllocationEur', () => {
+  it('reads eurAmount only from resting-order intents', () => {
+    expect(restingOrderAllocationEur({ context: RESTING_ORDER_DEFAULTS.INTENT_CONTEXT, eurAmount: 250 })).toBe(250);
+    expect(restingOrderAllocationEur({ context: RESTING_ORDER_DEFAULTS.INTENT_CONTEXT, eurAmount: 0 })).toBeNull();
+    expect(restingOrderAllocationEur({ context: 'MANUAL', eurAmount: 250 })).toBeNull();
+    expect(restingOrderAllocationEur(null)).toBeNull();
+  });
+});
+
+describe('loadFiringRestingOrder', () => {
+  const row = { id: 'ro-1', user_id: 'u1', strategy_id: 's1', symbol: 'ETH-EUR', side: 'BUY', amount: '250', status: 'TRIGGERED' };
+  const intent = (overrides: Record<string, unknown> = {}) => ({
+    userId: 'u1',
+    strategyId: 's1',
+    symbol: 'ETH-EUR',
+    side: 'BUY',
+    metadata: { context: RESTING_ORDER_DEFAULTS.INTENT_CONTEXT, resting_order_id: 'ro-1', eurAmount: 100_000 },
+    ...overrides,
+  });
+
+  it('returns the triggered order of the intent owner', async () => {
+    const db = new InMemorySupabase({ resting_orders: [row] });
+    expect(Number((await loadFiringRestingOrder(db, intent()))?.amount)).toBe(250);
+  });
+
+  it('rejects orders of other users, other sides or not yet triggered', async () => {
+    expect(await loadFiringRestingOrder(new InMemorySupabase({ resting_orders: [row] }), intent({ userId: 'u2' }))).toBeNull();
+    expect(await loadFiringRestingOrder(new InMemorySupabase({ resting_orders: [row] }), intent({ side: 'SELL' }))).toBeNull();
+    expect(
+      await loadFiringRestingOrder(new InMemorySupabase({ resting_orders: [{ ...row, status: 'OPEN' }] }), intent()),
+    ).toBeNull();
+    expect(await loadFiringRestingOrder(new InMemorySupabase({ resting_orders: [row] }), intent({ metadata: {} }))).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Signal Source Tests
+ *
+ * Validates:
+ * 1. Symbol normalization and strength clamping shared by every collector
+ * 2. Row preparation: registry check, source scaling, batch/stored dedup
+ * 3. Health grading (healthy / idle / stale / failing / dead)
+ * 4. runSignalSource end to end against the in-memory client: live_signals
+ *    upsert, signal_source_health heartbeat, ai_data_sources.last_sync
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampStrength,
+  classifySourceHealth,
+  normalizeSignalSymbol,
+  prepareSignalRows,
+  runSignalSource,
+  type SignalDraft,
+  type SignalSource,
+  type SignalSourceContext,
+} from '../../../supabase/functions/_shared/signalSource';
+import { InMemorySupabase } from '@/engine/harness/inMemorySupabase';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const CTX: SignalSourceContext = { userId: 'user-1', sourceId: 'src-1', now: NOW };
+const REGISTRY = new Set(['whale_transfer', 'volume_spike']);
+
+interface Tx {
+  hash: string;
+  symbol: string;
+  usd: number;
+  at: string;
+}
+
+function whaleLikeSource(txs: Tx[]): SignalSource<Tx> {
+  return {
+    name: 'test_whales',
+    expectedIntervalSeconds: 3600,
+    symbolFormat: 'pair',
+    dedupLookbackSeconds: 86400,
+    fetch: async () => txs,
+    normalize: (items) =>
+      items.map((tx) => ({
+        symbol: tx.symbol,
+        signal_type: 'whale_transfer',
+        signal_strength: tx.usd,
+        timestamp: tx.at,
+        data: { hash: tx.hash },
+      })),
+    scale: (d) => d.signal_strength / 10_000,
+    dedupKey: (s) => `${s.signal_type}|${String(s.data.hash)}`,
+  };
+}
+
+function draft(overrides: Partial<SignalDraft> = {}): SignalDraft {
+  return {
+    symbol: 'btc-eur',
+    signal_type: 'volume_spike',
+    signal_strength: 40,
+    timestamp: '2026-03-01T11:00:00Z',
+    data: {},
+    ...overrides,
+  };
+}
+
+describe('normalizeSignalSymbol', () => {
+  it('strips quotes for base-format sources', () => {
+    expect(normalizeSignalSymbol('btc-eur', 'base')).toBe('BTC');
+    expect(normalizeSignalSymbol('ETH', 'base')).toBe('ETH');
+  });
+
+  it('maps tradeable tokens onto EUR pairs and keeps explicit pairs', () => {
+    expect(normalizeSignalSymbol('eth', 'pair')).toBe('ETH-EUR');
+    expect(normalizeSignalSymbol('USDT', 'pair')).toBe('USDT');
+    expect(normalizeSignalSymbol('shib-eur', 'pair')).toBe('SHIB-EUR');
+  });
+});
+
+describe('clampStrength', () => {
+  it('bounds strength to 0..100 and zeroes non-finite values', () => {
+    expect(clampStrength(140)).toBe(100);
+    expect(clampStrength(-5)).toBe(0);
+    expect(clampStrength(Number.NaN)).toBe(0);
+    expect(clampStrength(42.5)).toBe(42.5);
+  });
+});
+
+describe('prepareSignalRows', () => {
+  const source = whaleLikeSource([]);
+
+  it('stamps user/source columns and applies the source scale', () => {
+    const { rows } = prepareSignalRows(
+      source,
+      [draft({ signal_type: 'whale_transfer', symbol: 'eth', signal_strength: 250_000, data: { hash: '0x1' } })],
+      CTX,
+      REGISTRY,
+    );
+    expect(rows).toEqual([
+      {
+        source_id: 'src-1',
+        user_id: 'user-1',
+        timestamp: '2026-03-01T11:00:00.000Z',
+        symbol: 'ETH-EUR',
+        signal_type: 'whale_transfer',
+        signal_strength: 25,
+        source: 'test_whales',
+        data: { hash: '0x1' },
+        processed: false,
+      },
+    ]);
+  });
+
+  it('rejects unregistered keys and bad timestamps unless the registry is unavailable', () => {
+    const drafts = [draft({ signal_type: 'made_up_key' }), draft({ timestamp: 'not-a-date' })];
+    expect(prepareSignalRows(source, drafts, CTX, REGISTRY).rejected).toHaveLength(2);
+    // Registry unreadable: only the timestamp check still applies
+    expect(prepareSignalRows(source, drafts, CTX, null).rows).toHaveLength(1);
+  });
+
+  it('dedups within the batch and against stored keys', () => {
+    const drafts = [
+      draft({ signal_type: 'whale_transfer', data: { hash: '0xa' } }),
+      draft({ signal_type: 'whale_transfer', data: { hash: '0xa' }, timestamp: '2026-03-01T11:05:00Z' }),
+      draft({ signal_type: 'whale_transfer', data: { hash: '0xb' } }),
+    ];
+    const result = prepareSignalRows(source, drafts, CTX, REGISTRY, new Set(['whale_transfer|0xb']));
+    expect(result.rows.map((r) => r.data.hash)).toEqual(['0xa']);
+    expect(result.duplicates).toBe(2);
+  });
+
+  it('defaults the dedup key to the live_signals upsert key', () => {
+    const plain: SignalSource<Tx> = { ...source, dedupKey: undefined, scale: undefined };
+    const result = prepareSignalRows(plain, [draft(), draft({ symbol: 'BTC-EUR' }), draft({ symbol: 'ETH-EUR' })], CTX, REGISTRY);
+    expect(result.rows.map((r) => r.symbol)).toEqual(['BTC-EUR', 'ETH-EUR']);
+    expect(result.duplicates).toBe(1);
+  });
+});
+
+describe('classifySourceHealth', () => {
+  const now = NOW.getTime();
+  const ago = (minutes: number) => new Date(now - minutes * 60_000).toISOString();
+
+  it('grades on signal age when there is no runner heartbeat', () => {
+    expect(classifySourceHealth({ expectedIntervalSeconds: 300, lastSignalAt: ago(5) }, now)).toBe('healthy');
+    expect(classifySourceHealth({ expectedIntervalSeconds: 300, lastSignalAt: ago(11) }, now)).toBe('stale');
+    expect(classifySourceHealth({ expectedIntervalSeconds: 300, lastSignalAt: null }, now)).toBe('dead');
+  });
+
+  it('is idle when the collector runs but emits nothing', () => {
+    expect(
+      classifySourceHealth({ expectedIntervalSeconds: 300, lastSignalAt: ago(60), lastRunAt: ago(3), lastRunStatus: 'ok' }, now),
+    ).toBe('idle');
+  });
+
+  it('is failing whenever the last run errored', () => {
+    expect(
+      classifySourceHealth({ expectedIntervalSeconds: 300, lastSignalAt: ago(1), lastRunAt: ago(1), lastRunStatus: 'error' }, now),
+    ).toBe('failing');
+  });
+});
+
+describe('runSignalSource', () => {
+  function seededDb() {
+    return new InMemorySupabase({
+      signal_registry: [...REGISTRY].map((key) => ({ key })),
+      ai_data_sources: [{ id: 'src-1', last_sync: null }],
+    });
+  }
+
+  it('writes signals, heartbeat and last_sync, and skips replays on the next run', async () => {
+    const db = seededDb();
+    const txs: Tx[] = [
+      { hash: '0x1', symbol: 'ETH', usd: 500_000, at: '2026-03-01T11:00:00Z' },
+      { hash: '0x2', symbol: 'BTC', usd: 2_000_000, at: '2026-03-01T11:30:00Z' },
+    ];
+
+    const first = await runSignalSource(db, whaleLikeSource(txs), CTX);
+    expect(first).toMatchObject({ fetched: 2, inserted: 2, rejected: 0, duplicates: 0, error: null });
+    expect(db.rows('live_signals').map((r) => [r.symbol, r.signal_strength])).toEqual([
+      ['ETH-EUR', 50],
+      ['BTC-EUR', 100],
+    ]);
+    expect(db.rows('signal_source_health')).toEqual([
+      expect.objectContaining({
+        source: 'test_whales',
+        expected_interval_seconds: 3600,
+        last_run_at: NOW.toISOString(),
+        last_run_status: 'ok',
+        last_run_inserted: 2,
+        last_signal_at: '2026-03-01T11:30:00.000Z',
+      }),
+    ]);
+    expect(db.rows('ai_data_sources')[0].last_sync).toBe(NOW.toISOString());
+
+    // Webhook retry: same hashes, new delivery time
+    const retry = txs.map((tx) => ({ ...tx, at: '2026-03-01T11:59:00Z' }));
+    const second = await runSignalSource(db, whaleLikeSource(retry), CTX);
+    expect(second).toMatchObject({ fetched: 2, inserted: 0, duplicates: 2 });
+    expect(db.rows('live_signals')).toHaveLength(2);
+  });
+
+  it('records a failing heartbeat and rethrows when fetch fails', async () => {
+    const db = seededDb();
+    const broken: SignalSource<Tx> = {
+      ...whaleLikeSource([]),
+      fetch: async () => {
+        throw new Error('upstream 503');
+      },
+    };
+
+    await expect(runSignalSource(db, broken, CTX)).rejects.toThrow('upstream 503');
+    expect(db.rows('signal_source_health')[0]).toMatchObject({ last_run_status: 'error', last_error: 'upstream 503' });
+    expect(db.rows('ai_data_sources')[0].last_sync).toBeNull();
+  });
+
+  it('heartbeats sources that draft no signals', async () => {
+    const db = seededDb();
+    const marketDataOnly: SignalSource<number> = {
+      name: 'test_market_data',
+      expectedIntervalSeconds: 86400,
+      symbolFormat: 'pair',
+      fetch: async () => [1, 2, 3],
+      normalize: () => [],
+    };
+
+    const result = await runSignalSource(db, marketDataOnly, CTX);
+    expect(result).toMatchObject({ fetched: 3, drafted: 0, inserted: 0, error: null });
+    expect(db.rows('signal_source_health')[0]).toMatchObject({ source: 'test_market_data', last_run_fetched: 3 });
+    expect(db.rows('live_signals')).toHaveLength(0);
+  });
+});
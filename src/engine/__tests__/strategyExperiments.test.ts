@@ -0,0 +1,200 @@
+/**
+ * Strategy Experiments Tests
+ *
+ * Validates:
+ * 1. Entry split by symbol (explicit lists, stable hash) and by time slot
+ * 2. Strategies outside the experiment are never blocked
+ * 3. Win-rate and bootstrap P&L intervals
+ * 4. Significance requires the minimum sample in both arms
+ * 5. Automatic stop on significance or max duration
+ * 6. Running-experiment lookup by arm
+ * 7. Promotion gate from the strategy's latest experiment (server-side,
+ *    same cases the UI helper used to cover)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bootstrapMeanDifference,
+  entryOwner,
+  evaluateExperiment,
+  experimentOutcome,
+  experimentPromotionGate,
+  fetchRunningExperiment,
+  isExperimentEntryAllowed,
+  normalQuantile,
+  winRateDifference,
+  type StrategyExperimentRow,
+} from '../../../supabase/functions/_shared/strategyExperiments';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const T0 = Date.parse('2026-03-01T12:00:00.000Z');
+
+const experiment = (overrides: Partial<StrategyExperimentRow> = {}): StrategyExperimentRow => ({
+  id: 'exp-1',
+  user_id: 'user-1',
+  control_strategy_id: 'strat-a',
+  variant_strategy_id: 'strat-b',
+  split_mode: 'symbol',
+  split_config: {},
+  primary_metric: 'pnl',
+  alpha: 0.01,
+  min_trades_per_arm: 30,
+  max_duration_days: 30,
+  status: 'running',
+  started_at: new Date(T0).toISOString(),
+  ...overrides,
+});
+
+/** n trades, half at mean + 2 and half at mean − 2 */
+const trades = (n: number, mean: number) =>
+  Array.from({ length: n }, (_, i) => (i < n / 2 ? mean + 2 : mean - 2));
+
+describe('entry split', () => {
+  it('gives every symbol to exactly one arm, honouring explicit lists', () => {
+    const exp = experiment({ split_config: { control_symbols: ['BTC'], variant_symbols: ['ETH-EUR'] } });
+    expect(entryOwner(exp, 'BTC-EUR', T0)).toBe('control');
+    expect(entryOwner(exp, 'ETH', T0)).toBe('variant');
+
+    for (const symbol of ['SOL', 'XRP', 'ADA', 'DOGE']) {
+      const control = isExperimentEntryAllowed(exp, 'strat-a', symbol, T0);
+      const variant = isExperimentEntryAllowed(exp, 'strat-b', symbol, T0);
+      expect(control.allowed).not.toBe(variant.allowed);
+      // Stable across time and symbol spelling
+      expect(entryOwner(exp, `${symbol}-EUR`, T0 + 86_400_000)).toBe(control.owner);
+    }
+  });
+
+  it('alternates the owning arm per time slot', () => {
+    const exp = experiment({ split_mode: 'time', split_config: { slot_minutes: 60 } });
+    const first = entryOwner(exp, 'BTC', T0);
+    expect(entryOwner(exp, 'ETH', T0 + 30 * 60_000)).toBe(first);
+    expect(entryOwner(exp, 'BTC', T0 + 60 * 60_000)).not.toBe(first);
+    expect(entryOwner(exp, 'BTC', T0 + 120 * 60_000)).toBe(first);
+  });
+
+  it('never blocks strategies outside the experiment', () => {
+    expect(isExperimentEntryAllowed(experiment(), 'strat-c', 'BTC', T0)).toMatchObject({ allowed: true, arm: null });
+  });
+});
+
+describe('intervals', () => {
+  it('inverts the normal CDF', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.995)).toBeCloseTo(2.575829, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+
+  it('computes an Agresti-Caffo win-rate difference', () => {
+    const ci = winRateDifference({ wins: 20, trades: 40 }, { wins: 30, trades: 40 }, 0.05);
+    // (31/42 − 21/42) ± 1.96 × se
+    expect(ci.diff).toBeCloseTo(10 / 42, 6);
+    expect(ci.lower).toBeGreaterThan(0);
+    expect(ci.upper).toBeLessThan(0.5);
+  });
+
+  it('bootstraps the mean difference reproducibly', () => {
+    const control = trades(40, 0);
+    const variant = trades(40, 3);
+    const a = bootstrapMeanDifference(control, variant, 0.05, 1000);
+    const b = bootstrapMeanDifference(control, variant, 0.05, 1000);
+    expect(a).toEqual(b);
+    expect(a.diff).toBeCloseTo(3, 6);
+    expect(a.lower).toBeGreaterThan(0);
+    expect(a.upper).toBeGreaterThan(a.diff);
+  });
+
+  it('leaves the interval unbounded when an arm has no trades', () => {
+    expect(bootstrapMeanDifference([], [1, 2], 0.05)).toEqual({ diff: 0, lower: -Infinity, upper: Infinity });
+  });
+});
+
+describe('evaluateExperiment', () => {
+  it('is not significant before both arms reach the minimum sample', () => {
+    const evaluation = evaluateExperiment(trades(10, 0), trades(10, 5), { minTradesPerArm: 30, bootstrapSamples: 500 });
+    expect(evaluation.enough_data).toBe(false);
+    expect(evaluation.significant).toBe(false);
+    expect(evaluation.leader).toBe('variant');
+  });
+
+  it('flags a clear P&L difference and the leading arm', () => {
+    const evaluation = evaluateExperiment(trades(40, 4), trades(40, 0), { minTradesPerArm: 30, bootstrapSamples: 500 });
+    expect(evaluation.control).toMatchObject({ trades: 40, wins: 40, win_rate: 1 });
+    expect(evaluation.variant).toMatchObject({ trades: 40, wins: 20, win_rate: 0.5 });
+    expect(evaluation.significant).toBe(true);
+    expect(evaluation.leader).toBe('control');
+  });
+
+  it('uses the configured primary metric', () => {
+    // Same win rate, different P&L: significant on pnl only
+    const control = [...Array(20).fill(1), ...Array(20).fill(-1)];
+    const variant = [...Array(20).fill(9), ...Array(20).fill(-1)];
+    expect(evaluateExperiment(control, variant, { primaryMetric: 'pnl', bootstrapSamples: 500 }).significant).toBe(true);
+    expect(evaluateExperiment(control, variant, { primaryMetric: 'win_rate', bootstrapSamples: 500 }).significant).toBe(false);
+  });
+});
+
+describe('experimentOutcome', () => {
+  const exp = experiment();
+
+  it('stops with the leader as winner once significant', () => {
+    const evaluation = evaluateExperiment(trades(40, 0), trades(40, 4), { bootstrapSamples: 500 });
+    expect(experimentOutcome(evaluation, exp, T0 + 86_400_000)).toEqual({ stop: true, reason: 'significant', winner: 'variant' });
+  });
+
+  it('stops as inconclusive after max_duration_days, otherwise keeps running', () => {
+    const evaluation = evaluateExperiment(trades(40, 1), trades(40, 1), { bootstrapSamples: 500 });
+    expect(experimentOutcome(evaluation, exp, T0 + 29 * 86_400_000)).toEqual({ stop: false, reason: null, winner: null });
+    expect(experimentOutcome(evaluation, exp, T0 + 30 * 86_400_000)).toEqual({
+      stop: true,
+      reason: 'max_duration',
+      winner: 'inconclusive',
+    });
+  });
+});
+
+describe('fetchRunningExperiment', () => {
+  it('finds the running experiment by either arm for the user', async () => {
+    const db = new InMemorySupabase({
+      strategy_experiments: [
+        experiment({ id: 'old', status: 'completed' }),
+        experiment({ id: 'other-user', user_id: 'user-2' }),
+        experiment({ id: 'live' }),
+      ],
+    });
+
+    expect((await fetchRunningExperiment(db, 'user-1', 'strat-b'))?.id).toBe('live');
+    expect((await fetchRunningExperiment(db, 'user-1', 'strat-a'))?.id).toBe('live');
+    expect(await fetchRunningExperiment(db, 'user-1', 'strat-c')).toBeNull();
+    expect(await fetchRunningExperiment(db, 'user-3', 'strat-a')).toBeNull();
+  });
+});
+
+describe('experimentPromotionGate', () => {
+  it('allows strategies without experiments', () => {
+    expect(experimentPromotionGate([experiment({ status: 'completed' })], 'strat-c')).toEqual({
+      status: 'no_experiment',
+      allowed: true,
+      experiment_id: null,
+    });
+  });
+
+  it('blocks while the experiment runs and after a loss, allows the winner', () => {
+    expect(experimentPromotionGate([experiment()], 'strat-a')).toMatchObject({ status: 'running', allowed: false });
+
+    const finished = [experiment({ status: 'completed', winner: 'variant' })];
+    expect(experimentPromotionGate(finished, 'strat-b')).toMatchObject({ status: 'won', allowed: true });
+    expect(experimentPromotionGate(finished, 'strat-a')).toMatchObject({ status: 'lost', allowed: false });
+  });
+
+  it('uses the most recent experiment only', () => {
+    const experiments = [
+      experiment({ id: 'old', status: 'completed', winner: 'variant', started_at: '2026-03-01T00:00:00.000Z' }),
+      experiment({ id: 'new', status: 'completed', winner: 'inconclusive', started_at: '2026-04-01T00:00:00.000Z' }),
+    ];
+    expect(experimentPromotionGate(experiments, 'strat-a')).toEqual({
+      status: 'inconclusive',
+      allowed: true,
+      experiment_id: 'new',
+    });
+  });
+});
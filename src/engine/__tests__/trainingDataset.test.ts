@@ -0,0 +1,229 @@
+/**
+ * Training Dataset Tests
+ *
+ * Validates:
+ * 1. Features and labels are read from their declared sources
+ * 2. Point-in-time: immature labels and missing snapshots are dropped
+ * 3. Leakage: snapshot timestamps after decision_ts drop the row
+ * 4. Time split with label-window purging
+ * 5. CSV escaping and file checksums
+ * 6. Outcome paging and decision context lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDatasetRows,
+  DATASET_COLUMNS,
+  datasetFile,
+  fetchDecisionContext,
+  fetchOutcomes,
+  findLeakage,
+  horizonMs,
+  splitByTime,
+  toCsv,
+  type DatasetRow,
+  type DecisionEventRow,
+  type DecisionOutcomeRow,
+  type DecisionSnapshotRow,
+} from '../../../supabase/functions/_shared/trainingDataset';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const T0 = Date.parse('2026-03-01T00:00:00.000Z');
+const HOUR = 3_600_000;
+const iso = (ms: number) => new Date(ms).toISOString();
+
+const event = (id: string, offsetHours: number): DecisionEventRow => ({
+  id,
+  decision_ts: iso(T0 + offsetHours * HOUR),
+  symbol: 'BTC',
+  side: 'BUY',
+  strategy_id: 'strat-1',
+});
+
+const snapshot = (decisionId: string, context: Record<string, unknown> = {}): DecisionSnapshotRow => ({
+  decision_id: decisionId,
+  fusion_score: '0.42',
+  signal_breakdown_json: { total_signals: 7 },
+  guard_states_json: { confidence: 0.8 },
+  strategy_config_snapshot_json: { tp_pct: 1.5, sl_pct: 0.8 },
+  market_context_json: {
+    entry_filter_shadow: { rsi_14: 55, features_ts: iso(T0 - HOUR) },
+    ml_shadow: { ensemble_prob: 0.9, model_version: 'xgb-1' },
+    ...context,
+  },
+});
+
+const outcome = (decisionId: string, evaluatedOffsetHours: number, overrides: Partial<DecisionOutcomeRow> = {}): DecisionOutcomeRow => ({
+  decision_id: decisionId,
+  horizon: '1h',
+  evaluated_at: iso(T0 + evaluatedOffsetHours * HOUR),
+  realized_pnl_pct: 1.2,
+  mfe_pct: 2,
+  mae_pct: -0.5,
+  hit_tp: true,
+  hit_sl: false,
+  ...overrides,
+});
+
+describe('horizonMs', () => {
+  it('parses minute, hour and day horizons', () => {
+    expect(horizonMs('15m')).toBe(900_000);
+    expect(horizonMs('4h')).toBe(4 * HOUR);
+    expect(horizonMs('1d')).toBe(24 * HOUR);
+    expect(() => horizonMs('1w')).toThrow(/Unsupported horizon/);
+  });
+});
+
+describe('buildDatasetRows', () => {
+  it('maps every declared column', () => {
+    const { rows } = buildDatasetRows({
+      horizon: '1h',
+      asOf: iso(T0 + 10 * HOUR),
+      events: [event('d1', 0)],
+      snapshots: [snapshot('d1')],
+      outcomes: [outcome('d1', 1)],
+    });
+    expect(Object.keys(rows[0])).toEqual(DATASET_COLUMNS.map((c) => c.name));
+    expect(rows[0]).toMatchObject({
+      decision_id: 'd1',
+      decision_ts: iso(T0),
+      side: 'BUY',
+      fusion_score: 0.42,
+      confidence: 0.8,
+      total_signals: 7,
+      tp_pct: 1.5,
+      rsi_14: 55,
+      ml_ensemble_prob: 0.9,
+      ml_model_version: 'xgb-1',
+      ml_xgb_prob: null,
+      realized_pnl_pct: 1.2,
+      hit_tp: true,
+      hit_sl: false,
+    });
+  });
+
+  it('drops immature labels, missing snapshots and other horizons', () => {
+    const build = buildDatasetRows({
+      horizon: '1h',
+      asOf: iso(T0 + 5 * HOUR),
+      events: [event('ok', 0), event('late', 4.5), event('early-eval', 1), event('no-snap', 0), event('4h', 0)],
+      snapshots: [snapshot('ok'), snapshot('late'), snapshot('early-eval'), snapshot('4h')],
+      outcomes: [
+        outcome('ok', 1),
+        // Window ends after as_of
+        outcome('late', 5),
+        // Evaluated before the window closed
+        outcome('early-eval', 1.5),
+        outcome('no-snap', 1),
+        outcome('4h', 4, { horizon: '4h' }),
+      ],
+    });
+    expect(build.rows.map((r) => r.decision_id)).toEqual(['ok']);
+    expect(build.dropped).toEqual({ immature: 2, leakage: 0, no_snapshot: 1 });
+  });
+
+  it('drops rows whose snapshot carries a timestamp after decision_ts', () => {
+    const leaky = snapshot('leak', {
+      ml_shadow: { ensemble_prob: 0.9, whale_shadow: { signal_at: iso(T0 + 30 * 60_000) } },
+    });
+    const build = buildDatasetRows({
+      horizon: '1h',
+      asOf: iso(T0 + 10 * HOUR),
+      events: [event('leak', 0), event('ok', 0)],
+      snapshots: [leaky, snapshot('ok')],
+      outcomes: [outcome('leak', 1), outcome('ok', 1)],
+    });
+    expect(build.rows.map((r) => r.decision_id)).toEqual(['ok']);
+    expect(build.dropped.leakage).toBe(1);
+    expect(build.leakage).toEqual([
+      { decision_id: 'leak', path: 'market_context_json.ml_shadow.whale_shadow.signal_at', ts: iso(T0 + 30 * 60_000) },
+    ]);
+  });
+});
+
+describe('findLeakage', () => {
+  it('checks ts, timestamp, *_ts and *_at keys inside arrays too', () => {
+    const snap = snapshot('d1', {
+      ts: iso(T0 + 1),
+      events: [{ timestamp: iso(T0 + 2) }, { created_at: 'not a date' }],
+      features_ts: iso(T0),
+    });
+    expect(findLeakage(snap, 'd1', iso(T0)).map((f) => f.path)).toEqual([
+      'market_context_json.ts',
+      'market_context_json.events[0].timestamp',
+    ]);
+  });
+});
+
+describe('splitByTime', () => {
+  const rows = (hours: number[]): DatasetRow[] => hours.map((h) => ({ decision_id: `d${h}`, decision_ts: iso(T0 + h * HOUR) }));
+
+  it('holds out the latest decisions and purges overlapping train labels', () => {
+    const split = splitByTime(rows([0, 1, 2, 3, 4, 5, 6, 7, 8, 9.5]), '4h', 0.2);
+    expect(split.validation.map((r) => r.decision_id)).toEqual(['d8', 'd9.5']);
+    expect(split.split_ts).toBe(iso(T0 + 8 * HOUR));
+    // d5..d7 label windows end after 08:00
+    expect(split.train.map((r) => r.decision_id)).toEqual(['d0', 'd1', 'd2', 'd3', 'd4']);
+    expect(split.purged).toBe(3);
+  });
+
+  it('keeps everything in train when the validation share rounds to zero', () => {
+    expect(splitByTime(rows([0, 1]), '1h', 0.2)).toMatchObject({ validation: [], split_ts: null, purged: 0 });
+  });
+});
+
+describe('files', () => {
+  it('writes a header and escapes cells', () => {
+    const columns = DATASET_COLUMNS.slice(0, 2);
+    expect(toCsv([{ decision_id: 'a,"b"', decision_ts: null }], columns)).toBe('decision_id,decision_ts\n"a,""b""",\n');
+  });
+
+  it('records rows, range and checksum', async () => {
+    const file = await datasetFile('x/train.csv', [
+      { decision_id: 'a', decision_ts: iso(T0) },
+      { decision_id: 'b', decision_ts: iso(T0 + HOUR) },
+    ]);
+    expect(file.info).toMatchObject({ path: 'x/train.csv', rows: 2, from: iso(T0), to: iso(T0 + HOUR) });
+    expect(file.info.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('loading', () => {
+  it('pages outcomes of one horizon evaluated by as_of', async () => {
+    const db = new InMemorySupabase({
+      decision_outcomes: [
+        { ...outcome('d1', 1), id: 'o1' },
+        { ...outcome('d2', 1), id: 'o2' },
+        { ...outcome('d3', 1), id: 'o3' },
+        { ...outcome('d4', 1, { horizon: '4h' }), id: 'o4' },
+        { ...outcome('d5', 20), id: 'o5' },
+      ],
+    });
+    const outcomes = await fetchOutcomes(db, { horizon: '1h', asOf: iso(T0 + 10 * HOUR), pageSize: 2 });
+    expect(outcomes.map((o) => o.id)).toEqual(['o1', 'o2', 'o3']);
+  });
+
+  it('limits outcomes to those evaluated from a start time', async () => {
+    const db = new InMemorySupabase({
+      decision_outcomes: [
+        { ...outcome('d1', 1), id: 'o1' },
+        { ...outcome('d2', 3), id: 'o2' },
+      ],
+    });
+    const outcomes = await fetchOutcomes(db, { horizon: '1h', asOf: iso(T0 + 10 * HOUR), evaluatedFrom: iso(T0 + 2 * HOUR) });
+    expect(outcomes.map((o) => o.id)).toEqual(['o2']);
+  });
+
+  it('looks up events from the start time and their snapshots in chunks', async () => {
+    const db = new InMemorySupabase({
+      decision_events: [event('d1', 0), event('d2', 5), event('d3', 6)],
+      decision_snapshots: [
+        { ...snapshot('d2'), timestamp_utc: iso(T0 + 5 * HOUR) },
+        { ...snapshot('d3'), timestamp_utc: iso(T0 + 6 * HOUR) },
+      ],
+    });
+    const context = await fetchDecisionContext(db, ['d1', 'd2', 'd3'], { from: iso(T0 + HOUR), chunk: 2 });
+    expect(context.events.map((e) => e.id)).toEqual(['d2', 'd3']);
+    expect(context.snapshots.map((s) => s.decision_id)).toEqual(['d2', 'd3']);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Transaction Manager Tests
+ *
+ * Validates:
+ * 1. EIP-1559 fee derivation and replacement fee bumps
+ * 2. Stuck / dropped classification of pending transactions
+ * 3. Per-address nonce reservation across concurrent sends
+ * 4. Nonce release on sign failures and definitive broadcast rejections only
+ *    (not when the nonce was consumed or the send may have reached the node)
+ * 5. Speed-up and cancel replacements and their receipts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+import {
+  TX_MANAGER_DEFAULTS,
+  bumpFees,
+  createTxManager,
+  feesFromBaseFee,
+  isDefinitiveRejection,
+  isNonceConsumedError,
+  pendingTxAction,
+  RpcError,
+  type ManagedTxRow,
+  type PreparedTx,
+  type RpcCall,
+} from '../../../supabase/functions/_shared/txManager';
+
+const FROM = '0xB0B0000000000000000000000000000000000001';
+const TO = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const CALL = { to: TO, data: '0xa9059cbb', value: 0n, gas: 100_000n };
+const CTX = { kind: 'withdrawal', signerKind: 'system' as const };
+
+const hex = (n: bigint | number) => `0x${n.toString(16)}`;
+
+/** Base-like node: fixed base fee, a pending/mined nonce counter and settable receipts. */
+function fakeNode(opts: { pending?: number; latest?: number; baseFee?: bigint; sendError?: string } = {}) {
+  // sendError is a JSON-RPC error body (as thrown by jsonRpc); transportError a failed fetch
+  const state = {
+    pending: opts.pending ?? 7,
+    latest: opts.latest ?? opts.pending ?? 7,
+    baseFee: opts.baseFee ?? 1_000_000n,
+    sendError: opts.sendError ?? null as string | null,
+    transportError: null as string | null,
+    sent: [] as string[],
+    receipts: new Map<string, { status: string; blockNumber: string }>(),
+  };
+  const rpc: RpcCall = async (method, params) => {
+    switch (method) {
+      case 'eth_feeHistory':
+        return { baseFeePerGas: [hex(state.baseFee), hex(state.baseFee)], reward: [[hex(100_000n)]] };
+      case 'eth_getTransactionCount':
+        return hex(params[1] === 'pending' ? state.pending : state.latest);
+      case 'eth_sendRawTransaction':
+        if (state.transportError) throw new TypeError(state.transportError);
+        if (state.sendError) throw new RpcError(state.sendError, { code: -32000, message: state.sendError });
+        state.sent.push(params[0] as string);
+        return `0xhash${state.sent.length}`;
+      case 'eth_getTransactionReceipt':
+        return state.receipts.get(params[0] as string) ?? null;
+      default:
+        throw new Error(`unexpected ${method}`);
+    }
+  };
+  return { state, rpc };
+}
+
+/** reserve_tx_nonce / release_tx_nonce and column defaults as in the migration (no idle re-sync). */
+function nonceDb() {
+  const next = new Map<string, number>();
+  return new InMemorySupabase({}, {
+    defaults: { managed_transactions: { replacement_count: 0, cancel_tx_hashes: [] } },
+    rpc: {
+      reserve_tx_nonce: (p) => {
+        const key = `${p.p_chain_id}:${p.p_address}`;
+        const nonce = Math.max(next.get(key) ?? 0, Number(p.p_chain_nonce));
+        next.set(key, nonce + 1);
+        return nonce;
+      },
+      release_tx_nonce: (p) => {
+        const key = `${p.p_chain_id}:${p.p_address}`;
+        if (next.get(key) !== Number(p.p_nonce) + 1) return false;
+        next.set(key, Number(p.p_nonce));
+        return true;
+      },
+    },
+  });
+}
+
+const sign = async (tx: PreparedTx) => `signed:${tx.nonce}:${tx.to}:${tx.maxFeePerGas}`;
+
+describe('fees', () => {
+  it('derives maxFeePerGas from the next base fee plus the priority fee', () => {
+    expect(feesFromBaseFee(1_000n, 50n)).toEqual({ maxFeePerGas: 2_050n, maxPriorityFeePerGas: 50n });
+    expect(feesFromBaseFee(1_000n, 0n).maxPriorityFeePerGas).toBe(TX_MANAGER_DEFAULTS.FALLBACK_PRIORITY_FEE_WEI);
+  });
+
+  it('bumps both fee fields past the node replacement threshold, never below market', () => {
+    const previous = { maxFeePerGas: 1_000n, maxPriorityFeePerGas: 100n };
+    expect(bumpFees(previous, { maxFeePerGas: 500n, maxPriorityFeePerGas: 10n })).toEqual({
+      maxFeePerGas: 1_150n,
+      maxPriorityFeePerGas: 115n,
+    });
+    expect(bumpFees(previous, { maxFeePerGas: 5_000n, maxPriorityFeePerGas: 300n })).toEqual({
+      maxFeePerGas: 5_000n,
+      maxPriorityFeePerGas: 300n,
+    });
+  });
+});
+
+describe('pendingTxAction', () => {
+  const now = Date.parse('2026-03-01T12:00:00Z');
+  const row = (overrides: Partial<ManagedTxRow> = {}) => ({
+    nonce: 7,
+    replacement_count: 0,
+    signer_kind: 'system' as const,
+    last_broadcast_at: new Date(now - 30_000).toISOString(),
+    ...overrides,
+  });
+  const stale = new Date(now - (TX_MANAGER_DEFAULTS.STUCK_AFTER_SECONDS + 1) * 1000).toISOString();
+
+  it('waits, then speeds up, then gives up after MAX_SPEED_UPS', () => {
+    expect(pendingTxAction(row(), 7, now)).toBe('wait');
+    expect(pendingTxAction(row({ last_broadcast_at: stale }), 7, now)).toBe('speed_up');
+    expect(
+      pendingTxAction(row({ last_broadcast_at: stale, replacement_count: TX_MANAGER_DEFAULTS.MAX_SPEED_UPS }), 7, now),
+    ).toBe('stuck');
+  });
+
+  it('never replaces externally signed txs and flags consumed nonces as dropped', () => {
+    expect(pendingTxAction(row({ last_broadcast_at: stale, signer_kind: 'external' }), 7, now)).toBe('stuck');
+    expect(pendingTxAction(row(), 8, now)).toBe('dropped');
+  });
+
+  it('recognises nonce-consumed broadcast errors', () => {
+    expect(isNonceConsumedError('nonce too low: next nonce 9, tx nonce 7')).toBe(true);
+    expect(isNonceConsumedError('already known')).toBe(true);
+    expect(isNonceConsumedError('insufficient funds for gas * price + value')).toBe(false);
+  });
+
+  it('treats only JSON-RPC refusals as definitive', () => {
+    const rejected = (message: string) => new RpcError(message, { code: -32000, message });
+    expect(isDefinitiveRejection(rejected('insufficient funds for gas * price + value'))).toBe(true);
+    expect(isDefinitiveRejection(rejected('transaction underpriced'))).toBe(true);
+    expect(isDefinitiveRejection(rejected('replacement transaction underpriced'))).toBe(false);
+    expect(isDefinitiveRejection(rejected('nonce too low'))).toBe(false);
+    expect(isDefinitiveRejection(new TypeError('insufficient funds'))).toBe(false);
+    expect(isDefinitiveRejection(new Error('No transaction hash returned'))).toBe(false);
+  });
+});
+
+describe('createTxManager', () => {
+  it('hands concurrent senders consecutive nonces and records each tx', async () => {
+    const db = nonceDb();
+    const { rpc } = fakeNode({ pending: 7 });
+    const manager = createTxManager({ supabase: db, rpc, chainId: 8453, from: FROM });
+
+    const [a, b] = await Promise.all([manager.send(CALL, sign, CTX), manager.send(CALL, sign, CTX)]);
+    expect(a.ok && b.ok).toBe(true);
+    expect([a, b].map((r) => (r.ok ? r.tx.nonce : null)).sort()).toEqual([7, 8]);
+
+    expect(db.rows('managed_transactions')).toHaveLength(2);
+    expect(db.rows('managed_transactions')[0]).toMatchObject({
+      from_address: FROM.toLowerCase(),
+      status: 'PENDING',
+      max_fee_per_gas: '2100000',
+      max_priority_fee_per_gas: '100000',
+    });
+    expect(db.rows('trade_events').map((e) => [e.phase, e.trade_id])).toEqual([
+      ['submit', null],
+      ['submit', null],
+    ]);
+  });
+
+  it('releases the nonce when signing fails so the next send reuses it', async () => {
+    const db = nonceDb();
+    const { rpc } = fakeNode({ pending: 3 });
+    const manager = createTxManager({ supabase: db, rpc, chainId: 8453, from: FROM });
+
+    const failed = await manager.send(CALL, async () => { throw new Error('webhook down'); }, CTX);
+    expect(failed).toMatchObject({ ok: false, stage: 'sign', error: 'webhook down' });
+
+    const retry = await manager.send(CALL, sign, CTX);
+    expect(retry.ok && retry.tx.nonce).toBe(3);
+  });
+
+  it('keeps a nonce the node already consumed, releases it on other broadcast errors', async () => {
+    const db = nonceDb();
+    const node = fakeNode({ pending: 5, sendError: 'nonce too low' });
+    const manager = createTxManager({ supabase: db, rpc: node.rpc, chainId: 8453, from: FROM });
+
+    expect(await manager.send(CALL, sign, CTX)).toMatchObject({ ok: false, stage: 'broadcast' });
+    node.state.sendError = 'insufficient funds';
+    const second = await manager.send(CALL, sign, CTX);
+    expect(second).toMatchObject({ ok: false, stage: 'broadcast' });
+
+    node.state.sendError = null;
+    const third = await manager.send(CALL, sign, CTX);
+    expect(third.ok && third.tx.nonce).toBe(6);
+    expect(db.rows('trade_events').filter((e) => e.phase === 'error')).toHaveLength(2);
+  });
+
+  it('keeps the nonce when the send may have reached the node', async () => {
+    const db = nonceDb();
+    const node = fakeNode({ pending: 5 });
+    const manager = createTxManager({ supabase: db, rpc: node.rpc, chainId: 8453, from: FROM });
+
+    node.state.transportError = 'error sending request: connection reset';
+    expect(await manager.send(CALL, sign, CTX)).toMatchObject({ ok: false, stage: 'broadcast' });
+
+    node.state.transportError = null;
+    const next = await manager.send(CALL, sign, CTX);
+    expect(next.ok && next.tx.nonce).toBe(6);
+  });
+
+  it('speeds up with the same nonce and settles on whichever version mines', async () => {
+    const db = nonceDb();
+    const node = fakeNode({ pending: 7 });
+    const manager = createTxManager({ supabase: db, rpc: node.rpc, chainId: 8453, from: FROM });
+
+    const sent = await manager.send(CALL, sign, CTX);
+    if (!sent.ok) throw new Error('send failed');
+    const original = db.rows('managed_transactions')[0] as unknown as ManagedTxRow;
+
+    const sped = await manager.replace(original, sign, 'speed_up');
+    expect(sped.ok && sped.tx.nonce).toBe(7);
+    expect(sped.ok && sped.tx.maxFeePerGas).toBe(bumpFees(sent.tx, sent.tx).maxFeePerGas);
+
+    const row = db.rows('managed_transactions')[0] as unknown as ManagedTxRow;
+    expect(row).toMatchObject({ tx_hash: '0xhash2', tx_hashes: ['0xhash1', '0xhash2'], replacement_count: 1 });
+
+    // The original (cheaper) version still made it into a block
+    node.state.receipts.set('0xhash1', { status: '0x1', blockNumber: '0x10' });
+    node.state.latest = 8;
+    const result = await manager.refresh(row, Date.now());
+    expect(result).toEqual({ status: 'MINED', minedTxHash: '0xhash1' });
+    expect(db.rows('managed_transactions')[0]).toMatchObject({ status: 'MINED', mined_tx_hash: '0xhash1', block_number: 16 });
+    expect(db.rows('trade_events').map((e) => e.phase)).toEqual(['submit', 'replace', 'mined']);
+  });
+
+  it('cancels with a 0-value self-transfer and marks the row CANCELLED once it mines', async () => {
+    const db = nonceDb();
+    const node = fakeNode({ pending: 2 });
+    const manager = createTxManager({ supabase: db, rpc: node.rpc, chainId: 8453, from: FROM });
+    await manager.send(CALL, sign, CTX);
+
+    const cancel = await manager.replace(db.rows('managed_transactions')[0] as unknown as ManagedTxRow, sign, 'cancel');
+    expect(cancel.ok && [cancel.tx.to, cancel.tx.value, cancel.tx.nonce]).toEqual([FROM.toLowerCase(), 0n, 2]);
+
+    node.state.receipts.set('0xhash2', { status: '0x1', blockNumber: '0x20' });
+    const result = await manager.refresh(db.rows('managed_transactions')[0] as unknown as ManagedTxRow, Date.now());
+    expect(result).toEqual({ status: 'CANCELLED', minedTxHash: '0xhash2' });
+  });
+
+  it('marks a tx DROPPED when its nonce is consumed without one of its hashes mining', async () => {
+    const db = nonceDb();
+    const node = fakeNode({ pending: 4 });
+    const manager = createTxManager({ supabase: db, rpc: node.rpc, chainId: 8453, from: FROM });
+    await manager.send(CALL, sign, CTX);
+
+    node.state.latest = 5;
+    const result = await manager.refresh(db.rows('managed_transactions')[0] as unknown as ManagedTxRow, Date.now());
+    expect(result).toEqual({ status: 'DROPPED', minedTxHash: null });
+    expect(db.rows('managed_transactions')[0].status).toBe('DROPPED');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Volatility Regime Tests
+ *
+ * Validates:
+ * 1. Shock, trend up/down and range labels from vol ratio, returns and EMA structure
+ * 2. Short/long volatility fallbacks and unusable rows
+ * 3. TP/SL volatility multipliers per regime
+ * 4. Latest-label lookup ignores stale and unlabelled rows
+ * 5. Regime profile overlay on a flat strategy configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  REGIME_DEFAULTS,
+  applyRegimeProfile,
+  classifyRegime,
+  fetchLatestRegime,
+  regimeTpSlMultipliers,
+} from '../../../supabase/functions/_shared/volatilityRegime';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const T0 = Date.parse('2026-03-01T12:00:00.000Z');
+
+const calm = { vol_1h: 0.002, vol_24h: 0.002, ret_1h: 0.001, ret_24h: 0.002, ema_20: 100, ema_50: 100.2, ema_200: 99 };
+
+describe('classifyRegime', () => {
+  it('labels a quiet mixed-EMA market as a range', () => {
+    expect(classifyRegime(calm)).toEqual({ regime: 'low_vol_range', volRatio: 1, emaTrend: 'mixed' });
+  });
+
+  it('labels aligned EMAs with a 24h move as a trend', () => {
+    expect(classifyRegime({ ...calm, ema_20: 103, ema_50: 101, ret_24h: 0.03 })?.regime).toBe('trend_up');
+    expect(classifyRegime({ ...calm, ema_20: 97, ema_50: 98, ema_200: 99.5, ret_24h: -0.03 })?.regime).toBe('trend_down');
+    // Aligned EMAs without the 24h move stay a range
+    expect(classifyRegime({ ...calm, ema_20: 103, ema_50: 101, ret_24h: 0.005 })).toMatchObject({
+      regime: 'low_vol_range',
+      emaTrend: 'up',
+    });
+  });
+
+  it('labels a volatility spike or a large hourly move as a shock, ahead of trend', () => {
+    expect(classifyRegime({ ...calm, vol_1h: 0.005, ema_20: 103, ema_50: 101, ret_24h: 0.03 })).toMatchObject({
+      regime: 'high_vol_shock',
+      volRatio: 2.5,
+    });
+    expect(classifyRegime({ ...calm, ret_1h: -(REGIME_DEFAULTS.SHOCK_RET_1H + 0.01) })?.regime).toBe('high_vol_shock');
+  });
+
+  it('falls back to vol_4h / vol_7d and parses numeric strings', () => {
+    expect(classifyRegime({ vol_1h: null, vol_4h: '0.004', vol_24h: null, vol_7d: '0.002' })).toMatchObject({
+      regime: 'high_vol_shock',
+      volRatio: 2,
+    });
+  });
+
+  it('returns null without usable volatility', () => {
+    expect(classifyRegime({ vol_1h: null, vol_4h: null, vol_24h: 0.01 })).toBeNull();
+    expect(classifyRegime({ vol_1h: 0.01, vol_24h: 0 })).toBeNull();
+  });
+});
+
+describe('regimeTpSlMultipliers', () => {
+  it('keeps the pre-regime multipliers for ranges and unknown labels', () => {
+    expect(regimeTpSlMultipliers('low_vol_range')).toEqual({ tp: 1.0, sl: 1.2 });
+    expect(regimeTpSlMultipliers(null)).toEqual({ tp: 1.0, sl: 1.2 });
+    expect(regimeTpSlMultipliers('sideways')).toEqual({ tp: 1.0, sl: 1.2 });
+  });
+
+  it('widens TP in up-trends and SL in shocks', () => {
+    expect(regimeTpSlMultipliers('trend_up').tp).toBeGreaterThan(1);
+    expect(regimeTpSlMultipliers('trend_down').tp).toBeLessThan(1);
+    expect(regimeTpSlMultipliers('high_vol_shock').sl).toBeGreaterThan(1.2);
+  });
+});
+
+describe('fetchLatestRegime', () => {
+  it('returns the newest labelled 5m row within the max age', async () => {
+    const ts = (msAgo: number) => new Date(T0 - msAgo).toISOString();
+    const db = new InMemorySupabase({
+      market_features_v0: [
+        { symbol: 'BTC-EUR', granularity: '5m', ts_utc: ts(3_600_000), volatility_regime: 'trend_down' },
+        { symbol: 'BTC-EUR', granularity: '5m', ts_utc: ts(600_000), volatility_regime: 'trend_up' },
+        { symbol: 'BTC-EUR', granularity: '1h', ts_utc: ts(60_000), volatility_regime: 'high_vol_shock' },
+        { symbol: 'ETH-EUR', granularity: '5m', ts_utc: ts(300_000), volatility_regime: null },
+      ],
+    });
+
+    expect(await fetchLatestRegime(db, 'BTC-EUR', T0)).toEqual({ regime: 'trend_up', ts: ts(600_000) });
+    expect(await fetchLatestRegime(db, 'BTC-EUR', T0 + REGIME_DEFAULTS.MAX_AGE_MS)).toBeNull();
+    expect(await fetchLatestRegime(db, 'ETH-EUR', T0)).toBeNull();
+  });
+});
+
+describe('applyRegimeProfile', () => {
+  const config = {
+    takeProfitPercentage: 2,
+    stopLossPercentage: 3,
+    spreadThresholdBps: 30,
+    regimeProfiles: {
+      trend_up: { takeProfitPercentage: 4, perTradeAllocation: '75', selectedCoins: ['BTC'] },
+      high_vol_shock: { stopLossPercentage: null },
+    },
+  };
+
+  it('overlays the active regime profile on the flat values', () => {
+    const result = applyRegimeProfile(config, 'trend_up');
+    expect(result.regime).toBe('trend_up');
+    expect(result.overrides).toEqual({ takeProfitPercentage: 4, perTradeAllocation: 75 });
+    expect(result.config).toMatchObject({ takeProfitPercentage: 4, stopLossPercentage: 3, perTradeAllocation: 75 });
+    // Only whitelisted numeric fields are taken from the profile
+    expect((result.config as Record<string, unknown>).selectedCoins).toBeUndefined();
+  });
+
+  it('keeps the flat configuration without a usable profile', () => {
+    for (const regime of ['low_vol_range', 'high_vol_shock', 'sideways', null]) {
+      const result = applyRegimeProfile(config, regime);
+      expect(result.regime).toBeNull();
+      expect(result.config).toBe(config);
+    }
+    expect(applyRegimeProfile({ takeProfitPercentage: 2 }, 'trend_up').regime).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Withdrawal Policy Tests
+ *
+ * Validates:
+ * 1. User policies override the global policy per asset
+ * 2. Allowlist, cooling-off and per-address caps deny
+ * 3. Daily / weekly velocity counts live requests only
+ * 4. Amounts above the approval threshold (or without a policy) are queued
+ * 5. Context loading and claiming an approved request once
+ * 6. Requests are created through the locking RPC; approved ones are re-checked
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  claimApprovedWithdrawal,
+  createWithdrawalRequest,
+  evaluateWithdrawal,
+  loadWithdrawalContext,
+  recheckApprovedWithdrawal,
+  recordWithdrawalStep,
+  resolveWithdrawalPolicy,
+  toBaseUnits,
+  type AllowlistEntry,
+  type RecentWithdrawal,
+  type WithdrawalPolicyRow,
+  type WithdrawalRequestRow,
+} from '../../../supabase/functions/_shared/withdrawalPolicy';
+import { InMemorySupabase } from '../harness/inMemorySupabase';
+
+const NOW = Date.parse('2026-10-18T12:00:00.000Z');
+const HOUR = 3_600_000;
+const iso = (ms: number) => new Date(ms).toISOString();
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+const policy = (overrides: Partial<WithdrawalPolicyRow> = {}): WithdrawalPolicyRow => ({
+  id: 'global-eth',
+  user_id: null,
+  asset: 'ETH',
+  daily_limit: '2',
+  weekly_limit: '5',
+  approval_threshold: '0.5',
+  cooling_off_hours: 24,
+  require_allowlist: true,
+  is_active: true,
+  ...overrides,
+});
+
+const allowlist = (overrides: Partial<AllowlistEntry> = {}): AllowlistEntry => ({
+  address: ADDRESS,
+  chain_id: 8453,
+  max_amount_wei: null,
+  is_active: true,
+  created_at: iso(NOW - 48 * HOUR),
+  ...overrides,
+});
+
+const recent = (amount: number, hoursAgo: number, status: RecentWithdrawal['status'] = 'submitted'): RecentWithdrawal => ({
+  amount: String(amount),
+  status,
+  created_at: iso(NOW - hoursAgo * HOUR),
+});
+
+const evaluate = (overrides: Partial<Parameters<typeof evaluateWithdrawal>[0]> = {}) =>
+  evaluateWithdrawal({ policy: policy(), amount: 0.2, decimals: 18, allowlist: allowlist(), recent: [], now: NOW, ...overrides });
+
+describe('resolveWithdrawalPolicy', () => {
+  it('prefers the active user policy over the global one', () => {
+    const policies = [
+      policy(),
+      policy({ id: 'user-eth', user_id: 'u1' }),
+      policy({ id: 'user-usdc', user_id: 'u1', asset: 'USDC' }),
+      policy({ id: 'u2-eth', user_id: 'u2' }),
+    ];
+    expect(resolveWithdrawalPolicy(policies, 'u1', 'ETH')?.id).toBe('user-eth');
+    expect(resolveWithdrawalPolicy(policies, 'u3', 'ETH')?.id).toBe('global-eth');
+    expect(resolveWithdrawalPolicy([policy({ user_id: 'u1', is_active: false })], 'u1', 'ETH')).toBeNull();
+  });
+});
+
+describe('evaluateWithdrawal', () => {
+  it('allows an allowlisted, mature address within limits', () => {
+    const result = evaluate();
+    expect(result).toMatchObject({ decision: 'allow', reasons: [], policy_id: 'global-eth' });
+    expect(result.usage).toEqual({ daily_used: 0, weekly_used: 0, daily_limit: 2, weekly_limit: 5 });
+  });
+
+  it('denies destinations that are not allowlisted or inactive', () => {
+    expect(evaluate({ allowlist: null }).reasons.map((r) => r.code)).toEqual(['address_not_allowlisted']);
+    expect(evaluate({ allowlist: allowlist({ is_active: false }) }).decision).toBe('deny');
+    expect(evaluate({ allowlist: null, policy: policy({ require_allowlist: false }) }).decision).toBe('allow');
+  });
+
+  it('denies during the cooling-off period and reports when it ends', () => {
+    const result = evaluate({ allowlist: allowlist({ created_at: iso(NOW - 2 * HOUR) }) });
+    expect(result.decision).toBe('deny');
+    expect(result.reasons.map((r) => r.code)).toEqual(['cooling_off']);
+    expect(result.cooling_off_until).toBe(iso(NOW + 22 * HOUR));
+  });
+
+  it('enforces the per-address max_amount_wei', () => {
+    const capped = allowlist({ max_amount_wei: '100000000000000000' });
+    expect(evaluate({ amount: 0.1, allowlist: capped }).decision).toBe('allow');
+    expect(evaluate({ amount: 0.11, allowlist: capped }).reasons.map((r) => r.code)).toEqual(['address_limit_exceeded']);
+  });
+
+  it('counts pending, approved and submitted requests towards velocity', () => {
+    const result = evaluate({
+      amount: 0.3,
+      recent: [recent(1, 2), recent(0.5, 5, 'pending_approval'), recent(3, 30), recent(1, 1, 'rejected'), recent(1, 1, 'failed')],
+    });
+    expect(result.usage).toMatchObject({ daily_used: 1.5, weekly_used: 4.5 });
+    expect(result.decision).toBe('allow');
+
+    const over = evaluate({ amount: 0.45, recent: [recent(1.6, 2), recent(3, 30)] });
+    expect(over.reasons.map((r) => r.code)).toEqual(['daily_limit_exceeded', 'weekly_limit_exceeded']);
+  });
+
+  it('queues amounts above the approval threshold and anything without a policy', () => {
+    expect(evaluate({ amount: 0.6 }).reasons.map((r) => r.code)).toEqual(['approval_required']);
+    expect(evaluate({ amount: 0.6 }).decision).toBe('require_approval');
+    expect(evaluate({ policy: null }).reasons.map((r) => r.code)).toEqual(['no_policy']);
+  });
+
+  it('denies rather than queues when a hard limit also fails', () => {
+    expect(evaluate({ amount: 2.5 }).decision).toBe('deny');
+  });
+});
+
+describe('toBaseUnits', () => {
+  it('converts without float drift', () => {
+    expect(toBaseUnits(0.1, 18)).toBe(100000000000000000n);
+    expect(toBaseUnits(1.234567, 6)).toBe(1234567n);
+    expect(toBaseUnits(1e-7, 18)).toBe(100000000000n);
+  });
+});
+
+describe('storage', () => {
+  it('loads the policy, allowlist entry and last week of live requests', async () => {
+    const db = new InMemorySupabase({
+      withdrawal_policies: [policy(), policy({ id: 'user-eth', user_id: 'u1', daily_limit: '10' }), policy({ id: 'usdc', asset: 'USDC' })],
+      transfer_allowlist: [
+        { ...allowlist({ address: ADDRESS.toUpperCase().replace('0X', '0x') }), user_id: 'u1' },
+        { ...allowlist(), user_id: 'u2' },
+      ],
+      withdrawal_requests: [
+        { user_id: 'u1', asset: 'ETH', ...recent(1, 2) },
+        { user_id: 'u1', asset: 'ETH', ...recent(1, 2, 'rejected') },
+        { user_id: 'u1', asset: 'ETH', ...recent(1, 200) },
+        { user_id: 'u1', asset: 'USDC', ...recent(1, 2) },
+      ],
+    });
+    const context = await loadWithdrawalContext(db, { userId: 'u1', asset: 'ETH', toAddress: ADDRESS, chainId: 8453, now: NOW });
+    expect(context.policy?.id).toBe('user-eth');
+    expect(context.allowlist).not.toBeNull();
+    expect(context.recent).toHaveLength(1);
+  });
+
+  it('claims an approved request only once and only for its source', async () => {
+    const db = new InMemorySupabase({
+      withdrawal_requests: [{ id: 'r1', source: 'system_wallet', status: 'approved', user_id: 'u1', amount: 1 }],
+    });
+    expect(await claimApprovedWithdrawal(db, 'r1', 'execution_wallet')).toBeNull();
+    expect((await claimApprovedWithdrawal(db, 'r1', 'system_wallet'))?.id).toBe('r1');
+    expect(await claimApprovedWithdrawal(db, 'r1', 'system_wallet')).toBeNull();
+    expect(db.rows('withdrawal_requests')[0].status).toBe('processing');
+  });
+
+  it('writes audit steps with defaults', async () => {
+    const db = new InMemorySupabase({ withdrawal_audit_log: [] });
+    const error = await recordWithdrawalStep(db, {
+      status: 'blocked',
+      user_id: 'u1',
+      actor_id: 'u1',
+      source: 'execution_wallet',
+      wallet_id: 'w1',
+      asset: 'ETH',
+      amount: 1,
+      to_address: ADDRESS,
+    });
+    expect(error).toBeNull();
+    expect(db.rows('withdrawal_audit_log')[0]).toMatchObject({ status: 'blocked', request_id: null, tx_hash: null, details: {} });
+  });
+
+  it('creates requests through create_withdrawal_request and surfaces its refusals', async () => {
+    const db = new InMemorySupabase({}, {
+      rpc: {
+        create_withdrawal_request: (params) =>
+          Number(params.p_amount) > 1
+            ? { success: false, code: 'daily_limit_exceeded', message: 'Daily limit 2 reached (1.5 used)' }
+            : { success: true, request_id: 'r1', status: params.p_pending ? 'pending_approval' : 'processing' },
+      },
+    });
+    const request = {
+      userId: 'u1',
+      requestedBy: 'u1',
+      source: 'execution_wallet' as const,
+      walletId: 'w1',
+      asset: 'ETH',
+      toAddress: ADDRESS,
+      chainId: 8453,
+      rateLimitSeconds: 60,
+    };
+
+    const queued = await createWithdrawalRequest(db, { ...request, amount: 0.8, evaluation: evaluate({ amount: 0.8 }) });
+    expect(queued).toEqual({ ok: true, requestId: 'r1', status: 'pending_approval' });
+    expect(db.calls[0].params).toMatchObject({ p_user_id: 'u1', p_pending: true, p_rate_limit_seconds: 60 });
+
+    const refused = await createWithdrawalRequest(db, { ...request, amount: 1.5, evaluation: evaluate({ amount: 1.5 }) });
+    expect(refused).toEqual({ ok: false, reason: { code: 'daily_limit_exceeded', message: 'Daily limit 2 reached (1.5 used)' } });
+  });
+
+  it('re-checks an approved request without counting it against its own limits', async () => {
+    const request: WithdrawalRequestRow = {
+      id: 'r1',
+      user_id: 'u1',
+      requested_by: 'u1',
+      source: 'execution_wallet',
+      wallet_id: 'w1',
+      asset: 'ETH',
+      amount: '1.5',
+      to_address: ADDRESS,
+      chain_id: 8453,
+      status: 'processing',
+    };
+    const seed = (entries: object[]) => ({
+      withdrawal_policies: [policy()],
+      transfer_allowlist: entries,
+      withdrawal_requests: [{ ...request, created_at: iso(NOW - HOUR) }],
+    });
+
+    const approved = await recheckApprovedWithdrawal(
+      new InMemorySupabase(seed([{ ...allowlist(), user_id: 'u1' }])), request, 18, NOW,
+    );
+    expect(approved.decision).toBe('require_approval');
+    expect(approved.usage.daily_used).toBe(0);
+
+    const removed = await recheckApprovedWithdrawal(
+      new InMemorySupabase(seed([{ ...allowlist({ is_active: false }), user_id: 'u1' }])), request, 18, NOW,
+    );
+    expect(removed.decision).toBe('deny');
+    expect(removed.reasons.map((r) => r.code)).toEqual(['address_not_allowlisted']);
+  });
+});
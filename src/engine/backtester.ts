@@ -0,0 +1,658 @@
+/**
+ * Event-Driven Backtester
+ *
+ * Replays historical `market_ohlcv_raw` candles and stored `live_signals` bar by bar
+ * through the SAME building blocks the live path uses:
+ * - Signal fusion: computeFusedSignalScore (fed by a point-in-time replay client)
+ * - Exposure:      calculateExposure / canBuySymbol
+ * - Lots:          reconstructOpenLots + TP_SELECTIVE / SL_FULL_FLUSH sell builders
+ * - Gates:         buy cooldown, SL cooldown, entry spacing, max trades/day,
+ *                  anti-contradictory cooldown, max lots per symbol (coordinator parity)
+ *
+ * Execution model:
+ * - Decisions are taken on bar close; fills happen at the close price
+ *   adjusted by `slippageBps` (against the trader) and charged `feeRate` per side.
+ * - Missing required gate config is FAIL-CLOSED, exactly like the coordinator:
+ *   the BUY is blocked and the reason is counted in `blockedReasons`.
+ *
+ * Output: full equity curve, per-lot realized P&L, fees, max drawdown, Sharpe.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { computeFusedSignalScore } from './signalFusion';
+import { createReplayClient } from './replayClient';
+import { calculateExposure, canBuySymbol, type ExposureParams } from '@/utils/exposureCalculator';
+import {
+  reconstructOpenLots,
+  enrichLotsWithUnrealizedPnl,
+  calculatePooledUnrealizedPnl,
+  buildSelectiveTpSellOrders,
+  buildFullFlushSellOrders,
+  buildSellOrdersForLots,
+  type TradeRow,
+  type SellOrder,
+} from '@/utils/lotEngine';
+import { getCooldownMs } from '@/utils/symbolCooldown';
+import { DEFAULT_VALUES } from '@/utils/configDefaults';
+import { toBaseSymbol, toPairSymbol } from '@/utils/symbols';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type BacktestGranularity = '5m' | '1h' | '24h';
+
+export type BacktestExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'SIGNAL_EXIT';
+
+export interface CandleRow {
+  symbol: string;
+  granularity: string;
+  ts_utc: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number | null;
+}
+
+export interface SignalRow {
+  id: string;
+  signal_type: string;
+  source: string;
+  signal_strength: number;
+  timestamp: string;
+  symbol: string;
+}
+
+export interface BacktestData {
+  candles: CandleRow[];
+  signals: SignalRow[];
+  signalRegistry: object[];
+  strategySignalWeights: object[];
+}
+
+type ExposureConfig = ExposureParams['config'];
+
+/** trading_strategies.configuration keys the simulation reads; the rest pass through */
+export interface BacktestStrategyConfig extends ExposureConfig {
+  [key: string]: unknown;
+  enterThreshold?: number;
+  exitThreshold?: number;
+  epsilonPnLBufferPct?: number;
+  takeProfitPercentage?: number;
+  stopLossPercentage?: number;
+  minHoldPeriodMs?: number;
+  fusionHorizon?: '15m' | '1h' | '4h' | '24h';
+  maxLotsPerSymbol?: number;
+}
+
+export interface BacktestParams {
+  strategyId: string;
+  /** trading_strategies.configuration */
+  strategyConfig: BacktestStrategyConfig;
+  startDate: Date;
+  endDate: Date;
+  /** Starting capital in EUR */
+  initialCapital: number;
+  /** Fee per side as a fraction (profiles.fee_rate, e.g. 0.006 = 0.6%) */
+  feeRate?: number;
+  /** Adverse slippage applied to every fill, in basis points */
+  slippageBps?: number;
+  granularity?: BacktestGranularity;
+  /** Defaults to strategyConfig.selectedCoins */
+  symbols?: string[];
+}
+
+export interface BacktestFill {
+  id: string;
+  timestamp: string;
+  side: 'BUY' | 'SELL';
+  symbol: string;
+  amount: number;
+  price: number;
+  value: number;
+  fee: number;
+  /** BUY: entry reason; SELL: exit reason */
+  reason: string;
+  /** SELL only: the BUY lot this fill closes */
+  lotId?: string;
+}
+
+export interface BacktestLotResult {
+  lotId: string;
+  symbol: string;
+  entryDate: string;
+  exitDate: string;
+  entryPrice: number;
+  exitPrice: number;
+  amount: number;
+  /** Net of entry and exit fees (entry fee pro-rated to the closed amount) */
+  realizedPnl: number;
+  realizedPnlPct: number;
+  fees: number;
+  exitReason: BacktestExitReason;
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  cash: number;
+  exposure: number;
+  drawdownPct: number;
+}
+
+export interface BacktestResult {
+  startDate: string;
+  endDate: string;
+  granularity: BacktestGranularity;
+  initialCapital: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalFees: number;
+  maxDrawdownPct: number;
+  sharpeRatio: number;
+  totalLots: number;
+  winningLots: number;
+  losingLots: number;
+  winRate: number;
+  barsProcessed: number;
+  signalsLoaded: number;
+  equityCurve: EquityPoint[];
+  lots: BacktestLotResult[];
+  fills: BacktestFill[];
+  /** Count of BUY opportunities blocked per gate reason */
+  blockedReasons: Record<string, number>;
+}
+
+// ============================================================
+// Metrics
+// ============================================================
+
+const GRANULARITY_MS: Record<BacktestGranularity, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+/** Maximum peak-to-trough decline of an equity series, in percent (positive number) */
+export function computeMaxDrawdownPct(equity: number[]): number {
+  let peak = -Infinity;
+  let maxDd = 0;
+  for (const value of equity) {
+    if (value > peak) peak = value;
+    if (peak > 0) {
+      const dd = ((peak - value) / peak) * 100;
+      if (dd > maxDd) maxDd = dd;
+    }
+  }
+  return Math.round(maxDd * 100) / 100;
+}
+
+/**
+ * Annualized Sharpe ratio of per-period simple returns (risk-free rate = 0).
+ * Returns 0 when there is no variance (flat equity) or fewer than 2 returns.
+ */
+export function computeSharpeRatio(returns: number[], periodsPerYear: number): number {
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  if (std === 0) return 0;
+  return Math.round((mean / std) * Math.sqrt(periodsPerYear) * 100) / 100;
+}
+
+/** Simple per-period returns of an equity series */
+export function toPeriodReturns(equity: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) returns.push(equity[i] / equity[i - 1] - 1);
+  }
+  return returns;
+}
+
+// ============================================================
+// Simulation
+// ============================================================
+
+interface LotMeta {
+  entryFee: number;
+  amount: number;
+}
+
+/** Read a required gate config key; undefined/null → fail-closed reason */
+function requireConfig(cfg: BacktestStrategyConfig, key: string): { value?: number; missing?: string } {
+  const value = cfg[key];
+  if (value === undefined || value === null) return { missing: `blocked_missing_config:${key}` };
+  return { value: Number(value) };
+}
+
+function normalizeThreshold(raw: number): number {
+  // Backward compat: old 0-1 scale → 0-100 (same rule as the intelligent engine)
+  return raw <= 1 ? raw * 100 : raw;
+}
+
+/**
+ * Run the simulation over preloaded data. Pure apart from the (in-memory) fusion calls,
+ * so it can be driven from tests or from runBacktest().
+ */
+export async function simulateBacktest(params: BacktestParams, data: BacktestData): Promise<BacktestResult> {
+  const cfg = params.strategyConfig || {};
+  const granularity = params.granularity ?? '1h';
+  const feeRate = params.feeRate ?? 0;
+  const slippage = (params.slippageBps ?? 0) / 10000;
+  const startMs = params.startDate.getTime();
+  const endMs = params.endDate.getTime();
+
+  if (!(params.initialCapital > 0)) {
+    throw new Error('Backtest requires a positive initial capital');
+  }
+  if (endMs <= startMs) {
+    throw new Error('Backtest end date must be after start date');
+  }
+
+  const symbols = (params.symbols ?? cfg.selectedCoins ?? []).map(s => toBaseSymbol(s));
+  if (symbols.length === 0) {
+    throw new Error('Backtest requires at least one symbol (strategy selectedCoins is empty)');
+  }
+
+  // Thresholds on the 0-100 fusedScore scale
+  const enterThreshold = normalizeThreshold(cfg.enterThreshold ?? DEFAULT_VALUES.ENTER_THRESHOLD);
+  const exitThreshold = normalizeThreshold(cfg.exitThreshold ?? DEFAULT_VALUES.EXIT_THRESHOLD);
+  const epsilonPct = cfg.epsilonPnLBufferPct ?? DEFAULT_VALUES.EPSILON_PNL_BUFFER_PCT;
+  const tpPct = Number(cfg.takeProfitPercentage) || 0;
+  const slPct = Number(cfg.stopLossPercentage) || 0;
+  const minHoldMs = cfg.minHoldPeriodMs ?? DEFAULT_VALUES.MIN_HOLD_PERIOD_MS;
+  const horizon = cfg.fusionHorizon ?? '1h';
+  const buyCooldownMs = getCooldownMs(cfg, 'buy');
+
+  // Candles grouped by bar timestamp (only configured symbols, within range)
+  const barsByTs = new Map<number, Map<string, CandleRow>>();
+  for (const candle of data.candles) {
+    const ts = new Date(candle.ts_utc).getTime();
+    if (ts < startMs || ts > endMs) continue;
+    const base = toBaseSymbol(candle.symbol);
+    if (!symbols.includes(base)) continue;
+    if (!barsByTs.has(ts)) barsByTs.set(ts, new Map());
+    barsByTs.get(ts)!.set(base, candle);
+  }
+  const timeline = [...barsByTs.keys()].sort((a, b) => a - b);
+
+  const replay = createReplayClient(
+    {
+      live_signals: { rows: data.signals, timeColumn: 'timestamp' },
+      signal_registry: { rows: data.signalRegistry },
+      strategy_signal_weights: { rows: data.strategySignalWeights },
+    },
+    new Date(startMs),
+  );
+
+  // Simulation state
+  let cash = params.initialCapital;
+  let totalFees = 0;
+  let fillSeq = 0;
+  const trades: TradeRow[] = [];
+  const lotMeta = new Map<string, LotMeta>();
+  const lastPrice = new Map<string, number>();
+  const lastBuyAt = new Map<string, number>();
+  const lastSellAt = new Map<string, number>();
+  const lastStopLossAt = new Map<string, number>();
+  const buyTimes: number[] = [];
+  const fills: BacktestFill[] = [];
+  const lots: BacktestLotResult[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const blockedReasons: Record<string, number> = {};
+  let peakEquity = params.initialCapital;
+
+  const block = (reason: string) => {
+    blockedReasons[reason] = (blockedReasons[reason] || 0) + 1;
+  };
+
+  const nextId = (prefix: string) => `${prefix}-${++fillSeq}`;
+
+  const executeSells = (orders: SellOrder[], price: number, ts: number, reason: BacktestExitReason) => {
+    const fillPrice = price * (1 - slippage);
+    const iso = new Date(ts).toISOString();
+    for (const order of orders) {
+      const value = order.amount * fillPrice;
+      const fee = value * feeRate;
+      const id = nextId('sell');
+      cash += value - fee;
+      totalFees += fee;
+
+      trades.push({
+        id,
+        user_id: 'backtest',
+        strategy_id: params.strategyId,
+        trade_type: 'sell',
+        cryptocurrency: order.cryptocurrency,
+        amount: order.amount,
+        price: fillPrice,
+        total_value: value,
+        executed_at: iso,
+        original_trade_id: order.lotId,
+      });
+      fills.push({ id, timestamp: iso, side: 'SELL', symbol: order.cryptocurrency, amount: order.amount, price: fillPrice, value, fee, reason, lotId: order.lotId });
+
+      const meta = lotMeta.get(order.lotId);
+      const entryFee = meta ? meta.entryFee * (order.amount / meta.amount) : 0;
+      const lotFees = entryFee + fee;
+      const realizedPnl = value - order.entryValue - lotFees;
+      const entryTrade = trades.find(t => t.id === order.lotId);
+      lots.push({
+        lotId: order.lotId,
+        symbol: order.cryptocurrency,
+        entryDate: entryTrade?.executed_at ?? iso,
+        exitDate: iso,
+        entryPrice: order.entryPrice,
+        exitPrice: fillPrice,
+        amount: order.amount,
+        realizedPnl: Math.round(realizedPnl * 100) / 100,
+        realizedPnlPct: order.entryValue > 0 ? Math.round((realizedPnl / order.entryValue) * 10000) / 100 : 0,
+        fees: Math.round(lotFees * 100) / 100,
+        exitReason: reason,
+      });
+    }
+    if (orders.length > 0) {
+      lastSellAt.set(toBaseSymbol(orders[0].cryptocurrency), ts);
+    }
+  };
+
+  const markToMarket = () => {
+    const open = reconstructOpenLots(trades);
+    let exposure = 0;
+    for (const lot of open) {
+      exposure += lot.remainingAmount * (lastPrice.get(lot.symbol) ?? lot.entryPrice);
+    }
+    return { open, exposure, equity: cash + exposure };
+  };
+
+  /** Evaluate coordinator BUY gates in the same order as detectConflicts(); returns block reason or null */
+  const checkBuyGates = (symbol: string, ts: number, equity: number): string | null => {
+    const open = reconstructOpenLots(trades);
+
+    // Per-symbol buy cooldown (intelligent engine)
+    const lastBuy = lastBuyAt.get(symbol);
+    if (lastBuy !== undefined && ts - lastBuy < buyCooldownMs) return 'blocked_by_cooldown';
+
+    // Phase 5 exposure (shared calculator)
+    const perTradeAllocation = cfg.perTradeAllocation;
+    if (perTradeAllocation === undefined || perTradeAllocation === null) {
+      return 'blocked_missing_config:perTradeAllocation';
+    }
+    const positions = open.map(lot => ({
+      cryptocurrency: lot.symbol,
+      remaining_amount: lot.remainingAmount,
+      average_price: lot.entryPrice,
+      total_value: lot.remainingValue,
+    }));
+    const marketData: Record<string, { price: number }> = {};
+    lastPrice.forEach((price, sym) => {
+      marketData[toPairSymbol(sym)] = { price };
+    });
+    const exposure = calculateExposure({
+      positions,
+      marketData,
+      config: { ...cfg, walletValueEUR: equity },
+    });
+    const exposureCheck = canBuySymbol(symbol, exposure, perTradeAllocation);
+    if (!exposureCheck.allowed) return exposureCheck.reason;
+
+    // Gate 1: stop-loss cooldown
+    const slCooldown = requireConfig(cfg, 'stopLossCooldownMs');
+    if (slCooldown.missing) return slCooldown.missing;
+    const lastSl = lastStopLossAt.get(symbol);
+    if (lastSl !== undefined && ts - lastSl < slCooldown.value!) return 'blocked_by_stop_loss_cooldown';
+
+    // Gate 4: minimum entry spacing
+    const spacing = requireConfig(cfg, 'minEntrySpacingMs');
+    if (spacing.missing) return spacing.missing;
+    if (lastBuy !== undefined && ts - lastBuy < spacing.value!) return 'blocked_by_entry_spacing';
+
+    // Gate 4b: max trades per day (rolling 24h)
+    const maxPerDay = requireConfig(cfg, 'maxTradesPerDay');
+    if (maxPerDay.missing) return `${maxPerDay.missing}:not_set`;
+    const buysLast24h = buyTimes.filter(t => ts - t < 86_400_000).length;
+    if (buysLast24h >= maxPerDay.value!) return 'blocked_max_trades_per_day_reached';
+
+    // Gate 6: anti-contradictory buy-during-unwind
+    const antiContra = requireConfig(cfg, 'antiContradictoryCooldownMs');
+    if (antiContra.missing) return antiContra.missing;
+    const lastSell = lastSellAt.get(symbol);
+    if (lastSell !== undefined && ts - lastSell < antiContra.value!) return 'blocked_buy_during_unwind';
+
+    // Gate 5b: max lots per symbol
+    const maxLots = cfg.maxLotsPerSymbol ?? 1;
+    if (open.filter(l => l.symbol === symbol).length >= maxLots) return 'max_lots_per_symbol_reached';
+
+    // Cash (b4 capital cap equivalent)
+    if (Number(perTradeAllocation) * (1 + feeRate) > cash) return 'blocked_insufficient_cash';
+
+    return null;
+  };
+
+  for (const ts of timeline) {
+    const bar = barsByTs.get(ts)!;
+    const barDate = new Date(ts);
+    replay.setClock(barDate);
+
+    for (const [symbol, candle] of bar) {
+      lastPrice.set(symbol, Number(candle.close));
+    }
+
+    for (const [symbol, candle] of bar) {
+      const price = Number(candle.close);
+      const fusion = await computeFusedSignalScore({
+        supabaseClient: replay,
+        userId: 'backtest',
+        strategyId: params.strategyId,
+        symbol,
+        side: 'BUY',
+        horizon,
+        now: barDate,
+      });
+
+      // ---- Exits first (SL full flush → TP selective → fusion exit) ----
+      const symbolLots = reconstructOpenLots(trades, symbol);
+      if (symbolLots.length > 0) {
+        const pooled = calculatePooledUnrealizedPnl(symbolLots, price);
+        if (slPct > 0 && pooled.unrealizedPnlPct <= -(Math.abs(slPct) + epsilonPct)) {
+          executeSells(buildFullFlushSellOrders(symbolLots), price, ts, 'STOP_LOSS');
+          lastStopLossAt.set(symbol, ts);
+        } else {
+          const tpOrders = tpPct > 0
+            ? buildSelectiveTpSellOrders(
+                enrichLotsWithUnrealizedPnl(symbolLots, price, ts),
+                Math.abs(tpPct) + epsilonPct,
+                minHoldMs,
+              )
+            : [];
+          if (tpOrders.length > 0) {
+            executeSells(tpOrders, price, ts, 'TAKE_PROFIT');
+          } else if (fusion.fusedScore <= -exitThreshold) {
+            const total = symbolLots.reduce((acc, l) => acc + l.remainingAmount, 0);
+            executeSells(buildSellOrdersForLots(symbolLots, total, price), price, ts, 'SIGNAL_EXIT');
+          }
+        }
+      }
+
+      // ---- Entry ----
+      if (fusion.fusedScore < enterThreshold) continue;
+
+      const { equity } = markToMarket();
+      const blocked = checkBuyGates(symbol, ts, equity);
+      if (blocked) {
+        block(blocked);
+        continue;
+      }
+
+      const allocation = Number(cfg.perTradeAllocation);
+      const fillPrice = price * (1 + slippage);
+      const amount = allocation / fillPrice;
+      const fee = allocation * feeRate;
+      const id = nextId('buy');
+      cash -= allocation + fee;
+      totalFees += fee;
+      lotMeta.set(id, { entryFee: fee, amount });
+      lastBuyAt.set(symbol, ts);
+      buyTimes.push(ts);
+
+      const iso = barDate.toISOString();
+      trades.push({
+        id,
+        user_id: 'backtest',
+        strategy_id: params.strategyId,
+        trade_type: 'buy',
+        cryptocurrency: symbol,
+        amount,
+        price: fillPrice,
+        total_value: allocation,
+        executed_at: iso,
+      });
+      fills.push({
+        id,
+        timestamp: iso,
+        side: 'BUY',
+        symbol,
+        amount,
+        price: fillPrice,
+        value: allocation,
+        fee,
+        reason: `fusion_signal_strong (score=${fusion.fusedScore.toFixed(2)} >= ${enterThreshold})`,
+      });
+    }
+
+    const { equity, exposure } = markToMarket();
+    if (equity > peakEquity) peakEquity = equity;
+    equityCurve.push({
+      timestamp: barDate.toISOString(),
+      equity: Math.round(equity * 100) / 100,
+      cash: Math.round(cash * 100) / 100,
+      exposure: Math.round(exposure * 100) / 100,
+      drawdownPct: peakEquity > 0 ? Math.round(((peakEquity - equity) / peakEquity) * 10000) / 100 : 0,
+    });
+  }
+
+  // Mark remaining lots (not sold) — report as unrealized, not as closed lots
+  const { open, equity: finalEquity } = markToMarket();
+  let unrealizedPnl = 0;
+  for (const lot of open) {
+    const px = lastPrice.get(lot.symbol) ?? lot.entryPrice;
+    unrealizedPnl += lot.remainingAmount * (px - lot.entryPrice);
+  }
+
+  const equitySeries = equityCurve.map(p => p.equity);
+  const realizedPnl = lots.reduce((acc, l) => acc + l.realizedPnl, 0);
+  const winningLots = lots.filter(l => l.realizedPnl > 0).length;
+
+  return {
+    startDate: params.startDate.toISOString(),
+    endDate: params.endDate.toISOString(),
+    granularity,
+    initialCapital: params.initialCapital,
+    finalEquity: Math.round(finalEquity * 100) / 100,
+    totalReturnPct: Math.round(((finalEquity - params.initialCapital) / params.initialCapital) * 10000) / 100,
+    realizedPnl: Math.round(realizedPnl * 100) / 100,
+    unrealizedPnl: Math.round(unrealizedPnl * 100) / 100,
+    totalFees: Math.round(totalFees * 100) / 100,
+    maxDrawdownPct: computeMaxDrawdownPct([params.initialCapital, ...equitySeries]),
+    sharpeRatio: computeSharpeRatio(
+      toPeriodReturns([params.initialCapital, ...equitySeries]),
+      MS_PER_YEAR / GRANULARITY_MS[granularity],
+    ),
+    totalLots: lots.length,
+    winningLots,
+    losingLots: lots.length - winningLots,
+    winRate: lots.length > 0 ? Math.round((winningLots / lots.length) * 10000) / 100 : 0,
+    barsProcessed: timeline.length,
+    signalsLoaded: data.signals.length,
+    equityCurve,
+    lots,
+    fills,
+    blockedReasons,
+  };
+}
+
+// ============================================================
+// Data loading
+// ============================================================
+
+const PAGE_SIZE = 1000;
+
+interface PagedQuery {
+  range(from: number, to: number): PromiseLike<{ data: unknown[] | null; error: Error | null }>;
+}
+
+/** Page through a query (PostgREST caps responses at 1000 rows) */
+async function fetchAllPages<T>(buildQuery: () => PagedQuery): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Load everything a backtest needs for the requested window.
+ * Signals are loaded with an extra lookback equal to the widest fusion window
+ * so the first bars see the same signal history the live engine would.
+ */
+export async function loadBacktestData(supabaseClient: SupabaseClient, params: BacktestParams): Promise<BacktestData> {
+  const cfg = params.strategyConfig || {};
+  const granularity = params.granularity ?? '1h';
+  const symbols = (params.symbols ?? cfg.selectedCoins ?? []).map(s => toBaseSymbol(s));
+  const pairs = symbols.map(s => toPairSymbol(s));
+  const startIso = params.startDate.toISOString();
+  const endIso = params.endDate.toISOString();
+  const signalsStartIso = new Date(params.startDate.getTime() - 48 * 60 * 60 * 1000).toISOString();
+
+  const [candles, signals, registryResult, weightsResult] = await Promise.all([
+    fetchAllPages<CandleRow>(() =>
+      supabaseClient
+        .from('market_ohlcv_raw')
+        .select('symbol, granularity, ts_utc, open, high, low, close, volume')
+        .in('symbol', pairs)
+        .eq('granularity', granularity)
+        .gte('ts_utc', startIso)
+        .lte('ts_utc', endIso)
+        .order('ts_utc', { ascending: true }),
+    ),
+    fetchAllPages<SignalRow>(() =>
+      supabaseClient
+        .from('live_signals')
+        .select('id, signal_type, source, signal_strength, timestamp, symbol')
+        .in('symbol', [...symbols, ...pairs, 'ALL'])
+        .gte('timestamp', signalsStartIso)
+        .lte('timestamp', endIso)
+        .order('timestamp', { ascending: true }),
+    ),
+    supabaseClient.from('signal_registry').select('*'),
+    supabaseClient.from('strategy_signal_weights').select('*').eq('strategy_id', params.strategyId),
+  ]);
+
+  if (registryResult.error) throw registryResult.error;
+  // Defaults instead of the strategy's weights would silently change the fusion scores
+  if (weightsResult.error) throw weightsResult.error;
+
+  return {
+    candles,
+    signals,
+    signalRegistry: registryResult.data || [],
+    strategySignalWeights: weightsResult.data || [],
+  };
+}
+
+/** Load history and run the simulation */
+export async function runBacktest(supabaseClient: SupabaseClient, params: BacktestParams): Promise<BacktestResult> {
+  const data = await loadBacktestData(supabaseClient, params);
+  if (data.candles.length === 0) {
+    throw new Error(`No ${params.granularity ?? '1h'} candles in market_ohlcv_raw for the selected range`);
+  }
+  return simulateBacktest(params, data);
+}
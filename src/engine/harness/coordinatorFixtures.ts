@@ -0,0 +1,149 @@
+/**
+ * Coordinator Fixtures
+ *
+ * Turns a compact scenario description (strategy config, cash, prices, open
+ * lots) into the seed tables and price script the coordinator harness runs on.
+ *
+ * Defaults are deliberately permissive: every fail-closed config key the
+ * coordinator requires is present, so a test only spells out the knob it is
+ * exercising. Anything not described here starts as an empty table.
+ */
+
+type Row = Record<string, unknown>;
+
+export const HARNESS_USER_ID = '11111111-1111-4111-8111-111111111111';
+export const HARNESS_STRATEGY_ID = '22222222-2222-4222-8222-222222222222';
+
+/**
+ * Strategy configuration that passes every coordinator gate for a small BUY.
+ * Keys mirror the fail-closed reads in detectConflicts / executeTradeDirectly.
+ */
+export const PERMISSIVE_STRATEGY_CONFIG: Row = {
+  is_test_mode: true,
+  selectedCoins: ['BTC', 'ETH', 'SOL'],
+  maxActiveCoins: 3,
+  maxWalletExposure: 100,
+  perTradeAllocation: 100,
+  takeProfitPercentage: 2,
+  stopLossPercentage: 2,
+  aiConfidenceThreshold: 50,
+  confidenceOverrideThreshold: 0.7,
+  stopLossCooldownMs: 0,
+  minTrendScoreForBuy: 0,
+  minMomentumScoreForBuy: 0,
+  maxVolatilityScoreForBuy: 1,
+  minEntrySpacingMs: 0,
+  maxTradesPerDay: 100,
+  antiContradictoryCooldownMs: 0,
+  priceStaleMaxMs: 60_000,
+  spreadThresholdBps: 100,
+  minHoldPeriodMs: 0,
+  cooldownBetweenOppositeActionsMs: 0,
+  unifiedConfig: {
+    enableUnifiedDecisions: false,
+    minHoldPeriodMs: 0,
+    cooldownBetweenOppositeActionsMs: 0,
+    confidenceOverrideThreshold: 0.7,
+  },
+};
+
+export interface FixtureLot {
+  symbol: string;
+  amount: number;
+  price: number;
+  executedAt: string;
+  id?: string;
+}
+
+export interface FixturePrice {
+  price: number;
+  bid?: number;
+  ask?: number;
+}
+
+export interface CoordinatorFixture {
+  userId?: string;
+  strategyId?: string;
+  /** Merged over PERMISSIVE_STRATEGY_CONFIG */
+  config?: Row;
+  /** Extra trading_strategies columns (state, execution_target, panic_active, ...) */
+  strategy?: Row;
+  /** TEST portfolio cash; omit to leave portfolio_capital uninitialized */
+  cashEur?: number;
+  /** Base symbol → Coinbase ticker the harness serves */
+  prices?: Record<string, number | FixturePrice>;
+  /** Open TEST BUY lots for the fixture strategy */
+  lots?: FixtureLot[];
+  /** Raw rows for any other table, appended after the derived ones */
+  tables?: Record<string, Row[]>;
+}
+
+export interface LoadedFixture {
+  userId: string;
+  strategyId: string;
+  tables: Record<string, Row[]>;
+  prices: Record<string, FixturePrice>;
+}
+
+export function loadCoordinatorFixture(fixture: CoordinatorFixture, now: Date = new Date()): LoadedFixture {
+  const userId = fixture.userId ?? HARNESS_USER_ID;
+  const strategyId = fixture.strategyId ?? HARNESS_STRATEGY_ID;
+  const config = { ...PERMISSIVE_STRATEGY_CONFIG, ...(fixture.config ?? {}) };
+  const isTestMode = config.is_test_mode !== false;
+
+  const prices: Record<string, FixturePrice> = {};
+  for (const [symbol, p] of Object.entries(fixture.prices ?? {})) {
+    prices[symbol.toUpperCase()] = typeof p === 'number' ? { price: p } : p;
+  }
+
+  const tables: Record<string, Row[]> = {
+    trading_strategies: [{
+      id: strategyId,
+      user_id: userId,
+      strategy_name: 'Harness strategy',
+      state: 'ACTIVE',
+      execution_target: isTestMode ? 'MOCK' : 'REAL',
+      on_disable_policy: null,
+      liquidation_batch_id: null,
+      panic_active: false,
+      is_active: true,
+      test_mode: isTestMode,
+      unified_config: config.unifiedConfig,
+      configuration: config,
+      ...(fixture.strategy ?? {}),
+    }],
+    portfolio_capital: fixture.cashEur === undefined ? [] : [{
+      user_id: userId,
+      is_test_mode: true,
+      starting_capital_eur: fixture.cashEur,
+      cash_balance_eur: fixture.cashEur,
+      reserved_eur: 0,
+    }],
+    price_snapshots: Object.entries(prices).flatMap(([symbol, p]) => [
+      { symbol, price: p.price, ts: now.toISOString() },
+      { symbol: `${symbol}-EUR`, price: p.price, ts: now.toISOString() },
+    ]),
+    mock_trades: (fixture.lots ?? []).map((lot) => ({
+      ...(lot.id ? { id: lot.id } : {}),
+      user_id: userId,
+      strategy_id: strategyId,
+      trade_type: 'buy',
+      cryptocurrency: lot.symbol,
+      amount: lot.amount,
+      price: lot.price,
+      total_value: lot.amount * lot.price,
+      executed_at: lot.executedAt,
+      is_test_mode: true,
+      is_corrupted: false,
+      is_open_position: true,
+      execution_confirmed: true,
+      execution_source: 'mock_engine',
+    })),
+  };
+
+  for (const [table, rows] of Object.entries(fixture.tables ?? {})) {
+    tables[table] = [...(tables[table] ?? []), ...rows];
+  }
+
+  return { userId, strategyId, tables, prices };
+}
@@ -0,0 +1,362 @@
+/**
+ * Coordinator Harness
+ *
+ * Runs the real trading-decision-coordinator entry point in-process against an
+ * InMemorySupabase seeded from a fixture, with:
+ * - `Deno.env` and std `serve` stubbed (the captured handler is called directly)
+ * - `createClient` returning the in-memory database
+ * - Coinbase ticker requests answered from the scripted prices
+ * - other edge functions (`/functions/v1/<name>`) routed to registered handlers
+ * - `Date` frozen at the fixture clock and moved only by `advance()`
+ *
+ * Each harness imports a fresh copy of the coordinator, so module-level caches
+ * (idempotency, symbol queues, metrics) never leak between tests.
+ *
+ * The Postgres RPCs the coordinator depends on are emulated below with the same
+ * semantics as their SQL definitions (cash settlement, execution locks, open
+ * lots, portfolio metrics). Register an override with `db.registerRpc` to
+ * script failures.
+ */
+
+import { vi } from 'vitest';
+import {
+  createInMemorySupabase,
+  type FunctionHandler,
+  type InMemorySupabase,
+  type RpcHandler,
+} from './inMemorySupabase';
+import {
+  loadCoordinatorFixture,
+  type CoordinatorFixture,
+  type FixturePrice,
+} from './coordinatorFixtures';
+
+type Row = Record<string, unknown>;
+
+// Relative to this file; kept out of the static import graph because the
+// coordinator is Deno code (URL imports, Deno globals) that tsc cannot follow.
+const COORDINATOR_ENTRY = '../../../supabase/functions/trading-decision-coordinator/index.ts';
+const SUPABASE_JS_URL = 'https://esm.sh/@supabase/supabase-js@2';
+const DENO_SERVE_URL = 'https://deno.land/std@0.168.0/http/server.ts';
+
+const HARNESS_PROJECT_URL = 'http://coordinator-harness.local';
+const HARNESS_SERVICE_ROLE = 'harness-service-role';
+const COINBASE_TICKER = /^https:\/\/api\.exchange\.coinbase\.com\/products\/([A-Z0-9]+)-EUR\/ticker$/;
+const FUNCTIONS_PATH = `${HARNESS_PROJECT_URL}/functions/v1/`;
+
+export interface CoordinatorResponse {
+  status: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+}
+
+export interface HarnessIntent {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  source?: 'intelligent' | 'manual';
+  confidence?: number;
+  reason?: string;
+  qtySuggested?: number;
+  metadata?: Row;
+  idempotencyKey?: string;
+  userId?: string;
+  strategyId?: string;
+}
+
+export interface CoordinatorHarnessOptions {
+  /** Fixture clock; Date is frozen here until advance() */
+  now?: Date;
+  /** Extra Deno.env values (SUPABASE_URL / service role are always set) */
+  env?: Record<string, string>;
+  /** Edge functions reachable via fetch or supabase.functions.invoke */
+  functions?: Record<string, FunctionHandler>;
+  rpc?: Record<string, RpcHandler>;
+}
+
+export interface CoordinatorHarness {
+  db: InMemorySupabase;
+  userId: string;
+  strategyId: string;
+  /** Send one intent (userId/strategyId/ts/idempotencyKey filled in) */
+  send: (intent: HarnessIntent) => Promise<CoordinatorResponse>;
+  /** Send a raw request body */
+  request: (body: unknown) => Promise<CoordinatorResponse>;
+  setPrice: (symbol: string, price: number | FixturePrice) => void;
+  advance: (ms: number) => void;
+  decisionEvents: () => Row[];
+  ledger: () => Row[];
+  /** TEST (default) or REAL cash_balance_eur, null when not initialized */
+  cash: (isTestMode?: boolean) => number | null;
+  /** Outbound HTTP the coordinator attempted that no handler answered */
+  unhandledRequests: { url: string; body: unknown }[];
+  dispose: () => void;
+}
+
+// =============================================================================
+// RPC emulation
+// =============================================================================
+
+function capitalRow(db: InMemorySupabase, userId: unknown, isTestMode: unknown): Row | undefined {
+  return db.rows('portfolio_capital').find(
+    (r) => r.user_id === userId && r.is_test_mode === (isTestMode !== false),
+  );
+}
+
+/**
+ * Open lots per BUY: amount minus SELLs targeted at it (original_trade_id);
+ * untargeted SELLs consume the remaining lots FIFO.
+ */
+function openLots(db: InMemorySupabase, params: Row): Row[] {
+  const trades = db.rows('mock_trades').filter((t) =>
+    t.user_id === params.p_user_id &&
+    t.strategy_id === params.p_strategy_id &&
+    t.is_test_mode === params.p_is_test_mode &&
+    t.is_corrupted !== true,
+  );
+  const symbolOf = (t: Row) => String(t.cryptocurrency).replace('-EUR', '');
+  const buys = trades
+    .filter((t) => t.trade_type === 'buy')
+    .sort((a, b) => String(a.executed_at).localeCompare(String(b.executed_at)));
+  const remaining = new Map(buys.map((b) => [b.id, Number(b.amount)]));
+
+  const sells = trades
+    .filter((t) => t.trade_type === 'sell')
+    .sort((a, b) => String(a.executed_at).localeCompare(String(b.executed_at)));
+  for (const sell of sells) {
+    let qty = Number(sell.original_purchase_amount ?? sell.amount);
+    const targeted = sell.original_trade_id ? buys.filter((b) => b.id === sell.original_trade_id) : [];
+    const pool = targeted.length > 0 ? targeted : buys.filter((b) => symbolOf(b) === symbolOf(sell));
+    for (const buy of pool) {
+      if (qty <= 0) break;
+      const left = remaining.get(buy.id)!;
+      const used = Math.min(left, qty);
+      remaining.set(buy.id, left - used);
+      qty -= used;
+    }
+  }
+
+  return buys
+    .filter((b) => remaining.get(b.id)! > 1e-12)
+    .filter((b) => !params.p_symbol || symbolOf(b) === String(params.p_symbol).replace('-EUR', ''))
+    .map((b) => ({
+      id: b.id,
+      symbol: symbolOf(b),
+      entry_price: Number(b.price),
+      original_amount: Number(b.amount),
+      remaining_amount: remaining.get(b.id)!,
+      original_value_eur: Number(b.total_value ?? Number(b.amount) * Number(b.price)),
+      executed_at: b.executed_at,
+      tx_hash: b.tx_hash ?? null,
+      flag_open: b.is_open_position !== false,
+    }));
+}
+
+function coordinatorRpcs(prices: Record<string, FixturePrice>): Record<string, RpcHandler> {
+  return {
+    settle_buy_trade: (p, db) => {
+      const row = capitalRow(db, p.p_user_id, p.p_is_test_mode);
+      if (!row) return { success: false, reason: 'portfolio_not_initialized' };
+      const cash = Number(row.cash_balance_eur);
+      const spent = Number(p.p_actual_spent);
+      if (cash < spent) {
+        return { success: false, reason: 'insufficient_cash', cash_balance: cash, actual_spent: spent };
+      }
+      const released = Math.min(Number(row.reserved_eur ?? 0), Number(p.p_reserved_amount ?? 0));
+      db.updateRows('portfolio_capital', (r) => r === row, {
+        cash_balance_eur: cash - spent,
+        reserved_eur: Number(row.reserved_eur ?? 0) - released,
+      });
+      return { success: true, cash_before: cash, actual_spent: spent, reserved_released: released, cash_after: cash - spent };
+    },
+    settle_sell_trade: (p, db) => {
+      const row = capitalRow(db, p.p_user_id, p.p_is_test_mode);
+      if (!row) return { success: false, reason: 'portfolio_not_initialized' };
+      const cash = Number(row.cash_balance_eur);
+      const proceeds = Number(p.p_proceeds);
+      db.updateRows('portfolio_capital', (r) => r === row, { cash_balance_eur: cash + proceeds });
+      return { success: true, cash_before: cash, proceeds, cash_after: cash + proceeds };
+    },
+    acquire_execution_lock: (p, db) => {
+      const now = new Date().toISOString();
+      db.deleteRows('execution_locks', (r) => r.lock_key === p.p_lock_key && String(r.expires_at) < now);
+      if (db.rows('execution_locks').some((r) => r.lock_key === p.p_lock_key)) return false;
+      db.insertRows('execution_locks', [{
+        lock_key: p.p_lock_key,
+        user_id: p.p_user_id,
+        strategy_id: p.p_strategy_id,
+        symbol: p.p_symbol,
+        request_id: p.p_request_id,
+        expires_at: new Date(Date.now() + Number(p.p_ttl_seconds ?? 30) * 1000).toISOString(),
+      }]);
+      return true;
+    },
+    release_execution_lock: (p, db) => db.deleteRows('execution_locks', (r) => r.lock_key === p.p_lock_key).length > 0,
+    get_open_lots_authoritative: (p, db) => openLots(db, p),
+    get_portfolio_metrics: (p, db) => {
+      const row = capitalRow(db, p.p_user_id, p.p_is_test_mode);
+      if (!row) return { success: false, reason: 'portfolio_not_initialized', cash_balance_eur: 0, total_portfolio_value_eur: 0 };
+      const lots = db.rows('trading_strategies')
+        .filter((s) => s.user_id === p.p_user_id)
+        .flatMap((s) => openLots(db, { p_user_id: p.p_user_id, p_strategy_id: s.id, p_is_test_mode: p.p_is_test_mode !== false }));
+      const invested = lots.reduce((sum, l) => sum + Number(l.remaining_amount) * Number(l.entry_price), 0);
+      const positionValue = lots.reduce(
+        (sum, l) => sum + Number(l.remaining_amount) * (prices[String(l.symbol)]?.price ?? Number(l.entry_price)),
+        0,
+      );
+      const cash = Number(row.cash_balance_eur);
+      const reserved = Number(row.reserved_eur ?? 0);
+      return {
+        success: true,
+        starting_capital_eur: Number(row.starting_capital_eur ?? cash),
+        cash_balance_eur: cash,
+        reserved_eur: reserved,
+        available_eur: cash - reserved,
+        invested_cost_basis_eur: invested,
+        current_position_value_eur: positionValue,
+        unrealized_pnl_eur: positionValue - invested,
+        total_portfolio_value_eur: cash + positionValue,
+      };
+    },
+    check_live_trading_prerequisites: () => ({ ok: false, checks: {}, panic_active: false, wallet_chain_id: null }),
+  };
+}
+
+// =============================================================================
+// Harness
+// =============================================================================
+
+export async function createCoordinatorHarness(
+  fixture: CoordinatorFixture,
+  options: CoordinatorHarnessOptions = {},
+): Promise<CoordinatorHarness> {
+  const now = options.now ?? new Date('2026-01-05T12:00:00.000Z');
+  vi.useFakeTimers({ now, toFake: ['Date'] });
+
+  const loaded = loadCoordinatorFixture(fixture, now);
+  const prices = loaded.prices;
+  const functionHandlers = { ...(options.functions ?? {}) };
+  const db = createInMemorySupabase(loaded.tables, {
+    defaults: {
+      mock_trades: { is_corrupted: false, execution_confirmed: true },
+    },
+    rpc: { ...coordinatorRpcs(prices), ...(options.rpc ?? {}) },
+    functions: functionHandlers,
+  });
+
+  const env: Record<string, string> = {
+    SUPABASE_URL: HARNESS_PROJECT_URL,
+    SUPABASE_SERVICE_ROLE_KEY: HARNESS_SERVICE_ROLE,
+    ...(options.env ?? {}),
+  };
+  const unhandledRequests: { url: string; body: unknown }[] = [];
+
+  const globals = globalThis as unknown as { Deno?: unknown; fetch: typeof fetch };
+  const previousDeno = globals.Deno;
+  const previousFetch = globals.fetch;
+
+  globals.Deno = { env: { get: (key: string) => env[key] } };
+  globals.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : init?.body;
+
+    const ticker = url.match(COINBASE_TICKER);
+    if (ticker) {
+      const p = prices[ticker[1]];
+      if (!p) return new Response(JSON.stringify({ message: 'NotFound' }), { status: 404 });
+      return new Response(JSON.stringify({
+        price: String(p.price),
+        bid: String(p.bid ?? p.price),
+        ask: String(p.ask ?? p.price),
+      }), { status: 200 });
+    }
+
+    if (url.startsWith(FUNCTIONS_PATH)) {
+      const name = url.slice(FUNCTIONS_PATH.length).split('?')[0];
+      const handler = functionHandlers[name];
+      if (handler) {
+        db.calls.push({ kind: 'function', name, params: body });
+        return new Response(JSON.stringify(await handler(body, db)), { status: 200 });
+      }
+    }
+
+    unhandledRequests.push({ url, body });
+    return new Response(JSON.stringify({ error: `harness: no handler for ${url}` }), { status: 503 });
+  }) as typeof fetch;
+
+  let handler: ((req: Request) => Promise<Response>) | null = null;
+  vi.resetModules();
+  vi.doMock(SUPABASE_JS_URL, () => ({ createClient: () => db }));
+  vi.doMock(DENO_SERVE_URL, () => ({
+    serve: (h: (req: Request) => Promise<Response>) => {
+      handler = h;
+    },
+  }));
+  await import(/* @vite-ignore */ COORDINATOR_ENTRY);
+  if (!handler) throw new Error('coordinator did not register a serve handler');
+  const coordinator: (req: Request) => Promise<Response> = handler;
+
+  const request = async (body: unknown): Promise<CoordinatorResponse> => {
+    const res = await coordinator(new Request(`${FUNCTIONS_PATH}trading-decision-coordinator`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${HARNESS_SERVICE_ROLE}` },
+      body: JSON.stringify(body),
+    }));
+    const text = await res.text();
+    let parsed: unknown = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // non-JSON bodies are returned as text
+    }
+    return { status: res.status, body: parsed };
+  };
+
+  let sequence = 0;
+  const send = (intent: HarnessIntent) =>
+    request({
+      intent: {
+        userId: loaded.userId,
+        strategyId: loaded.strategyId,
+        source: 'intelligent',
+        confidence: 0.9,
+        reason: 'harness',
+        metadata: {},
+        ts: new Date().toISOString(),
+        idempotencyKey: `harness_${++sequence}`,
+        ...intent,
+      },
+    });
+
+  return {
+    db,
+    userId: loaded.userId,
+    strategyId: loaded.strategyId,
+    send,
+    request,
+    setPrice: (symbol, price) => {
+      const p = typeof price === 'number' ? { price } : price;
+      const key = symbol.toUpperCase();
+      prices[key] = p;
+      const ts = new Date().toISOString();
+      db.insertRows('price_snapshots', [{ symbol: key, price: p.price, ts }, { symbol: `${key}-EUR`, price: p.price, ts }]);
+    },
+    advance: (ms) => {
+      vi.setSystemTime(new Date(Date.now() + ms));
+    },
+    decisionEvents: () => db.rows('decision_events'),
+    ledger: () => db.rows('mock_trades'),
+    cash: (isTestMode = true) => {
+      const row = capitalRow(db, loaded.userId, isTestMode);
+      return row ? Number(row.cash_balance_eur) : null;
+    },
+    unhandledRequests,
+    dispose: () => {
+      globals.fetch = previousFetch;
+      if (previousDeno === undefined) delete globals.Deno;
+      else globals.Deno = previousDeno;
+      vi.doUnmock(SUPABASE_JS_URL);
+      vi.doUnmock(DENO_SERVE_URL);
+      vi.useRealTimers();
+    },
+  };
+}
@@ -0,0 +1,428 @@
+/**
+ * In-Memory Supabase
+ *
+ * Read/write stand-in for the supabase-js client used by edge functions
+ * (`from`, `rpc`, `functions.invoke`), so handlers such as the
+ * trading-decision-coordinator can run locally against scripted tables.
+ *
+ * Unlike replayClient (read-only, point-in-time), every write lands in the
+ * in-memory tables and is appended to `writes`, so tests can assert on the
+ * exact rows a handler produced.
+ *
+ * Supported builder calls: select, insert, update, upsert, delete, eq, neq,
+ * in, gte, gt, lte, lt, is, not (is / eq), like, ilike, or (column.op.value
+ * lists of the operators above), order, limit, single, maybeSingle. Selected columns are ignored (full rows are returned).
+ * Unknown RPCs and functions resolve with an error, never with fake data.
+ */
+
+type Row = Record<string, unknown>;
+
+export interface InMemoryResponse {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any;
+  error: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+export type RpcHandler = (params: Row, db: InMemorySupabase) => unknown | Promise<unknown>;
+export type FunctionHandler = (body: unknown, db: InMemorySupabase) => unknown | Promise<unknown>;
+
+export interface WriteRecord {
+  table: string;
+  op: 'insert' | 'update' | 'upsert' | 'delete';
+  rows: Row[];
+}
+
+export interface InMemorySupabaseOptions {
+  /** Column defaults applied on insert/upsert, per table */
+  defaults?: Record<string, Row>;
+  rpc?: Record<string, RpcHandler>;
+  functions?: Record<string, FunctionHandler>;
+}
+
+type FilterOp = 'eq' | 'neq' | 'in' | 'gte' | 'gt' | 'lte' | 'lt' | 'is' | 'not_is' | 'not_eq' | 'like' | 'ilike' | 'or';
+
+interface Filter {
+  column: string;
+  op: FilterOp;
+  value: unknown;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  return a < b ? -1 : 1;
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+/** PostgREST or() list: "a.eq.1,b.is.null" */
+function parseOrFilters(filters: string): Filter[] {
+  return filters.split(',').map((part) => {
+    const [column, op, ...rest] = part.trim().split('.');
+    const raw = rest.join('.');
+    const value = raw === 'null' ? null : raw === 'true' ? true : raw === 'false' ? false : raw;
+    return { column, op: op as FilterOp, value };
+  });
+}
+
+function matches(row: Row, filter: Filter): boolean {
+  const value = row[filter.column];
+  switch (filter.op) {
+    case 'eq':
+      return value === filter.value || (value != null && filter.value != null && String(value) === String(filter.value));
+    case 'neq':
+    case 'not_eq':
+      return !matches(row, { ...filter, op: 'eq' });
+    case 'in':
+      return (filter.value as unknown[]).some((v) => matches(row, { column: filter.column, op: 'eq', value: v }));
+    case 'gte':
+      return value != null && compare(value, filter.value) >= 0;
+    case 'gt':
+      return value != null && compare(value, filter.value) > 0;
+    case 'lte':
+      return value != null && compare(value, filter.value) <= 0;
+    case 'lt':
+      return value != null && compare(value, filter.value) < 0;
+    case 'is':
+      return filter.value === null ? value === null || value === undefined : value === filter.value;
+    case 'not_is':
+      return !matches(row, { ...filter, op: 'is' });
+    case 'like':
+      return typeof value === 'string' && likeToRegExp(String(filter.value), '').test(value);
+    case 'ilike':
+      return typeof value === 'string' && likeToRegExp(String(filter.value), 'i').test(value);
+    case 'or':
+      return (filter.value as Filter[]).some((f) => matches(row, f));
+    default:
+      return false;
+  }
+}
+
+class InMemoryQuery implements PromiseLike<InMemoryResponse> {
+  private filters: Filter[] = [];
+  private orderBy: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private mutation: { op: WriteRecord['op']; payload?: Row | Row[]; onConflict?: string; ignoreDuplicates?: boolean } | null = null;
+  private returning = false;
+  private countMode = false;
+  private headOnly = false;
+
+  constructor(
+    private readonly db: InMemorySupabase,
+    private readonly table: string,
+  ) {}
+
+  select(_columns?: string, options?: { count?: string; head?: boolean }): this {
+    if (this.mutation) this.returning = true;
+    if (options?.count) this.countMode = true;
+    if (options?.head) this.headOnly = true;
+    return this;
+  }
+
+  insert(payload: Row | Row[]): this {
+    this.mutation = { op: 'insert', payload };
+    return this;
+  }
+
+  update(payload: Row): this {
+    this.mutation = { op: 'update', payload };
+    return this;
+  }
+
+  upsert(payload: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): this {
+    this.mutation = { op: 'upsert', payload, onConflict: options?.onConflict, ignoreDuplicates: options?.ignoreDuplicates };
+    return this;
+  }
+
+  delete(): this {
+    this.mutation = { op: 'delete' };
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'eq', value });
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'neq', value });
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push({ column, op: 'in', value: values });
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'gte', value });
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'gt', value });
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'lte', value });
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'lt', value });
+    return this;
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'is', value });
+    return this;
+  }
+
+  not(column: string, operator: 'is' | 'eq', value: unknown): this {
+    this.filters.push({ column, op: operator === 'is' ? 'not_is' : 'not_eq', value });
+    return this;
+  }
+
+  like(column: string, pattern: string): this {
+    this.filters.push({ column, op: 'like', value: pattern });
+    return this;
+  }
+
+  ilike(column: string, pattern: string): this {
+    this.filters.push({ column, op: 'ilike', value: pattern });
+    return this;
+  }
+
+  or(filters: string): this {
+    this.filters.push({ column: '', op: 'or', value: parseOrFilters(filters) });
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.orderBy.push({ column, ascending: options?.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  private shape(rows: Row[]): InMemoryResponse {
+    const copies = rows.map((r) => ({ ...r }));
+    const count = this.countMode ? rows.length : null;
+    if (this.singleMode === 'single') {
+      if (copies.length !== 1) {
+        return { data: null, error: { message: `Expected 1 row, got ${copies.length}`, code: 'PGRST116' }, count };
+      }
+      return { data: copies[0], error: null, count };
+    }
+    if (this.singleMode === 'maybeSingle') {
+      if (copies.length > 1) {
+        return { data: null, error: { message: `Expected at most 1 row, got ${copies.length}` }, count };
+      }
+      return { data: copies[0] ?? null, error: null, count };
+    }
+    return { data: this.headOnly ? null : copies, error: null, count };
+  }
+
+  private selectRows(): Row[] {
+    let rows = this.db.rows(this.table).filter((row) => this.filters.every((f) => matches(row, f)));
+
+    if (this.orderBy.length > 0) {
+      rows = [...rows].sort((a, b) => {
+        for (const { column, ascending } of this.orderBy) {
+          const c = compare(a[column], b[column]);
+          if (c !== 0) return ascending ? c : -c;
+        }
+        return 0;
+      });
+    }
+
+    if (this.limitCount !== null) {
+      rows = rows.slice(0, this.limitCount);
+    }
+    return rows;
+  }
+
+  private execute(): InMemoryResponse {
+    if (!this.mutation) return this.shape(this.selectRows());
+
+    const { op, payload, onConflict, ignoreDuplicates } = this.mutation;
+    let affected: Row[];
+    switch (op) {
+      case 'insert':
+        affected = this.db.insertRows(this.table, Array.isArray(payload) ? payload : [payload!]);
+        break;
+      case 'upsert':
+        affected = this.db.upsertRows(
+          this.table,
+          Array.isArray(payload) ? payload : [payload!],
+          onConflict ? onConflict.split(',').map((c) => c.trim()) : ['id'],
+          ignoreDuplicates === true,
+        );
+        break;
+      case 'update':
+        affected = this.db.updateRows(this.table, (row) => this.filters.every((f) => matches(row, f)), payload as Row);
+        break;
+      case 'delete':
+        affected = this.db.deleteRows(this.table, (row) => this.filters.every((f) => matches(row, f)));
+        break;
+    }
+
+    if (!this.returning) return { data: null, error: null, count: this.countMode ? affected.length : null };
+    return this.shape(affected);
+  }
+
+  then<TResult1 = InMemoryResponse, TResult2 = never>(
+    onfulfilled?: ((value: InMemoryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+}
+
+export class InMemorySupabase {
+  /** Every write in order, for assertions on what a handler produced */
+  readonly writes: WriteRecord[] = [];
+  /** Every rpc / functions.invoke call in order */
+  readonly calls: { kind: 'rpc' | 'function'; name: string; params: unknown }[] = [];
+
+  private readonly tables = new Map<string, Row[]>();
+  private readonly defaults: Record<string, Row>;
+  private readonly rpcHandlers: Record<string, RpcHandler>;
+  private readonly functionHandlers: Record<string, FunctionHandler>;
+
+  readonly functions = {
+    invoke: async (name: string, options?: { body?: unknown }): Promise<InMemoryResponse> => {
+      this.calls.push({ kind: 'function', name, params: options?.body });
+      const handler = this.functionHandlers[name];
+      if (!handler) return { data: null, error: { message: `function ${name} is not registered in the harness` } };
+      try {
+        return { data: await handler(options?.body, this), error: null };
+      } catch (err) {
+        return { data: null, error: { message: err instanceof Error ? err.message : String(err) } };
+      }
+    },
+  };
+
+  constructor(seed: Record<string, object[]> = {}, options: InMemorySupabaseOptions = {}) {
+    this.defaults = options.defaults ?? {};
+    this.rpcHandlers = { ...(options.rpc ?? {}) };
+    this.functionHandlers = { ...(options.functions ?? {}) };
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables.set(table, (rows as Row[]).map((r) => this.withDefaults(table, r)));
+    }
+  }
+
+  from(table: string): InMemoryQuery {
+    return new InMemoryQuery(this, table);
+  }
+
+  async rpc(name: string, params: Row = {}): Promise<InMemoryResponse> {
+    this.calls.push({ kind: 'rpc', name, params });
+    const handler = this.rpcHandlers[name];
+    if (!handler) return { data: null, error: { message: `rpc ${name} is not registered in the harness` } };
+    try {
+      return { data: await handler(params, this), error: null };
+    } catch (err) {
+      return { data: null, error: { message: err instanceof Error ? err.message : String(err) } };
+    }
+  }
+
+  registerRpc(name: string, handler: RpcHandler): void {
+    this.rpcHandlers[name] = handler;
+  }
+
+  registerFunction(name: string, handler: FunctionHandler): void {
+    this.functionHandlers[name] = handler;
+  }
+
+  /** Live rows of a table (mutations through the query builder are reflected) */
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  /** Rows written to `table` by a given op, in order */
+  writesTo(table: string, op?: WriteRecord['op']): Row[] {
+    return this.writes
+      .filter((w) => w.table === table && (!op || w.op === op))
+      .flatMap((w) => w.rows);
+  }
+
+  private withDefaults(table: string, row: Row): Row {
+    return {
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      ...(this.defaults[table] ?? {}),
+      ...row,
+    };
+  }
+
+  insertRows(table: string, rows: Row[]): Row[] {
+    const inserted = rows.map((r) => this.withDefaults(table, r));
+    this.rows(table).push(...inserted);
+    this.writes.push({ table, op: 'insert', rows: inserted.map((r) => ({ ...r })) });
+    return inserted;
+  }
+
+  upsertRows(table: string, rows: Row[], conflictColumns: string[], ignoreDuplicates: boolean): Row[] {
+    const target = this.rows(table);
+    const affected: Row[] = [];
+    for (const row of rows) {
+      const existing = target.find((t) => conflictColumns.every((c) => t[c] === row[c]));
+      if (existing) {
+        if (ignoreDuplicates) continue;
+        Object.assign(existing, row);
+        affected.push(existing);
+      } else {
+        const inserted = this.withDefaults(table, row);
+        target.push(inserted);
+        affected.push(inserted);
+      }
+    }
+    this.writes.push({ table, op: 'upsert', rows: affected.map((r) => ({ ...r })) });
+    return affected;
+  }
+
+  updateRows(table: string, predicate: (row: Row) => boolean, patch: Row): Row[] {
+    const updated = this.rows(table).filter(predicate);
+    for (const row of updated) Object.assign(row, patch);
+    this.writes.push({ table, op: 'update', rows: updated.map((r) => ({ ...r })) });
+    return updated;
+  }
+
+  deleteRows(table: string, predicate: (row: Row) => boolean): Row[] {
+    const all = this.rows(table);
+    const removed = all.filter(predicate);
+    this.tables.set(table, all.filter((r) => !predicate(r)));
+    this.writes.push({ table, op: 'delete', rows: removed.map((r) => ({ ...r })) });
+    return removed;
+  }
+}
+
+export function createInMemorySupabase(
+  seed: Record<string, object[]> = {},
+  options: InMemorySupabaseOptions = {},
+): InMemorySupabase {
+  return new InMemorySupabase(seed, options);
+}
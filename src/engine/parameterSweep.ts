@@ -0,0 +1,321 @@
+/**
+ * Walk-Forward Parameter Sweep
+ *
+ * Grid / random search over a subset of trading_strategies.configuration fields,
+ * evaluated with walk-forward in-sample (IS) / out-of-sample (OOS) splits on
+ * stored history via the event-driven backtester.
+ *
+ * Ranking:
+ * - Combinations are ranked by mean OOS Sharpe (risk-adjusted), then mean OOS return.
+ *
+ * Overfit detection (per combination):
+ * - Walk-forward efficiency (WFE) = mean OOS return / mean IS return.
+ * - A combination is flagged OVERFIT when it is profitable in-sample but its OOS
+ *   return is negative, or when WFE < OVERFIT_WFE_THRESHOLD.
+ * - Flagged combinations must not be promoted through strategy-optimizer-apply.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  simulateBacktest,
+  loadBacktestData,
+  type BacktestData,
+  type BacktestParams,
+  type BacktestResult,
+  type BacktestStrategyConfig,
+} from './backtester';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Configuration fields the sweep is allowed to vary (ENTER_THRESHOLD lives in `enterThreshold`) */
+export type SweepableField =
+  | 'takeProfitPercentage'
+  | 'stopLossPercentage'
+  | 'enterThreshold'
+  | 'perTradeAllocation';
+
+export const SWEEPABLE_FIELDS: Record<SweepableField, { label: string; unit: string }> = {
+  takeProfitPercentage: { label: 'Take Profit', unit: '%' },
+  stopLossPercentage: { label: 'Stop Loss', unit: '%' },
+  enterThreshold: { label: 'Enter Threshold', unit: '' },
+  perTradeAllocation: { label: 'Per-Trade Allocation', unit: '€' },
+};
+
+export interface SweepParameterRange {
+  field: SweepableField;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type SweepMode = 'grid' | 'random';
+
+export interface WalkForwardFold {
+  index: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+}
+
+export interface SweepParams extends Omit<BacktestParams, 'strategyConfig'> {
+  /** Base configuration; each combination overrides the swept fields */
+  baseConfig: BacktestStrategyConfig;
+  ranges: SweepParameterRange[];
+  mode?: SweepMode;
+  /** Random mode: number of combinations to sample */
+  samples?: number;
+  /** Random mode: seed for reproducible sampling */
+  seed?: number;
+  /** Number of walk-forward folds */
+  folds?: number;
+  /** Fraction of each fold used in-sample (rest is out-of-sample) */
+  inSampleRatio?: number;
+  /** Hard cap on evaluated combinations (protects the browser) */
+  maxCombinations?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface FoldEvaluation {
+  fold: number;
+  inSample: Pick<BacktestResult, 'totalReturnPct' | 'sharpeRatio' | 'maxDrawdownPct' | 'totalLots' | 'winRate'>;
+  outOfSample: Pick<BacktestResult, 'totalReturnPct' | 'sharpeRatio' | 'maxDrawdownPct' | 'totalLots' | 'winRate'>;
+}
+
+export interface SweepCombinationResult {
+  rank: number;
+  parameters: Partial<Record<SweepableField, number>>;
+  folds: FoldEvaluation[];
+  meanInSampleReturnPct: number;
+  meanOutOfSampleReturnPct: number;
+  meanInSampleSharpe: number;
+  meanOutOfSampleSharpe: number;
+  worstOutOfSampleDrawdownPct: number;
+  /** mean OOS return / mean IS return (null when IS return <= 0) */
+  walkForwardEfficiency: number | null;
+  overfit: boolean;
+  overfitReason: string | null;
+}
+
+export interface SweepResult {
+  mode: SweepMode;
+  folds: WalkForwardFold[];
+  combinationsEvaluated: number;
+  combinationsRequested: number;
+  results: SweepCombinationResult[];
+}
+
+/** WFE below this is treated as overfit (OOS kept less than half of IS performance) */
+export const OVERFIT_WFE_THRESHOLD = 0.5;
+
+const DEFAULT_MAX_COMBINATIONS = 200;
+
+// ============================================================
+// Parameter space
+// ============================================================
+
+/** Expand a range into its discrete values (inclusive of max, float-safe) */
+export function expandRange(range: SweepParameterRange): number[] {
+  if (!(range.step > 0) || range.max < range.min) return [range.min];
+  const values: number[] = [];
+  const steps = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let i = 0; i <= steps; i++) {
+    values.push(Number((range.min + i * range.step).toFixed(6)));
+  }
+  return values;
+}
+
+/** Cartesian product of all ranges */
+export function buildParameterGrid(ranges: SweepParameterRange[]): Partial<Record<SweepableField, number>>[] {
+  let grid: Partial<Record<SweepableField, number>>[] = [{}];
+  for (const range of ranges) {
+    const values = expandRange(range);
+    grid = grid.flatMap(combo => values.map(value => ({ ...combo, [range.field]: value })));
+  }
+  return grid;
+}
+
+/** Mulberry32: small deterministic PRNG so random sweeps are reproducible */
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Sample `count` distinct combinations from the grid (or the full grid if smaller) */
+export function sampleRandomCombinations(
+  ranges: SweepParameterRange[],
+  count: number,
+  seed = 42,
+): Partial<Record<SweepableField, number>>[] {
+  const grid = buildParameterGrid(ranges);
+  if (grid.length <= count) return grid;
+  const rng = createRng(seed);
+  // Partial Fisher-Yates shuffle
+  const pool = [...grid];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(rng() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+// ============================================================
+// Walk-forward folds
+// ============================================================
+
+/**
+ * Split [start, end] into `folds` consecutive, non-overlapping windows.
+ * Each window is divided into an in-sample head and an out-of-sample tail,
+ * so OOS data is always strictly later than the IS data it is compared against.
+ */
+export function buildWalkForwardFolds(
+  start: Date,
+  end: Date,
+  folds = 3,
+  inSampleRatio = 0.7,
+): WalkForwardFold[] {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  if (endMs <= startMs) throw new Error('Sweep end date must be after start date');
+  if (folds < 1) throw new Error('Sweep requires at least one fold');
+  if (!(inSampleRatio > 0 && inSampleRatio < 1)) throw new Error('inSampleRatio must be between 0 and 1');
+
+  const windowMs = (endMs - startMs) / folds;
+  const result: WalkForwardFold[] = [];
+  for (let i = 0; i < folds; i++) {
+    const foldStart = startMs + i * windowMs;
+    const foldEnd = i === folds - 1 ? endMs : foldStart + windowMs;
+    const split = foldStart + (foldEnd - foldStart) * inSampleRatio;
+    result.push({
+      index: i,
+      inSampleStart: new Date(foldStart),
+      inSampleEnd: new Date(split - 1),
+      outOfSampleStart: new Date(split),
+      outOfSampleEnd: new Date(foldEnd),
+    });
+  }
+  return result;
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function summarize(result: BacktestResult): FoldEvaluation['inSample'] {
+  return {
+    totalReturnPct: result.totalReturnPct,
+    sharpeRatio: result.sharpeRatio,
+    maxDrawdownPct: result.maxDrawdownPct,
+    totalLots: result.totalLots,
+    winRate: result.winRate,
+  };
+}
+
+/** Classify a combination from its IS/OOS means */
+export function classifyOverfit(
+  meanInSampleReturnPct: number,
+  meanOutOfSampleReturnPct: number,
+): { walkForwardEfficiency: number | null; overfit: boolean; overfitReason: string | null } {
+  if (meanInSampleReturnPct <= 0) {
+    return { walkForwardEfficiency: null, overfit: false, overfitReason: null };
+  }
+  const wfe = round2(meanOutOfSampleReturnPct / meanInSampleReturnPct);
+  if (meanOutOfSampleReturnPct < 0) {
+    return { walkForwardEfficiency: wfe, overfit: true, overfitReason: 'profitable_in_sample_losing_out_of_sample' };
+  }
+  if (wfe < OVERFIT_WFE_THRESHOLD) {
+    return { walkForwardEfficiency: wfe, overfit: true, overfitReason: `walk_forward_efficiency_below_${OVERFIT_WFE_THRESHOLD}` };
+  }
+  return { walkForwardEfficiency: wfe, overfit: false, overfitReason: null };
+}
+
+/** Run the sweep over preloaded data (covering the full sweep window) */
+export async function runParameterSweep(params: SweepParams, data: BacktestData): Promise<SweepResult> {
+  const mode = params.mode ?? 'grid';
+  const maxCombinations = params.maxCombinations ?? DEFAULT_MAX_COMBINATIONS;
+  const folds = buildWalkForwardFolds(params.startDate, params.endDate, params.folds, params.inSampleRatio);
+
+  if (params.ranges.length === 0) throw new Error('Sweep requires at least one parameter range');
+
+  const requested = mode === 'random'
+    ? sampleRandomCombinations(params.ranges, params.samples ?? 50, params.seed)
+    : buildParameterGrid(params.ranges);
+  const combinations = requested.slice(0, maxCombinations);
+
+  const backtestBase = {
+    strategyId: params.strategyId,
+    initialCapital: params.initialCapital,
+    feeRate: params.feeRate,
+    slippageBps: params.slippageBps,
+    granularity: params.granularity,
+    symbols: params.symbols,
+  };
+
+  const evaluated: Omit<SweepCombinationResult, 'rank'>[] = [];
+  for (let c = 0; c < combinations.length; c++) {
+    const parameters = combinations[c];
+    const strategyConfig = { ...params.baseConfig, ...parameters };
+
+    const foldEvaluations: FoldEvaluation[] = [];
+    for (const fold of folds) {
+      const inSample = await simulateBacktest(
+        { ...backtestBase, strategyConfig, startDate: fold.inSampleStart, endDate: fold.inSampleEnd },
+        data,
+      );
+      const outOfSample = await simulateBacktest(
+        { ...backtestBase, strategyConfig, startDate: fold.outOfSampleStart, endDate: fold.outOfSampleEnd },
+        data,
+      );
+      foldEvaluations.push({ fold: fold.index, inSample: summarize(inSample), outOfSample: summarize(outOfSample) });
+    }
+
+    const meanInSampleReturnPct = round2(mean(foldEvaluations.map(f => f.inSample.totalReturnPct)));
+    const meanOutOfSampleReturnPct = round2(mean(foldEvaluations.map(f => f.outOfSample.totalReturnPct)));
+
+    evaluated.push({
+      parameters,
+      folds: foldEvaluations,
+      meanInSampleReturnPct,
+      meanOutOfSampleReturnPct,
+      meanInSampleSharpe: round2(mean(foldEvaluations.map(f => f.inSample.sharpeRatio))),
+      meanOutOfSampleSharpe: round2(mean(foldEvaluations.map(f => f.outOfSample.sharpeRatio))),
+      worstOutOfSampleDrawdownPct: Math.max(0, ...foldEvaluations.map(f => f.outOfSample.maxDrawdownPct)),
+      ...classifyOverfit(meanInSampleReturnPct, meanOutOfSampleReturnPct),
+    });
+
+    params.onProgress?.(c + 1, combinations.length);
+  }
+
+  evaluated.sort((a, b) =>
+    b.meanOutOfSampleSharpe - a.meanOutOfSampleSharpe ||
+    b.meanOutOfSampleReturnPct - a.meanOutOfSampleReturnPct,
+  );
+
+  return {
+    mode,
+    folds,
+    combinationsEvaluated: combinations.length,
+    combinationsRequested: requested.length,
+    results: evaluated.map((result, i) => ({ rank: i + 1, ...result })),
+  };
+}
+
+/** Load history once for the full window, then run the sweep */
+export async function runParameterSweepFromDb(supabaseClient: SupabaseClient, params: SweepParams): Promise<SweepResult> {
+  const data = await loadBacktestData(supabaseClient, { ...params, strategyConfig: params.baseConfig });
+  if (data.candles.length === 0) {
+    throw new Error(`No ${params.granularity ?? '1h'} candles in market_ohlcv_raw for the selected range`);
+  }
+  return runParameterSweep(params, data);
+}
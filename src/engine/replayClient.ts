@@ -0,0 +1,220 @@
+/**
+ * Replay Supabase Client
+ *
+ * Minimal in-memory stand-in for the supabase-js query builder, used to drive
+ * modules that take a `supabaseClient` (e.g. computeFusedSignalScore) from
+ * preloaded historical rows instead of the live database.
+ *
+ * Point-in-time safety:
+ * - Every table can declare a time column (e.g. live_signals.timestamp).
+ * - Rows whose time column is later than the client's clock are invisible,
+ *   so a query issued "at" bar T can never see data from the future.
+ *
+ * Supported builder calls: select, eq, neq, in, gte, gt, lte, lt, order, limit,
+ * maybeSingle, single. Anything else is out of scope for replay.
+ */
+
+type Row = Record<string, unknown>;
+
+export interface ReplayResponse {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any;
+  error: { message: string } | null;
+}
+
+interface Filter {
+  column: string;
+  op: 'eq' | 'neq' | 'in' | 'gte' | 'gt' | 'lte' | 'lt';
+  value: unknown;
+}
+
+export interface ReplayTableConfig {
+  rows: object[];
+  /** Column compared against the replay clock; rows after the clock are hidden */
+  timeColumn?: string;
+}
+
+export interface ReplayClient {
+  from: (table: string) => ReplayQuery;
+  /** Move the replay clock (rows after this instant become invisible) */
+  setClock: (now: Date) => void;
+  getClock: () => Date;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return a < b ? -1 : 1;
+}
+
+function matches(row: Row, filter: Filter): boolean {
+  const value = row[filter.column];
+  switch (filter.op) {
+    case 'eq':
+      return value === filter.value;
+    case 'neq':
+      return value !== filter.value;
+    case 'in':
+      return (filter.value as unknown[]).includes(value);
+    case 'gte':
+      return compare(value, filter.value) >= 0;
+    case 'gt':
+      return compare(value, filter.value) > 0;
+    case 'lte':
+      return compare(value, filter.value) <= 0;
+    case 'lt':
+      return compare(value, filter.value) < 0;
+    default:
+      return false;
+  }
+}
+
+class ReplayQuery implements PromiseLike<ReplayResponse> {
+  private filters: Filter[] = [];
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private limitCount: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+
+  constructor(
+    private readonly config: ReplayTableConfig | undefined,
+    private readonly clock: () => Date,
+  ) {}
+
+  select(_columns?: string): this {
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'eq', value });
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'neq', value });
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push({ column, op: 'in', value: values });
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'gte', value });
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'gt', value });
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'lte', value });
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push({ column, op: 'lt', value });
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.orderBy = { column, ascending: options?.ascending !== false };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  private execute(): ReplayResponse {
+    if (!this.config) {
+      return { data: this.singleMode ? null : [], error: null };
+    }
+
+    const nowIso = this.clock().toISOString();
+    const { timeColumn } = this.config;
+
+    let rows = (this.config.rows as Row[]).filter(row => {
+      if (timeColumn && compare(row[timeColumn], nowIso) > 0) return false;
+      return this.filters.every(f => matches(row, f));
+    });
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      rows = [...rows].sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+    }
+
+    if (this.limitCount !== null) {
+      rows = rows.slice(0, this.limitCount);
+    }
+
+    if (this.singleMode === 'single') {
+      if (rows.length !== 1) {
+        return { data: null, error: { message: `Expected 1 row, got ${rows.length}` } };
+      }
+      return { data: rows[0], error: null };
+    }
+    if (this.singleMode === 'maybeSingle') {
+      return { data: rows[0] ?? null, error: null };
+    }
+
+    return { data: rows, error: null };
+  }
+
+  then<TResult1 = ReplayResponse, TResult2 = never>(
+    onfulfilled?: ((value: ReplayResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Create a replay client over preloaded tables.
+ * Tables not listed return empty results (never errors), mirroring RLS-filtered reads.
+ *
+ * Time columns are normalized to `Date.toISOString()` form so that string
+ * comparisons against ISO cutoffs (as built by the callers) are chronological
+ * regardless of the offset format Postgres returned.
+ */
+export function createReplayClient(
+  tables: Record<string, ReplayTableConfig>,
+  initialClock: Date = new Date(),
+): ReplayClient {
+  const normalized: Record<string, ReplayTableConfig> = {};
+  for (const [name, config] of Object.entries(tables)) {
+    const { timeColumn } = config;
+    normalized[name] = timeColumn
+      ? {
+          timeColumn,
+          rows: (config.rows as Row[]).map(row => ({
+            ...row,
+            [timeColumn]: new Date(row[timeColumn] as string).toISOString(),
+          })),
+        }
+      : config;
+  }
+
+  let clock = initialClock;
+  return {
+    from: (table: string) => new ReplayQuery(normalized[table], () => clock),
+    setClock: (now: Date) => {
+      clock = now;
+    },
+    getClock: () => clock,
+  };
+}
@@ -1,4 +1,16 @@
-import { ExecutionConnector, QuoteReq, QuoteRes } from './types';
+import { logger } from '@/utils/logger';
+import { ExecutionConnector, QuoteConnector, QuoteReq, QuoteRes, PlaceRes } from './types';
+
+/**
+ * Quote ranking across connectors, and placement through the cheapest one
+ * that can place.
+ *
+ * Placement scope: only ZeroExConnector places (onchain-sign-and-send, status
+ * from onchain-receipts). 1inch, CoW, Uniswap and Coinbase are quote-only
+ * until onchain-execute can build their swaps and Coinbase returns real quotes.
+ * REAL trades from the coordinator do not go through executeBest; they still
+ * take the onchain-sign-and-send → onchain-execute (0x) path.
+ */
 
 async function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
   return new Promise<T>((resolve, reject) => {
@@ -9,13 +21,15 @@ async function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
 
 export async function bestQuote(
   req: QuoteReq, 
-  connectors: ExecutionConnector[], 
+  connectors: QuoteConnector[], 
   timeoutMs = 600, 
   preferredOrder?: Array<'0x' | 'cow' | '1inch' | 'uniswap'>, 
   tieBps = 2
 ): Promise<QuoteRes> {
   const results = await Promise.allSettled(connectors.map(c => withTimeout(c.getQuote(req), timeoutMs)));
-  const ok = results.filter(r => r.status === 'fulfilled').map((r: any) => r.value as QuoteRes);
+  const ok = results
+    .filter((r): r is PromiseFulfilledResult<QuoteRes> => r.status === 'fulfilled')
+    .map(r => r.value);
   if (!ok.length) throw new Error('No viable quotes');
   
   // Sort by effective BPS cost
@@ -33,7 +47,7 @@ export async function bestQuote(
       for (const provider of preferredOrder) {
         const preferred = tieBreakers.find(q => q.provider === provider);
         if (preferred) {
-          console.log(`Tie-break: choosing ${provider} over others within ${tieBps} bps`);
+          logger.info(`Tie-break: choosing ${provider} over others within ${tieBps} bps`);
           return preferred;
         }
       }
@@ -41,4 +55,32 @@ export async function bestQuote(
   }
   
   return ok[0];
-}
\ No newline at end of file
+}
+
+export interface RoutedPlacement {
+  quote: QuoteRes;
+  placement: PlaceRes;
+  connector: ExecutionConnector;  // keep for getStatus(placement.id)
+}
+
+export async function executeBest(
+  req: QuoteReq,
+  connectors: ExecutionConnector[],
+  timeoutMs = 600,
+  preferredOrder?: Array<'0x' | 'cow' | '1inch' | 'uniswap'>,
+  tieBps = 2
+): Promise<RoutedPlacement> {
+  // A connector that cannot place this route would win the ranking and then fail
+  const placeable = connectors.filter(c => c.canPlace(req));
+  if (!placeable.length) throw new Error(`No connector can place ${req.mode} ${req.base}/${req.quote}`);
+
+  const quote = await bestQuote(req, placeable, timeoutMs, preferredOrder, tieBps);
+  // Connectors signal "no quote" with an infinite cost instead of throwing
+  if (!Number.isFinite(quote.effectiveBpsCost)) throw new Error('No viable quotes');
+
+  const connector = placeable.find(c => c.provider === quote.provider);
+  if (!connector) throw new Error(`No connector registered for ${quote.provider}`);
+
+  const placement = await connector.place(req, quote);
+  return { quote, placement, connector };
+}
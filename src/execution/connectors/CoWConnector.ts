@@ -1,7 +1,10 @@
-import { ExecutionConnector, QuoteReq, QuoteRes, PlaceRes } from '../types';
+import { QuoteConnector, QuoteReq, QuoteRes } from '../types';
 import { fetchOnchainQuote } from '@/lib/api/onchain';
 
-export class CoWConnector implements ExecutionConnector {
+// Quote-only: onchain-execute has no swap-tx builder / allowlisted router for CoW yet
+export class CoWConnector implements QuoteConnector {
+  readonly provider = 'cow' as const;
+
   async getQuote(req: QuoteReq): Promise<QuoteRes> {
     if (req.mode !== 'ONCHAIN') {
       return {
@@ -41,12 +44,4 @@ export class CoWConnector implements ExecutionConnector {
       };
     }
   }
-
-  async place(_req: QuoteReq, _best: QuoteRes): Promise<PlaceRes> { 
-    return { status: 'FAILED' }; 
-  }
-  
-  async getStatus(_ref: string): Promise<'PENDING' | 'FILLED' | 'FAILED'> { 
-    return 'FAILED'; 
-  }
 }
\ No newline at end of file
@@ -1,8 +1,10 @@
-import { ExecutionConnector, QuoteReq, QuoteRes, PlaceRes } from '../types';
+import { QuoteConnector, QuoteReq, QuoteRes } from '../types';
 
-// Skeleton: wraps existing CEX path later. For now, safe placeholders.
-export class CoinbaseConnector implements ExecutionConnector {
-  async getQuote(req: QuoteReq): Promise<QuoteRes> {
+// Skeleton: wraps existing CEX path later. Quote-only until Coinbase returns real quotes.
+export class CoinbaseConnector implements QuoteConnector {
+  readonly provider = 'coinbase' as const;
+
+  async getQuote(_req: QuoteReq): Promise<QuoteRes> {
     // Placeholder: return a large effectiveBpsCost so MetaRouter will ignore it for ONCHAIN mode.
     return {
       provider: 'coinbase',
@@ -11,10 +13,4 @@ export class CoinbaseConnector implements ExecutionConnector {
       effectiveBpsCost: Number.POSITIVE_INFINITY,
     };
   }
-  async place(_req: QuoteReq, _best: QuoteRes): Promise<PlaceRes> {
-    return { status: 'FAILED' };
-  }
-  async getStatus(_ref: string): Promise<'PENDING' | 'FILLED' | 'FAILED'> { 
-    return 'FAILED'; 
-  }
 }
\ No newline at end of file
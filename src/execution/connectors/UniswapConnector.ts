@@ -1,7 +1,10 @@
-import { ExecutionConnector, QuoteReq, QuoteRes, PlaceRes } from '../types';
+import { QuoteConnector, QuoteReq, QuoteRes } from '../types';
 import { fetchOnchainQuote } from '@/lib/api/onchain';
 
-export class UniswapConnector implements ExecutionConnector {
+// Quote-only: onchain-execute has no swap-tx builder / allowlisted router for Uniswap yet
+export class UniswapConnector implements QuoteConnector {
+  readonly provider = 'uniswap' as const;
+
   async getQuote(req: QuoteReq): Promise<QuoteRes> {
     if (req.mode !== 'ONCHAIN') {
       return {
@@ -38,12 +41,4 @@ export class UniswapConnector implements ExecutionConnector {
       };
     }
   }
-
-  async place(_req: QuoteReq, _best: QuoteRes): Promise<PlaceRes> { 
-    return { status: 'FAILED' }; 
-  }
-  
-  async getStatus(_ref: string): Promise<'PENDING' | 'FILLED' | 'FAILED'> { 
-    return 'FAILED'; 
-  }
 }
\ No newline at end of file
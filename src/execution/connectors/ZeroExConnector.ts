@@ -1,7 +1,12 @@
-import { ExecutionConnector, QuoteReq, QuoteRes, PlaceRes } from '../types';
+import { ExecutionConnector, QuoteReq, QuoteRes, PlaceRes, OrderStatus } from '../types';
+import { canPlaceOnchain, placeOnchain, getOnchainStatus, OnchainPlacementContext } from '../onchainPlacement';
 import { fetchZeroExQuote } from '../../lib/api/onchain';
 
 export class ZeroExConnector implements ExecutionConnector {
+  readonly provider = '0x' as const;
+
+  constructor(private readonly context: OnchainPlacementContext = {}) {}
+
   async getQuote(req: QuoteReq): Promise<QuoteRes> {
     try {
       const payload = {
@@ -26,10 +31,15 @@ export class ZeroExConnector implements ExecutionConnector {
       throw error; // Let MetaRouter handle this
     }
   }
-  async place(_req: QuoteReq, _best: QuoteRes): Promise<PlaceRes> { 
-    return { status: 'FAILED' }; 
+  canPlace(req: QuoteReq): boolean {
+    return canPlaceOnchain(this.provider, req);
   }
-  async getStatus(_ref: string): Promise<'PENDING' | 'FILLED' | 'FAILED'> { 
-    return 'FAILED'; 
+
+  async place(req: QuoteReq, best: QuoteRes): Promise<PlaceRes> {
+    return placeOnchain(this.provider, req, best, this.context);
+  }
+
+  async getStatus(ref: string): Promise<OrderStatus> {
+    return getOnchainStatus(ref);
   }
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { fromTable } from '@/utils/supa';
+import { signAndSendOnchain, pollOnchainReceipt } from '@/lib/api/onchain';
+import { OrderStatus, PlaceRes, QuoteReq, QuoteRes } from './types';
+
+/**
+ * Shared place/getStatus for the on-chain connectors.
+ *
+ * Placement goes through onchain-sign-and-send (raw params path), which
+ * builds through onchain-execute, signs with the SYSTEM wallet and
+ * broadcasts. Only 0x returns a swap transaction the signer's allowlist
+ * accepts: the 1inch (/quote), CoW (off-chain orders) and Uniswap
+ * connectors are QuoteConnectors until they have a builder and allowlisted
+ * router.
+ *
+ * The status reference is the tx hash: real_trades.trade_id is shared by
+ * sliced siblings, the hash pins exactly one row.
+ */
+
+export type OnchainProvider = '0x' | '1inch' | 'cow' | 'uniswap';
+
+export const PLACEABLE_ONCHAIN_PROVIDERS: readonly OnchainProvider[] = ['0x'];
+
+export interface OnchainPlacementContext {
+  userId?: string;
+  strategyId?: string;
+}
+
+// onchain-sign-and-send only builds Base/USDC pairs
+const SIGN_AND_SEND_CHAIN_ID = 8453;
+const SIGN_AND_SEND_QUOTE = 'USDC';
+
+export function canPlaceOnchain(provider: OnchainProvider, req: QuoteReq): boolean {
+  return req.mode === 'ONCHAIN'
+    && PLACEABLE_ONCHAIN_PROVIDERS.includes(provider)
+    && (req.chainId ?? SIGN_AND_SEND_CHAIN_ID) === SIGN_AND_SEND_CHAIN_ID
+    && req.quote.toUpperCase() === SIGN_AND_SEND_QUOTE;
+}
+
+export async function placeOnchain(
+  provider: OnchainProvider,
+  req: QuoteReq,
+  best: QuoteRes,
+  context: OnchainPlacementContext = {}
+): Promise<PlaceRes> {
+  if (best.provider !== provider || !canPlaceOnchain(provider, req)) {
+    console.error(`${provider} place: unsupported route ${req.base}/${req.quote} on chain ${req.chainId}`);
+    return { status: 'FAILED' };
+  }
+
+  try {
+    const result = await signAndSendOnchain({
+      symbol: req.base,
+      side: req.side,
+      amount: req.amount,
+      slippageBps: req.slippageBps,
+      provider: '0x',
+      user_id: context.userId,
+      strategy_id: context.strategyId,
+    });
+
+    if (!result?.ok || !result.tx_hash) {
+      console.error(`${provider} place rejected:`, result?.error);
+      return { status: 'FAILED' };
+    }
+
+    return { id: result.tx_hash, txHash: result.tx_hash, status: 'PENDING' };
+  } catch (error) {
+    console.error(`${provider} place error:`, error);
+    return { status: 'FAILED' };
+  }
+}
+
+function mapExecutionStatus(executionStatus: string | null | undefined): OrderStatus {
+  switch (executionStatus) {
+    case 'CONFIRMED':
+      return 'FILLED';
+    case 'REVERTED':
+    case 'DROPPED':
+      return 'FAILED';
+    default:
+      return 'PENDING';
+  }
+}
+
+export async function getOnchainStatus(txHash: string): Promise<OrderStatus> {
+  const { data, error } = await fromTable('real_trades')
+    .select('execution_status')
+    .eq('tx_hash', txHash)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('getOnchainStatus lookup error:', error);
+    return 'PENDING';
+  }
+  // sign-and-send inserts the SUBMITTED row before returning the tx hash
+  const row = (data as { execution_status: string | null }[] | null)?.[0];
+  if (!row) return 'FAILED';
+
+  if (row.execution_status !== 'SUBMITTED') {
+    return mapExecutionStatus(row.execution_status);
+  }
+
+  try {
+    const poll = await pollOnchainReceipt({ txHash });
+    const result = poll?.results?.find((r: { tx_hash?: string }) => r.tx_hash === txHash);
+    return mapExecutionStatus(result?.status);
+  } catch (pollError) {
+    console.error('getOnchainStatus receipt poll error:', pollError);
+    return 'PENDING';
+  }
+}
@@ -1,5 +1,7 @@
 export type Side = 'BUY' | 'SELL';
 export type Mode = 'COINBASE' | 'ONCHAIN';
+export type OrderStatus = 'PENDING' | 'FILLED' | 'FAILED';
+export type Provider = 'coinbase' | '0x' | 'cow' | '1inch' | 'uniswap';
 
 export interface QuoteReq {
   mode: Mode;
@@ -12,7 +14,7 @@ export interface QuoteReq {
 }
 
 export interface QuoteRes {
-  provider: 'coinbase' | '0x' | 'cow' | '1inch' | 'uniswap';
+  provider: Provider;
   price: number;              // quote/base
   gasCostQuote?: number;      // gas converted to quote currency
   feePct?: number;            // protocol/RFQ/affiliate
@@ -25,13 +27,19 @@ export interface QuoteRes {
 }
 
 export interface PlaceRes {
-  id?: string;       // CEX order id
+  id?: string;       // CEX order id, or tx hash for on-chain (poll with getStatus)
   txHash?: string;   // on-chain
-  status: 'PENDING' | 'FILLED' | 'FAILED';
+  status: OrderStatus;
 }
 
-export interface ExecutionConnector {
+/** Ranked by bestQuote; cannot be placed through (no builder behind it yet) */
+export interface QuoteConnector {
+  readonly provider: Provider;
   getQuote(req: QuoteReq): Promise<QuoteRes>;
+}
+
+export interface ExecutionConnector extends QuoteConnector {
+  canPlace(req: QuoteReq): boolean;   // route check (chain / quote asset) before executeBest places
   place(req: QuoteReq, best: QuoteRes): Promise<PlaceRes>;
-  getStatus(ref: string): Promise<'PENDING' | 'FILLED' | 'FAILED'>;
+  getStatus(ref: string): Promise<OrderStatus>;
 }
\ No newline at end of file
@@ -18,6 +18,19 @@ interface UseRealGasSpentResult {
   isLoading: boolean;
 }
 
+/** gas_used × effectiveGasPrice for one real_trades row; null when the receipt is incomplete or malformed */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function receiptGasWei(row: any): bigint | null {
+  const gasUsed = row?.gas_used ? BigInt(Math.trunc(Number(row.gas_used))) : 0n;
+  const egpHex = row?.raw_receipt?.effectiveGasPrice;
+  if (!gasUsed || !egpHex) return null;
+  try {
+    return gasUsed * BigInt(egpHex);
+  } catch {
+    return null;
+  }
+}
+
 export function useRealGasSpent(): UseRealGasSpentResult {
   const { user } = useAuth();
   const { marketData } = useMarketData();
@@ -39,18 +52,10 @@ export function useRealGasSpent(): UseRealGasSpentResult {
         let total = 0n;
         let count = 0;
         for (const row of (data || []) as any[]) {
-          const gasUsed = row.gas_used ? BigInt(Math.trunc(Number(row.gas_used))) : 0n;
-          const egpHex = row.raw_receipt?.effectiveGasPrice;
-          if (!gasUsed || !egpHex) continue;
-          try {
-            const egp = typeof egpHex === 'string' && egpHex.startsWith('0x')
-              ? BigInt(egpHex)
-              : BigInt(egpHex);
-            total += gasUsed * egp;
-            count += 1;
-          } catch {
-            // skip malformed
-          }
+          const wei = receiptGasWei(row);
+          if (wei === null) continue; // skip incomplete / malformed
+          total += wei;
+          count += 1;
         }
         if (!cancelled) {
           setWeiTotal(total);
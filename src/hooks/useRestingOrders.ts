@@ -0,0 +1,140 @@
+/**
+ * useRestingOrders Hook
+ *
+ * Lists, places and cancels resting limit/stop orders for one strategy.
+ *
+ * Architecture:
+ * - Orders live in resting_orders and are evaluated server-side on every
+ *   price-snapshot-refresh (resting-orders-evaluator)
+ * - A triggered order is fired through trading-decision-coordinator like any
+ *   other intent; this hook never executes trades itself
+ * - Only OPEN orders can be cancelled (cancel_resting_order RPC)
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { logger } from '@/utils/logger';
+
+export type RestingOrderType = 'LIMIT' | 'STOP_LOSS' | 'STOP_LIMIT';
+export type RestingOrderStatus = 'OPEN' | 'TRIGGERED' | 'FILLED' | 'REJECTED' | 'CANCELLED' | 'EXPIRED';
+
+export interface RestingOrder {
+  id: string;
+  created_at: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  order_type: RestingOrderType;
+  amount: number;
+  limit_price: number | null;
+  stop_price: number | null;
+  slippage_bps: number;
+  status: RestingOrderStatus;
+  stop_triggered_at: string | null;
+  triggered_price: number | null;
+  decision_reason: string | null;
+  expires_at: string | null;
+}
+
+export interface PlaceRestingOrderInput {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  orderType: RestingOrderType;
+  /** BUY: EUR to spend, SELL: token quantity */
+  amount: number;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  slippageBps: number;
+  expiresAt?: string | null;
+}
+
+interface UseRestingOrdersReturn {
+  orders: RestingOrder[];
+  openOrders: RestingOrder[];
+  isLoading: boolean;
+  error: string | null;
+  placeOrder: (input: PlaceRestingOrderInput) => Promise<void>;
+  cancelOrder: (orderId: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+// Recent history shown next to the open book
+const HISTORY_LIMIT = 20;
+
+export function useRestingOrders(userId: string | undefined, strategyId: string): UseRestingOrdersReturn {
+  const [orders, setOrders] = useState<RestingOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    if (!userId) {
+      setOrders([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('resting_orders')
+        .select('id, created_at, symbol, side, order_type, amount, limit_price, stop_price, slippage_bps, status, stop_triggered_at, triggered_price, decision_reason, expires_at')
+        .eq('user_id', userId)
+        .eq('strategy_id', strategyId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (fetchError) throw fetchError;
+
+      // side / order_type / status are CHECK-constrained text columns
+      setOrders((data || []) as RestingOrder[]);
+    } catch (err) {
+      logger.error('[useRestingOrders] Fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch resting orders');
+      setOrders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, strategyId]);
+
+  const placeOrder = useCallback(async (input: PlaceRestingOrderInput) => {
+    if (!userId) throw new Error('Not authenticated');
+
+    const { error: insertError } = await supabase
+      .from('resting_orders')
+      .insert({
+        user_id: userId,
+        strategy_id: strategyId,
+        symbol: input.symbol,
+        side: input.side,
+        order_type: input.orderType,
+        amount: input.amount,
+        limit_price: input.orderType === 'STOP_LOSS' ? null : input.limitPrice ?? null,
+        stop_price: input.orderType === 'LIMIT' ? null : input.stopPrice ?? null,
+        slippage_bps: input.slippageBps,
+        expires_at: input.expiresAt ?? null,
+      });
+
+    if (insertError) throw new Error(insertError.message);
+    await fetchOrders();
+  }, [userId, strategyId, fetchOrders]);
+
+  const cancelOrder = useCallback(async (orderId: string) => {
+    const { error: rpcError } = await supabase.rpc('cancel_resting_order', { p_order_id: orderId });
+    if (rpcError) throw new Error(rpcError.message);
+    await fetchOrders();
+  }, [fetchOrders]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  return {
+    orders,
+    openOrders: orders.filter((o) => o.status === 'OPEN' || o.status === 'TRIGGERED'),
+    isLoading,
+    error,
+    placeOrder,
+    cancelOrder,
+    refetch: fetchOrders,
+  };
+}
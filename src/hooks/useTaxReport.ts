@@ -0,0 +1,140 @@
+/**
+ * useTaxReport
+ *
+ * Year-end realized-gains report for the REAL ledger (mock_trades with
+ * is_test_mode=false), using the same canonical gates as useLiveSellTrades:
+ * not corrupted, not archived, execution confirmed.
+ *
+ * Gas per trade:
+ * - mock_trades.gas_cost_eur when recorded at execution time
+ * - otherwise real_trades receipt gas (receiptGasWei) × current ETH-EUR,
+ *   the same valuation useRealGasSpent uses for the dashboard total
+ *
+ * Matching, short/long split and the 2086 lines live in utils/taxLots.
+ */
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useMarketData } from '@/contexts/MarketDataContext';
+import { receiptGasWei } from '@/hooks/useRealGasSpent';
+import {
+  computeForm2086,
+  computeRealizedGains,
+  type CostBasisMethod,
+  type Form2086Report,
+  type RealizedGainsReport,
+  type TaxTrade,
+} from '@/utils/taxLots';
+
+interface LedgerRow {
+  id: string;
+  trade_type: string;
+  cryptocurrency: string;
+  amount: number;
+  price: number;
+  total_value: number;
+  executed_at: string;
+  gas_cost_eur: number | null;
+}
+
+interface Result {
+  report: RealizedGainsReport | null;
+  form2086: Form2086Report | null;
+  /** Calendar years with at least one REAL SELL, newest first */
+  years: number[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function useTaxReport(year: number, method: CostBasisMethod): Result {
+  const { user } = useAuth();
+  const { marketData } = useMarketData();
+  const [ledger, setLedger] = useState<LedgerRow[]>([]);
+  const [gasWeiByTrade, setGasWeiByTrade] = useState<Map<string, bigint>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setLedger([]);
+      setGasWeiByTrade(new Map());
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [tradesRes, gasRes] = await Promise.all([
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (supabase as any)
+          .from('mock_trades')
+          .select('id, trade_type, cryptocurrency, amount, price, total_value, executed_at, gas_cost_eur')
+          .eq('user_id', user.id)
+          .eq('is_test_mode', false)
+          .eq('is_corrupted', false)
+          .eq('is_archived', false)
+          .eq('execution_confirmed', true)
+          .order('executed_at', { ascending: true }),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (supabase as any)
+          .from('real_trades')
+          .select('trade_id, gas_used, raw_receipt')
+          .eq('user_id', user.id)
+          .eq('execution_status', 'CONFIRMED'),
+      ]);
+      if (tradesRes.error) throw tradesRes.error;
+      if (gasRes.error) throw gasRes.error;
+
+      const gas = new Map<string, bigint>();
+      for (const row of gasRes.data || []) {
+        const wei = receiptGasWei(row);
+        if (wei !== null && row.trade_id) gas.set(row.trade_id, (gas.get(row.trade_id) ?? 0n) + wei);
+      }
+      setLedger((tradesRes.data || []) as LedgerRow[]);
+      setGasWeiByTrade(gas);
+    } catch (err) {
+      console.error('[useTaxReport] error', err);
+      setError(err instanceof Error ? err.message : 'Failed to load REAL ledger');
+      setLedger([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => { refetch(); }, [refetch]);
+
+  const ethPrice = marketData['ETH-EUR']?.price ?? marketData['ETH']?.price ?? null;
+
+  const trades: TaxTrade[] = useMemo(() => ledger
+    .filter((t) => t.trade_type === 'buy' || t.trade_type === 'sell')
+    .map((t) => {
+      const wei = gasWeiByTrade.get(t.id);
+      const receiptGasEur = wei !== undefined && ethPrice ? (Number(wei) / 1e18) * ethPrice : 0;
+      return {
+        id: t.id,
+        trade_type: t.trade_type as 'buy' | 'sell',
+        cryptocurrency: t.cryptocurrency,
+        amount: Number(t.amount),
+        price: Number(t.price),
+        total_value: Number(t.total_value),
+        executed_at: t.executed_at,
+        gasEur: t.gas_cost_eur != null ? Number(t.gas_cost_eur) : receiptGasEur,
+      };
+    }), [ledger, gasWeiByTrade, ethPrice]);
+
+  const years = useMemo(() => [...new Set(
+    trades.filter((t) => t.trade_type === 'sell').map((t) => new Date(t.executed_at).getUTCFullYear()),
+  )].sort((a, b) => b - a), [trades]);
+
+  const report = useMemo(
+    () => (isLoading ? null : computeRealizedGains(trades, { method, year })),
+    [trades, method, year, isLoading],
+  );
+  const form2086 = useMemo(
+    () => (isLoading ? null : computeForm2086(trades, year)),
+    [trades, year, isLoading],
+  );
+
+  return { report, form2086, years, isLoading, error, refetch };
+}
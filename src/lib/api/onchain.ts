@@ -25,4 +25,29 @@ export async function fetchOnchainQuote(payload: {
   
   if (error) throw new Error(error.message);
   return data;
-}
\ No newline at end of file
+}
+export async function signAndSendOnchain(payload: {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  amount: number;
+  slippageBps?: number;
+  provider: '0x';
+  user_id?: string;
+  strategy_id?: string;
+}) {
+  const { data, error } = await supabase.functions.invoke('onchain-sign-and-send', {
+    body: payload
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function pollOnchainReceipt(ref: { tradeId?: string; txHash?: string }) {
+  const { data, error } = await supabase.functions.invoke('onchain-receipts', {
+    body: ref
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
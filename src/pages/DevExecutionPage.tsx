@@ -37,6 +37,31 @@ interface CircuitBreaker {
   trip_reason: string;
 }
 
+interface ExecutionJob {
+  id: string;
+  kind: string;
+  symbol: string;
+  side: string;
+  amount: number;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  tx_hash: string | null;
+  error_message: string | null;
+  created_at: string;
+  lifecycle: string[];
+}
+
+const JOB_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  READY: 'outline',
+  LOCKED: 'secondary',
+  SUBMITTED: 'secondary',
+  CONFIRMED: 'default',
+  FAILED: 'destructive',
+  DEAD_LETTER: 'destructive',
+};
+
 export function DevExecutionPage() {
   const { user } = useAuth();
   const { activeStrategy } = useActiveStrategy();
@@ -47,6 +72,7 @@ export function DevExecutionPage() {
   const [recentLogs, setRecentLogs] = useState<ExecutionLog[]>([]);
   const [breakers, setBreakers] = useState<CircuitBreaker[]>([]);
   const [activeBreakersCount, setActiveBreakersCount] = useState(0);
+  const [jobs, setJobs] = useState<ExecutionJob[]>([]);
 
   const loadData = async () => {
     if (!user || !activeStrategy) return;
@@ -115,6 +141,33 @@ export function DevExecutionPage() {
         trip_reason: b.trip_reason || ''
       })));
 
+      // 4) Execution job queue (last 20, drained by execution-job-worker)
+      const { data: jobRows, error: jErr } = await supabase
+        .from('execution_jobs' as any)
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('strategy_id', activeStrategy.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (jErr) throw jErr;
+
+      setJobs((jobRows || []).map((j: any) => ({
+        id: j.id,
+        kind: j.kind,
+        symbol: j.symbol,
+        side: String(j.side || '').toUpperCase(),
+        amount: Number(j.amount ?? 0),
+        status: j.status,
+        attempts: Number(j.attempts ?? 0),
+        max_attempts: Number(j.max_attempts ?? 0),
+        next_attempt_at: j.next_attempt_at ?? null,
+        tx_hash: j.tx_hash ?? null,
+        error_message: j.error_message ?? null,
+        created_at: j.created_at,
+        lifecycle: (Array.isArray(j.attempt_log) ? j.attempt_log : []).map((e: any) => `#${e.attempt} ${e.outcome}`)
+      })));
+
     } catch (error) {
       console.error('Error loading execution data:', error);
       toast({
@@ -309,6 +362,64 @@ export function DevExecutionPage() {
         </CardContent>
       </Card>
 
+      {/* Execution Jobs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Execution Jobs (Last 20)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {jobs.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No queued execution jobs</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Next Attempt</TableHead>
+                  <TableHead>Lifecycle</TableHead>
+                  <TableHead>Tx / Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell>
+                      <div className="font-medium">{job.kind} {job.side} {job.symbol}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {job.amount} · {new Date(job.created_at).toLocaleString()}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={JOB_STATUS_VARIANT[job.status] ?? 'outline'}>
+                        {job.status.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{job.attempts}/{job.max_attempts}</TableCell>
+                    <TableCell>
+                      {job.status === 'READY' && job.next_attempt_at
+                        ? new Date(job.next_attempt_at).toLocaleString()
+                        : '—'
+                      }
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {job.lifecycle.length > 0 ? job.lifecycle.join(' → ') : '—'}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono max-w-[240px] truncate">
+                      {job.tx_hash
+                        ? job.tx_hash
+                        : <span className="text-destructive">{job.error_message || '—'}</span>
+                      }
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Circuit Breakers */}
       <Card>
         <CardHeader>
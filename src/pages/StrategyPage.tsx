@@ -3,7 +3,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { StrategyConfig } from "@/components/StrategyConfig";
 import { StrategyBacktest } from "@/components/strategy/StrategyBacktest";
+import { StrategyParameterSweep } from "@/components/strategy/StrategyParameterSweep";
 import { PerformanceDashboard } from "@/components/strategy/PerformanceDashboard";
+import { StrategyExperiments } from "@/components/strategy/StrategyExperiments";
 import { StrategyAutomation } from "@/components/strategy/StrategyAutomation";
 import { RiskManagementPanel } from "@/components/RiskManagementPanel";
 import { Bot, BarChart3, Activity, Settings, Shield } from 'lucide-react';
@@ -58,10 +60,12 @@ export default function StrategyPage() {
 
         <TabsContent value="backtesting" className="space-y-6">
           <StrategyBacktest />
+          <StrategyParameterSweep />
         </TabsContent>
 
         <TabsContent value="performance" className="space-y-6">
           <PerformanceDashboard />
+          <StrategyExperiments />
         </TabsContent>
 
         <TabsContent value="risk" className="space-y-6">
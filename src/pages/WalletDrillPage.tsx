@@ -31,6 +31,7 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Copy, ArrowDownToLine, AlertTriangle, Server, User, Shield, Info, RefreshCw, CheckCircle, XCircle } from "lucide-react";
 import { ManualTradeCard } from "@/components/wallet/ManualTradeCard";
 import { SystemTradeHistory } from "@/components/wallet/SystemTradeHistory";
+import type { WithdrawalReason } from "@/utils/withdrawalQueue";
 
 interface WalletInfo {
   wallet_id: string;
@@ -43,6 +44,9 @@ interface WalletInfo {
 interface WithdrawResult {
   success: boolean;
   tx_hash?: string;
+  /** Set when the withdrawal was queued for admin approval instead of sent */
+  pending_request_id?: string;
+  reasons?: WithdrawalReason[];
   error?: string;
 }
 
@@ -387,6 +391,13 @@ export default function WalletDrillPage() {
           success: false,
           error: result.error || `HTTP ${response.status}`,
         });
+      } else if (result.success && result.status === "pending_approval") {
+        // Above the approval threshold: queued, nothing was sent yet
+        setWithdrawResult({
+          success: true,
+          pending_request_id: result.request_id,
+          reasons: result.reasons ?? [],
+        });
       } else if (result.success) {
         setWithdrawResult({
           success: true,
@@ -844,7 +855,17 @@ export default function WalletDrillPage() {
                     : "bg-destructive/10 border border-destructive/20 text-destructive"
                 }`}
               >
-                {withdrawResult.success ? (
+                {withdrawResult.success && withdrawResult.pending_request_id ? (
+                  <>
+                    <div>
+                      <strong>Awaiting approval</strong> — another admin must approve this withdrawal before it is sent.
+                    </div>
+                    <div className="font-mono text-xs mt-1 break-all">request_id: {withdrawResult.pending_request_id}</div>
+                    {withdrawResult.reasons?.map((reason) => (
+                      <div key={reason.code} className="text-xs mt-1">{reason.message}</div>
+                    ))}
+                  </>
+                ) : withdrawResult.success ? (
                   <>
                     <div>
                       <strong>Success!</strong>
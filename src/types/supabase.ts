@@ -1512,6 +1512,84 @@ export type Database = {
         }
         Relationships: []
       }
+      resting_orders: {
+        Row: {
+          amount: number
+          coordinator_request_id: string | null
+          created_at: string
+          decision_action: string | null
+          decision_reason: string | null
+          expires_at: string | null
+          fire_attempts: number
+          id: string
+          limit_price: number | null
+          order_type: string
+          side: string
+          slippage_bps: number
+          status: string
+          stop_price: number | null
+          stop_triggered_at: string | null
+          strategy_id: string
+          symbol: string
+          trade_id: string | null
+          triggered_at: string | null
+          triggered_price: number | null
+          tx_hash: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          coordinator_request_id?: string | null
+          created_at?: string
+          decision_action?: string | null
+          decision_reason?: string | null
+          expires_at?: string | null
+          fire_attempts?: number
+          id?: string
+          limit_price?: number | null
+          order_type: string
+          side: string
+          slippage_bps?: number
+          status?: string
+          stop_price?: number | null
+          stop_triggered_at?: string | null
+          strategy_id: string
+          symbol: string
+          trade_id?: string | null
+          triggered_at?: string | null
+          triggered_price?: number | null
+          tx_hash?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          coordinator_request_id?: string | null
+          created_at?: string
+          decision_action?: string | null
+          decision_reason?: string | null
+          expires_at?: string | null
+          fire_attempts?: number
+          id?: string
+          limit_price?: number | null
+          order_type?: string
+          side?: string
+          slippage_bps?: number
+          status?: string
+          stop_price?: number | null
+          stop_triggered_at?: string | null
+          strategy_id?: string
+          symbol?: string
+          trade_id?: string | null
+          triggered_at?: string | null
+          triggered_price?: number | null
+          tx_hash?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       scheduler_execution_log: {
         Row: {
           created_at: string
@@ -1584,6 +1662,78 @@ export type Database = {
         }
         Relationships: []
       }
+      strategy_experiments: {
+        Row: {
+          alpha: number
+          control_strategy_id: string
+          created_at: string
+          ended_at: string | null
+          hypothesis: string | null
+          id: string
+          last_evaluated_at: string | null
+          max_duration_days: number
+          min_trades_per_arm: number
+          name: string
+          primary_metric: string
+          result: Json | null
+          split_config: Json
+          split_mode: string
+          started_at: string
+          status: string
+          stopped_reason: string | null
+          updated_at: string
+          user_id: string
+          variant_strategy_id: string
+          winner: string | null
+        }
+        Insert: {
+          alpha?: number
+          control_strategy_id: string
+          created_at?: string
+          ended_at?: string | null
+          hypothesis?: string | null
+          id?: string
+          last_evaluated_at?: string | null
+          max_duration_days?: number
+          min_trades_per_arm?: number
+          name: string
+          primary_metric?: string
+          result?: Json | null
+          split_config?: Json
+          split_mode: string
+          started_at?: string
+          status?: string
+          stopped_reason?: string | null
+          updated_at?: string
+          user_id: string
+          variant_strategy_id: string
+          winner?: string | null
+        }
+        Update: {
+          alpha?: number
+          control_strategy_id?: string
+          created_at?: string
+          ended_at?: string | null
+          hypothesis?: string | null
+          id?: string
+          last_evaluated_at?: string | null
+          max_duration_days?: number
+          min_trades_per_arm?: number
+          name?: string
+          primary_metric?: string
+          result?: Json | null
+          split_config?: Json
+          split_mode?: string
+          started_at?: string
+          status?: string
+          stopped_reason?: string | null
+          updated_at?: string
+          user_id?: string
+          variant_strategy_id?: string
+          winner?: string | null
+        }
+        Relationships: []
+      }
       strategy_performance: {
         Row: {
           average_gain: number | null
@@ -1745,6 +1895,7 @@ export type Database = {
           configuration: Json
           created_at: string
           description: string | null
+          execution_target: string | null
           id: string
           is_active: boolean
           is_test_mode: boolean
@@ -1757,6 +1908,7 @@ export type Database = {
           configuration?: Json
           created_at?: string
           description?: string | null
+          execution_target?: string | null
           id?: string
           is_active?: boolean
           is_test_mode?: boolean
@@ -1769,6 +1921,7 @@ export type Database = {
           configuration?: Json
           created_at?: string
           description?: string | null
+          execution_target?: string | null
           id?: string
           is_active?: boolean
           is_test_mode?: boolean
@@ -1842,6 +1995,111 @@ export type Database = {
         }
         Relationships: []
       }
+      withdrawal_policies: {
+        Row: {
+          approval_threshold: number | null
+          asset: string
+          cooling_off_hours: number
+          created_at: string
+          daily_limit: number | null
+          id: string
+          is_active: boolean
+          require_allowlist: boolean
+          updated_at: string
+          user_id: string | null
+          weekly_limit: number | null
+        }
+        Insert: {
+          approval_threshold?: number | null
+          asset: string
+          cooling_off_hours?: number
+          created_at?: string
+          daily_limit?: number | null
+          id?: string
+          is_active?: boolean
+          require_allowlist?: boolean
+          updated_at?: string
+          user_id?: string | null
+          weekly_limit?: number | null
+        }
+        Update: {
+          approval_threshold?: number | null
+          asset?: string
+          cooling_off_hours?: number
+          created_at?: string
+          daily_limit?: number | null
+          id?: string
+          is_active?: boolean
+          require_allowlist?: boolean
+          updated_at?: string
+          user_id?: string | null
+          weekly_limit?: number | null
+        }
+        Relationships: []
+      }
+      withdrawal_requests: {
+        Row: {
+          amount: number
+          asset: string
+          chain_id: number
+          created_at: string
+          error: string | null
+          evaluation: Json
+          id: string
+          requested_by: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source: string
+          status: string
+          to_address: string
+          tx_hash: string | null
+          updated_at: string
+          user_id: string
+          wallet_id: string | null
+        }
+        Insert: {
+          amount: number
+          asset: string
+          chain_id?: number
+          created_at?: string
+          error?: string | null
+          evaluation?: Json
+          id?: string
+          requested_by: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source: string
+          status: string
+          to_address: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id: string
+          wallet_id?: string | null
+        }
+        Update: {
+          amount?: number
+          asset?: string
+          chain_id?: number
+          created_at?: string
+          error?: string | null
+          evaluation?: Json
+          id?: string
+          requested_by?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source?: string
+          status?: string
+          to_address?: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id?: string
+          wallet_id?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       execution_quality_metrics_24h: {
@@ -1913,6 +2171,28 @@ export type Database = {
         }
         Returns: string
       }
+      cancel_resting_order: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: Database["public"]["Tables"]["resting_orders"]["Row"]
+      }
+      create_withdrawal_request: {
+        Args: {
+          p_user_id: string
+          p_requested_by: string
+          p_source: string
+          p_wallet_id: string
+          p_asset: string
+          p_amount: number
+          p_to_address: string
+          p_chain_id: number
+          p_pending: boolean
+          p_evaluation?: Json
+          p_rate_limit_seconds?: number
+        }
+        Returns: Json
+      }
       dearmor: {
         Args: {
           "": string
@@ -2039,6 +2319,29 @@ export type Database = {
         }
         Returns: undefined
       }
+      review_withdrawal_request: {
+        Args: {
+          p_request_id: string
+          p_approve: boolean
+          p_note?: string
+        }
+        Returns: Json
+      }
+      start_strategy_experiment: {
+        Args: {
+          p_name: string
+          p_control_strategy_id: string
+          p_variant_strategy_id: string
+          p_split_mode: string
+          p_split_config?: Json
+          p_primary_metric?: string
+          p_alpha?: number
+          p_min_trades_per_arm?: number
+          p_max_duration_days?: number
+          p_hypothesis?: string
+        }
+        Returns: string
+      }
       trip_breaker: {
         Args: {
           p_user: string
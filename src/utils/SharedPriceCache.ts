@@ -1,5 +1,6 @@
 // Simple price cache with TTL for reducing redundant API calls
-// Only MarketDataContext writes to this cache, other components read from it
+// Only MarketDataContext writes to this cache (streamed prices every ~1s,
+// REST polls as fallback), other components read from it
 
 interface CachedPrice {
   symbol: string;
@@ -20,7 +21,8 @@ declare global {
 
 class SharedPriceCache {
   private cache = new Map<string, CachedPrice>();
-  // TTL must be >= polling interval (60s) to prevent price flickering
+  // TTL must be >= the fallback polling interval (60s) to prevent price flickering
+  // when the stream drops; while streaming, entries are refreshed every second
   private readonly TTL_MS = 120000; // 2 minutes (buffer for polling + network delays)
 
   set(symbol: string, price: number, bid: number, ask: number): void {
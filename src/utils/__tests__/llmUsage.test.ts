@@ -0,0 +1,60 @@
+/**
+ * LLM Usage (UI) Tests
+ *
+ * Validates:
+ * 1. Rows roll up per user, including calls without a user
+ * 2. Failures are counted and the latest call time is kept
+ * 3. Most expensive users come first
+ */
+
+import { describe, it, expect } from 'vitest';
+import { summarizeLlmUsage, type LlmUsageRow } from '@/utils/llmUsage';
+
+const row = (overrides: Partial<LlmUsageRow>): LlmUsageRow => ({
+  user_id: 'user-1',
+  function_name: 'parse-strategy',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  input_tokens: 1000,
+  output_tokens: 500,
+  cost_usd: 0.00045,
+  success: true,
+  created_at: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('summarizeLlmUsage', () => {
+  it('rolls rows up per user', () => {
+    const summary = summarizeLlmUsage([
+      row({}),
+      row({ success: false, input_tokens: 0, output_tokens: 0, cost_usd: 0, created_at: '2026-10-03T00:00:00.000Z' }),
+      row({ cost_usd: '0.00045', created_at: '2026-10-02T00:00:00.000Z' }),
+      row({ user_id: null, function_name: 'ai-strategy-optimizer', cost_usd: 0.1 }),
+    ]);
+
+    expect(summary).toEqual([
+      {
+        user_id: null,
+        calls: 1,
+        failures: 0,
+        input_tokens: 1000,
+        output_tokens: 500,
+        cost_usd: 0.1,
+        last_used_at: '2026-10-01T00:00:00.000Z',
+      },
+      {
+        user_id: 'user-1',
+        calls: 3,
+        failures: 1,
+        input_tokens: 2000,
+        output_tokens: 1000,
+        cost_usd: 0.0009,
+        last_used_at: '2026-10-03T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('is empty without rows', () => {
+    expect(summarizeLlmUsage([])).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Model Registry (UI) Tests
+ *
+ * Validates:
+ * 1. Offline metrics must be a flat JSON object of numbers
+ * 2. The champion cannot be changed outside promotion
+ * 3. Models sort champion first, newest first within a status
+ * 4. Ratio and P&L formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canPromote,
+  formatPnlPct,
+  formatRatio,
+  isValidSignalThreshold,
+  MODEL_STATUS_TRANSITIONS,
+  parseOfflineMetrics,
+  sortModels,
+} from '@/utils/modelRegistry';
+
+describe('parseOfflineMetrics', () => {
+  it('accepts an empty field and a flat object of numbers', () => {
+    expect(parseOfflineMetrics('  ')).toEqual({ metrics: {} });
+    expect(parseOfflineMetrics('{"auc": 0.71, "precision": 0.6}')).toEqual({ metrics: { auc: 0.71, precision: 0.6 } });
+  });
+
+  it('rejects invalid JSON, arrays and non-numeric values', () => {
+    expect(parseOfflineMetrics('{auc')).toEqual({ error: 'Offline metrics must be valid JSON' });
+    expect(parseOfflineMetrics('[0.7]')).toEqual({ error: 'Offline metrics must be a JSON object' });
+    expect(parseOfflineMetrics('{"auc": "0.7"}')).toEqual({ error: 'Offline metric "auc" must be a number' });
+  });
+});
+
+describe('status rules', () => {
+  it('only promotes shadow and challenger models', () => {
+    expect(canPromote('shadow')).toBe(true);
+    expect(canPromote('challenger')).toBe(true);
+    expect(canPromote('champion')).toBe(false);
+    expect(canPromote('retired')).toBe(false);
+  });
+
+  it('never moves a model to or from champion directly', () => {
+    expect(MODEL_STATUS_TRANSITIONS.champion).toEqual([]);
+    for (const targets of Object.values(MODEL_STATUS_TRANSITIONS)) {
+      expect(targets).not.toContain('champion');
+    }
+  });
+
+  it('requires a threshold strictly between 0 and 1', () => {
+    expect(isValidSignalThreshold(0.94)).toBe(true);
+    expect(isValidSignalThreshold(0)).toBe(false);
+    expect(isValidSignalThreshold(1)).toBe(false);
+    expect(isValidSignalThreshold(NaN)).toBe(false);
+  });
+});
+
+describe('sortModels', () => {
+  it('puts the champion first and newest models first within a status', () => {
+    const sorted = sortModels([
+      { id: 'old-shadow', status: 'shadow' as const, created_at: '2026-10-01' },
+      { id: 'retired', status: 'retired' as const, created_at: '2026-10-05' },
+      { id: 'new-shadow', status: 'shadow' as const, created_at: '2026-10-03' },
+      { id: 'champion', status: 'champion' as const, created_at: '2026-09-01' },
+      { id: 'challenger', status: 'challenger' as const, created_at: '2026-10-02' },
+    ]);
+    expect(sorted.map((m) => m.id)).toEqual(['champion', 'challenger', 'new-shadow', 'old-shadow', 'retired']);
+  });
+});
+
+describe('formatting', () => {
+  it('formats ratios and signed P&L', () => {
+    expect(formatRatio(0.6432)).toBe('64.3%');
+    expect(formatRatio(null)).toBe('—');
+    expect(formatPnlPct(1.5)).toBe('+1.50%');
+    expect(formatPnlPct(-0.25)).toBe('-0.25%');
+    expect(formatPnlPct(undefined)).toBe('—');
+  });
+});
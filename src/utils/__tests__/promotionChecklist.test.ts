@@ -0,0 +1,32 @@
+/**
+ * Promotion Checklist (UI) Tests
+ *
+ * Validates:
+ * 1. Check details show value against threshold
+ * 2. Missing data is named instead of shown as a number
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPromotionCheck, type PromotionCheck } from '@/utils/promotionChecklist';
+
+const check = (overrides: Partial<PromotionCheck> & Pick<PromotionCheck, 'id'>): PromotionCheck => ({
+  passed: false,
+  value: null,
+  threshold: null,
+  ...overrides,
+});
+
+describe('formatPromotionCheck', () => {
+  it('shows value against threshold', () => {
+    expect(formatPromotionCheck(check({ id: 'mock_sample_size', value: 42, threshold: 50 }))).toBe('42 / 50 closed trades');
+    expect(formatPromotionCheck(check({ id: 'win_rate', value: 0.5234, threshold: 0.45 }))).toBe('52% (min 45%)');
+    expect(formatPromotionCheck(check({ id: 'calibration', value: 0.082, threshold: 0.15 }))).toBe('error 8.2% (max 15.0%)');
+    expect(formatPromotionCheck(check({ id: 'experiment', value: 'lost' }))).toBe('lost its experiment');
+  });
+
+  it('names missing data', () => {
+    expect(formatPromotionCheck(check({ id: 'max_drawdown', threshold: 15 }))).toBe('no MOCK capital to measure');
+    expect(formatPromotionCheck(check({ id: 'calibration', threshold: 0.15 }))).toBe('no calibration data yet');
+    expect(formatPromotionCheck(check({ id: 'rules_accepted' }))).toBe('');
+  });
+});
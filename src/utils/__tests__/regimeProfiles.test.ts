@@ -0,0 +1,75 @@
+/**
+ * Regime Profiles Tests
+ *
+ * Validates:
+ * 1. Field / regime lists stay in sync with the coordinator's resolver
+ * 2. Sanitizing profiles (unknown regimes / fields, invalid values, empties)
+ * 3. Export / import round trip through strategySerializer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MARKET_REGIMES, REGIME_PROFILE_FIELDS, cleanRegimeProfiles } from '@/utils/regimeProfiles';
+import { deserializeStrategy, exportedStrategyToFormData, serializeStrategy } from '@/utils/strategySerializer';
+import {
+  REGIME_PROFILE_FIELDS as COORDINATOR_FIELDS,
+  VOLATILITY_REGIMES,
+} from '../../../supabase/functions/_shared/volatilityRegime';
+
+describe('regime profile definitions', () => {
+  it('mirror the coordinator regimes and overridable fields', () => {
+    expect(MARKET_REGIMES.map((r) => r.id)).toEqual(VOLATILITY_REGIMES);
+    expect(REGIME_PROFILE_FIELDS.map((f) => f.key)).toEqual([...COORDINATOR_FIELDS]);
+  });
+});
+
+describe('cleanRegimeProfiles', () => {
+  it('keeps known regimes and fields with non-negative numbers', () => {
+    expect(
+      cleanRegimeProfiles({
+        trend_up: { takeProfitPercentage: 4, stopLossPercentage: '2.5', selectedCoins: ['BTC'] },
+        high_vol_shock: { stopLossPercentage: -1, spreadThresholdBps: '' },
+        sideways: { takeProfitPercentage: 1 },
+      }),
+    ).toEqual({ trend_up: { takeProfitPercentage: 4, stopLossPercentage: 2.5 } });
+  });
+
+  it('returns undefined when nothing is left', () => {
+    expect(cleanRegimeProfiles(undefined)).toBeUndefined();
+    expect(cleanRegimeProfiles([])).toBeUndefined();
+    expect(cleanRegimeProfiles({ trend_down: {} })).toBeUndefined();
+  });
+});
+
+describe('strategySerializer round trip', () => {
+  it('exports, validates and re-imports regime profiles', () => {
+    const exported = serializeStrategy({
+      strategy_name: 'Regime aware',
+      configuration: {
+        takeProfitPercentage: 2,
+        regimeProfiles: {
+          trend_up: { takeProfitPercentage: 4 },
+          high_vol_shock: { stopLossPercentage: 5, perTradeAllocation: 25 },
+          bogus: { takeProfitPercentage: 9 },
+        },
+      },
+    });
+    expect(exported.configuration.regimeProfiles).toEqual({
+      trend_up: { takeProfitPercentage: 4 },
+      high_vol_shock: { stopLossPercentage: 5, perTradeAllocation: 25 },
+    });
+
+    const imported = deserializeStrategy(JSON.parse(JSON.stringify(exported)));
+    expect(imported.valid).toBe(true);
+    expect(exportedStrategyToFormData(imported.data!).regimeProfiles).toEqual(exported.configuration.regimeProfiles);
+  });
+
+  it('rejects unknown fields inside an imported profile', () => {
+    const exported = serializeStrategy({ strategy_name: 'x', configuration: {} });
+    const tampered = JSON.parse(JSON.stringify(exported));
+    tampered.configuration.regimeProfiles = { trend_up: { maxWalletExposure: 100 } };
+
+    const result = deserializeStrategy(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.errors.join(' ')).toContain('regimeProfiles.trend_up');
+  });
+});
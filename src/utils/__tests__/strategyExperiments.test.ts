@@ -0,0 +1,17 @@
+/**
+ * Strategy Experiments (UI) Tests
+ *
+ * Validates:
+ * 1. Interval labels, including unbounded intervals
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatInterval } from '@/utils/strategyExperiments';
+
+describe('formatInterval', () => {
+  it('formats signed, scaled intervals', () => {
+    expect(formatInterval({ diff: 0.125, lower: -0.05, upper: 0.3 }, 100, 1)).toBe('+12.5 [-5.0, +30.0]');
+    expect(formatInterval({ diff: 0, lower: null, upper: null })).toBe('+0.00 [-∞, +∞]');
+    expect(formatInterval(undefined)).toBe('—');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Strategy Version Diff Tests
+ *
+ * Validates:
+ * 1. Flattening nested configuration to dotted paths (arrays are leaves)
+ * 2. Added / removed / changed detection across configuration and symbol parameters
+ * 3. Grouping by FIELD_DIMENSIONS, with strategy_parameters columns aliased
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffConfigVersions, flattenConfig, groupDiffByDimension } from '@/utils/strategyVersionDiff';
+
+describe('flattenConfig', () => {
+  it('flattens nested objects and keeps arrays as leaves', () => {
+    expect(
+      flattenConfig({
+        takeProfitPercentage: 2,
+        selectedCoins: ['BTC', 'ETH'],
+        aiIntelligenceConfig: { aiConfidenceThreshold: 70, features: { news: true } },
+        empty: {},
+      })
+    ).toEqual({
+      takeProfitPercentage: 2,
+      selectedCoins: ['BTC', 'ETH'],
+      'aiIntelligenceConfig.aiConfidenceThreshold': 70,
+      'aiIntelligenceConfig.features.news': true,
+      empty: {},
+    });
+  });
+});
+
+describe('diffConfigVersions', () => {
+  const v1 = {
+    configuration: { takeProfitPercentage: 2, stopLossPercentage: 1, selectedCoins: ['BTC'], notes: 'a' },
+    symbol_parameters: { BTC: { tp_pct: 1.5, sl_pct: 0.8, min_confidence: 0.6 } },
+  };
+  const v2 = {
+    configuration: { takeProfitPercentage: 2.5, stopLossPercentage: 1, selectedCoins: ['BTC', 'ETH'], minHoldPeriodMs: 60000 },
+    symbol_parameters: { BTC: { tp_pct: 1.8, sl_pct: 0.8, min_confidence: 0.6 } },
+  };
+
+  it('reports changed, added and removed fields sorted by path', () => {
+    expect(diffConfigVersions(v1, v2)).toEqual([
+      { path: 'minHoldPeriodMs', field: 'minHoldPeriodMs', before: undefined, after: 60000, kind: 'added' },
+      { path: 'notes', field: 'notes', before: 'a', after: undefined, kind: 'removed' },
+      { path: 'selectedCoins', field: 'selectedCoins', before: ['BTC'], after: ['BTC', 'ETH'], kind: 'changed' },
+      { path: 'symbol_parameters.BTC.tp_pct', field: 'tp_pct', before: 1.5, after: 1.8, kind: 'changed' },
+      { path: 'takeProfitPercentage', field: 'takeProfitPercentage', before: 2, after: 2.5, kind: 'changed' },
+    ]);
+  });
+
+  it('treats a missing previous version as all fields added', () => {
+    const entries = diffConfigVersions(null, v1);
+    expect(entries).toHaveLength(7);
+    expect(entries.every((e) => e.kind === 'added')).toBe(true);
+  });
+
+  it('returns nothing for identical snapshots', () => {
+    expect(diffConfigVersions(v1, structuredClone(v1))).toEqual([]);
+  });
+});
+
+describe('groupDiffByDimension', () => {
+  it('groups in dimension order and puts unknown fields under Other', () => {
+    const groups = groupDiffByDimension(
+      diffConfigVersions(
+        {
+          configuration: { stopLossCooldownMs: 1000, minTrendScoreForBuy: 0.3, notes: 'x' },
+          symbol_parameters: { ETH: { sl_pct: 1, min_confidence: 0.5 } },
+        },
+        {
+          configuration: { stopLossCooldownMs: 2000, minTrendScoreForBuy: 0.4, notes: 'y' },
+          symbol_parameters: { ETH: { sl_pct: 1.2, min_confidence: 0.55 } },
+        }
+      )
+    );
+
+    expect(groups.map((g) => [g.id, g.label, g.entries.map((e) => e.path)])).toEqual([
+      ['risk', 'Risk', ['symbol_parameters.ETH.sl_pct']],
+      ['signals', 'Signals', ['minTrendScoreForBuy', 'symbol_parameters.ETH.min_confidence']],
+      ['safety', 'Safety', ['stopLossCooldownMs']],
+      ['other', 'Other', ['notes']],
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tax Lots Tests
+ *
+ * Validates:
+ * 1. FIFO / LIFO / HIFO / AVERAGE matching on the same ledger
+ * 2. Gas: BUY gas capitalized, SELL gas deducted from proceeds
+ * 3. Short/long split and year filtering with carried-in cost basis
+ * 4. French 2086 global-portfolio computation
+ * 5. CSV exports
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeForm2086,
+  computeRealizedGains,
+  form2086ToCsv,
+  realizedGainsToCsv,
+  type TaxTrade,
+} from '@/utils/taxLots';
+
+function trade(
+  id: string,
+  side: 'buy' | 'sell',
+  symbol: string,
+  amount: number,
+  price: number,
+  executedAt: string,
+  gasEur = 0,
+): TaxTrade {
+  return {
+    id,
+    trade_type: side,
+    cryptocurrency: symbol,
+    amount,
+    price,
+    total_value: amount * price,
+    executed_at: executedAt,
+    gasEur,
+  };
+}
+
+// Two ETH lots at different prices, then a partial sell
+const LEDGER: TaxTrade[] = [
+  trade('b1', 'buy', 'ETH', 1, 1000, '2025-01-10T00:00:00.000Z'),
+  trade('b2', 'buy', 'ETH', 1, 3000, '2025-06-10T00:00:00.000Z'),
+  trade('b3', 'buy', 'ETH', 1, 2000, '2025-09-10T00:00:00.000Z'),
+  trade('s1', 'sell', 'ETH-EUR', 1.5, 2500, '2025-12-01T00:00:00.000Z'),
+];
+
+describe('computeRealizedGains', () => {
+  it('matches FIFO oldest first', () => {
+    const r = computeRealizedGains(LEDGER, { method: 'FIFO' });
+    expect(r.disposals.map((d) => [d.lotId, d.amount])).toEqual([['b1', 1], ['b2', 0.5]]);
+    expect(r.totals.costBasisEur).toBeCloseTo(2500, 8);
+    expect(r.totals.netGainEur).toBeCloseTo(3750 - 2500, 8);
+  });
+
+  it('matches LIFO newest first', () => {
+    const r = computeRealizedGains(LEDGER, { method: 'LIFO' });
+    expect(r.disposals.map((d) => [d.lotId, d.amount])).toEqual([['b3', 1], ['b2', 0.5]]);
+    expect(r.totals.costBasisEur).toBeCloseTo(3500, 8);
+  });
+
+  it('matches HIFO highest unit cost first', () => {
+    const r = computeRealizedGains(LEDGER, { method: 'HIFO' });
+    expect(r.disposals.map((d) => [d.lotId, d.amount])).toEqual([['b2', 1], ['b3', 0.5]]);
+    expect(r.totals.costBasisEur).toBeCloseTo(4000, 8);
+  });
+
+  it('uses the pooled average cost', () => {
+    const r = computeRealizedGains(LEDGER, { method: 'AVERAGE' });
+    expect(r.totals.costBasisEur).toBeCloseTo(1.5 * 2000, 8);
+    // Holding periods still follow FIFO acquisitions
+    expect(r.disposals[0].lotId).toBe('b1');
+  });
+
+  it('capitalizes BUY gas and deducts SELL gas', () => {
+    const r = computeRealizedGains(
+      [
+        trade('b1', 'buy', 'BTC', 0.1, 40000, '2025-01-01T00:00:00.000Z', 2),
+        trade('s1', 'sell', 'BTC', 0.1, 50000, '2025-02-01T00:00:00.000Z', 3),
+      ],
+      { method: 'FIFO' },
+    );
+    expect(r.totals.costBasisEur).toBeCloseTo(4002, 8);
+    expect(r.totals.feesEur).toBeCloseTo(3, 8);
+    expect(r.totals.netGainEur).toBeCloseTo(5000 - 4002 - 3, 8);
+  });
+
+  it('splits short and long term and carries basis into the reported year', () => {
+    const ledger = [
+      trade('b1', 'buy', 'SOL', 10, 20, '2023-03-01T00:00:00.000Z'),
+      trade('b2', 'buy', 'SOL', 10, 100, '2025-03-01T00:00:00.000Z'),
+      trade('s0', 'sell', 'SOL', 5, 50, '2024-01-01T00:00:00.000Z'),
+      trade('s1', 'sell', 'SOL', 10, 150, '2025-06-01T00:00:00.000Z'),
+    ];
+    const r = computeRealizedGains(ledger, { method: 'FIFO', year: 2025 });
+
+    expect(r.disposals.every((d) => d.sellTradeId === 's1')).toBe(true);
+    const long = r.disposals.find((d) => d.term === 'LONG')!;
+    const short = r.disposals.find((d) => d.term === 'SHORT')!;
+    expect(long).toMatchObject({ lotId: 'b1', amount: 5 });
+    expect(short).toMatchObject({ lotId: 'b2', amount: 5 });
+    expect(r.totals.longTermGainEur).toBeCloseTo(5 * (150 - 20), 8);
+    expect(r.totals.shortTermGainEur).toBeCloseTo(5 * (150 - 100), 8);
+  });
+
+  it('reports quantity sold beyond known holdings at zero basis', () => {
+    const r = computeRealizedGains(
+      [trade('s1', 'sell', 'ETH', 0.5, 2000, '2025-01-01T00:00:00.000Z')],
+      { method: 'FIFO' },
+    );
+    expect(r.disposals[0]).toMatchObject({ lotId: null, costBasisEur: 0, term: 'SHORT' });
+    expect(r.unmatchedBySymbol).toEqual({ ETH: 0.5 });
+  });
+});
+
+describe('computeForm2086', () => {
+  it('releases the disposed share of the global acquisition price', () => {
+    const ledger = [
+      trade('b1', 'buy', 'BTC', 1, 10000, '2025-01-01T00:00:00.000Z'),
+      trade('b2', 'buy', 'ETH', 10, 1000, '2025-01-02T00:00:00.000Z'),
+      trade('s1', 'sell', 'BTC', 0.5, 20000, '2025-06-01T00:00:00.000Z', 10),
+      trade('s2', 'sell', 'ETH', 5, 2000, '2025-07-01T00:00:00.000Z'),
+    ];
+    const form = computeForm2086(ledger, 2025);
+
+    const [first, second] = form.lines;
+    // 212 = 1 BTC @ 20000 + 10 ETH @ 1000 (last known)
+    expect(first.portfolioValueEur).toBeCloseTo(30000, 8);
+    expect(first.totalAcquisitionEur).toBeCloseTo(20000, 8);
+    // 224 = (10000 - 10) - 20000 × 10000 / 30000
+    expect(first.gainEur).toBeCloseTo(9990 - 20000 / 3, 6);
+
+    expect(second.priorCapitalFractionsEur).toBeCloseTo(20000 / 3, 6);
+    // 212 = 0.5 BTC @ 20000 + 10 ETH @ 2000
+    expect(second.portfolioValueEur).toBeCloseTo(30000, 8);
+    expect(second.gainEur).toBeCloseTo(10000 - (20000 - 20000 / 3) * (10000 / 30000), 6);
+
+    expect(form.netGainEur).toBeCloseTo(first.gainEur + second.gainEur, 8);
+  });
+
+  it('uses the supplied price source for other holdings', () => {
+    const ledger = [
+      trade('b1', 'buy', 'BTC', 1, 10000, '2025-01-01T00:00:00.000Z'),
+      trade('b2', 'buy', 'ETH', 10, 1000, '2025-01-02T00:00:00.000Z'),
+      trade('s1', 'sell', 'BTC', 0.5, 20000, '2025-06-01T00:00:00.000Z'),
+    ];
+    const form = computeForm2086(ledger, 2025, (sym) => (sym === 'ETH' ? 3000 : null));
+    expect(form.lines[0].portfolioValueEur).toBeCloseTo(50000, 8);
+  });
+});
+
+describe('CSV export', () => {
+  it('writes one row per matched lot', () => {
+    const csv = realizedGainsToCsv(computeRealizedGains(LEDGER, { method: 'FIFO' }));
+    const lines = csv.split('\n');
+    expect(lines[0]).toBe(
+      'disposal_date,asset,quantity,acquired_date,proceeds_eur,fees_eur,cost_basis_eur,gain_eur,holding_days,term,method,sell_trade_id,lot_id',
+    );
+    expect(lines[1]).toBe('2025-12-01T00:00:00.000Z,ETH,1,2025-01-10T00:00:00.000Z,2500,0,1000,1500,325,SHORT,FIFO,s1,b1');
+    expect(lines).toHaveLength(3);
+  });
+
+  it('labels 2086 columns and the 2042-C box', () => {
+    const csv = form2086ToCsv(computeForm2086(LEDGER, 2025));
+    expect(csv.split('\n')[0]).toMatch(/^211_date_cession,212_valeur_globale_portefeuille,213_prix_cession/);
+    expect(csv).toMatch(/\ntotal_3AN,\d/);
+  });
+});
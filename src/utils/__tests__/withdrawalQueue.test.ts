@@ -0,0 +1,41 @@
+/**
+ * Withdrawal Queue (UI) Tests
+ *
+ * Validates:
+ * 1. Only pending and approved-but-unsent requests are listed, oldest first
+ * 2. Requesters cannot review their own withdrawals
+ * 3. Velocity and address formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { actionableWithdrawals, canReview, formatVelocity, shortAddress } from '@/utils/withdrawalQueue';
+
+describe('actionableWithdrawals', () => {
+  it('keeps pending and approved requests, oldest first', () => {
+    const queue = actionableWithdrawals([
+      { id: 'b', status: 'pending_approval' as const, created_at: '2026-10-18T02:00:00Z' },
+      { id: 'sent', status: 'submitted' as const, created_at: '2026-10-18T00:00:00Z' },
+      { id: 'a', status: 'approved' as const, created_at: '2026-10-18T01:00:00Z' },
+      { id: 'no', status: 'rejected' as const, created_at: '2026-10-18T00:30:00Z' },
+    ]);
+    expect(queue.map((r) => r.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('canReview', () => {
+  it('requires a pending request from someone else', () => {
+    expect(canReview({ status: 'pending_approval', requested_by: 'u1' }, 'admin')).toBe(true);
+    expect(canReview({ status: 'pending_approval', requested_by: 'admin' }, 'admin')).toBe(false);
+    expect(canReview({ status: 'approved', requested_by: 'u1' }, 'admin')).toBe(false);
+    expect(canReview({ status: 'pending_approval', requested_by: 'u1' }, null)).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('formats velocity usage and addresses', () => {
+    expect(formatVelocity(1.5, 2)).toBe('1.5 / 2');
+    expect(formatVelocity(undefined, 2)).toBe('0 / 2');
+    expect(formatVelocity(1, null)).toBe('—');
+    expect(shortAddress('0x1111111111111111111111111111111111112222')).toBe('0x1111…2222');
+  });
+});
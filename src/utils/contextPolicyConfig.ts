@@ -7,6 +7,7 @@ export interface ContextGateThresholds {
     enforce: boolean;
   };
   liquidity: {
+    // Depth within 25bps on the taker side / order notional (coordinator, order_book_snapshots)
     threshold: number;
     enforce: boolean;
   };
@@ -0,0 +1,82 @@
+/**
+ * LLM providers and usage reporting (UI side)
+ *
+ * Every model call made through supabase/functions/_shared/llm.ts writes one
+ * llm_usage row. These helpers list the providers that layer supports and roll
+ * the rows up per user for LLMConfigPanel.
+ */
+
+export type LlmProviderOption = 'openai' | 'anthropic' | 'local';
+
+export const LLM_PROVIDER_MODELS: Record<LlmProviderOption, { value: string; label: string }[]> = {
+  openai: [
+    { value: 'gpt-4o-mini', label: 'GPT-4o Mini' },
+    { value: 'gpt-4o', label: 'GPT-4o' },
+    { value: 'gpt-4.1-mini', label: 'GPT-4.1 Mini' },
+  ],
+  anthropic: [
+    { value: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku' },
+    { value: 'claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet' },
+    { value: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4' },
+  ],
+  // Local servers expose whatever model they were started with; typed in by the admin
+  local: [],
+};
+
+/** Edge function secret each provider needs */
+export const LLM_PROVIDER_SECRETS: Record<LlmProviderOption, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  local: 'LLM_LOCAL_BASE_URL',
+};
+
+export interface LlmUsageRow {
+  user_id: string | null;
+  function_name: string;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | string;
+  success: boolean;
+  created_at: string;
+}
+
+export interface LlmUsageSummary {
+  /** null for calls made without a user (cron, service jobs) */
+  user_id: string | null;
+  calls: number;
+  failures: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  last_used_at: string;
+}
+
+/** Per-user totals, most expensive first */
+export function summarizeLlmUsage(rows: LlmUsageRow[]): LlmUsageSummary[] {
+  const byUser = new Map<string | null, LlmUsageSummary>();
+
+  for (const row of rows) {
+    const summary = byUser.get(row.user_id) ?? {
+      user_id: row.user_id,
+      calls: 0,
+      failures: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 0,
+      last_used_at: row.created_at,
+    };
+    summary.calls += 1;
+    if (!row.success) summary.failures += 1;
+    summary.input_tokens += row.input_tokens;
+    summary.output_tokens += row.output_tokens;
+    summary.cost_usd += Number(row.cost_usd) || 0;
+    if (row.created_at > summary.last_used_at) summary.last_used_at = row.created_at;
+    byUser.set(row.user_id, summary);
+  }
+
+  return [...byUser.values()]
+    .map((s) => ({ ...s, cost_usd: Math.round(s.cost_usd * 1e6) / 1e6 }))
+    .sort((a, b) => b.cost_usd - a.cost_usd || b.calls - a.calls);
+}
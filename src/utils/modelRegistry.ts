@@ -0,0 +1,100 @@
+/**
+ * ML model registry (UI side)
+ *
+ * Mirrors the ml_models row and the online metrics written by the
+ * ml-model-evaluation edge function (supabase/functions/_shared/modelRegistry.ts)
+ * for ModelRegistryPanel, plus the small parsing / transition rules the panel
+ * enforces before writing.
+ */
+
+export type MlModelStatus = 'shadow' | 'challenger' | 'champion' | 'retired';
+
+export interface ModelOnlineMetrics {
+  horizon: string;
+  samples: number;
+  positives: number;
+  predicted_positive: number;
+  true_positive: number;
+  precision: number | null;
+  recall: number | null;
+  selected_pnl_pct_sum: number;
+  selected_mean_pnl_pct: number | null;
+  gated_entries: number;
+  gated_pnl_pct_sum: number;
+  since: string;
+  computed_at: string;
+}
+
+export interface MlModelRecord {
+  id: string;
+  name: string;
+  version: string;
+  storage_path: string;
+  dataset_id: string | null;
+  status: MlModelStatus;
+  signal_threshold: number | string;
+  offline_metrics: Record<string, number>;
+  online_metrics: ModelOnlineMetrics | null;
+  online_metrics_at: string | null;
+  notes: string | null;
+  promoted_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Status changes an admin can make directly. The champion only changes through
+ * promote_ml_model (it demotes the previous champion to challenger).
+ */
+export const MODEL_STATUS_TRANSITIONS: Record<MlModelStatus, MlModelStatus[]> = {
+  shadow: ['challenger', 'retired'],
+  challenger: ['shadow', 'retired'],
+  champion: [],
+  retired: ['shadow'],
+};
+
+export function canPromote(status: MlModelStatus): boolean {
+  return status === 'shadow' || status === 'challenger';
+}
+
+/** Parses the offline metrics field: a flat JSON object of finite numbers */
+export function parseOfflineMetrics(text: string): { metrics: Record<string, number> } | { error: string } {
+  if (!text.trim()) return { metrics: {} };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'Offline metrics must be valid JSON' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: 'Offline metrics must be a JSON object' };
+  }
+  const metrics: Record<string, number> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { error: `Offline metric "${key}" must be a number` };
+    }
+    metrics[key] = value;
+  }
+  return { metrics };
+}
+
+export function isValidSignalThreshold(value: number): boolean {
+  return Number.isFinite(value) && value > 0 && value < 1;
+}
+
+/** Ratio as a percentage, '—' when there is nothing to show */
+export function formatRatio(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+/** P&L in percentage points with an explicit sign */
+export function formatPnlPct(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+/** Champion first, then challengers, shadows and retired models; newest first within a status */
+export function sortModels<T extends Pick<MlModelRecord, 'status' | 'created_at'>>(models: T[]): T[] {
+  const rank: Record<MlModelStatus, number> = { champion: 0, challenger: 1, shadow: 2, retired: 3 };
+  return [...models].sort((a, b) => rank[a.status] - rank[b.status] || b.created_at.localeCompare(a.created_at));
+}
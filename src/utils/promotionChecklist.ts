@@ -0,0 +1,82 @@
+/**
+ * Paper-to-live promotion checklist (UI side)
+ *
+ * The checklist is evaluated server-side by strategy-promotion
+ * (supabase/functions/_shared/promotionGate.ts), which also creates the LIVE
+ * strategy. These helpers label its checks for PushToLiveModal.
+ */
+
+export type PromotionCheckId =
+  | 'mock_sample_size'
+  | 'max_drawdown'
+  | 'win_rate'
+  | 'calibration'
+  | 'portfolio_capital'
+  | 'external_wallet'
+  | 'rules_accepted'
+  | 'circuit_breakers'
+  | 'experiment';
+
+export interface PromotionCheck {
+  id: PromotionCheckId;
+  passed: boolean;
+  value: number | string | null;
+  threshold: number | string | null;
+}
+
+/** strategy-promotion response for { action: 'check' | 'promote' } */
+export interface PromotionResponse {
+  success: boolean;
+  passed?: boolean;
+  checks?: PromotionCheck[];
+  metrics?: { active_breakers?: string[] };
+  report_id?: string;
+  new_strategy_id?: string;
+  error?: string;
+}
+
+export const PROMOTION_CHECK_LABELS: Record<PromotionCheckId, string> = {
+  mock_sample_size: 'MOCK Trade Sample',
+  max_drawdown: 'MOCK Drawdown',
+  win_rate: 'MOCK Win Rate',
+  calibration: 'Signal Calibration',
+  portfolio_capital: 'Portfolio Capital',
+  external_wallet: 'External Wallet Connected',
+  rules_accepted: 'Trading Rules Accepted',
+  circuit_breakers: 'No Active Circuit Breakers',
+  experiment: 'A/B Experiment',
+};
+
+const EXPERIMENT_LABELS: Record<string, string> = {
+  no_experiment: 'no experiment',
+  running: 'experiment still running',
+  won: 'won its experiment',
+  lost: 'lost its experiment',
+  inconclusive: 'experiment inconclusive',
+};
+
+const pct = (value: number | string | null, digits = 0) => `${(Number(value) * 100).toFixed(digits)}%`;
+
+/** Short "value vs threshold" detail for a check row; '' when the label says it all */
+export function formatPromotionCheck(check: PromotionCheck): string {
+  switch (check.id) {
+    case 'mock_sample_size':
+      return `${check.value} / ${check.threshold} closed trades`;
+    case 'max_drawdown':
+      return check.value === null ? 'no MOCK capital to measure' : `${check.value}% (max ${check.threshold}%)`;
+    case 'win_rate':
+      return `${pct(check.value)} (min ${pct(check.threshold)})`;
+    case 'calibration':
+      return check.value === null
+        ? 'no calibration data yet'
+        : `error ${pct(check.value, 1)} (max ${pct(check.threshold, 1)})`;
+    case 'portfolio_capital':
+      return `€${Number(check.value ?? 0).toFixed(2)}`;
+    case 'circuit_breakers':
+      return check.value === null ? '' : String(check.value);
+    case 'experiment':
+      return EXPERIMENT_LABELS[String(check.value)] ?? String(check.value ?? '');
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Per-Regime Strategy Profiles
+ *
+ * configuration.regimeProfiles holds, per market regime, a partial set of root
+ * configuration values that replace the flat ones while that regime is active.
+ * The coordinator resolves them in resolveCanonicalConfig using the regime
+ * label from market_features_v0 (supabase/functions/_shared/volatilityRegime.ts,
+ * whose REGIME_PROFILE_FIELDS this list mirrors).
+ */
+
+export type MarketRegime = 'low_vol_range' | 'trend_up' | 'trend_down' | 'high_vol_shock';
+
+export const MARKET_REGIMES: { id: MarketRegime; label: string; description: string }[] = [
+  { id: 'low_vol_range', label: 'Ranging', description: 'Quiet market, no clear EMA trend' },
+  { id: 'trend_up', label: 'Trending up', description: 'EMA20 > EMA50 and price up over 24h' },
+  { id: 'trend_down', label: 'Trending down', description: 'EMA20 < EMA50 and price down over 24h' },
+  { id: 'high_vol_shock', label: 'High volatility', description: 'Short-term volatility spike or a large hourly move' },
+];
+
+export const REGIME_PROFILE_FIELDS = [
+  { key: 'takeProfitPercentage', label: 'Take Profit', unit: '%', step: 0.1 },
+  { key: 'stopLossPercentage', label: 'Stop Loss', unit: '%', step: 0.1 },
+  { key: 'trailingStopLossPercentage', label: 'Trailing Stop', unit: '%', step: 0.1 },
+  { key: 'aiConfidenceThreshold', label: 'AI Confidence Threshold', unit: '0-100', step: 1 },
+  { key: 'spreadThresholdBps', label: 'Max Spread', unit: 'bps', step: 0.5 },
+  { key: 'perTradeAllocation', label: 'Per Trade Allocation', unit: '€', step: 1 },
+  { key: 'minHoldPeriodMs', label: 'Min Hold Period', unit: 'ms', step: 1000 },
+  { key: 'cooldownBetweenOppositeActionsMs', label: 'Opposite Action Cooldown', unit: 'ms', step: 1000 },
+] as const;
+
+export type RegimeProfileField = (typeof REGIME_PROFILE_FIELDS)[number]['key'];
+
+export type RegimeProfile = Partial<Record<RegimeProfileField, number>>;
+
+export type RegimeProfiles = Partial<Record<MarketRegime, RegimeProfile>>;
+
+const REGIME_IDS = MARKET_REGIMES.map((r) => r.id) as string[];
+const FIELD_KEYS = REGIME_PROFILE_FIELDS.map((f) => f.key) as string[];
+
+/**
+ * Keep only known regimes / fields with finite, non-negative numbers and drop
+ * empty profiles. Returns undefined when nothing is left, so the key is not
+ * written to configuration.
+ */
+export function cleanRegimeProfiles(value: unknown): RegimeProfiles | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const cleaned: RegimeProfiles = {};
+  for (const [regime, profile] of Object.entries(value as Record<string, unknown>)) {
+    if (!REGIME_IDS.includes(regime) || !profile || typeof profile !== 'object') continue;
+
+    const fields: RegimeProfile = {};
+    for (const [key, raw] of Object.entries(profile as Record<string, unknown>)) {
+      if (!FIELD_KEYS.includes(key) || raw === null || raw === '') continue;
+      const n = Number(raw);
+      if (Number.isFinite(n) && n >= 0) fields[key as RegimeProfileField] = n;
+    }
+    if (Object.keys(fields).length > 0) cleaned[regime as MarketRegime] = fields;
+  }
+
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
@@ -0,0 +1,60 @@
+/**
+ * Strategy A/B Experiments (UI side)
+ *
+ * strategy_experiments rows are evaluated server-side by
+ * strategy-experiment-evaluator (supabase/functions/_shared/strategyExperiments.ts);
+ * `result` holds the latest evaluation. Whether an experiment allows a
+ * strategy to be pushed to LIVE is decided server-side by strategy-promotion.
+ */
+
+import type { Database } from '@/types/supabase';
+
+type StrategyExperimentRow = Database['public']['Tables']['strategy_experiments']['Row'];
+
+export type ExperimentArm = 'control' | 'variant';
+
+export interface ExperimentInterval {
+  diff: number;
+  /** null when the interval is unbounded (an arm has no trades yet) */
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface ExperimentArmSummary {
+  trades: number;
+  wins: number;
+  win_rate: number;
+  total_pnl: number;
+  mean_pnl: number;
+}
+
+export interface ExperimentResult {
+  control: ExperimentArmSummary;
+  variant: ExperimentArmSummary;
+  win_rate_diff: ExperimentInterval;
+  pnl_diff: ExperimentInterval;
+  primary_metric: 'pnl' | 'win_rate';
+  alpha: number;
+  enough_data: boolean;
+  significant: boolean;
+  leader: ExperimentArm | null;
+}
+
+/** strategy_experiments row with the CHECK-constrained and JSONB columns narrowed */
+export interface StrategyExperiment
+  extends Omit<StrategyExperimentRow, 'split_mode' | 'split_config' | 'primary_metric' | 'status' | 'winner' | 'result'> {
+  split_mode: 'symbol' | 'time';
+  split_config: { control_symbols?: string[]; variant_symbols?: string[]; slot_minutes?: number } | null;
+  primary_metric: 'pnl' | 'win_rate';
+  status: 'running' | 'completed' | 'stopped';
+  winner: ExperimentArm | 'inconclusive' | null;
+  result: ExperimentResult | null;
+}
+
+/** "+1.23 [-0.40, +2.85]" style interval label */
+export function formatInterval(interval: ExperimentInterval | undefined, scale = 1, digits = 2): string {
+  if (!interval) return '—';
+  const fmt = (v: number | null, unbounded: string) =>
+    v === null ? unbounded : `${v * scale >= 0 ? '+' : ''}${(v * scale).toFixed(digits)}`;
+  return `${fmt(interval.diff, '—')} [${fmt(interval.lower, '-∞')}, ${fmt(interval.upper, '+∞')}]`;
+}
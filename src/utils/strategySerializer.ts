@@ -10,6 +10,7 @@
 
 import { z } from 'zod';
 import { PRESET_RISK_FIELDS } from './strategyPresets';
+import { REGIME_PROFILE_FIELDS, cleanRegimeProfiles } from './regimeProfiles';
 
 // Current schema version
 export const STRATEGY_SCHEMA_VERSION = 'v1';
@@ -84,10 +85,11 @@ export const MARKET_QUALITY_FIELDS = [
 ] as const;
 
 /**
- * Per-symbol override key (contains nested overrides)
+ * Override keys (contain nested overrides): per symbol, per market regime
  */
 export const OVERRIDE_FIELDS = [
   'symbolOverrides',
+  'regimeProfiles',
 ] as const;
 
 // ============================================================================
@@ -215,6 +217,17 @@ const PoolExitConfigSchema = z.object({
   maxBullOverrideDurationMs: z.number().optional(),
 }).passthrough();
 
+const RegimeProfileSchema = z.object(
+  Object.fromEntries(REGIME_PROFILE_FIELDS.map((f) => [f.key, z.number().min(0).optional()])),
+).strict();
+
+const RegimeProfilesSchema = z.object({
+  low_vol_range: RegimeProfileSchema.optional(),
+  trend_up: RegimeProfileSchema.optional(),
+  trend_down: RegimeProfileSchema.optional(),
+  high_vol_shock: RegimeProfileSchema.optional(),
+}).strict();
+
 const MarketQualityConfigSchema = z.object({
   aiConfidenceThreshold: z.number().optional(),
   spreadThresholdBps: z.number().optional(),
@@ -242,6 +255,7 @@ export const ExportedStrategySchema = z.object({
     poolExit: PoolExitConfigSchema.optional(),
     marketQuality: MarketQualityConfigSchema.optional(),
     symbolOverrides: z.record(z.string(), z.any()).optional(),
+    regimeProfiles: RegimeProfilesSchema.optional(),
   }),
 });
 
@@ -324,6 +338,9 @@ export function serializeStrategy(strategy: {
   
   // Extract symbol overrides if present
   const symbolOverrides = config.symbolOverrides || undefined;
+
+  // Extract per-regime profiles (known regimes / fields only)
+  const regimeProfiles = cleanRegimeProfiles(config.regimeProfiles);
   
   return {
     strategyVersion: STRATEGY_SCHEMA_VERSION,
@@ -342,6 +359,7 @@ export function serializeStrategy(strategy: {
       poolExit: Object.keys(poolExit).length > 0 ? poolExit : undefined,
       marketQuality: Object.keys(marketQuality).length > 0 ? marketQuality : undefined,
       symbolOverrides,
+      regimeProfiles,
     },
   };
 }
@@ -427,6 +445,7 @@ function migrateToStructuredFormat(json: any): any {
       unifiedDecisions: oldConfig.unifiedConfig,
       poolExit: oldConfig.poolExitConfig,
       symbolOverrides: oldConfig.symbolOverrides,
+      regimeProfiles: cleanRegimeProfiles(oldConfig.regimeProfiles),
     },
   };
 }
@@ -510,6 +529,9 @@ export function exportedStrategyToFormData(exported: ExportedStrategy): Record<s
     
     // Symbol overrides
     symbolOverrides: configuration.symbolOverrides,
+    
+    // Per-regime profiles
+    regimeProfiles: configuration.regimeProfiles,
   };
 }
 
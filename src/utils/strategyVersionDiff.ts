@@ -0,0 +1,130 @@
+/**
+ * Strategy Config Version Diff
+ *
+ * strategy_config_versions holds an immutable snapshot per configuration
+ * change: the full trading_strategies.configuration plus the strategy's
+ * strategy_parameters rows (symbol -> tp_pct / sl_pct / min_confidence / weights).
+ * These helpers flatten two snapshots to dotted paths, diff them and group the
+ * changed fields by FIELD_DIMENSIONS for the version history viewer.
+ */
+
+import { FIELD_DIMENSIONS, DIMENSION_INFO, type StrategyDimension } from './strategyPresets';
+
+export type ConfigVersionActor = 'user' | 'optimizer' | 'assistant' | 'system' | 'rollback';
+
+export interface StrategyConfigVersion {
+  id: string;
+  strategy_id: string;
+  version_no: number;
+  configuration: Record<string, unknown>;
+  symbol_parameters: Record<string, Record<string, number | null>>;
+  actor: ConfigVersionActor;
+  reason: string | null;
+  suggestion_id: string | null;
+  rolled_back_from: string | null;
+  created_at: string;
+}
+
+export type ConfigDiffKind = 'added' | 'removed' | 'changed';
+
+export interface ConfigDiffEntry {
+  /** Dotted path, e.g. "aiIntelligenceConfig.aiConfidenceThreshold" or "symbol_parameters.BTC.tp_pct" */
+  path: string;
+  /** Last path segment, used for the dimension lookup */
+  field: string;
+  before: unknown;
+  after: unknown;
+  kind: ConfigDiffKind;
+}
+
+export type DiffGroupId = StrategyDimension | 'other';
+
+export interface ConfigDiffGroup {
+  id: DiffGroupId;
+  label: string;
+  entries: ConfigDiffEntry[];
+}
+
+export const CONFIG_VERSION_ACTOR_LABELS: Record<ConfigVersionActor, string> = {
+  user: 'User',
+  optimizer: 'Optimizer',
+  assistant: 'AI Assistant',
+  system: 'System',
+  rollback: 'Rollback',
+};
+
+/** strategy_parameters columns that map onto a dimensioned configuration field */
+const PARAMETER_FIELD_ALIASES: Record<string, string> = {
+  tp_pct: 'takeProfitPercentage',
+  sl_pct: 'stopLossPercentage',
+};
+
+const GROUP_ORDER: DiffGroupId[] = ['risk', 'signals', 'execution', 'safety', 'other'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Flatten nested objects to dotted paths; arrays and primitives are leaves */
+export function flattenConfig(value: unknown, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  if (!isPlainObject(value)) return flat;
+
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      Object.assign(flat, flattenConfig(child, path));
+    } else {
+      flat[path] = child;
+    }
+  }
+  return flat;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Field-level diff between two versions (configuration + symbol parameters), sorted by path */
+export function diffConfigVersions(
+  before: Pick<StrategyConfigVersion, 'configuration' | 'symbol_parameters'> | null,
+  after: Pick<StrategyConfigVersion, 'configuration' | 'symbol_parameters'>,
+): ConfigDiffEntry[] {
+  const flatten = (version: typeof before) => ({
+    ...flattenConfig(version?.configuration),
+    ...flattenConfig(version?.symbol_parameters, 'symbol_parameters'),
+  });
+  const a = flatten(before);
+  const b = flatten(after);
+
+  const entries: ConfigDiffEntry[] = [];
+  for (const path of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const inBefore = path in a && a[path] !== undefined;
+    const inAfter = path in b && b[path] !== undefined;
+    if (inBefore && inAfter && sameValue(a[path], b[path])) continue;
+    if (!inBefore && !inAfter) continue;
+
+    entries.push({
+      path,
+      field: path.split('.').pop() as string,
+      before: a[path],
+      after: b[path],
+      kind: !inBefore ? 'added' : !inAfter ? 'removed' : 'changed',
+    });
+  }
+  return entries.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+/** Group diff entries by FIELD_DIMENSIONS; fields without a dimension go to "other" */
+export function groupDiffByDimension(entries: ConfigDiffEntry[]): ConfigDiffGroup[] {
+  const groups = new Map<DiffGroupId, ConfigDiffEntry[]>();
+  for (const entry of entries) {
+    const id: DiffGroupId = FIELD_DIMENSIONS[PARAMETER_FIELD_ALIASES[entry.field] ?? entry.field] ?? 'other';
+    groups.set(id, [...(groups.get(id) ?? []), entry]);
+  }
+
+  return GROUP_ORDER
+    .filter((id) => groups.has(id))
+    .map((id) => ({
+      id,
+      label: id === 'other' ? 'Other' : DIMENSION_INFO[id].label,
+      entries: groups.get(id) as ConfigDiffEntry[],
+    }));
+}
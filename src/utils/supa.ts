@@ -11,7 +11,10 @@ type KnownTables = keyof Database['public']['Tables']
   | 'execution_circuit_breakers' 
   | 'execution_holds'
   | 'signal_registry'
-  | 'strategy_signal_weights';
+  | 'strategy_signal_weights'
+  | 'ml_models'
+  | 'training_datasets'
+  | 'real_trades';
 
 export function fromTable<T extends KnownTables>(name: T) {
   // At runtime, supabase-js will accept any relation string;
@@ -0,0 +1,413 @@
+/**
+ * TAX LOTS - Realized gains reporting for the REAL mock_trades ledger
+ *
+ * DEFINITIONS:
+ * - An "acquisition" is a BUY row; its cost basis is total_value + BUY gas
+ * - A "disposal" is a SELL row; its net proceeds are total_value - SELL gas
+ * - Tax matching is independent of execution lot links (original_trade_id):
+ *   the selected cost-basis method decides which acquisitions a SELL consumes
+ *
+ * METHODS:
+ * - FIFO    oldest acquisition first
+ * - LIFO    newest acquisition first
+ * - HIFO    highest unit cost first
+ * - AVERAGE pooled weighted-average unit cost per symbol; holding periods
+ *           still follow FIFO so the short/long split stays meaningful
+ *
+ * This module provides:
+ * 1. computeRealizedGains() - Per-lot disposal rows + short/long totals for a year
+ * 2. computeForm2086() - French 2086 lines (global portfolio method, art. 150 VH bis CGI)
+ * 3. realizedGainsToCsv() / form2086ToCsv() - Export formats
+ *
+ * The whole history is always replayed so cost basis carried into the
+ * reported year is correct; only the output is filtered by year.
+ */
+
+import { toBaseSymbol } from './symbols';
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'AVERAGE';
+export type HoldingTerm = 'SHORT' | 'LONG';
+
+export interface TaxTrade {
+  id: string;
+  trade_type: 'buy' | 'sell';
+  cryptocurrency: string;
+  amount: number;
+  price: number;
+  total_value: number;
+  executed_at: string;
+  /** Gas paid on this trade in EUR */
+  gasEur?: number;
+}
+
+export interface TaxDisposal {
+  sellTradeId: string;
+  /** BUY trade id the quantity was matched to; null when the SELL exceeds known holdings */
+  lotId: string | null;
+  symbol: string;
+  acquiredAt: string | null;
+  disposedAt: string;
+  amount: number;
+  proceedsEur: number;
+  feesEur: number;
+  costBasisEur: number;
+  gainEur: number;
+  holdingDays: number | null;
+  term: HoldingTerm;
+}
+
+export interface RealizedGainsTotals {
+  proceedsEur: number;
+  feesEur: number;
+  costBasisEur: number;
+  shortTermGainEur: number;
+  longTermGainEur: number;
+  netGainEur: number;
+}
+
+export interface RealizedGainsReport {
+  method: CostBasisMethod;
+  year: number | null;
+  longTermDays: number;
+  disposals: TaxDisposal[];
+  totals: RealizedGainsTotals;
+  /** Quantity sold without a matching acquisition, per symbol */
+  unmatchedBySymbol: Record<string, number>;
+}
+
+export interface RealizedGainsOptions {
+  method: CostBasisMethod;
+  /** Calendar year (UTC) to report; omit for all disposals */
+  year?: number | null;
+  /** Holdings strictly longer than this are long-term */
+  longTermDays?: number;
+}
+
+export const TAX_DEFAULTS = {
+  LONG_TERM_DAYS: 365,
+  // Quantities below this are treated as fully consumed
+  QTY_EPSILON: 1e-10,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OpenAcquisition {
+  lotId: string;
+  acquiredAt: string;
+  acquiredMs: number;
+  remaining: number;
+  unitCost: number;
+}
+
+function chronological(trades: TaxTrade[]): TaxTrade[] {
+  // BUY before SELL on identical timestamps so a same-second round trip matches
+  return [...trades].sort((a, b) => {
+    const dt = new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime();
+    if (dt !== 0) return dt;
+    return a.trade_type === b.trade_type ? 0 : a.trade_type === 'buy' ? -1 : 1;
+  });
+}
+
+function utcYear(iso: string): number {
+  return new Date(iso).getUTCFullYear();
+}
+
+function pickOrder(lots: OpenAcquisition[], method: CostBasisMethod): OpenAcquisition[] {
+  switch (method) {
+    case 'LIFO':
+      return [...lots].sort((a, b) => b.acquiredMs - a.acquiredMs);
+    case 'HIFO':
+      return [...lots].sort((a, b) => b.unitCost - a.unitCost || a.acquiredMs - b.acquiredMs);
+    default:
+      return [...lots].sort((a, b) => a.acquiredMs - b.acquiredMs);
+  }
+}
+
+/**
+ * Compute realized gains per disposal
+ *
+ * @param trades - REAL BUY/SELL rows (any order); gasEur optional per row
+ * @returns One row per (SELL, matched acquisition) plus year totals
+ */
+export function computeRealizedGains(trades: TaxTrade[], options: RealizedGainsOptions): RealizedGainsReport {
+  const method = options.method;
+  const year = options.year ?? null;
+  const longTermDays = options.longTermDays ?? TAX_DEFAULTS.LONG_TERM_DAYS;
+
+  const openBySymbol = new Map<string, OpenAcquisition[]>();
+  // AVERAGE pool: total cost and quantity per symbol
+  const poolBySymbol = new Map<string, { cost: number; qty: number }>();
+  const disposals: TaxDisposal[] = [];
+  const unmatchedBySymbol: Record<string, number> = {};
+
+  for (const trade of chronological(trades)) {
+    const symbol = toBaseSymbol(trade.cryptocurrency);
+    const amount = Number(trade.amount);
+    if (!(amount > 0)) continue;
+    const gasEur = Number(trade.gasEur ?? 0) || 0;
+
+    if (trade.trade_type === 'buy') {
+      const cost = Number(trade.total_value) + gasEur;
+      const lots = openBySymbol.get(symbol) ?? [];
+      lots.push({
+        lotId: trade.id,
+        acquiredAt: trade.executed_at,
+        acquiredMs: new Date(trade.executed_at).getTime(),
+        remaining: amount,
+        unitCost: cost / amount,
+      });
+      openBySymbol.set(symbol, lots);
+
+      const pool = poolBySymbol.get(symbol) ?? { cost: 0, qty: 0 };
+      poolBySymbol.set(symbol, { cost: pool.cost + cost, qty: pool.qty + amount });
+      continue;
+    }
+
+    // SELL: prorate proceeds and fees over the matched chunks
+    const disposedMs = new Date(trade.executed_at).getTime();
+    const grossPerUnit = Number(trade.total_value) / amount;
+    const feePerUnit = gasEur / amount;
+    const pool = poolBySymbol.get(symbol) ?? { cost: 0, qty: 0 };
+    const avgUnitCost = pool.qty > 0 ? pool.cost / pool.qty : 0;
+    const reportable = year === null || utcYear(trade.executed_at) === year;
+
+    const lots = openBySymbol.get(symbol) ?? [];
+    // AVERAGE consumes dates FIFO; cost comes from the pool
+    const order = pickOrder(lots, method === 'AVERAGE' ? 'FIFO' : method);
+    let toMatch = amount;
+
+    const emit = (chunk: number, lot: OpenAcquisition | null) => {
+      const costBasisEur = lot === null ? 0 : chunk * (method === 'AVERAGE' ? avgUnitCost : lot.unitCost);
+      const proceedsEur = chunk * grossPerUnit;
+      const feesEur = chunk * feePerUnit;
+      const holdingDays = lot === null ? null : (disposedMs - lot.acquiredMs) / DAY_MS;
+      if (!reportable) return;
+      disposals.push({
+        sellTradeId: trade.id,
+        lotId: lot?.lotId ?? null,
+        symbol,
+        acquiredAt: lot?.acquiredAt ?? null,
+        disposedAt: trade.executed_at,
+        amount: chunk,
+        proceedsEur,
+        feesEur,
+        costBasisEur,
+        gainEur: proceedsEur - feesEur - costBasisEur,
+        holdingDays,
+        term: holdingDays !== null && holdingDays > longTermDays ? 'LONG' : 'SHORT',
+      });
+    };
+
+    for (const lot of order) {
+      if (toMatch <= TAX_DEFAULTS.QTY_EPSILON) break;
+      const chunk = Math.min(lot.remaining, toMatch);
+      if (chunk <= TAX_DEFAULTS.QTY_EPSILON) continue;
+      emit(chunk, lot);
+      lot.remaining -= chunk;
+      toMatch -= chunk;
+    }
+
+    const matched = amount - Math.max(0, toMatch);
+    if (toMatch > TAX_DEFAULTS.QTY_EPSILON) {
+      emit(toMatch, null);
+      if (reportable) unmatchedBySymbol[symbol] = (unmatchedBySymbol[symbol] ?? 0) + toMatch;
+    }
+
+    openBySymbol.set(symbol, lots.filter((l) => l.remaining > TAX_DEFAULTS.QTY_EPSILON));
+    poolBySymbol.set(symbol, {
+      cost: Math.max(0, pool.cost - matched * avgUnitCost),
+      qty: Math.max(0, pool.qty - matched),
+    });
+  }
+
+  const totals = disposals.reduce<RealizedGainsTotals>(
+    (acc, d) => ({
+      proceedsEur: acc.proceedsEur + d.proceedsEur,
+      feesEur: acc.feesEur + d.feesEur,
+      costBasisEur: acc.costBasisEur + d.costBasisEur,
+      shortTermGainEur: acc.shortTermGainEur + (d.term === 'SHORT' ? d.gainEur : 0),
+      longTermGainEur: acc.longTermGainEur + (d.term === 'LONG' ? d.gainEur : 0),
+      netGainEur: acc.netGainEur + d.gainEur,
+    }),
+    { proceedsEur: 0, feesEur: 0, costBasisEur: 0, shortTermGainEur: 0, longTermGainEur: 0, netGainEur: 0 },
+  );
+
+  return { method, year, longTermDays, disposals, totals, unmatchedBySymbol };
+}
+
+// =============================================================================
+// French form 2086 (global portfolio method)
+// =============================================================================
+
+export interface Form2086Line {
+  sellTradeId: string;
+  symbol: string;
+  /** 211 - Date de la cession */
+  date: string;
+  /** 212 - Valeur globale du portefeuille au moment de la cession */
+  portfolioValueEur: number;
+  /** 213 - Prix de cession */
+  salePriceEur: number;
+  /** 214 - Frais de cession */
+  saleFeesEur: number;
+  /** 215 - Prix de cession net des frais (213 - 214) */
+  netSalePriceEur: number;
+  /** 220 - Prix total d'acquisition */
+  totalAcquisitionEur: number;
+  /** 221 - Fractions de capital initial contenues dans les cessions antérieures */
+  priorCapitalFractionsEur: number;
+  /** 223 - Prix total d'acquisition net (220 - 221) */
+  netAcquisitionEur: number;
+  /** 224 - Plus-value ou moins-value: 215 - 223 × 213 / 212 */
+  gainEur: number;
+}
+
+export interface Form2086Report {
+  year: number;
+  lines: Form2086Line[];
+  /** Net of all lines; positive → case 3AN, negative → case 3BN of the 2042-C */
+  netGainEur: number;
+}
+
+/** Price of `symbol` at `ts`; return null when unknown */
+export type PriceAt = (symbol: string, ts: string) => number | null;
+
+/**
+ * Compute 2086 lines for the disposals of one calendar year.
+ *
+ * Gains are computed on the whole crypto portfolio: each disposal releases
+ * the share 213 / 212 of the remaining net acquisition price. Line 212 needs
+ * every holding valued at the disposal time; `priceAt` supplies that, and
+ * defaults to the last ledger price of each symbol at or before the disposal.
+ * Soultes (lines 216-218, 222) do not exist for a EUR-only ledger.
+ */
+export function computeForm2086(trades: TaxTrade[], year: number, priceAt?: PriceAt): Form2086Report {
+  const holdings = new Map<string, number>();
+  const lastPrice = new Map<string, number>();
+  const lines: Form2086Line[] = [];
+  let totalAcquisitionEur = 0;
+  let priorCapitalFractionsEur = 0;
+
+  for (const trade of chronological(trades)) {
+    const symbol = toBaseSymbol(trade.cryptocurrency);
+    const amount = Number(trade.amount);
+    if (!(amount > 0)) continue;
+    const gasEur = Number(trade.gasEur ?? 0) || 0;
+
+    if (trade.trade_type === 'buy') {
+      totalAcquisitionEur += Number(trade.total_value) + gasEur;
+      holdings.set(symbol, (holdings.get(symbol) ?? 0) + amount);
+      lastPrice.set(symbol, Number(trade.price));
+      continue;
+    }
+
+    lastPrice.set(symbol, Number(trade.price));
+    let portfolioValueEur = 0;
+    for (const [sym, qty] of holdings) {
+      if (qty <= TAX_DEFAULTS.QTY_EPSILON) continue;
+      const px = sym === symbol
+        ? Number(trade.price)
+        : priceAt?.(sym, trade.executed_at) ?? lastPrice.get(sym) ?? 0;
+      portfolioValueEur += qty * px;
+    }
+
+    const salePriceEur = Number(trade.total_value);
+    const netAcquisitionEur = Math.max(0, totalAcquisitionEur - priorCapitalFractionsEur);
+    // Guard: a SELL beyond known holdings cannot be worth more than the portfolio
+    const valueBase = Math.max(portfolioValueEur, salePriceEur);
+    const capitalFractionEur = valueBase > 0 ? netAcquisitionEur * (salePriceEur / valueBase) : 0;
+    const netSalePriceEur = salePriceEur - gasEur;
+
+    if (utcYear(trade.executed_at) === year) {
+      lines.push({
+        sellTradeId: trade.id,
+        symbol,
+        date: trade.executed_at,
+        portfolioValueEur: valueBase,
+        salePriceEur,
+        saleFeesEur: gasEur,
+        netSalePriceEur,
+        totalAcquisitionEur,
+        priorCapitalFractionsEur,
+        netAcquisitionEur,
+        gainEur: netSalePriceEur - capitalFractionEur,
+      });
+    }
+
+    priorCapitalFractionsEur += capitalFractionEur;
+    holdings.set(symbol, Math.max(0, (holdings.get(symbol) ?? 0) - amount));
+  }
+
+  return {
+    year,
+    lines,
+    netGainEur: lines.reduce((sum, l) => sum + l.gainEur, 0),
+  };
+}
+
+// =============================================================================
+// CSV export
+// =============================================================================
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const s = typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(8).replace(/0+$/, '').replace(/\.$/, '')) : value;
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | null>>): string {
+  return [header.join(','), ...rows.map((r) => r.map(csvCell).join(','))].join('\n');
+}
+
+const eur = (n: number) => Math.round(n * 100) / 100;
+
+/** Generic per-lot disposal CSV (one row per SELL × matched acquisition) */
+export function realizedGainsToCsv(report: RealizedGainsReport): string {
+  return toCsv(
+    [
+      'disposal_date', 'asset', 'quantity', 'acquired_date', 'proceeds_eur', 'fees_eur',
+      'cost_basis_eur', 'gain_eur', 'holding_days', 'term', 'method', 'sell_trade_id', 'lot_id',
+    ],
+    report.disposals.map((d) => [
+      d.disposedAt,
+      d.symbol,
+      d.amount,
+      d.acquiredAt,
+      eur(d.proceedsEur),
+      eur(d.feesEur),
+      eur(d.costBasisEur),
+      eur(d.gainEur),
+      d.holdingDays === null ? null : Math.floor(d.holdingDays),
+      d.term,
+      report.method,
+      d.sellTradeId,
+      d.lotId,
+    ]),
+  );
+}
+
+/** 2086 lines as CSV, columns labelled with the form's line numbers */
+export function form2086ToCsv(report: Form2086Report): string {
+  const csv = toCsv(
+    [
+      '211_date_cession', '212_valeur_globale_portefeuille', '213_prix_cession', '214_frais_cession',
+      '215_prix_cession_net', '220_prix_total_acquisition', '221_fractions_capital_initial',
+      '223_prix_total_acquisition_net', '224_plus_ou_moins_value', 'actif', 'sell_trade_id',
+    ],
+    report.lines.map((l) => [
+      l.date.split('T')[0],
+      eur(l.portfolioValueEur),
+      eur(l.salePriceEur),
+      eur(l.saleFeesEur),
+      eur(l.netSalePriceEur),
+      eur(l.totalAcquisitionEur),
+      eur(l.priorCapitalFractionsEur),
+      eur(l.netAcquisitionEur),
+      eur(l.gainEur),
+      l.symbol,
+      l.sellTradeId,
+    ]),
+  );
+  const box = report.netGainEur >= 0 ? '3AN' : '3BN';
+  return `${csv}\n\ntotal_${box},${eur(Math.abs(report.netGainEur))}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Withdrawal approval queue (UI side)
+ *
+ * Mirrors withdrawal_requests as written by execution-wallet-withdraw and
+ * system-wallet-withdraw (supabase/functions/_shared/withdrawalPolicy.ts).
+ * Approving is two steps: review_withdrawal_request marks the request
+ * approved, then the withdraw function of its source executes it.
+ */
+
+export type WithdrawalSource = 'execution_wallet' | 'system_wallet';
+
+export type WithdrawalRequestStatus =
+  | 'pending_approval'
+  | 'approved'
+  | 'processing'
+  | 'submitted'
+  | 'rejected'
+  | 'failed';
+
+export interface WithdrawalReason {
+  code: string;
+  message: string;
+}
+
+export interface WithdrawalRequestRecord {
+  id: string;
+  user_id: string;
+  requested_by: string;
+  source: WithdrawalSource;
+  wallet_id: string | null;
+  asset: string;
+  amount: number | string;
+  to_address: string;
+  status: WithdrawalRequestStatus;
+  evaluation: {
+    reasons?: WithdrawalReason[];
+    usage?: { daily_used: number; weekly_used: number; daily_limit: number | null; weekly_limit: number | null };
+  } | null;
+  review_note: string | null;
+  tx_hash: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+/** Successful response of the withdraw functions: sent, or queued for an admin */
+export type WithdrawResponse =
+  | { success: true; status: 'submitted'; request_id: string; tx_hash: string }
+  | { success: true; status: 'pending_approval'; request_id: string; reasons: WithdrawalReason[] };
+
+/** Edge function that executes an approved request */
+export const WITHDRAW_FUNCTION_BY_SOURCE: Record<WithdrawalSource, string> = {
+  execution_wallet: 'execution-wallet-withdraw',
+  system_wallet: 'system-wallet-withdraw',
+};
+
+/** Requests an admin still has to act on: pending review, or approved but not yet sent */
+export function actionableWithdrawals<T extends Pick<WithdrawalRequestRecord, 'status' | 'created_at'>>(requests: T[]): T[] {
+  return requests
+    .filter((r) => r.status === 'pending_approval' || r.status === 'approved')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** The requester cannot review their own withdrawal (enforced again in SQL) */
+export function canReview(request: Pick<WithdrawalRequestRecord, 'status' | 'requested_by'>, adminId: string | null): boolean {
+  return request.status === 'pending_approval' && !!adminId && request.requested_by !== adminId;
+}
+
+/** "used / limit" for the velocity window at request time, '—' when unlimited */
+export function formatVelocity(used: number | undefined, limit: number | null | undefined): string {
+  if (limit === null || limit === undefined) return '—';
+  return `${used ?? 0} / ${limit}`;
+}
+
+export function shortAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+}
@@ -8,16 +8,21 @@
  * Ref: https://0x.org/docs/0x-swap-api/advanced-topics/permit2-erc20-approvals
  * Ref: https://docs.0x.org/0x-swap-api/api-references/get-swap-v1-quote
  * Base contracts: https://docs.base.org/docs/contracts
+ *
+ * Per-chain values live in ./chains.ts; the BASE_* exports below are kept for
+ * the Base-only wallet tooling and must stay in sync with the registry.
  */
 
-export const BASE_CHAIN_ID = 8453;
+import { BASE_CHAIN_ID, CHAINS, NATIVE_TOKEN_SENTINEL, PERMIT2_ADDRESS } from './chains.ts';
+
+export { BASE_CHAIN_ID };
 
 // Token addresses on Base
 export const BASE_TOKENS = {
   WETH: '0x4200000000000000000000000000000000000006',
   USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
   // Native ETH sentinel for 0x /price endpoint
-  ETH: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+  ETH: NATIVE_TOKEN_SENTINEL,
 } as const;
 
 // Token decimals on Base
@@ -57,7 +62,7 @@ export const BASE_0X = {
   // This is the spender you grant allowance to via Permit2
   SPENDER: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
   // Uniswap Permit2 contract (handles signature validation & token transfers)
-  PERMIT2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+  PERMIT2: PERMIT2_ADDRESS,
 } as const;
 
 // ============================================================================
@@ -84,6 +89,12 @@ export const ALLOWED_TO_ADDRESSES = [
   BASE_0X.SPENDER, // Legacy 0x Exchange Proxy v4 (fallback)
 ] as const;
 
+// Same fallback allowlist for any registered chain (the 0x proxy differs on Optimism)
+export function getAllowedToAddresses(chainId: number): string[] {
+  const chain = CHAINS[chainId];
+  return chain ? [chain.zeroExSpender] : [];
+}
+
 // Permit2 domain for EIP-712
 export const PERMIT2_DOMAIN = {
   name: 'Permit2',
@@ -91,6 +102,14 @@ export const PERMIT2_DOMAIN = {
   verifyingContract: BASE_0X.PERMIT2,
 } as const;
 
+export function getPermit2Domain(chainId: number) {
+  return {
+    name: 'Permit2',
+    chainId,
+    verifyingContract: CHAINS[chainId]?.permit2 ?? PERMIT2_ADDRESS,
+  } as const;
+}
+
 // Permit2 EIP-712 types for single token approval
 export const PERMIT2_TYPES = {
   PermitSingle: [
@@ -0,0 +1,236 @@
+/**
+ * Chain registry for onchain execution
+ *
+ * Single source of truth for everything that differs per EVM chain:
+ * token addresses/decimals, Permit2 + 0x spender, RPC env keys and explorer.
+ *
+ * Two gates apply before a chain can carry REAL trades:
+ * 1. It must be `executable` here (receipt decoding + settlement verified)
+ * 2. It must be listed in ONCHAIN_ENABLED_CHAIN_IDS (comma separated, default "8453")
+ *
+ * Strategies pick their chain with `configuration.executionChainId`
+ * (default Base). Ethereum mainnet is registered for quotes only.
+ */
+
+export const BASE_CHAIN_ID = 8453;
+export const ARBITRUM_CHAIN_ID = 42161;
+export const OPTIMISM_CHAIN_ID = 10;
+export const ETHEREUM_CHAIN_ID = 1;
+
+export const DEFAULT_EXECUTION_CHAIN_ID = BASE_CHAIN_ID;
+
+// Native ETH sentinel used by aggregators (same on every chain)
+export const NATIVE_TOKEN_SENTINEL = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+// Uniswap Permit2 is deployed at the same address on every supported chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+export interface ChainToken {
+  address: string;
+  decimals: number;
+  stable?: boolean;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  key: 'base' | 'arbitrum' | 'optimism' | 'ethereum';
+  name: string;
+  // First env key that is set wins
+  rpcEnvKeys: string[];
+  defaultRpcUrl: string;
+  explorer: { name: string; url: string };
+  // Receipt decoding and settlement have been verified on this chain
+  executable: boolean;
+  tokens: Record<string, ChainToken>;
+  permit2: string;
+  // Legacy 0x Exchange Proxy v4 (Settler targets come from the quote itself)
+  zeroExSpender: string;
+}
+
+export const CHAINS: Record<number, ChainConfig> = {
+  [BASE_CHAIN_ID]: {
+    chainId: BASE_CHAIN_ID,
+    key: 'base',
+    name: 'Base',
+    rpcEnvKeys: ['RPC_URL_8453', 'BASE_RPC_URL'],
+    defaultRpcUrl: 'https://base.llamarpc.com',
+    explorer: { name: 'BaseScan', url: 'https://basescan.org' },
+    executable: true,
+    tokens: {
+      WETH: { address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+      USDC: { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6, stable: true },
+      DAI: { address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', decimals: 18, stable: true },
+      USDbC: { address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', decimals: 6, stable: true },
+      cbETH: { address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22', decimals: 18 },
+    },
+    permit2: PERMIT2_ADDRESS,
+    zeroExSpender: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
+  },
+  [ARBITRUM_CHAIN_ID]: {
+    chainId: ARBITRUM_CHAIN_ID,
+    key: 'arbitrum',
+    name: 'Arbitrum One',
+    rpcEnvKeys: ['RPC_URL_42161'],
+    defaultRpcUrl: 'https://arbitrum.llamarpc.com',
+    explorer: { name: 'Arbiscan', url: 'https://arbiscan.io' },
+    executable: true,
+    tokens: {
+      WETH: { address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', decimals: 18 },
+      USDC: { address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6, stable: true },
+      'USDC.e': { address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', decimals: 6, stable: true },
+      USDT: { address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6, stable: true },
+      DAI: { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', decimals: 18, stable: true },
+      WBTC: { address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f', decimals: 8 },
+    },
+    permit2: PERMIT2_ADDRESS,
+    zeroExSpender: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
+  },
+  [OPTIMISM_CHAIN_ID]: {
+    chainId: OPTIMISM_CHAIN_ID,
+    key: 'optimism',
+    name: 'Optimism',
+    rpcEnvKeys: ['RPC_URL_10'],
+    defaultRpcUrl: 'https://optimism.llamarpc.com',
+    explorer: { name: 'Optimistic Etherscan', url: 'https://optimistic.etherscan.io' },
+    executable: true,
+    tokens: {
+      WETH: { address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+      USDC: { address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', decimals: 6, stable: true },
+      'USDC.e': { address: '0x7F5c764cBc14f9669B88837ca1490cCa17c31607', decimals: 6, stable: true },
+      USDT: { address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', decimals: 6, stable: true },
+      DAI: { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', decimals: 18, stable: true },
+      WBTC: { address: '0x68f180fcCe6836688e9084f035309E29Bf0A2095', decimals: 8 },
+      OP: { address: '0x4200000000000000000000000000000000000042', decimals: 18 },
+    },
+    permit2: PERMIT2_ADDRESS,
+    zeroExSpender: '0xDEF1ABE32c034e558Cdd535791643C58a13aCC10',
+  },
+  [ETHEREUM_CHAIN_ID]: {
+    chainId: ETHEREUM_CHAIN_ID,
+    key: 'ethereum',
+    name: 'Ethereum',
+    rpcEnvKeys: ['RPC_URL_1'],
+    defaultRpcUrl: 'https://eth.llamarpc.com',
+    explorer: { name: 'Etherscan', url: 'https://etherscan.io' },
+    executable: false,
+    tokens: {
+      WETH: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+      USDC: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, stable: true },
+      USDT: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, stable: true },
+      DAI: { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18, stable: true },
+      WBTC: { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8 },
+    },
+    permit2: PERMIT2_ADDRESS,
+    zeroExSpender: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
+  },
+};
+
+export function getChain(chainId: number): ChainConfig | null {
+  return CHAINS[chainId] ?? null;
+}
+
+export function isSupportedChain(chainId: number): boolean {
+  return !!CHAINS[chainId];
+}
+
+/**
+ * RPC URL for a chain: first configured env key, else the public default.
+ * Returns null for unknown chains.
+ */
+export function getRpcUrl(chainId: number): string | null {
+  const chain = CHAINS[chainId];
+  if (!chain) return null;
+  for (const key of chain.rpcEnvKeys) {
+    const value = Deno.env.get(key);
+    if (value) return value;
+  }
+  return chain.defaultRpcUrl;
+}
+
+/**
+ * RPC URL only when explicitly configured (no public fallback).
+ * Used by paths that sign or broadcast, where a rate-limited public RPC is not acceptable.
+ */
+export function getConfiguredRpcUrl(chainId: number): string | null {
+  const chain = CHAINS[chainId];
+  if (!chain) return null;
+  for (const key of chain.rpcEnvKeys) {
+    const value = Deno.env.get(key);
+    if (value) return value;
+  }
+  return null;
+}
+
+/** RPC map in the `Record<chainId, url>` shape the existing helpers expect. */
+export function buildRpcUrlMap(): Record<number, string> {
+  const map: Record<number, string> = {};
+  for (const id of Object.keys(CHAINS).map(Number)) {
+    map[id] = getRpcUrl(id)!;
+  }
+  return map;
+}
+
+export function explorerTxUrl(chainId: number, txHash: string): string | null {
+  const chain = CHAINS[chainId];
+  return chain ? `${chain.explorer.url}/tx/${txHash}` : null;
+}
+
+export function chainLabel(chainId: number): string {
+  const chain = CHAINS[chainId];
+  return chain ? `${chain.name} (${chainId})` : `Chain ${chainId}`;
+}
+
+export function getToken(chainId: number, symbol: string): ChainToken | null {
+  return CHAINS[chainId]?.tokens[symbol] ?? null;
+}
+
+/**
+ * Lowercased address → { symbol, decimals } for receipt decoding.
+ */
+export function tokensByAddress(chainId: number): Record<string, { decimals: number; symbol: string }> {
+  const out: Record<string, { decimals: number; symbol: string }> = {};
+  const chain = CHAINS[chainId];
+  if (!chain) return out;
+  for (const [symbol, token] of Object.entries(chain.tokens)) {
+    out[token.address.toLowerCase()] = { decimals: token.decimals, symbol };
+  }
+  return out;
+}
+
+export function stablecoinsByAddress(chainId: number): Record<string, { decimals: number; symbol: string }> {
+  const out: Record<string, { decimals: number; symbol: string }> = {};
+  const chain = CHAINS[chainId];
+  if (!chain) return out;
+  for (const [symbol, token] of Object.entries(chain.tokens)) {
+    if (token.stable) out[token.address.toLowerCase()] = { decimals: token.decimals, symbol };
+  }
+  return out;
+}
+
+/**
+ * Chains allowed to carry REAL trades in this deployment.
+ * ONCHAIN_ENABLED_CHAIN_IDS is intersected with the executable chains, so a
+ * typo or quote-only chain in the env can never open signing on it.
+ */
+export function getEnabledExecutionChainIds(): number[] {
+  const raw = Deno.env.get('ONCHAIN_ENABLED_CHAIN_IDS') || String(BASE_CHAIN_ID);
+  return raw
+    .split(',')
+    .map((s) => Number(s.trim()))
+    .filter((id) => Number.isInteger(id) && CHAINS[id]?.executable === true);
+}
+
+export function isExecutionChainEnabled(chainId: number): boolean {
+  return getEnabledExecutionChainIds().includes(chainId);
+}
+
+/**
+ * Strategy chain selection. Unknown values fall back to null so the caller
+ * can fail closed instead of silently trading on Base.
+ */
+export function resolveStrategyChainId(config: Record<string, any> | null | undefined): number | null {
+  const raw = config?.executionChainId;
+  if (raw === undefined || raw === null || raw === '') return DEFAULT_EXECUTION_CHAIN_ID;
+  const chainId = Number(raw);
+  return Number.isInteger(chainId) && isSupportedChain(chainId) ? chainId : null;
+}
@@ -0,0 +1,62 @@
+// =============================================================================
+// DB CLIENT SURFACE
+// =============================================================================
+// The subset of the supabase-js client that _shared modules use. Modules take
+// a DbClient (or DbRpcClient) instead of importing supabase-js, so they stay
+// import-free and run from src tests against InMemorySupabase.
+//
+// Rows come back as `unknown`: callers cast to the row interface they declare
+// for the table, the same way the edge functions treat untyped selects.
+// =============================================================================
+
+export interface DbError {
+  message: string;
+  code?: string;
+}
+
+export interface DbResponse {
+  data: unknown;
+  error: DbError | null;
+  count?: number | null;
+}
+
+export interface DbQuery extends PromiseLike<DbResponse> {
+  select(columns?: string, options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }): DbQuery;
+  insert(values: object | object[]): DbQuery;
+  update(values: object): DbQuery;
+  upsert(values: object | object[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): DbQuery;
+  delete(): DbQuery;
+  eq(column: string, value: unknown): DbQuery;
+  neq(column: string, value: unknown): DbQuery;
+  in(column: string, values: readonly unknown[]): DbQuery;
+  gte(column: string, value: unknown): DbQuery;
+  gt(column: string, value: unknown): DbQuery;
+  lte(column: string, value: unknown): DbQuery;
+  lt(column: string, value: unknown): DbQuery;
+  is(column: string, value: unknown): DbQuery;
+  not(column: string, operator: 'is' | 'eq', value: unknown): DbQuery;
+  like(column: string, pattern: string): DbQuery;
+  ilike(column: string, pattern: string): DbQuery;
+  or(filters: string): DbQuery;
+  order(column: string, options?: { ascending?: boolean }): DbQuery;
+  limit(count: number): DbQuery;
+  single(): DbQuery;
+  maybeSingle(): DbQuery;
+}
+
+export interface DbClient {
+  from(table: string): DbQuery;
+}
+
+export interface DbRpcClient extends DbClient {
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<DbResponse>;
+}
+
+export interface StorageDownloadResponse {
+  data: { text(): Promise<string> } | null;
+  error: DbError | null;
+}
+
+export interface DbStorageClient {
+  storage: { from(bucket: string): { download(path: string): PromiseLike<StorageDownloadResponse> } };
+}
@@ -203,6 +203,56 @@ export async function decryptPrivateKey(encryptedData: {
   return privateKey;
 }
 
+// ─────────────────────────────────────────────────────────────
+// Wallet key loading (execution_wallet_secrets *_b64 columns)
+// ─────────────────────────────────────────────────────────────
+
+function base64ToBytes(b64: string): Uint8Array {
+  const normalized = b64.trim().replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(b64.length / 4) * 4, "=");
+  const bin = atob(normalized);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+/**
+ * Decrypt an execution wallet's private key from its secrets row.
+ * Used by callers that re-sign outside the original request (tx-manager-monitor).
+ * Returns "0x" + 64 hex chars; throws on any missing or invalid field.
+ */
+export async function loadExecutionWalletPrivateKey(
+  supabaseAdmin: { from(table: string): any },
+  walletId: string,
+): Promise<string> {
+  const { data: secrets, error } = await supabaseAdmin
+    .from("execution_wallet_secrets")
+    .select("encrypted_dek_b64, dek_iv_b64, dek_auth_tag_b64, encrypted_private_key_b64, iv_b64, auth_tag_b64, kek_version")
+    .eq("wallet_id", walletId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to fetch wallet secrets: ${error.message}`);
+  if (!secrets) throw new Error("Wallet has no secrets");
+
+  for (const field of ["encrypted_dek_b64", "dek_iv_b64", "dek_auth_tag_b64", "encrypted_private_key_b64", "iv_b64", "auth_tag_b64"]) {
+    if (!secrets[field]) throw new Error(`Wallet secrets missing required field: ${field}`);
+  }
+
+  const privateKey = await decryptPrivateKey({
+    encrypted_private_key: base64ToBytes(secrets.encrypted_private_key_b64),
+    iv: base64ToBytes(secrets.iv_b64),
+    auth_tag: base64ToBytes(secrets.auth_tag_b64),
+    encrypted_dek: base64ToBytes(secrets.encrypted_dek_b64),
+    dek_iv: base64ToBytes(secrets.dek_iv_b64),
+    dek_auth_tag: base64ToBytes(secrets.dek_auth_tag_b64),
+    kek_version: secrets.kek_version ?? 1,
+  });
+
+  if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new Error("Decrypted private key is not valid 32-byte hex");
+  }
+  return privateKey;
+}
+
 // NOTE:
 // - KEK rotation is intentionally NOT implemented for MVP.
 // - Changing KEK requires deleting all wallets first.
@@ -2,11 +2,9 @@
  * Shared Ethereum utilities for on-chain execution
  */
 
-const RPC_URLS: Record<number, string> = {
-  1: Deno.env.get('RPC_URL_1') || 'https://eth.llamarpc.com',
-  8453: Deno.env.get('RPC_URL_8453') || 'https://base.llamarpc.com',
-  42161: Deno.env.get('RPC_URL_42161') || 'https://arbitrum.llamarpc.com',
-};
+import { buildRpcUrlMap } from './chains.ts';
+
+const RPC_URLS: Record<number, string> = buildRpcUrlMap();
 
 export interface TxRequest {
   to: string;
@@ -0,0 +1,250 @@
+// =============================================================================
+// EXECUTION JOB QUEUE
+// =============================================================================
+// execution_jobs rows are REAL on-chain intents waiting for execution-job-worker.
+// Lifecycle:
+//
+//   READY ──claim──▶ LOCKED ──submit ok──▶ SUBMITTED ──receipt──▶ CONFIRMED
+//     ▲                │                                  └──reverted──▶ FAILED
+//     └──retryable─────┤
+//                      ├──non-retryable──▶ FAILED
+//                      └──attempts exhausted──▶ DEAD_LETTER
+//
+// claim_execution_jobs() hands out a lease (lease_expires_at). The worker claims
+// one job at a time and renews the lease right before submitting, so a lease
+// never runs out while an earlier job of the same run is still submitting. A
+// worker that dies mid-job leaves the row LOCKED; once the lease lapses the
+// next claim picks it up again and counts another attempt, so a job that keeps
+// killing the worker still ends up in DEAD_LETTER.
+//
+// A submit whose outcome is unknown (timeout, network error, gateway error,
+// or a worker that died after logging 'submitting') may already have been
+// broadcast. Such a job is not sent again until RECONCILE_AFTER_SECONDS have
+// passed and neither real_trades nor managed_transactions holds a tx for its
+// placeholder (realTrades.findIntentBroadcast).
+//
+// Everything here is pure so the worker's decisions can be tested in isolation.
+// =============================================================================
+
+export type ExecutionJobStatus =
+  | 'READY'
+  | 'LOCKED'
+  | 'SUBMITTED'
+  | 'CONFIRMED'
+  | 'FAILED'
+  | 'DEAD_LETTER';
+
+export const EXECUTION_JOB_DEFAULTS = {
+  // Jobs per worker run, claimed one at a time (shared SYSTEM wallet nonce)
+  BATCH_SIZE: 5,
+  LEASE_SECONDS: 180,
+  // Must stay below the lease (renewed right before submit) so a slow submit never overlaps a re-claim
+  SUBMIT_TIMEOUT_MS: 120_000,
+  // Longer than an edge function may run: by then an in-flight sign-and-send has written its records
+  RECONCILE_AFTER_SECONDS: 600,
+  MAX_ATTEMPTS: 5,
+  BACKOFF_BASE_SECONDS: 30,
+  BACKOFF_MAX_SECONDS: 1800,
+  // Entries kept in execution_jobs.attempt_log
+  ATTEMPT_LOG_LIMIT: 10,
+  SLIPPAGE_BPS: 50,
+} as const;
+
+/**
+ * onchain-sign-and-send error codes that will fail the same way on every
+ * retry (configuration, guards, bad input). Anything else — quote/build
+ * hiccups, signer or RPC outages, timeouts, the retry-storm throttle — is
+ * worth another attempt.
+ */
+const NON_RETRYABLE_CODES = new Set([
+  'UNSUPPORTED_PROVIDER',
+  'UNSUPPORTED_CHAIN',
+  'MAX_SELL_WEI_NOT_CONFIGURED',
+  'MAX_SELL_WEI_INVALID',
+  'blocked_max_sell_wei_exceeded',
+  'blocked_negative_cash',
+  'blocked_insufficient_usdc_wallet',
+  'unsupported_job_kind',
+  'unsupported_execution_mode',
+  'invalid_job_amount',
+]);
+
+export interface SubmitFailure {
+  code: string | null;
+  message: string;
+  /** HTTP status from onchain-sign-and-send; null for network errors/timeouts */
+  httpStatus: number | null;
+}
+
+export interface AttemptLogEntry {
+  attempt: number;
+  at: string;
+  outcome: 'submitting' | 'submitted' | 'ambiguous' | 'retry' | 'failed' | 'dead_letter' | 'confirmed' | 'reverted';
+  code?: string | null;
+  message?: string;
+  tx_hash?: string;
+}
+
+/** Subset of an execution_jobs row the transitions depend on. */
+export interface ExecutionJobState {
+  attempts: number;
+  max_attempts: number | null;
+  attempt_log: AttemptLogEntry[] | null;
+}
+
+export function isRetryableFailure(failure: SubmitFailure): boolean {
+  if (failure.code && NON_RETRYABLE_CODES.has(failure.code)) return false;
+  if (failure.code) return true;
+  // No code: network error/timeout (retry) or a plain 4xx rejection (don't)
+  if (failure.httpStatus == null) return true;
+  return failure.httpStatus >= 500 || failure.httpStatus === 429;
+}
+
+/**
+ * No answer from onchain-sign-and-send (timeout, network or gateway error):
+ * the tx may have been broadcast anyway.
+ */
+export function isAmbiguousFailure(failure: SubmitFailure): boolean {
+  if (failure.code) return false;
+  return failure.httpStatus == null || failure.httpStatus === 502 || failure.httpStatus === 504;
+}
+
+/** Exponential backoff after the given (1-based) attempt, capped. */
+export function retryDelaySeconds(attempt: number): number {
+  const exp = Math.max(0, Math.floor(attempt) - 1);
+  const delay = EXECUTION_JOB_DEFAULTS.BACKOFF_BASE_SECONDS * 2 ** exp;
+  return Math.min(delay, EXECUTION_JOB_DEFAULTS.BACKOFF_MAX_SECONDS);
+}
+
+export function maxAttemptsOf(job: ExecutionJobState): number {
+  const max = Number(job.max_attempts);
+  return Number.isFinite(max) && max > 0 ? max : EXECUTION_JOB_DEFAULTS.MAX_ATTEMPTS;
+}
+
+/** Lease expiry re-claims count as attempts; past the cap the job is never submitted again. */
+export function attemptsExhausted(job: ExecutionJobState): boolean {
+  return job.attempts > maxAttemptsOf(job);
+}
+
+function appendAttempt(job: ExecutionJobState, entry: AttemptLogEntry): AttemptLogEntry[] {
+  return [...(job.attempt_log ?? []), entry].slice(-EXECUTION_JOB_DEFAULTS.ATTEMPT_LOG_LIMIT);
+}
+
+const releaseLease = { locked_by: null, lease_expires_at: null };
+
+/** Row patch after a failed submit: back to READY with backoff, FAILED, or DEAD_LETTER. */
+export function failureTransition(job: ExecutionJobState, failure: SubmitFailure, now: Date): Record<string, unknown> {
+  const at = now.toISOString();
+  const retryable = isRetryableFailure(failure);
+  const exhausted = job.attempts >= maxAttemptsOf(job);
+
+  if (retryable && !exhausted) {
+    // An ambiguous submit waits out the reconcile window before it is looked at again
+    const ambiguous = isAmbiguousFailure(failure);
+    const delayMs = (ambiguous
+      ? Math.max(retryDelaySeconds(job.attempts), EXECUTION_JOB_DEFAULTS.RECONCILE_AFTER_SECONDS)
+      : retryDelaySeconds(job.attempts)) * 1000;
+    return {
+      ...releaseLease,
+      status: 'READY' as ExecutionJobStatus,
+      error_message: failure.message,
+      next_attempt_at: new Date(now.getTime() + delayMs).toISOString(),
+      attempt_log: appendAttempt(job, {
+        attempt: job.attempts,
+        at,
+        outcome: ambiguous ? 'ambiguous' : 'retry',
+        code: failure.code,
+        message: failure.message,
+      }),
+    };
+  }
+
+  const deadLetter = retryable && exhausted;
+  return {
+    ...releaseLease,
+    status: (deadLetter ? 'DEAD_LETTER' : 'FAILED') as ExecutionJobStatus,
+    error_message: failure.message,
+    ...(deadLetter ? { dead_lettered_at: at } : {}),
+    attempt_log: appendAttempt(job, {
+      attempt: job.attempts,
+      at,
+      outcome: deadLetter ? 'dead_letter' : 'failed',
+      code: failure.code,
+      message: failure.message,
+    }),
+  };
+}
+
+/**
+ * Row patch written (lease still held) right before calling sign-and-send:
+ * renews the lease for the submit and leaves a 'submitting' marker, so a
+ * re-claim after a crash knows the outcome is unknown.
+ */
+export function submittingTransition(job: ExecutionJobState, now: Date): Record<string, unknown> {
+  return {
+    lease_expires_at: new Date(now.getTime() + EXECUTION_JOB_DEFAULTS.LEASE_SECONDS * 1000).toISOString(),
+    attempt_log: appendAttempt(job, { attempt: job.attempts, at: now.toISOString(), outcome: 'submitting' }),
+  };
+}
+
+/**
+ * When the last submit's outcome is unknown, the time before which the job
+ * must not be sent again (null when it may be submitted now).
+ */
+export function reconcileWaitUntil(job: ExecutionJobState, now: Date): string | null {
+  const last = (job.attempt_log ?? [])[(job.attempt_log ?? []).length - 1];
+  if (!last || (last.outcome !== 'submitting' && last.outcome !== 'ambiguous')) return null;
+  const until = new Date(last.at).getTime() + EXECUTION_JOB_DEFAULTS.RECONCILE_AFTER_SECONDS * 1000;
+  return until > now.getTime() ? new Date(until).toISOString() : null;
+}
+
+/** Hand a claimed job back without counting the claim as an attempt. */
+export function deferTransition(job: ExecutionJobState, until: string): Record<string, unknown> {
+  return {
+    ...releaseLease,
+    status: 'READY' as ExecutionJobStatus,
+    attempts: Math.max(job.attempts - 1, 0),
+    next_attempt_at: until,
+  };
+}
+
+/** Row patch once a tx hash exists for the job (fresh submit or recovered). */
+export function submittedTransition(job: ExecutionJobState, txHash: string, now: Date): Record<string, unknown> {
+  const at = now.toISOString();
+  return {
+    ...releaseLease,
+    status: 'SUBMITTED' as ExecutionJobStatus,
+    tx_hash: txHash,
+    submitted_at: at,
+    error_message: null,
+    attempt_log: appendAttempt(job, { attempt: job.attempts, at, outcome: 'submitted', tx_hash: txHash }),
+  };
+}
+
+/**
+ * Row patch for a SUBMITTED job given its real_trades.execution_status.
+ * null while the receipt is still pending.
+ */
+export function receiptTransition(
+  job: ExecutionJobState,
+  executionStatus: string | null | undefined,
+  now: Date,
+): Record<string, unknown> | null {
+  const at = now.toISOString();
+  if (executionStatus === 'CONFIRMED') {
+    return {
+      status: 'CONFIRMED' as ExecutionJobStatus,
+      confirmed_at: at,
+      attempt_log: appendAttempt(job, { attempt: job.attempts, at, outcome: 'confirmed' }),
+    };
+  }
+  if (executionStatus === 'REVERTED' || executionStatus === 'DROPPED') {
+    const message = `tx_${executionStatus.toLowerCase()}`;
+    return {
+      status: 'FAILED' as ExecutionJobStatus,
+      error_message: message,
+      attempt_log: appendAttempt(job, { attempt: job.attempts, at, outcome: 'reverted', message }),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,317 @@
+// =============================================================================
+// KNOWLEDGE EMBEDDINGS (RAG)
+// =============================================================================
+// knowledge-collector writes knowledge_documents; this module turns them into
+// searchable chunks and answers "which of the user's documents talk about X":
+//
+//   indexKnowledgeDocument  chunk → embed → replace the document's rows in
+//                           knowledge_embeddings (idempotent per document)
+//   retrieveKnowledge       embed the question → match_knowledge_embeddings
+//   buildKnowledgeContext   numbered excerpts for the prompt + one citation
+//                           per document, so answers can say "[2]"
+//
+// The embedding provider is pluggable. Vectors are only compared with vectors
+// of the same model (knowledge_embeddings.embedding_model), so switching
+// providers never mixes incompatible spaces; it just needs a re-index.
+// The hashing provider needs no network and is what the tests use.
+// =============================================================================
+
+import type { DbRpcClient } from './db.ts';
+
+export interface EmbeddingProvider {
+  /** Stored on knowledge_embeddings.embedding_model */
+  model: string;
+  /** Must match the vector(N) column */
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  content: string;
+  metadata?: Record<string, unknown> | null;
+}
+
+/** One row returned by match_knowledge_embeddings */
+export interface KnowledgeMatch {
+  embedding_id: string;
+  document_id: string;
+  source_id: string | null;
+  chunk_index: number;
+  title: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  similarity: number;
+}
+
+export interface KnowledgeCitation {
+  /** 1-based marker used in the prompt and the answer ("[1]") */
+  n: number;
+  documentId: string;
+  title: string;
+  url: string | null;
+  similarity: number;
+}
+
+export interface KnowledgeContext {
+  /** Prompt block; empty string when nothing matched */
+  prompt: string;
+  citations: KnowledgeCitation[];
+}
+
+export type KnowledgeClient = DbRpcClient;
+
+export const KNOWLEDGE_DEFAULTS = {
+  /** knowledge_embeddings.embedding is vector(1536) */
+  DIMENSIONS: 1536,
+  OPENAI_MODEL: 'text-embedding-3-small',
+  /** Characters per chunk (~300 tokens) and carried over between chunks */
+  CHUNK_SIZE: 1200,
+  CHUNK_OVERLAP: 200,
+  MAX_CHUNKS_PER_DOCUMENT: 50,
+  MATCH_COUNT: 6,
+  MIN_SIMILARITY: 0.25,
+  /** Characters of each excerpt placed in the prompt */
+  EXCERPT_CHARS: 600,
+} as const;
+
+// ========================================================================
+// Chunking
+// ========================================================================
+
+/**
+ * Whitespace-normalized, overlapping chunks. A chunk ends at the last
+ * sentence break (or failing that, word break) in its second half so
+ * excerpts read as whole sentences.
+ */
+export function chunkText(
+  text: string,
+  size: number = KNOWLEDGE_DEFAULTS.CHUNK_SIZE,
+  overlap: number = KNOWLEDGE_DEFAULTS.CHUNK_OVERLAP,
+): string[] {
+  const clean = (text || '').replace(/\s+/g, ' ').trim();
+  if (!clean) return [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + size, clean.length);
+    if (end < clean.length) {
+      const half = start + Math.floor(size / 2);
+      const sentence = Math.max(...['. ', '? ', '! '].map((mark) => clean.lastIndexOf(mark, end - 1)));
+      const word = clean.lastIndexOf(' ', end);
+      if (sentence > half) end = sentence + 1;
+      else if (word > half) end = word;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+
+    // Step back by the overlap, then forward to the next word start
+    let next = Math.max(end - overlap, start + 1);
+    const space = clean.indexOf(' ', next);
+    if (next > start + 1 && space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+  return chunks.filter(Boolean);
+}
+
+// ========================================================================
+// Providers
+// ========================================================================
+
+function l2Normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/** FNV-1a, so the same token always lands in the same bucket */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local bag-of-words embedding (feature hashing over unigrams and bigrams).
+ * Lexical only, but deterministic and offline: used in tests and as the
+ * fallback when no embedding API is configured.
+ */
+export function createHashingEmbeddingProvider(
+  dimensions: number = KNOWLEDGE_DEFAULTS.DIMENSIONS,
+): EmbeddingProvider {
+  return {
+    model: `local-hashing-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const tokens: string[] = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+        const features = tokens.concat(tokens.slice(1).map((t, i) => `${tokens[i]}_${t}`));
+        for (const feature of features) {
+          const hash = hashToken(feature);
+          // Sign bit from the hash keeps collisions from only ever adding up
+          vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        return l2Normalize(vector);
+      });
+    },
+  };
+}
+
+export function createOpenAiEmbeddingProvider(
+  apiKey: string,
+  model: string = KNOWLEDGE_DEFAULTS.OPENAI_MODEL,
+  dimensions: number = KNOWLEDGE_DEFAULTS.DIMENSIONS,
+): EmbeddingProvider {
+  return {
+    model,
+    dimensions,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: texts, dimensions }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(`OpenAI embeddings ${response.status}: ${data?.error?.message ?? 'request failed'}`);
+      }
+      return (data.data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+    },
+  };
+}
+
+/**
+ * EMBEDDING_PROVIDER=openai|local (default: openai when OPENAI_API_KEY is
+ * set, otherwise local). EMBEDDING_MODEL overrides the OpenAI model.
+ */
+export function embeddingProviderFromEnv(env: (key: string) => string | undefined): EmbeddingProvider {
+  const apiKey = env('OPENAI_API_KEY');
+  const kind = env('EMBEDDING_PROVIDER') ?? (apiKey ? 'openai' : 'local');
+  if (kind === 'openai') {
+    if (!apiKey) throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+    return createOpenAiEmbeddingProvider(apiKey, env('EMBEDDING_MODEL') || KNOWLEDGE_DEFAULTS.OPENAI_MODEL);
+  }
+  if (kind === 'local') return createHashingEmbeddingProvider();
+  throw new Error(`Unknown EMBEDDING_PROVIDER: ${kind}`);
+}
+
+// ========================================================================
+// Indexing
+// ========================================================================
+
+/**
+ * Replace the document's chunks in knowledge_embeddings.
+ * Returns the number of chunks written.
+ */
+export async function indexKnowledgeDocument(
+  supabase: KnowledgeClient,
+  provider: EmbeddingProvider,
+  doc: KnowledgeDocument,
+): Promise<number> {
+  const chunks = chunkText(doc.content).slice(0, KNOWLEDGE_DEFAULTS.MAX_CHUNKS_PER_DOCUMENT);
+  const vectors = chunks.length ? await provider.embed(chunks) : [];
+  if (vectors.length !== chunks.length) {
+    throw new Error(`${provider.model} returned ${vectors.length} vectors for ${chunks.length} chunks`);
+  }
+  for (const vector of vectors) {
+    if (vector.length !== provider.dimensions) {
+      throw new Error(`${provider.model} returned ${vector.length} dimensions, expected ${provider.dimensions}`);
+    }
+  }
+
+  const { error: deleteError } = await supabase.from('knowledge_embeddings').delete().eq('document_id', doc.id);
+  if (deleteError) throw new Error(`knowledge_embeddings delete failed: ${deleteError.message}`);
+  if (chunks.length === 0) return 0;
+
+  const url = typeof doc.metadata?.url === 'string' ? doc.metadata.url : null;
+  const { error: insertError } = await supabase.from('knowledge_embeddings').insert(
+    chunks.map((content, chunk_index) => ({
+      document_id: doc.id,
+      chunk_index,
+      content,
+      embedding: vectors[chunk_index],
+      embedding_model: provider.model,
+      metadata: { title: doc.title, url, chunk_count: chunks.length },
+    })),
+  );
+  if (insertError) throw new Error(`knowledge_embeddings insert failed: ${insertError.message}`);
+  return chunks.length;
+}
+
+// ========================================================================
+// Retrieval
+// ========================================================================
+
+export async function retrieveKnowledge(
+  supabase: KnowledgeClient,
+  provider: EmbeddingProvider,
+  params: { userId: string; query: string; matchCount?: number; minSimilarity?: number },
+): Promise<KnowledgeMatch[]> {
+  const query = params.query.trim();
+  if (!query) return [];
+  const [embedding] = await provider.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_knowledge_embeddings', {
+    query_embedding: embedding,
+    p_user_id: params.userId,
+    p_embedding_model: provider.model,
+    match_count: params.matchCount ?? KNOWLEDGE_DEFAULTS.MATCH_COUNT,
+    min_similarity: params.minSimilarity ?? KNOWLEDGE_DEFAULTS.MIN_SIMILARITY,
+  });
+  if (error) throw new Error(`match_knowledge_embeddings failed: ${error.message}`);
+  return (data ?? []) as KnowledgeMatch[];
+}
+
+/**
+ * Number documents by their best match and list each excerpt under its
+ * document's number, so several chunks of one article share one citation.
+ */
+export function buildKnowledgeContext(matches: KnowledgeMatch[]): KnowledgeContext {
+  const citations: KnowledgeCitation[] = [];
+  const byDocument = new Map<string, KnowledgeCitation>();
+  const excerpts: string[] = [];
+
+  for (const match of [...matches].sort((a, b) => b.similarity - a.similarity)) {
+    let citation = byDocument.get(match.document_id);
+    if (!citation) {
+      const url = match.metadata?.url;
+      citation = {
+        n: citations.length + 1,
+        documentId: match.document_id,
+        title: match.title,
+        url: typeof url === 'string' ? url : null,
+        similarity: match.similarity,
+      };
+      byDocument.set(match.document_id, citation);
+      citations.push(citation);
+    }
+    const excerpt = match.content.length > KNOWLEDGE_DEFAULTS.EXCERPT_CHARS
+      ? `${match.content.slice(0, KNOWLEDGE_DEFAULTS.EXCERPT_CHARS)}…`
+      : match.content;
+    excerpts.push(`[${citation.n}] ${citation.title}\n${excerpt}`);
+  }
+
+  return { prompt: excerpts.join('\n\n'), citations };
+}
+
+/** Citations whose marker actually appears in the answer */
+export function citedSources(answer: string, citations: KnowledgeCitation[]): KnowledgeCitation[] {
+  return citations.filter((c) => new RegExp(`\\[${c.n}\\]`).test(answer));
+}
+
+export function formatSources(citations: KnowledgeCitation[]): string {
+  if (citations.length === 0) return '';
+  const lines = citations.map((c) => `[${c.n}] ${c.title}${c.url ? ` — ${c.url}` : ''}`);
+  return `📚 **Sources**\n${lines.join('\n')}`;
+}
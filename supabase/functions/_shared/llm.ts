@@ -0,0 +1,482 @@
+// =============================================================================
+// LLM PROVIDER LAYER — llm_configurations / llm_usage
+// =============================================================================
+// One client for every function that talks to a language model. The active
+// llm_configurations row (edited in LLMConfigPanel) picks the provider:
+//
+//   openai     chat completions, JSON schema via response_format
+//   anthropic  messages API, schema given in the system prompt
+//   local      any OpenAI-compatible endpoint (llm_configurations.base_url or
+//              LLM_LOCAL_BASE_URL), e.g. Ollama / vLLM / LM Studio
+//   fixture    deterministic canned responses, no network — used by tests
+//
+// completeJson() parses and validates the answer against a JSON schema and
+// re-asks with the validation errors up to STRUCTURED_RETRIES times. Every
+// call (all attempts together) is written to llm_usage with token counts and
+// an estimated USD cost, attributed to the calling user when there is one.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type LlmProviderKind = 'openai' | 'anthropic' | 'local' | 'fixture';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** Subset of JSON Schema understood by validateJsonSchema */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  description?: string;
+}
+
+export interface LlmProviderRequest extends LlmRequest {
+  /** Ask the provider for JSON matching this schema */
+  jsonSchema?: { name: string; schema: JsonSchema };
+}
+
+export interface LlmUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage;
+  provider: LlmProviderKind;
+  model: string;
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  model: string;
+  complete(request: LlmProviderRequest): Promise<LlmCompletion>;
+}
+
+/** llm_configurations row (fields the layer reads) */
+export interface LlmConfiguration {
+  provider: string;
+  model: string;
+  temperature: number | string | null;
+  max_tokens: number | null;
+  system_prompt?: string | null;
+  base_url?: string | null;
+}
+
+export interface LlmJsonResult<T> {
+  data: T;
+  completion: LlmCompletion;
+  attempts: number;
+}
+
+export interface LlmClient {
+  provider: LlmProvider;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  completeJson<T>(request: LlmRequest, schema: JsonSchema, name?: string): Promise<LlmJsonResult<T>>;
+}
+
+export interface LlmFixture {
+  /** Substring or pattern of the first user message (the prompt; retries keep it) */
+  match: string | RegExp;
+  /** Non-string values are returned as JSON */
+  response: unknown | ((request: LlmProviderRequest) => unknown);
+}
+
+export type LlmDbClient = DbClient;
+
+export const LLM_DEFAULTS = {
+  PROVIDER: 'openai',
+  MODEL: 'gpt-4o-mini',
+  TEMPERATURE: 0.3,
+  MAX_TOKENS: 2000,
+  STRUCTURED_RETRIES: 2,
+  OPENAI_BASE_URL: 'https://api.openai.com/v1',
+  ANTHROPIC_BASE_URL: 'https://api.anthropic.com/v1',
+  ANTHROPIC_VERSION: '2023-06-01',
+  LOCAL_BASE_URL: 'http://localhost:11434/v1',
+} as const;
+
+/** USD per 1M tokens [input, output]; longest matching prefix wins, unknown models cost 0 */
+export const LLM_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'claude-3-haiku': [0.25, 1.25],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-sonnet': [3, 15],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-sonnet-4': [3, 15],
+};
+
+/** Values LLMConfigPanel used to store that are not API model ids */
+const ANTHROPIC_MODEL_ALIASES: Record<string, string> = {
+  'claude-3-haiku': 'claude-3-haiku-20240307',
+  'claude-3-sonnet': 'claude-3-5-sonnet-latest',
+};
+
+export function llmCost(model: string, usage: LlmUsage): number {
+  const key = Object.keys(LLM_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const [input, output] = LLM_PRICING[key];
+  return Math.round(((usage.input_tokens * input + usage.output_tokens * output) / 1_000_000) * 1e6) / 1e6;
+}
+
+// ========================================================================
+// Structured output
+// ========================================================================
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+/** Validation errors as "path: message"; empty when the value matches */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const ok = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+    if (!ok) return [`${path}: expected ${schema.type}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`);
+  }
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) errors.push(...validateJsonSchema(record[key], child, `${path}.${key}`));
+    }
+  }
+  if (actual === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+  }
+  return errors;
+}
+
+/** JSON from a model answer, tolerating a ```json fence around it */
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : content).trim());
+}
+
+const schemaInstruction = (jsonSchema: { name: string; schema: JsonSchema }) =>
+  `Respond with a single JSON value only (no markdown, no prose) matching this JSON schema "${jsonSchema.name}":\n` +
+  JSON.stringify(jsonSchema.schema);
+
+// ========================================================================
+// Providers
+// ========================================================================
+
+/** OpenAI, or any OpenAI-compatible endpoint when kind is 'local' */
+export function createOpenAiLlmProvider(
+  apiKey: string | undefined,
+  model: string = LLM_DEFAULTS.MODEL,
+  baseUrl: string = LLM_DEFAULTS.OPENAI_BASE_URL,
+  kind: 'openai' | 'local' = 'openai',
+): LlmProvider {
+  return {
+    kind,
+    model,
+    async complete(request) {
+      const messages = [...request.messages];
+      let responseFormat: unknown;
+      if (request.jsonSchema && kind === 'openai') {
+        responseFormat = {
+          type: 'json_schema',
+          json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: false },
+        };
+      } else if (request.jsonSchema) {
+        // Compatible servers rarely support json_schema; json_object plus the schema in the prompt
+        responseFormat = { type: 'json_object' };
+        messages.unshift({ role: 'system', content: schemaInstruction(request.jsonSchema) });
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(responseFormat ? { response_format: responseFormat } : {}),
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`${kind} ${response.status}: ${data?.error?.message ?? 'request failed'}`);
+      }
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error(`${kind}: no content in response`);
+      return {
+        content,
+        usage: {
+          input_tokens: Number(data.usage?.prompt_tokens ?? 0),
+          output_tokens: Number(data.usage?.completion_tokens ?? 0),
+        },
+        provider: kind,
+        model: data.model ?? model,
+      };
+    },
+  };
+}
+
+export function createAnthropicLlmProvider(apiKey: string, model: string): LlmProvider {
+  const apiModel = ANTHROPIC_MODEL_ALIASES[model] ?? model;
+  return {
+    kind: 'anthropic',
+    model: apiModel,
+    async complete(request) {
+      const system = request.messages.filter((m) => m.role === 'system').map((m) => m.content);
+      if (request.jsonSchema) system.push(schemaInstruction(request.jsonSchema));
+
+      const response = await fetch(`${LLM_DEFAULTS.ANTHROPIC_BASE_URL}/messages`, {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': LLM_DEFAULTS.ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: apiModel,
+          system: system.join('\n\n') || undefined,
+          messages: request.messages.filter((m) => m.role !== 'system'),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens ?? LLM_DEFAULTS.MAX_TOKENS,
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`anthropic ${response.status}: ${data?.error?.message ?? 'request failed'}`);
+      }
+      const content = (data?.content ?? [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+      return {
+        content,
+        usage: {
+          input_tokens: Number(data.usage?.input_tokens ?? 0),
+          output_tokens: Number(data.usage?.output_tokens ?? 0),
+        },
+        provider: 'anthropic',
+        model: data.model ?? apiModel,
+      };
+    },
+  };
+}
+
+/**
+ * Canned responses keyed on the first user message. Token counts are
+ * characters / 4 so usage tracking is exercised too. Throws when no fixture
+ * matches, so a test never silently gets an empty answer.
+ */
+export function createFixtureLlmProvider(fixtures: LlmFixture[], model = 'fixture'): LlmProvider {
+  return {
+    kind: 'fixture',
+    model,
+    async complete(request) {
+      const prompt = request.messages.find((m) => m.role === 'user')?.content ?? '';
+      const fixture = fixtures.find((f) =>
+        typeof f.match === 'string' ? prompt.includes(f.match) : f.match.test(prompt),
+      );
+      if (!fixture) throw new Error(`fixture: no response for "${prompt.slice(0, 80)}"`);
+
+      const value = typeof fixture.response === 'function'
+        ? (fixture.response as (r: LlmProviderRequest) => unknown)(request)
+        : fixture.response;
+      const content = typeof value === 'string' ? value : JSON.stringify(value);
+      const promptChars = request.messages.reduce((sum, m) => sum + m.content.length, 0);
+      return {
+        content,
+        usage: { input_tokens: Math.ceil(promptChars / 4), output_tokens: Math.ceil(content.length / 4) },
+        provider: 'fixture',
+        model,
+      };
+    },
+  };
+}
+
+/**
+ * Provider for an llm_configurations row. Keys come from the environment:
+ * OPENAI_API_KEY, ANTHROPIC_API_KEY, LLM_LOCAL_API_KEY (optional) and
+ * LLM_LOCAL_BASE_URL when the row has no base_url.
+ */
+export function llmProviderFromConfig(
+  config: Pick<LlmConfiguration, 'provider' | 'model' | 'base_url'>,
+  env: (key: string) => string | undefined,
+): LlmProvider {
+  switch (config.provider) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('LLM provider openai requires OPENAI_API_KEY');
+      return createOpenAiLlmProvider(apiKey, config.model);
+    }
+    case 'anthropic': {
+      const apiKey = env('ANTHROPIC_API_KEY');
+      if (!apiKey) throw new Error('LLM provider anthropic requires ANTHROPIC_API_KEY');
+      return createAnthropicLlmProvider(apiKey, config.model);
+    }
+    case 'local':
+      return createOpenAiLlmProvider(
+        env('LLM_LOCAL_API_KEY'),
+        config.model,
+        config.base_url || env('LLM_LOCAL_BASE_URL') || LLM_DEFAULTS.LOCAL_BASE_URL,
+        'local',
+      );
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/** Active llm_configurations row, or the defaults when there is none */
+export async function loadLlmConfiguration(supabase: LlmDbClient): Promise<LlmConfiguration> {
+  const { data } = await supabase
+    .from('llm_configurations')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+  return (data as LlmConfiguration | null) ?? {
+    provider: LLM_DEFAULTS.PROVIDER,
+    model: LLM_DEFAULTS.MODEL,
+    temperature: LLM_DEFAULTS.TEMPERATURE,
+    max_tokens: LLM_DEFAULTS.MAX_TOKENS,
+  };
+}
+
+// ========================================================================
+// Client
+// ========================================================================
+
+export interface LlmClientOptions {
+  /** Where usage rows are written; omit to skip tracking */
+  supabase?: LlmDbClient;
+  userId?: string | null;
+  /** Edge function name recorded on llm_usage */
+  functionName: string;
+  /** Defaults for requests that do not set them (usually from llm_configurations) */
+  temperature?: number;
+  maxTokens?: number;
+  retries?: number;
+}
+
+export function createLlmClient(provider: LlmProvider, options: LlmClientOptions): LlmClient {
+  const retries = options.retries ?? LLM_DEFAULTS.STRUCTURED_RETRIES;
+
+  const withDefaults = (request: LlmRequest): LlmRequest => ({
+    ...request,
+    temperature: request.temperature ?? options.temperature,
+    maxTokens: request.maxTokens ?? options.maxTokens,
+  });
+
+  const recordUsage = async (
+    usage: LlmUsage,
+    details: { model: string; attempts: number; structured: boolean; success: boolean; error?: string },
+  ) => {
+    if (!options.supabase) return;
+    const { error } = await options.supabase.from('llm_usage').insert({
+      user_id: options.userId ?? null,
+      function_name: options.functionName,
+      provider: provider.kind,
+      model: details.model,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cost_usd: llmCost(details.model, usage),
+      attempts: details.attempts,
+      structured: details.structured,
+      success: details.success,
+      error: details.error ?? null,
+    });
+    // Tracking never fails the request it describes
+    if (error) console.warn('LLM_USAGE_INSERT_FAILED', { functionName: options.functionName, error: error.message });
+  };
+
+  return {
+    provider,
+
+    async complete(request) {
+      try {
+        const completion = await provider.complete(withDefaults(request));
+        await recordUsage(completion.usage, { model: completion.model, attempts: 1, structured: false, success: true });
+        return completion;
+      } catch (err) {
+        const message = String((err as Error)?.message ?? err);
+        await recordUsage({ input_tokens: 0, output_tokens: 0 }, {
+          model: provider.model, attempts: 1, structured: false, success: false, error: message,
+        });
+        throw err;
+      }
+    },
+
+    async completeJson<T>(request: LlmRequest, schema: JsonSchema, name = 'response'): Promise<LlmJsonResult<T>> {
+      const usage: LlmUsage = { input_tokens: 0, output_tokens: 0 };
+      const messages = [...request.messages];
+      let lastError = '';
+      let model = provider.model;
+
+      for (let attempt = 1; attempt <= retries + 1; attempt++) {
+        let completion: LlmCompletion;
+        try {
+          completion = await provider.complete({ ...withDefaults({ ...request, messages }), jsonSchema: { name, schema } });
+        } catch (err) {
+          lastError = String((err as Error)?.message ?? err);
+          await recordUsage(usage, { model, attempts: attempt, structured: true, success: false, error: lastError });
+          throw err;
+        }
+        usage.input_tokens += completion.usage.input_tokens;
+        usage.output_tokens += completion.usage.output_tokens;
+        model = completion.model;
+
+        let problems: string[];
+        let data: unknown;
+        try {
+          data = extractJson(completion.content);
+          problems = validateJsonSchema(data, schema);
+        } catch (err) {
+          problems = [`invalid JSON: ${String((err as Error)?.message ?? err)}`];
+        }
+
+        if (problems.length === 0) {
+          await recordUsage(usage, { model, attempts: attempt, structured: true, success: true });
+          return { data: data as T, completion, attempts: attempt };
+        }
+
+        lastError = problems.join('; ');
+        messages.push(
+          { role: 'assistant', content: completion.content },
+          {
+            role: 'user',
+            content: `That response did not match the required JSON schema: ${lastError}. ` +
+              'Reply again with only the corrected JSON.',
+          },
+        );
+      }
+
+      await recordUsage(usage, { model, attempts: retries + 1, structured: true, success: false, error: lastError });
+      throw new Error(`LLM structured output failed after ${retries + 1} attempts: ${lastError}`);
+    },
+  };
+}
@@ -1,5 +1,7 @@
 // supabase/functions/_shared/logger.ts
-const DEBUG = (Deno.env.get('DEBUG') === '1'); // set only in local dev if needed
+// Deno may be absent when _shared modules run from src tests
+const runtime = globalThis as { Deno?: { env: { get(key: string): string | undefined } } };
+const DEBUG = (runtime.Deno?.env.get('DEBUG') === '1'); // set only in local dev if needed
 
 const noop = () => {};
 
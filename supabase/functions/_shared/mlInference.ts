@@ -0,0 +1,346 @@
+// =============================================================================
+// IN-PROCESS ML INFERENCE (backend-shadow-engine ml_shadow)
+// =============================================================================
+// Scores the entry feature vector inside the edge function instead of calling
+// the Railway /predict service. A model bundle is one JSON file in the private
+// ml-models bucket (ML_MODEL_PATH, default shadow/current.json):
+//
+//   { "version": "xgb-2026-10-01", "feature_names": [...], "signal_threshold": 0.94,
+//     "models": [
+//       { "name": "xgb", "format": "xgboost_json_dump", "weight": 0.7,
+//         "base_score": 0.5, "trees": [...] },          // Booster.get_dump(dump_format='json')
+//       { "name": "logit", "format": "logistic", "weight": 0.3,
+//         "intercept": -1.2, "coefficients": [...],     // one per feature_names entry
+//         "scaler": { "mean": [...], "scale": [...] } } // optional StandardScaler
+//     ] }
+//
+// Tree splits may name a feature ("rsi14") or index it ("f3"); missing values
+// follow the node's "missing" branch. Logistic models impute missing values
+// with the scaler mean (a zero contribution). ensemble_prob is the weighted
+// mean of the model probabilities; xgb_prob is the first tree model's.
+//
+// Features (ML_FEATURE_NAMES) come from the same 400 5m candles the remote
+// service receives; bundles must be trained on computeMlFeatures() output.
+// The version lands in decision_snapshots market_context_json
+// .ml_shadow.model_version.
+// =============================================================================
+
+import type { DbStorageClient } from './db.ts';
+
+export interface MlCandle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type MlFeatures = Record<string, number | null>;
+
+/** Booster.get_dump(dump_format='json') node */
+export interface XgbTreeNode {
+  nodeid: number;
+  split?: string;
+  split_condition?: number;
+  yes?: number;
+  no?: number;
+  missing?: number;
+  children?: XgbTreeNode[];
+  leaf?: number;
+}
+
+export interface XgbModel {
+  name: string;
+  format: 'xgboost_json_dump';
+  weight?: number;
+  /** Probability the booster starts from (XGBoost's base_score) */
+  base_score?: number;
+  trees: XgbTreeNode[];
+}
+
+export interface LogisticModel {
+  name: string;
+  format: 'logistic';
+  weight?: number;
+  intercept: number;
+  coefficients: number[];
+  scaler?: { mean: number[]; scale: number[] };
+}
+
+export type MlModel = XgbModel | LogisticModel;
+
+export interface MlModelBundle {
+  version: string;
+  feature_names: string[];
+  /** ensemble_prob at or above this is a BUY signal */
+  signal_threshold?: number;
+  models: MlModel[];
+}
+
+export interface MlPrediction {
+  ensemble_prob: number;
+  xgb_prob: number | null;
+  model_probs: Record<string, number>;
+  signal: 'BUY' | 'HOLD';
+  model_version: string;
+  /** Features the bundle needed but were null */
+  missing_features: string[];
+}
+
+export type MlStorageClient = DbStorageClient;
+
+export const ML_INFERENCE_DEFAULTS = {
+  BUCKET: 'ml-models',
+  MODEL_PATH: 'shadow/current.json',
+  /** Warm instances re-read the bundle at most this often */
+  CACHE_TTL_MS: 5 * 60_000,
+  SIGNAL_THRESHOLD: 0.5,
+  RSI_PERIOD: 14,
+  STOCH_PERIOD: 14,
+} as const;
+
+/** Names produced by computeMlFeatures, in a stable order for training exports */
+export const ML_FEATURE_NAMES = [
+  'ret_1',
+  'ret_12',
+  'ret_48',
+  'ret_288',
+  'vol_12',
+  'vol_48',
+  'rsi14',
+  'stoch_k',
+  'ema9_dist',
+  'ema21_dist',
+  'ema50_dist',
+  'ema200_dist',
+  'volume_ratio_48',
+  'range_pct',
+] as const;
+
+// ========================================================================
+// Features
+// ========================================================================
+
+const logReturn = (closes: number[], bars: number): number | null => {
+  const n = closes.length;
+  if (n <= bars || closes[n - 1 - bars] <= 0 || closes[n - 1] <= 0) return null;
+  return Math.log(closes[n - 1] / closes[n - 1 - bars]);
+};
+
+const returnStd = (closes: number[], bars: number): number | null => {
+  if (closes.length <= bars) return null;
+  const window = closes.slice(-(bars + 1));
+  const returns = window.slice(1).map((c, i) => Math.log(c / window[i]));
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  return Math.sqrt(returns.reduce((s, r) => s + (r - mean) ** 2, 0) / returns.length);
+};
+
+const emaLast = (closes: number[], period: number): number | null => {
+  if (closes.length < period) return null;
+  const k = 2 / (period + 1);
+  let ema = closes.slice(0, period).reduce((s, c) => s + c, 0) / period;
+  for (let i = period; i < closes.length; i++) ema = closes[i] * k + ema * (1 - k);
+  return ema;
+};
+
+/** Wilder RSI of the last close */
+export function computeRsi(closes: number[], period: number = ML_INFERENCE_DEFAULTS.RSI_PERIOD): number | null {
+  if (closes.length <= period) return null;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+/** Raw stochastic %K of the last candle */
+export function computeStochK(candles: MlCandle[], period: number = ML_INFERENCE_DEFAULTS.STOCH_PERIOD): number | null {
+  if (candles.length < period) return null;
+  const window = candles.slice(-period);
+  const high = Math.max(...window.map((c) => c.high));
+  const low = Math.min(...window.map((c) => c.low));
+  if (high === low) return 50;
+  return ((window[window.length - 1].close - low) / (high - low)) * 100;
+}
+
+/** Feature vector for the last candle; candles must be chronological (oldest first) */
+export function computeMlFeatures(candles: MlCandle[]): MlFeatures {
+  const closes = candles.map((c) => c.close);
+  const last = candles[candles.length - 1];
+  const close = last?.close ?? 0;
+  const dist = (ema: number | null) => (ema !== null && ema > 0 ? close / ema - 1 : null);
+
+  const volumes = candles.slice(-48).map((c) => c.volume);
+  const meanVolume = volumes.length === 48 ? volumes.reduce((s, v) => s + v, 0) / 48 : 0;
+
+  return {
+    ret_1: logReturn(closes, 1),
+    ret_12: logReturn(closes, 12),
+    ret_48: logReturn(closes, 48),
+    ret_288: logReturn(closes, 288),
+    vol_12: returnStd(closes, 12),
+    vol_48: returnStd(closes, 48),
+    rsi14: computeRsi(closes),
+    stoch_k: computeStochK(candles),
+    ema9_dist: dist(emaLast(closes, 9)),
+    ema21_dist: dist(emaLast(closes, 21)),
+    ema50_dist: dist(emaLast(closes, 50)),
+    ema200_dist: dist(emaLast(closes, 200)),
+    volume_ratio_48: meanVolume > 0 ? last.volume / meanVolume : null,
+    range_pct: last && close > 0 ? (last.high - last.low) / close : null,
+  };
+}
+
+// ========================================================================
+// Models
+// ========================================================================
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+
+/** Feature index for a split name: "f3" or a feature_names entry */
+const splitIndex = (split: string, featureNames: string[]): number => {
+  const named = featureNames.indexOf(split);
+  if (named >= 0) return named;
+  const match = split.match(/^f(\d+)$/);
+  if (match && Number(match[1]) < featureNames.length) return Number(match[1]);
+  throw new Error(`unknown split feature "${split}"`);
+};
+
+/** Leaf value of one tree for a feature row (null = missing) */
+export function scoreXgbTree(node: XgbTreeNode, row: (number | null)[], featureNames: string[]): number {
+  let current = node;
+  for (;;) {
+    if (current.leaf !== undefined) return current.leaf;
+    if (!current.split || !current.children) throw new Error(`tree node ${current.nodeid} has no split`);
+    const value = row[splitIndex(current.split, featureNames)];
+    const nextId = value === null || !Number.isFinite(value)
+      ? current.missing
+      : value < (current.split_condition ?? 0) ? current.yes : current.no;
+    const next = current.children.find((child) => child.nodeid === nextId);
+    if (!next) throw new Error(`tree node ${current.nodeid} has no child ${nextId}`);
+    current = next;
+  }
+}
+
+export function predictModel(model: MlModel, row: (number | null)[], featureNames: string[]): number {
+  if (model.format === 'xgboost_json_dump') {
+    const base = model.base_score ?? 0.5;
+    const margin = model.trees.reduce((sum, tree) => sum + scoreXgbTree(tree, row, featureNames), logit(base));
+    return sigmoid(margin);
+  }
+  const z = model.coefficients.reduce((sum, weight, i) => {
+    const value = row[i];
+    if (value === null || !Number.isFinite(value)) return sum;
+    const scaled = model.scaler
+      ? (value - model.scaler.mean[i]) / (model.scaler.scale[i] || 1)
+      : value;
+    return sum + weight * scaled;
+  }, model.intercept);
+  return sigmoid(z);
+}
+
+/** Shape checks on a downloaded bundle; throws with every problem found */
+export function parseModelBundle(raw: unknown): MlModelBundle {
+  const bundle = raw as MlModelBundle;
+  const errors: string[] = [];
+  if (!bundle || typeof bundle !== 'object') throw new Error('model bundle: not an object');
+  if (typeof bundle.version !== 'string' || !bundle.version) errors.push('version is required');
+  if (!Array.isArray(bundle.feature_names) || bundle.feature_names.length === 0) errors.push('feature_names is required');
+  if (!Array.isArray(bundle.models) || bundle.models.length === 0) errors.push('models is required');
+
+  for (const model of Array.isArray(bundle.models) ? bundle.models : []) {
+    if (model.format === 'xgboost_json_dump') {
+      if (!Array.isArray(model.trees) || model.trees.length === 0) errors.push(`${model.name}: trees is required`);
+    } else if (model.format === 'logistic') {
+      if (!Array.isArray(model.coefficients) || model.coefficients.length !== bundle.feature_names?.length) {
+        errors.push(`${model.name}: coefficients must match feature_names`);
+      }
+      if (model.scaler && (model.scaler.mean?.length !== model.coefficients?.length ||
+        model.scaler.scale?.length !== model.coefficients?.length)) {
+        errors.push(`${model.name}: scaler must match coefficients`);
+      }
+    } else {
+      errors.push(`${(model as MlModel)?.name ?? '?'}: unsupported format ${(model as MlModel)?.format}`);
+    }
+  }
+  if (errors.length > 0) throw new Error(`model bundle: ${errors.join('; ')}`);
+  return bundle;
+}
+
+export function predictBundle(bundle: MlModelBundle, features: MlFeatures): MlPrediction {
+  const row = bundle.feature_names.map((name) => {
+    const value = features[name];
+    return value === undefined || value === null || !Number.isFinite(value) ? null : value;
+  });
+  const missing = bundle.feature_names.filter((_, i) => row[i] === null);
+
+  const modelProbs: Record<string, number> = {};
+  let weighted = 0;
+  let totalWeight = 0;
+  let xgbProb: number | null = null;
+  for (const model of bundle.models) {
+    const prob = predictModel(model, row, bundle.feature_names);
+    const weight = model.weight ?? 1;
+    modelProbs[model.name] = prob;
+    weighted += prob * weight;
+    totalWeight += weight;
+    if (xgbProb === null && model.format === 'xgboost_json_dump') xgbProb = prob;
+  }
+
+  const ensembleProb = totalWeight > 0 ? weighted / totalWeight : 0;
+  const threshold = bundle.signal_threshold ?? ML_INFERENCE_DEFAULTS.SIGNAL_THRESHOLD;
+  return {
+    ensemble_prob: ensembleProb,
+    xgb_prob: xgbProb,
+    model_probs: modelProbs,
+    signal: ensembleProb >= threshold ? 'BUY' : 'HOLD',
+    model_version: bundle.version,
+    missing_features: missing,
+  };
+}
+
+// ========================================================================
+// Loading
+// ========================================================================
+
+export interface ModelLoader {
+  load(): Promise<MlModelBundle>;
+}
+
+/**
+ * Reads the bundle from storage and keeps it for CACHE_TTL_MS. A failed
+ * download is not cached, so the next call retries.
+ */
+export function createStorageModelLoader(
+  client: MlStorageClient,
+  options: { bucket?: string; path?: string; ttlMs?: number; now?: () => number } = {},
+): ModelLoader {
+  const bucket = options.bucket ?? ML_INFERENCE_DEFAULTS.BUCKET;
+  const path = options.path ?? ML_INFERENCE_DEFAULTS.MODEL_PATH;
+  const ttlMs = options.ttlMs ?? ML_INFERENCE_DEFAULTS.CACHE_TTL_MS;
+  const now = options.now ?? Date.now;
+  let cached: { bundle: MlModelBundle; loadedAt: number } | null = null;
+
+  return {
+    async load() {
+      if (cached && now() - cached.loadedAt < ttlMs) return cached.bundle;
+      const { data, error } = await client.storage.from(bucket).download(path);
+      if (error || !data) throw new Error(`model download ${bucket}/${path} failed: ${error?.message ?? 'no data'}`);
+      const bundle = parseModelBundle(JSON.parse(await data.text()));
+      cached = { bundle, loadedAt: now() };
+      return bundle;
+    },
+  };
+}
@@ -0,0 +1,222 @@
+// =============================================================================
+// MODEL REGISTRY (ml_models) — champion / challenger / shadow
+// =============================================================================
+// Every registered model points at a bundle in the ml-models bucket
+// (format: _shared/mlInference.ts) and carries its own signal_threshold.
+//
+//   champion    exactly one; its probability vs its threshold gates entries
+//               in backend-shadow-engine (replaces ML_SIGNAL_THRESHOLD, which
+//               is only used while no champion is registered)
+//   challenger  candidate for promotion, scored on every entry
+//   shadow      scored on every entry, observation only
+//   retired     not loaded
+//
+// All active models score the same feature vector per entry; the scores are
+// stored on the snapshot (market_context_json.ml_shadow.models). ml-model-
+// evaluation joins those snapshots with decision_outcomes per horizon and
+// computes, per model: precision / recall of "would enter" against a
+// profitable outcome, the P&L of the entries it would have taken, and the P&L
+// of the entries it actually gated as champion. promote_ml_model swaps the
+// champion (the old one becomes a challenger) with an audit row.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+import { predictBundle, type MlFeatures, type ModelLoader } from './mlInference.ts';
+
+export type MlModelStatus = 'shadow' | 'challenger' | 'champion' | 'retired';
+
+export interface MlModelRow {
+  id: string;
+  name: string;
+  version: string;
+  status: MlModelStatus;
+  storage_path: string;
+  signal_threshold: number | string;
+}
+
+/** One model's score on one entry, as stored in ml_shadow.models */
+export interface ModelScore {
+  model_id: string;
+  name: string;
+  version: string;
+  status: MlModelStatus;
+  threshold: number;
+  prob: number | null;
+  xgb_prob: number | null;
+  would_enter: boolean;
+  error?: string;
+}
+
+export interface RegistryScoring {
+  scores: ModelScore[];
+  /** null when no champion is registered or it failed to score */
+  champion: ModelScore | null;
+}
+
+export interface ModelEvaluationSample {
+  decision_id: string;
+  /** ml_shadow.models of the entry snapshot */
+  models: ModelScore[];
+  /** ml_shadow.champion_model_id at decision time */
+  champion_model_id: string | null;
+  realized_pnl_pct: number | null;
+}
+
+export interface ModelOnlineMetrics {
+  horizon: string;
+  samples: number;
+  /** Outcomes with realized_pnl_pct > 0 */
+  positives: number;
+  predicted_positive: number;
+  true_positive: number;
+  precision: number | null;
+  recall: number | null;
+  /** Realized P&L of the entries the model would have taken */
+  selected_pnl_pct_sum: number;
+  selected_mean_pnl_pct: number | null;
+  /** Entries this model gated as champion, and their realized P&L */
+  gated_entries: number;
+  gated_pnl_pct_sum: number;
+  since: string;
+  computed_at: string;
+}
+
+export type RegistryClient = DbClient;
+
+export const MODEL_REGISTRY_DEFAULTS = {
+  ACTIVE_STATUSES: ['shadow', 'challenger', 'champion'] as MlModelStatus[],
+  /** Warm instances re-read the registry at most this often */
+  REGISTRY_TTL_MS: 60_000,
+  EVALUATION_HORIZON: '4h',
+  EVALUATION_LOOKBACK_DAYS: 30,
+} as const;
+
+/** Active models, champion first */
+export async function fetchActiveModels(client: RegistryClient): Promise<MlModelRow[]> {
+  const { data, error } = await client
+    .from('ml_models')
+    .select('id, name, version, status, storage_path, signal_threshold')
+    .in('status', MODEL_REGISTRY_DEFAULTS.ACTIVE_STATUSES)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`ml_models: ${error.message}`);
+  const rows = (data ?? []) as MlModelRow[];
+  return [...rows.filter((m) => m.status === 'champion'), ...rows.filter((m) => m.status !== 'champion')];
+}
+
+/**
+ * Scores every model on the same features. A model whose bundle fails to load
+ * or score is reported with an error and never enters; the others still run.
+ */
+export async function scoreRegisteredModels(
+  models: MlModelRow[],
+  loaderFor: (storagePath: string) => ModelLoader,
+  features: MlFeatures,
+): Promise<RegistryScoring> {
+  const scores: ModelScore[] = [];
+  for (const model of models) {
+    const base = {
+      model_id: model.id,
+      name: model.name,
+      version: model.version,
+      status: model.status,
+      threshold: Number(model.signal_threshold),
+    };
+    try {
+      const prediction = predictBundle(await loaderFor(model.storage_path).load(), features);
+      scores.push({
+        ...base,
+        prob: prediction.ensemble_prob,
+        xgb_prob: prediction.xgb_prob,
+        would_enter: prediction.ensemble_prob >= base.threshold,
+      });
+    } catch (err) {
+      scores.push({ ...base, prob: null, xgb_prob: null, would_enter: false, error: String((err as Error)?.message ?? err) });
+    }
+  }
+  const champion = scores.find((s) => s.status === 'champion' && !s.error) ?? null;
+  return { scores, champion };
+}
+
+/** Precision / recall and P&L attribution per model id */
+export function evaluateModels(
+  samples: ModelEvaluationSample[],
+  options: { horizon: string; since: string; now?: string },
+): Record<string, ModelOnlineMetrics> {
+  const computedAt = options.now ?? new Date().toISOString();
+  const metrics: Record<string, ModelOnlineMetrics> = {};
+  const round = (n: number) => Math.round(n * 1e4) / 1e4;
+
+  for (const sample of samples) {
+    if (sample.realized_pnl_pct === null || !Number.isFinite(sample.realized_pnl_pct)) continue;
+    const pnl = sample.realized_pnl_pct;
+    const positive = pnl > 0;
+
+    for (const score of sample.models) {
+      if (score.error || score.prob === null) continue;
+      const m = metrics[score.model_id] ??= {
+        horizon: options.horizon,
+        samples: 0,
+        positives: 0,
+        predicted_positive: 0,
+        true_positive: 0,
+        precision: null,
+        recall: null,
+        selected_pnl_pct_sum: 0,
+        selected_mean_pnl_pct: null,
+        gated_entries: 0,
+        gated_pnl_pct_sum: 0,
+        since: options.since,
+        computed_at: computedAt,
+      };
+      m.samples++;
+      if (positive) m.positives++;
+      if (score.would_enter) {
+        m.predicted_positive++;
+        m.selected_pnl_pct_sum += pnl;
+        if (positive) m.true_positive++;
+        // Gated = this model was champion and let the entry through
+        if (sample.champion_model_id === score.model_id) {
+          m.gated_entries++;
+          m.gated_pnl_pct_sum += pnl;
+        }
+      }
+    }
+  }
+
+  for (const m of Object.values(metrics)) {
+    m.precision = m.predicted_positive > 0 ? round(m.true_positive / m.predicted_positive) : null;
+    m.recall = m.positives > 0 ? round(m.true_positive / m.positives) : null;
+    m.selected_mean_pnl_pct = m.predicted_positive > 0 ? round(m.selected_pnl_pct_sum / m.predicted_positive) : null;
+    m.selected_pnl_pct_sum = round(m.selected_pnl_pct_sum);
+    m.gated_pnl_pct_sum = round(m.gated_pnl_pct_sum);
+  }
+  return metrics;
+}
+
+/** Evaluation samples from entry snapshots that recorded per-model scores */
+export function evaluationSamples(
+  snapshots: Array<{ decision_id: string | null; market_context_json: Record<string, unknown> | null }>,
+  outcomes: Array<{ decision_id: string; realized_pnl_pct: number | string | null }>,
+): ModelEvaluationSample[] {
+  const pnlByDecision = new Map(outcomes.map((o) => [o.decision_id, o.realized_pnl_pct]));
+  const samples: ModelEvaluationSample[] = [];
+  const seen = new Set<string>();
+
+  for (const snapshot of snapshots) {
+    if (!snapshot.decision_id || seen.has(snapshot.decision_id) || !pnlByDecision.has(snapshot.decision_id)) continue;
+    const mlShadow = snapshot.market_context_json?.ml_shadow as
+      | { models?: ModelScore[]; champion_model_id?: string | null }
+      | undefined;
+    if (!Array.isArray(mlShadow?.models) || mlShadow.models.length === 0) continue;
+
+    seen.add(snapshot.decision_id);
+    const pnl = pnlByDecision.get(snapshot.decision_id);
+    samples.push({
+      decision_id: snapshot.decision_id,
+      models: mlShadow.models,
+      champion_model_id: mlShadow.champion_model_id ?? null,
+      realized_pnl_pct: pnl === null || pnl === undefined || pnl === '' ? null : Number(pnl),
+    });
+  }
+  return samples;
+}
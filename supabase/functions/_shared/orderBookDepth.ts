@@ -0,0 +1,204 @@
+// =============================================================================
+// ORDER BOOK DEPTH (spread + liquidity gates)
+// =============================================================================
+// order-book-collector snapshots the Coinbase level-2 book for every active
+// pair once a minute into order_book_snapshots (kept RETENTION_DAYS for
+// calibrating the thresholds). Each snapshot records:
+//
+//   spread_bps        (ask - bid) / mid
+//   depth ±10/25/50   EUR resting within N bps of mid, per side
+//   imbalance         (bid - ask) / (bid + ask) depth within IMBALANCE_BAND_BPS,
+//                     -1 = only asks, +1 = only bids
+//   depth_truncated   the REST book ended inside the widest band, so the
+//                     50 bps depth is a lower bound
+//
+// The coordinator's liquidity gate reads the latest snapshot: the side an
+// order takes (asks for BUY, bids for SELL) must hold at least
+// threshold × the order's EUR notional within GATE_BAND_BPS, with the
+// per-context threshold / enforce flag of DEFAULT_CONTEXT_POLICY
+// (src/utils/contextPolicyConfig.ts, mirrored in LIQUIDITY_POLICY).
+// Fail-open when there is no fresh snapshot.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type BookLevel = [price: string | number, size: string | number, ...rest: unknown[]];
+
+export interface OrderBookSnapshot {
+  id?: string;
+  symbol: string;
+  ts: string;
+  best_bid: number;
+  best_ask: number;
+  mid: number;
+  spread_bps: number;
+  bid_depth_10bps: number;
+  ask_depth_10bps: number;
+  bid_depth_25bps: number;
+  ask_depth_25bps: number;
+  bid_depth_50bps: number;
+  ask_depth_50bps: number;
+  imbalance: number;
+  bid_levels: number;
+  ask_levels: number;
+  depth_truncated: boolean;
+  source: string;
+}
+
+export type LiquidityContext = 'ENTRY' | 'TP' | 'SL' | 'MANUAL';
+
+export type LiquidityGateResult =
+  | { status: 'pass' | 'block'; depthRatio: number; sideDepthEur: number; notionalEur: number; minDepthRatio: number }
+  | { status: 'skipped'; reason: 'not_enforced' | 'no_notional' | 'no_snapshot' | 'stale_snapshot' };
+
+export type OrderBookClient = DbClient;
+
+export const ORDER_BOOK_DEFAULTS = {
+  DEPTH_BANDS_BPS: [10, 25, 50],
+  GATE_BAND_BPS: 25,
+  IMBALANCE_BAND_BPS: 25,
+  /** Collector runs every minute; older snapshots are not used by the gates */
+  MAX_SNAPSHOT_AGE_MS: 120_000,
+  RETENTION_DAYS: 90,
+  SOURCE: 'coinbase_rest_l2',
+} as const;
+
+/** DEFAULT_CONTEXT_POLICY[context].liquidity — keep in sync (asserted by orderBookDepth.test.ts) */
+export const LIQUIDITY_POLICY: Record<LiquidityContext, { threshold: number; enforce: boolean }> = {
+  ENTRY: { threshold: 3.0, enforce: true },
+  TP: { threshold: 1.0, enforce: false },
+  SL: { threshold: 2.0, enforce: true },
+  MANUAL: { threshold: 2.5, enforce: true },
+};
+
+const TP_TRIGGERS = ['TAKE_PROFIT', 'SELL_TRAILING_RUNNER'];
+const SL_TRIGGERS = ['STOP_LOSS', 'TRAILING_STOP', 'AUTO_CLOSE_TIME'];
+
+/** Policy context of an intent: manual trades, engine TP / SL exits, everything else ENTRY */
+export function liquidityContext(params: { source?: string | null; trigger?: string | null }): LiquidityContext {
+  if (params.source === 'manual') return 'MANUAL';
+  if (TP_TRIGGERS.includes(params.trigger ?? '')) return 'TP';
+  if (SL_TRIGGERS.includes(params.trigger ?? '')) return 'SL';
+  return 'ENTRY';
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function parseLevels(levels: BookLevel[] | null | undefined): { price: number; size: number }[] {
+  return (levels ?? [])
+    .map(([price, size]) => ({ price: Number(price), size: Number(size) }))
+    .filter((l) => Number.isFinite(l.price) && l.price > 0 && Number.isFinite(l.size) && l.size > 0);
+}
+
+/** EUR notional resting within bandBps of mid (levels are best-first) */
+function depthWithin(levels: { price: number; size: number }[], mid: number, bandBps: number, side: 'bid' | 'ask'): number {
+  const limit = side === 'bid' ? mid * (1 - bandBps / 10000) : mid * (1 + bandBps / 10000);
+  let depth = 0;
+  for (const level of levels) {
+    if (side === 'bid' ? level.price < limit : level.price > limit) break;
+    depth += level.price * level.size;
+  }
+  return depth;
+}
+
+/**
+ * Metrics for one level-2 book. Returns null for an empty or crossed book,
+ * which is not worth storing or gating on.
+ */
+export function computeOrderBookSnapshot(
+  symbol: string,
+  rawBids: BookLevel[] | null | undefined,
+  rawAsks: BookLevel[] | null | undefined,
+  ts: string,
+): OrderBookSnapshot | null {
+  const bids = parseLevels(rawBids).sort((a, b) => b.price - a.price);
+  const asks = parseLevels(rawAsks).sort((a, b) => a.price - b.price);
+  if (bids.length === 0 || asks.length === 0) return null;
+
+  const bestBid = bids[0].price;
+  const bestAsk = asks[0].price;
+  if (bestAsk <= bestBid) return null;
+  const mid = (bestBid + bestAsk) / 2;
+
+  const depth = (band: number) => ({
+    bid: depthWithin(bids, mid, band, 'bid'),
+    ask: depthWithin(asks, mid, band, 'ask'),
+  });
+  const [d10, d25, d50] = ORDER_BOOK_DEFAULTS.DEPTH_BANDS_BPS.map(depth);
+  const imbalanceBand = depth(ORDER_BOOK_DEFAULTS.IMBALANCE_BAND_BPS);
+  const imbalanceTotal = imbalanceBand.bid + imbalanceBand.ask;
+
+  const widest = Math.max(...ORDER_BOOK_DEFAULTS.DEPTH_BANDS_BPS) / 10000;
+  const depthTruncated = bids[bids.length - 1].price >= mid * (1 - widest) || asks[asks.length - 1].price <= mid * (1 + widest);
+
+  return {
+    symbol,
+    ts,
+    best_bid: bestBid,
+    best_ask: bestAsk,
+    mid,
+    spread_bps: round(((bestAsk - bestBid) / mid) * 10000, 4),
+    bid_depth_10bps: round(d10.bid, 2),
+    ask_depth_10bps: round(d10.ask, 2),
+    bid_depth_25bps: round(d25.bid, 2),
+    ask_depth_25bps: round(d25.ask, 2),
+    bid_depth_50bps: round(d50.bid, 2),
+    ask_depth_50bps: round(d50.ask, 2),
+    imbalance: imbalanceTotal > 0 ? round((imbalanceBand.bid - imbalanceBand.ask) / imbalanceTotal, 4) : 0,
+    bid_levels: bids.length,
+    ask_levels: asks.length,
+    depth_truncated: depthTruncated,
+    source: ORDER_BOOK_DEFAULTS.SOURCE,
+  };
+}
+
+/** Depth on the side the order takes, within GATE_BAND_BPS (EUR) */
+export function takerSideDepthEur(snapshot: OrderBookSnapshot, side: 'BUY' | 'SELL'): number {
+  return Number(side === 'BUY' ? snapshot.ask_depth_25bps : snapshot.bid_depth_25bps);
+}
+
+export function evaluateLiquidityGate(params: {
+  snapshot: OrderBookSnapshot | null;
+  side: 'BUY' | 'SELL';
+  notionalEur: number;
+  context: LiquidityContext;
+  nowMs: number;
+}): LiquidityGateResult {
+  const policy = LIQUIDITY_POLICY[params.context];
+  if (!policy.enforce) return { status: 'skipped', reason: 'not_enforced' };
+  const minDepthRatio = policy.threshold;
+  if (!(params.notionalEur > 0)) return { status: 'skipped', reason: 'no_notional' };
+  if (!params.snapshot) return { status: 'skipped', reason: 'no_snapshot' };
+  if (params.nowMs - new Date(params.snapshot.ts).getTime() > ORDER_BOOK_DEFAULTS.MAX_SNAPSHOT_AGE_MS) {
+    return { status: 'skipped', reason: 'stale_snapshot' };
+  }
+
+  const sideDepthEur = takerSideDepthEur(params.snapshot, params.side);
+  const depthRatio = round(sideDepthEur / params.notionalEur, 4);
+  return {
+    status: depthRatio < minDepthRatio ? 'block' : 'pass',
+    depthRatio,
+    sideDepthEur,
+    notionalEur: params.notionalEur,
+    minDepthRatio,
+  };
+}
+
+/** Latest snapshot for the pair if it is younger than MAX_SNAPSHOT_AGE_MS */
+export async function fetchLatestOrderBook(
+  supabase: OrderBookClient,
+  pairSymbol: string,
+  nowMs: number,
+): Promise<OrderBookSnapshot | null> {
+  const since = new Date(nowMs - ORDER_BOOK_DEFAULTS.MAX_SNAPSHOT_AGE_MS).toISOString();
+  const { data, error } = await supabase
+    .from('order_book_snapshots')
+    .select('*')
+    .eq('symbol', pairSymbol)
+    .gte('ts', since)
+    .order('ts', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error || !data) return null;
+  return data as OrderBookSnapshot;
+}
@@ -0,0 +1,141 @@
+// =============================================================================
+// ORDER SLICING / TWAP
+// =============================================================================
+// Large REAL orders eat avoidable price impact on thin Base pools when sent as
+// one swap. A sliced order splits the parent intent into child swaps:
+//
+//   TWAP   - slice_count equal children spaced evenly over window_ms
+//   IMPACT - each child is sized down until the quoted priceImpactBps is at or
+//            below max_price_impact_bps (children still spaced by the TWAP
+//            interval so the pool can recover between fills)
+//
+// Strategy configuration keys (all optional, slicing is OFF unless enabled):
+//   executionSlicingEnabled   boolean
+//   sliceMinNotionalEur       only orders at/above this notional are sliced
+//   sliceCount                number of TWAP children
+//   sliceWindowMinutes        window the children are spread over
+//   sliceMaxPriceImpactBps    switches to IMPACT mode when set
+// =============================================================================
+
+export type SliceMode = 'TWAP' | 'IMPACT';
+
+export interface SlicingConfig {
+  enabled: boolean;
+  minNotionalEur: number;
+  sliceCount: number;
+  windowMs: number;
+  maxPriceImpactBps: number | null;
+}
+
+/** sliced_orders row as read by onchain-slice-worker (numeric columns arrive as strings) */
+export interface SlicedOrderRow {
+  id: string;
+  user_id: string;
+  strategy_id: string | null;
+  mock_trade_id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  total_amount: number | string;
+  slippage_bps: number;
+  chain_id: number;
+  slice_mode: SliceMode;
+  slice_count: number;
+  window_ms: number | string;
+  max_price_impact_bps: number | null;
+  status: 'RUNNING' | 'AWAITING_RECEIPTS' | 'FINALIZING' | 'COMPLETED' | 'FAILED';
+  next_slice_at: string;
+  slices_submitted: number;
+  slices_confirmed: number;
+  slices_failed: number;
+  consecutive_errors: number;
+  amount_submitted: number | string;
+  filled_amount: number | string;
+  filled_value: number | string;
+  gas_cost_eth: number | string;
+  last_tx_hash: string | null;
+  last_error: string | null;
+}
+
+export const SLICING_DEFAULTS = {
+  MIN_NOTIONAL_EUR: 500,
+  SLICE_COUNT: 4,
+  WINDOW_MINUTES: 20,
+  MAX_SLICE_COUNT: 50,
+  // IMPACT mode never sizes a child below this share of the parent
+  MIN_SLICE_FRACTION: 0.05,
+  // Re-quotes per child when shrinking toward the impact cap
+  MAX_IMPACT_REQUOTES: 3,
+  // Consecutive submit failures / impact deferrals before the parent stops
+  MAX_CONSECUTIVE_ERRORS: 3,
+  MAX_IMPACT_DEFERRALS: 10,
+} as const;
+
+export function resolveSlicingConfig(cfg: Record<string, unknown> | null | undefined): SlicingConfig {
+  const c = cfg || {};
+  const sliceCount = Math.floor(Number(c.sliceCount ?? SLICING_DEFAULTS.SLICE_COUNT));
+  const windowMinutes = Number(c.sliceWindowMinutes ?? SLICING_DEFAULTS.WINDOW_MINUTES);
+  const maxImpact = c.sliceMaxPriceImpactBps != null ? Number(c.sliceMaxPriceImpactBps) : null;
+
+  return {
+    enabled: c.executionSlicingEnabled === true,
+    minNotionalEur: Number(c.sliceMinNotionalEur ?? SLICING_DEFAULTS.MIN_NOTIONAL_EUR),
+    sliceCount: Number.isFinite(sliceCount)
+      ? Math.min(Math.max(sliceCount, 1), SLICING_DEFAULTS.MAX_SLICE_COUNT)
+      : SLICING_DEFAULTS.SLICE_COUNT,
+    windowMs: Number.isFinite(windowMinutes) && windowMinutes > 0 ? windowMinutes * 60_000 : 0,
+    maxPriceImpactBps: maxImpact != null && Number.isFinite(maxImpact) && maxImpact > 0 ? maxImpact : null,
+  };
+}
+
+/**
+ * Slicing only kicks in when enabled AND the order is large enough for more
+ * than one child to be worth the extra gas.
+ */
+export function shouldSliceOrder(config: SlicingConfig, notionalEur: number): boolean {
+  if (!config.enabled) return false;
+  if (!Number.isFinite(notionalEur) || notionalEur <= 0) return false;
+  if (notionalEur < config.minNotionalEur) return false;
+  return config.sliceCount > 1 || config.maxPriceImpactBps != null;
+}
+
+export function resolveSliceMode(config: SlicingConfig): SliceMode {
+  return config.maxPriceImpactBps != null ? 'IMPACT' : 'TWAP';
+}
+
+/** Spacing between children; 0 means "as fast as the worker runs". */
+export function sliceIntervalMs(windowMs: number, sliceCount: number): number {
+  if (sliceCount <= 1 || windowMs <= 0) return 0;
+  return Math.floor(windowMs / sliceCount);
+}
+
+/**
+ * TWAP child size: spread what is left evenly over the children still to go.
+ * The last child always takes the full remainder so rounding never strands dust.
+ */
+export function twapSliceAmount(remaining: number, slicesSubmitted: number, sliceCount: number): number {
+  if (remaining <= 0) return 0;
+  const slicesLeft = Math.max(sliceCount - slicesSubmitted, 1);
+  return slicesLeft === 1 ? remaining : remaining / slicesLeft;
+}
+
+/**
+ * IMPACT child size for the next re-quote. Impact is close to linear in size
+ * for small AMM trades, so scale by max/quoted with a 10% safety margin.
+ * Returns null when the child would fall below the minimum slice size.
+ */
+export function impactSizedAmount(
+  candidate: number,
+  quotedImpactBps: number,
+  maxPriceImpactBps: number,
+  minSliceAmount: number,
+): number | null {
+  if (quotedImpactBps <= maxPriceImpactBps) return candidate;
+  const scaled = candidate * (maxPriceImpactBps / quotedImpactBps) * 0.9;
+  return scaled >= minSliceAmount ? scaled : null;
+}
+
+/** Volume-weighted fill price of the rolled-up children. */
+export function rollUpFill(filledAmount: number, filledValue: number): { amount: number; price: number; totalValue: number } | null {
+  if (!(filledAmount > 0) || !(filledValue > 0)) return null;
+  return { amount: filledAmount, price: filledValue / filledAmount, totalValue: filledValue };
+}
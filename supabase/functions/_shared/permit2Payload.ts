@@ -1,7 +1,9 @@
 // supabase/functions/_shared/permit2Payload.ts
-// Helper to build the exact Permit2 EIP-712 payload for Base chain
+// Helper to build the exact Permit2 EIP-712 payload (Base by default)
 // Deno-compatible version for edge functions
 
+import { BASE_CHAIN_ID, PERMIT2_ADDRESS } from './chains.ts';
+
 type Address = `0x${string}`;
 
 export interface Permit2PayloadParams {
@@ -11,10 +13,12 @@ export interface Permit2PayloadParams {
   sigDeadlineSec: number;  // e.g. Math.floor(Date.now()/1000) + 1800
   nonce?: string;          // Optional nonce, defaults to "0"
   expiration?: string;     // Optional expiration, defaults to "0" (no expiration)
+  chainId?: number;        // Optional, defaults to Base (8453)
 }
 
 /**
- * Creates a properly formatted Permit2 EIP-712 payload for Base chain (8453)
+ * Creates a properly formatted Permit2 EIP-712 payload (Base 8453 unless chainId is given).
+ * Permit2 lives at the same address on every chain, only the domain chainId changes.
  * 
  * @param params - Configuration for the Permit2 approval
  * @returns Complete EIP-712 typed data structure ready for signing
@@ -24,8 +28,8 @@ export function makePermit2Payload(params: Permit2PayloadParams) {
     domain: {
       name: "Permit2",
       version: "1",
-      chainId: 8453,
-      verifyingContract: "0x000000000022D473030F116dDEE9F6B43aC78BA3" as Address,
+      chainId: params.chainId ?? BASE_CHAIN_ID,
+      verifyingContract: PERMIT2_ADDRESS as Address,
     },
     types: {
       PermitSingle: [
@@ -1,6 +1,8 @@
 // supabase/functions/_shared/permit2Signer.ts
 // Deno-compatible Permit2 signer client for edge functions
 
+import { isExecutionChainEnabled } from './chains.ts';
+
 type Address = `0x${string}`;
 
 export type Permit2SinglePayload = {
@@ -17,8 +19,6 @@ export type Permit2SinglePayload = {
   };
 };
 
-const ALLOW_CHAIN = 8453; // Base
-
 /**
  * Sign a Permit2 payload using the remote signer service
  * Deno-compatible version for edge functions
@@ -31,7 +31,7 @@ export async function signPermit2Single(payload: Permit2SinglePayload) {
     throw new Error("Missing SIGNER_WEBHOOK_URL or SIGNER_WEBHOOK_AUTH env");
   }
   
-  if (payload.domain.chainId !== ALLOW_CHAIN) {
+  if (!isExecutionChainEnabled(payload.domain.chainId)) {
     throw new Error(`Chain not allowed: ${payload.domain.chainId}`);
   }
 
@@ -0,0 +1,329 @@
+// =============================================================================
+// PORTFOLIO RISK (VaR budget + correlation clusters)
+// =============================================================================
+// The Phase 5 exposure gate caps each coin at an equal share of
+// maxWalletExposure, which treats BTC / ETH / SOL as independent bets. In
+// practice they move together, so three "diversified" positions can carry the
+// risk of one. This module looks at the book as a whole:
+//
+//   VaR      - loss the open positions (plus the proposed BUY) would exceed
+//              with probability 1 - varConfidence over varHorizonHours,
+//              estimated from aligned 1h returns in market_features_v0
+//              (historical quantile or variance-covariance), scaled to the
+//              horizon by sqrt(time)
+//   CLUSTER  - symbols whose pairwise return correlation is at or above
+//              clusterCorrelationThreshold are linked (single linkage); the
+//              cluster holding the BUY symbol may not exceed
+//              maxClusterExposurePct of the wallet
+//
+// Strategy configuration keys (all optional, the gate is OFF unless enabled):
+//   portfolioRiskEnabled          boolean
+//   maxPortfolioVaRPct            VaR budget, % of wallet value
+//   maxClusterExposurePct         cluster cap, % of wallet value
+//   clusterCorrelationThreshold   correlation that links two symbols
+//   varConfidence                 e.g. 0.95
+//   varMethod                     'historical' | 'parametric'
+//   varHorizonHours               horizon the 1h VaR is scaled to
+//   riskLookbackHours             1h return window used for both estimates
+//
+// Fail-closed: when enabled, a symbol without enough aligned history blocks
+// the BUY instead of silently dropping out of the estimate.
+// =============================================================================
+
+export type VarMethod = 'historical' | 'parametric';
+
+export interface PortfolioRiskConfig {
+  enabled: boolean;
+  maxPortfolioVaRPct: number;
+  maxClusterExposurePct: number;
+  clusterCorrelationThreshold: number;
+  varConfidence: number;
+  varMethod: VarMethod;
+  varHorizonHours: number;
+  lookbackHours: number;
+}
+
+export const PORTFOLIO_RISK_DEFAULTS = {
+  MAX_PORTFOLIO_VAR_PCT: 5,
+  MAX_CLUSTER_EXPOSURE_PCT: 50,
+  CLUSTER_CORRELATION_THRESHOLD: 0.7,
+  VAR_CONFIDENCE: 0.95,
+  VAR_METHOD: 'historical' as VarMethod,
+  VAR_HORIZON_HOURS: 24,
+  LOOKBACK_HOURS: 168,
+  MAX_LOOKBACK_HOURS: 720,
+  // Aligned 1h observations required before any estimate is trusted
+  MIN_OBSERVATIONS: 48,
+} as const;
+
+export function resolvePortfolioRiskConfig(cfg: Record<string, unknown> | null | undefined): PortfolioRiskConfig {
+  const c = cfg || {};
+  const num = (v: unknown, fallback: number) => {
+    const n = Number(v);
+    return v != null && Number.isFinite(n) ? n : fallback;
+  };
+  const confidence = num(c.varConfidence, PORTFOLIO_RISK_DEFAULTS.VAR_CONFIDENCE);
+  const lookback = Math.floor(num(c.riskLookbackHours, PORTFOLIO_RISK_DEFAULTS.LOOKBACK_HOURS));
+
+  return {
+    enabled: c.portfolioRiskEnabled === true,
+    maxPortfolioVaRPct: num(c.maxPortfolioVaRPct, PORTFOLIO_RISK_DEFAULTS.MAX_PORTFOLIO_VAR_PCT),
+    maxClusterExposurePct: num(c.maxClusterExposurePct, PORTFOLIO_RISK_DEFAULTS.MAX_CLUSTER_EXPOSURE_PCT),
+    clusterCorrelationThreshold: num(
+      c.clusterCorrelationThreshold,
+      PORTFOLIO_RISK_DEFAULTS.CLUSTER_CORRELATION_THRESHOLD,
+    ),
+    varConfidence: confidence > 0.5 && confidence < 1 ? confidence : PORTFOLIO_RISK_DEFAULTS.VAR_CONFIDENCE,
+    varMethod: c.varMethod === 'parametric' ? 'parametric' : PORTFOLIO_RISK_DEFAULTS.VAR_METHOD,
+    varHorizonHours: Math.max(1, num(c.varHorizonHours, PORTFOLIO_RISK_DEFAULTS.VAR_HORIZON_HOURS)),
+    lookbackHours: Math.min(
+      Math.max(lookback, PORTFOLIO_RISK_DEFAULTS.MIN_OBSERVATIONS),
+      PORTFOLIO_RISK_DEFAULTS.MAX_LOOKBACK_HOURS,
+    ),
+  };
+}
+
+// =============================================================================
+// Return series
+// =============================================================================
+
+export interface ReturnRow {
+  symbol: string;
+  ts_utc: string;
+  ret_1h: number | null;
+}
+
+/**
+ * Keep only timestamps where every symbol has a finite return, so each index
+ * in the output series is the same hour for all symbols.
+ */
+export function alignReturns(rows: ReturnRow[], symbols: string[]): Record<string, number[]> {
+  const bySymbol = new Map<string, Map<string, number>>();
+  for (const s of symbols) bySymbol.set(s, new Map());
+
+  for (const row of rows) {
+    const base = row.symbol.replace('-EUR', '');
+    const ret = row.ret_1h == null ? NaN : Number(row.ret_1h);
+    if (bySymbol.has(base) && Number.isFinite(ret)) {
+      bySymbol.get(base)!.set(row.ts_utc, ret);
+    }
+  }
+
+  const [first, ...rest] = symbols;
+  const aligned: Record<string, number[]> = {};
+  for (const s of symbols) aligned[s] = [];
+  if (!first) return aligned;
+
+  const timestamps = [...bySymbol.get(first)!.keys()]
+    .filter((ts) => rest.every((s) => bySymbol.get(s)!.has(ts)))
+    .sort();
+
+  for (const ts of timestamps) {
+    for (const s of symbols) aligned[s].push(bySymbol.get(s)!.get(ts)!);
+  }
+  return aligned;
+}
+
+function mean(xs: number[]): number {
+  return xs.length === 0 ? 0 : xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function covariance(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const ma = mean(a.slice(0, n));
+  const mb = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += (a[i] - ma) * (b[i] - mb);
+  return sum / (n - 1);
+}
+
+/** Pearson correlation; 0 when either series is flat or too short. */
+export function pearsonCorrelation(a: number[], b: number[]): number {
+  const cov = covariance(a, b);
+  const sa = Math.sqrt(covariance(a, a));
+  const sb = Math.sqrt(covariance(b, b));
+  if (sa === 0 || sb === 0) return 0;
+  return Math.max(-1, Math.min(1, cov / (sa * sb)));
+}
+
+export function correlationMatrix(series: Record<string, number[]>): Record<string, Record<string, number>> {
+  const symbols = Object.keys(series);
+  const matrix: Record<string, Record<string, number>> = {};
+  for (const a of symbols) {
+    matrix[a] = {};
+    for (const b of symbols) {
+      matrix[a][b] = a === b ? 1 : pearsonCorrelation(series[a], series[b]);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Single-linkage clusters: two symbols share a cluster when a chain of pairs
+ * with correlation >= threshold connects them.
+ */
+export function correlationClusters(
+  matrix: Record<string, Record<string, number>>,
+  threshold: number,
+): string[][] {
+  const symbols = Object.keys(matrix);
+  const parent = new Map(symbols.map((s) => [s, s]));
+  const find = (s: string): string => {
+    let root = s;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(s, root);
+    return root;
+  };
+
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      if (matrix[symbols[i]][symbols[j]] >= threshold) {
+        parent.set(find(symbols[i]), find(symbols[j]));
+      }
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const s of symbols) {
+    const root = find(s);
+    clusters.set(root, [...(clusters.get(root) ?? []), s]);
+  }
+  return [...clusters.values()];
+}
+
+// =============================================================================
+// Value at Risk
+// =============================================================================
+
+/** Inverse standard normal CDF (Acklam's rational approximation). */
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Historical 1h VaR (EUR): the confidence-quantile of replayed portfolio losses. */
+export function historicalVaR(
+  exposuresEur: Record<string, number>,
+  series: Record<string, number[]>,
+  confidence: number,
+): number {
+  const symbols = Object.keys(exposuresEur);
+  const n = Math.min(...symbols.map((s) => series[s]?.length ?? 0));
+  if (!Number.isFinite(n) || n === 0) return 0;
+
+  const losses: number[] = [];
+  for (let t = 0; t < n; t++) {
+    let pnl = 0;
+    for (const s of symbols) pnl += exposuresEur[s] * series[s][t];
+    losses.push(-pnl);
+  }
+  losses.sort((x, y) => x - y);
+  const idx = Math.min(losses.length - 1, Math.max(0, Math.ceil(confidence * losses.length) - 1));
+  return Math.max(0, losses[idx]);
+}
+
+/** Variance-covariance 1h VaR (EUR), zero-mean: z * sqrt(e' Σ e). */
+export function parametricVaR(
+  exposuresEur: Record<string, number>,
+  series: Record<string, number[]>,
+  confidence: number,
+): number {
+  const symbols = Object.keys(exposuresEur);
+  let variance = 0;
+  for (const a of symbols) {
+    for (const b of symbols) {
+      variance += exposuresEur[a] * exposuresEur[b] * covariance(series[a] ?? [], series[b] ?? []);
+    }
+  }
+  return normalQuantile(confidence) * Math.sqrt(Math.max(0, variance));
+}
+
+// =============================================================================
+// Gate evaluation
+// =============================================================================
+
+export interface PortfolioRiskInput {
+  /** Current EUR exposure per base symbol */
+  exposuresEur: Record<string, number>;
+  /** Base symbol of the proposed BUY */
+  symbol: string;
+  tradeValueEur: number;
+  walletValueEur: number;
+  /** Aligned 1h returns per base symbol (see alignReturns) */
+  returns: Record<string, number[]>;
+  config: PortfolioRiskConfig;
+}
+
+export interface PortfolioRiskAssessment {
+  breach: 'insufficient_history' | 'var_budget' | 'cluster_cap' | null;
+  observations: number;
+  method: VarMethod;
+  varEur: number;
+  varBudgetEur: number;
+  cluster: string[];
+  clusterExposureEur: number;
+  clusterCapEur: number;
+  correlations: Record<string, Record<string, number>>;
+}
+
+/** Evaluate the book as it would be after the proposed BUY fills. */
+export function assessPortfolioRisk(input: PortfolioRiskInput): PortfolioRiskAssessment {
+  const { config } = input;
+  const postTrade: Record<string, number> = { ...input.exposuresEur };
+  postTrade[input.symbol] = (postTrade[input.symbol] ?? 0) + input.tradeValueEur;
+
+  const symbols = Object.keys(postTrade);
+  const observations = Math.min(...symbols.map((s) => input.returns[s]?.length ?? 0));
+  const varBudgetEur = input.walletValueEur * (config.maxPortfolioVaRPct / 100);
+  const clusterCapEur = input.walletValueEur * (config.maxClusterExposurePct / 100);
+
+  const base: PortfolioRiskAssessment = {
+    breach: null,
+    observations,
+    method: config.varMethod,
+    varEur: 0,
+    varBudgetEur,
+    cluster: [input.symbol],
+    clusterExposureEur: postTrade[input.symbol],
+    clusterCapEur,
+    correlations: {},
+  };
+
+  if (observations < PORTFOLIO_RISK_DEFAULTS.MIN_OBSERVATIONS) {
+    return { ...base, breach: 'insufficient_history' };
+  }
+
+  const series: Record<string, number[]> = {};
+  for (const s of symbols) series[s] = input.returns[s].slice(-observations);
+
+  const oneHourVaR = config.varMethod === 'parametric'
+    ? parametricVaR(postTrade, series, config.varConfidence)
+    : historicalVaR(postTrade, series, config.varConfidence);
+  const varEur = oneHourVaR * Math.sqrt(config.varHorizonHours);
+
+  const correlations = correlationMatrix(series);
+  const cluster = correlationClusters(correlations, config.clusterCorrelationThreshold)
+    .find((c) => c.includes(input.symbol)) ?? [input.symbol];
+  const clusterExposureEur = cluster.reduce((sum, s) => sum + (postTrade[s] ?? 0), 0);
+
+  const assessment = { ...base, varEur, cluster, clusterExposureEur, correlations };
+  if (varEur > varBudgetEur) return { ...assessment, breach: 'var_budget' };
+  if (clusterExposureEur > clusterCapEur) return { ...assessment, breach: 'cluster_cap' };
+  return assessment;
+}
@@ -0,0 +1,347 @@
+// =============================================================================
+// COINBASE PRICE STREAM STATE
+// =============================================================================
+// Pure message handling for the Coinbase Exchange websocket feed, driven by
+// the price-stream edge function (which owns the socket, timers and writes):
+//
+//   heartbeat     1/s per product: liveness + last_trade_id for gap detection
+//   ticker        last trade price, best bid/ask, 24h stats
+//   level2_batch  order book snapshot + batched updates → top of book
+//
+// Sequence handling:
+// - ticker / heartbeat messages at or below the product's last sequence are
+//   duplicates or out of order and are dropped
+// - a heartbeat whose last_trade_id is ahead of the last ticker trade means a
+//   ticker was missed → 'gap' event, the runner re-syncs that product via REST
+// - an l2update before the product's snapshot means the book is unusable →
+//   'gap' event
+//
+// A product is stale when its heartbeat is older than HEARTBEAT_STALE_MS;
+// stale products are left out of price_snapshots so the freshness gate in
+// trading-decision-coordinator falls back to REST for them.
+// =============================================================================
+
+export const PRICE_STREAM_DEFAULTS = {
+  WS_URL: 'wss://ws-feed.exchange.coinbase.com',
+  REST_URL: 'https://api.exchange.coinbase.com',
+  CHANNELS: ['heartbeat', 'ticker', 'level2_batch'],
+  /** Coinbase sends a heartbeat per product every second */
+  HEARTBEAT_STALE_MS: 5_000,
+  /** No message at all for this long → reconnect */
+  SOCKET_STALE_MS: 10_000,
+  RECONNECT_BASE_MS: 500,
+  RECONNECT_MAX_MS: 15_000,
+  /** price_snapshots write cadence (well inside PRICE_STALE_MAX_MS) */
+  SNAPSHOT_INTERVAL_MS: 5_000,
+  /** resting-orders-evaluator cadence after snapshot writes (one call in flight) */
+  RESTING_ORDERS_INTERVAL_MS: 15_000,
+  RESTING_ORDERS_TIMEOUT_MS: 10_000,
+  /** Supabase Realtime push cadence for changed products */
+  BROADCAST_INTERVAL_MS: 1_000,
+  /** One cron invocation holds the socket this long (cron runs every minute) */
+  SESSION_MS: 55_000,
+  REALTIME_TOPIC: 'market-prices',
+  REALTIME_EVENT: 'ticker',
+  SNAPSHOT_SOURCE: 'coinbase_ws',
+} as const;
+
+export interface ProductQuote {
+  productId: string;
+  price: number | null;
+  bid: number | null;
+  ask: number | null;
+  volume24h: number | null;
+  high24h: number | null;
+  low24h: number | null;
+  open24h: number | null;
+  /** Exchange time of the last ticker */
+  exchangeTime: string | null;
+  lastTradeId: number | null;
+  sequence: number | null;
+  lastHeartbeatAt: number | null;
+  updatedAt: number | null;
+}
+
+export type StreamEvent =
+  | { type: 'quote'; productId: string }
+  | { type: 'gap'; productId: string; reason: 'missed_ticker' | 'book_not_initialized'; expected: number | null; received: number | null }
+  | { type: 'subscribed'; productIds: string[] }
+  | { type: 'error'; message: string };
+
+/** Payload of the Realtime broadcast, one entry per changed product */
+export interface StreamedPrice {
+  symbol: string;
+  price: number;
+  bid: number | null;
+  ask: number | null;
+  volume_24h: number | null;
+  high_24h: number | null;
+  low_24h: number | null;
+  open_24h: number | null;
+  time: string;
+}
+
+export interface SnapshotRow {
+  symbol: string;
+  ts: string;
+  price: number;
+  bid: number | null;
+  ask: number | null;
+  source: string;
+}
+
+interface Book {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  bestBid: number | null;
+  bestAsk: number | null;
+}
+
+const num = (value: unknown): number | null => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+function bestOf(levels: Map<number, number>, side: 'buy' | 'sell'): number | null {
+  let best: number | null = null;
+  for (const price of levels.keys()) {
+    if (best === null || (side === 'buy' ? price > best : price < best)) best = price;
+  }
+  return best;
+}
+
+export function subscribeMessage(productIds: string[], channels: readonly string[] = PRICE_STREAM_DEFAULTS.CHANNELS) {
+  return { type: 'subscribe', product_ids: productIds, channels: [...channels] };
+}
+
+/** Exponential backoff, capped; attempt 0 is the first reconnect */
+export function reconnectDelayMs(attempt: number): number {
+  return Math.min(PRICE_STREAM_DEFAULTS.RECONNECT_BASE_MS * 2 ** attempt, PRICE_STREAM_DEFAULTS.RECONNECT_MAX_MS);
+}
+
+export function createPriceStreamState(productIds: string[]) {
+  const quotes = new Map<string, ProductQuote>();
+  const books = new Map<string, Book>();
+  const changed = new Set<string>();
+  let lastMessageAt: number | null = null;
+
+  for (const productId of productIds) {
+    quotes.set(productId, {
+      productId,
+      price: null,
+      bid: null,
+      ask: null,
+      volume24h: null,
+      high24h: null,
+      low24h: null,
+      open24h: null,
+      exchangeTime: null,
+      lastTradeId: null,
+      sequence: null,
+      lastHeartbeatAt: null,
+      updatedAt: null,
+    });
+  }
+
+  /** Sequence check shared by ticker and heartbeat; false = drop the message */
+  function acceptSequence(quote: ProductQuote, sequence: number | null): boolean {
+    if (sequence === null) return true;
+    if (quote.sequence !== null && sequence <= quote.sequence) return false;
+    quote.sequence = sequence;
+    return true;
+  }
+
+  function setTopOfBook(quote: ProductQuote, book: Book, nowMs: number): boolean {
+    if (book.bestBid === quote.bid && book.bestAsk === quote.ask) return false;
+    quote.bid = book.bestBid;
+    quote.ask = book.bestAsk;
+    quote.updatedAt = nowMs;
+    changed.add(quote.productId);
+    return true;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function handle(msg: any, nowMs: number): StreamEvent[] {
+    lastMessageAt = nowMs;
+    if (!msg || typeof msg !== 'object') return [];
+
+    if (msg.type === 'subscriptions') {
+      const ids = new Set<string>();
+      for (const channel of msg.channels ?? []) for (const id of channel.product_ids ?? []) ids.add(id);
+      return [{ type: 'subscribed', productIds: [...ids] }];
+    }
+    if (msg.type === 'error') {
+      return [{ type: 'error', message: [msg.message, msg.reason].filter(Boolean).join(': ') || 'unknown error' }];
+    }
+
+    const quote = quotes.get(msg.product_id);
+    if (!quote) return [];
+
+    switch (msg.type) {
+      case 'heartbeat': {
+        if (!acceptSequence(quote, num(msg.sequence))) return [];
+        quote.lastHeartbeatAt = nowMs;
+        const lastTradeId = num(msg.last_trade_id);
+        if (lastTradeId !== null && quote.lastTradeId !== null && lastTradeId > quote.lastTradeId) {
+          return [{ type: 'gap', productId: quote.productId, reason: 'missed_ticker', expected: quote.lastTradeId, received: lastTradeId }];
+        }
+        return [];
+      }
+
+      case 'ticker': {
+        if (!acceptSequence(quote, num(msg.sequence))) return [];
+        const price = num(msg.price);
+        if (price === null || price <= 0) return [];
+        quote.price = price;
+        // The book (when subscribed) is the fresher source for bid/ask
+        if (!books.has(quote.productId)) {
+          quote.bid = num(msg.best_bid);
+          quote.ask = num(msg.best_ask);
+        }
+        quote.volume24h = num(msg.volume_24h);
+        quote.high24h = num(msg.high_24h);
+        quote.low24h = num(msg.low_24h);
+        quote.open24h = num(msg.open_24h);
+        quote.exchangeTime = msg.time ?? null;
+        quote.lastTradeId = num(msg.trade_id) ?? quote.lastTradeId;
+        quote.updatedAt = nowMs;
+        changed.add(quote.productId);
+        return [{ type: 'quote', productId: quote.productId }];
+      }
+
+      case 'snapshot': {
+        const book: Book = { bids: new Map(), asks: new Map(), bestBid: null, bestAsk: null };
+        for (const [price, size] of msg.bids ?? []) {
+          const p = num(price);
+          if (p !== null && (num(size) ?? 0) > 0) book.bids.set(p, num(size)!);
+        }
+        for (const [price, size] of msg.asks ?? []) {
+          const p = num(price);
+          if (p !== null && (num(size) ?? 0) > 0) book.asks.set(p, num(size)!);
+        }
+        book.bestBid = bestOf(book.bids, 'buy');
+        book.bestAsk = bestOf(book.asks, 'sell');
+        books.set(quote.productId, book);
+        return setTopOfBook(quote, book, nowMs) ? [{ type: 'quote', productId: quote.productId }] : [];
+      }
+
+      case 'l2update': {
+        const book = books.get(quote.productId);
+        if (!book) {
+          return [{ type: 'gap', productId: quote.productId, reason: 'book_not_initialized', expected: null, received: null }];
+        }
+        for (const [side, rawPrice, rawSize] of msg.changes ?? []) {
+          const price = num(rawPrice);
+          const size = num(rawSize) ?? 0;
+          if (price === null) continue;
+          const levels = side === 'buy' ? book.bids : book.asks;
+          if (size > 0) {
+            levels.set(price, size);
+            if (side === 'buy' && (book.bestBid === null || price > book.bestBid)) book.bestBid = price;
+            if (side === 'sell' && (book.bestAsk === null || price < book.bestAsk)) book.bestAsk = price;
+          } else {
+            levels.delete(price);
+            // Only a removed best level needs a rescan
+            if (side === 'buy' && price === book.bestBid) book.bestBid = bestOf(book.bids, 'buy');
+            if (side === 'sell' && price === book.bestAsk) book.bestAsk = bestOf(book.asks, 'sell');
+          }
+        }
+        return setTopOfBook(quote, book, nowMs) ? [{ type: 'quote', productId: quote.productId }] : [];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /** REST ticker re-sync after a gap; the next heartbeat is compared against this trade id */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function applyRestTicker(productId: string, ticker: any, nowMs: number): boolean {
+    const quote = quotes.get(productId);
+    const price = num(ticker?.price);
+    if (!quote || price === null || price <= 0) return false;
+    quote.price = price;
+    if (!books.has(productId)) {
+      quote.bid = num(ticker.bid);
+      quote.ask = num(ticker.ask);
+    }
+    quote.volume24h = num(ticker.volume) ?? quote.volume24h;
+    quote.exchangeTime = ticker.time ?? quote.exchangeTime;
+    quote.lastTradeId = num(ticker.trade_id) ?? quote.lastTradeId;
+    quote.updatedAt = nowMs;
+    changed.add(productId);
+    return true;
+  }
+
+  /** Products with no heartbeat within HEARTBEAT_STALE_MS (or none yet) */
+  function staleProducts(nowMs: number): string[] {
+    return [...quotes.values()]
+      .filter((q) => q.lastHeartbeatAt === null || nowMs - q.lastHeartbeatAt > PRICE_STREAM_DEFAULTS.HEARTBEAT_STALE_MS)
+      .map((q) => q.productId);
+  }
+
+  function isSocketStale(nowMs: number, connectedAt: number): boolean {
+    return nowMs - (lastMessageAt ?? connectedAt) > PRICE_STREAM_DEFAULTS.SOCKET_STALE_MS;
+  }
+
+  /** Books and sequences are only valid for one connection */
+  function resetConnection() {
+    books.clear();
+    for (const quote of quotes.values()) {
+      quote.sequence = null;
+      quote.lastTradeId = null;
+    }
+    lastMessageAt = null;
+  }
+
+  /** Changed products since the last call, as broadcast to the browser */
+  function drainChanged(): StreamedPrice[] {
+    const out: StreamedPrice[] = [];
+    for (const productId of changed) {
+      const q = quotes.get(productId)!;
+      if (q.price === null) continue;
+      out.push({
+        symbol: productId,
+        price: q.price,
+        bid: q.bid,
+        ask: q.ask,
+        volume_24h: q.volume24h,
+        high_24h: q.high24h,
+        low_24h: q.low24h,
+        open_24h: q.open24h,
+        time: q.exchangeTime ?? new Date(q.updatedAt ?? Date.now()).toISOString(),
+      });
+    }
+    changed.clear();
+    return out;
+  }
+
+  /**
+   * price_snapshots rows for every live product, in both the base ("BTC")
+   * and pair ("BTC-EUR") formats price-snapshot-refresh writes.
+   */
+  function snapshotRows(nowMs: number): SnapshotRow[] {
+    const stale = new Set(staleProducts(nowMs));
+    const ts = new Date(nowMs).toISOString();
+    const rows: SnapshotRow[] = [];
+    for (const q of quotes.values()) {
+      if (stale.has(q.productId) || q.price === null) continue;
+      const row = { ts, price: q.price, bid: q.bid, ask: q.ask, source: PRICE_STREAM_DEFAULTS.SNAPSHOT_SOURCE };
+      rows.push({ symbol: q.productId.split('-')[0], ...row }, { symbol: q.productId, ...row });
+    }
+    return rows;
+  }
+
+  return {
+    handle,
+    applyRestTicker,
+    staleProducts,
+    isSocketStale,
+    resetConnection,
+    drainChanged,
+    snapshotRows,
+    quote: (productId: string) => quotes.get(productId) ?? null,
+  };
+}
+
+export type PriceStreamState = ReturnType<typeof createPriceStreamState>;
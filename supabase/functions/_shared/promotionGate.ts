@@ -0,0 +1,355 @@
+// =============================================================================
+// PAPER-TO-LIVE PROMOTION GATE — strategy_promotion_reports
+// =============================================================================
+// A MOCK strategy is copied to a REAL one only by strategy-promotion, which
+// evaluates this checklist server-side:
+//
+//   mock_sample_size   closed MOCK sells in the last PAPER_LOOKBACK_DAYS
+//   max_drawdown       peak-to-trough of MOCK equity (test starting capital +
+//                      cumulative realized P&L)
+//   win_rate           share of those sells with profit
+//   calibration        sample-weighted gap between confidence band and win
+//                      rate in calibration_metrics (expected calibration error)
+//   portfolio_capital  funded REAL portfolio_capital
+//   external_wallet,   the check_live_trading_prerequisites account setup
+//   rules_accepted
+//   circuit_breakers   no active / tripped execution_circuit_breakers
+//   experiment         not in a running A/B experiment and not its loser
+//
+// Every evaluation that leads to a decision is stored as a report signed with
+// HMAC-SHA256 over its canonical JSON, and promote_strategy_to_live only
+// accepts a fresh, passed, unused report. The same function runs the hourly
+// demotion pass: once a promoted strategy has MIN_LIVE_TRADES, live results
+// are compared with the paper stats recorded in its promotion report and the
+// strategy is paused to manage-only when it falls far behind.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type PromotionCheckId =
+  | 'mock_sample_size'
+  | 'max_drawdown'
+  | 'win_rate'
+  | 'calibration'
+  | 'portfolio_capital'
+  | 'external_wallet'
+  | 'rules_accepted'
+  | 'circuit_breakers'
+  | 'experiment';
+
+export type DemotionReason = 'win_rate_shortfall' | 'pnl_shortfall' | 'drawdown';
+
+export interface ClosedTrade {
+  executed_at: string;
+  profit_loss: number | string | null;
+  realized_pnl_pct?: number | string | null;
+}
+
+export interface TradeStats {
+  trades: number;
+  wins: number;
+  win_rate: number;
+  total_pnl: number;
+  /** Mean realized P&L per trade in percent of the position */
+  mean_pnl_pct: number;
+  /** null when there is no capital base to measure against */
+  max_drawdown_pct: number | null;
+}
+
+export interface CalibrationRow {
+  confidence_band: string;
+  sample_count: number;
+  win_rate_pct: number;
+}
+
+export interface CalibrationQuality {
+  samples: number;
+  /** Sample-weighted |win rate − band midpoint|, 0..1; null without samples */
+  calibration_error: number | null;
+}
+
+export interface PromotionInputs {
+  paper: TradeStats;
+  calibration: CalibrationQuality;
+  real_cash_eur: number;
+  wallet_exists: boolean;
+  rules_accepted: boolean;
+  active_breakers: string[];
+  experiment: { status: string; allowed: boolean };
+}
+
+export interface PromotionCheck {
+  id: PromotionCheckId;
+  passed: boolean;
+  value: number | string | null;
+  threshold: number | string | null;
+}
+
+export interface PromotionEvaluation {
+  passed: boolean;
+  checks: PromotionCheck[];
+}
+
+export interface DemotionDecision {
+  demote: boolean;
+  reasons: DemotionReason[];
+}
+
+export type PromotionReportKind = 'promotion' | 'demotion';
+
+/** The signed part of a strategy_promotion_reports row */
+export interface PromotionReport {
+  id: string;
+  user_id: string;
+  kind: PromotionReportKind;
+  strategy_id: string;
+  promotion_report_id: string | null;
+  passed: boolean;
+  checks: unknown;
+  metrics: unknown;
+  thresholds: unknown;
+  created_at: string;
+}
+
+export type PromotionClient = DbClient;
+
+export const PROMOTION_DEFAULTS = {
+  PAPER_LOOKBACK_DAYS: 90,
+  MIN_MOCK_TRADES: 50,
+  MAX_DRAWDOWN_PCT: 15,
+  MIN_WIN_RATE: 0.45,
+  MIN_CALIBRATION_SAMPLES: 30,
+  MAX_CALIBRATION_ERROR: 0.15,
+  // Demotion: live vs the paper stats recorded at promotion
+  MIN_LIVE_TRADES: 20,
+  MAX_WIN_RATE_SHORTFALL: 0.2,
+  MAX_MEAN_PNL_PCT_SHORTFALL: 1.5,
+  DRAWDOWN_MULTIPLIER: 2,
+  MIN_LIVE_DRAWDOWN_LIMIT_PCT: 5,
+} as const;
+
+export type PromotionThresholds = { [K in keyof typeof PROMOTION_DEFAULTS]: number };
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Win rate, mean P&L % and max drawdown of closed trades (any order) */
+export function tradeStats(trades: ClosedTrade[], startingCapitalEur: number): TradeStats {
+  const closed = trades
+    .map((t) => ({ at: Date.parse(t.executed_at), pnl: toNumber(t.profit_loss), pct: toNumber(t.realized_pnl_pct) }))
+    .filter((t): t is { at: number; pnl: number; pct: number | null } => t.pnl !== null)
+    .sort((a, b) => a.at - b.at);
+
+  const wins = closed.filter((t) => t.pnl > 0).length;
+  const totalPnl = closed.reduce((sum, t) => sum + t.pnl, 0);
+  const pcts = closed.map((t) => t.pct).filter((p): p is number => p !== null);
+
+  let maxDrawdownPct: number | null = null;
+  if (startingCapitalEur > 0) {
+    let equity = startingCapitalEur;
+    let peak = equity;
+    maxDrawdownPct = 0;
+    for (const t of closed) {
+      equity += t.pnl;
+      peak = Math.max(peak, equity);
+      maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - equity) / peak) * 100);
+    }
+    maxDrawdownPct = round(maxDrawdownPct, 2);
+  }
+
+  return {
+    trades: closed.length,
+    wins,
+    win_rate: closed.length > 0 ? round(wins / closed.length) : 0,
+    total_pnl: round(totalPnl, 2),
+    mean_pnl_pct: pcts.length > 0 ? round(pcts.reduce((a, b) => a + b, 0) / pcts.length) : 0,
+    max_drawdown_pct: maxDrawdownPct,
+  };
+}
+
+/** "[0.60-0.70)" → 0.65 */
+function bandMidpoint(band: string): number | null {
+  const match = band.match(/([\d.]+)\s*-\s*([\d.]+)/);
+  if (!match) return null;
+  return (Number(match[1]) + Number(match[2])) / 2;
+}
+
+/** Expected calibration error over confidence bands, pooled across symbols and horizons */
+export function calibrationQuality(rows: CalibrationRow[]): CalibrationQuality {
+  const bands = new Map<number, { n: number; wins: number }>();
+  for (const row of rows) {
+    const mid = bandMidpoint(row.confidence_band);
+    const n = Number(row.sample_count) || 0;
+    if (mid === null || n <= 0) continue;
+    const band = bands.get(mid) ?? { n: 0, wins: 0 };
+    band.n += n;
+    band.wins += (Number(row.win_rate_pct) / 100) * n;
+    bands.set(mid, band);
+  }
+
+  const samples = [...bands.values()].reduce((sum, b) => sum + b.n, 0);
+  if (samples === 0) return { samples: 0, calibration_error: null };
+
+  let error = 0;
+  for (const [mid, band] of bands) {
+    error += (band.n / samples) * Math.abs(band.wins / band.n - mid);
+  }
+  return { samples, calibration_error: round(error) };
+}
+
+export function evaluatePromotion(
+  inputs: PromotionInputs,
+  overrides: Partial<PromotionThresholds> = {},
+): PromotionEvaluation {
+  const t: PromotionThresholds = { ...PROMOTION_DEFAULTS, ...overrides };
+  const { paper, calibration } = inputs;
+
+  const checks: PromotionCheck[] = [
+    {
+      id: 'mock_sample_size',
+      passed: paper.trades >= t.MIN_MOCK_TRADES,
+      value: paper.trades,
+      threshold: t.MIN_MOCK_TRADES,
+    },
+    {
+      id: 'max_drawdown',
+      passed: paper.max_drawdown_pct !== null && paper.max_drawdown_pct <= t.MAX_DRAWDOWN_PCT,
+      value: paper.max_drawdown_pct,
+      threshold: t.MAX_DRAWDOWN_PCT,
+    },
+    {
+      id: 'win_rate',
+      passed: paper.trades > 0 && paper.win_rate >= t.MIN_WIN_RATE,
+      value: paper.win_rate,
+      threshold: t.MIN_WIN_RATE,
+    },
+    {
+      id: 'calibration',
+      passed:
+        calibration.samples >= t.MIN_CALIBRATION_SAMPLES &&
+        calibration.calibration_error !== null &&
+        calibration.calibration_error <= t.MAX_CALIBRATION_ERROR,
+      value: calibration.calibration_error,
+      threshold: t.MAX_CALIBRATION_ERROR,
+    },
+    {
+      id: 'portfolio_capital',
+      passed: inputs.real_cash_eur > 0,
+      value: inputs.real_cash_eur,
+      threshold: 0,
+    },
+    {
+      id: 'external_wallet',
+      passed: inputs.wallet_exists,
+      value: null,
+      threshold: null,
+    },
+    {
+      id: 'rules_accepted',
+      passed: inputs.rules_accepted,
+      value: null,
+      threshold: null,
+    },
+    {
+      id: 'circuit_breakers',
+      passed: inputs.active_breakers.length === 0,
+      value: inputs.active_breakers.length > 0 ? inputs.active_breakers.join(', ') : null,
+      threshold: null,
+    },
+    {
+      id: 'experiment',
+      passed: inputs.experiment.allowed,
+      value: inputs.experiment.status,
+      threshold: null,
+    },
+  ];
+
+  return { passed: checks.every((c) => c.passed), checks };
+}
+
+/** Live results far behind the paper stats recorded at promotion */
+export function demotionCheck(
+  paper: TradeStats,
+  live: TradeStats,
+  overrides: Partial<PromotionThresholds> = {},
+): DemotionDecision {
+  const t: PromotionThresholds = { ...PROMOTION_DEFAULTS, ...overrides };
+  if (live.trades < t.MIN_LIVE_TRADES) return { demote: false, reasons: [] };
+
+  const reasons: DemotionReason[] = [];
+  if (paper.win_rate - live.win_rate > t.MAX_WIN_RATE_SHORTFALL) {
+    reasons.push('win_rate_shortfall');
+  }
+  if (live.mean_pnl_pct < 0 && paper.mean_pnl_pct - live.mean_pnl_pct > t.MAX_MEAN_PNL_PCT_SHORTFALL) {
+    reasons.push('pnl_shortfall');
+  }
+  const drawdownLimit = Math.max(
+    (paper.max_drawdown_pct ?? t.MAX_DRAWDOWN_PCT) * t.DRAWDOWN_MULTIPLIER,
+    t.MIN_LIVE_DRAWDOWN_LIMIT_PCT,
+  );
+  if (live.max_drawdown_pct !== null && live.max_drawdown_pct > drawdownLimit) {
+    reasons.push('drawdown');
+  }
+
+  return { demote: reasons.length > 0, reasons };
+}
+
+/** JSON with object keys sorted recursively, so the signature does not depend on key order */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v === undefined ? null : v)).join(',')}]`;
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/** Hex HMAC-SHA256 of the report's canonical JSON */
+export async function signPromotionReport(report: PromotionReport, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(canonicalJson(report)));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyPromotionReport(
+  report: PromotionReport,
+  signature: string,
+  secret: string,
+): Promise<boolean> {
+  const expected = await signPromotionReport(report, secret);
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0;
+}
+
+/** Closed sells of a strategy in MOCK (isTestMode) or REAL since `since` */
+export async function fetchClosedTrades(
+  supabase: PromotionClient,
+  params: { userId: string; strategyId: string; isTestMode: boolean; since: string },
+): Promise<ClosedTrade[]> {
+  const { data, error } = await supabase
+    .from('mock_trades')
+    .select('executed_at, profit_loss, realized_pnl_pct')
+    .eq('user_id', params.userId)
+    .eq('strategy_id', params.strategyId)
+    .eq('trade_type', 'sell')
+    .eq('is_test_mode', params.isTestMode)
+    .eq('is_corrupted', false)
+    .gte('executed_at', params.since);
+  if (error) throw new Error(`mock_trades query failed for ${params.strategyId}: ${error.message}`);
+  return (data ?? []) as ClosedTrade[];
+}
@@ -0,0 +1,118 @@
+// =============================================================================
+// REAL_TRADES RECEIPT STATE
+// =============================================================================
+// real_trades.trade_id points at the mock_trades placeholder, which is NOT
+// unique: every child swap of a sliced order carries the parent's placeholder.
+// Receipt writes are therefore keyed on the row's own id, and only move a row
+// out of SUBMITTED once, so a receipt is never copied onto a sibling and two
+// overlapping polls never both count the same fill.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type RealTradeExecutionStatus = 'SUBMITTED' | 'CONFIRMED' | 'REVERTED';
+
+export interface TxReceipt {
+  status?: string | number;
+  blockNumber?: string | null;
+  gasUsed?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ReceiptApplyResult {
+  /** false when the row had already left SUBMITTED (another poll finalized it) */
+  applied: boolean;
+  execution_status: RealTradeExecutionStatus;
+  error: string | null;
+}
+
+export function isReceiptSuccess(receipt: TxReceipt): boolean {
+  return receipt.status === '0x1' || receipt.status === 1;
+}
+
+export function receiptStatePatch(receipt: TxReceipt) {
+  const success = isReceiptSuccess(receipt);
+  return {
+    execution_status: (success ? 'CONFIRMED' : 'REVERTED') as RealTradeExecutionStatus,
+    receipt_status: success,
+    raw_receipt: receipt,
+    block_number: receipt.blockNumber ? parseInt(receipt.blockNumber, 16) : null,
+    gas_used: receipt.gasUsed ? parseInt(receipt.gasUsed, 16) : null,
+  };
+}
+
+/** SUBMITTED → CONFIRMED/REVERTED for exactly one real_trades row */
+export async function applyReceiptToRealTrade(
+  client: DbClient,
+  realTradeId: string,
+  receipt: TxReceipt,
+): Promise<ReceiptApplyResult> {
+  const patch = receiptStatePatch(receipt);
+  const { data, error } = await client
+    .from('real_trades')
+    .update(patch)
+    .eq('id', realTradeId)
+    .eq('execution_status', 'SUBMITTED')
+    .select('id');
+
+  if (error) return { applied: false, execution_status: patch.execution_status, error: error.message };
+  return {
+    applied: Array.isArray(data) && data.length > 0,
+    execution_status: patch.execution_status,
+    error: null,
+  };
+}
+
+/** Fills block_timestamp on one row when it is still NULL */
+export async function backfillBlockTimestamp(
+  client: DbClient,
+  realTradeId: string,
+  blockTimestamp: string,
+): Promise<string | null> {
+  const { error } = await client
+    .from('real_trades')
+    .update({ block_timestamp: blockTimestamp })
+    .eq('id', realTradeId)
+    .is('block_timestamp', null);
+  return error?.message ?? null;
+}
+
+// =============================================================================
+// Broadcast intents: one on-chain send per mock_trades placeholder (per slice
+// for sliced orders). Senders pass the key to txManager as intent_key so a
+// broadcast whose response was lost can still be found before real_trades
+// is written.
+// =============================================================================
+
+export function broadcastIntentKey(mockTradeId: string, sliceIndex?: number | null): string {
+  return sliceIndex == null ? mockTradeId : `${mockTradeId}:${sliceIndex}`;
+}
+
+/** tx hash of an earlier broadcast for the intent, from real_trades or managed_transactions */
+export async function findIntentBroadcast(
+  client: DbClient,
+  mockTradeId: string,
+  sliceIndex?: number | null,
+): Promise<string | null> {
+  let realTrades = client
+    .from('real_trades')
+    .select('tx_hash')
+    .eq('trade_id', mockTradeId);
+  realTrades = sliceIndex == null ? realTrades.is('slice_index', null) : realTrades.eq('slice_index', sliceIndex);
+  const { data: realTrade } = await realTrades
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const realTxHash = (realTrade as { tx_hash: string | null } | null)?.tx_hash;
+  if (realTxHash) return realTxHash;
+
+  const { data: managed } = await client
+    .from('managed_transactions')
+    .select('tx_hash, mined_tx_hash')
+    .eq('intent_key', broadcastIntentKey(mockTradeId, sliceIndex))
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const row = managed as { tx_hash: string; mined_tx_hash: string | null } | null;
+  return row ? row.mined_tx_hash ?? row.tx_hash : null;
+}
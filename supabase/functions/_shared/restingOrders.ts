@@ -0,0 +1,135 @@
+// =============================================================================
+// RESTING ORDERS (limit / stop-loss / stop-limit)
+// =============================================================================
+// User-authored orders that wait in `resting_orders` until price_snapshots
+// crosses their trigger, then fire as a normal coordinator intent:
+//
+//   LIMIT       BUY fires at/below limit_price, SELL fires at/above limit_price
+//   STOP_LOSS   SELL fires at/below stop_price (BUY: at/above, i.e. stop-entry)
+//   STOP_LIMIT  arms like STOP_LOSS, then waits for the LIMIT condition
+//
+// Amount semantics match manual intents: BUY amount is EUR to spend,
+// SELL amount is token quantity. The coordinator sizes a fired order from the
+// TRIGGERED row itself (loadFiringRestingOrder), never from intent metadata.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type RestingOrderType = 'LIMIT' | 'STOP_LOSS' | 'STOP_LIMIT';
+export type RestingOrderSide = 'BUY' | 'SELL';
+export type RestingOrderStatus = 'OPEN' | 'TRIGGERED' | 'FILLED' | 'REJECTED' | 'CANCELLED' | 'EXPIRED';
+
+export interface RestingOrder {
+  id: string;
+  side: RestingOrderSide;
+  order_type: RestingOrderType;
+  limit_price: number | null;
+  stop_price: number | null;
+  stop_triggered_at: string | null;
+  expires_at: string | null;
+}
+
+/** resting_orders row as read by the evaluator and the coordinator */
+export interface RestingOrderRow extends RestingOrder {
+  user_id: string;
+  strategy_id: string;
+  symbol: string;
+  amount: number | string;
+  slippage_bps: number;
+  status: RestingOrderStatus;
+  fire_attempts: number;
+}
+
+export type RestingOrderEvaluation =
+  | { action: 'NONE' }
+  | { action: 'ARM_STOP' }
+  | { action: 'FIRE' }
+  | { action: 'EXPIRE' };
+
+export const RESTING_ORDER_DEFAULTS = {
+  // Snapshots older than this never trigger an order
+  MAX_SNAPSHOT_AGE_MS: 10 * 60_000,
+  // Coordinator DEFERs (cooldown, exposure, ...) before a fired order is rejected
+  MAX_FIRE_ATTEMPTS: 5,
+  // Coordinator intent metadata.context for fired orders
+  INTENT_CONTEXT: 'RESTING_ORDER',
+} as const;
+
+function limitReached(side: RestingOrderSide, price: number, limitPrice: number): boolean {
+  return side === 'BUY' ? price <= limitPrice : price >= limitPrice;
+}
+
+function stopReached(side: RestingOrderSide, price: number, stopPrice: number): boolean {
+  return side === 'SELL' ? price <= stopPrice : price >= stopPrice;
+}
+
+/**
+ * Decide what to do with one OPEN order at the current snapshot price.
+ * Pure: the evaluator applies the returned action with a status-guarded update.
+ */
+export function evaluateRestingOrder(order: RestingOrder, price: number, now: number = Date.now()): RestingOrderEvaluation {
+  if (order.expires_at && new Date(order.expires_at).getTime() <= now) {
+    return { action: 'EXPIRE' };
+  }
+  if (!Number.isFinite(price) || price <= 0) return { action: 'NONE' };
+
+  switch (order.order_type) {
+    case 'LIMIT':
+      return order.limit_price != null && limitReached(order.side, price, order.limit_price)
+        ? { action: 'FIRE' }
+        : { action: 'NONE' };
+    case 'STOP_LOSS':
+      return order.stop_price != null && stopReached(order.side, price, order.stop_price)
+        ? { action: 'FIRE' }
+        : { action: 'NONE' };
+    case 'STOP_LIMIT':
+      if (order.stop_price == null || order.limit_price == null) return { action: 'NONE' };
+      if (!order.stop_triggered_at) {
+        if (!stopReached(order.side, price, order.stop_price)) return { action: 'NONE' };
+        // Stop and limit can both be satisfied by the same tick
+        return limitReached(order.side, price, order.limit_price) ? { action: 'FIRE' } : { action: 'ARM_STOP' };
+      }
+      return limitReached(order.side, price, order.limit_price) ? { action: 'FIRE' } : { action: 'NONE' };
+    default:
+      return { action: 'NONE' };
+  }
+}
+
+/**
+ * The order a RESTING_ORDER intent fires, or null when metadata.resting_order_id
+ * is not a TRIGGERED order of this user, strategy, symbol and side. Only the
+ * evaluator moves orders to TRIGGERED, so a caller cannot mint one.
+ */
+export async function loadFiringRestingOrder(
+  client: DbClient,
+  intent: { userId: string; strategyId: string; symbol: string; side: string; metadata?: Record<string, unknown> | null },
+): Promise<RestingOrderRow | null> {
+  const orderId = intent.metadata?.resting_order_id;
+  if (typeof orderId !== 'string' || !orderId) return null;
+
+  const { data, error } = await client
+    .from('resting_orders')
+    .select('id, user_id, strategy_id, symbol, side, order_type, amount, limit_price, stop_price, slippage_bps, status, stop_triggered_at, expires_at, fire_attempts')
+    .eq('id', orderId)
+    .eq('user_id', intent.userId)
+    .eq('status', 'TRIGGERED')
+    .maybeSingle();
+  if (error) throw new Error(`resting_orders: ${error.message}`);
+
+  const order = data as RestingOrderRow | null;
+  if (!order || order.strategy_id !== intent.strategyId || order.symbol !== intent.symbol || order.side !== intent.side) {
+    return null;
+  }
+  return order;
+}
+
+/**
+ * EUR size of a fired resting BUY, or null when the intent is not a resting
+ * order (callers then fall back to the strategy perTradeAllocation). The
+ * coordinator overwrites eurAmount from loadFiringRestingOrder() first.
+ */
+export function restingOrderAllocationEur(metadata: Record<string, unknown> | null | undefined): number | null {
+  if (metadata?.context !== RESTING_ORDER_DEFAULTS.INTENT_CONTEXT) return null;
+  const eur = Number(metadata?.eurAmount);
+  return Number.isFinite(eur) && eur > 0 ? eur : null;
+}
@@ -0,0 +1,347 @@
+// =============================================================================
+// SIGNAL SOURCE CONTRACT + RUNNER
+// =============================================================================
+// Every collector that feeds live_signals is a SignalSource plug-in:
+//
+//   fetch      pull raw items (API call, webhook payload, DB scan)
+//   normalize  turn the batch into drafts keyed by signal_registry.key
+//   scale      optional map of the raw strength onto 0..100 (default: clamp)
+//   dedupKey   optional identity of a signal (default: the live_signals
+//              upsert key signal_type|symbol|timestamp)
+//
+// runSignalSource() owns everything else, identically for every source:
+//   1. symbol normalization ('base' → BTC, 'pair' → BTC-EUR)
+//   2. registry check (drafts whose signal_type is not in signal_registry are
+//      rejected, fail-open if the registry cannot be read)
+//   3. dedup inside the batch and against rows already stored for the source
+//      within dedupLookbackSeconds
+//   4. live_signals upsert (onConflict source,signal_type,symbol,timestamp)
+//   5. heartbeat into signal_source_health + ai_data_sources.last_sync
+//   6. [SIGNAL_INGESTION_EVENT] log line
+//
+// signal-ingestion-health grades every row of signal_source_health with
+// classifySourceHealth(), so a new plug-in shows up there after its first run.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+import { logger } from './logger.ts';
+
+export type SymbolFormat = 'base' | 'pair';
+
+/** One normalized signal before the runner stamps user/source columns */
+export interface SignalDraft {
+  symbol: string;
+  signal_type: string;
+  /** Raw strength; passed through source.scale (or clamped) to 0..100 */
+  signal_strength: number;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface SignalRow extends SignalDraft {
+  source_id: string | null;
+  user_id: string;
+  source: string;
+  processed: boolean;
+}
+
+export interface SignalSourceContext {
+  userId: string;
+  sourceId: string | null;
+  now: Date;
+}
+
+export interface SignalSource<T> {
+  /** live_signals.source and signal_source_health.source */
+  name: string;
+  expectedIntervalSeconds: number;
+  symbolFormat: SymbolFormat;
+  /** How far back stored rows are checked against dedupKey (default: batch start) */
+  dedupLookbackSeconds?: number;
+  fetch(ctx: SignalSourceContext): Promise<T[]>;
+  normalize(items: T[], ctx: SignalSourceContext): SignalDraft[];
+  scale?(draft: SignalDraft): number;
+  dedupKey?(signal: Pick<SignalDraft, 'symbol' | 'signal_type' | 'timestamp' | 'data'>): string;
+}
+
+export interface SignalRunResult {
+  source: string;
+  fetched: number;
+  drafted: number;
+  rejected: number;
+  duplicates: number;
+  inserted: number;
+  error: string | null;
+}
+
+export type SourceHealthStatus = 'healthy' | 'idle' | 'stale' | 'failing' | 'dead';
+
+export type SignalSourceClient = DbClient;
+
+export const SIGNAL_SOURCE_DEFAULTS = {
+  // live_signals.user_id is NOT NULL; system-wide sources write this sentinel
+  SYSTEM_USER_ID: '00000000-0000-0000-0000-000000000000',
+  // Last resort for per-user sources when neither request nor data source names a user
+  FALLBACK_USER_ID: '25a0c221-1f0e-431d-8d79-db9fb4db9cb3',
+  UPSERT_CONFLICT: 'source,signal_type,symbol,timestamp',
+  // A source is stale once nothing arrived for this many expected intervals
+  STALE_INTERVALS: 2,
+} as const;
+
+// Bare tokens that map onto a tradeable EUR pair in 'pair' format
+const EUR_PAIR_SYMBOLS = new Set(['BTC', 'ETH', 'XRP', 'SOL', 'ADA', 'AVAX', 'DOT', 'LINK', 'LTC', 'BCH']);
+
+export function normalizeSignalSymbol(raw: string, format: SymbolFormat): string {
+  const upper = String(raw || '').trim().toUpperCase();
+  const base = upper.split('-')[0];
+  if (format === 'base') return base;
+  if (upper.includes('-')) return upper;
+  return EUR_PAIR_SYMBOLS.has(base) ? `${base}-EUR` : base;
+}
+
+export function clampStrength(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(100, Math.max(0, value));
+}
+
+export function defaultDedupKey(signal: Pick<SignalDraft, 'symbol' | 'signal_type' | 'timestamp'>): string {
+  return `${signal.signal_type}|${signal.symbol}|${new Date(signal.timestamp).toISOString()}`;
+}
+
+/**
+ * Pure half of the runner: normalize symbols and strengths, drop drafts with
+ * unregistered keys or bad timestamps, and dedup against the batch itself and
+ * the keys already stored. `registryKeys = null` skips the registry check.
+ */
+export function prepareSignalRows<T>(
+  source: SignalSource<T>,
+  drafts: SignalDraft[],
+  ctx: SignalSourceContext,
+  registryKeys: Set<string> | null,
+  existingKeys: Set<string> = new Set(),
+): { rows: SignalRow[]; rejected: SignalDraft[]; duplicates: number } {
+  const keyOf = source.dedupKey ?? defaultDedupKey;
+  const seen = new Set(existingKeys);
+  const rows: SignalRow[] = [];
+  const rejected: SignalDraft[] = [];
+  let duplicates = 0;
+
+  for (const draft of drafts) {
+    const ts = new Date(draft.timestamp);
+    if (!draft.signal_type || Number.isNaN(ts.getTime()) || (registryKeys && !registryKeys.has(draft.signal_type))) {
+      rejected.push(draft);
+      continue;
+    }
+
+    const normalized: SignalDraft = {
+      ...draft,
+      symbol: normalizeSignalSymbol(draft.symbol, source.symbolFormat),
+      timestamp: ts.toISOString(),
+    };
+    const key = keyOf(normalized);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+
+    rows.push({
+      source_id: ctx.sourceId,
+      user_id: ctx.userId,
+      timestamp: normalized.timestamp,
+      symbol: normalized.symbol,
+      signal_type: normalized.signal_type,
+      signal_strength: clampStrength(source.scale ? source.scale(normalized) : normalized.signal_strength),
+      source: source.name,
+      data: normalized.data ?? {},
+      processed: false,
+    });
+  }
+
+  return { rows, rejected, duplicates };
+}
+
+/**
+ * Grades one signal_source_health row. Sources that report a runner
+ * heartbeat can be 'idle' (running, nothing to say) or 'failing' (last run
+ * errored); sources without one fall back to signal age alone.
+ */
+export function classifySourceHealth(
+  input: {
+    expectedIntervalSeconds: number;
+    lastSignalAt: string | null;
+    lastRunAt?: string | null;
+    lastRunStatus?: string | null;
+  },
+  now: number = Date.now(),
+): SourceHealthStatus {
+  const thresholdMs = input.expectedIntervalSeconds * SIGNAL_SOURCE_DEFAULTS.STALE_INTERVALS * 1000;
+  const fresh = (iso: string | null | undefined) => !!iso && now - new Date(iso).getTime() <= thresholdMs;
+
+  if (input.lastRunStatus === 'error') return 'failing';
+  if (fresh(input.lastSignalAt)) return 'healthy';
+  if (fresh(input.lastRunAt)) return 'idle';
+  if (!input.lastSignalAt && !input.lastRunAt) return 'dead';
+  return 'stale';
+}
+
+/**
+ * User for live_signals.user_id: first explicit candidate (request body,
+ * ai_data_sources.user_id), else an active strategy owner, else the fallback.
+ */
+export async function resolveSignalUserId(
+  supabase: SignalSourceClient,
+  candidates: Array<string | null | undefined>,
+): Promise<string> {
+  const explicit = candidates.find((c) => !!c);
+  if (explicit) return explicit;
+
+  const { data } = await supabase
+    .from('trading_strategies')
+    .select('user_id')
+    .or('is_active_test.eq.true,is_active.eq.true')
+    .limit(1);
+  const activeUsers = data as { user_id: string }[] | null;
+
+  if (activeUsers && activeUsers.length > 0) {
+    logger.log(`[SignalSource] Using active trading user: ${activeUsers[0].user_id}`);
+    return activeUsers[0].user_id;
+  }
+
+  logger.log(`[SignalSource] Using fallback system user: ${SIGNAL_SOURCE_DEFAULTS.FALLBACK_USER_ID}`);
+  return SIGNAL_SOURCE_DEFAULTS.FALLBACK_USER_ID;
+}
+
+async function loadRegistryKeys(supabase: SignalSourceClient): Promise<Set<string> | null> {
+  const { data, error } = await supabase.from('signal_registry').select('key');
+  if (error || !data) {
+    logger.warn(`[SignalSource] signal_registry unavailable, skipping key check: ${error?.message ?? 'no rows'}`);
+    return null;
+  }
+  return new Set((data as { key: string }[]).map((r) => r.key));
+}
+
+async function loadExistingKeys<T>(
+  supabase: SignalSourceClient,
+  source: SignalSource<T>,
+  drafts: SignalDraft[],
+): Promise<Set<string>> {
+  const times = drafts.map((d) => new Date(d.timestamp).getTime()).filter((t) => Number.isFinite(t));
+  if (times.length === 0) return new Set();
+
+  const since = new Date(Math.min(...times) - (source.dedupLookbackSeconds ?? 0) * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('live_signals')
+    .select('symbol, signal_type, timestamp, data')
+    .eq('source', source.name)
+    .gte('timestamp', since);
+
+  if (error) {
+    logger.warn(`[SignalSource] ${source.name}: existing-signal lookup failed, relying on upsert key: ${error.message}`);
+    return new Set();
+  }
+  const keyOf = source.dedupKey ?? defaultDedupKey;
+  return new Set(((data ?? []) as SignalDraft[]).map((r) => keyOf(r)));
+}
+
+async function recordHeartbeat<T>(
+  supabase: SignalSourceClient,
+  source: SignalSource<T>,
+  ctx: SignalSourceContext,
+  result: SignalRunResult,
+  lastSignalAt: string | null,
+): Promise<void> {
+  const heartbeat: Record<string, unknown> = {
+    source: source.name,
+    expected_interval_seconds: source.expectedIntervalSeconds,
+    last_run_at: ctx.now.toISOString(),
+    last_run_status: result.error ? 'error' : 'ok',
+    last_run_fetched: result.fetched,
+    last_run_inserted: result.inserted,
+    last_error: result.error,
+  };
+  if (lastSignalAt) heartbeat.last_signal_at = lastSignalAt;
+
+  const { error } = await supabase.from('signal_source_health').upsert(heartbeat, { onConflict: 'source' });
+  if (error) logger.warn(`[SignalSource] ${source.name}: heartbeat write failed: ${error.message}`);
+
+  if (ctx.sourceId && !result.error) {
+    await supabase
+      .from('ai_data_sources')
+      .update({ last_sync: ctx.now.toISOString() })
+      .eq('id', ctx.sourceId);
+  }
+}
+
+/**
+ * Runs one SignalSource end to end. Fetch/normalize failures are recorded in
+ * the heartbeat and rethrown; live_signals write failures are recorded and
+ * returned in `error` (collectors keep serving their other outputs).
+ */
+export async function runSignalSource<T>(
+  supabase: SignalSourceClient,
+  source: SignalSource<T>,
+  ctx: SignalSourceContext,
+): Promise<SignalRunResult> {
+  const result: SignalRunResult = {
+    source: source.name,
+    fetched: 0,
+    drafted: 0,
+    rejected: 0,
+    duplicates: 0,
+    inserted: 0,
+    error: null,
+  };
+
+  let drafts: SignalDraft[];
+  try {
+    const items = await source.fetch(ctx);
+    result.fetched = items.length;
+    drafts = source.normalize(items, ctx);
+    result.drafted = drafts.length;
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    await recordHeartbeat(supabase, source, ctx, result, null);
+    throw err;
+  }
+
+  if (drafts.length === 0) {
+    logger.info(`[SIGNAL_INGESTION_EVENT] source=${source.name} fetched=${result.fetched} count=0`);
+    await recordHeartbeat(supabase, source, ctx, result, null);
+    return result;
+  }
+
+  const [registryKeys, existingKeys] = await Promise.all([
+    loadRegistryKeys(supabase),
+    loadExistingKeys(supabase, source, drafts),
+  ]);
+  const { rows, rejected, duplicates } = prepareSignalRows(source, drafts, ctx, registryKeys, existingKeys);
+  result.rejected = rejected.length;
+  result.duplicates = duplicates;
+
+  for (const r of rejected) {
+    logger.warn(`[SignalSource] ${source.name}: rejected ${r.signal_type} for ${r.symbol} (unregistered key or bad timestamp)`);
+  }
+
+  let lastSignalAt: string | null = null;
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('live_signals')
+      .upsert(rows, { onConflict: SIGNAL_SOURCE_DEFAULTS.UPSERT_CONFLICT, ignoreDuplicates: true });
+
+    if (error) {
+      logger.error(`❌ [SignalSource] ${source.name}: live_signals write failed:`, error);
+      result.error = error.message;
+    } else {
+      result.inserted = rows.length;
+      lastSignalAt = rows.reduce((max, r) => (r.timestamp > max ? r.timestamp : max), rows[0].timestamp);
+    }
+  }
+
+  logger.info(
+    `[SIGNAL_INGESTION_EVENT] source=${source.name} fetched=${result.fetched} count=${result.inserted} ` +
+      `rejected=${result.rejected} duplicates=${result.duplicates} symbols=${[...new Set(rows.map((r) => r.symbol))].join(',')}`,
+  );
+  await recordHeartbeat(supabase, source, ctx, result, lastSignalAt);
+  return result;
+}
@@ -6,8 +6,9 @@
 import { parseEther, parseUnits } from 'npm:viem@2.21.54';
 import { privateKeyToAccount } from 'npm:viem@2.21.54/accounts';
 import { base } from 'npm:viem@2.21.54/chains';
+import { getConfiguredRpcUrl, isExecutionChainEnabled } from './chains.ts';
+import type { PreparedTx } from './txManager.ts';
 
-const ALLOWED_CHAIN_IDS = [8453]; // Base only
 const MAX_TX_VALUE_WEI = BigInt(Deno.env.get('MAX_TX_VALUE_WEI') || '100000000000000000000'); // 100 ETH default
 
 export interface TxPayload {
@@ -16,6 +17,10 @@ export interface TxPayload {
   value: string;
   gas: string;
   from: string;
+  // Set by the tx manager (_shared/txManager.ts); signers must use them as-is
+  nonce?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
 }
 
 export interface Signer {
@@ -51,8 +56,8 @@ class WebhookSigner implements Signer {
   }
 
   async sign(txPayload: TxPayload, chainId: number): Promise<string> {
-    // Validate chain
-    if (!ALLOWED_CHAIN_IDS.includes(chainId)) {
+    // Validate chain (registry + ONCHAIN_ENABLED_CHAIN_IDS)
+    if (!isExecutionChainEnabled(chainId)) {
       throw new Error(`Chain ${chainId} not allowed`);
     }
 
@@ -96,7 +101,6 @@ class WebhookSigner implements Signer {
 class LocalSigner implements Signer {
   type: 'local' = 'local';
   private account: ReturnType<typeof privateKeyToAccount>;
-  private rpcUrl: string;
 
   constructor() {
     const enableLocal = Deno.env.get('SERVER_SIGNER_LOCAL');
@@ -119,12 +123,6 @@ class LocalSigner implements Signer {
     if (this.account.address.toLowerCase() !== botAddress.toLowerCase()) {
       throw new Error('Derived address from BOT_PRIVATE_KEY does not match BOT_ADDRESS');
     }
-
-    const rpcUrl = Deno.env.get('RPC_URL_8453');
-    if (!rpcUrl) {
-      throw new Error('RPC_URL_8453 must be set for local signer');
-    }
-    this.rpcUrl = rpcUrl;
   }
 
   getAddress(): string {
@@ -148,11 +146,17 @@ class LocalSigner implements Signer {
       txPayload_keys: Object.keys(txPayload),
     });
     
-    // Validate chain
-    if (!ALLOWED_CHAIN_IDS.includes(chainId)) {
+    // Validate chain (registry + ONCHAIN_ENABLED_CHAIN_IDS)
+    if (!isExecutionChainEnabled(chainId)) {
       throw new Error(`Chain ${chainId} not allowed`);
     }
 
+    // RPC is resolved per chain (RPC_URL_<chainId>)
+    const rpcUrl = getConfiguredRpcUrl(chainId);
+    if (!rpcUrl) {
+      throw new Error(`RPC_URL_${chainId} must be set for local signer`);
+    }
+
     // Validate from address matches signer
     if (txPayload.from.toLowerCase() !== this.account.address.toLowerCase()) {
       throw new Error(`txPayload.from (${txPayload.from}) does not match signer address (${this.account.address})`);
@@ -179,7 +183,7 @@ class LocalSigner implements Signer {
     // If gas is 0, estimate it with 10% buffer
     if (gas === 0n) {
       console.log("🔍 [DIAG] Gas is 0, estimating...");
-      const estimateResponse = await fetch(this.rpcUrl, {
+      const estimateResponse = await fetch(rpcUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -202,25 +206,15 @@ class LocalSigner implements Signer {
       console.log("🔍 [DIAG] Estimated gas:", gas.toString());
     }
 
-    // Get nonce
-    const nonceResponse = await fetch(this.rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'eth_getTransactionCount',
-        // 'pending' includes mempool txs → next usable nonce.
-        // Required for sequential per-lot SELL fan-out from backend-shadow-engine
-        // (lot N+1 must not collide with lot N still in mempool).
-        params: [this.account.address, 'pending'],
-      }),
-    });
-    const nonceResult = await nonceResponse.json();
-    const nonce = parseInt(nonceResult.result, 16);
-
-    // Get gas price parameters
-    const { maxPriorityFeePerGas, maxFeePerGas } = await this.estimateFees();
+    // Nonce and fees come from the tx manager when it drives the send
+    const managed = txPayload.nonce != null && !!txPayload.maxFeePerGas && !!txPayload.maxPriorityFeePerGas;
+    const nonce = managed ? txPayload.nonce! : await this.pendingNonce(rpcUrl);
+    const { maxPriorityFeePerGas, maxFeePerGas } = managed
+      ? {
+          maxPriorityFeePerGas: BigInt(txPayload.maxPriorityFeePerGas!),
+          maxFeePerGas: BigInt(txPayload.maxFeePerGas!),
+        }
+      : await this.estimateFees(rpcUrl);
 
     // Build transaction
     const transaction = {
@@ -267,10 +261,28 @@ class LocalSigner implements Signer {
     return signedTx;
   }
 
-  private async estimateFees(): Promise<{ maxPriorityFeePerGas: bigint; maxFeePerGas: bigint }> {
+  private async pendingNonce(rpcUrl: string): Promise<number> {
+    const nonceResponse = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_getTransactionCount',
+        // 'pending' includes mempool txs → next usable nonce.
+        // Required for sequential per-lot SELL fan-out from backend-shadow-engine
+        // (lot N+1 must not collide with lot N still in mempool).
+        params: [this.account.address, 'pending'],
+      }),
+    });
+    const nonceResult = await nonceResponse.json();
+    return parseInt(nonceResult.result, 16);
+  }
+
+  private async estimateFees(rpcUrl: string): Promise<{ maxPriorityFeePerGas: bigint; maxFeePerGas: bigint }> {
     try {
       // Try eth_feeHistory first
-      const historyResponse = await fetch(this.rpcUrl, {
+      const historyResponse = await fetch(rpcUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -297,7 +309,7 @@ class LocalSigner implements Signer {
     }
 
     // Fallback to eth_gasPrice
-    const gasPriceResponse = await fetch(this.rpcUrl, {
+    const gasPriceResponse = await fetch(rpcUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -318,6 +330,37 @@ class LocalSigner implements Signer {
   }
 }
 
+/**
+ * Sign a tx-manager transaction with a raw private key (execution wallets,
+ * decrypted per request). Same chain/value guards as the SYSTEM signers.
+ */
+export async function signWithPrivateKey(privateKeyHex: string, tx: PreparedTx): Promise<string> {
+  if (!isExecutionChainEnabled(tx.chainId)) {
+    throw new Error(`Chain ${tx.chainId} not allowed`);
+  }
+  if (tx.value > MAX_TX_VALUE_WEI) {
+    throw new Error(`Value ${tx.value} exceeds maximum ${MAX_TX_VALUE_WEI}`);
+  }
+
+  const pkHex = privateKeyHex.startsWith('0x') ? privateKeyHex : `0x${privateKeyHex}`;
+  const account = privateKeyToAccount(pkHex as `0x${string}`);
+  if (account.address.toLowerCase() !== tx.from.toLowerCase()) {
+    throw new Error(`tx.from (${tx.from}) does not match private key address (${account.address})`);
+  }
+
+  return account.signTransaction({
+    type: 'eip1559',
+    chainId: tx.chainId,
+    nonce: tx.nonce,
+    to: tx.to as `0x${string}`,
+    data: tx.data as `0x${string}`,
+    value: tx.value,
+    gas: tx.gas,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+  });
+}
+
 /**
  * Get configured signer based on environment
  */
@@ -0,0 +1,339 @@
+// =============================================================================
+// STRATEGY EXPERIMENTS (A/B) — strategy_experiments
+// =============================================================================
+// An experiment runs a control and a variant MOCK strategy side by side on the
+// same signal stream (backend-shadow-engine evaluates both every cycle). Entries
+// are split so each signal is traded by exactly one arm:
+//
+//   symbol  each symbol belongs to one arm: split_config.control_symbols /
+//           variant_symbols when listed, otherwise a stable hash of
+//           (experiment id, symbol)
+//   time    alternating slots of split_config.slot_minutes; the arm owning
+//           the current slot may open positions
+//
+// The coordinator blocks BUYs from the arm that does not own the symbol / slot
+// (blocked_by_experiment_split); exits are never split so open positions are
+// always managed. strategy-experiment-evaluator compares closed MOCK sells per
+// arm since started_at:
+//
+//   win rate  two-proportion difference, Agresti-Caffo interval
+//   P&L       mean EUR P&L per trade, percentile bootstrap interval
+//
+// and completes the experiment once both arms have MIN_TRADES_PER_ARM and the
+// primary metric's interval excludes zero, or after max_duration_days
+// (inconclusive). The evaluator re-checks every hour, so the default alpha is
+// stricter than the usual 0.05 to keep repeated looks from inflating false wins.
+//
+// experimentPromotionGate() is the experiment check of strategy-promotion. It
+// used to run in the browser (PushToLiveModal), which only hid the button;
+// the decision rules are unchanged, the UI now shows the server's verdict.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type ExperimentArm = 'control' | 'variant';
+
+export type ExperimentSplitMode = 'symbol' | 'time';
+
+export type ExperimentMetric = 'pnl' | 'win_rate';
+
+export type ExperimentStatus = 'running' | 'completed' | 'stopped';
+
+export type ExperimentWinner = ExperimentArm | 'inconclusive';
+
+export interface ExperimentSplitConfig {
+  control_symbols?: string[];
+  variant_symbols?: string[];
+  slot_minutes?: number;
+}
+
+export interface StrategyExperimentRow {
+  id: string;
+  user_id: string;
+  control_strategy_id: string;
+  variant_strategy_id: string;
+  split_mode: ExperimentSplitMode;
+  split_config: ExperimentSplitConfig | null;
+  primary_metric: ExperimentMetric;
+  alpha: number | string;
+  min_trades_per_arm: number;
+  max_duration_days: number;
+  status: ExperimentStatus;
+  started_at: string;
+  winner?: ExperimentWinner | null;
+}
+
+export interface ConfidenceInterval {
+  diff: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ArmSummary {
+  trades: number;
+  wins: number;
+  win_rate: number;
+  total_pnl: number;
+  mean_pnl: number;
+}
+
+export interface ExperimentEvaluation {
+  control: ArmSummary;
+  variant: ArmSummary;
+  /** variant − control */
+  win_rate_diff: ConfidenceInterval;
+  /** variant − control, EUR per trade */
+  pnl_diff: ConfidenceInterval;
+  primary_metric: ExperimentMetric;
+  alpha: number;
+  enough_data: boolean;
+  significant: boolean;
+  leader: ExperimentArm | null;
+}
+
+export type ExperimentGateStatus = 'no_experiment' | 'running' | 'won' | 'lost' | 'inconclusive';
+
+export interface ExperimentPromotionGate {
+  status: ExperimentGateStatus;
+  allowed: boolean;
+  experiment_id: string | null;
+}
+
+export interface ExperimentOutcome {
+  stop: boolean;
+  reason: 'significant' | 'max_duration' | null;
+  winner: ExperimentWinner | null;
+}
+
+export type ExperimentClient = DbClient;
+
+export const EXPERIMENT_DEFAULTS = {
+  ALPHA: 0.01,
+  MIN_TRADES_PER_ARM: 30,
+  MAX_DURATION_DAYS: 30,
+  TIME_SLOT_MINUTES: 60,
+  BOOTSTRAP_SAMPLES: 2000,
+  /** Fixed seed so an evaluation is reproducible from the same trades */
+  BOOTSTRAP_SEED: 0x5eed,
+} as const;
+
+const baseSymbol = (symbol: string) => symbol.replace('-EUR', '').replace('-USD', '').toUpperCase();
+
+/** FNV-1a, 32 bit */
+function hash32(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32 PRNG, uniform in [0, 1) */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Inverse standard normal CDF (Acklam), |error| < 1.2e-9 */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error(`normalQuantile: p must be in (0, 1), got ${p}`);
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/** Arm a strategy plays in this experiment, null when it is not part of it */
+export function experimentArm(experiment: StrategyExperimentRow, strategyId: string): ExperimentArm | null {
+  if (experiment.control_strategy_id === strategyId) return 'control';
+  if (experiment.variant_strategy_id === strategyId) return 'variant';
+  return null;
+}
+
+/** Arm that may open a position on `symbol` at `nowMs` */
+export function entryOwner(experiment: StrategyExperimentRow, symbol: string, nowMs: number): ExperimentArm {
+  const config = experiment.split_config ?? {};
+
+  if (experiment.split_mode === 'time') {
+    const slotMs = Math.max(1, Number(config.slot_minutes) || EXPERIMENT_DEFAULTS.TIME_SLOT_MINUTES) * 60_000;
+    const slot = Math.floor(nowMs / slotMs);
+    return (slot + hash32(experiment.id)) % 2 === 0 ? 'control' : 'variant';
+  }
+
+  const base = baseSymbol(symbol);
+  if ((config.control_symbols ?? []).map(baseSymbol).includes(base)) return 'control';
+  if ((config.variant_symbols ?? []).map(baseSymbol).includes(base)) return 'variant';
+  return hash32(`${experiment.id}:${base}`) % 2 === 0 ? 'control' : 'variant';
+}
+
+/** Whether `strategyId` may open a position on `symbol` now; strategies outside the experiment always may */
+export function isExperimentEntryAllowed(
+  experiment: StrategyExperimentRow,
+  strategyId: string,
+  symbol: string,
+  nowMs: number,
+): { allowed: boolean; arm: ExperimentArm | null; owner: ExperimentArm } {
+  const arm = experimentArm(experiment, strategyId);
+  const owner = entryOwner(experiment, symbol, nowMs);
+  return { allowed: arm === null || arm === owner, arm, owner };
+}
+
+function summarize(pnls: number[]): ArmSummary {
+  const trades = pnls.length;
+  const wins = pnls.filter((p) => p > 0).length;
+  const total = pnls.reduce((sum, p) => sum + p, 0);
+  return {
+    trades,
+    wins,
+    win_rate: trades > 0 ? wins / trades : 0,
+    total_pnl: Number(total.toFixed(2)),
+    mean_pnl: trades > 0 ? total / trades : 0,
+  };
+}
+
+/**
+ * Variant − control win rate with an Agresti-Caffo interval (one success and
+ * one failure added per arm), which stays sensible at 0% / 100% win rates.
+ */
+export function winRateDifference(
+  control: { wins: number; trades: number },
+  variant: { wins: number; trades: number },
+  alpha: number,
+): ConfidenceInterval {
+  const z = normalQuantile(1 - alpha / 2);
+  const pc = (control.wins + 1) / (control.trades + 2);
+  const pv = (variant.wins + 1) / (variant.trades + 2);
+  const se = Math.sqrt((pc * (1 - pc)) / (control.trades + 2) + (pv * (1 - pv)) / (variant.trades + 2));
+  const diff = pv - pc;
+  return { diff, lower: diff - z * se, upper: diff + z * se };
+}
+
+/** Variant − control mean with a percentile bootstrap interval (seeded) */
+export function bootstrapMeanDifference(
+  control: number[],
+  variant: number[],
+  alpha: number,
+  samples: number = EXPERIMENT_DEFAULTS.BOOTSTRAP_SAMPLES,
+  seed: number = EXPERIMENT_DEFAULTS.BOOTSTRAP_SEED,
+): ConfidenceInterval {
+  const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  if (control.length === 0 || variant.length === 0) return { diff: 0, lower: -Infinity, upper: Infinity };
+
+  const random = seededRandom(seed);
+  const resampleMean = (xs: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < xs.length; i++) sum += xs[Math.floor(random() * xs.length)];
+    return sum / xs.length;
+  };
+
+  const diffs = new Array<number>(samples);
+  for (let i = 0; i < samples; i++) diffs[i] = resampleMean(variant) - resampleMean(control);
+  diffs.sort((x, y) => x - y);
+
+  const at = (q: number) => diffs[Math.min(samples - 1, Math.max(0, Math.floor(q * samples)))];
+  return { diff: mean(variant) - mean(control), lower: at(alpha / 2), upper: at(1 - alpha / 2) };
+}
+
+/** Compare closed-trade P&L (EUR per trade) of both arms */
+export function evaluateExperiment(
+  controlPnls: number[],
+  variantPnls: number[],
+  options: { alpha?: number; minTradesPerArm?: number; primaryMetric?: ExperimentMetric; bootstrapSamples?: number } = {},
+): ExperimentEvaluation {
+  const alpha = options.alpha ?? EXPERIMENT_DEFAULTS.ALPHA;
+  const minTrades = options.minTradesPerArm ?? EXPERIMENT_DEFAULTS.MIN_TRADES_PER_ARM;
+  const primaryMetric = options.primaryMetric ?? 'pnl';
+
+  const control = summarize(controlPnls);
+  const variant = summarize(variantPnls);
+  const winRateDiff = winRateDifference(control, variant, alpha);
+  const pnlDiff = bootstrapMeanDifference(controlPnls, variantPnls, alpha, options.bootstrapSamples);
+
+  const primary = primaryMetric === 'win_rate' ? winRateDiff : pnlDiff;
+  const enoughData = control.trades >= minTrades && variant.trades >= minTrades;
+  const significant = enoughData && (primary.lower > 0 || primary.upper < 0);
+
+  return {
+    control,
+    variant,
+    win_rate_diff: winRateDiff,
+    pnl_diff: pnlDiff,
+    primary_metric: primaryMetric,
+    alpha,
+    enough_data: enoughData,
+    significant,
+    leader: primary.diff > 0 ? 'variant' : primary.diff < 0 ? 'control' : null,
+  };
+}
+
+/** Stop on significance, or as inconclusive once max_duration_days has passed */
+export function experimentOutcome(
+  evaluation: ExperimentEvaluation,
+  experiment: Pick<StrategyExperimentRow, 'started_at' | 'max_duration_days'>,
+  nowMs: number,
+): ExperimentOutcome {
+  if (evaluation.significant && evaluation.leader) {
+    return { stop: true, reason: 'significant', winner: evaluation.leader };
+  }
+  const maxDays = experiment.max_duration_days || EXPERIMENT_DEFAULTS.MAX_DURATION_DAYS;
+  if (nowMs - Date.parse(experiment.started_at) >= maxDays * 86_400_000) {
+    return { stop: true, reason: 'max_duration', winner: 'inconclusive' };
+  }
+  return { stop: false, reason: null, winner: null };
+}
+
+/** Running experiment the strategy takes part in, if any */
+export async function fetchRunningExperiment(
+  supabase: ExperimentClient,
+  userId: string,
+  strategyId: string,
+): Promise<StrategyExperimentRow | null> {
+  const { data, error } = await supabase
+    .from('strategy_experiments')
+    .select('id, user_id, control_strategy_id, variant_strategy_id, split_mode, split_config, primary_metric, alpha, min_trades_per_arm, max_duration_days, status, started_at')
+    .eq('user_id', userId)
+    .eq('status', 'running');
+  if (error || !data) return null;
+  return (data as StrategyExperimentRow[]).find((e) => experimentArm(e, strategyId) !== null) ?? null;
+}
+
+/**
+ * Promotion gate from the strategy's most recent experiment: blocked while it
+ * runs or after the strategy lost it. A strategy that never ran an experiment
+ * or whose latest one was inconclusive / stopped manually is not blocked.
+ */
+export function experimentPromotionGate(
+  experiments: StrategyExperimentRow[],
+  strategyId: string,
+): ExperimentPromotionGate {
+  const latest = experiments
+    .filter((e) => experimentArm(e, strategyId) !== null)
+    .sort((a, b) => Date.parse(b.started_at) - Date.parse(a.started_at))[0];
+
+  if (!latest) return { status: 'no_experiment', allowed: true, experiment_id: null };
+  if (latest.status === 'running') return { status: 'running', allowed: false, experiment_id: latest.id };
+  if (latest.winner === 'control' || latest.winner === 'variant') {
+    const won = latest.winner === experimentArm(latest, strategyId);
+    return { status: won ? 'won' : 'lost', allowed: won, experiment_id: latest.id };
+  }
+  return { status: 'inconclusive', allowed: true, experiment_id: latest.id };
+}
@@ -0,0 +1,163 @@
+// =============================================================================
+// NATURAL-LANGUAGE STRATEGY PARSING (parse-strategy)
+// =============================================================================
+// Turns "buy BTC when sentiment turns bullish, 5% stop loss" into a strategy
+// configuration through the shared LLM client (_shared/llm.ts). The answer is
+// validated against STRATEGY_PARSE_SCHEMA and re-asked on mismatch, so the
+// edge function only ever sees a well-formed object; with the fixture
+// provider the whole path runs offline in tests.
+// =============================================================================
+
+import type { JsonSchema, LlmClient } from './llm.ts';
+
+export interface ParsedStrategy {
+  strategy_name: string;
+  description: string;
+  configuration: Record<string, unknown>;
+  required_categories?: string[];
+  risk_level?: 'low' | 'medium' | 'high';
+  complexity?: 'simple' | 'intermediate' | 'advanced';
+}
+
+export interface StrategyParseResult {
+  strategy: ParsedStrategy;
+  /** required_categories that are not enabled in ai_data_categories */
+  missing_categories: string[];
+  attempts: number;
+}
+
+/** The parts of the parser output the rest of the app relies on */
+export const STRATEGY_PARSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['strategy_name', 'description', 'configuration'],
+  properties: {
+    strategy_name: { type: 'string' },
+    description: { type: 'string' },
+    configuration: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['buy', 'sell', 'hold', 'rebalance', 'stop'] },
+        assets: { type: 'array', items: { type: 'string' } },
+        triggers: { type: 'array', items: { type: 'object' } },
+        risk_management: { type: 'object' },
+        aiIntelligenceConfig: { type: 'object' },
+      },
+    },
+    required_categories: { type: 'array', items: { type: 'string' } },
+    risk_level: { type: 'string', enum: ['low', 'medium', 'high'] },
+    complexity: { type: 'string', enum: ['simple', 'intermediate', 'advanced'] },
+  },
+};
+
+export function buildStrategyParserPrompt(categories: string[]): string {
+  return `You are an expert crypto trading strategy parser. Your job is to convert natural language trading instructions into structured JSON strategy configurations.
+
+Available data categories: ${categories.join(', ')}
+
+Parse the user's prompt and extract:
+1. Assets/currencies mentioned
+2. Action type (buy, sell, hold, rebalance, etc.)
+3. Trigger conditions (price movements, indicators, sentiment, etc.)
+4. Amount or percentage
+5. Frequency/schedule
+6. Thresholds and risk controls
+7. Required data categories
+8. AI intelligence preferences (autonomy level, signal weights, decision style)
+
+Return a JSON object with this exact structure:
+{
+  "strategy_name": "Generated name based on the strategy",
+  "description": "Clear description of what the strategy does",
+  "configuration": {
+    "action": "buy|sell|hold|rebalance|stop",
+    "assets": ["BTC", "ETH", "XRP"],
+    "amount": {
+      "type": "fixed|percentage|portfolio_percentage",
+      "value": 100,
+      "currency": "USD|EUR|BTC"
+    },
+    "frequency": "once|daily|weekly|monthly|on_trigger",
+    "triggers": [
+      {
+        "type": "price_movement|sentiment|indicator|volume|time",
+        "asset": "BTC",
+        "condition": "drops|rises|above|below|equals",
+        "threshold": 2,
+        "timeframe": "24h|7d|1h",
+        "operator": "and|or"
+      }
+    ],
+    "risk_management": {
+      "stop_loss": 10,
+      "take_profit": 5,
+      "max_drawdown": 15,
+      "position_size": 1
+    },
+    "portfolio_allocation": {
+      "BTC": 60,
+      "ETH": 30,
+      "XRP": 10
+    },
+    "aiIntelligenceConfig": {
+      "enableAIOverride": true,
+      "aiAutonomyLevel": 50,
+      "aiConfidenceThreshold": 70,
+      "enablePatternRecognition": true,
+      "patternLookbackHours": 168,
+      "crossAssetCorrelation": true,
+      "marketStructureAnalysis": true,
+      "enableExternalSignals": true,
+      "whaleActivityWeight": 25,
+      "sentimentWeight": 20,
+      "newsImpactWeight": 30,
+      "socialSignalsWeight": 15,
+      "decisionMode": "balanced",
+      "escalationThreshold": 80,
+      "riskOverrideAllowed": false,
+      "enableLearning": true,
+      "adaptToPerformance": true,
+      "learningRate": 50,
+      "explainDecisions": true,
+      "alertOnAnomalies": true,
+      "alertOnOverrides": true,
+      "customInstructions": ""
+    }
+  },
+  "required_categories": ["Social Sentiment", "Market Data"],
+  "risk_level": "low|medium|high",
+  "complexity": "simple|intermediate|advanced"
+}
+
+AI Intelligence Configuration Guidelines:
+- If the user mentions "be conservative" or "careful", set aiAutonomyLevel lower (20-40)
+- If they want "aggressive" or "fast decisions", set aiAutonomyLevel higher (60-80)
+- If they mention specific external signals (whale moves, sentiment, news), increase those weights
+- If they want explanations or transparency, enable explainDecisions
+- For complex strategies requiring pattern recognition, enable relevant AI features
+- Set decisionMode based on user's risk appetite: conservative/balanced/aggressive
+
+Be precise and extract all relevant information. If information is missing, use reasonable defaults based on the strategy's complexity and risk level.`;
+}
+
+export async function parseStrategyPrompt(
+  llm: LlmClient,
+  prompt: string,
+  categories: string[],
+): Promise<StrategyParseResult> {
+  const { data, attempts } = await llm.completeJson<ParsedStrategy>(
+    {
+      messages: [
+        { role: 'system', content: buildStrategyParserPrompt(categories) },
+        { role: 'user', content: prompt },
+      ],
+    },
+    STRATEGY_PARSE_SCHEMA,
+    'parsed_strategy',
+  );
+
+  return {
+    strategy: data,
+    missing_categories: (data.required_categories ?? []).filter((cat) => !categories.includes(cat)),
+    attempts,
+  };
+}
@@ -0,0 +1,400 @@
+// =============================================================================
+// TRAINING DATASETS (decision_snapshots × decision_outcomes)
+// =============================================================================
+// training-dataset-export turns the decision log into one feature/label table
+// per outcome horizon:
+//
+//   decision_events     decision_ts (the point in time every row is "as of")
+//   decision_snapshots  features: fusion, guards, config, market context, ml_shadow
+//   decision_outcomes   labels: realized_pnl_pct, mfe_pct, mae_pct, hit_tp, hit_sl
+//
+// Point-in-time rules, each counted in the manifest when it drops a row:
+//   - immature      the label window (decision_ts + horizon) ends after as_of,
+//                   or the outcome was evaluated before the window closed
+//   - leakage       any timestamp inside the snapshot JSON (keys ts, timestamp,
+//                   *_ts, *_at) is later than decision_ts
+//   - no_snapshot   the decision has no snapshot to take features from
+//
+// Rows are split by time: the latest VALIDATION_FRACTION of decisions is the
+// validation set, and train rows whose label window reaches past the split
+// are purged so no train label overlaps validation. Files are CSV with a
+// SHA-256 per split, described by a manifest (columns, roles, JSON sources).
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type ColumnType = 'number' | 'boolean' | 'string';
+export type ColumnRole = 'key' | 'feature' | 'label';
+
+export interface DatasetColumn {
+  name: string;
+  type: ColumnType;
+  role: ColumnRole;
+  /** Where the value comes from: table.column[.json.path] */
+  source: string;
+}
+
+export interface DecisionEventRow {
+  id: string;
+  decision_ts: string;
+  symbol: string;
+  side: string;
+  strategy_id: string;
+}
+
+export interface DecisionSnapshotRow {
+  decision_id: string | null;
+  fusion_score: number | string | null;
+  signal_breakdown_json: Record<string, unknown> | null;
+  guard_states_json: Record<string, unknown> | null;
+  strategy_config_snapshot_json: Record<string, unknown> | null;
+  market_context_json: Record<string, unknown> | null;
+}
+
+export interface DecisionOutcomeRow {
+  id?: string;
+  decision_id: string;
+  horizon: string;
+  evaluated_at: string;
+  realized_pnl_pct: number | string | null;
+  mfe_pct: number | string | null;
+  mae_pct: number | string | null;
+  hit_tp: boolean | null;
+  hit_sl: boolean | null;
+}
+
+export type DatasetRow = Record<string, string | number | boolean | null>;
+
+export interface LeakageFinding {
+  decision_id: string;
+  path: string;
+  ts: string;
+}
+
+export interface DatasetBuild {
+  rows: DatasetRow[];
+  dropped: { immature: number; leakage: number; no_snapshot: number };
+  leakage: LeakageFinding[];
+}
+
+export interface DatasetSplit {
+  train: DatasetRow[];
+  validation: DatasetRow[];
+  /** First validation decision_ts; null when there is no validation set */
+  split_ts: string | null;
+  /** Train rows dropped because their label window overlaps validation */
+  purged: number;
+}
+
+export interface DatasetFileInfo {
+  path: string;
+  rows: number;
+  sha256: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface DatasetManifest {
+  dataset_id: string;
+  name: string;
+  horizon: string;
+  as_of: string;
+  from: string | null;
+  created_at: string;
+  format: 'csv';
+  schema_version: string;
+  columns: DatasetColumn[];
+  splits: { train: DatasetFileInfo; validation: DatasetFileInfo };
+  split_ts: string | null;
+  validation_fraction: number;
+  dropped: DatasetBuild['dropped'] & { purged: number };
+  /** First LEAKAGE_SAMPLE findings */
+  leakage_sample: LeakageFinding[];
+}
+
+export type DatasetClient = DbClient;
+
+export const DATASET_DEFAULTS = {
+  HORIZONS: ['1h', '4h', '24h'],
+  VALIDATION_FRACTION: 0.2,
+  BUCKET: 'training-datasets',
+  SCHEMA_VERSION: 'v1',
+  PAGE_SIZE: 1000,
+  /** decision ids per .in() lookup */
+  LOOKUP_CHUNK: 200,
+  LEAKAGE_SAMPLE: 20,
+} as const;
+
+const feature = (name: string, type: ColumnType, source: string): DatasetColumn => ({ name, type, role: 'feature', source });
+
+export const DATASET_COLUMNS: DatasetColumn[] = [
+  { name: 'decision_id', type: 'string', role: 'key', source: 'decision_events.id' },
+  { name: 'decision_ts', type: 'string', role: 'key', source: 'decision_events.decision_ts' },
+  { name: 'symbol', type: 'string', role: 'key', source: 'decision_events.symbol' },
+  { name: 'strategy_id', type: 'string', role: 'key', source: 'decision_events.strategy_id' },
+  feature('side', 'string', 'decision_events.side'),
+  feature('fusion_score', 'number', 'decision_snapshots.fusion_score'),
+  feature('confidence', 'number', 'decision_snapshots.guard_states_json.confidence'),
+  feature('total_signals', 'number', 'decision_snapshots.signal_breakdown_json.total_signals'),
+  feature('unique_sources_count', 'number', 'decision_snapshots.signal_breakdown_json.unique_sources_count'),
+  feature('tp_pct', 'number', 'decision_snapshots.strategy_config_snapshot_json.tp_pct'),
+  feature('sl_pct', 'number', 'decision_snapshots.strategy_config_snapshot_json.sl_pct'),
+  feature('min_confidence', 'number', 'decision_snapshots.strategy_config_snapshot_json.min_confidence'),
+  feature('expected_pnl_pct', 'number', 'decision_snapshots.market_context_json.expected_pnl_pct'),
+  feature('rsi_14', 'number', 'decision_snapshots.market_context_json.entry_filter_shadow.rsi_14'),
+  feature('ema_50', 'number', 'decision_snapshots.market_context_json.entry_filter_shadow.ema_50'),
+  feature('features_staleness_min', 'number', 'decision_snapshots.market_context_json.entry_filter_shadow.staleness_min'),
+  feature('ml_ensemble_prob', 'number', 'decision_snapshots.market_context_json.ml_shadow.ensemble_prob'),
+  feature('ml_xgb_prob', 'number', 'decision_snapshots.market_context_json.ml_shadow.xgb_prob'),
+  feature('ml_stoch_k', 'number', 'decision_snapshots.market_context_json.ml_shadow.stoch_k'),
+  feature('ml_rsi14', 'number', 'decision_snapshots.market_context_json.ml_shadow.rsi14'),
+  feature('ml_model_version', 'string', 'decision_snapshots.market_context_json.ml_shadow.model_version'),
+  { name: 'realized_pnl_pct', type: 'number', role: 'label', source: 'decision_outcomes.realized_pnl_pct' },
+  { name: 'mfe_pct', type: 'number', role: 'label', source: 'decision_outcomes.mfe_pct' },
+  { name: 'mae_pct', type: 'number', role: 'label', source: 'decision_outcomes.mae_pct' },
+  { name: 'hit_tp', type: 'boolean', role: 'label', source: 'decision_outcomes.hit_tp' },
+  { name: 'hit_sl', type: 'boolean', role: 'label', source: 'decision_outcomes.hit_sl' },
+];
+
+/** '15m' | '4h' | '1d' → milliseconds */
+export function horizonMs(horizon: string): number {
+  const match = horizon.match(/^(\d+)([mhd])$/);
+  if (!match) throw new Error(`Unsupported horizon: ${horizon}`);
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
+// ========================================================================
+// Point-in-time checks
+// ========================================================================
+
+const TIMESTAMP_KEY = /(^ts$|^timestamp$|_ts$|_at$)/;
+
+/** Timestamps inside the snapshot's JSON columns that are later than decisionTs */
+export function findLeakage(snapshot: DecisionSnapshotRow, decisionId: string, decisionTs: string): LeakageFinding[] {
+  const cutoff = Date.parse(decisionTs);
+  const findings: LeakageFinding[] = [];
+
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, `${path}[${i}]`));
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        const childPath = `${path}.${key}`;
+        if (TIMESTAMP_KEY.test(key) && typeof child === 'string') {
+          const ts = Date.parse(child);
+          if (Number.isFinite(ts) && ts > cutoff) findings.push({ decision_id: decisionId, path: childPath, ts: child });
+        } else {
+          walk(child, childPath);
+        }
+      }
+    }
+  };
+
+  walk(snapshot.signal_breakdown_json, 'signal_breakdown_json');
+  walk(snapshot.guard_states_json, 'guard_states_json');
+  walk(snapshot.strategy_config_snapshot_json, 'strategy_config_snapshot_json');
+  walk(snapshot.market_context_json, 'market_context_json');
+  return findings;
+}
+
+const pick = (value: unknown, path: string[]): unknown =>
+  path.reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), value);
+
+const coerce = (value: unknown, type: ColumnType): string | number | boolean | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (type === 'number') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  if (type === 'boolean') return typeof value === 'boolean' ? value : null;
+  return String(value);
+};
+
+function datasetRow(event: DecisionEventRow, snapshot: DecisionSnapshotRow, outcome: DecisionOutcomeRow): DatasetRow {
+  const tables: Record<string, unknown> = {
+    decision_events: event,
+    decision_snapshots: snapshot,
+    decision_outcomes: outcome,
+  };
+  const row: DatasetRow = {};
+  for (const column of DATASET_COLUMNS) {
+    const [table, ...path] = column.source.split('.');
+    row[column.name] = coerce(pick(tables[table], path), column.type);
+  }
+  return row;
+}
+
+/** Joins one horizon's outcomes to their events and snapshots, applying the point-in-time rules */
+export function buildDatasetRows(input: {
+  horizon: string;
+  asOf: string;
+  events: DecisionEventRow[];
+  snapshots: DecisionSnapshotRow[];
+  outcomes: DecisionOutcomeRow[];
+}): DatasetBuild {
+  const windowMs = horizonMs(input.horizon);
+  const asOf = Date.parse(input.asOf);
+  const events = new Map(input.events.map((e) => [e.id, e]));
+  const snapshots = new Map<string, DecisionSnapshotRow>();
+  for (const snapshot of input.snapshots) {
+    // ENTRY snapshot first; the backend may merge into it later but never adds a second
+    if (snapshot.decision_id && !snapshots.has(snapshot.decision_id)) snapshots.set(snapshot.decision_id, snapshot);
+  }
+
+  const build: DatasetBuild = { rows: [], dropped: { immature: 0, leakage: 0, no_snapshot: 0 }, leakage: [] };
+  for (const outcome of input.outcomes) {
+    if (outcome.horizon !== input.horizon) continue;
+    const event = events.get(outcome.decision_id);
+    if (!event) continue;
+
+    const decisionTs = Date.parse(event.decision_ts);
+    const windowEnd = decisionTs + windowMs;
+    if (windowEnd > asOf || Date.parse(outcome.evaluated_at) < windowEnd || Date.parse(outcome.evaluated_at) > asOf) {
+      build.dropped.immature++;
+      continue;
+    }
+
+    const snapshot = snapshots.get(event.id);
+    if (!snapshot) {
+      build.dropped.no_snapshot++;
+      continue;
+    }
+
+    const leaks = findLeakage(snapshot, event.id, event.decision_ts);
+    if (leaks.length > 0) {
+      build.dropped.leakage++;
+      build.leakage.push(...leaks);
+      continue;
+    }
+
+    build.rows.push(datasetRow(event, snapshot, outcome));
+  }
+
+  build.rows.sort((a, b) => String(a.decision_ts).localeCompare(String(b.decision_ts)));
+  return build;
+}
+
+/** Time-ordered train/validation split with label-window purging */
+export function splitByTime(
+  rows: DatasetRow[],
+  horizon: string,
+  validationFraction: number = DATASET_DEFAULTS.VALIDATION_FRACTION,
+): DatasetSplit {
+  const sorted = [...rows].sort((a, b) => String(a.decision_ts).localeCompare(String(b.decision_ts)));
+  const validationCount = Math.floor(sorted.length * validationFraction);
+  if (validationCount === 0) return { train: sorted, validation: [], split_ts: null, purged: 0 };
+
+  const splitTs = String(sorted[sorted.length - validationCount].decision_ts);
+  const split = Date.parse(splitTs);
+  const windowMs = horizonMs(horizon);
+  // Decisions sharing the split timestamp all go to validation
+  const validation = sorted.filter((r) => Date.parse(String(r.decision_ts)) >= split);
+  const before = sorted.filter((r) => Date.parse(String(r.decision_ts)) < split);
+  const train = before.filter((r) => Date.parse(String(r.decision_ts)) + windowMs <= split);
+
+  return { train, validation, split_ts: splitTs, purged: before.length - train.length };
+}
+
+// ========================================================================
+// Files
+// ========================================================================
+
+const csvCell = (value: string | number | boolean | null): string => {
+  if (value === null) return '';
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export function toCsv(rows: DatasetRow[], columns: DatasetColumn[] = DATASET_COLUMNS): string {
+  const lines = [columns.map((c) => c.name).join(',')];
+  for (const row of rows) lines.push(columns.map((c) => csvCell(row[c.name] ?? null)).join(','));
+  return lines.join('\n') + '\n';
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function datasetFile(path: string, rows: DatasetRow[]): Promise<{ bytes: Uint8Array; info: DatasetFileInfo }> {
+  const bytes = new TextEncoder().encode(toCsv(rows));
+  return {
+    bytes,
+    info: {
+      path,
+      rows: rows.length,
+      sha256: await sha256Hex(bytes),
+      from: rows.length > 0 ? String(rows[0].decision_ts) : null,
+      to: rows.length > 0 ? String(rows[rows.length - 1].decision_ts) : null,
+    },
+  };
+}
+
+// ========================================================================
+// Loading
+// ========================================================================
+
+/** Outcomes of one horizon evaluated by asOf (and from evaluatedFrom), paged by id */
+export async function fetchOutcomes(
+  client: DatasetClient,
+  options: { horizon: string; asOf: string; evaluatedFrom?: string | null; pageSize?: number },
+): Promise<DecisionOutcomeRow[]> {
+  const pageSize = options.pageSize ?? DATASET_DEFAULTS.PAGE_SIZE;
+  const outcomes: DecisionOutcomeRow[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    let query = client
+      .from('decision_outcomes')
+      .select('id, decision_id, horizon, evaluated_at, realized_pnl_pct, mfe_pct, mae_pct, hit_tp, hit_sl')
+      .eq('horizon', options.horizon)
+      .lte('evaluated_at', options.asOf)
+      .order('id', { ascending: true })
+      .limit(pageSize);
+    if (options.evaluatedFrom) query = query.gte('evaluated_at', options.evaluatedFrom);
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`decision_outcomes: ${error.message}`);
+    const page = (data ?? []) as DecisionOutcomeRow[];
+    outcomes.push(...page);
+    if (page.length < pageSize) return outcomes;
+    lastId = page[page.length - 1].id ?? null;
+    if (!lastId) return outcomes;
+  }
+}
+
+/** Events (optionally from a start time) and their snapshots for the given decision ids */
+export async function fetchDecisionContext(
+  client: DatasetClient,
+  decisionIds: string[],
+  options: { from?: string | null; chunk?: number } = {},
+): Promise<{ events: DecisionEventRow[]; snapshots: DecisionSnapshotRow[] }> {
+  const chunk = options.chunk ?? DATASET_DEFAULTS.LOOKUP_CHUNK;
+  const events: DecisionEventRow[] = [];
+  const snapshots: DecisionSnapshotRow[] = [];
+
+  for (let i = 0; i < decisionIds.length; i += chunk) {
+    const ids = decisionIds.slice(i, i + chunk);
+    let eventQuery = client
+      .from('decision_events')
+      .select('id, decision_ts, symbol, side, strategy_id')
+      .in('id', ids);
+    if (options.from) eventQuery = eventQuery.gte('decision_ts', options.from);
+
+    const [eventRes, snapshotRes] = await Promise.all([
+      eventQuery,
+      client
+        .from('decision_snapshots')
+        .select('decision_id, fusion_score, signal_breakdown_json, guard_states_json, strategy_config_snapshot_json, market_context_json, timestamp_utc')
+        .in('decision_id', ids)
+        .order('timestamp_utc', { ascending: true }),
+    ]);
+    if (eventRes.error) throw new Error(`decision_events: ${eventRes.error.message}`);
+    if (snapshotRes.error) throw new Error(`decision_snapshots: ${snapshotRes.error.message}`);
+    events.push(...((eventRes.data ?? []) as DecisionEventRow[]));
+    snapshots.push(...((snapshotRes.data ?? []) as DecisionSnapshotRow[]));
+  }
+  return { events, snapshots };
+}
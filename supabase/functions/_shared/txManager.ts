@@ -0,0 +1,551 @@
+// =============================================================================
+// TRANSACTION MANAGER
+// =============================================================================
+// Single send path for every on-chain sender (SYSTEM wallet and execution
+// wallets alike):
+//
+//   prepare    reserve_tx_nonce() hands out the next nonce per (chain, address)
+//              atomically, so concurrent senders from BOT_ADDRESS never collide;
+//              EIP-1559 fees come from eth_feeHistory (eth_gasPrice fallback)
+//   broadcast  eth_sendRawTransaction; the tx is recorded in
+//              managed_transactions (current state) and trade_events (log)
+//   replace    same nonce, fees bumped by FEE_BUMP_PERCENT: speed-up re-sends
+//              the original call, cancel sends a 0-value self-transfer
+//   refresh    tx-manager-monitor polls PENDING rows: mined / dropped /
+//              stuck → speed-up after STUCK_AFTER_SECONDS, up to MAX_SPEED_UPS
+//
+// Signing stays with the caller (getSigner(), a decrypted execution wallet
+// key, or an external wallet), so this module only imports types and its
+// decisions can be tested with a fake RPC.
+// =============================================================================
+
+import type { DbRpcClient } from './db.ts';
+
+export const TX_MANAGER_DEFAULTS = {
+  // Pending this long since the last broadcast → replace with higher fees
+  STUCK_AFTER_SECONDS: 90,
+  MAX_SPEED_UPS: 3,
+  // Nodes only accept a replacement that raises both fee fields by >= 10%
+  FEE_BUMP_PERCENT: 15,
+  // maxFeePerGas = baseFee × multiplier + priority fee
+  BASE_FEE_MULTIPLIER: 2,
+  FALLBACK_PRIORITY_FEE_WEI: 1_000_000_000n,
+  // A reservation counter idle this long re-syncs to the chain's pending nonce
+  // (a reserved nonce that never got broadcast would otherwise block the queue)
+  NONCE_RESYNC_SECONDS: 120,
+  CANCEL_GAS_LIMIT: 21_000n,
+} as const;
+
+export type TxSignerKind = 'system' | 'execution_wallet' | 'external';
+export type ManagedTxStatus = 'PENDING' | 'MINED' | 'REVERTED' | 'DROPPED' | 'CANCELLED';
+
+export interface TxFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface TxCall {
+  to: string;
+  data: string;
+  value: bigint;
+  gas: bigint;
+}
+
+export interface PreparedTx extends TxCall, TxFees {
+  chainId: number;
+  from: string;
+  nonce: number;
+}
+
+/** Returns the raw signed transaction (0x-prefixed). */
+export type TxSignFn = (tx: PreparedTx) => Promise<string>;
+
+export interface TxContext {
+  /** Free-form label: swap, withdrawal, approval, wrap, ... */
+  kind: string;
+  signerKind: TxSignerKind;
+  walletId?: string | null;
+  userId?: string | null;
+  /** trades.id when the tx belongs to a built trade (trade_events FK) */
+  tradeId?: string | null;
+  /** Caller's idempotency key (realTrades.broadcastIntentKey) to find a send whose response was lost */
+  intentKey?: string | null;
+}
+
+export type TxSendResult =
+  | { ok: true; txHash: string; tx: PreparedTx }
+  | { ok: false; stage: 'prepare' | 'sign' | 'broadcast'; error: string; rpcError?: unknown };
+
+/** managed_transactions row as read back by the monitor. */
+export interface ManagedTxRow {
+  id: string;
+  chain_id: number;
+  from_address: string;
+  nonce: number;
+  kind: string;
+  signer_kind: TxSignerKind;
+  wallet_id: string | null;
+  trade_id: string | null;
+  to_address: string;
+  data: string;
+  value_wei: string;
+  gas_limit: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string;
+  tx_hash: string;
+  tx_hashes: string[];
+  cancel_tx_hashes: string[];
+  status: ManagedTxStatus;
+  replacement_count: number;
+  last_broadcast_at: string;
+}
+
+export type TxManagerClient = DbRpcClient;
+
+// ─────────────────────────────────────────────────────────────
+// JSON-RPC
+// ─────────────────────────────────────────────────────────────
+
+export type RpcCall = (method: string, params: unknown[]) => Promise<unknown>;
+
+// Result shapes of the JSON-RPC methods used here (hex quantities)
+interface RpcFeeHistory {
+  baseFeePerGas?: string[];
+  reward?: string[][];
+}
+
+interface RpcTransaction {
+  nonce: string;
+  from: string;
+  to: string | null;
+  input?: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+interface RpcReceipt {
+  status?: string | number;
+  blockNumber?: string | null;
+}
+
+export class RpcError extends Error {
+  constructor(message: string, public readonly body: unknown) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export function jsonRpc(rpcUrl: string): RpcCall {
+  return async (method, params) => {
+    const res = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    const json = await res.json();
+    if (json?.error) throw new RpcError(json.error.message || `${method} failed`, json.error);
+    return json?.result;
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Pure helpers
+// ─────────────────────────────────────────────────────────────
+
+export function feesFromBaseFee(baseFee: bigint, priorityFee: bigint): TxFees {
+  const priority = priorityFee > 0n ? priorityFee : TX_MANAGER_DEFAULTS.FALLBACK_PRIORITY_FEE_WEI;
+  return {
+    maxPriorityFeePerGas: priority,
+    maxFeePerGas: baseFee * BigInt(TX_MANAGER_DEFAULTS.BASE_FEE_MULTIPLIER) + priority,
+  };
+}
+
+/** Replacement fees: at least FEE_BUMP_PERCENT over the previous tx, and never below current market. */
+export function bumpFees(previous: TxFees, current: TxFees): TxFees {
+  const pct = BigInt(100 + TX_MANAGER_DEFAULTS.FEE_BUMP_PERCENT);
+  const bump = (v: bigint) => (v * pct + 99n) / 100n;
+  const priority = [bump(previous.maxPriorityFeePerGas), current.maxPriorityFeePerGas].reduce((a, b) => (a > b ? a : b));
+  const maxFee = [bump(previous.maxFeePerGas), current.maxFeePerGas, priority].reduce((a, b) => (a > b ? a : b));
+  return { maxFeePerGas: maxFee, maxPriorityFeePerGas: priority };
+}
+
+export function cancelCall(from: string): TxCall {
+  return { to: from, data: '0x', value: 0n, gas: TX_MANAGER_DEFAULTS.CANCEL_GAS_LIMIT };
+}
+
+/** Shape accepted by Signer.sign() (_shared/signer.ts). */
+export function toSignerPayload(tx: PreparedTx) {
+  return {
+    to: tx.to,
+    from: tx.from,
+    data: tx.data,
+    value: tx.value.toString(),
+    gas: tx.gas.toString(),
+    nonce: tx.nonce,
+    maxFeePerGas: tx.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas.toString(),
+  };
+}
+
+export function preparedFromRow(row: ManagedTxRow): PreparedTx {
+  return {
+    chainId: row.chain_id,
+    from: row.from_address,
+    nonce: Number(row.nonce),
+    to: row.to_address,
+    data: row.data,
+    value: BigInt(row.value_wei),
+    gas: BigInt(row.gas_limit),
+    maxFeePerGas: BigInt(row.max_fee_per_gas),
+    maxPriorityFeePerGas: BigInt(row.max_priority_fee_per_gas),
+  };
+}
+
+/**
+ * Broadcast errors meaning the nonce is already taken on chain. The
+ * reservation must not be released (the next reserve re-syncs past it).
+ */
+export function isNonceConsumedError(message: string): boolean {
+  return /nonce too low|already known|replacement transaction underpriced|nonce has already been used/i.test(message);
+}
+
+/**
+ * JSON-RPC rejections meaning the node refused the tx outright, so its nonce
+ * can be handed out again. Transport errors and timeouts are never definitive:
+ * the raw tx may already be in the mempool, so that reservation is kept and
+ * settled by tx-manager-monitor or the chain re-sync in reserve_tx_nonce.
+ */
+export function isDefinitiveRejection(err: unknown): boolean {
+  if (!(err instanceof RpcError) || isNonceConsumedError(err.message)) return false;
+  return /insufficient funds|underpriced|invalid|intrinsic gas too low|exceeds block gas limit|fee cap less than block base fee/i.test(
+    err.message,
+  );
+}
+
+export type PendingTxAction = 'wait' | 'speed_up' | 'dropped' | 'stuck';
+
+/**
+ * Next step for a PENDING tx with no receipt yet. `latestNonce` is the
+ * account's mined nonce count: once it moves past ours without one of our
+ * hashes mining, something else consumed the nonce.
+ */
+export function pendingTxAction(
+  row: Pick<ManagedTxRow, 'nonce' | 'replacement_count' | 'last_broadcast_at' | 'signer_kind'>,
+  latestNonce: number,
+  nowMs: number,
+): PendingTxAction {
+  if (latestNonce > Number(row.nonce)) return 'dropped';
+  const ageMs = nowMs - new Date(row.last_broadcast_at).getTime();
+  if (ageMs < TX_MANAGER_DEFAULTS.STUCK_AFTER_SECONDS * 1000) return 'wait';
+  if (row.signer_kind === 'external') return 'stuck';
+  return row.replacement_count < TX_MANAGER_DEFAULTS.MAX_SPEED_UPS ? 'speed_up' : 'stuck';
+}
+
+// ─────────────────────────────────────────────────────────────
+// Manager
+// ─────────────────────────────────────────────────────────────
+
+export interface TxManagerDeps {
+  supabase: TxManagerClient;
+  rpc: RpcCall;
+  chainId: number;
+  from: string;
+}
+
+export function createTxManager({ supabase, rpc, chainId, from }: TxManagerDeps) {
+  const address = from.toLowerCase();
+
+  async function logEvent(
+    phase: string,
+    severity: 'info' | 'warn' | 'error',
+    tx: { nonce: number; txHash?: string | null; from?: string },
+    tradeId: string | null | undefined,
+    payload: Record<string, unknown> = {},
+  ) {
+    const { error } = await supabase.from('trade_events').insert({
+      trade_id: tradeId ?? null,
+      phase,
+      severity,
+      chain_id: chainId,
+      from_address: tx.from?.toLowerCase() ?? address,
+      nonce: tx.nonce,
+      tx_hash: tx.txHash ?? null,
+      payload,
+    });
+    if (error) console.warn('[txManager] trade_events insert failed', { phase, error: error.message });
+  }
+
+  async function estimateFees(): Promise<TxFees> {
+    try {
+      const history = (await rpc('eth_feeHistory', ['0x1', 'latest', [50]])) as RpcFeeHistory | null;
+      const baseFees: string[] = history?.baseFeePerGas ?? [];
+      // Last entry is the next block's base fee
+      const baseFee = BigInt(baseFees[baseFees.length - 1] ?? '0x0');
+      const priority = BigInt(history?.reward?.[0]?.[0] ?? '0x0');
+      if (baseFee > 0n) return feesFromBaseFee(baseFee, priority);
+    } catch (err) {
+      console.warn('[txManager] eth_feeHistory failed, falling back to gasPrice', (err as Error).message);
+    }
+    const gasPrice = BigInt((await rpc('eth_gasPrice', [])) as string);
+    return { maxFeePerGas: gasPrice * 2n, maxPriorityFeePerGas: gasPrice / 10n || 1n };
+  }
+
+  async function reserveNonce(): Promise<number> {
+    const chainPending = parseInt((await rpc('eth_getTransactionCount', [from, 'pending'])) as string, 16);
+    const { data, error } = await supabase.rpc('reserve_tx_nonce', {
+      p_chain_id: chainId,
+      p_address: address,
+      p_chain_nonce: chainPending,
+      p_resync_after_seconds: TX_MANAGER_DEFAULTS.NONCE_RESYNC_SECONDS,
+    });
+    if (error) throw new Error(`reserve_tx_nonce failed: ${error.message}`);
+    return Number(data);
+  }
+
+  /** Give back a nonce that was never broadcast (only if nothing was reserved after it). */
+  async function releaseNonce(nonce: number): Promise<void> {
+    const { error } = await supabase.rpc('release_tx_nonce', {
+      p_chain_id: chainId,
+      p_address: address,
+      p_nonce: nonce,
+    });
+    if (error) console.warn('[txManager] release_tx_nonce failed', { nonce, error: error.message });
+  }
+
+  async function prepare(call: TxCall): Promise<PreparedTx> {
+    const fees = await estimateFees();
+    const nonce = await reserveNonce();
+    return { ...call, ...fees, chainId, from, nonce };
+  }
+
+  async function broadcast(
+    tx: PreparedTx,
+    signedTx: string,
+    ctx: TxContext,
+  ): Promise<{ ok: true; txHash: string } | { ok: false; error: string; rpcError?: unknown }> {
+    let txHash: string;
+    try {
+      txHash = (await rpc('eth_sendRawTransaction', [signedTx])) as string;
+      if (!txHash) throw new Error('No transaction hash returned');
+    } catch (err) {
+      const message = (err as Error).message;
+      if (isDefinitiveRejection(err)) await releaseNonce(tx.nonce);
+      await logEvent('error', 'error', tx, ctx.tradeId, { step: 'broadcast', kind: ctx.kind, error: message });
+      return { ok: false, error: message, rpcError: err instanceof RpcError ? err.body : undefined };
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase.from('managed_transactions').insert({
+      chain_id: chainId,
+      from_address: address,
+      nonce: tx.nonce,
+      kind: ctx.kind,
+      signer_kind: ctx.signerKind,
+      wallet_id: ctx.walletId ?? null,
+      user_id: ctx.userId ?? null,
+      trade_id: ctx.tradeId ?? null,
+      intent_key: ctx.intentKey ?? null,
+      to_address: tx.to,
+      data: tx.data,
+      value_wei: tx.value.toString(),
+      gas_limit: tx.gas.toString(),
+      max_fee_per_gas: tx.maxFeePerGas.toString(),
+      max_priority_fee_per_gas: tx.maxPriorityFeePerGas.toString(),
+      tx_hash: txHash,
+      tx_hashes: [txHash],
+      status: 'PENDING',
+      last_broadcast_at: now,
+    });
+    // The tx is already in the mempool: tracking failures never fail the send
+    if (error) console.error('[txManager] managed_transactions insert failed', { txHash, error: error.message });
+
+    await logEvent('submit', 'info', { nonce: tx.nonce, txHash }, ctx.tradeId, {
+      kind: ctx.kind,
+      signer_kind: ctx.signerKind,
+      max_fee_per_gas: tx.maxFeePerGas.toString(),
+      max_priority_fee_per_gas: tx.maxPriorityFeePerGas.toString(),
+    });
+    return { ok: true, txHash };
+  }
+
+  /** prepare → sign → broadcast, releasing the nonce when signing fails. */
+  async function send(call: TxCall, sign: TxSignFn, ctx: TxContext): Promise<TxSendResult> {
+    let tx: PreparedTx;
+    try {
+      tx = await prepare(call);
+    } catch (err) {
+      return { ok: false, stage: 'prepare', error: (err as Error).message };
+    }
+
+    let signedTx: string;
+    try {
+      signedTx = await sign(tx);
+    } catch (err) {
+      await releaseNonce(tx.nonce);
+      await logEvent('error', 'error', tx, ctx.tradeId, { step: 'sign', kind: ctx.kind, error: (err as Error).message });
+      return { ok: false, stage: 'sign', error: (err as Error).message };
+    }
+
+    const sent = await broadcast(tx, signedTx, ctx);
+    if ('error' in sent) return { ok: false, stage: 'broadcast', error: sent.error, rpcError: sent.rpcError };
+    return { ok: true, txHash: sent.txHash, tx };
+  }
+
+  /**
+   * Track a tx signed elsewhere (user wallet via onchain-execute). Sender,
+   * nonce and fees are read back from the node; it can be watched but not
+   * replaced.
+   */
+  async function broadcastExternal(
+    signedTx: string,
+    ctx: Omit<TxContext, 'signerKind'>,
+  ): Promise<{ ok: true; txHash: string } | { ok: false; error: string; rpcError?: unknown }> {
+    let txHash: string;
+    try {
+      txHash = (await rpc('eth_sendRawTransaction', [signedTx])) as string;
+      if (!txHash) throw new Error('No transaction hash returned');
+    } catch (err) {
+      return { ok: false, error: (err as Error).message, rpcError: err instanceof RpcError ? err.body : undefined };
+    }
+
+    try {
+      const onChain = (await rpc('eth_getTransactionByHash', [txHash])) as RpcTransaction | null;
+      if (onChain) {
+        const nonce = parseInt(onChain.nonce, 16);
+        const sender = String(onChain.from).toLowerCase();
+        await supabase.from('managed_transactions').insert({
+          chain_id: chainId,
+          from_address: sender,
+          nonce,
+          kind: ctx.kind,
+          signer_kind: 'external',
+          wallet_id: ctx.walletId ?? null,
+          user_id: ctx.userId ?? null,
+          trade_id: ctx.tradeId ?? null,
+          intent_key: ctx.intentKey ?? null,
+          to_address: onChain.to,
+          data: onChain.input ?? '0x',
+          value_wei: BigInt(onChain.value ?? '0x0').toString(),
+          gas_limit: BigInt(onChain.gas ?? '0x0').toString(),
+          max_fee_per_gas: BigInt(onChain.maxFeePerGas ?? onChain.gasPrice ?? '0x0').toString(),
+          max_priority_fee_per_gas: BigInt(onChain.maxPriorityFeePerGas ?? onChain.gasPrice ?? '0x0').toString(),
+          tx_hash: txHash,
+          tx_hashes: [txHash],
+          status: 'PENDING',
+          last_broadcast_at: new Date().toISOString(),
+        });
+        await logEvent('submit', 'info', { nonce, txHash, from: sender }, ctx.tradeId, { kind: ctx.kind, signer_kind: 'external' });
+      }
+    } catch (err) {
+      console.warn('[txManager] external tx tracking failed', { txHash, error: (err as Error).message });
+    }
+    return { ok: true, txHash };
+  }
+
+  /** Re-send a PENDING row with the same nonce and bumped fees. */
+  async function replace(row: ManagedTxRow, sign: TxSignFn, mode: 'speed_up' | 'cancel'): Promise<TxSendResult> {
+    const previous = preparedFromRow(row);
+    let tx: PreparedTx;
+    try {
+      const fees = bumpFees(previous, await estimateFees());
+      const call = mode === 'cancel' ? cancelCall(previous.from) : previous;
+      tx = { ...previous, to: call.to, data: call.data, value: call.value, gas: call.gas, ...fees };
+    } catch (err) {
+      return { ok: false, stage: 'prepare', error: (err as Error).message };
+    }
+
+    let signedTx: string;
+    try {
+      signedTx = await sign(tx);
+    } catch (err) {
+      return { ok: false, stage: 'sign', error: (err as Error).message };
+    }
+
+    let txHash: string;
+    try {
+      txHash = (await rpc('eth_sendRawTransaction', [signedTx])) as string;
+    } catch (err) {
+      await logEvent('error', 'warn', tx, row.trade_id, { step: mode, error: (err as Error).message });
+      return { ok: false, stage: 'broadcast', error: (err as Error).message };
+    }
+
+    const { error } = await supabase
+      .from('managed_transactions')
+      .update({
+        tx_hash: txHash,
+        tx_hashes: [...(row.tx_hashes ?? []), txHash],
+        ...(mode === 'cancel' ? { cancel_tx_hashes: [...(row.cancel_tx_hashes ?? []), txHash] } : {}),
+        max_fee_per_gas: tx.maxFeePerGas.toString(),
+        max_priority_fee_per_gas: tx.maxPriorityFeePerGas.toString(),
+        replacement_count: row.replacement_count + 1,
+        last_broadcast_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+      .eq('status', 'PENDING');
+    if (error) console.error('[txManager] managed_transactions replace update failed', { id: row.id, error: error.message });
+
+    await logEvent(mode === 'cancel' ? 'cancel' : 'replace', 'warn', { nonce: tx.nonce, txHash }, row.trade_id, {
+      replaced_tx_hash: row.tx_hash,
+      replacement: row.replacement_count + 1,
+      max_fee_per_gas: tx.maxFeePerGas.toString(),
+      max_priority_fee_per_gas: tx.maxPriorityFeePerGas.toString(),
+    });
+    return { ok: true, txHash, tx };
+  }
+
+  /**
+   * Look for a receipt on any broadcast version of the row. Returns the
+   * terminal status written, or the pending action still to take.
+   */
+  async function refresh(
+    row: ManagedTxRow,
+    nowMs: number,
+  ): Promise<
+    | { status: Exclude<ManagedTxStatus, 'PENDING'>; minedTxHash: string | null }
+    | { status: 'PENDING'; action: PendingTxAction }
+  > {
+    // Read the nonce first: a receipt landing between the two reads must not look like a drop
+    const latestNonce = parseInt((await rpc('eth_getTransactionCount', [row.from_address, 'latest'])) as string, 16);
+
+    for (const hash of [...(row.tx_hashes ?? [row.tx_hash])].reverse()) {
+      const receipt = (await rpc('eth_getTransactionReceipt', [hash])) as RpcReceipt | null;
+      if (!receipt) continue;
+
+      const cancelled = (row.cancel_tx_hashes ?? []).includes(hash);
+      const success = receipt.status === '0x1' || receipt.status === 1;
+      const status = cancelled ? 'CANCELLED' : success ? 'MINED' : 'REVERTED';
+      await supabase
+        .from('managed_transactions')
+        .update({
+          status,
+          mined_tx_hash: hash,
+          block_number: receipt.blockNumber ? parseInt(receipt.blockNumber, 16) : null,
+          mined_at: new Date(nowMs).toISOString(),
+        })
+        .eq('id', row.id)
+        .eq('status', 'PENDING');
+      await logEvent(status === 'MINED' ? 'mined' : status.toLowerCase(), status === 'MINED' ? 'info' : 'warn',
+        { nonce: Number(row.nonce), txHash: hash }, row.trade_id, { kind: row.kind, replacements: row.replacement_count });
+      return { status, minedTxHash: hash };
+    }
+
+    const action = pendingTxAction(row, latestNonce, nowMs);
+    if (action === 'dropped') {
+      await supabase
+        .from('managed_transactions')
+        .update({ status: 'DROPPED', last_error: `nonce ${row.nonce} consumed by another transaction` })
+        .eq('id', row.id)
+        .eq('status', 'PENDING');
+      await logEvent('dropped', 'error', { nonce: Number(row.nonce), txHash: row.tx_hash }, row.trade_id, { kind: row.kind });
+      return { status: 'DROPPED', minedTxHash: null };
+    }
+    return { status: 'PENDING', action };
+  }
+
+  return { estimateFees, reserveNonce, releaseNonce, prepare, broadcast, send, broadcastExternal, replace, refresh };
+}
+
+export type TxManager = ReturnType<typeof createTxManager>;
@@ -0,0 +1,184 @@
+// =============================================================================
+// VOLATILITY REGIME (market_features_v0.volatility_regime)
+// =============================================================================
+// features-refresh labels every feature row with one of four regimes:
+//
+//   high_vol_shock  short-window vol ≥ SHOCK_VOL_RATIO × long-window vol, or
+//                   a |ret_1h| move ≥ SHOCK_RET_1H
+//   trend_up        EMA20 > EMA50 (> EMA200 when known) and ret_24h ≥ TREND_RET_24H
+//   trend_down      EMA20 < EMA50 (< EMA200 when known) and ret_24h ≤ -TREND_RET_24H
+//   low_vol_range   everything else
+//
+// Vol columns are per-candle std devs, so only the short/long ratio is compared
+// (scale-free across granularities). Short = vol_1h, else vol_4h (vol_1h is
+// null at 1h granularity); long = vol_24h, else vol_7d.
+//
+// The coordinator reads the latest 5m label per symbol once per request: it is
+// stored on the intent metadata (decision_events / snapshots), scales the
+// volatility component of the dynamic TP/SL, and lands in
+// execution_quality_log.volatility_regime.
+//
+// Strategies can carry configuration.regimeProfiles: per regime, a subset of
+// REGIME_PROFILE_FIELDS that overrides the flat configuration at decision time
+// (applyRegimeProfile, used by the coordinator's resolveCanonicalConfig). The
+// UI / serializer mirror the field list in src/utils/regimeProfiles.ts.
+// =============================================================================
+
+import type { DbClient } from './db.ts';
+
+export type VolatilityRegime = 'low_vol_range' | 'trend_up' | 'trend_down' | 'high_vol_shock';
+
+export const VOLATILITY_REGIMES: VolatilityRegime[] = ['low_vol_range', 'trend_up', 'trend_down', 'high_vol_shock'];
+
+export interface RegimeFeatureRow {
+  ret_1h?: number | string | null;
+  ret_24h?: number | string | null;
+  vol_1h?: number | string | null;
+  vol_4h?: number | string | null;
+  vol_24h?: number | string | null;
+  vol_7d?: number | string | null;
+  ema_20?: number | string | null;
+  ema_50?: number | string | null;
+  ema_200?: number | string | null;
+}
+
+export interface RegimeClassification {
+  regime: VolatilityRegime;
+  volRatio: number;
+  emaTrend: 'up' | 'down' | 'mixed';
+}
+
+export type RegimeProfileField = (typeof REGIME_PROFILE_FIELDS)[number];
+
+export type RegimeProfiles = Partial<Record<VolatilityRegime, Partial<Record<RegimeProfileField, number>>>>;
+
+export interface LatestRegime {
+  regime: VolatilityRegime;
+  ts: string;
+}
+
+export type RegimeClient = DbClient;
+
+export const REGIME_DEFAULTS = {
+  SHOCK_VOL_RATIO: 2.0,
+  /** log return, ≈4% in an hour */
+  SHOCK_RET_1H: 0.04,
+  /** log return, ≈1.5% over 24h */
+  TREND_RET_24H: 0.015,
+  /** features-refresh-5m keeps this granularity fresh */
+  GRANULARITY: '5m',
+  MAX_AGE_MS: 30 * 60_000,
+} as const;
+
+/**
+ * Multipliers on the volatility component of the coordinator's dynamic TP/SL
+ * (TP = max(base, vol × tp), SL = max(base, vol × sl)); never below the base.
+ * low_vol_range and unknown keep the pre-regime 1.0 / 1.2.
+ */
+export const REGIME_TP_SL_VOL_MULTIPLIERS: Record<VolatilityRegime, { tp: number; sl: number }> = {
+  low_vol_range: { tp: 1.0, sl: 1.2 },
+  trend_up: { tp: 1.3, sl: 1.2 },
+  trend_down: { tp: 0.8, sl: 1.2 },
+  high_vol_shock: { tp: 1.0, sl: 1.5 },
+};
+
+/** Root configuration keys a regime profile may override (numbers only) */
+export const REGIME_PROFILE_FIELDS = [
+  'takeProfitPercentage',
+  'stopLossPercentage',
+  'trailingStopLossPercentage',
+  'aiConfidenceThreshold',
+  'spreadThresholdBps',
+  'perTradeAllocation',
+  'minHoldPeriodMs',
+  'cooldownBetweenOppositeActionsMs',
+] as const;
+
+const num = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+export function isVolatilityRegime(value: unknown): value is VolatilityRegime {
+  return typeof value === 'string' && (VOLATILITY_REGIMES as string[]).includes(value);
+}
+
+/** Label one feature row; null when the row has no usable short/long volatility */
+export function classifyRegime(row: RegimeFeatureRow): RegimeClassification | null {
+  const shortVol = num(row.vol_1h) ?? num(row.vol_4h);
+  const longVol = num(row.vol_24h) ?? num(row.vol_7d);
+  if (shortVol === null || longVol === null || longVol <= 0) return null;
+  const volRatio = Number((shortVol / longVol).toFixed(4));
+
+  const ema20 = num(row.ema_20);
+  const ema50 = num(row.ema_50);
+  const ema200 = num(row.ema_200);
+  let emaTrend: RegimeClassification['emaTrend'] = 'mixed';
+  if (ema20 !== null && ema50 !== null) {
+    if (ema20 > ema50 && (ema200 === null || ema50 > ema200)) emaTrend = 'up';
+    else if (ema20 < ema50 && (ema200 === null || ema50 < ema200)) emaTrend = 'down';
+  }
+
+  const ret1h = num(row.ret_1h);
+  const ret24h = num(row.ret_24h) ?? 0;
+
+  let regime: VolatilityRegime = 'low_vol_range';
+  if (volRatio >= REGIME_DEFAULTS.SHOCK_VOL_RATIO || (ret1h !== null && Math.abs(ret1h) >= REGIME_DEFAULTS.SHOCK_RET_1H)) {
+    regime = 'high_vol_shock';
+  } else if (emaTrend === 'up' && ret24h >= REGIME_DEFAULTS.TREND_RET_24H) {
+    regime = 'trend_up';
+  } else if (emaTrend === 'down' && ret24h <= -REGIME_DEFAULTS.TREND_RET_24H) {
+    regime = 'trend_down';
+  }
+
+  return { regime, volRatio, emaTrend };
+}
+
+/** TP/SL volatility multipliers for a (possibly unknown) regime */
+export function regimeTpSlMultipliers(regime: string | null | undefined): { tp: number; sl: number } {
+  return isVolatilityRegime(regime) ? REGIME_TP_SL_VOL_MULTIPLIERS[regime] : REGIME_TP_SL_VOL_MULTIPLIERS.low_vol_range;
+}
+
+/**
+ * Overlay the profile for `regime` on a flat strategy configuration. Unknown
+ * regimes, unknown keys and non-numeric values are ignored, so a missing or
+ * partial profile falls back to the flat values.
+ */
+export function applyRegimeProfile<T extends Record<string, unknown>>(
+  config: T,
+  regime: string | null | undefined,
+): { config: T; regime: VolatilityRegime | null; overrides: Partial<Record<RegimeProfileField, number>> } {
+  const profiles = config?.regimeProfiles as RegimeProfiles | undefined;
+  const profile = isVolatilityRegime(regime) ? profiles?.[regime] : undefined;
+  if (!profile || typeof profile !== 'object') return { config, regime: null, overrides: {} };
+
+  const overrides: Partial<Record<RegimeProfileField, number>> = {};
+  for (const field of REGIME_PROFILE_FIELDS) {
+    const value = num(profile[field] as number | string | null | undefined);
+    if (value !== null) overrides[field] = value;
+  }
+  if (Object.keys(overrides).length === 0) return { config, regime: null, overrides };
+  return { config: { ...config, ...overrides }, regime: regime as VolatilityRegime, overrides };
+}
+
+/** Latest labelled feature row for the pair if it is younger than MAX_AGE_MS */
+export async function fetchLatestRegime(
+  supabase: RegimeClient,
+  pairSymbol: string,
+  nowMs: number,
+): Promise<LatestRegime | null> {
+  const since = new Date(nowMs - REGIME_DEFAULTS.MAX_AGE_MS).toISOString();
+  const { data, error } = await supabase
+    .from('market_features_v0')
+    .select('ts_utc, volatility_regime')
+    .eq('symbol', pairSymbol)
+    .eq('granularity', REGIME_DEFAULTS.GRANULARITY)
+    .gte('ts_utc', since)
+    .order('ts_utc', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const row = data as { ts_utc: string; volatility_regime: string | null } | null;
+  if (error || !row || !isVolatilityRegime(row.volatility_regime)) return null;
+  return { regime: row.volatility_regime, ts: row.ts_utc };
+}
@@ -0,0 +1,389 @@
+// =============================================================================
+// WITHDRAWAL POLICY ENGINE
+// =============================================================================
+// Shared by execution-wallet-withdraw and system-wallet-withdraw. Every new
+// withdrawal is evaluated against the beneficiary's policy before any key is
+// touched:
+//
+//   allowlist     destination must be an active transfer_allowlist entry of the
+//                 user (require_allowlist), within its max_amount_wei
+//   cooling-off   an address added less than cooling_off_hours ago is refused
+//   velocity      daily / weekly totals per user and asset, counting requests
+//                 that are pending, approved, processing or submitted; the row
+//                 is inserted by create_withdrawal_request, which re-counts
+//                 them under a per-user lock so concurrent calls cannot both
+//                 pass
+//   approval      amounts above approval_threshold are queued in
+//                 withdrawal_requests as pending_approval; an admin other than
+//                 the requester approves or rejects (review_withdrawal_request)
+//                 and the approved request is executed by the same function
+//                 after the allowlist, cooling-off and velocity checks pass
+//                 again (recheckApprovedWithdrawal)
+//
+// Policies live in withdrawal_policies: a user-specific row overrides the
+// global row (user_id NULL) for the same asset. With no policy at all every
+// withdrawal needs approval. Each step is written to withdrawal_audit_log.
+// =============================================================================
+
+import type { DbClient, DbRpcClient } from './db.ts';
+
+export type WithdrawalSource = 'execution_wallet' | 'system_wallet';
+
+export type WithdrawalRequestStatus =
+  | 'pending_approval'
+  | 'approved'
+  | 'processing'
+  | 'submitted'
+  | 'rejected'
+  | 'failed';
+
+export interface WithdrawalPolicyRow {
+  id?: string;
+  user_id: string | null;
+  asset: string;
+  daily_limit: number | string | null;
+  weekly_limit: number | string | null;
+  approval_threshold: number | string | null;
+  cooling_off_hours: number | null;
+  require_allowlist: boolean;
+  is_active: boolean;
+}
+
+export interface AllowlistEntry {
+  address: string;
+  chain_id: number;
+  max_amount_wei: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface RecentWithdrawal {
+  id?: string;
+  amount: number | string;
+  status: WithdrawalRequestStatus;
+  created_at: string;
+}
+
+export type WithdrawalDecision = 'allow' | 'require_approval' | 'deny';
+
+export type WithdrawalReasonCode =
+  | 'address_not_allowlisted'
+  | 'cooling_off'
+  | 'address_limit_exceeded'
+  | 'daily_limit_exceeded'
+  | 'weekly_limit_exceeded'
+  | 'rate_limited'
+  | 'approval_required'
+  | 'no_policy';
+
+export interface WithdrawalReason {
+  code: WithdrawalReasonCode;
+  message: string;
+}
+
+export interface WithdrawalEvaluation {
+  decision: WithdrawalDecision;
+  reasons: WithdrawalReason[];
+  policy_id: string | null;
+  usage: {
+    daily_used: number;
+    weekly_used: number;
+    daily_limit: number | null;
+    weekly_limit: number | null;
+  };
+  /** Set when the address is still cooling off */
+  cooling_off_until?: string;
+}
+
+export interface WithdrawalRequestRow {
+  id: string;
+  user_id: string;
+  requested_by: string;
+  source: WithdrawalSource;
+  wallet_id: string | null;
+  asset: string;
+  amount: number | string;
+  to_address: string;
+  chain_id: number;
+  status: WithdrawalRequestStatus;
+}
+
+export type WithdrawalClient = DbClient;
+export type WithdrawalRpcClient = DbRpcClient;
+
+export type CreateWithdrawalRequestResult =
+  | { ok: true; requestId: string; status: 'pending_approval' | 'processing' }
+  | { ok: false; reason: WithdrawalReason };
+
+export const WITHDRAWAL_POLICY_DEFAULTS = {
+  /** Requests that count towards velocity limits */
+  COUNTED_STATUSES: ['pending_approval', 'approved', 'processing', 'submitted'] as WithdrawalRequestStatus[],
+  DAY_MS: 86_400_000,
+  WEEK_MS: 7 * 86_400_000,
+  COOLING_OFF_HOURS: 24,
+} as const;
+
+const toNumber = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Decimal amount to integer base units without float drift (e.g. 0.1 ETH → 10^17) */
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  const text = /e/i.test(String(amount)) ? amount.toFixed(decimals) : String(amount);
+  const [whole, fraction = ''] = text.split('.');
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+}
+
+/** The user's active policy for the asset, else the global one */
+export function resolveWithdrawalPolicy(
+  policies: WithdrawalPolicyRow[],
+  userId: string,
+  asset: string,
+): WithdrawalPolicyRow | null {
+  const active = policies.filter((p) => p.is_active && p.asset === asset);
+  return active.find((p) => p.user_id === userId) ?? active.find((p) => p.user_id === null) ?? null;
+}
+
+/**
+ * Pure policy decision. Any hard limit (allowlist, cooling-off, per-address
+ * cap, velocity) denies; otherwise an amount above the approval threshold is
+ * queued for an admin.
+ */
+export function evaluateWithdrawal(input: {
+  policy: WithdrawalPolicyRow | null;
+  amount: number;
+  decimals: number;
+  allowlist: AllowlistEntry | null;
+  recent: RecentWithdrawal[];
+  now?: number;
+}): WithdrawalEvaluation {
+  const now = input.now ?? Date.now();
+  const { policy, amount } = input;
+  const reasons: WithdrawalReason[] = [];
+
+  const counted = input.recent.filter((r) => WITHDRAWAL_POLICY_DEFAULTS.COUNTED_STATUSES.includes(r.status));
+  const usedSince = (windowMs: number) =>
+    counted
+      .filter((r) => now - Date.parse(r.created_at) < windowMs)
+      .reduce((sum, r) => sum + (toNumber(r.amount) ?? 0), 0);
+  const dailyUsed = usedSince(WITHDRAWAL_POLICY_DEFAULTS.DAY_MS);
+  const weeklyUsed = usedSince(WITHDRAWAL_POLICY_DEFAULTS.WEEK_MS);
+  const dailyLimit = toNumber(policy?.daily_limit);
+  const weeklyLimit = toNumber(policy?.weekly_limit);
+
+  let coolingOffUntil: string | undefined;
+  const requireAllowlist = policy?.require_allowlist ?? true;
+  const entry = input.allowlist?.is_active ? input.allowlist : null;
+
+  if (!entry) {
+    if (requireAllowlist) {
+      reasons.push({ code: 'address_not_allowlisted', message: 'Destination is not an active allowlisted address' });
+    }
+  } else {
+    const coolingHours = policy?.cooling_off_hours ?? WITHDRAWAL_POLICY_DEFAULTS.COOLING_OFF_HOURS;
+    const availableAt = Date.parse(entry.created_at) + coolingHours * 3_600_000;
+    if (now < availableAt) {
+      coolingOffUntil = new Date(availableAt).toISOString();
+      reasons.push({ code: 'cooling_off', message: `Address was added recently; withdrawals open at ${coolingOffUntil}` });
+    }
+    if (entry.max_amount_wei && toBaseUnits(amount, input.decimals) > BigInt(entry.max_amount_wei)) {
+      reasons.push({ code: 'address_limit_exceeded', message: 'Amount exceeds the limit set for this address' });
+    }
+  }
+
+  if (dailyLimit !== null && dailyUsed + amount > dailyLimit) {
+    reasons.push({ code: 'daily_limit_exceeded', message: `Daily limit ${dailyLimit} reached (${dailyUsed} used)` });
+  }
+  if (weeklyLimit !== null && weeklyUsed + amount > weeklyLimit) {
+    reasons.push({ code: 'weekly_limit_exceeded', message: `Weekly limit ${weeklyLimit} reached (${weeklyUsed} used)` });
+  }
+
+  let decision: WithdrawalDecision = reasons.length > 0 ? 'deny' : 'allow';
+  if (decision === 'allow') {
+    const threshold = toNumber(policy?.approval_threshold);
+    if (!policy) {
+      decision = 'require_approval';
+      reasons.push({ code: 'no_policy', message: 'No withdrawal policy for this asset; admin approval required' });
+    } else if (threshold !== null && amount > threshold) {
+      decision = 'require_approval';
+      reasons.push({ code: 'approval_required', message: `Amount above approval threshold ${threshold}` });
+    }
+  }
+
+  return {
+    decision,
+    reasons,
+    policy_id: policy?.id ?? null,
+    usage: { daily_used: dailyUsed, weekly_used: weeklyUsed, daily_limit: dailyLimit, weekly_limit: weeklyLimit },
+    ...(coolingOffUntil ? { cooling_off_until: coolingOffUntil } : {}),
+  };
+}
+
+/** Policies, allowlist entry and last week's requests for one user / asset / destination */
+export async function loadWithdrawalContext(
+  client: WithdrawalClient,
+  options: { userId: string; asset: string; toAddress: string; chainId: number; now?: number },
+): Promise<{ policy: WithdrawalPolicyRow | null; allowlist: AllowlistEntry | null; recent: RecentWithdrawal[] }> {
+  const now = options.now ?? Date.now();
+  const [policyRes, allowlistRes, recentRes] = await Promise.all([
+    client
+      .from('withdrawal_policies')
+      .select('id, user_id, asset, daily_limit, weekly_limit, approval_threshold, cooling_off_hours, require_allowlist, is_active')
+      .eq('asset', options.asset)
+      .eq('is_active', true),
+    client
+      .from('transfer_allowlist')
+      .select('address, chain_id, max_amount_wei, is_active, created_at')
+      .eq('user_id', options.userId)
+      .eq('chain_id', options.chainId)
+      .ilike('address', options.toAddress),
+    client
+      .from('withdrawal_requests')
+      .select('id, amount, status, created_at')
+      .eq('user_id', options.userId)
+      .eq('asset', options.asset)
+      .in('status', WITHDRAWAL_POLICY_DEFAULTS.COUNTED_STATUSES)
+      .gte('created_at', new Date(now - WITHDRAWAL_POLICY_DEFAULTS.WEEK_MS).toISOString()),
+  ]);
+  if (policyRes.error) throw new Error(`withdrawal_policies: ${policyRes.error.message}`);
+  if (allowlistRes.error) throw new Error(`transfer_allowlist: ${allowlistRes.error.message}`);
+  if (recentRes.error) throw new Error(`withdrawal_requests: ${recentRes.error.message}`);
+
+  const entries = (allowlistRes.data ?? []) as AllowlistEntry[];
+  return {
+    policy: resolveWithdrawalPolicy((policyRes.data ?? []) as WithdrawalPolicyRow[], options.userId, options.asset),
+    allowlist: entries.find((e) => e.is_active) ?? entries[0] ?? null,
+    recent: (recentRes.data ?? []) as RecentWithdrawal[],
+  };
+}
+
+/**
+ * Records an allowed or queued withdrawal through create_withdrawal_request.
+ * The RPC holds a per-user advisory lock while it re-counts live requests
+ * against the daily / weekly limits (and the optional rate limit) and inserts
+ * the row, so the evaluation above cannot be raced past the limits.
+ */
+export async function createWithdrawalRequest(
+  client: WithdrawalRpcClient,
+  request: {
+    userId: string;
+    requestedBy: string;
+    source: WithdrawalSource;
+    walletId: string | null;
+    asset: string;
+    amount: number;
+    toAddress: string;
+    chainId: number;
+    evaluation: WithdrawalEvaluation;
+    rateLimitSeconds?: number;
+  },
+): Promise<CreateWithdrawalRequestResult> {
+  const { data, error } = await client.rpc('create_withdrawal_request', {
+    p_user_id: request.userId,
+    p_requested_by: request.requestedBy,
+    p_source: request.source,
+    p_wallet_id: request.walletId,
+    p_asset: request.asset,
+    p_amount: request.amount,
+    p_to_address: request.toAddress,
+    p_chain_id: request.chainId,
+    p_pending: request.evaluation.decision === 'require_approval',
+    p_evaluation: request.evaluation,
+    p_rate_limit_seconds: request.rateLimitSeconds ?? 0,
+  });
+  if (error) throw new Error(`create_withdrawal_request: ${error.message}`);
+
+  const result = data as {
+    success: boolean;
+    request_id?: string;
+    status?: 'pending_approval' | 'processing';
+    code?: WithdrawalReasonCode;
+    message?: string;
+  } | null;
+  if (result?.success && result.request_id && result.status) {
+    return { ok: true, requestId: result.request_id, status: result.status };
+  }
+  if (result?.code && result.message) return { ok: false, reason: { code: result.code, message: result.message } };
+  throw new Error('create_withdrawal_request: unexpected response');
+}
+
+/**
+ * Policy checks for a claimed request right before it is executed: the
+ * allowlist entry may have been removed or re-added, and other withdrawals may
+ * have used the limits while it waited. The request itself is left out of the
+ * velocity totals; being above the approval threshold no longer matters.
+ */
+export async function recheckApprovedWithdrawal(
+  client: WithdrawalClient,
+  request: WithdrawalRequestRow,
+  decimals: number,
+  now?: number,
+): Promise<WithdrawalEvaluation> {
+  const context = await loadWithdrawalContext(client, {
+    userId: request.user_id,
+    asset: request.asset,
+    toAddress: request.to_address,
+    chainId: request.chain_id,
+    now,
+  });
+  return evaluateWithdrawal({
+    ...context,
+    recent: context.recent.filter((r) => r.id !== request.id),
+    amount: Number(request.amount),
+    decimals,
+    now,
+  });
+}
+
+/**
+ * Moves an approved request of this source to processing so only one caller
+ * executes it. Returns null when the request is not (or no longer) approved.
+ */
+export async function claimApprovedWithdrawal(
+  client: WithdrawalClient,
+  requestId: string,
+  source: WithdrawalSource,
+): Promise<WithdrawalRequestRow | null> {
+  const { data, error } = await client
+    .from('withdrawal_requests')
+    .update({ status: 'processing' })
+    .eq('id', requestId)
+    .eq('source', source)
+    .eq('status', 'approved')
+    .select('id, user_id, requested_by, source, wallet_id, asset, amount, to_address, chain_id, status')
+    .maybeSingle();
+  if (error) throw new Error(`withdrawal_requests: ${error.message}`);
+  return (data as WithdrawalRequestRow | null) ?? null;
+}
+
+/** One withdrawal_audit_log row; failures are returned, never thrown */
+export async function recordWithdrawalStep(
+  client: WithdrawalClient,
+  step: {
+    status: string;
+    user_id: string;
+    actor_id: string;
+    source: WithdrawalSource;
+    wallet_id: string | null;
+    asset: string;
+    amount: number;
+    to_address: string;
+    request_id?: string | null;
+    tx_hash?: string | null;
+    details?: Record<string, unknown>;
+  },
+): Promise<string | null> {
+  try {
+    const { error } = await client.from('withdrawal_audit_log').insert({
+      ...step,
+      request_id: step.request_id ?? null,
+      tx_hash: step.tx_hash ?? null,
+      details: step.details ?? {},
+    });
+    return error ? error.message : null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
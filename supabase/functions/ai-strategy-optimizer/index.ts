@@ -1,6 +1,13 @@
 // supabase/functions/ai-strategy-optimizer/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  createLlmClient,
+  type JsonSchema,
+  LLM_DEFAULTS,
+  llmProviderFromConfig,
+  loadLlmConfiguration,
+} from '../_shared/llm.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,6 +21,26 @@ const CONF_MAX = 0.90;
 const MAX_STEP = 0.10;
 const DEFAULT_MIN_CONF = 0.70;
 
+const SUGGESTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['suggestions'],
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['strategy_id', 'symbol', 'new_min_confidence', 'rationale'],
+        properties: {
+          strategy_id: { type: 'string' },
+          symbol: { type: 'string' },
+          new_min_confidence: { type: 'number' },
+          rationale: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
 interface CalibrationMetric {
   strategy_id: string;
   symbol: string;
@@ -268,12 +295,26 @@ serve(async (req) => {
       entries,
     };
 
-    // Step 5: Call OpenAI
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
-      console.error('[ai-strategy-optimizer] OPENAI_API_KEY not configured');
+    // Step 5: Call the configured LLM (llm_configurations is admin-only, so read it
+    // and record usage with the service role)
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const llmConfig = await loadLlmConfiguration(serviceClient);
+    let llm;
+    try {
+      llm = createLlmClient(llmProviderFromConfig(llmConfig, (key) => Deno.env.get(key)), {
+        supabase: serviceClient,
+        userId,
+        functionName: 'ai-strategy-optimizer',
+        temperature: 0.3,
+        maxTokens: llmConfig.max_tokens ?? LLM_DEFAULTS.MAX_TOKENS,
+      });
+    } catch (error) {
+      console.error('[ai-strategy-optimizer] LLM provider not configured:', error);
       return new Response(
-        JSON.stringify({ status: 'error', message: 'OpenAI API key not configured' }),
+        JSON.stringify({ status: 'error', message: 'LLM provider not configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -295,61 +336,24 @@ Output strictly valid JSON with this shape:
 Do not include comments or extra keys. Do not wrap JSON in markdown.
 If you decide not to change a given entry, still include it in suggestions with new_min_confidence equal to the current value and an appropriate rationale.`;
 
-    console.log('[ai-strategy-optimizer] Calling OpenAI...');
+    console.log('[ai-strategy-optimizer] Calling LLM:', llm.provider.kind, llm.provider.model);
 
     let aiResponse: { suggestions: AISuggestion[] };
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
+      const { data, attempts } = await llm.completeJson<{ suggestions: AISuggestion[] }>(
+        {
           messages: [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: JSON.stringify(payloadForAI) },
           ],
-          temperature: 0.3,
-          max_tokens: 2000,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[ai-strategy-optimizer] OpenAI API error:', response.status, errorText);
-        return new Response(
-          JSON.stringify({ status: 'error', message: 'OpenAI API call failed', details: errorText }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-
-      if (!content) {
-        console.error('[ai-strategy-optimizer] No content in OpenAI response');
-        return new Response(
-          JSON.stringify({ status: 'error', message: 'No content from OpenAI' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      console.log('[ai-strategy-optimizer] OpenAI response:', content);
-
-      // Parse AI response
-      aiResponse = JSON.parse(content);
-
-      if (!aiResponse.suggestions || !Array.isArray(aiResponse.suggestions)) {
-        console.error('[ai-strategy-optimizer] Invalid AI response format');
-        return new Response(
-          JSON.stringify({ status: 'error', message: 'Invalid AI response format' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+        },
+        SUGGESTIONS_SCHEMA,
+        'confidence_suggestions',
+      );
+      aiResponse = data;
+      console.log('[ai-strategy-optimizer] LLM response:', { attempts, suggestions: data.suggestions.length });
     } catch (error) {
-      console.error('[ai-strategy-optimizer] Error calling OpenAI:', error);
+      console.error('[ai-strategy-optimizer] Error calling LLM:', error);
       return new Response(
         JSON.stringify({
           status: 'error',
@@ -1,5 +1,13 @@
 // @ts-nocheck
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  buildKnowledgeContext,
+  citedSources,
+  embeddingProviderFromEnv,
+  formatSources,
+  retrieveKnowledge,
+} from '../_shared/knowledgeEmbeddings.ts';
+import { createLlmClient, LLM_DEFAULTS, llmProviderFromConfig, loadLlmConfiguration } from '../_shared/llm.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -1261,11 +1269,50 @@ class TypeValidator {
   }
 }
 
+// =============================================
+// LLM CLIENT (provider from llm_configurations)
+// =============================================
+async function createAssistantLlm(userId?: string) {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const llmConfig = await loadLlmConfiguration(supabase);
+  try {
+    return createLlmClient(llmProviderFromConfig(llmConfig, (key) => Deno.env.get(key)), {
+      supabase,
+      userId,
+      functionName: 'ai-trading-assistant',
+      maxTokens: llmConfig.max_tokens ?? LLM_DEFAULTS.MAX_TOKENS,
+    });
+  } catch (error) {
+    console.log(`❌ LLM_PROVIDER_UNAVAILABLE: ${error.message}`);
+    return null;
+  }
+}
+
+const INTENT_SCHEMA = {
+  type: 'object',
+  required: ['isCommand'],
+  properties: {
+    isCommand: { type: 'boolean' },
+    commands: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['action', 'field', 'value'],
+        properties: {
+          action: { type: 'string', enum: ['set', 'enable', 'disable', 'add', 'remove'] },
+          field: { type: 'string' },
+          rawValue: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
 // =============================================
 // ADVANCED INTENT PROCESSOR
 // =============================================
 class IntentProcessor {
-  static async parseIntent(message: string): Promise<{
+  static async parseIntent(message: string, userId?: string): Promise<{
     isCommand: boolean;
     commands?: Array<{
       action: string;
@@ -1275,8 +1322,8 @@ class IntentProcessor {
     }>;
     error?: string;
   }> {
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
+    const llm = await createAssistantLlm(userId);
+    if (!llm) {
       return this.fallbackParse(message);
     }
 
@@ -1323,26 +1370,18 @@ BULK PARSING EXAMPLES:
 If it's just a question, return: {"isCommand": false}`;
 
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
+      const { data: result } = await llm.completeJson(
+        {
           messages: [
             { role: 'system', content: 'You are a precise command parser that excels at BULK MODIFICATIONS. Extract ALL field operations from complex commands. Create separate commands for each coin in multi-coin additions. Always return valid JSON.' },
             { role: 'user', content: prompt }
           ],
           temperature: 0.1,
-          max_tokens: 2000
-        })
-      });
-
-      const data = await response.json();
-      const result = JSON.parse(data.choices[0].message.content);
-      
+          maxTokens: 2000
+        },
+        INTENT_SCHEMA,
+        'strategy_commands',
+      );
       
       return result;
       
@@ -1422,7 +1461,8 @@ class ConfigManager {
     userId: string, 
     strategyId: string, 
     commands: Array<any>, 
-    currentStrategy: any
+    currentStrategy: any,
+    reason?: string
   ): Promise<{ success: boolean; results: Array<any>; errors: string[] }> {
     
     console.log(`🔧 CONFIG_MANAGER: Processing ${commands.length} commands for strategy ${strategyId}`);
@@ -1650,13 +1690,29 @@ class ConfigManager {
       strategyUpdates.state = strategyUpdates.is_active ? 'ACTIVE' : 'PAUSED';
     }
     
-    const { data: updatedStrategy, error: updateError } = await supabase
-      .from('trading_strategies')
-      .update(strategyUpdates)
-      .eq('id', strategyId)
-      .eq('user_id', userId)
-      .select()
-      .single();
+    // Configuration goes through the versioned write (strategy_config_versions,
+    // actor assistant); other columns (is_active, state, ...) are a plain update
+    const { configuration, ...columnUpdates } = strategyUpdates;
+    const changeSummary = results
+      .map((r) => `${r.field}: ${JSON.stringify(r.oldValue)} → ${JSON.stringify(r.newValue)}`)
+      .join(', ');
+
+    let { data: updatedStrategy, error: updateError } = await supabase.rpc('apply_strategy_config_change', {
+      p_strategy_id: strategyId,
+      p_configuration: configuration,
+      p_actor: 'assistant',
+      p_reason: reason ? `${reason} (${changeSummary})` : changeSummary,
+    });
+
+    if (!updateError && Object.keys(columnUpdates).length > 0) {
+      ({ data: updatedStrategy, error: updateError } = await supabase
+        .from('trading_strategies')
+        .update(columnUpdates)
+        .eq('id', strategyId)
+        .eq('user_id', userId)
+        .select()
+        .single());
+    }
 
     if (updateError) {
       console.error('❌ DB_UPDATE_ERROR:', updateError);
@@ -1880,10 +1936,9 @@ What would you like me to configure?`;
     
     console.log('🔮 CRYPTO_EXPERT: Analyzing market query:', message);
     
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      console.log('❌ OPENAI_API_KEY not found, falling back to basic response');
-      return '❌ AI analysis unavailable. OpenAI API key not configured.';
+    const llm = await createAssistantLlm(strategy?.user_id);
+    if (!llm) {
+      return '❌ AI analysis unavailable. No LLM provider configured.';
     }
 
     const lowerMessage = message.toLowerCase();
@@ -1911,6 +1966,9 @@ What would you like me to configure?`;
       strategy?.user_id
     );
     
+    // Knowledge base: the user's collected documents that match the question
+    const knowledge = await ResponseFormatter.collectKnowledgeContext(supabase, strategy?.user_id, message);
+    
     // Prepare ENRICHED market context for OpenAI with full ecosystem data
     const marketContext = {
       userQuestion: message,
@@ -2002,6 +2060,8 @@ CRITICAL: You have access to:
 
 Use this data to provide intelligent, contextual responses that reference specific market activity.
 
+KNOWLEDGE BASE: When the user's knowledge base excerpts are provided, prefer them for background and cite them inline with their number, e.g. "[2]", right after the claim they support. Only cite numbers that appear in the excerpts and never invent sources.
+
 IMPORTANT: Do not give direct financial advice. Use phrases like "might consider", "could be worth monitoring", "appears to suggest", etc.`;
 
     const userPrompt = `User Question: "${message}"
@@ -2035,6 +2095,9 @@ ${JSON.stringify(marketContext.alertHistory, null, 2)}
 ⚡ SIGNIFICANT MARKET EVENTS:
 ${JSON.stringify(marketContext.marketEvents, null, 2)}
 
+📚 KNOWLEDGE BASE EXCERPTS (cite as [n]):
+${knowledge.prompt || 'No matching documents in the user\'s knowledge base.'}
+
 STRATEGY CONTEXT:
 - Mode: ${marketContext.strategyMode}
 - Focus Coins: ${marketContext.analysisCoins.join(', ')}
@@ -2042,28 +2105,18 @@ STRATEGY CONTEXT:
 Please analyze this comprehensive data and provide expert insights that reference specific whale activity, sentiment trends, signal patterns, and market events. Connect the dots between different data sources to give contextual, intelligent advice.`;
 
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 1500
-        })
+      const { content: aiResponse } = await llm.complete({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.7,
+        maxTokens: 1500
       });
-
-      const data = await response.json();
-      const aiResponse = data.choices[0].message.content;
+      const sources = formatSources(citedSources(aiResponse, knowledge.citations));
       
-      console.log('✅ CRYPTO_EXPERT: OpenAI analysis generated using enriched ecosystem data');
-      return `🔮 **Crypto Market Expert Analysis**\n\n${aiResponse}\n\n💡 *This analysis incorporates live whale activity, news sentiment, trading signals, and market events. Always consider your risk tolerance and do your own research.*`;
+      console.log(`✅ CRYPTO_EXPERT: ${llm.provider.kind} analysis generated using enriched ecosystem data`);
+      return `🔮 **Crypto Market Expert Analysis**\n\n${aiResponse}\n\n${sources ? `${sources}\n\n` : ''}💡 *This analysis incorporates live whale activity, news sentiment, trading signals, and market events. Always consider your risk tolerance and do your own research.*`;
       
     } catch (error) {
       console.log(`❌ CRYPTO_EXPERT_ERROR: ${error.message}`);
@@ -2071,6 +2124,25 @@ Please analyze this comprehensive data and provide expert insights that referenc
     }
   }
 
+  // ======================================
+  // KNOWLEDGE BASE RETRIEVAL
+  // ======================================
+  static async collectKnowledgeContext(supabase: any, userId: string | undefined, message: string) {
+    if (!userId) return { prompt: '', citations: [] };
+    
+    try {
+      const provider = embeddingProviderFromEnv((key) => Deno.env.get(key));
+      const matches = await retrieveKnowledge(supabase, provider, { userId, query: message });
+      const knowledge = buildKnowledgeContext(matches);
+      console.log(`📚 KNOWLEDGE: ${matches.length} chunks from ${knowledge.citations.length} documents (${provider.model})`);
+      return knowledge;
+    } catch (error) {
+      // Answer from market data alone rather than failing the request
+      console.log(`⚠️ KNOWLEDGE_RETRIEVAL_FAILED: ${error.message}`);
+      return { prompt: '', citations: [] };
+    }
+  }
+
   // ======================================
   // MARKET INTELLIGENCE COLLECTION
   // ======================================
@@ -2317,7 +2389,7 @@ Deno.serve(async (req) => {
     }
     
     // Parse intent using advanced processor
-    const parsedIntent = await IntentProcessor.parseIntent(message);
+    const parsedIntent = await IntentProcessor.parseIntent(message, userId);
     console.log(`🧠 INTENT_RESULT: ${JSON.stringify(parsedIntent, null, 2)}`);
     
     if (!parsedIntent.isCommand) {
@@ -2391,7 +2463,8 @@ Deno.serve(async (req) => {
       userId, 
       strategy.id, 
       parsedIntent.commands, 
-      strategy
+      strategy,
+      message
     );
     
     if (updateResult.success) {
@@ -9,6 +9,8 @@
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2?target=deno";
 import { decryptPrivateKey } from "../_shared/envelope-encryption.ts";
+import { signWithPrivateKey } from "../_shared/signer.ts";
+import { createTxManager, jsonRpc } from "../_shared/txManager.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,7 +19,7 @@ const corsHeaders = {
 };
 
 const BASE_RPC = "https://mainnet.base.org";
-const CHAIN_ID = 8453n;
+const CHAIN_ID = 8453;
 
 const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
 const OX_EXCHANGE_PROXY = "0xDef1C0ded9bec7F1a1670819833240f027b25EfF";
@@ -44,30 +46,6 @@ function jsonSuccess(data: Record<string, unknown>) {
   });
 }
 
-function hexToBytes(hex: string): Uint8Array {
-  const h = hex.startsWith("0x") ? hex.slice(2) : hex;
-  const out = new Uint8Array(h.length / 2);
-  for (let i = 0; i < out.length; i++) {
-    out[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
-  }
-  return out;
-}
-
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
-}
-
-function concatBytes(arrays: Uint8Array[]): Uint8Array {
-  const total = arrays.reduce((acc, a) => acc + a.length, 0);
-  const out = new Uint8Array(total);
-  let off = 0;
-  for (const a of arrays) {
-    out.set(a, off);
-    off += a.length;
-  }
-  return out;
-}
-
 function base64ToBytes(b64: string): Uint8Array {
   const normalized = b64.trim().replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(b64.length / 4) * 4, "=");
   const bin = atob(normalized);
@@ -76,26 +54,6 @@ function base64ToBytes(b64: string): Uint8Array {
   return out;
 }
 
-async function getNonce(address: string): Promise<bigint> {
-  const res = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_getTransactionCount", params: [address, "pending"] }),
-  });
-  const data = await res.json();
-  return BigInt(data.result);
-}
-
-async function getGasPrice(): Promise<bigint> {
-  const res = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_gasPrice", params: [] }),
-  });
-  const data = await res.json();
-  return BigInt(data.result);
-}
-
 async function getEthBalance(address: string): Promise<bigint> {
   const res = await fetch(BASE_RPC, {
     method: "POST",
@@ -126,112 +84,6 @@ function encodeApprove(spender: string, amount: bigint): string {
   return `${ERC20_APPROVE_SELECTOR}${spenderPadded}${amountHex}`;
 }
 
-function bigintToRlpBytes(n: bigint): Uint8Array {
-  if (n === 0n) return new Uint8Array(0);
-  const hex = n.toString(16);
-  const h = hex.length % 2 ? "0" + hex : hex;
-  return hexToBytes(h);
-}
-
-function encodeBigInt(n: bigint): Uint8Array {
-  if (n === 0n) return new Uint8Array([0x80]);
-  const hex = n.toString(16);
-  const h = hex.length % 2 ? "0" + hex : hex;
-  return hexToBytes(h);
-}
-
-function rlpEncode(items: (Uint8Array | string)[]): Uint8Array {
-  const encoded: Uint8Array[] = [];
-  for (const item of items) {
-    let bytes: Uint8Array;
-    if (typeof item === "string") {
-      bytes = item.startsWith("0x") ? hexToBytes(item.slice(2)) : hexToBytes(item);
-    } else {
-      bytes = item;
-    }
-
-    if (bytes.length === 1 && bytes[0] < 0x80) {
-      encoded.push(bytes);
-    } else if (bytes.length <= 55) {
-      encoded.push(new Uint8Array([0x80 + bytes.length]));
-      encoded.push(bytes);
-    } else {
-      const lenBytes = encodeBigInt(BigInt(bytes.length));
-      encoded.push(new Uint8Array([0xb7 + lenBytes.length]));
-      encoded.push(lenBytes);
-      encoded.push(bytes);
-    }
-  }
-
-  const payload = concatBytes(encoded);
-  if (payload.length <= 55) {
-    return concatBytes([new Uint8Array([0xc0 + payload.length]), payload]);
-  } else {
-    const lenBytes = encodeBigInt(BigInt(payload.length));
-    return concatBytes([new Uint8Array([0xf7 + lenBytes.length]), lenBytes, payload]);
-  }
-}
-
-async function signAndSendTransaction(
-  tx: { nonce: bigint; gasPrice: bigint; gasLimit: bigint; to: string; value: bigint; data: string; chainId: bigint },
-  privateKeyHex: string,
-  keccak_256: (d: Uint8Array) => Uint8Array,
-  secp256k1: { sign: (h: Uint8Array, pk: Uint8Array) => { r: bigint; s: bigint; recovery: number } }
-): Promise<string> {
-  const toBytes = tx.to ? hexToBytes(tx.to.slice(2)) : new Uint8Array(0);
-  const dataBytes = tx.data ? hexToBytes(tx.data.slice(2)) : new Uint8Array(0);
-
-  const unsignedItems = [
-    bigintToRlpBytes(tx.nonce),
-    bigintToRlpBytes(tx.gasPrice),
-    bigintToRlpBytes(tx.gasLimit),
-    toBytes,
-    bigintToRlpBytes(tx.value),
-    dataBytes,
-    bigintToRlpBytes(tx.chainId),
-    new Uint8Array(0),
-    new Uint8Array(0),
-  ];
-
-  const unsignedRlp = rlpEncode(unsignedItems);
-  const txHash = keccak_256(unsignedRlp);
-  const pkBytes = hexToBytes(privateKeyHex);
-  const sig = secp256k1.sign(txHash, pkBytes);
-
-  const v = tx.chainId * 2n + 35n + BigInt(sig.recovery);
-  const secp256k1N = BigInt("0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141");
-  let s = sig.s;
-  if (s > secp256k1N / 2n) s = secp256k1N - s;
-
-  const signedItems = [
-    bigintToRlpBytes(tx.nonce),
-    bigintToRlpBytes(tx.gasPrice),
-    bigintToRlpBytes(tx.gasLimit),
-    toBytes,
-    bigintToRlpBytes(tx.value),
-    dataBytes,
-    bigintToRlpBytes(v),
-    bigintToRlpBytes(sig.r),
-    bigintToRlpBytes(s),
-  ];
-
-  const signedRlp = rlpEncode(signedItems);
-  const rawTx = "0x" + bytesToHex(signedRlp);
-
-  const sendRes = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_sendRawTransaction", params: [rawTx] }),
-  });
-
-  const sendData = await sendRes.json();
-  if (sendData.error) {
-    throw new Error(`RPC error: ${sendData.error.message}`);
-  }
-
-  return sendData.result;
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204, headers: corsHeaders });
@@ -345,24 +197,17 @@ Deno.serve(async (req) => {
 
     logStep("decrypt_ok");
 
-    let keccak_256: (data: Uint8Array) => Uint8Array;
-    let secp256k1: { sign: (hash: Uint8Array, privKey: Uint8Array) => { r: bigint; s: bigint; recovery: number } };
-
-    try {
-      const sha3Module = await import("https://esm.sh/@noble/hashes@1.3.3/sha3");
-      keccak_256 = sha3Module.keccak_256;
-      const curvesModule = await import("https://esm.sh/@noble/curves@1.3.0/secp256k1");
-      secp256k1 = curvesModule.secp256k1;
-    } catch {
-      return jsonError(500, "Failed to load crypto libraries");
-    }
-
-    const nonce = await getNonce(wallet.wallet_address);
-    const gasPrice = await getGasPrice();
+    const txManager = createTxManager({
+      supabase: supabaseAdmin,
+      rpc: jsonRpc(BASE_RPC),
+      chainId: CHAIN_ID,
+      from: wallet.wallet_address,
+    });
+    const fees = await txManager.estimateFees();
     const gasLimit = 100000n;
 
     const ethBalance = await getEthBalance(wallet.wallet_address);
-    const gasCost = gasLimit * gasPrice;
+    const gasCost = gasLimit * fees.maxFeePerGas;
     if (ethBalance < gasCost) {
       return jsonError(422, "Insufficient ETH to pay gas", {
         balance_wei: ethBalance.toString(),
@@ -370,22 +215,17 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Approve USDC directly to 0x Exchange Proxy (bypasses Permit2)
     const approveData = encodeApprove(OX_EXCHANGE_PROXY, MAX_UINT256);
     
-    const tx = {
-      nonce,
-      gasPrice,
-      gasLimit,
-      to: USDC_BASE,
-      value: 0n,
-      data: approveData,
-      chainId: CHAIN_ID,
-    };
-
     logStep("tx_build", { to: USDC_BASE, spender: OX_EXCHANGE_PROXY });
 
-    const txHash = await signAndSendTransaction(tx, privateKey, keccak_256, secp256k1);
+    const sent = await txManager.send(
+      { to: USDC_BASE, value: 0n, data: approveData, gas: gasLimit },
+      (tx) => signWithPrivateKey(privateKey, tx),
+      { kind: "approval", signerKind: "execution_wallet", walletId: wallet.id, userId },
+    );
+    if (!sent.ok) return jsonError(500, `RPC error: ${sent.error}`, { stage: sent.stage });
+    const txHash = sent.txHash;
     logStep("tx_sent", { tx_hash: txHash });
 
     return jsonSuccess({
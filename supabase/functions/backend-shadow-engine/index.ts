@@ -22,6 +22,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { fetchOpenLotsAuthoritative } from "../_shared/openLots.ts";
+import {
+  computeMlFeatures,
+  createStorageModelLoader,
+  ML_INFERENCE_DEFAULTS,
+  type MlCandle,
+  type ModelLoader,
+  predictBundle,
+} from "../_shared/mlInference.ts";
+import {
+  fetchActiveModels,
+  MODEL_REGISTRY_DEFAULTS,
+  type MlModelRow,
+  type ModelScore,
+  type RegistryScoring,
+  scoreRegisteredModels,
+} from "../_shared/modelRegistry.ts";
 
 // ============= ENGINE MODE CONFIGURATION =============
 // Read from environment, default to 'SHADOW' for safety
@@ -30,9 +46,15 @@ const RAW_ENGINE_MODE = Deno.env.get('BACKEND_ENGINE_MODE');
 const BACKEND_ENGINE_MODE: EngineMode = 
   (RAW_ENGINE_MODE as EngineMode) || 'SHADOW';
 
-// ============= SHADOW ML (Railway /predict service) =============
+// ============= SHADOW ML (in-process models, Railway /predict fallback) =============
 const SHADOW_ML_ENABLED = (Deno.env.get('SHADOW_ML_ENABLED') ?? 'true') === 'true';
+// 'local' scores the bundle from storage (_shared/mlInference.ts); 'remote' only calls ML_SERVICE_URL
+const ML_INFERENCE_MODE = (Deno.env.get('ML_INFERENCE_MODE') ?? 'local') === 'remote' ? 'remote' : 'local';
+const ML_REMOTE_FALLBACK = (Deno.env.get('ML_REMOTE_FALLBACK') ?? 'true') === 'true';
+const ML_MODEL_BUCKET = Deno.env.get('ML_MODEL_BUCKET') ?? ML_INFERENCE_DEFAULTS.BUCKET;
+const ML_MODEL_PATH = Deno.env.get('ML_MODEL_PATH') ?? ML_INFERENCE_DEFAULTS.MODEL_PATH;
 const ML_SERVICE_URL = (Deno.env.get('ML_SERVICE_URL') ?? 'https://savvy-crypto-ml-production.up.railway.app').replace(/\/+$/, '');
+// Only gates entries while no champion is registered in ml_models (see _shared/modelRegistry.ts)
 const ML_SIGNAL_THRESHOLD = Number(Deno.env.get('ML_SIGNAL_THRESHOLD') ?? '0.94');
 
 // ============= WHALE GUARD CONFIG =============
@@ -189,6 +211,7 @@ interface MlPredictResponse {
   xgb_prob?: number | null;
   lstm_prob?: number | null;
   signal?: string | null;
+  model_version?: string | null;
 }
 
 interface EdaShadowResult {
@@ -200,8 +223,53 @@ interface EdaShadowResult {
   xgb_prob: number | null;
   lstm_prob: number | null;
   signal: string | null;
+  /** Bundle version (local) or the service's reported version (remote) */
+  model_version: string | null;
+  inference_source: 'local' | 'remote' | null;
+  /** Gating threshold: the champion's, else ML_SIGNAL_THRESHOLD */
+  signal_threshold: number;
+  /** Registry model that produced ensemble_prob (null = legacy bundle or remote) */
+  champion_model_id: string | null;
+  /** Every active registry model scored on the same features */
+  models?: ModelScore[];
   closes?: number[];
   error?: string;
+  /** Why local inference was skipped when the remote service answered */
+  local_error?: string;
+}
+
+// Kept across requests on a warm instance so the bundle is not re-downloaded per symbol
+let mlModelLoader: ModelLoader | null = null;
+const registryModelLoaders = new Map<string, ModelLoader>();
+let registryCache: { models: MlModelRow[]; fetchedAt: number } | null = null;
+
+/**
+ * Scores every active ml_models entry. Returns null when the registry is empty
+ * or unreadable so the legacy ML_MODEL_PATH bundle keeps working.
+ */
+async function scoreModelRegistry(supabaseClient: any, features: ReturnType<typeof computeMlFeatures>): Promise<RegistryScoring | null> {
+  if (!registryCache || Date.now() - registryCache.fetchedAt > MODEL_REGISTRY_DEFAULTS.REGISTRY_TTL_MS) {
+    try {
+      registryCache = { models: await fetchActiveModels(supabaseClient), fetchedAt: Date.now() };
+    } catch (err: any) {
+      console.warn(`[ml_registry] load failed: ${err?.message || 'unknown'}`);
+      return null;
+    }
+  }
+  if (registryCache.models.length === 0) return null;
+
+  return await scoreRegisteredModels(
+    registryCache.models,
+    (storagePath) => {
+      let loader = registryModelLoaders.get(storagePath);
+      if (!loader) {
+        loader = createStorageModelLoader(supabaseClient, { bucket: ML_MODEL_BUCKET, path: storagePath });
+        registryModelLoaders.set(storagePath, loader);
+      }
+      return loader;
+    },
+    features,
+  );
 }
 
 interface TrendSignalResult {
@@ -223,8 +291,9 @@ interface TrendSignalResult {
 }
 
 /**
- * Fetch the latest 400 candles and delegate ml_shadow scoring to the Railway ML service.
- * Pure observation — never blocks trades.
+ * Fetch the latest 400 candles and score ml_shadow with the in-process model
+ * bundle, falling back to the Railway ML service when the bundle is missing or
+ * fails (unless ML_REMOTE_FALLBACK=false). Pure observation — never blocks trades.
  */
 async function computeEdaShadow(
   supabaseClient: any,
@@ -239,6 +308,10 @@ async function computeEdaShadow(
     xgb_prob: null,
     lstm_prob: null,
     signal: null,
+    model_version: null,
+    inference_source: null,
+    signal_threshold: ML_SIGNAL_THRESHOLD,
+    champion_model_id: null,
   };
 
   try {
@@ -260,10 +333,88 @@ async function computeEdaShadow(
       return { ...fallback, error: `insufficient candles (${candleCount}/400)` };
     }
 
-    const closesChrono = [...candles].reverse().map((c: any) => Number(c.close));
+    const chrono = [...candles].reverse();
+    const closesChrono = chrono.map((c: any) => Number(c.close));
+
+    let localError: string | undefined;
+    if (ML_INFERENCE_MODE === 'local') {
+      try {
+        const mlCandles: MlCandle[] = chrono.map((c: any) => ({
+          open: Number(c.open),
+          high: Number(c.high),
+          low: Number(c.low),
+          close: Number(c.close),
+          volume: c.volume != null ? Number(c.volume) : 0,
+        }));
+        const features = computeMlFeatures(mlCandles);
+        const registry = await scoreModelRegistry(supabaseClient, features);
+        const registryFields = registry
+          ? { champion_model_id: registry.champion?.model_id ?? null, models: registry.scores }
+          : { champion_model_id: null };
+
+        if (registry?.champion) {
+          // Champion gates entries with its own threshold
+          const champion = registry.champion;
+          const signal = champion.would_enter ? 'BUY' : 'HOLD';
+          console.log(
+            `[ml_shadow] ${symbol}: champion=${champion.name}@${champion.version} ` +
+            `ensemble_prob=${champion.prob!.toFixed(4)} threshold=${champion.threshold} signal=${signal} ` +
+            `models=${registry.scores.map((m) => `${m.name}@${m.version}:${m.prob?.toFixed(4) ?? 'error'}`).join(',')}`
+          );
+          return {
+            stoch_k: features.stoch_k,
+            rsi14: features.rsi14,
+            eda_signal: champion.would_enter,
+            would_filter: !champion.would_enter,
+            ensemble_prob: champion.prob,
+            xgb_prob: champion.xgb_prob,
+            lstm_prob: null,
+            signal,
+            model_version: champion.version,
+            inference_source: 'local',
+            signal_threshold: champion.threshold,
+            ...registryFields,
+            closes: closesChrono,
+          };
+        }
+
+        mlModelLoader ??= createStorageModelLoader(supabaseClient, { bucket: ML_MODEL_BUCKET, path: ML_MODEL_PATH });
+        const prediction = predictBundle(await mlModelLoader.load(), features);
+        const local: EdaShadowResult = {
+          stoch_k: features.stoch_k,
+          rsi14: features.rsi14,
+          eda_signal: prediction.signal === 'BUY',
+          would_filter: prediction.signal !== 'BUY',
+          ensemble_prob: prediction.ensemble_prob,
+          xgb_prob: prediction.xgb_prob,
+          lstm_prob: null,
+          signal: prediction.signal,
+          model_version: prediction.model_version,
+          inference_source: 'local',
+          signal_threshold: ML_SIGNAL_THRESHOLD,
+          ...registryFields,
+          closes: closesChrono,
+        };
+        console.log(
+          `[ml_shadow] ${symbol}: local model=${prediction.model_version} ` +
+          `ensemble_prob=${prediction.ensemble_prob.toFixed(4)} ` +
+          `xgb_prob=${prediction.xgb_prob?.toFixed(4) ?? 'null'} signal=${prediction.signal}` +
+          (prediction.missing_features.length > 0 ? ` missing=${prediction.missing_features.join(',')}` : '') +
+          (registry ? ` registry_models=${registry.scores.length} (no champion)` : '')
+        );
+        return local;
+      } catch (err: any) {
+        localError = err?.message || 'unknown';
+        console.warn(`[ml_shadow] ${symbol}: local inference failed: ${localError}`);
+        if (!ML_REMOTE_FALLBACK) {
+          return { ...fallback, error: `local inference failed: ${localError}` };
+        }
+      }
+    }
+
     const payload = {
       symbol,
-      candles: [...candles].reverse().map((c: any) => ({
+      candles: chrono.map((c: any) => ({
         candle_time: c.ts_utc,
         open_price: Number(c.open),
         high_price: Number(c.high),
@@ -307,7 +458,12 @@ async function computeEdaShadow(
       xgb_prob: result.xgb_prob != null ? Number(result.xgb_prob) : null,
       lstm_prob: result.lstm_prob != null ? Number(result.lstm_prob) : null,
       signal: result.signal != null ? String(result.signal) : null,
+      model_version: result.model_version != null ? String(result.model_version) : null,
+      inference_source: 'remote',
+      signal_threshold: ML_SIGNAL_THRESHOLD,
+      champion_model_id: null,
       closes: closesChrono,
+      ...(localError ? { local_error: localError } : {}),
     };
 
     console.log(
@@ -480,6 +636,7 @@ async function mergeMlShadowIntoSnapshot(
       const mergedContext = {
         ...existingContext,
         ml_shadow: mlShadow,
+        ml_model_version: mlShadow.model_version ?? null,
       };
 
       // Step 3: Write back
@@ -1368,8 +1525,9 @@ serve(async (req) => {
             // Every BUY lot is sold independently with its own original_trade_id and own P&L.
             // SHADOW: emit single aggregated WOULD_SELL log (no execution, no nonce risk).
             // LIVE: loop lots sequentially. Each call to coordinator awaits the previous one,
-            //       so eth_sendRawTransaction is serialized. Combined with signer.ts using the
-            //       'pending' nonce tag, this prevents nonce collisions (B6).
+            //       so eth_sendRawTransaction is serialized. Nonces themselves are reserved
+            //       per address by _shared/txManager.ts, so this no longer carries the
+            //       nonce-collision guarantee on its own (B6).
             const lotsForFanOut: OpenLotRef[] = (position.openLots || []).slice();
 
             // Pre-fetch in-flight SELLs for this position's lots (single batched query) to
@@ -1668,6 +1826,8 @@ serve(async (req) => {
           if (SHADOW_ML_ENABLED) {
             mlShadow = await computeEdaShadow(supabaseClient, symbol);
           }
+          // Champion threshold when the registry has one, else ML_SIGNAL_THRESHOLD
+          const mlSignalThreshold = mlShadow?.signal_threshold ?? ML_SIGNAL_THRESHOLD;
 
           const backendRequestId = crypto.randomUUID();
           const timestamp = Date.now();
@@ -1692,22 +1852,22 @@ serve(async (req) => {
             mlShadowEnriched = {
               ...mlShadow,
               closes: undefined,
-              ml_signal_threshold: ML_SIGNAL_THRESHOLD,
+              ml_signal_threshold: mlSignalThreshold,
               whale_shadow: whaleShadowMeta,
             };
           }
 
-          // ML decision: ensemble_prob >= ML_SIGNAL_THRESHOLD → BUY, else → HOLD
-          // Ignores the boolean signal field from Railway — uses probability threshold only
-          // If ML service is down (error/fallback) → fall through to coordinator as safety net
+          // ML decision: ensemble_prob >= mlSignalThreshold → BUY, else → HOLD
+          // Ignores the boolean signal field (local bundle or Railway) — uses probability threshold only
+          // If ML inference fails (no bundle and no service) → fall through to coordinator as safety net
           if (mlShadow && !mlShadow.error && whaleCheck) {
             const ensembleProb = mlShadow.ensemble_prob ?? 0;
-            const mlSignalBuy = ensembleProb >= ML_SIGNAL_THRESHOLD;
+            const mlSignalBuy = ensembleProb >= mlSignalThreshold;
 
             if (mlSignalBuy) {
               // ===== ML SIGNAL BUY: bypass coordinator entirely =====
               console.log(
-                `[ML_FILTER] ${symbol}: ensemble_prob=${ensembleProb.toFixed(4)} >= ${ML_SIGNAL_THRESHOLD} → BUY`
+                `[ML_FILTER] ${symbol}: ensemble_prob=${ensembleProb.toFixed(4)} >= ${mlSignalThreshold} → BUY`
               );
 
               if (whaleCheck.would_block) {
@@ -1953,7 +2113,7 @@ serve(async (req) => {
               // mlShadowEnriched (hoisted) used below — preserves closes:undefined to keep snapshot small
 
               console.log(
-                `[ML_FILTER] ${symbol}: ensemble_prob=${ensembleProb.toFixed(4)} < ${ML_SIGNAL_THRESHOLD} → blocked`
+                `[ML_FILTER] ${symbol}: ensemble_prob=${ensembleProb.toFixed(4)} < ${mlSignalThreshold} → blocked`
               );
               console.log(
                 `[TREND_SIGNAL] ${symbol}: observation only — triggered=${trend.triggered} failed=(${trend.failed_conditions.join(', ')})`
@@ -1999,7 +2159,7 @@ serve(async (req) => {
                       context: effectiveShadowMode ? 'BACKEND_SHADOW' : 'BACKEND_LIVE',
                       is_test_mode: strategyIsTestMode,
                       backend_request_id: backendRequestId,
-                      ml_signal_threshold: ML_SIGNAL_THRESHOLD,
+                      ml_signal_threshold: mlSignalThreshold,
                     },
                   })
                   .select('id')
@@ -2033,7 +2193,8 @@ serve(async (req) => {
                     market_context_json: {
                       entry_price: currentPrice,
                       ml_shadow: mlShadowEnriched,
-                      ml_signal_threshold: ML_SIGNAL_THRESHOLD,
+                      ml_signal_threshold: mlSignalThreshold,
+                      ml_model_version: mlShadow.model_version,
                       ensemble_prob: ensembleProb,
                       trend_signal: trendSignalMetaHold,
                     },
@@ -2077,7 +2238,7 @@ serve(async (req) => {
 
           // ===== FALLBACK: ML service down or disabled — use coordinator as safety net =====
           if (mlShadow?.error) {
-            console.warn(`[ML_FILTER] ${symbol}: ML service error (${mlShadow.error}), falling through to coordinator`);
+            console.warn(`[ML_FILTER] ${symbol}: ML inference error (${mlShadow.error}), falling through to coordinator`);
           }
 
           const intent = {
@@ -2100,8 +2261,8 @@ serve(async (req) => {
               origin: effectiveShadowMode ? 'BACKEND_SHADOW' : 'BACKEND_LIVE',
               eurAmount: tradeAllocation,
               horizon: config.decisionCadence || '1h',
-              ...(mlShadowEnriched ? { ml_shadow: mlShadowEnriched } : (mlShadow ? { ml_shadow: { ...mlShadow, closes: undefined, ml_signal_threshold: ML_SIGNAL_THRESHOLD } } : {})),
-              ml_signal_threshold: ML_SIGNAL_THRESHOLD,
+              ...(mlShadowEnriched ? { ml_shadow: mlShadowEnriched } : (mlShadow ? { ml_shadow: { ...mlShadow, closes: undefined, ml_signal_threshold: mlSignalThreshold } } : {})),
+              ml_signal_threshold: mlSignalThreshold,
             },
             ts: new Date().toISOString(),
             idempotencyKey,
@@ -2186,8 +2347,8 @@ serve(async (req) => {
               intent_side: 'BUY',
               snapshot_type: 'ENTRY',
               snapshot_source: 'coordinator',
-              ...(mlShadowEnriched ? { ml_shadow: mlShadowEnriched } : (mlShadow ? { ml_shadow: { ...mlShadow, closes: undefined, ml_signal_threshold: ML_SIGNAL_THRESHOLD } } : {})),
-              ml_signal_threshold: ML_SIGNAL_THRESHOLD,
+              ...(mlShadowEnriched ? { ml_shadow: mlShadowEnriched } : (mlShadow ? { ml_shadow: { ...mlShadow, closes: undefined, ml_signal_threshold: mlSignalThreshold } } : {})),
+              ml_signal_threshold: mlSignalThreshold,
             }
           });
 
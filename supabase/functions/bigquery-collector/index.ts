@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSignalUserId, runSignalSource, type SignalSource } from "../_shared/signalSource.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -35,7 +36,7 @@ serve(async (req) => {
     }
 
     // Use actual values or defaults
-    const actualUserId = userId || dataSource.user_id;
+    const actualUserId = await resolveSignalUserId(supabaseClient, [userId, dataSource.user_id]);
     const actualSourceId = sourceId || dataSource.id;
     const defaultSymbols = ['BTC-USD', 'ETH-USD', 'SOL-USD'];
     const actualSymbols = symbols || defaultSymbols;
@@ -150,134 +151,17 @@ async function fetchHistoricalData(supabaseClient: any, credentials: any, params
   console.log(`📈 Fetching BigQuery historical data for symbols: ${symbols?.join(', ')}`);
   
   try {
-    // For this demo, we'll use BigQuery's public crypto dataset
-    // You can replace this with your actual dataset
-    const query = `
-      SELECT 
-        symbol,
-        timestamp,
-        open,
-        high,
-        low,
-        close,
-        volume
-      FROM \`bigquery-public-data.crypto_bitcoin.transactions\`
-      WHERE DATE(timestamp) BETWEEN '${startDate}' AND '${endDate}'
-      AND symbol IN (${symbols.map((s: string) => `'${s.split('-')[0]}'`).join(',')})
-      ORDER BY timestamp DESC
-      LIMIT 1000
-    `;
-    
-    // Execute actual BigQuery query
-    let realDataInserted = 0;
-    
-    try {
-      const accessToken = await getAccessToken(credentials);
-      
-      const queryResponse = await fetch(`https://bigquery.googleapis.com/bigquery/v2/projects/${projectId}/queries`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          query,
-          useLegacySql: false,
-          maxResults: 1000
-        })
-      });
-      
-      if (queryResponse.ok) {
-        const queryResult = await queryResponse.json();
-        if (queryResult.rows && queryResult.rows.length > 0) {
-          console.log(`✅ Got ${queryResult.rows.length} real records from BigQuery`);
-          
-          const realData = queryResult.rows.map((row: any) => ({
-            source_id: sourceId,
-            user_id: userId,
-            timestamp: row.f[1].v,
-            symbol: row.f[0].v,
-            price: parseFloat(row.f[6].v || '0'),
-            volume: parseFloat(row.f[7].v || '0'),
-            source: 'bigquery',
-            metadata: {
-              collection_time: new Date().toISOString(),
-              query_executed: true,
-              open: parseFloat(row.f[2].v || '0'),
-              high: parseFloat(row.f[3].v || '0'),
-              low: parseFloat(row.f[4].v || '0'),
-              close: parseFloat(row.f[5].v || '0')
-            }
-          }));
-          
-          const { error: realError } = await supabaseClient
-            .from('historical_market_data')
-            .insert(realData);
-          
-          if (!realError) {
-            realDataInserted = realData.length;
-            console.log(`✅ Inserted ${realDataInserted} real BigQuery records`);
-          }
-        }
-      } else {
-        const error = await queryResponse.text();
-        console.error('❌ BigQuery API failed:', error);
-      }
-    } catch (error) {
-      console.error('❌ BigQuery execution failed:', error);
-    }
-    
-    // Generate mock data as fallback
-    const mockHistoricalData = symbols.map((symbol: string) => {
-      const basePrice = Math.random() * 50000 + 10000;
-      const daysInRange = Math.floor((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24));
-      
-      return Array.from({ length: Math.min(daysInRange, 100) }, (_, i) => {
-        const date = new Date(startDate);
-        date.setDate(date.getDate() + i);
-        
-        return {
-          source_id: sourceId,
-          user_id: userId,
-          timestamp: date.toISOString(),
-          symbol: symbol,
-          price: basePrice * (1 + (Math.random() - 0.5) * 0.1),
-          volume: Math.floor(Math.random() * 1000000),
-          exchange: 'BIGQUERY_AGGREGATED',
-          market_cap: basePrice * 21000000,
-          source: 'bigquery',
-          metadata: {
-            data_quality: 'high',
-            dataset: 'bigquery-public-data.crypto_bitcoin',
-            query_executed: true,
-            collection_date: new Date().toISOString(),
-            project_id: projectId
-          }
-        };
-      });
-    }).flat();
-
-    // Insert historical data (using insert instead of upsert due to lack of unique constraint)
-    const { data, error } = await supabaseClient
-      .from('historical_market_data')
-      .insert(mockHistoricalData);
-
-    if (error) {
-      console.error('❌ Error inserting historical data:', error);
-      throw error;
-    }
-
-    // Update last_sync timestamp for the data source
-    await supabaseClient
-      .from('ai_data_sources')
-      .update({ last_sync: new Date().toISOString() })
-      .eq('id', sourceId);
+    const run = await runSignalSource(
+      supabaseClient,
+      bigQuerySource(() => loadHistoricalData(supabaseClient, credentials, params)),
+      { userId, sourceId, now: new Date() },
+    );
 
-    console.log(`✅ Successfully inserted ${mockHistoricalData.length} historical records from BigQuery`);
+    console.log(`✅ Successfully inserted ${run.fetched} historical records from BigQuery`);
     
     return new Response(JSON.stringify({ 
       success: true, 
-      recordsInserted: mockHistoricalData.length,
+      recordsInserted: run.fetched,
       message: 'BigQuery historical data synced successfully',
       query_info: {
         project_id: projectId,
@@ -294,68 +178,145 @@ async function fetchHistoricalData(supabaseClient: any, credentials: any, params
   }
 }
 
-async function syncDailyData(supabaseClient: any, credentials: any, params: any) {
-  const { symbols, userId, sourceId, projectId } = params;
+async function loadHistoricalData(supabaseClient: any, credentials: any, params: any): Promise<any[]> {
+  const { symbols, startDate, endDate, userId, sourceId, projectId } = params;
+  // For this demo, we'll use BigQuery's public crypto dataset
+  // You can replace this with your actual dataset
+  const query = `
+    SELECT 
+      symbol,
+      timestamp,
+      open,
+      high,
+      low,
+      close,
+      volume
+    FROM \`bigquery-public-data.crypto_bitcoin.transactions\`
+    WHERE DATE(timestamp) BETWEEN '${startDate}' AND '${endDate}'
+    AND symbol IN (${symbols.map((s: string) => `'${s.split('-')[0]}'`).join(',')})
+    ORDER BY timestamp DESC
+    LIMIT 1000
+  `;
   
-  console.log(`📅 Syncing daily BigQuery data for symbols: ${symbols?.join(', ')}`);
+  // Execute actual BigQuery query
+  let realDataInserted = 0;
   
   try {
-    // Query for latest daily data
-    const query = `
-      SELECT 
-        symbol,
-        DATE(timestamp) as date,
-        AVG(open) as avg_open,
-        MAX(high) as high,
-        MIN(low) as low,
-        AVG(close) as avg_close,
-        SUM(volume) as total_volume
-      FROM \`bigquery-public-data.crypto_bitcoin.transactions\`
-      WHERE DATE(timestamp) = CURRENT_DATE()
-      AND symbol IN (${symbols.map((s: string) => `'${s.split('-')[0]}'`).join(',')})
-      GROUP BY symbol, DATE(timestamp)
-    `;
+    const accessToken = await getAccessToken(credentials);
     
-    // Generate sample daily data
-    const dailyData = symbols.map((symbol: string) => ({
-      source_id: sourceId,
-      user_id: userId,
-      timestamp: new Date().toISOString(),
-      symbol: symbol,
-      price: Math.random() * 50000 + 10000,
-      volume: Math.floor(Math.random() * 1000000),
-      exchange: 'BIGQUERY_DAILY_AGG',
-      market_cap: (Math.random() * 50000 + 10000) * 21000000,
-      source: 'bigquery',
-      metadata: {
-        data_quality: 'high',
-        aggregation_type: 'daily',
-        dataset: 'bigquery-public-data.crypto_bitcoin',
-        sync_date: new Date().toISOString(),
-        project_id: projectId
+    const queryResponse = await fetch(`https://bigquery.googleapis.com/bigquery/v2/projects/${projectId}/queries`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        query,
+        useLegacySql: false,
+        maxResults: 1000
+      })
+    });
+    
+    if (queryResponse.ok) {
+      const queryResult = await queryResponse.json();
+      if (queryResult.rows && queryResult.rows.length > 0) {
+        console.log(`✅ Got ${queryResult.rows.length} real records from BigQuery`);
+        
+        const realData = queryResult.rows.map((row: any) => ({
+          source_id: sourceId,
+          user_id: userId,
+          timestamp: row.f[1].v,
+          symbol: row.f[0].v,
+          price: parseFloat(row.f[6].v || '0'),
+          volume: parseFloat(row.f[7].v || '0'),
+          source: 'bigquery',
+          metadata: {
+            collection_time: new Date().toISOString(),
+            query_executed: true,
+            open: parseFloat(row.f[2].v || '0'),
+            high: parseFloat(row.f[3].v || '0'),
+            low: parseFloat(row.f[4].v || '0'),
+            close: parseFloat(row.f[5].v || '0')
+          }
+        }));
+        
+        const { error: realError } = await supabaseClient
+          .from('historical_market_data')
+          .insert(realData);
+        
+        if (!realError) {
+          realDataInserted = realData.length;
+          console.log(`✅ Inserted ${realDataInserted} real BigQuery records`);
+        }
       }
-    }));
+    } else {
+      const error = await queryResponse.text();
+      console.error('❌ BigQuery API failed:', error);
+    }
+  } catch (error) {
+    console.error('❌ BigQuery execution failed:', error);
+  }
+  
+  // Generate mock data as fallback
+  const mockHistoricalData = symbols.map((symbol: string) => {
+    const basePrice = Math.random() * 50000 + 10000;
+    const daysInRange = Math.floor((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24));
+    
+    return Array.from({ length: Math.min(daysInRange, 100) }, (_, i) => {
+      const date = new Date(startDate);
+      date.setDate(date.getDate() + i);
+      
+      return {
+        source_id: sourceId,
+        user_id: userId,
+        timestamp: date.toISOString(),
+        symbol: symbol,
+        price: basePrice * (1 + (Math.random() - 0.5) * 0.1),
+        volume: Math.floor(Math.random() * 1000000),
+        exchange: 'BIGQUERY_AGGREGATED',
+        market_cap: basePrice * 21000000,
+        source: 'bigquery',
+        metadata: {
+          data_quality: 'high',
+          dataset: 'bigquery-public-data.crypto_bitcoin',
+          query_executed: true,
+          collection_date: new Date().toISOString(),
+          project_id: projectId
+        }
+      };
+    });
+  }).flat();
 
-    const { data, error } = await supabaseClient
-      .from('historical_market_data')
-      .insert(dailyData);
+  // Insert historical data (using insert instead of upsert due to lack of unique constraint)
+  const { data, error } = await supabaseClient
+    .from('historical_market_data')
+    .insert(mockHistoricalData);
 
-    if (error) {
-      console.error('❌ Error syncing daily data:', error);
-      throw error;
-    }
+  if (error) {
+    console.error('❌ Error inserting historical data:', error);
+    throw error;
+  }
 
-    // Update last_sync timestamp for the data source
-    await supabaseClient
-      .from('ai_data_sources')
-      .update({ last_sync: new Date().toISOString() })
-      .eq('id', sourceId);
+  return mockHistoricalData;
+}
 
-    console.log(`✅ Successfully synced ${dailyData.length} daily records from BigQuery`);
-    
-    return new Response(JSON.stringify({ 
-      success: true, 
-      recordsInserted: dailyData.length,
+async function syncDailyData(supabaseClient: any, credentials: any, params: any) {
+  const { symbols, userId, sourceId, projectId } = params;
+
+  console.log(`📅 Syncing daily BigQuery data for symbols: ${symbols?.join(', ')}`);
+
+  try {
+    const run = await runSignalSource(
+      supabaseClient,
+      bigQuerySource(() => loadDailyData(supabaseClient, params)),
+      { userId, sourceId, now: new Date() },
+    );
+
+    console.log(`✅ Successfully synced ${run.fetched} daily records from BigQuery`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      recordsInserted: run.fetched,
       message: 'BigQuery daily data synced successfully',
       sync_info: {
         project_id: projectId,
@@ -365,9 +326,73 @@ async function syncDailyData(supabaseClient: any, credentials: any, params: any)
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
-    
+
   } catch (error) {
     console.error('❌ BigQuery daily sync error:', error);
     throw new Error(`BigQuery daily sync failed: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+async function loadDailyData(supabaseClient: any, params: any): Promise<any[]> {
+  const { symbols, userId, sourceId, projectId } = params;
+
+  // Query for latest daily data
+  const query = `
+    SELECT
+      symbol,
+      DATE(timestamp) as date,
+      AVG(open) as avg_open,
+      MAX(high) as high,
+      MIN(low) as low,
+      AVG(close) as avg_close,
+      SUM(volume) as total_volume
+    FROM \`bigquery-public-data.crypto_bitcoin.transactions\`
+    WHERE DATE(timestamp) = CURRENT_DATE()
+    AND symbol IN (${symbols.map((s: string) => `'${s.split('-')[0]}'`).join(',')})
+    GROUP BY symbol, DATE(timestamp)
+  `;
+
+  // Generate sample daily data
+  const dailyData = symbols.map((symbol: string) => ({
+    source_id: sourceId,
+    user_id: userId,
+    timestamp: new Date().toISOString(),
+    symbol: symbol,
+    price: Math.random() * 50000 + 10000,
+    volume: Math.floor(Math.random() * 1000000),
+    exchange: 'BIGQUERY_DAILY_AGG',
+    market_cap: (Math.random() * 50000 + 10000) * 21000000,
+    source: 'bigquery',
+    metadata: {
+      data_quality: 'high',
+      aggregation_type: 'daily',
+      dataset: 'bigquery-public-data.crypto_bitcoin',
+      sync_date: new Date().toISOString(),
+      project_id: projectId
+    }
+  }));
+
+  const { data, error } = await supabaseClient
+    .from('historical_market_data')
+    .insert(dailyData);
+
+  if (error) {
+    console.error('❌ Error syncing daily data:', error);
+    throw error;
+  }
+
+  return dailyData;
+}
+
+// SignalSource plug-in: BigQuery feeds historical_market_data only, so it
+// drafts no live_signals; running it through the runner still records the
+// heartbeat signal-ingestion-health grades ('idle' while it keeps syncing).
+function bigQuerySource(load: () => Promise<any[]>): SignalSource<any> {
+  return {
+    name: 'bigquery',
+    expectedIntervalSeconds: 86400,
+    symbolFormat: 'pair',
+    fetch: load,
+    normalize: () => [],
+  };
+}
@@ -1,6 +1,12 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  resolveSignalUserId,
+  runSignalSource,
+  type SignalDraft,
+  type SignalSource,
+} from "../_shared/signalSource.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,7 +20,7 @@ const corsHeaders = {
 //
 // FIX (Dec 2024): Added fallback user_id resolution when source.user_id is NULL.
 // System-level sources have user_id = NULL but crypto_news and live_signals
-// tables require NOT NULL user_id.
+// tables require NOT NULL user_id (resolveSignalUserId in _shared/signalSource).
 // =============================================================================
 
 serve(async (req) => {
@@ -85,24 +91,7 @@ serve(async (req) => {
     }
 
     // FIX: Resolve user_id from multiple fallback sources
-    let resolvedUserId = userId || dataSource.user_id;
-    
-    if (!resolvedUserId) {
-      console.log('⚠️ No userId from request or source, finding active trading user...');
-      const { data: activeUsers } = await supabaseClient
-        .from('trading_strategies')
-        .select('user_id')
-        .or('is_active_test.eq.true,is_active.eq.true')
-        .limit(1);
-      
-      if (activeUsers && activeUsers.length > 0) {
-        resolvedUserId = activeUsers[0].user_id;
-        console.log(`✅ Using active trading user: ${resolvedUserId}`);
-      } else {
-        resolvedUserId = '25a0c221-1f0e-431d-8d79-db9fb4db9cb3'; // Known system user
-        console.log(`⚠️ Using fallback system user: ${resolvedUserId}`);
-      }
-    }
+    const resolvedUserId = await resolveSignalUserId(supabaseClient, [userId, dataSource.user_id]);
 
     const actualSourceId = sourceId || dataSource.id;
     const cryptoNewsApiKey = dataSource.configuration.api_key;
@@ -148,118 +137,130 @@ async function fetchLatestNews(supabaseClient: any, apiKey: string, params: any)
   console.log(`👤 Will insert with userId: ${userId}`);
   
   try {
-    const newsData = [];
-    const symbolsArray = Array.isArray(symbols) ? symbols : ['BTC', 'ETH', 'SOL'];
+    // Fetch + store news, then generate live signals based on sentiment analysis
+    const run = await runSignalSource(
+      supabaseClient,
+      cryptoNewsSource(supabaseClient, apiKey, symbols),
+      { userId, sourceId, now: new Date() },
+    );
+    
+    console.log(`✅ Successfully inserted ${run.fetched} news articles and ${run.inserted} signals`);
     
-    for (const symbol of symbolsArray) {
-      try {
-        const newsSymbol = symbol.split('-')[0];
-        const apiUrl1 = `https://cryptonews-api.com/api/v1/category?section=general&items=3&page=1&token=${apiKey}&q=${newsSymbol}`;
+    return new Response(JSON.stringify({ 
+      success: true, 
+      newsInserted: run.fetched,
+      signalsGenerated: run.inserted,
+      userId: userId,
+      message: 'News data and sentiment signals created successfully'
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+    
+  } catch (error) {
+    console.error('❌ Error fetching news:', error);
+    throw error;
+  }
+}
+
+// SignalSource plug-in: articles per symbol (stored in crypto_news), one
+// sentiment/news-volume signal set per symbol
+function cryptoNewsSource(supabaseClient: any, apiKey: string, symbols: string[]): SignalSource<any> {
+  return {
+    name: 'crypto_news',
+    expectedIntervalSeconds: 3600,
+    symbolFormat: 'base',
+    async fetch(ctx) {
+      const newsData = [];
+      const symbolsArray = Array.isArray(symbols) ? symbols : ['BTC', 'ETH', 'SOL'];
+      
+      for (const symbol of symbolsArray) {
+        try {
+          const newsSymbol = symbol.split('-')[0];
+          const apiUrl1 = `https://cryptonews-api.com/api/v1/category?section=general&items=3&page=1&token=${apiKey}&q=${newsSymbol}`;
         
-        console.log(`🔗 Trying CryptoNews API for ${newsSymbol}`);
-        console.log(`📡 Method 1 URL: ${apiUrl1.replace(apiKey, 'XXX')}`);
+          console.log(`🔗 Trying CryptoNews API for ${newsSymbol}`);
+          console.log(`📡 Method 1 URL: ${apiUrl1.replace(apiKey, 'XXX')}`);
         
-        let response;
+          let response;
         
-        try {
-          response = await fetch(apiUrl1, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-              'User-Agent': 'TradingBot/1.0'
-            }
-          });
+          try {
+            response = await fetch(apiUrl1, {
+              method: 'GET',
+              headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'TradingBot/1.0'
+              }
+            });
           
-          console.log(`📡 Method 1 Response: ${response.status} ${response.statusText}`);
+            console.log(`📡 Method 1 Response: ${response.status} ${response.statusText}`);
           
-          if (!response.ok) {
-            console.error(`❌ API failed for ${symbol}: ${response.status}`);
+            if (!response.ok) {
+              console.error(`❌ API failed for ${symbol}: ${response.status}`);
+              continue;
+            }
+          } catch (fetchError) {
+            console.error(`❌ Network error for ${symbol}:`, fetchError);
             continue;
           }
-        } catch (fetchError) {
-          console.error(`❌ Network error for ${symbol}:`, fetchError);
-          continue;
-        }
         
-        const apiNewsData = await response.json();
+          const apiNewsData = await response.json();
         
-        if (apiNewsData.data && Array.isArray(apiNewsData.data)) {
-          for (const article of apiNewsData.data) {
-            const sentimentScore = calculateSentimentScore(article.title + ' ' + (article.text || ''));
+          if (apiNewsData.data && Array.isArray(apiNewsData.data)) {
+            for (const article of apiNewsData.data) {
+              const sentimentScore = calculateSentimentScore(article.title + ' ' + (article.text || ''));
             
-            newsData.push({
-              source_id: sourceId,
-              user_id: userId, // FIX: Always use resolved userId
-              timestamp: new Date(article.date).toISOString(),
-              symbol: newsSymbol,
-              headline: article.title,
-              content: article.text || '',
-              source_name: article.source_name || 'CryptoNews API',
-              news_type: 'general',
-              sentiment_score: sentimentScore,
-              url: article.news_url,
-              author: article.source_name,
-              metadata: {
-                collection_time: new Date().toISOString(),
-                api_source: 'cryptonews_api',
-                image_url: article.image_url,
-                ranking: article.ranking
-              }
-            });
-          }
+              newsData.push({
+                source_id: ctx.sourceId,
+                user_id: ctx.userId, // FIX: Always use resolved userId
+                timestamp: new Date(article.date).toISOString(),
+                symbol: newsSymbol,
+                headline: article.title,
+                content: article.text || '',
+                source_name: article.source_name || 'CryptoNews API',
+                news_type: 'general',
+                sentiment_score: sentimentScore,
+                url: article.news_url,
+                author: article.source_name,
+                metadata: {
+                  collection_time: new Date().toISOString(),
+                  api_source: 'cryptonews_api',
+                  image_url: article.image_url,
+                  ranking: article.ranking
+                }
+              });
+            }
           
-          console.log(`✅ Fetched ${apiNewsData.data.length} news articles for ${newsSymbol}`);
-        } else {
-          console.log(`⚠️ No news data returned for ${symbol}`);
-        }
+            console.log(`✅ Fetched ${apiNewsData.data.length} news articles for ${newsSymbol}`);
+          } else {
+            console.log(`⚠️ No news data returned for ${symbol}`);
+          }
         
-      } catch (error) {
-        console.error(`Error fetching news for ${symbol}:`, error);
+        } catch (error) {
+          console.error(`Error fetching news for ${symbol}:`, error);
+        }
       }
-    }
 
-    // Insert news data with conflict resolution
-    if (newsData.length > 0) {
-      const { data, error } = await supabaseClient
-        .from('crypto_news')
-        .upsert(newsData, { 
-          onConflict: 'headline,timestamp,source_name',
-          ignoreDuplicates: true 
-        });
+      // Insert news data with conflict resolution
+      if (newsData.length > 0) {
+        const { data, error } = await supabaseClient
+          .from('crypto_news')
+          .upsert(newsData, { 
+            onConflict: 'headline,timestamp,source_name',
+            ignoreDuplicates: true 
+          });
 
-      if (error) {
-        console.error('❌ Error inserting news data:', error);
-        throw error;
-      }
+        if (error) {
+          console.error('❌ Error inserting news data:', error);
+          throw error;
+        }
       
-      console.log(`✅ Inserted ${newsData.length} news articles`);
-    }
+        console.log(`✅ Inserted ${newsData.length} news articles`);
+      }
 
-    // Generate live signals based on sentiment analysis
-    const signals = await generateSentimentSignals(supabaseClient, newsData, userId, sourceId);
-    
-    // Update last_sync timestamp
-    await supabaseClient
-      .from('ai_data_sources')
-      .update({ last_sync: new Date().toISOString() })
-      .eq('id', sourceId);
-    
-    console.log(`✅ Successfully inserted ${newsData.length} news articles and ${signals.length} signals`);
-    
-    return new Response(JSON.stringify({ 
-      success: true, 
-      newsInserted: newsData.length,
-      signalsGenerated: signals.length,
-      userId: userId,
-      message: 'News data and sentiment signals created successfully'
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    });
-    
-  } catch (error) {
-    console.error('❌ Error fetching news:', error);
-    throw error;
-  }
+      return newsData;
+    },
+    normalize: (articles, ctx) => sentimentSignalDrafts(articles, ctx.now),
+  };
 }
 
 function calculateSentimentScore(text: string): number {
@@ -286,8 +287,8 @@ function calculateSentimentScore(text: string): number {
   return Math.max(0, Math.min(1, score));
 }
 
-async function generateSentimentSignals(supabaseClient: any, newsData: any[], userId: string, sourceId: string) {
-  const signals: any[] = [];
+function sentimentSignalDrafts(newsData: any[], now: Date): SignalDraft[] {
+  const signals: SignalDraft[] = [];
   
   // Group news by symbol
   const symbolNews = newsData.reduce((acc, news) => {
@@ -353,43 +354,23 @@ async function generateSentimentSignals(supabaseClient: any, newsData: any[], us
     // Create signals
     for (const signalConfig of signalsToAdd) {
       signals.push({
-        source_id: sourceId,
-        user_id: userId, // FIX: Always use resolved userId
-        timestamp: new Date().toISOString(),
+        timestamp: now.toISOString(),
         symbol: symbol,
         signal_type: signalConfig.signal_type,
         signal_strength: signalConfig.signal_strength,
-        source: 'crypto_news',
         data: {
           avg_sentiment: avgSentiment,
           news_count: newsVolume,
           time_window: '24h',
           recent_headlines: articleList.slice(0, 3).map(a => a.headline),
           description: signalConfig.description
-        },
-        processed: false
+        }
       });
       
       console.log(`📡 Generated signal: ${signalConfig.signal_type} for ${symbol}`);
     }
   }
   
-  if (signals.length > 0) {
-    const { error } = await supabaseClient
-      .from('live_signals')
-      .upsert(signals, {
-        onConflict: 'source,signal_type,symbol,timestamp',
-        ignoreDuplicates: true
-      });
-    
-    if (error) {
-      console.error('❌ Error inserting sentiment signals:', error);
-    } else {
-      console.info(`[SIGNAL_INGESTION_EVENT] source=crypto_news count=${signals.length}`);
-      console.log(`✅ Inserted ${signals.length} sentiment signals`);
-    }
-  }
-  
   return signals;
 }
 
@@ -1,6 +1,12 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  resolveSignalUserId,
+  runSignalSource,
+  type SignalDraft,
+  type SignalSource,
+} from "../_shared/signalSource.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,6 +20,7 @@ const corsHeaders = {
 //
 // FIX (Dec 2024): Added fallback user_id resolution when source.user_id is NULL.
 // System-level sources have user_id = NULL but live_signals requires NOT NULL.
+// Signals are written through runSignalSource (_shared/signalSource.ts).
 // =============================================================================
 
 const EODHD_CRYPTO_SYMBOL_MAP: Record<string, string> = {
@@ -109,22 +116,6 @@ serve(async (req) => {
       });
     }
 
-    // FIX: Resolve fallback user_id for system sources
-    let fallbackUserId: string | null = null;
-    const { data: activeUsers } = await supabaseClient
-      .from('trading_strategies')
-      .select('user_id')
-      .or('is_active_test.eq.true,is_active.eq.true')
-      .limit(1);
-    
-    if (activeUsers && activeUsers.length > 0) {
-      fallbackUserId = activeUsers[0].user_id;
-      console.log(`📋 Fallback user for signals: ${fallbackUserId}`);
-    } else {
-      fallbackUserId = '25a0c221-1f0e-431d-8d79-db9fb4db9cb3'; // Known system user
-      console.log(`⚠️ Using hardcoded fallback user: ${fallbackUserId}`);
-    }
-
     console.log(`📊 Found ${sources.length} active EODHD source(s)`);
 
     let totalSignalsCreated = 0;
@@ -139,7 +130,7 @@ serve(async (req) => {
       }
 
       // FIX: Use source.user_id if available, otherwise fallback
-      const effectiveUserId = source.user_id || fallbackUserId;
+      const effectiveUserId = await resolveSignalUserId(supabaseClient, [source.user_id]);
       console.log(`👤 Using userId for source ${source.id}: ${effectiveUserId}`);
 
       const rawSymbols = source.configuration?.symbols || ['BTC-EUR', 'ETH-EUR'];
@@ -149,6 +140,67 @@ serve(async (req) => {
       console.log(`🔍 Processing source ${source.id}: ${symbols.length} symbols, interval: ${interval}`);
       processedSources.push(source.id);
 
+      const run = await runSignalSource(
+        supabaseClient,
+        eodhdSource(supabaseClient, source, apiKey, symbols, interval, (n) => { totalOhlcvRowsInserted += n; }),
+        { userId: effectiveUserId, sourceId: source.id, now: new Date() },
+      );
+      totalSignalsCreated += run.inserted;
+    }
+
+    console.log(`📊 EODHD Collection complete:`);
+    console.log(`   - Sources processed: ${processedSources.length}`);
+    console.log(`   - OHLCV rows inserted: ${totalOhlcvRowsInserted}`);
+    console.log(`   - Signals created: ${totalSignalsCreated}`);
+
+    return new Response(JSON.stringify({ 
+      success: true, 
+      sources_processed: processedSources.length,
+      source_ids: processedSources,
+      ohlcv_rows_inserted: totalOhlcvRowsInserted,
+      signals_created: totalSignalsCreated,
+      message: 'EODHD collection completed'
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('❌ EODHD Collector error:', error);
+    
+    return new Response(JSON.stringify({ 
+      success: false, 
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
+
+interface EodhdCandles {
+  symbol: string;
+  interval: string;
+  candles: any[];
+}
+
+// SignalSource plug-in: intraday candles per configured symbol (stored in
+// market_ohlcv_raw), volume/volatility/breakout signals on the last 20
+function eodhdSource(
+  supabaseClient: any,
+  source: any,
+  apiKey: string,
+  symbols: string[],
+  interval: string,
+  onOhlcvUpserted: (rows: number) => void,
+): SignalSource<EodhdCandles> {
+  return {
+    name: 'eodhd',
+    expectedIntervalSeconds: 300,
+    symbolFormat: 'pair',
+    async fetch() {
+      const items: EodhdCandles[] = [];
+
       for (const symbol of symbols) {
         const localSymbol = symbol;
         
@@ -218,160 +270,106 @@ serve(async (req) => {
             if (ohlcvError) {
               console.error(`❌ Error upserting OHLCV for ${localSymbol}:`, ohlcvError.message);
             } else {
-              totalOhlcvRowsInserted += ohlcvRows.length;
+              onOhlcvUpserted(ohlcvRows.length);
               console.log(`✅ Upserted ${ohlcvRows.length} OHLCV rows for ${localSymbol} (${granularity})`);
             }
           }
 
-          // Generate trading signals with VALID user_id
-          if (data.length >= 20 && effectiveUserId) {
-            const recentData = data.slice(-20);
-            const latest = recentData[recentData.length - 1];
-            const prices = recentData.map((d: any) => parseFloat(d.close));
-            const volumes = recentData.map((d: any) => parseFloat(d.volume || 0));
-
-            const avgVolume = volumes.reduce((a: number, b: number) => a + b, 0) / volumes.length;
-            const latestVolume = parseFloat(latest.volume || 0);
-            const priceChangePct = ((prices[prices.length - 1] - prices[0]) / prices[0]) * 100;
-            
-            const priceChanges = prices.slice(1).map((p: number, i: number) => (p - prices[i]) / prices[i]);
-            const avgChange = priceChanges.reduce((a: number, b: number) => a + b, 0) / priceChanges.length;
-            const volatility = Math.sqrt(
-              priceChanges.reduce((sum: number, change: number) => sum + Math.pow(change - avgChange, 2), 0) / priceChanges.length
-            );
-
-            const signals: any[] = [];
-
-            // Volume spike
-            if (latestVolume > avgVolume * 2.0) {
-              signals.push({
-                source_id: source.id,
-                user_id: effectiveUserId, // FIX: Use resolved user_id
-                timestamp: new Date(latest.datetime || latest.timestamp * 1000).toISOString(),
-                symbol: localSymbol,
-                signal_type: 'eodhd_intraday_volume_spike',
-                signal_strength: Math.min(100, (latestVolume / avgVolume - 1) * 50),
-                source: 'eodhd',
-                data: {
-                  current_volume: latestVolume,
-                  avg_volume: avgVolume,
-                  volume_ratio: latestVolume / avgVolume,
-                  price: parseFloat(latest.close),
-                  interval: interval
-                },
-                processed: false
-              });
-            }
-
-            // Unusual volatility
-            if (volatility > 0.01) {
-              signals.push({
-                source_id: source.id,
-                user_id: effectiveUserId,
-                timestamp: new Date(latest.datetime || latest.timestamp * 1000).toISOString(),
-                symbol: localSymbol,
-                signal_type: 'eodhd_unusual_volatility',
-                signal_strength: Math.min(100, volatility * 5000),
-                source: 'eodhd',
-                data: {
-                  volatility: volatility,
-                  price_change_pct: priceChangePct,
-                  price: parseFloat(latest.close),
-                  interval: interval
-                },
-                processed: false
-              });
-            }
-
-            // Price breakouts
-            if (priceChangePct > 3) {
-              signals.push({
-                source_id: source.id,
-                user_id: effectiveUserId,
-                timestamp: new Date(latest.datetime || latest.timestamp * 1000).toISOString(),
-                symbol: localSymbol,
-                signal_type: 'eodhd_price_breakout_bullish',
-                signal_strength: Math.min(100, Math.abs(priceChangePct) * 10),
-                source: 'eodhd',
-                data: {
-                  price_change_pct: priceChangePct,
-                  current_price: parseFloat(latest.close),
-                  start_price: prices[0],
-                  interval: interval
-                },
-                processed: false
-              });
-            } else if (priceChangePct < -3) {
-              signals.push({
-                source_id: source.id,
-                user_id: effectiveUserId,
-                timestamp: new Date(latest.datetime || latest.timestamp * 1000).toISOString(),
-                symbol: localSymbol,
-                signal_type: 'eodhd_price_breakdown_bearish',
-                signal_strength: Math.min(100, Math.abs(priceChangePct) * 10),
-                source: 'eodhd',
-                data: {
-                  price_change_pct: priceChangePct,
-                  current_price: parseFloat(latest.close),
-                  start_price: prices[0],
-                  interval: interval
-                },
-                processed: false
-              });
-            }
-
-            if (signals.length > 0) {
-              const { error: signalError } = await supabaseClient
-                .from('live_signals')
-                .insert(signals);
-
-              if (signalError) {
-                console.error('❌ Error inserting EODHD signals:', signalError);
-              } else {
-                totalSignalsCreated += signals.length;
-                console.log(`✅ Inserted ${signals.length} signals for ${localSymbol}`);
-              }
-            }
-          }
-
+          items.push({ symbol: localSymbol, interval, candles: data });
         } catch (error) {
           console.error(`❌ Error processing ${localSymbol}:`, error);
         }
       }
+      return items;
+    },
+    normalize(items) {
+      return items.flatMap(({ symbol, interval, candles }) => eodhdSignalDrafts(symbol, candles, interval));
+    },
+  };
+}
 
-      // Update last_sync timestamp
-      await supabaseClient
-        .from('ai_data_sources')
-        .update({ last_sync: new Date().toISOString() })
-        .eq('id', source.id);
-    }
-
-    console.log(`📊 EODHD Collection complete:`);
-    console.log(`   - Sources processed: ${processedSources.length}`);
-    console.log(`   - OHLCV rows inserted: ${totalOhlcvRowsInserted}`);
-    console.log(`   - Signals created: ${totalSignalsCreated}`);
+function eodhdSignalDrafts(localSymbol: string, data: any[], interval: string): SignalDraft[] {
+  if (data.length < 20) return [];
+
+  const recentData = data.slice(-20);
+  const latest = recentData[recentData.length - 1];
+  const prices = recentData.map((d: any) => parseFloat(d.close));
+  const volumes = recentData.map((d: any) => parseFloat(d.volume || 0));
+
+  const avgVolume = volumes.reduce((a: number, b: number) => a + b, 0) / volumes.length;
+  const latestVolume = parseFloat(latest.volume || 0);
+  const priceChangePct = ((prices[prices.length - 1] - prices[0]) / prices[0]) * 100;
+  
+  const priceChanges = prices.slice(1).map((p: number, i: number) => (p - prices[i]) / prices[i]);
+  const avgChange = priceChanges.reduce((a: number, b: number) => a + b, 0) / priceChanges.length;
+  const volatility = Math.sqrt(
+    priceChanges.reduce((sum: number, change: number) => sum + Math.pow(change - avgChange, 2), 0) / priceChanges.length
+  );
+
+  const timestamp = new Date(latest.datetime || latest.timestamp * 1000).toISOString();
+  const signals: SignalDraft[] = [];
+
+  // Volume spike
+  if (latestVolume > avgVolume * 2.0) {
+    signals.push({
+      timestamp,
+      symbol: localSymbol,
+      signal_type: 'eodhd_intraday_volume_spike',
+      signal_strength: Math.min(100, (latestVolume / avgVolume - 1) * 50),
+      data: {
+        current_volume: latestVolume,
+        avg_volume: avgVolume,
+        volume_ratio: latestVolume / avgVolume,
+        price: parseFloat(latest.close),
+        interval: interval
+      }
+    });
+  }
 
-    return new Response(JSON.stringify({ 
-      success: true, 
-      sources_processed: processedSources.length,
-      source_ids: processedSources,
-      ohlcv_rows_inserted: totalOhlcvRowsInserted,
-      signals_created: totalSignalsCreated,
-      message: 'EODHD collection completed'
-    }), {
-      status: 200,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  // Unusual volatility
+  if (volatility > 0.01) {
+    signals.push({
+      timestamp,
+      symbol: localSymbol,
+      signal_type: 'eodhd_unusual_volatility',
+      signal_strength: Math.min(100, volatility * 5000),
+      data: {
+        volatility: volatility,
+        price_change_pct: priceChangePct,
+        price: parseFloat(latest.close),
+        interval: interval
+      }
     });
+  }
 
-  } catch (error) {
-    console.error('❌ EODHD Collector error:', error);
-    
-    return new Response(JSON.stringify({ 
-      success: false, 
-      error: error.message
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  // Price breakouts
+  if (priceChangePct > 3) {
+    signals.push({
+      timestamp,
+      symbol: localSymbol,
+      signal_type: 'eodhd_price_breakout_bullish',
+      signal_strength: Math.min(100, Math.abs(priceChangePct) * 10),
+      data: {
+        price_change_pct: priceChangePct,
+        current_price: parseFloat(latest.close),
+        start_price: prices[0],
+        interval: interval
+      }
+    });
+  } else if (priceChangePct < -3) {
+    signals.push({
+      timestamp,
+      symbol: localSymbol,
+      signal_type: 'eodhd_price_breakdown_bearish',
+      signal_strength: Math.min(100, Math.abs(priceChangePct) * 10),
+      data: {
+        price_change_pct: priceChangePct,
+        current_price: parseFloat(latest.close),
+        start_price: prices[0],
+        interval: interval
+      }
     });
   }
-});
\ No newline at end of file
+
+  return signals;
+}
@@ -0,0 +1,388 @@
+/**
+ * Execution job worker
+ *
+ * Drains REAL execution_jobs (panic liquidations enqueue here) through
+ * onchain-sign-and-send:
+ * 1. SUBMITTED jobs → CONFIRMED / FAILED from their real_trades receipt
+ * 2. claim_execution_jobs() leases one due READY job (or LOCKED job whose
+ *    lease lapsed) at a time → one mock_trades placeholder per job → lease
+ *    renewed → submit
+ *
+ * Idempotent per job: the placeholder id is stored on the job before the
+ * first submit, and a retry that finds a broadcast for it (real_trades or
+ * managed_transactions.intent_key, response lost after broadcast) adopts
+ * that tx instead of sending again. A submit with an unknown outcome is not
+ * resent before the reconcile window has passed.
+ * Retry/dead-letter rules live in _shared/executionJobs.ts.
+ *
+ * Invocation:
+ * - cron: { scheduled: true } with x-cron-secret
+ * - direct: {} (e.g. right after a panic liquidation enqueues jobs)
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  EXECUTION_JOB_DEFAULTS,
+  attemptsExhausted,
+  deferTransition,
+  failureTransition,
+  receiptTransition,
+  reconcileWaitUntil,
+  submittedTransition,
+  submittingTransition,
+  type ExecutionJobState,
+  type SubmitFailure,
+} from '../_shared/executionJobs.ts';
+import { findIntentBroadcast } from '../_shared/realTrades.ts';
+import { BASE_CHAIN_ID } from '../_shared/chains.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const SUPPORTED_KINDS = new Set(['SWAP', 'LIQUIDATE']);
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+const serviceHeaders = {
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${SERVICE_ROLE}`,
+  apikey: SERVICE_ROLE,
+};
+
+interface ExecutionJobRow extends ExecutionJobState {
+  id: string;
+  user_id: string;
+  strategy_id: string;
+  execution_mode: string;
+  kind: string;
+  side: string;
+  symbol: string;
+  amount: number | string;
+  payload: {
+    mock_trade_id?: string;
+    original_buy_id?: string;
+    original_trade_id?: string;
+    slippage_bps?: number;
+    chain_id?: number;
+  } | null;
+  mock_trade_id: string | null;
+  tx_hash: string | null;
+}
+
+type JobOutcome =
+  | { jobId: string; action: 'submitted' | 'recovered'; txHash: string }
+  | { jobId: string; action: 'retry' | 'failed' | 'dead_letter'; error: string }
+  | { jobId: string; action: 'deferred'; until: string }
+  | { jobId: string; action: 'lease_lost' };
+
+// ========================================================================
+// Leased writes: a worker whose lease was re-claimed must not clobber the row
+// ========================================================================
+async function updateLeasedJob(
+  job: ExecutionJobRow,
+  workerId: string,
+  patch: Record<string, unknown>,
+  options: { requireLiveLease?: boolean } = {},
+): Promise<boolean> {
+  let query = supabase
+    .from('execution_jobs')
+    .update(patch)
+    .eq('id', job.id)
+    .eq('status', 'LOCKED')
+    .eq('locked_by', workerId);
+  // A lapsed lease may be re-claimed at any moment: never start a submit on one
+  if (options.requireLiveLease) query = query.gt('lease_expires_at', new Date().toISOString());
+  const { data, error } = await query.select('id');
+  if (error) {
+    logger.error('EXECUTION_JOB_UPDATE_FAILED', { jobId: job.id, error: error.message });
+    return false;
+  }
+  if (!data?.length) {
+    logger.warn('EXECUTION_JOB_LEASE_LOST', { jobId: job.id, workerId });
+    return false;
+  }
+  return true;
+}
+
+async function markPlaceholderFailed(job: ExecutionJobRow, reason: string) {
+  if (!job.mock_trade_id) return;
+  await supabase
+    .from('mock_trades')
+    .update({
+      execution_source: 'onchain_failed',
+      is_open_position: false,
+      notes: `FAILED: execution job ${job.id} | ${reason}`,
+    })
+    .eq('id', job.mock_trade_id)
+    .eq('execution_confirmed', false);
+}
+
+async function fail(job: ExecutionJobRow, workerId: string, failure: SubmitFailure): Promise<JobOutcome> {
+  const patch = failureTransition(job, failure, new Date());
+  if (!(await updateLeasedJob(job, workerId, patch))) return { jobId: job.id, action: 'lease_lost' };
+
+  if (patch.status === 'READY') {
+    logger.warn('EXECUTION_JOB_RETRY', {
+      jobId: job.id,
+      attempt: job.attempts,
+      code: failure.code,
+      error: failure.message,
+      next_attempt_at: patch.next_attempt_at,
+    });
+    return { jobId: job.id, action: 'retry', error: failure.message };
+  }
+
+  await markPlaceholderFailed(job, failure.message);
+  const action = patch.status === 'DEAD_LETTER' ? 'dead_letter' : 'failed';
+  logger.error(action === 'dead_letter' ? 'EXECUTION_JOB_DEAD_LETTER' : 'EXECUTION_JOB_FAILED', {
+    jobId: job.id,
+    attempts: job.attempts,
+    code: failure.code,
+    error: failure.message,
+  });
+  return { jobId: job.id, action, error: failure.message };
+}
+
+// ========================================================================
+// Idempotency: a previous attempt may have broadcast before losing its response
+// ========================================================================
+async function findExistingTx(job: ExecutionJobRow): Promise<string | null> {
+  if (job.tx_hash) return job.tx_hash;
+  if (!job.mock_trade_id) return null;
+  return findIntentBroadcast(supabase, job.mock_trade_id);
+}
+
+async function ensurePlaceholder(job: ExecutionJobRow, workerId: string): Promise<string | { error: string }> {
+  const mockTradeId: string = job.mock_trade_id ?? job.payload?.mock_trade_id ?? crypto.randomUUID();
+  if (!job.mock_trade_id) {
+    // Persist first so every later attempt reuses the same lot
+    if (!(await updateLeasedJob(job, workerId, { mock_trade_id: mockTradeId }))) {
+      return { error: 'lease_lost' };
+    }
+  }
+  job.mock_trade_id = mockTradeId;
+
+  const side = String(job.side).toUpperCase();
+  const originalTradeId = job.payload?.original_buy_id ?? job.payload?.original_trade_id ?? null;
+  const { error } = await supabase
+    .from('mock_trades')
+    .upsert(
+      {
+        id: mockTradeId,
+        user_id: job.user_id,
+        strategy_id: job.strategy_id,
+        cryptocurrency: String(job.symbol).toUpperCase().split('-')[0],
+        trade_type: side.toLowerCase(),
+        amount: Number(job.amount),
+        price: 0,
+        total_value: 0,
+        executed_at: new Date().toISOString(),
+        is_test_mode: false,
+        is_system_operator: false,
+        execution_source: 'onchain_pending',
+        execution_confirmed: false,
+        notes: `PENDING_ONCHAIN: execution job ${job.id} (${job.kind}) awaiting receipt confirmation`,
+        idempotency_key: `job_${job.id}`,
+        ...(side === 'BUY' ? { is_open_position: true } : {}),
+        ...(originalTradeId ? { original_trade_id: originalTradeId } : {}),
+      },
+      { onConflict: 'id', ignoreDuplicates: true },
+    );
+  if (error) return { error: error.message };
+  return mockTradeId;
+}
+
+// ========================================================================
+// Submit one claimed job
+// ========================================================================
+async function submit(job: ExecutionJobRow): Promise<{ txHash: string } | SubmitFailure> {
+  try {
+    const res = await fetch(`${PROJECT_URL}/functions/v1/onchain-sign-and-send`, {
+      method: 'POST',
+      headers: serviceHeaders,
+      signal: AbortSignal.timeout(EXECUTION_JOB_DEFAULTS.SUBMIT_TIMEOUT_MS),
+      body: JSON.stringify({
+        symbol: String(job.symbol).toUpperCase().split('-')[0],
+        side: String(job.side).toUpperCase(),
+        amount: Number(job.amount),
+        slippageBps: Number(job.payload?.slippage_bps ?? EXECUTION_JOB_DEFAULTS.SLIPPAGE_BPS),
+        chainId: job.payload?.chain_id ?? BASE_CHAIN_ID,
+        system_operator_mode: true,
+        mock_trade_id: job.mock_trade_id,
+        user_id: job.user_id,
+        strategy_id: job.strategy_id,
+      }),
+    });
+    const result = await res.json().catch(() => null);
+    if (result?.ok && result.tx_hash) return { txHash: result.tx_hash };
+    return {
+      code: result?.error?.code ?? null,
+      message: result?.error?.message || result?.error?.code || `sign_and_send_http_${res.status}`,
+      httpStatus: res.status,
+    };
+  } catch (err) {
+    return { code: null, message: (err as Error).message || 'sign_and_send_unreachable', httpStatus: null };
+  }
+}
+
+async function processJob(job: ExecutionJobRow, workerId: string): Promise<JobOutcome> {
+  const existingTx = await findExistingTx(job);
+  if (existingTx) {
+    logger.log('EXECUTION_JOB_RECOVERED_TX', { jobId: job.id, txHash: existingTx });
+    const ok = await updateLeasedJob(job, workerId, submittedTransition(job, existingTx, new Date()));
+    return ok ? { jobId: job.id, action: 'recovered', txHash: existingTx } : { jobId: job.id, action: 'lease_lost' };
+  }
+
+  // The previous submit may have broadcast without either record being written yet
+  const waitUntil = reconcileWaitUntil(job, new Date());
+  if (waitUntil) {
+    logger.warn('EXECUTION_JOB_RECONCILE_PENDING', { jobId: job.id, until: waitUntil });
+    const ok = await updateLeasedJob(job, workerId, deferTransition(job, waitUntil));
+    return ok ? { jobId: job.id, action: 'deferred', until: waitUntil } : { jobId: job.id, action: 'lease_lost' };
+  }
+
+  if (attemptsExhausted(job)) {
+    return fail(job, workerId, {
+      code: 'lease_expired',
+      message: `attempts exhausted (${job.attempts - 1}/${job.max_attempts}), last lease expired mid-job`,
+      httpStatus: null,
+    });
+  }
+  if (job.execution_mode !== 'ONCHAIN') {
+    return fail(job, workerId, { code: 'unsupported_execution_mode', message: `execution_mode ${job.execution_mode} has no worker`, httpStatus: null });
+  }
+  if (!SUPPORTED_KINDS.has(job.kind)) {
+    return fail(job, workerId, { code: 'unsupported_job_kind', message: `kind ${job.kind} has no worker`, httpStatus: null });
+  }
+  if (!(Number(job.amount) > 0)) {
+    return fail(job, workerId, { code: 'invalid_job_amount', message: `amount ${job.amount}`, httpStatus: null });
+  }
+
+  const placeholder = await ensurePlaceholder(job, workerId);
+  if (typeof placeholder !== 'string') {
+    if (placeholder.error === 'lease_lost') return { jobId: job.id, action: 'lease_lost' };
+    return fail(job, workerId, { code: 'placeholder_insert_failed', message: placeholder.error, httpStatus: null });
+  }
+
+  logger.log('EXECUTION_JOB_SUBMIT', {
+    jobId: job.id,
+    kind: job.kind,
+    symbol: job.symbol,
+    side: job.side,
+    amount: job.amount,
+    attempt: job.attempts,
+    mockTradeId: placeholder,
+  });
+
+  const submitting = submittingTransition(job, new Date());
+  if (!(await updateLeasedJob(job, workerId, submitting, { requireLiveLease: true }))) {
+    return { jobId: job.id, action: 'lease_lost' };
+  }
+  job.attempt_log = submitting.attempt_log;
+
+  const result = await submit(job);
+  if (!('txHash' in result)) return fail(job, workerId, result);
+
+  const ok = await updateLeasedJob(job, workerId, submittedTransition(job, result.txHash, new Date()));
+  if (!ok) {
+    // Broadcast happened; the next claim recovers the tx from real_trades
+    return { jobId: job.id, action: 'lease_lost' };
+  }
+  return { jobId: job.id, action: 'submitted', txHash: result.txHash };
+}
+
+// ========================================================================
+// SUBMITTED → CONFIRMED / FAILED
+// ========================================================================
+async function reconcileSubmitted(): Promise<number> {
+  const { data, error } = await supabase
+    .from('execution_jobs')
+    .select('id, mock_trade_id, attempts, max_attempts, attempt_log')
+    .eq('status', 'SUBMITTED')
+    .not('mock_trade_id', 'is', null)
+    .order('submitted_at', { ascending: true })
+    .limit(50);
+  if (error) throw error;
+  const jobs = (data ?? []) as (ExecutionJobState & { id: string; mock_trade_id: string })[];
+  if (!jobs.length) return 0;
+
+  const { data: trades, error: tradesError } = await supabase
+    .from('real_trades')
+    .select('trade_id, execution_status')
+    .in('trade_id', jobs.map((j) => j.mock_trade_id));
+  if (tradesError) throw tradesError;
+
+  const statusByTrade = new Map(
+    ((trades ?? []) as { trade_id: string; execution_status: string }[]).map((t) => [t.trade_id, t.execution_status]),
+  );
+  let reconciled = 0;
+  for (const job of jobs) {
+    const patch = receiptTransition(job, statusByTrade.get(job.mock_trade_id), new Date());
+    if (!patch) continue;
+    const { error: updateError } = await supabase
+      .from('execution_jobs')
+      .update(patch)
+      .eq('id', job.id)
+      .eq('status', 'SUBMITTED');
+    if (updateError) {
+      logger.error('EXECUTION_JOB_RECONCILE_FAILED', { jobId: job.id, error: updateError.message });
+      continue;
+    }
+    logger.log('EXECUTION_JOB_RECEIPT', { jobId: job.id, status: patch.status });
+    reconciled++;
+  }
+  return reconciled;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        logger.error('❌ EXECUTION_JOB_WORKER: CRON_SECRET mismatch or not set');
+        return new Response(
+          JSON.stringify({ success: false, error: 'forbidden' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    const reconciled = await reconcileSubmitted();
+
+    const workerId = `execution-job-worker:${crypto.randomUUID()}`;
+
+    // Sequential: every job signs from the SYSTEM wallet and shares its nonce.
+    // One claim per job so each lease starts when its job does.
+    const results: JobOutcome[] = [];
+    for (let i = 0; i < EXECUTION_JOB_DEFAULTS.BATCH_SIZE; i++) {
+      const { data: claimed, error } = await supabase.rpc('claim_execution_jobs', {
+        p_worker_id: workerId,
+        p_limit: 1,
+        p_lease_seconds: EXECUTION_JOB_DEFAULTS.LEASE_SECONDS,
+      });
+      if (error) throw error;
+      const job = (claimed as ExecutionJobRow[] | null)?.[0];
+      if (!job) break;
+      results.push(await processJob(job, workerId));
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, reconciled, processed: results.length, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    logger.error('EXECUTION_JOB_WORKER_ERROR', { error: String((error as Error)?.message ?? error) });
+    return new Response(
+      JSON.stringify({ ok: false, error: String((error as Error)?.message ?? error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -6,12 +6,26 @@
  * 
  * CUSTODY INVARIANT:
  * - SINGLE decryption path via _shared/envelope-encryption.ts
- * - SINGLE signing path in this function
+ * - SINGLE signing path: signWithPrivateKey via _shared/txManager.ts
+ *   (nonce reservation, EIP-1559 fees, stuck-tx replacement)
  * - NO local crypto duplication
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2?target=deno";
 import { decryptPrivateKey } from "../_shared/envelope-encryption.ts";
+import { signWithPrivateKey } from "../_shared/signer.ts";
+import { createTxManager, jsonRpc, type TxCall, type TxFees } from "../_shared/txManager.ts";
+import {
+  claimApprovedWithdrawal,
+  createWithdrawalRequest,
+  evaluateWithdrawal,
+  loadWithdrawalContext,
+  recheckApprovedWithdrawal,
+  recordWithdrawalStep,
+  type CreateWithdrawalRequestResult,
+  type WithdrawalEvaluation,
+  type WithdrawalRequestRow,
+} from "../_shared/withdrawalPolicy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -24,7 +38,7 @@ const corsHeaders = {
 // ─────────────────────────────────────────────────────────────
 
 const BASE_RPC = "https://mainnet.base.org";
-const RATE_LIMIT_MS = 60_000;
+const RATE_LIMIT_SECONDS = 60;
 
 const TOKENS: Record<string, { address: string; decimals: number }> = {
   ETH: { address: "0x0000000000000000000000000000000000000000", decimals: 18 },
@@ -61,32 +75,6 @@ function jsonSuccess(data: Record<string, unknown>) {
   });
 }
 
-function hexToBytes(hex: string): Uint8Array {
-  const h = hex.startsWith("0x") ? hex.slice(2) : hex;
-  const out = new Uint8Array(h.length / 2);
-  for (let i = 0; i < out.length; i++) {
-    out[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
-  }
-  return out;
-}
-
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-function concatBytes(arrays: Uint8Array[]): Uint8Array {
-  const total = arrays.reduce((acc, a) => acc + a.length, 0);
-  const out = new Uint8Array(total);
-  let off = 0;
-  for (const a of arrays) {
-    out.set(a, off);
-    off += a.length;
-  }
-  return out;
-}
-
 /**
  * Convert base64 string to Uint8Array (for DB → crypto boundary)
  */
@@ -112,6 +100,9 @@ Deno.serve(async (req) => {
     return new Response(null, { status: 204, headers: corsHeaders });
   }
 
+  // Set once a withdrawal_requests row is open, cleared once the tx is sent
+  let failOpenRequest: ((message: string) => Promise<Response>) | null = null;
+
   try {
     logStep("request_received");
 
@@ -120,26 +111,30 @@ Deno.serve(async (req) => {
     if (!authHeader) return jsonError(401, "Missing authorization header");
 
     // 2) Parse + validate body
-    let body: { wallet_id?: string; asset?: string; to_address?: string; amount?: number };
+    let body: { wallet_id?: string; asset?: string; to_address?: string; amount?: number; request_id?: string };
     try {
       body = await req.json();
     } catch {
       return jsonError(400, "Invalid JSON body");
     }
 
-    const { wallet_id, asset, to_address, amount } = body;
-    logStep("request_payload", { wallet_id, asset, to_address, amount });
+    // request_id: an admin executes a withdrawal approved from the queue
+    const executingApproved = typeof body.request_id === "string";
+    if (!executingApproved) {
+      const { wallet_id, asset, to_address, amount } = body;
+      logStep("request_payload", { wallet_id, asset, to_address, amount });
 
-    if (!wallet_id || typeof wallet_id !== "string") return jsonError(400, "Missing or invalid wallet_id");
-    if (!asset || typeof asset !== "string") return jsonError(400, "Missing or invalid asset");
-    if (!["ETH", "WETH", "USDC"].includes(asset)) return jsonError(400, "Invalid asset. Must be ETH, WETH, or USDC");
+      if (!wallet_id || typeof wallet_id !== "string") return jsonError(400, "Missing or invalid wallet_id");
+      if (!asset || typeof asset !== "string") return jsonError(400, "Missing or invalid asset");
+      if (!["ETH", "WETH", "USDC"].includes(asset)) return jsonError(400, "Invalid asset. Must be ETH, WETH, or USDC");
 
-    if (!to_address || typeof to_address !== "string") return jsonError(400, "Missing destination address");
-    if (!/^0x[a-fA-F0-9]{40}$/.test(to_address)) return jsonError(400, "Invalid destination address format");
+      if (!to_address || typeof to_address !== "string") return jsonError(400, "Missing destination address");
+      if (!/^0x[a-fA-F0-9]{40}$/.test(to_address)) return jsonError(400, "Invalid destination address format");
 
-    if (amount === undefined || amount === null || typeof amount !== "number")
-      return jsonError(400, "Missing or invalid amount");
-    if (!Number.isFinite(amount) || amount <= 0) return jsonError(400, "Amount must be a finite number > 0");
+      if (amount === undefined || amount === null || typeof amount !== "number")
+        return jsonError(400, "Missing or invalid amount");
+      if (!Number.isFinite(amount) || amount <= 0) return jsonError(400, "Amount must be a finite number > 0");
+    }
 
     // 3) Clients
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
@@ -164,6 +159,71 @@ Deno.serve(async (req) => {
       db: { schema: "public" },
     });
 
+    // Withdrawal being executed: the caller's own, or an approved request of another user
+    let ownerId = user.id;
+    let wallet_id = body.wallet_id as string;
+    let asset = body.asset as string;
+    let to_address = body.to_address as string;
+    let amount = body.amount as number;
+    let requestId: string | null = null;
+    let request: WithdrawalRequestRow | null = null;
+
+    if (executingApproved) {
+      const { data: roleData } = await supabaseAdmin
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "admin")
+        .maybeSingle();
+      if (!roleData) return jsonError(403, "Admin access required");
+
+      try {
+        request = await claimApprovedWithdrawal(supabaseAdmin, body.request_id as string, "execution_wallet");
+      } catch (e) {
+        return jsonError(500, e instanceof Error ? e.message : "Failed to claim withdrawal request", { step: "claim" });
+      }
+      if (!request || !request.wallet_id) {
+        return jsonError(409, "Withdrawal request is not approved", { step: "claim" });
+      }
+
+      requestId = request.id;
+      ownerId = request.user_id;
+      wallet_id = request.wallet_id;
+      asset = request.asset;
+      to_address = request.to_address;
+      amount = Number(request.amount);
+      logStep("request_claimed", { request_id: requestId, owner_id: ownerId, asset, amount });
+    }
+
+    const auditStep = (status: string, extra: { tx_hash?: string; details?: Record<string, unknown> } = {}) =>
+      recordWithdrawalStep(supabaseAdmin, {
+        status,
+        user_id: ownerId,
+        actor_id: user.id,
+        source: "execution_wallet",
+        wallet_id,
+        asset,
+        amount,
+        to_address,
+        request_id: requestId,
+        ...extra,
+      }).then((auditError) => {
+        if (auditError) logStep("audit_log_failed", { status, message: auditError });
+      });
+
+    // Once a request exists, every failure is recorded on it
+    const fail = async (status: number, message: string, meta: Record<string, unknown> = {}) => {
+      if (requestId) {
+        await supabaseAdmin
+          .from("withdrawal_requests")
+          .update({ status: "failed", error: message })
+          .eq("id", requestId);
+        await auditStep("failed", { details: { error: message, ...meta } });
+      }
+      return jsonError(status, message, meta);
+    };
+    failOpenRequest = (message) => fail(500, message, { step: "unhandled" });
+
     // 4) Wallet lookup
     logStep("wallet_lookup", { wallet_id });
 
@@ -173,29 +233,93 @@ Deno.serve(async (req) => {
       .eq("id", wallet_id)
       .maybeSingle();
 
-    if (walletError) return jsonError(500, "Failed to fetch wallet", { step: "wallet_lookup" });
-    if (!wallet || wallet.user_id !== user.id) return jsonError(404, "Wallet not found", { step: "wallet_lookup" });
-    if (!wallet.is_active) return jsonError(409, "Wallet is not active", { step: "wallet_lookup" });
+    if (walletError) return fail(500, "Failed to fetch wallet", { step: "wallet_lookup" });
+    if (!wallet || wallet.user_id !== ownerId) return fail(404, "Wallet not found", { step: "wallet_lookup" });
+    if (!wallet.is_active) return fail(409, "Wallet is not active", { step: "wallet_lookup" });
     if (wallet.chain_id !== 8453)
-      return jsonError(400, "Invalid wallet chain (expected Base / 8453)", {
+      return fail(400, "Invalid wallet chain (expected Base / 8453)", {
         step: "wallet_lookup",
         chain_id: wallet.chain_id,
       });
 
     if (to_address.toLowerCase() === wallet.wallet_address.toLowerCase()) {
-      return jsonError(400, "Cannot send to the same wallet", { step: "wallet_lookup" });
+      return fail(400, "Cannot send to the same wallet", { step: "wallet_lookup" });
     }
 
-    // 5) Rate limit
-    const { data: recentWithdrawals, error: rateLimitError } = await supabaseAdmin
-      .from("withdrawal_audit_log")
-      .select("created_at")
-      .eq("user_id", user.id)
-      .gte("created_at", new Date(Date.now() - RATE_LIMIT_MS).toISOString())
-      .limit(1);
+    if (request) {
+      // 5) Approved while queued: allowlist, cooling-off and velocity must still hold
+      let evaluation: WithdrawalEvaluation;
+      try {
+        evaluation = await recheckApprovedWithdrawal(supabaseAdmin, request, TOKENS[asset].decimals);
+      } catch (e) {
+        return fail(500, e instanceof Error ? e.message : "Withdrawal policy check failed", { step: "policy" });
+      }
+      logStep("policy_rechecked", { decision: evaluation.decision, reasons: evaluation.reasons.map((r) => r.code) });
+
+      if (evaluation.decision === "deny") {
+        return fail(403, evaluation.reasons.map((r) => r.message).join("; "), {
+          step: "policy",
+          reasons: evaluation.reasons,
+          cooling_off_until: evaluation.cooling_off_until ?? null,
+        });
+      }
+    } else {
+      // 5) Withdrawal policy: allowlist, cooling-off, velocity, approval threshold
+      let evaluation: WithdrawalEvaluation;
+      try {
+        const context = await loadWithdrawalContext(supabaseAdmin, {
+          userId: user.id,
+          asset,
+          toAddress: to_address,
+          chainId: 8453,
+        });
+        evaluation = evaluateWithdrawal({ ...context, amount, decimals: TOKENS[asset].decimals });
+      } catch (e) {
+        return jsonError(500, e instanceof Error ? e.message : "Withdrawal policy check failed", { step: "policy" });
+      }
+      logStep("policy_evaluated", { decision: evaluation.decision, reasons: evaluation.reasons.map((r) => r.code) });
+
+      if (evaluation.decision === "deny") {
+        await auditStep("blocked", { details: { evaluation } });
+        return jsonError(403, evaluation.reasons.map((r) => r.message).join("; "), {
+          step: "policy",
+          reasons: evaluation.reasons,
+          cooling_off_until: evaluation.cooling_off_until ?? null,
+        });
+      }
+
+      // Velocity and the rate limit are counted again under a per-user lock as the row is inserted
+      let created: CreateWithdrawalRequestResult;
+      try {
+        created = await createWithdrawalRequest(supabaseAdmin, {
+          userId: user.id,
+          requestedBy: user.id,
+          source: "execution_wallet",
+          walletId: wallet.id,
+          asset,
+          amount,
+          toAddress: to_address,
+          chainId: 8453,
+          evaluation,
+          rateLimitSeconds: RATE_LIMIT_SECONDS,
+        });
+      } catch (e) {
+        return jsonError(500, e instanceof Error ? e.message : "Failed to record withdrawal request", { step: "policy" });
+      }
+      if (!created.ok) {
+        await auditStep("blocked", { details: { evaluation, reason: created.reason } });
+        if (created.reason.code === "rate_limited") {
+          return jsonError(429, created.reason.message, { step: "rate_limit" });
+        }
+        return jsonError(403, created.reason.message, { step: "policy", reasons: [created.reason] });
+      }
+      requestId = created.requestId;
 
-    if (!rateLimitError && recentWithdrawals && recentWithdrawals.length > 0) {
-      return jsonError(429, "Rate limited. Please wait 1 minute between withdrawals.", { step: "rate_limit" });
+      if (created.status === "pending_approval") {
+        await auditStep("pending_approval", { details: { evaluation } });
+        return jsonSuccess({ status: "pending_approval", request_id: requestId, reasons: evaluation.reasons });
+      }
+      await auditStep("approved", { details: { automatic: true, evaluation } });
     }
 
     // 6) Fetch wallet secrets (ONLY *_b64 columns - new schema)
@@ -209,8 +333,8 @@ Deno.serve(async (req) => {
       .eq("wallet_id", wallet_id)
       .maybeSingle();
 
-    if (secretsError) return jsonError(500, "Failed to fetch wallet secrets", { step: "decrypt_key" });
-    if (!secrets) return jsonError(409, "Wallet has no secrets", { step: "decrypt_key" });
+    if (secretsError) return fail(500, "Failed to fetch wallet secrets", { step: "decrypt_key" });
+    if (!secrets) return fail(409, "Wallet has no secrets", { step: "decrypt_key" });
 
     // Validate all required fields are present
     const requiredFields = [
@@ -224,7 +348,7 @@ Deno.serve(async (req) => {
     
     for (const field of requiredFields) {
       if (!secrets[field as keyof typeof secrets]) {
-        return jsonError(409, `Wallet secrets missing required field: ${field}`, { step: "decrypt_key" });
+        return fail(409, `Wallet secrets missing required field: ${field}`, { step: "decrypt_key" });
       }
     }
 
@@ -251,151 +375,122 @@ Deno.serve(async (req) => {
       
       // Validate format
       if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
-        return jsonError(500, "Decrypted private key is not valid 32-byte hex", { step: "decrypt_key" });
+        return fail(500, "Decrypted private key is not valid 32-byte hex", { step: "decrypt_key" });
       }
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Wallet decryption failed";
-      return jsonError(500, msg, { step: "decrypt_key" });
+      return fail(500, msg, { step: "decrypt_key" });
     }
 
     logStep("decrypt_ok");
 
-    // 7) Load crypto libs for signing
-    logStep("signer_init");
-
-    let keccak_256: (data: Uint8Array) => Uint8Array;
-    let secp256k1: { sign: (hash: Uint8Array, privKey: Uint8Array) => { r: bigint; s: bigint; recovery: number } };
-
-    try {
-      const sha3Module = await import("https://esm.sh/@noble/hashes@1.3.3/sha3");
-      keccak_256 = sha3Module.keccak_256;
-
-      const curvesModule = await import("https://esm.sh/@noble/curves@1.3.0/secp256k1");
-      secp256k1 = curvesModule.secp256k1;
-    } catch {
-      return jsonError(500, "Failed to load crypto libraries", { step: "signer_init" });
-    }
-
-    // 8) Chain state
+    // 7) Tx manager: reserved nonce + EIP-1559 fees for this wallet
     logStep("tx_build", { asset });
 
-    let nonce: bigint;
-    let gasPrice: bigint;
+    const txManager = createTxManager({
+      supabase: supabaseAdmin,
+      rpc: jsonRpc(BASE_RPC),
+      chainId: 8453,
+      from: wallet.wallet_address,
+    });
 
+    let fees: TxFees;
     try {
-      nonce = await getNonce(wallet.wallet_address);
-      gasPrice = await getGasPrice();
+      fees = await txManager.estimateFees();
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Failed to fetch blockchain state";
-      return jsonError(500, msg, { step: "tx_build" });
+      return fail(500, msg, { step: "tx_build" });
     }
 
-    // 9) Balance checks
+    // 8) Balance checks (worst case: maxFeePerGas for every unit of gas)
     const gasLimit = asset === "ETH" ? 21000n : 100000n;
+    let call: TxCall;
+
+    let balanceWei: bigint;
+    let tokenBal = 0n;
+    try {
+      balanceWei = await getEthBalance(wallet.wallet_address);
+      if (asset !== "ETH") tokenBal = await getErc20Balance(TOKENS[asset].address, wallet.wallet_address);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Failed to fetch balances";
+      return fail(502, msg, { step: "tx_build" });
+    }
 
     if (asset === "ETH") {
       const amountWei = BigInt(Math.floor(amount * 1e18));
-      const balanceWei = await getEthBalance(wallet.wallet_address);
-      const requiredWei = amountWei + gasLimit * gasPrice;
+      const requiredWei = amountWei + gasLimit * fees.maxFeePerGas;
 
       if (balanceWei < requiredWei) {
-        return jsonError(422, "Insufficient ETH for amount + gas", {
+        return fail(422, "Insufficient ETH for amount + gas", {
           step: "tx_build",
           balance_wei: balanceWei.toString(),
           required_wei: requiredWei.toString(),
         });
       }
+
+      call = { to: to_address, value: amountWei, data: "0x", gas: gasLimit };
     } else {
       const token = TOKENS[asset];
       const amountRaw = BigInt(Math.floor(amount * 10 ** token.decimals));
 
-      const tokenBal = await getErc20Balance(token.address, wallet.wallet_address);
       if (tokenBal < amountRaw) {
-        return jsonError(422, `Insufficient ${asset} balance`, {
+        return fail(422, `Insufficient ${asset} balance`, {
           step: "tx_build",
           balance_raw: tokenBal.toString(),
           required_raw: amountRaw.toString(),
         });
       }
 
-      const balanceWei = await getEthBalance(wallet.wallet_address);
-      const gasWei = gasLimit * gasPrice;
+      const gasWei = gasLimit * fees.maxFeePerGas;
       if (balanceWei < gasWei) {
-        return jsonError(422, "Insufficient ETH to pay gas", {
+        return fail(422, "Insufficient ETH to pay gas", {
           step: "tx_build",
           required_wei: gasWei.toString(),
         });
       }
+
+      const paddedTo = to_address.slice(2).toLowerCase().padStart(64, "0");
+      const paddedAmount = amountRaw.toString(16).padStart(64, "0");
+      call = { to: token.address, value: 0n, data: ERC20_TRANSFER_SELECTOR + paddedTo + paddedAmount, gas: gasLimit };
     }
 
-    // 10) Build + sign + send tx (SINGLE signing path)
+    // 9) Sign + send (SINGLE signing path)
     logStep("tx_send", { asset });
 
-    let txHash: string;
-
-    try {
-      if (asset === "ETH") {
-        const amountWei = BigInt(Math.floor(amount * 1e18));
-
-        const tx = {
-          nonce,
-          gasPrice,
-          gasLimit,
-          to: to_address,
-          value: amountWei,
-          data: "0x",
-          chainId: 8453n,
-        };
-
-        txHash = await signAndSendTransaction(tx, privateKey, keccak_256, secp256k1);
-      } else {
-        const token = TOKENS[asset];
-        const amountRaw = BigInt(Math.floor(amount * 10 ** token.decimals));
-
-        const paddedTo = to_address.slice(2).toLowerCase().padStart(64, "0");
-        const paddedAmount = amountRaw.toString(16).padStart(64, "0");
-        const data = ERC20_TRANSFER_SELECTOR + paddedTo + paddedAmount;
-
-        const tx = {
-          nonce,
-          gasPrice,
-          gasLimit,
-          to: token.address,
-          value: 0n,
-          data,
-          chainId: 8453n,
-        };
-
-        txHash = await signAndSendTransaction(tx, privateKey, keccak_256, secp256k1);
-      }
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : "Transaction failed";
-      return jsonError(500, msg, { step: "tx_send" });
+    // From here the tx may be on the network: an unexpected error must not fail the request
+    failOpenRequest = null;
+    const sent = await txManager.send(call, (tx) => signWithPrivateKey(privateKey, tx), {
+      kind: "withdrawal",
+      signerKind: "execution_wallet",
+      walletId: wallet.id,
+      userId: ownerId,
+    });
+    if (!sent.ok) {
+      return fail(500, sent.error, { step: sent.stage === "prepare" ? "tx_build" : "tx_send" });
     }
+    const txHash = sent.txHash;
 
     logStep("tx_send_ok", { tx_hash: txHash });
 
-    // 11) Audit log (best effort)
-    try {
-      await supabaseAdmin.from("withdrawal_audit_log").insert({
-        user_id: user.id,
-        wallet_id: wallet.id,
-        asset,
-        amount,
-        to_address,
-        tx_hash: txHash,
-        status: "submitted",
-      });
-    } catch (e) {
-      logStep("audit_log_failed", {
-        message: e instanceof Error ? e.message : String(e),
-      });
-    }
+    // 10) Request + audit log
+    await supabaseAdmin
+      .from("withdrawal_requests")
+      .update({ status: "submitted", tx_hash: txHash })
+      .eq("id", requestId);
+    await auditStep("submitted", { tx_hash: txHash });
 
-    return jsonSuccess({ tx_hash: txHash });
+    return jsonSuccess({ status: "submitted", tx_hash: txHash, request_id: requestId });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Internal server error";
     console.error("[execution-wallet-withdraw] Unhandled error:", error);
+    if (failOpenRequest) {
+      // The open request would otherwise stay processing and count towards velocity
+      try {
+        return await failOpenRequest(message);
+      } catch (markError) {
+        console.error("[execution-wallet-withdraw] Failed to mark request failed:", markError);
+      }
+    }
     return jsonError(500, message);
   }
 });
@@ -404,23 +499,6 @@ Deno.serve(async (req) => {
 // Blockchain RPC helpers
 // ─────────────────────────────────────────────────────────────
 
-async function getNonce(address: string): Promise<bigint> {
-  const response = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_getTransactionCount",
-      params: [address, "latest"],
-    }),
-  });
-
-  const data = await response.json();
-  if (data?.error) throw new Error(data.error.message || "eth_getTransactionCount failed");
-  return BigInt(data.result || "0x0");
-}
-
 async function getEthBalance(address: string): Promise<bigint> {
   const response = await fetch(BASE_RPC, {
     method: "POST",
@@ -438,26 +516,6 @@ async function getEthBalance(address: string): Promise<bigint> {
   return BigInt(data.result || "0x0");
 }
 
-async function getGasPrice(): Promise<bigint> {
-  const response = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_gasPrice",
-      params: [],
-    }),
-  });
-
-  const data = await response.json();
-  if (data?.error) throw new Error(data.error.message || "eth_gasPrice failed");
-
-  // Add 10% buffer
-  const basePrice = BigInt(data.result || "0x1");
-  return basePrice + basePrice / 10n;
-}
-
 async function getErc20Balance(tokenAddress: string, holder: string): Promise<bigint> {
   // balanceOf(address) selector 0x70a08231
   const selector = "70a08231";
@@ -480,108 +538,3 @@ async function getErc20Balance(tokenAddress: string, holder: string): Promise<bi
 
   return BigInt(data.result || "0x0");
 }
-
-// ─────────────────────────────────────────────────────────────
-// Transaction signing (SINGLE signing path for execution wallets)
-// ─────────────────────────────────────────────────────────────
-
-async function signAndSendTransaction(
-  tx: {
-    nonce: bigint;
-    gasPrice: bigint;
-    gasLimit: bigint;
-    to: string;
-    value: bigint;
-    data: string;
-    chainId: bigint;
-  },
-  privateKey: string,
-  keccak_256: (data: Uint8Array) => Uint8Array,
-  secp256k1: {
-    sign: (hash: Uint8Array, privKey: Uint8Array) => { r: bigint; s: bigint; recovery: number };
-  },
-): Promise<string> {
-  // RLP encode for signing (legacy tx)
-  const rlpForSigning = rlpEncode([tx.nonce, tx.gasPrice, tx.gasLimit, tx.to, tx.value, tx.data, tx.chainId, 0n, 0n]);
-
-  // Hash
-  const txHash = keccak_256(rlpForSigning);
-
-  // Sign
-  const pkBytes = hexToBytes(privateKey);
-  const sig = secp256k1.sign(txHash, pkBytes);
-
-  const r = sig.r;
-  const s = sig.s;
-  const v = tx.chainId * 2n + 35n + BigInt(sig.recovery);
-
-  // RLP encode signed tx
-  const signedRlp = rlpEncode([tx.nonce, tx.gasPrice, tx.gasLimit, tx.to, tx.value, tx.data, v, r, s]);
-
-  const rawTx = "0x" + bytesToHex(signedRlp);
-
-  const response = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_sendRawTransaction",
-      params: [rawTx],
-    }),
-  });
-
-  const result = await response.json();
-  if (result?.error) {
-    throw new Error(result.error.message || "eth_sendRawTransaction failed");
-  }
-  if (!result?.result) {
-    throw new Error("No transaction hash returned");
-  }
-
-  return result.result as string;
-}
-
-// ─────────────────────────────────────────────────────────────
-// RLP encoding helpers
-// ─────────────────────────────────────────────────────────────
-
-function rlpEncode(items: (bigint | string | number)[]): Uint8Array {
-  const encodedItems = items.map(encodeRlpItem);
-  const totalLen = encodedItems.reduce((acc, b) => acc + b.length, 0);
-  return concatBytes([rlpLength(totalLen, 0xc0), ...encodedItems]);
-}
-
-function encodeRlpItem(item: bigint | string | number): Uint8Array {
-  if (typeof item === "bigint") {
-    if (item === 0n) return new Uint8Array([0x80]);
-    let hex = item.toString(16);
-    if (hex.length % 2) hex = "0" + hex;
-    const bytes = hexToBytes(hex);
-    if (bytes.length === 1 && bytes[0] < 0x80) return bytes;
-    return concatBytes([rlpLength(bytes.length, 0x80), bytes]);
-  }
-
-  if (typeof item === "string") {
-    if (item === "" || item === "0x") return new Uint8Array([0x80]);
-    const clean = item.startsWith("0x") ? item.slice(2) : item;
-    if (clean === "") return new Uint8Array([0x80]);
-    const bytes = hexToBytes(clean);
-    if (bytes.length === 1 && bytes[0] < 0x80) return bytes;
-    return concatBytes([rlpLength(bytes.length, 0x80), bytes]);
-  }
-
-  if (typeof item === "number") {
-    return encodeRlpItem(BigInt(item));
-  }
-
-  return new Uint8Array([0x80]);
-}
-
-function rlpLength(len: number, offset: number): Uint8Array {
-  if (len < 56) return new Uint8Array([offset + len]);
-  let hex = len.toString(16);
-  if (hex.length % 2) hex = "0" + hex;
-  const lenBytes = hexToBytes(hex);
-  return concatBytes([new Uint8Array([offset + 55 + lenBytes.length]), lenBytes]);
-}
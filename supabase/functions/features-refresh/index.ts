@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { logger } from '../_shared/logger.ts';
+import { classifyRegime } from '../_shared/volatilityRegime.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -260,7 +261,7 @@ async function computeFeatures(
     const vol_24h = i >= ret_24h_window ? getVolatility(Math.max(0, i - ret_24h_window), i) : null;
     const vol_7d = i >= ret_7d_window ? getVolatility(Math.max(0, i - ret_7d_window), i) : null;
     
-    features.push({
+    const row = {
       symbol,
       granularity,
       ts_utc,
@@ -283,7 +284,10 @@ async function computeFeatures(
       ema_50: Number.isFinite(ema50[i]) ? ema50[i] : null,
       ema_200: Number.isFinite(ema200[i]) ? ema200[i] : null,
       updated_at: new Date().toISOString(),
-    });
+    };
+
+    // Regime label from the row's own vol / returns / EMA structure
+    features.push({ ...row, volatility_regime: classifyRegime(row)?.regime ?? null });
   }
 
   if (features.length === 0) {
@@ -1,8 +1,29 @@
 // @ts-nocheck
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { createLlmClient, LLM_DEFAULTS, llmProviderFromConfig, loadLlmConfiguration } from '../_shared/llm.ts';
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+const GENERATED_STRATEGY_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description', 'riskLevel', 'indicators', 'triggers', 'settings'],
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    riskLevel: { type: 'string', enum: ['Low', 'Medium', 'High'] },
+    indicators: { type: 'object' },
+    triggers: {
+      type: 'object',
+      properties: {
+        buySignals: { type: 'array', items: { type: 'string' } },
+        sellSignals: { type: 'array', items: { type: 'string' } },
+        stopLoss: { type: 'number' },
+        takeProfit: { type: 'number' },
+      },
+    },
+    settings: { type: 'object' },
+  },
+};
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,13 +36,26 @@ serve(async (req) => {
   }
 
   try {
-    if (!openAIApiKey) {
+    const supabase = createClient(
+      Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const llmConfig = await loadLlmConfiguration(supabase);
+    let provider;
+    try {
+      provider = llmProviderFromConfig(llmConfig, (key) => Deno.env.get(key));
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured. Please contact admin.' }),
+        JSON.stringify({ error: `${error.message}. Please contact admin.` }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // Usage is attributed to the caller when the request carries a user JWT
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token ? await supabase.auth.getUser(token) : { data: null };
+
     const { prompt } = await req.json();
 
     if (!prompt) {
@@ -59,29 +93,24 @@ Return a JSON object with the following structure:
 
 Make realistic and safe recommendations based on the user's description.`;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
+    const llm = createLlmClient(provider, {
+      supabase,
+      userId: userData?.user?.id ?? null,
+      functionName: 'generate-ai-strategy',
+      temperature: Number(llmConfig.temperature ?? LLM_DEFAULTS.TEMPERATURE),
+      maxTokens: llmConfig.max_tokens ?? LLM_DEFAULTS.MAX_TOKENS,
+    });
+
+    const { data: strategyConfig } = await llm.completeJson(
+      {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: "json_object" }
-      }),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.error?.message || 'OpenAI API error');
-    }
-
-    const strategyConfig = JSON.parse(data.choices[0].message.content);
+      },
+      GENERATED_STRATEGY_SCHEMA,
+      'generated_strategy',
+    );
 
     return new Response(
       JSON.stringify({ strategy: strategyConfig }),
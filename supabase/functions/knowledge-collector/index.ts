@@ -2,6 +2,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { embeddingProviderFromEnv, indexKnowledgeDocument } from '../_shared/knowledgeEmbeddings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -171,11 +172,27 @@ async function fetchRedditFeed(subreddit: string, lastSync: string | null): Prom
   }
 }
 
+/**
+ * Chunk + embed a freshly stored document. Failures are logged, not thrown:
+ * the document is kept and can be re-indexed later.
+ */
+async function embedDocument(supabase: any, doc: { id: string; title: string; content: string; metadata: any }): Promise<number> {
+  try {
+    const provider = embeddingProviderFromEnv((key) => Deno.env.get(key));
+    const chunks = await indexKnowledgeDocument(supabase, provider, doc);
+    console.log(`🧩 Embedded ${chunks} chunks for document ${doc.id} (${provider.model})`);
+    return chunks;
+  } catch (error) {
+    console.error(`❌ Failed to embed document ${doc.id}:`, error);
+    return 0;
+  }
+}
+
 async function handleStaticSource(
   supabase: any,
   source: any,
   config: SourceConfiguration
-): Promise<number> {
+): Promise<{ documents: number; chunks: number }> {
   console.log(`📄 Processing STATIC source: ${source.source_name}`);
   
   let title = '';
@@ -207,7 +224,7 @@ async function handleStaticSource(
   }
   
   // Insert document into knowledge_documents
-  const { error: insertError } = await supabase
+  const { data: document, error: insertError } = await supabase
     .from('knowledge_documents')
     .insert({
       source_id: source.id,
@@ -215,22 +232,26 @@ async function handleStaticSource(
       title,
       content,
       metadata
-    });
+    })
+    .select('id')
+    .single();
   
   if (insertError) {
     console.error('❌ Error inserting knowledge document:', insertError);
     throw insertError;
   }
   
+  const chunks = await embedDocument(supabase, { id: document.id, title, content, metadata });
+  
   console.log(`✅ Created 1 knowledge document for static source ${source.source_name}`);
-  return 1;
+  return { documents: 1, chunks };
 }
 
 async function handleFeedSource(
   supabase: any,
   source: any,
   config: SourceConfiguration
-): Promise<number> {
+): Promise<{ documents: number; chunks: number }> {
   console.log(`🔄 Processing FEED source: ${source.source_name}`);
   
   let items: Array<{ title: string; content: string; metadata: any }> = [];
@@ -261,8 +282,9 @@ async function handleFeedSource(
   
   // Insert each item as a separate knowledge document
   let documentsCreated = 0;
+  let chunksCreated = 0;
   for (const item of items) {
-    const { error: insertError } = await supabase
+    const { data: document, error: insertError } = await supabase
       .from('knowledge_documents')
       .insert({
         source_id: source.id,
@@ -270,7 +292,9 @@ async function handleFeedSource(
         title: item.title,
         content: item.content,
         metadata: item.metadata
-      });
+      })
+      .select('id')
+      .single();
     
     if (insertError) {
       console.error('❌ Error inserting knowledge document:', insertError);
@@ -279,10 +303,11 @@ async function handleFeedSource(
     }
     
     documentsCreated++;
+    chunksCreated += await embedDocument(supabase, { id: document.id, ...item });
   }
   
   console.log(`✅ Created ${documentsCreated} knowledge documents for feed source ${source.source_name}`);
-  return documentsCreated;
+  return { documents: documentsCreated, chunks: chunksCreated };
 }
 
 serve(async (req) => {
@@ -334,13 +359,13 @@ serve(async (req) => {
     const config: SourceConfiguration = source.configuration || {};
     const refreshMode = config.refresh_mode || 'static';
     
-    let documentsCreated = 0;
+    let created = { documents: 0, chunks: 0 };
     
     // Process based on refresh_mode
     if (refreshMode === 'static') {
-      documentsCreated = await handleStaticSource(supabase, source, config);
+      created = await handleStaticSource(supabase, source, config);
     } else if (refreshMode === 'feed') {
-      documentsCreated = await handleFeedSource(supabase, source, config);
+      created = await handleFeedSource(supabase, source, config);
     } else {
       throw new Error(`Unknown refresh_mode: ${refreshMode}`);
     }
@@ -361,7 +386,8 @@ serve(async (req) => {
     return new Response(JSON.stringify({ 
       success: true,
       sourceId,
-      documents_created: documentsCreated
+      documents_created: created.documents,
+      chunks_embedded: created.chunks
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,116 @@
+/**
+ * ml-model-evaluation — online metrics for registered ML models
+ *
+ * cron { scheduled: true }                    hourly refresh (x-cron-secret)
+ * admin POST { horizon?: string, lookbackDays?: number }
+ *
+ * Joins entry snapshots that recorded per-model scores (ml_shadow.models, see
+ * backend-shadow-engine) with decision_outcomes of one horizon evaluated in the
+ * lookback window, and writes each model's precision / recall and P&L
+ * attribution to ml_models.online_metrics (see _shared/modelRegistry.ts).
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { fetchDecisionContext, fetchOutcomes, horizonMs } from '../_shared/trainingDataset.ts';
+import { evaluateModels, evaluationSamples, MODEL_REGISTRY_DEFAULTS } from '../_shared/modelRegistry.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function runEvaluation(horizon: string, lookbackDays: number) {
+  const now = new Date().toISOString();
+  const since = new Date(Date.now() - lookbackDays * 86_400_000).toISOString();
+
+  const { data: models, error: modelsError } = await supabase
+    .from('ml_models')
+    .select('id, name, version, status')
+    .neq('status', 'retired');
+  if (modelsError) throw new Error(`ml_models: ${modelsError.message}`);
+  if (!models?.length) return { horizon, since, samples: 0, models: [] };
+
+  const outcomes = await fetchOutcomes(supabase, { horizon, asOf: now, evaluatedFrom: since });
+  const { snapshots } = await fetchDecisionContext(supabase, [...new Set(outcomes.map((o) => o.decision_id))]);
+  const samples = evaluationSamples(snapshots, outcomes);
+  const metrics = evaluateModels(samples, { horizon, since, now });
+
+  const updated = [];
+  for (const model of models) {
+    const online = metrics[model.id] ?? null;
+    const { error } = await supabase
+      .from('ml_models')
+      .update({ online_metrics: online, online_metrics_at: now })
+      .eq('id', model.id);
+    if (error) {
+      console.error('ML_MODEL_EVALUATION_UPDATE_FAILED', { modelId: model.id, error: error.message });
+      continue;
+    }
+    updated.push({
+      id: model.id,
+      name: model.name,
+      version: model.version,
+      status: model.status,
+      samples: online?.samples ?? 0,
+      precision: online?.precision ?? null,
+      recall: online?.recall ?? null,
+    });
+  }
+
+  console.log('ML_MODEL_EVALUATION_RUN', { horizon, since, outcomes: outcomes.length, samples: samples.length, models: updated.length });
+  return { horizon, since, samples: samples.length, models: updated };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ success: false, error: 'method_not_allowed' }, 405);
+
+  const body: { scheduled?: boolean; horizon?: string; lookbackDays?: number } =
+    await req.json().catch(() => ({}));
+
+  if (body?.scheduled === true) {
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      console.error('❌ ML_MODEL_EVALUATION: CRON_SECRET mismatch or not set');
+      return json({ success: false, error: 'forbidden' }, 403);
+    }
+  } else {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) return json({ success: false, error: 'unauthorized' }, 401);
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !userData?.user) return json({ success: false, error: 'unauthorized' }, 401);
+
+    const { data: role } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userData.user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+    if (!role) return json({ success: false, error: 'admin_required' }, 403);
+  }
+
+  const horizon = body.horizon ?? MODEL_REGISTRY_DEFAULTS.EVALUATION_HORIZON;
+  const lookbackDays = body.lookbackDays ?? MODEL_REGISTRY_DEFAULTS.EVALUATION_LOOKBACK_DAYS;
+  try {
+    horizonMs(horizon);
+  } catch (err) {
+    return json({ success: false, error: String((err as Error).message) }, 400);
+  }
+  if (!(lookbackDays > 0)) return json({ success: false, error: 'lookbackDays must be positive' }, 400);
+
+  try {
+    return json({ success: true, ...(await runEvaluation(horizon, lookbackDays)) });
+  } catch (err) {
+    const message = String((err as Error)?.message ?? err);
+    console.error('ML_MODEL_EVALUATION_FAILED', { horizon, error: message });
+    return json({ success: false, error: message }, 500);
+  }
+});
@@ -4,7 +4,8 @@
  * ADDITIVE ONLY - Does not touch execution_wallets or is_funded flag (Flow A)
  * 
  * This edge function implements Flow B (deposit attribution):
- * - Polls Base chain for transactions to the system wallet (BOT_ADDRESS)
+ * - Polls one chain per call for transactions to the system wallet (BOT_ADDRESS)
+ *   (body.chain_id, default Base 8453; must be in ONCHAIN_ENABLED_CHAIN_IDS)
  * - For each inbound tx:
  *   - Extracts tx.from, tx.hash, amount, block, etc.
  *   - Calls lookup_user_by_external_address to find matching user
@@ -23,15 +24,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 import { corsHeaders, withCors } from "../_shared/cors.ts";
 import { logger } from "../_shared/logger.ts";
+import { BASE_CHAIN_ID, getChain, getRpcUrl, isExecutionChainEnabled } from "../_shared/chains.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const BASE_RPC_URL = Deno.env.get("BASE_RPC_URL") || "https://mainnet.base.org";
 const BOT_ADDRESS = Deno.env.get("BOT_ADDRESS"); // System wallet address
 
-const BASE_CHAIN_ID = 8453;
-const WETH_ADDRESS = "0x4200000000000000000000000000000000000006";
-const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+// ERC20 deposits attributed per chain (addresses/decimals from _shared/chains.ts)
+const DEPOSIT_ASSETS = ["WETH", "USDC"] as const;
 
 // ERC20 Transfer event signature
 const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
@@ -45,8 +45,8 @@ const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 /**
  * Fetch a single block with full transactions via individual RPC call.
  */
-async function fetchBlockSingle(blockNum: number): Promise<any> {
-  const resp = await fetch(BASE_RPC_URL, {
+async function fetchBlockSingle(rpcUrl: string, blockNum: number): Promise<any> {
+  const resp = await fetch(rpcUrl, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -132,6 +132,7 @@ interface TransferEvent {
  * Returns an array of results in the same order as the calls.
  */
 async function batchRpc(
+  rpcUrl: string,
   calls: Array<{ method: string; params: unknown[]; id: number }>
 ): Promise<any[]> {
   const body = calls.map((c) => ({
@@ -141,7 +142,7 @@ async function batchRpc(
     id: c.id,
   }));
 
-  const resp = await fetch(BASE_RPC_URL, {
+  const resp = await fetch(rpcUrl, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(body),
@@ -184,8 +185,12 @@ Deno.serve(async (req) => {
     let lookbackBlocks = 200; // Default: ~6 minutes on Base
     let explicitFromBlock: number | null = null;
     let explicitToBlock: number | null = null;
+    let chainId = BASE_CHAIN_ID;
     try {
       const body = await req.json();
+      if (body?.chain_id && typeof body.chain_id === "number") {
+        chainId = body.chain_id;
+      }
       if (body?.lookback_blocks && typeof body.lookback_blocks === "number") {
         lookbackBlocks = Math.min(body.lookback_blocks, 1000);
       }
@@ -199,8 +204,15 @@ Deno.serve(async (req) => {
       // No body or invalid JSON - use defaults
     }
 
+    if (!isExecutionChainEnabled(chainId)) {
+      return withCors({ error: `Chain ${chainId} is not enabled for execution` }, 400);
+    }
+    const chain = getChain(chainId)!;
+    const rpcUrl = getRpcUrl(chainId)!;
+    const depositTokens = DEPOSIT_ASSETS.map((symbol) => ({ symbol, ...chain.tokens[symbol] }));
+
     // Get current block number
-    const blockNumResponse = await fetch(BASE_RPC_URL, {
+    const blockNumResponse = await fetch(rpcUrl, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -218,6 +230,7 @@ Deno.serve(async (req) => {
 
     logger.info("[deposit-watcher] Starting scan", {
       bot_address: botAddressLower.slice(0, 10) + "...",
+      chain_id: chainId,
       from_block: fromBlock,
       to_block: toBlock,
       explicit_from: !!explicitFromBlock,
@@ -265,7 +278,7 @@ Deno.serve(async (req) => {
       let batchWorked = false;
 
       try {
-        const results = await batchRpc(calls);
+        const results = await batchRpc(rpcUrl, calls);
 
         // Check if batch actually returned valid block data
         const validCount = results.filter(
@@ -306,7 +319,7 @@ Deno.serve(async (req) => {
         usedSequentialFallback = true;
         for (const blockNum of batch) {
           try {
-            const blockResult = await fetchBlockSingle(blockNum);
+            const blockResult = await fetchBlockSingle(rpcUrl, blockNum);
             const found = extractEthTransfers(blockResult, blockNum, botAddressLower, true);
             for (const t of found) {
               transfers.push(t);
@@ -334,7 +347,7 @@ Deno.serve(async (req) => {
     // ──────────────────────────────────────────────
     // 2. Scan for ERC20 transfers (WETH, USDC) — single eth_getLogs call
     // ──────────────────────────────────────────────
-    const erc20Logs = await fetch(BASE_RPC_URL, {
+    const erc20Logs = await fetch(rpcUrl, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -344,7 +357,7 @@ Deno.serve(async (req) => {
           {
             fromBlock: "0x" + fromBlock.toString(16),
             toBlock: "0x" + toBlock.toString(16),
-            address: [WETH_ADDRESS, USDC_ADDRESS],
+            address: depositTokens.map((t) => t.address),
             topics: [
               TRANSFER_TOPIC,
               null, // from (any)
@@ -374,7 +387,7 @@ Deno.serve(async (req) => {
         }));
 
         try {
-          const tsResults = await batchRpc(tsCalls);
+          const tsResults = await batchRpc(rpcUrl, tsCalls);
           for (let k = 0; k < tsResults.length; k++) {
             if (tsResults[k]?.result?.timestamp) {
               blockTimestampMap[uniqueBlocks[k]] = new Date(
@@ -394,15 +407,9 @@ Deno.serve(async (req) => {
         const amount = BigInt(log.data);
         const tokenAddress = log.address.toLowerCase();
 
-        let asset = "UNKNOWN";
-        let decimals = 18;
-        if (tokenAddress === WETH_ADDRESS.toLowerCase()) {
-          asset = "WETH";
-          decimals = 18;
-        } else if (tokenAddress === USDC_ADDRESS.toLowerCase()) {
-          asset = "USDC";
-          decimals = 6;
-        }
+        const token = depositTokens.find((t) => t.address.toLowerCase() === tokenAddress);
+        const asset = token?.symbol ?? "UNKNOWN";
+        const decimals = token?.decimals ?? 18;
 
         const blockTimestamp =
           blockTimestampMap[log.blockNumber] || new Date().toISOString();
@@ -461,7 +468,7 @@ Deno.serve(async (req) => {
         const lookupResult = await supabaseAdmin.rpc(
           "lookup_user_by_external_address",
           {
-            p_chain_id: BASE_CHAIN_ID,
+            p_chain_id: chainId,
             p_address: transfer.fromAddress,
           }
         );
@@ -484,7 +491,7 @@ Deno.serve(async (req) => {
 
           await supabaseAdmin.from("unattributed_deposits").insert({
             tx_hash: transfer.txHash,
-            chain_id: BASE_CHAIN_ID,
+            chain_id: chainId,
             from_address: transfer.fromAddress,
             to_address: transfer.toAddress,
             amount: transfer.amount,
@@ -505,7 +512,7 @@ Deno.serve(async (req) => {
 
           await supabaseAdmin.from("unattributed_deposits").insert({
             tx_hash: transfer.txHash,
-            chain_id: BASE_CHAIN_ID,
+            chain_id: chainId,
             from_address: transfer.fromAddress,
             to_address: transfer.toAddress,
             amount: transfer.amount,
@@ -565,7 +572,7 @@ Deno.serve(async (req) => {
             {
               p_user_id: userId,
               p_tx_hash: transfer.txHash,
-              p_chain_id: BASE_CHAIN_ID,
+              p_chain_id: chainId,
               p_from_address: transfer.fromAddress,
               p_amount: transfer.amount,
               p_amount_raw: transfer.amountRaw,
@@ -623,6 +630,7 @@ Deno.serve(async (req) => {
         unmatched,
         ambiguous,
         already_processed: alreadyProcessed,
+        chain_id: chainId,
         block_range: { from: fromBlock, to: toBlock },
       },
       duration_ms: durationMs,
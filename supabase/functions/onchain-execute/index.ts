@@ -1,5 +1,5 @@
 /**
- * On-Chain Swap Execution API (Base 8453 - WETH→USDC via 0x v2)
+ * On-Chain Swap Execution API (Base 8453 by default; chains from _shared/chains.ts - WETH↔USDC via 0x v2)
  * 
  * Safety Controls:
  * - EXECUTION_DRY_RUN: Default true (safe by default). Set to 'false' for live execution.
@@ -32,12 +32,14 @@
  */
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { simulateCall, sendRawTransaction, waitForReceipt } from '../_shared/eth.ts';
+import { simulateCall, waitForReceipt } from '../_shared/eth.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { BASE_CHAIN_ID } from '../_shared/addresses.ts';
+import { getChain, getRpcUrl, isExecutionChainEnabled } from '../_shared/chains.ts';
 import { makePermit2Payload } from '../_shared/permit2Payload.ts';
 import { signPermit2Single } from '../_shared/permit2Signer.ts';
 import { logger } from '../_shared/logger.ts';
+import { createTxManager, jsonRpc } from '../_shared/txManager.ts';
 
 const PROJECT_URL = Deno.env.get('SB_URL')!;
 const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE')!;
@@ -268,6 +270,16 @@ async function runPreflight(
   return null;
 }
 
+/**
+ * Broadcast a client-signed tx and track it in managed_transactions so
+ * tx-manager-monitor reports mined / dropped / stuck.
+ */
+function broadcastClientSigned(chainId: number, taker: string | null | undefined, signedTx: string, tradeId: string) {
+  // Sender and nonce are read back from the node for external txs
+  const txManager = createTxManager({ supabase, rpc: jsonRpc(getRpcUrl(chainId)!), chainId, from: taker ?? '' });
+  return txManager.broadcastExternal(signedTx, { kind: 'swap', tradeId });
+}
+
 /**
  * Handle send-only request: broadcast a signed transaction for an existing built trade
  */
@@ -303,14 +315,14 @@ async function handleSendOnly(tradeId: string, signedTx: string) {
 
   // Broadcast transaction
   console.log('Broadcasting signed transaction...');
-  const sendResult = await sendRawTransaction(trade.chain_id, signedTx);
+  const sendResult = await broadcastClientSigned(trade.chain_id, trade.taker, signedTx, tradeId);
 
-  if (!sendResult.success) {
+  if (!sendResult.ok) {
     // Log error event
     await addTradeEvent(tradeId, 'error', 'error', {
       phase: 'submit',
       error: sendResult.error,
-      rpcError: sendResult,
+      rpcError: sendResult.rpcError,
     });
 
     // Keep status as 'built' so user can retry
@@ -320,14 +332,14 @@ async function handleSendOnly(tradeId: string, signedTx: string) {
         error: {
           code: 'BROADCAST_FAILED',
           message: sendResult.error || 'Failed to broadcast transaction',
-          rpcBody: sendResult,
+          rpcBody: sendResult.rpcError,
         },
       }),
       { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 
-  const txHash = sendResult.txHash!;
+  const txHash = sendResult.txHash;
   
   // ============================================================================
   // PHASE 1 OBSERVABILITY: ONCHAIN_TX_SUBMITTED (handleSendOnly path)
@@ -358,7 +370,7 @@ async function handleSendOnly(tradeId: string, signedTx: string) {
       ok: true,
       tradeId,
       tx_hash: txHash,
-      network: trade.chain_id === 8453 ? 'base' : `chain-${trade.chain_id}`,
+      network: getChain(trade.chain_id)?.key ?? `chain-${trade.chain_id}`,
     }),
     { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   );
@@ -652,21 +664,22 @@ Deno.serve(async (req) => {
     });
 
     // ========== Permit2 Signing Integration ==========
-    // Auto-sign Permit2 approval for server-signed trades on Base with 0x provider
+    // Auto-sign Permit2 approval for server-signed trades with 0x provider on enabled chains
     // Supports: SELL WETH/ETH, BUY (spending USDC)
     let permit2Data: any = null;
     
-    const WETH_BASE = "0x4200000000000000000000000000000000000006" as const;
-    const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
-    const OX_PROXY = "0xDef1C0ded9bec7F1a1670819833240f027b25EfF" as const;
-    const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as const;
+    const chainConfig = getChain(chainId);
+    const WETH_ADDRESS = chainConfig?.tokens.WETH?.address as `0x${string}` | undefined;
+    const USDC_ADDRESS = chainConfig?.tokens.USDC?.address as `0x${string}` | undefined;
+    const OX_PROXY = chainConfig?.zeroExSpender as `0x${string}` | undefined;
+    const PERMIT2 = chainConfig?.permit2;
     
     // Declare tradeId early so Permit2 logic can reference it safely (set after trade insert)
     let tradeId: string | undefined;
     
     // Helper: Check Permit2 allowance directly on-chain (no Edge Function call)
     async function getPermit2Allowance(owner: string, token: string, spender: string): Promise<bigint> {
-      const RPC_URL = Deno.env.get('RPC_URL_8453') || 'https://base.llamarpc.com';
+      const RPC_URL = getRpcUrl(chainId)!;
       // function allowance(address owner, address token, address spender) returns ((uint160 amount, uint48 expiration, uint48 nonce))
       const allowanceData = `0x927da105${
         owner.slice(2).padStart(64, '0')}${
@@ -702,7 +715,7 @@ Deno.serve(async (req) => {
     // Skip Permit2 entirely if quote uses native ETH (transaction.value > 0)
     const txValue = quoteData.raw?.transaction?.value || quoteData.raw?.value || '0';
     const txValueIsZero = BigInt(txValue) === 0n;
-    const shouldAutoSignPermit2 = provider === '0x' && chainId === BASE_CHAIN_ID && taker && quoteData.raw?.sellAmount && (isSellWeth || isBuyWithUsdc) && txValueIsZero;
+    const shouldAutoSignPermit2 = provider === '0x' && isExecutionChainEnabled(chainId) && !!WETH_ADDRESS && !!USDC_ADDRESS && !!OX_PROXY && taker && quoteData.raw?.sellAmount && (isSellWeth || isBuyWithUsdc) && txValueIsZero;
     
     if (!txValueIsZero && (isSellWeth || isBuyWithUsdc)) {
       console.log(`✅ Permit2 skipped: native ETH flow (tx.value=${txValue})`);
@@ -710,12 +723,12 @@ Deno.serve(async (req) => {
     
     if (shouldAutoSignPermit2) {
       // Determine the token address for Permit2
-      const permit2Token = isSellWeth ? WETH_BASE : USDC_BASE;
+      const permit2Token = (isSellWeth ? WETH_ADDRESS : USDC_ADDRESS)!;
       const tokenName = isSellWeth ? 'WETH' : 'USDC';
       const requiredAmount = BigInt(quoteData.raw.sellAmount);
       
       // Step 1: Check existing Permit2 allowance on-chain
-      const existingAllowance = await getPermit2Allowance(taker, permit2Token, OX_PROXY);
+      const existingAllowance = await getPermit2Allowance(taker, permit2Token, OX_PROXY!);
       
       logger.info('onchain_execute.permit2_allowance_check', {
         tradeId: tradeId ?? 'pending',
@@ -748,8 +761,9 @@ Deno.serve(async (req) => {
           const permitPayload = makePermit2Payload({
             token: permit2Token,
             amountWei: sellAmountWei,
-            spender: OX_PROXY,
+            spender: OX_PROXY!,
             sigDeadlineSec,
+            chainId,
           });
           
           const { signer, signature } = await signPermit2Single(permitPayload);
@@ -1175,10 +1189,10 @@ Deno.serve(async (req) => {
       }
 
       logger.info('swap.execute.broadcast', { tradeId, mode: 'send' });
-      const sendResult = await sendRawTransaction(chainId, signedTx);
+      const sendResult = await broadcastClientSigned(chainId, taker, signedTx, tradeId);
 
-      if (!sendResult.success) {
-        await addTradeEvent(tradeId, 'submit', 'error', sendResult);
+      if (!sendResult.ok) {
+        await addTradeEvent(tradeId, 'submit', 'error', { error: sendResult.error, rpcError: sendResult.rpcError });
         await updateTradeStatus(tradeId, 'failed', {
           notes: `Send failed: ${sendResult.error}`,
         });
@@ -1197,7 +1211,7 @@ Deno.serve(async (req) => {
         );
       }
 
-      const txHash = sendResult.txHash!;
+      const txHash = sendResult.txHash;
       
       // ============================================================================
       // PHASE 1 OBSERVABILITY: ONCHAIN_TX_SUBMITTED
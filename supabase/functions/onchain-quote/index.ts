@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { TOKENS, WETH, toAtomic, normalizeToken, type Token } from './tokens.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { buildRpcUrlMap } from '../_shared/chains.ts';
 
 /**
  * Onchain Quote API - Returns humanized pricing
@@ -28,26 +29,20 @@ const UNISWAP_API_KEY = Deno.env.get('UNISWAP_API_KEY');
 const ZEROX_ROOT = 'https://api.0x.org';
 const ZEROX_VERSION = 'v2';
 const ETH_SENTINEL = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
-const RPC_URL_1 = Deno.env.get('RPC_URL_1') || 'https://eth.llamarpc.com';
-const RPC_URL_8453 = Deno.env.get('RPC_URL_8453') || 'https://base.llamarpc.com';
-const RPC_URL_42161 = Deno.env.get('RPC_URL_42161') || 'https://arbitrum.llamarpc.com';
-
-const RPC_URLS = {
-  1: RPC_URL_1,
-  8453: RPC_URL_8453,
-  42161: RPC_URL_42161,
-};
+const RPC_URLS: Record<number, string> = buildRpcUrlMap();
 
 const CHAIN_BASE_URLS = {
   1: 'https://api.0x.org',
   8453: 'https://base.api.0x.org', 
   42161: 'https://arbitrum.api.0x.org',
+  10: 'https://optimism.api.0x.org',
 };
 
 const ONEINCH_BASE_URLS = {
   1: 'https://api.1inch.dev',
   8453: 'https://api.1inch.dev', 
   42161: 'https://api.1inch.dev',
+  10: 'https://api.1inch.dev',
 };
 
 const COW_BASE_URLS = {
@@ -61,6 +56,7 @@ const ONEINCH_CHAIN_IDS = {
   1: 1,     // Ethereum
   8453: 8453, // Base
   42161: 42161, // Arbitrum
+  10: 10,       // Optimism
 };
 
 function isClientAuthError(status: number) {
@@ -146,7 +142,7 @@ function humanPriceFromAmounts({
 
 async function getRpcGasPrice(chainId: number): Promise<bigint | null> {
   try {
-    const rpcUrl = RPC_URLS[chainId as keyof typeof RPC_URLS];
+    const rpcUrl = RPC_URLS[chainId];
     if (!rpcUrl) return null;
 
     const response = await fetch(rpcUrl, {
@@ -207,7 +203,7 @@ function pick0xStableAlias(chainId: number, wanted: Token, tokenList: any[]): st
     );
     if (match && match.address) {
       // Log the selection
-      if (chainId === 8453 || chainId === 42161) {
+      if (chainId !== 1) {
         console.log(`USDC alias selected for chain ${chainId}: ${match.address} (${match.symbol})`);
       }
       return match.address;
@@ -217,7 +213,7 @@ function pick0xStableAlias(chainId: number, wanted: Token, tokenList: any[]): st
   // Fallback to first variant found
   const fallback = usdcVariants[0];
   if (fallback?.address) {
-    if (chainId === 8453 || chainId === 42161) {
+    if (chainId !== 1) {
       console.log(`USDC alias fallback for chain ${chainId}: ${fallback.address} (${fallback.symbol})`);
     }
     return fallback.address;
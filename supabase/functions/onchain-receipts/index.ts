@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
+import { buildRpcUrlMap, chainLabel, getChain, stablecoinsByAddress, tokensByAddress } from '../_shared/chains.ts';
+import { applyReceiptToRealTrade, backfillBlockTimestamp, isReceiptSuccess } from '../_shared/realTrades.ts';
 
 // ========================================================================
 // Notification Helper
@@ -30,7 +32,7 @@ async function sendNotification(payload: {
       const emoji = payload.event === 'mined' ? '✅' : '❌';
       const fields = [
         { name: 'Trade ID', value: `\`${payload.tradeId}\``, inline: true },
-        { name: 'Chain', value: `Base (${payload.chainId})`, inline: true },
+        { name: 'Chain', value: chainLabel(payload.chainId), inline: true },
         { name: 'Provider', value: payload.provider || 'N/A', inline: true },
         { name: 'Symbol', value: payload.symbol || 'N/A', inline: true },
         { name: 'Side', value: payload.side?.toUpperCase() || 'N/A', inline: true },
@@ -40,7 +42,7 @@ async function sendNotification(payload: {
         fields.push({ name: 'TX Hash', value: `\`${payload.txHash}\``, inline: false });
       }
       if (payload.explorerUrl) {
-        fields.push({ name: 'Explorer', value: `[View on BaseScan](${payload.explorerUrl})`, inline: false });
+        fields.push({ name: 'Explorer', value: `[View on ${getChain(payload.chainId)?.explorer.name ?? 'explorer'}](${payload.explorerUrl})`, inline: false });
       }
       if (payload.gasUsed) {
         fields.push({ name: 'Gas Used', value: payload.gasUsed, inline: true });
@@ -64,7 +66,7 @@ async function sendNotification(payload: {
       const emoji = payload.event === 'mined' ? ':white_check_mark:' : ':x:';
       const fields = [
         { title: 'Trade ID', value: payload.tradeId, short: true },
-        { title: 'Chain', value: `Base (${payload.chainId})`, short: true },
+        { title: 'Chain', value: chainLabel(payload.chainId), short: true },
         { title: 'Provider', value: payload.provider || 'N/A', short: true },
         { title: 'Symbol', value: payload.symbol || 'N/A', short: true },
         { title: 'Side', value: payload.side?.toUpperCase() || 'N/A', short: true },
@@ -74,7 +76,7 @@ async function sendNotification(payload: {
         fields.push({ title: 'TX Hash', value: `\`${payload.txHash}\``, short: false });
       }
       if (payload.explorerUrl) {
-        fields.push({ title: 'Explorer', value: `<${payload.explorerUrl}|View on BaseScan>`, short: false });
+        fields.push({ title: 'Explorer', value: `<${payload.explorerUrl}|View on ${getChain(payload.chainId)?.explorer.name ?? 'explorer'}>`, short: false });
       }
       if (payload.gasUsed) {
         fields.push({ title: 'Gas Used', value: payload.gasUsed, short: true });
@@ -116,11 +118,7 @@ const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE')!;
 
 const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
 
-const RPC_URLS: Record<number, string> = {
-  1: Deno.env.get('RPC_URL_1') || 'https://eth.llamarpc.com',
-  8453: Deno.env.get('RPC_URL_8453') || 'https://base.llamarpc.com',
-  42161: Deno.env.get('RPC_URL_42161') || 'https://arbitrum.llamarpc.com',
-};
+const RPC_URLS: Record<number, string> = buildRpcUrlMap();
 
 // ============================================================================
 // RECEIPT LOG DECODER: Extract filled amounts and prices from on-chain events
@@ -152,11 +150,12 @@ const RPC_URLS: Record<number, string> = {
 //    The decoder does not attempt to infer or add back fees.
 //
 // 4. STABLECOIN DETECTION: Price is derived from transfers involving known
-//    stablecoins (USDC, DAI, USDbC on Base). Swaps without stablecoin legs
+//    stablecoins of the trade's chain (USDC, DAI, USDbC on Base; USDC, USDT,
+//    DAI on Arbitrum/Optimism - see _shared/chains.ts). Swaps without stablecoin legs
 //    (e.g., WETH->cbETH) will use a two-transfer fallback with lower confidence.
 //
 // 5. TOKEN DECIMALS: Unknown tokens default to 18 decimals. For precise accounting
-//    of non-standard tokens, add them to KNOWN_TOKENS map.
+//    of non-standard tokens, add them to the chain's tokens in _shared/chains.ts.
 //
 // FAIL-CLOSED BEHAVIOR:
 // -----------------------------------
@@ -183,20 +182,9 @@ const RPC_URLS: Record<number, string> = {
 // ERC-20 Transfer event topic: Transfer(address,address,uint256)
 const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
 
-// Known stablecoin addresses on Base (for price derivation)
-const STABLECOINS: Record<string, { decimals: number; symbol: string }> = {
-  '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913': { decimals: 6, symbol: 'USDC' },  // USDC on Base
-  '0x50c5725949a6f0c72e6c4a641f24049a917db0cb': { decimals: 18, symbol: 'DAI' },   // DAI on Base
-  '0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca': { decimals: 6, symbol: 'USDbC' },  // USDbC on Base
-};
-
-// Known token addresses on Base (for amount parsing)
-// Add new tokens here to ensure correct decimal handling
-const KNOWN_TOKENS: Record<string, { decimals: number; symbol: string }> = {
-  '0x4200000000000000000000000000000000000006': { decimals: 18, symbol: 'WETH' },
-  '0x2ae3f1ec7f1f5012cfeab0185bfc7aa3cf0dec22': { decimals: 18, symbol: 'cbETH' },
-  ...STABLECOINS,
-};
+// Known stablecoin / token addresses per chain (for price derivation and amount parsing).
+// Tokens are registered in _shared/chains.ts; the same address can mean a
+// different token on another chain, so lookups are always keyed by chain.
 
 interface DecodeResult {
   success: boolean;
@@ -208,7 +196,9 @@ interface DecodeResult {
   error?: string;         // Reason if success=false
 }
 
-function decodeSwapFromReceipt(receipt: any, symbol: string, side: string): DecodeResult {
+function decodeSwapFromReceipt(receipt: any, symbol: string, side: string, chainId: number): DecodeResult {
+  const STABLECOINS = stablecoinsByAddress(chainId);
+  const KNOWN_TOKENS = tokensByAddress(chainId);
   const logs = receipt.logs || [];
   
   if (logs.length === 0) {
@@ -482,7 +472,8 @@ async function resolveBlockTimestamp(
  * Canonical receipt polling + finalization for a single SUBMITTED real_trades row.
  *
  * Required invariants:
- * - Lookup is done ONLY by real_trades.trade_id (done in the handler)
+ * - Lookup is done ONLY on real_trades by trade_id / tx_hash (done in the handler)
+ * - Writes are keyed on real_trades.id (sliced children share trade_id)
  * - RPC polling happens ONLY if tx_hash is present
  * - Writes happen ONLY to real_trades
  */
@@ -612,7 +603,7 @@ async function finalizeMockTradeAndSettle(params: {
 
   let decoded: DecodeResult;
   try {
-    decoded = decodeSwapFromReceipt(receipt, symbol, side);
+    decoded = decodeSwapFromReceipt(receipt, symbol, side, chainId);
   } catch (decodeErr) {
     console.error('MOCK_TRADE_DECODE_FAILED', {
       mockTradeId,
@@ -768,6 +759,94 @@ async function finalizeMockTradeAndSettle(params: {
   return { ok: true };
 }
 
+// ========================================================================
+// Sliced orders: child swaps accumulate into the parent instead of
+// finalizing the shared mock_trades placeholder one child at a time.
+// onchain-slice-worker rolls the totals up once every child has a receipt.
+// ========================================================================
+async function recordSliceFill(params: {
+  realTrade: any;
+  receipt: any;
+  txSuccess: boolean;
+  blockTimestamp: string;
+}): Promise<{ ok: boolean; error?: string }> {
+  const { realTrade, receipt, txSuccess, blockTimestamp } = params;
+  const orderId: string = realTrade.parent_order_id;
+  const txHash: string = realTrade.tx_hash;
+
+  const gasUsedDec = receipt.gasUsed ? parseInt(receipt.gasUsed, 16) : 0;
+  const effectiveGasPrice = receipt.effectiveGasPrice
+    ? parseInt(receipt.effectiveGasPrice, 16)
+    : 0;
+  const gasCostEth = Number(BigInt(gasUsedDec) * BigInt(effectiveGasPrice)) / 1e18;
+
+  let success = txSuccess;
+  let filledAmount = 0;
+  let totalValue = 0;
+
+  if (txSuccess) {
+    const decoded = decodeSwapFromReceipt(
+      receipt,
+      realTrade.cryptocurrency || '',
+      (realTrade.side || 'BUY').toUpperCase(),
+      realTrade.chain_id,
+    );
+    if (!decoded.success) {
+      // Counted as a failed child so the parent can still be rolled up
+      console.error('SLICE_FILL_DECODE_FAILED', { orderId, txHash, error: decoded.error });
+      success = false;
+    } else {
+      filledAmount = decoded.filledAmount;
+      totalValue = decoded.totalValue;
+      const fxUsdEur = await getUsdEurRate(blockTimestamp).catch(() => null);
+      if (fxUsdEur && fxUsdEur > 0) {
+        totalValue = decoded.totalValue * fxUsdEur;
+      } else {
+        console.error('EUR_CONVERSION_FALLBACK_USD', { orderId, txHash, reason: 'no_fx_rate' });
+      }
+    }
+  }
+
+  const { data: order, error } = await supabase.rpc('record_sliced_order_fill', {
+    p_order_id: orderId,
+    p_success: success,
+    p_amount: filledAmount,
+    p_value: totalValue,
+    p_gas_cost_eth: gasCostEth,
+    p_tx_hash: success ? txHash : null,
+  });
+
+  if (error) {
+    console.error('SLICE_FILL_RECORD_FAILED', { orderId, txHash, error: error.message });
+    return { ok: false, error: error.message };
+  }
+
+  console.log('SLICE_FILL_RECORDED', {
+    orderId,
+    txHash: txHash?.substring(0, 16),
+    slice_index: realTrade.slice_index,
+    success,
+    filledAmount,
+    slices: `${order?.slices_confirmed}+${order?.slices_failed}/${order?.slices_submitted}`,
+  });
+
+  // Let the worker roll up immediately if this was the last outstanding child
+  if (order?.status === 'AWAITING_RECEIPTS') {
+    fetch(`${PROJECT_URL}/functions/v1/onchain-slice-worker`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${SERVICE_ROLE}`,
+      },
+      body: JSON.stringify({ orderId, source: 'slice_receipt' }),
+    }).catch(err => {
+      console.warn('⚠️ Failed to trigger onchain-slice-worker (non-blocking):', err.message);
+    });
+  }
+
+  return { ok: true };
+}
+
 async function pollAndFinalizeRealTrade(realTrade: any) {
   const tradeId: string = realTrade.trade_id;
   const chainId: number = realTrade.chain_id;
@@ -797,29 +876,30 @@ async function pollAndFinalizeRealTrade(realTrade: any) {
     return { tradeId, tx_hash: txHash, status: 'pending' };
   }
 
-  const txSuccess = receipt.status === '0x1' || receipt.status === 1;
-  const nextExecutionStatus = txSuccess ? 'CONFIRMED' : 'REVERTED';
+  const txSuccess = isReceiptSuccess(receipt);
 
-  // REQUIRED: update state atomically in real_trades ONLY
-  const { error: updateError } = await supabase
-    .from('real_trades')
-    .update({
-      execution_status: nextExecutionStatus,
-      receipt_status: txSuccess,
-      raw_receipt: receipt,
-      block_number: receipt.blockNumber ? parseInt(receipt.blockNumber, 16) : null,
-      gas_used: receipt.gasUsed ? parseInt(receipt.gasUsed, 16) : null,
-    })
-    .eq('trade_id', tradeId)
-    .eq('execution_status', 'SUBMITTED');
+  // REQUIRED: update state atomically in real_trades ONLY.
+  // Keyed on real_trades.id: sliced children share trade_id with their siblings.
+  const {
+    applied,
+    execution_status: nextExecutionStatus,
+    error: updateError,
+  } = await applyReceiptToRealTrade(supabase, realTrade.id, receipt);
 
   if (updateError) {
     console.error('REAL_TRADES_STATE_UPDATE_FAILED', {
       tradeId,
+      realTradeId: realTrade.id,
       nextExecutionStatus,
-      error: updateError.message,
+      error: updateError,
     });
-    return { tradeId, tx_hash: txHash, status: 'error', error: updateError.message };
+    return { tradeId, tx_hash: txHash, status: 'error', error: updateError };
+  }
+
+  if (!applied) {
+    // A concurrent poll already finalized this row and ran the pipeline below
+    console.log('REAL_TRADES_ALREADY_FINALIZED', { tradeId, realTradeId: realTrade.id, tx_hash: txHash });
+    return { tradeId, tx_hash: txHash, status: 'already_finalized' };
   }
 
   console.log('REAL_TRADES_FINALIZED', {
@@ -839,14 +919,13 @@ async function pollAndFinalizeRealTrade(realTrade: any) {
     (blockTimestampSource === 'receipt' || blockTimestampSource === 'eth_getBlockByNumber') &&
     !realTrade.block_timestamp
   ) {
-    await supabase
-      .from('real_trades')
-      .update({ block_timestamp: blockTimestamp })
-      .eq('trade_id', tradeId)
-      .is('block_timestamp', null);
+    await backfillBlockTimestamp(supabase, realTrade.id, blockTimestamp);
   }
 
-  if (txSuccess) {
+  if (realTrade.parent_order_id) {
+    // Child swap of a sliced order — never finalize the shared placeholder here
+    await recordSliceFill({ realTrade, receipt, txSuccess, blockTimestamp });
+  } else if (txSuccess) {
     // 3b. Lookup the linked mock_trades placeholder via real_trades.trade_id
     //     The coordinator stores the mock_trades.id into real_trades.trade_id
     //     (placeholder pattern). If absent, fall back to idempotency_key match.
@@ -924,57 +1003,62 @@ Deno.serve(async (req) => {
       console.log('✅ ONCHAIN_RECEIPTS: CRON_SECRET validated for scheduled call');
     }
 
-    const { tradeId } = body;
+    // txHash pins one child of a sliced order; tradeId alone polls every
+    // SUBMITTED row linked to the placeholder (siblings share trade_id)
+    const { tradeId, txHash } = body;
 
     // =========================================================================
     // RECEIPT_POLL_START: Log every polling invocation
     // =========================================================================
     console.log("RECEIPT_POLL_START", {
-      mode: tradeId ? 'single' : 'batch',
+      mode: tradeId || txHash ? 'single' : 'batch',
       tradeId: tradeId || null,
+      txHash: txHash || null,
     });
 
-    // REQUIRED: real_trades.trade_id is the ONLY lookup key.
+    // REQUIRED: real_trades (trade_id / tx_hash) is the ONLY lookup source.
     // REQUIRED: remove legacy fallback logic (no trades/mock_trades polling here).
     let realTradesToPoll: any[] = [];
 
-    if (tradeId) {
-      const { data: row, error: dbError } = await supabase
+    if (tradeId || txHash) {
+      let lookup = supabase
         .from('real_trades')
         .select('*')
-        .eq('trade_id', tradeId)
-        .eq('execution_status', 'SUBMITTED')
-        .limit(1)
-        .maybeSingle();
+        .eq('execution_status', 'SUBMITTED');
+      if (txHash) lookup = lookup.eq('tx_hash', txHash);
+      if (tradeId) lookup = lookup.eq('trade_id', tradeId);
+      const { data: rows, error: dbError } = await lookup
+        .order('created_at', { ascending: true })
+        .limit(20);
 
       if (dbError) {
-        console.error('RECEIPT_POLL_DB_ERROR', { tradeId, error: dbError.message });
+        console.error('RECEIPT_POLL_DB_ERROR', { tradeId, txHash, error: dbError.message });
         return new Response(
-          JSON.stringify({ error: 'DB error fetching real_trades row', tradeId }),
+          JSON.stringify({ error: 'DB error fetching real_trades row', tradeId, txHash }),
           { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
       console.log('RECEIPT_POLL_LOOKUP_RESULT', {
         tradeId,
-        found: !!row,
-        execution_status: row?.execution_status,
-        tx_hash: row?.tx_hash,
+        found: rows?.length ?? 0,
+        tx_hashes: (rows ?? []).map((r: any) => r.tx_hash),
       });
 
       // REQUIRED: zero rows is a BUG, not an “empty” poll
-      if (!row) {
+      if (!rows || rows.length === 0) {
         console.error('RECEIPT_POLL_HARD_ERROR', {
           tradeId,
-          message: 'No SUBMITTED real_trades row found for trade_id',
+          txHash,
+          message: 'No SUBMITTED real_trades row found for trade_id / tx_hash',
         });
         return new Response(
-          JSON.stringify({ error: 'No SUBMITTED real_trades row found for trade_id', tradeId }),
+          JSON.stringify({ error: 'No SUBMITTED real_trades row found for trade_id / tx_hash', tradeId, txHash }),
           { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      realTradesToPoll = [row];
+      realTradesToPoll = rows;
     } else {
       const { data: rows, error: realError } = await supabase
         .from('real_trades')
@@ -1009,6 +1093,7 @@ Deno.serve(async (req) => {
         .select('*')
         .eq('execution_status', 'CONFIRMED')
         .eq('receipt_status', true)
+        .is('parent_order_id', null) // sliced children are rolled up by onchain-slice-worker
         .gte('created_at', new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString())
         .order('created_at', { ascending: false })
         .limit(50);
@@ -1062,11 +1147,7 @@ Deno.serve(async (req) => {
             (blockTimestampSource === 'receipt' || blockTimestampSource === 'eth_getBlockByNumber') &&
             !rt.block_timestamp
           ) {
-            await supabase
-              .from('real_trades')
-              .update({ block_timestamp: blockTimestamp })
-              .eq('trade_id', rt.trade_id)
-              .is('block_timestamp', null);
+            await backfillBlockTimestamp(supabase, rt.id, blockTimestamp);
           }
 
           console.log('ORPHAN_RECOVERY_ATTEMPT', {
@@ -7,22 +7,33 @@
  * 1. tradeId - for pre-built trades (existing behavior)
  * 2. Raw trade params - internally builds then signs+sends
  *    Required: symbol, side, amount, taker (wallet address)
- *    Optional: slippageBps (default 100 = 1%)
+ *    Optional: slippageBps (default 100 = 1%), provider (default '0x')
+ *    Sliced orders: parent_order_id + slice_index tag the child swap
+ *    (see onchain-slice-worker)
  * 
  * This function is the ONLY place that:
  * - Signs transactions via getSigner()
- * - Broadcasts via eth_sendRawTransaction
+ * - Broadcasts via eth_sendRawTransaction (nonce, fees and stuck-tx
+ *   replacement handled by _shared/txManager.ts)
  * - Updates trades table to status=submitted
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.7';
 import { getSigner } from '../_shared/signer.ts';
-import { ALLOWED_TO_ADDRESSES } from '../_shared/addresses.ts';
+import { createTxManager, jsonRpc, toSignerPayload, type PreparedTx } from '../_shared/txManager.ts';
+import { getAllowedToAddresses } from '../_shared/addresses.ts';
+import { broadcastIntentKey, findIntentBroadcast } from '../_shared/realTrades.ts';
+import { BASE_CHAIN_ID, chainLabel, explorerTxUrl, getChain, getConfiguredRpcUrl, getRpcUrl, isExecutionChainEnabled } from '../_shared/chains.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 
 const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL');
 const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+// Aggregators onchain-execute can build a signable swap for. Only 0x returns
+// calldata to a router in getAllowedToAddresses; other providers are quote-only.
+const BUILD_PROVIDERS = ['0x'] as const;
+type BuildProvider = typeof BUILD_PROVIDERS[number];
+
 // ========================================================================
 // B6 INTENT CIRCUIT BREAKER
 // Tracks per-(user, strategy, symbol, side, qty_bucket_4dec) failure storms.
@@ -172,6 +183,8 @@ async function buildTrade(params: {
   amount: number;
   taker: string;
   slippageBps?: number;
+  provider?: BuildProvider;
+  chainId?: number;
   system_operator_mode?: boolean;
 }): Promise<{ ok: true; tradeId: string; price?: number } | { ok: false; error: string }> {
   console.log('🔨 [sign-and-send] Building trade internally...', params);
@@ -185,13 +198,13 @@ async function buildTrade(params: {
         apikey: SERVICE_ROLE!,
       },
       body: JSON.stringify({
-        chainId: 8453, // Base
+        chainId: params.chainId ?? BASE_CHAIN_ID,
         base: params.symbol,
         quote: 'USDC',
         side: params.side,
         amount: params.amount,
         slippageBps: params.slippageBps || 100,
-        provider: '0x',
+        provider: params.provider ?? '0x',
         taker: params.taker,
         mode: 'build',
         preflight: true,
@@ -273,7 +286,7 @@ async function sendNotification(payload: {
       
       const fields = [
         { name: 'Trade ID', value: `\`${payload.tradeId}\``, inline: true },
-        { name: 'Chain', value: `Base (${payload.chainId})`, inline: true },
+        { name: 'Chain', value: chainLabel(payload.chainId), inline: true },
         { name: 'Provider', value: payload.provider || 'N/A', inline: true },
         { name: 'Symbol', value: payload.symbol || 'N/A', inline: true },
         { name: 'Side', value: payload.side?.toUpperCase() || 'N/A', inline: true },
@@ -283,7 +296,7 @@ async function sendNotification(payload: {
         fields.push({ name: 'TX Hash', value: `\`${payload.txHash}\``, inline: false });
       }
       if (payload.explorerUrl) {
-        fields.push({ name: 'Explorer', value: `[View on BaseScan](${payload.explorerUrl})`, inline: false });
+        fields.push({ name: 'Explorer', value: `[View on ${getChain(payload.chainId)?.explorer.name ?? 'explorer'}](${payload.explorerUrl})`, inline: false });
       }
       if (payload.error) {
         fields.push({ name: 'Error', value: `\`\`\`${payload.error}\`\`\``, inline: false });
@@ -306,7 +319,7 @@ async function sendNotification(payload: {
 
       const fields = [
         { title: 'Trade ID', value: payload.tradeId, short: true },
-        { title: 'Chain', value: `Base (${payload.chainId})`, short: true },
+        { title: 'Chain', value: chainLabel(payload.chainId), short: true },
         { title: 'Provider', value: payload.provider || 'N/A', short: true },
         { title: 'Symbol', value: payload.symbol || 'N/A', short: true },
         { title: 'Side', value: payload.side?.toUpperCase() || 'N/A', short: true },
@@ -316,7 +329,7 @@ async function sendNotification(payload: {
         fields.push({ title: 'TX Hash', value: `\`${payload.txHash}\``, short: false });
       }
       if (payload.explorerUrl) {
-        fields.push({ title: 'Explorer', value: `<${payload.explorerUrl}|View on BaseScan>`, short: false });
+        fields.push({ title: 'Explorer', value: `<${payload.explorerUrl}|View on ${getChain(payload.chainId)?.explorer.name ?? 'explorer'}>`, short: false });
       }
       if (payload.error) {
         fields.push({ title: 'Error', value: `\`\`\`${payload.error}\`\`\``, short: false });
@@ -385,6 +398,32 @@ Deno.serve(async (req) => {
       });
     }
 
+    // ========================================================================
+    // IDEMPOTENCY: one broadcast per mock_trades placeholder (per slice).
+    // A caller retrying after a lost response gets the earlier tx back.
+    // ========================================================================
+    if (body.mock_trade_id) {
+      const supabaseAdmin = createClient(PROJECT_URL!, SERVICE_ROLE!);
+      const existingTxHash = await findIntentBroadcast(supabaseAdmin, body.mock_trade_id, body.slice_index ?? null);
+      if (existingTxHash) {
+        console.warn('SIGN_AND_SEND_DUPLICATE_INTENT', {
+          mock_trade_id: body.mock_trade_id,
+          slice_index: body.slice_index ?? null,
+          tx_hash: existingTxHash,
+        });
+        return new Response(JSON.stringify({
+          ok: true,
+          status: 'pending',
+          duplicate: true,
+          tradeId: body.mock_trade_id,
+          tx_hash: existingTxHash,
+        }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
     // ========================================================================
     // PATH A: Raw trade params provided (symbol, side, amount)
     // taker is ALWAYS BOT_ADDRESS in custodial model
@@ -397,6 +436,29 @@ Deno.serve(async (req) => {
         console.warn(`⚠️ [sign-and-send] CUSTODIAL MODEL: Ignoring provided taker (${body.taker}), using SYSTEM wallet (${systemBotAddress})`);
       }
       
+      const provider: BuildProvider = body.provider ?? '0x';
+      if (!BUILD_PROVIDERS.includes(provider)) {
+        return new Response(JSON.stringify({
+          ok: false,
+          error: { code: 'UNSUPPORTED_PROVIDER', message: `Unsupported provider: ${body.provider}` },
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Chain comes from the strategy (coordinator / slice worker); Base when omitted
+      const chainId = Number(body.chainId ?? BASE_CHAIN_ID);
+      if (!isExecutionChainEnabled(chainId)) {
+        return new Response(JSON.stringify({
+          ok: false,
+          error: { code: 'UNSUPPORTED_CHAIN', message: `Chain ${body.chainId} is not enabled for execution` },
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Clamp slippage to builder maximum (0x enforces 50 bps max)
       const BUILDER_MAX_SLIPPAGE_BPS = 50;
       const requestedSlippageBps = body.slippageBps ?? BUILDER_MAX_SLIPPAGE_BPS;
@@ -516,18 +578,18 @@ Deno.serve(async (req) => {
 
         // ---- Guard (b): on-chain USDC balance of bot wallet ----
         try {
-          const USDC_BASE = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
-          const USDC_DECIMALS = 6;
+          const usdc = getChain(chainId)!.tokens.USDC;
+          const USDC_DECIMALS = usdc.decimals;
           // balanceOf(address) selector = 0x70a08231
           const padded = systemBotAddress.toLowerCase().replace(/^0x/, '').padStart(64, '0');
           const data = '0x70a08231' + padded;
-          const rpcUrl = Deno.env.get('RPC_URL_8453') || 'https://mainnet.base.org';
+          const rpcUrl = getRpcUrl(chainId)!;
           const rpcResp = await fetch(rpcUrl, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               jsonrpc: '2.0', id: 1, method: 'eth_call',
-              params: [{ to: USDC_BASE, data }, 'latest'],
+              params: [{ to: usdc.address, data }, 'latest'],
             }),
           });
           const rpcJson = await rpcResp.json();
@@ -672,6 +734,8 @@ Deno.serve(async (req) => {
         amount: body.amount,
         taker: systemBotAddress, // ALWAYS use SYSTEM wallet in custodial model
         slippageBps: effectiveSlippageBps,
+        provider,
+        chainId,
         system_operator_mode: body.system_operator_mode, // Pass flag for auto-wrap policy
       });
 
@@ -769,10 +833,10 @@ Deno.serve(async (req) => {
     }
 
     // Validate chain
-    if (trade.chain_id !== 8453) {
+    if (!isExecutionChainEnabled(trade.chain_id)) {
       return new Response(JSON.stringify({ 
         ok: false, 
-        error: `Only Base (8453) supported, got chain ${trade.chain_id}` 
+        error: `Chain ${trade.chain_id} is not enabled for execution` 
       }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -925,7 +989,7 @@ Deno.serve(async (req) => {
       }
     } else {
       // For non-0x providers, use static allowlist
-      const toOk = ALLOWED_TO_ADDRESSES.some(a => a.toLowerCase() === targetTo);
+      const toOk = getAllowedToAddresses(trade.chain_id).some(a => a.toLowerCase() === targetTo);
       if (!toOk) {
         // Log guard event
         await supabase.from('trade_events').insert({
@@ -1019,10 +1083,26 @@ Deno.serve(async (req) => {
       });
     }
     
+    // Nonce + EIP-1559 fees come from the tx manager; the signer uses them as-is
+    const rpcUrl = getConfiguredRpcUrl(trade.chain_id)!;
+    const txManager = createTxManager({
+      supabase,
+      rpc: jsonRpc(rpcUrl),
+      chainId: trade.chain_id,
+      from: trade.tx_payload.from,
+    });
+
+    let prepared: PreparedTx | null = null;
     let signedTx: string;
     
     try {
-      signedTx = await signer.sign(trade.tx_payload, trade.chain_id);
+      prepared = await txManager.prepare({
+        to: trade.tx_payload.to,
+        data: trade.tx_payload.data,
+        value: BigInt(trade.tx_payload.value || '0'),
+        gas: BigInt(trade.tx_payload.gas || '0'),
+      });
+      signedTx = await signer.sign(toSignerPayload(prepared), trade.chain_id);
       
       // ═══════════════════════════════════════════════════════════════════════
       // DIAGNOSTIC STEP C: Verify signed tx after signing
@@ -1037,6 +1117,7 @@ Deno.serve(async (req) => {
       console.log(`✅ Transaction signed: ${signedTx.slice(0, 20)}...`);
     } catch (signError: any) {
       console.error('❌ Signing failed:', signError);
+      if (prepared) await txManager.releaseNonce(prepared.nonce);
       
       // Log error event
       await supabase.from('trade_events').insert({
@@ -1097,8 +1178,7 @@ Deno.serve(async (req) => {
     });
 
     // Broadcast transaction
-    const rpcUrl = Deno.env.get('RPC_URL_8453')!;
-    console.log(`📡 Broadcasting to Base RPC...`);
+    console.log(`📡 Broadcasting to ${chainLabel(trade.chain_id)} RPC...`);
     
     // ═══════════════════════════════════════════════════════════════════════
     // DIAGNOSTIC STEP D: What gets broadcast
@@ -1111,32 +1191,17 @@ Deno.serve(async (req) => {
     });
     
     try {
-      const rpcResponse = await fetch(rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'eth_sendRawTransaction',
-          params: [signedTx],
-        }),
+      // Records managed_transactions + trade_events (submit / error) for this nonce
+      const sent = await txManager.broadcast(prepared!, signedTx, {
+        kind: 'swap',
+        signerKind: 'system',
+        userId: (trade as any).user_id ?? body.user_id ?? null,
+        tradeId,
+        intentKey: body.mock_trade_id ? broadcastIntentKey(body.mock_trade_id, body.slice_index ?? null) : null,
       });
 
-      const rpcResult = await rpcResponse.json();
-
-      if (rpcResult.error) {
-        console.error('❌ RPC error:', rpcResult.error);
-        
-        // Log error event
-        await supabase.from('trade_events').insert({
-          trade_id: tradeId,
-          phase: 'error',
-          severity: 'error',
-          payload: {
-            step: 'broadcast',
-            rpc_error: rpcResult.error,
-          },
-        });
+      if (!sent.ok) {
+        console.error('❌ RPC error:', sent.rpcError ?? sent.error);
 
         // Send notification: broadcast failed
         await sendNotification({
@@ -1146,7 +1211,7 @@ Deno.serve(async (req) => {
           provider: trade.provider,
           symbol: trade.symbol,
           side: trade.side,
-          error: rpcResult.error.message || 'RPC error',
+          error: sent.error || 'RPC error',
         });
 
         // B6: record intent failure (BROADCAST_FAILED)
@@ -1165,8 +1230,8 @@ Deno.serve(async (req) => {
           ok: false, 
           error: {
             code: 'BROADCAST_FAILED',
-            message: rpcResult.error.message || 'RPC error',
-            rpcBody: rpcResult.error,
+            message: sent.error || 'RPC error',
+            rpcBody: sent.rpcError,
           }
         }), {
           status: 500,
@@ -1174,7 +1239,7 @@ Deno.serve(async (req) => {
         });
       }
 
-      const txHash = rpcResult.result;
+      const txHash = sent.txHash;
       console.log(`✅ Transaction broadcast: ${txHash}`);
 
       // ═══════════════════════════════════════════════════════════════════════
@@ -1239,6 +1304,9 @@ Deno.serve(async (req) => {
         amount: trade.amount || 0,             // Intent amount (updated on CONFIRMED)
         price: trade.price || 0,               // Intent price (updated on CONFIRMED)
         provider: trade.provider,
+        // Child swap of a sliced order: receipts roll the fill into the parent
+        parent_order_id: body.parent_order_id ?? null,
+        slice_index: body.slice_index ?? null,
       };
       
       const { error: submitInsertError } = await supabase
@@ -1306,6 +1374,7 @@ Deno.serve(async (req) => {
           status: 'submitted',
           tx_hash: txHash,
           sent_at: submittedAt,
+          ...(body.parent_order_id ? { parent_order_id: body.parent_order_id } : {}),
         })
         .eq('id', tradeId);
 
@@ -1318,6 +1387,8 @@ Deno.serve(async (req) => {
           txHash,
           signer_type: signer.type,
           real_trades_submitted: !submitInsertError,
+          parent_order_id: body.parent_order_id ?? null,
+          slice_index: body.slice_index ?? null,
         },
       });
 
@@ -1330,7 +1401,7 @@ Deno.serve(async (req) => {
         provider: trade.provider,
         symbol: trade.symbol,
         side: trade.side,
-        explorerUrl: `https://basescan.org/tx/${txHash}`,
+        explorerUrl: explorerTxUrl(trade.chain_id, txHash) ?? undefined,
       });
 
       // ═══════════════════════════════════════════════════════════════════════
@@ -1350,6 +1421,7 @@ Deno.serve(async (req) => {
         },
         body: JSON.stringify({ 
           tradeId: fkTradeId,      // Use FK-safe trade ID for receipt lookup
+          txHash,                  // Sliced children share trade_id; the hash pins this one
           source: 'post_broadcast', // Audit trail: triggered by sign-and-send
         }),
       }).then(async (res) => {
@@ -1372,7 +1444,9 @@ Deno.serve(async (req) => {
         status: 'pending',  // Important: pending, not confirmed - UI polls for final status
         tradeId: fkTradeId, // Return the FK-safe trade ID for UI polling
         tx_hash: txHash,
-        network: 'base',
+        network: getChain(trade.chain_id)?.key ?? `chain-${trade.chain_id}`,
+        chainId: trade.chain_id,
+        provider: trade.provider,
         executedPrice: executedPrice || trade.price,
         symbol: trade.base || trade.symbol,
         side: trade.side,
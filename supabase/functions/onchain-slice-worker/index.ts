@@ -0,0 +1,419 @@
+/**
+ * Sliced order worker (TWAP / max-impact slicing)
+ *
+ * Drives sliced_orders created by the coordinator for large REAL orders:
+ * 1. RUNNING orders whose next_slice_at is due → size the next child
+ *    (TWAP share, or shrunk until the 0x quote is under max_price_impact_bps)
+ *    and submit it through onchain-sign-and-send tagged with parent_order_id
+ * 2. AWAITING_RECEIPTS orders whose children all have receipts → roll the
+ *    accumulated fills (see onchain-receipts recordSliceFill) up into the
+ *    single mock_trades lot and trigger settlement once
+ *
+ * Invocation:
+ * - cron: { scheduled: true } with x-cron-secret
+ * - direct: { orderId } (coordinator kick-off, receipts poke)
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  SLICING_DEFAULTS,
+  impactSizedAmount,
+  rollUpFill,
+  sliceIntervalMs,
+  twapSliceAmount,
+  type SlicedOrderRow,
+} from '../_shared/orderSlicing.ts';
+import { BASE_CHAIN_ID } from '../_shared/chains.ts';
+import type { DbRpcClient } from '../_shared/db.ts';
+import { logger } from '../_shared/logger.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+// Worker lease when children are not spaced (interval 0): long enough for one submit
+const MIN_LEASE_MS = 30_000;
+const AMOUNT_EPSILON = 1e-9;
+
+const supabase: DbRpcClient = createClient(PROJECT_URL, SERVICE_ROLE);
+
+const serviceHeaders = {
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${SERVICE_ROLE}`,
+  apikey: SERVICE_ROLE,
+};
+
+type SliceOutcome =
+  | { ok: true; action: 'submitted'; amount: number; txHash: string }
+  | { ok: true; action: 'deferred' | 'skipped' | 'done'; reason: string }
+  | { ok: false; action: 'error'; error: string };
+
+/** onchain-sign-and-send response (success or structured error) */
+interface SignAndSendResponse {
+  ok?: boolean;
+  tx_hash?: string;
+  error?: { code?: string; message?: string };
+}
+
+// ========================================================================
+// Gas in EUR for settlement (gas_cost_eth accumulates native ETH)
+// ========================================================================
+async function latestEthPriceEur(): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('price_snapshots')
+    .select('symbol, price')
+    .in('symbol', ['ETH-EUR', 'ETH'])
+    .order('ts', { ascending: false })
+    .limit(5);
+  if (error) {
+    logger.warn('[slice-worker] ETH price lookup failed:', error.message);
+    return null;
+  }
+  const prices = (data ?? []) as { symbol: string; price: number | string }[];
+  const row = prices.find((p) => p.symbol === 'ETH-EUR') ?? prices.find((p) => p.symbol === 'ETH');
+  const price = Number(row?.price);
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+// ========================================================================
+// Child sizing
+// ========================================================================
+async function quoteImpactBps(order: SlicedOrderRow, amount: number): Promise<number | null> {
+  try {
+    const res = await fetch(`${PROJECT_URL}/functions/v1/onchain-quote`, {
+      method: 'POST',
+      headers: serviceHeaders,
+      body: JSON.stringify({
+        chainId: order.chain_id ?? BASE_CHAIN_ID,
+        base: order.symbol,
+        quote: 'USDC',
+        side: order.side,
+        amount,
+        slippageBps: order.slippage_bps,
+        provider: '0x',
+      }),
+    });
+    const quote = await res.json();
+    if (!res.ok || quote?.error) {
+      logger.warn('⚠️ [slice-worker] quote failed:', quote?.error ?? res.status);
+      return null;
+    }
+    return Number(quote.priceImpactBps ?? 0);
+  } catch (err) {
+    logger.warn('⚠️ [slice-worker] quote exception:', (err as Error).message);
+    return null;
+  }
+}
+
+async function sizeNextChild(order: SlicedOrderRow, remaining: number): Promise<{ amount: number } | { deferReason: string }> {
+  const total = Number(order.total_amount);
+  const twap = twapSliceAmount(remaining, order.slices_submitted, order.slice_count);
+  if (order.slice_mode !== 'IMPACT') return { amount: twap };
+
+  const minSlice = Math.min(total * SLICING_DEFAULTS.MIN_SLICE_FRACTION, remaining);
+  let candidate = order.slice_count > 1 ? twap : remaining;
+
+  for (let attempt = 0; attempt <= SLICING_DEFAULTS.MAX_IMPACT_REQUOTES; attempt++) {
+    const impactBps = await quoteImpactBps(order, candidate);
+    if (impactBps == null) return { deferReason: 'quote_unavailable' };
+
+    const next = impactSizedAmount(candidate, impactBps, Number(order.max_price_impact_bps), minSlice);
+    if (next == null) return { deferReason: `price_impact_above_max:${impactBps}bps` };
+    if (next === candidate) {
+      // Don't strand a dust remainder smaller than a minimum child
+      return { amount: remaining - candidate < minSlice ? remaining : candidate };
+    }
+    candidate = next;
+  }
+  return { deferReason: 'price_impact_not_converged' };
+}
+
+// ========================================================================
+// Step 1: submit the next child of a RUNNING order
+// ========================================================================
+async function submitNextSlice(order: SlicedOrderRow): Promise<SliceOutcome> {
+  const interval = sliceIntervalMs(Number(order.window_ms), order.slice_count);
+  const now = Date.now();
+
+  // Lease: only the worker that moves next_slice_at forward submits this child
+  const { data: leased } = await supabase
+    .from('sliced_orders')
+    .update({ next_slice_at: new Date(now + Math.max(interval, MIN_LEASE_MS)).toISOString() })
+    .eq('id', order.id)
+    .eq('status', 'RUNNING')
+    .eq('next_slice_at', order.next_slice_at)
+    .select('id');
+
+  if (!(leased as { id: string }[] | null)?.length) {
+    return { ok: true, action: 'skipped', reason: 'lease_not_acquired' };
+  }
+
+  const remaining = Number(order.total_amount) - Number(order.amount_submitted);
+  if (remaining <= AMOUNT_EPSILON) {
+    await supabase.from('sliced_orders').update({ status: 'AWAITING_RECEIPTS' }).eq('id', order.id);
+    return { ok: true, action: 'done', reason: 'fully_submitted' };
+  }
+
+  const sizing = await sizeNextChild(order, remaining);
+  if ('deferReason' in sizing) {
+    const deferrals = order.consecutive_errors + 1;
+    const stop = deferrals >= SLICING_DEFAULTS.MAX_IMPACT_DEFERRALS;
+    logger.info('SLICE_DEFERRED', { orderId: order.id, reason: sizing.deferReason, deferrals, stop });
+    await supabase
+      .from('sliced_orders')
+      .update({
+        consecutive_errors: deferrals,
+        last_error: sizing.deferReason,
+        ...(stop ? { status: 'AWAITING_RECEIPTS' } : {}),
+      })
+      .eq('id', order.id);
+    return { ok: true, action: 'deferred', reason: sizing.deferReason };
+  }
+
+  const sliceIndex = order.slices_submitted;
+  logger.info('SLICE_SUBMIT', {
+    orderId: order.id,
+    slice_index: sliceIndex,
+    mode: order.slice_mode,
+    amount: sizing.amount,
+    remaining,
+  });
+
+  let result: SignAndSendResponse;
+  try {
+    const res = await fetch(`${PROJECT_URL}/functions/v1/onchain-sign-and-send`, {
+      method: 'POST',
+      headers: serviceHeaders,
+      body: JSON.stringify({
+        symbol: order.symbol,
+        side: order.side,
+        amount: sizing.amount,
+        slippageBps: order.slippage_bps,
+        chainId: order.chain_id ?? BASE_CHAIN_ID,
+        system_operator_mode: true,
+        mock_trade_id: order.mock_trade_id,
+        user_id: order.user_id,
+        strategy_id: order.strategy_id,
+        parent_order_id: order.id,
+        slice_index: sliceIndex,
+      }),
+    });
+    result = (await res.json()) as SignAndSendResponse;
+  } catch (err) {
+    result = { ok: false, error: { message: (err as Error).message } };
+  }
+
+  if (!result?.ok || !result.tx_hash) {
+    const error = result?.error?.message || result?.error?.code || 'sign_and_send_failed';
+    const errors = order.consecutive_errors + 1;
+    const stop = errors >= SLICING_DEFAULTS.MAX_CONSECUTIVE_ERRORS;
+    logger.error('SLICE_SUBMIT_FAILED', { orderId: order.id, slice_index: sliceIndex, error, errors, stop });
+    await supabase
+      .from('sliced_orders')
+      .update({
+        consecutive_errors: errors,
+        last_error: error,
+        ...(stop ? { status: 'AWAITING_RECEIPTS' } : {}),
+      })
+      .eq('id', order.id);
+    return { ok: false, action: 'error', error };
+  }
+
+  const amountSubmitted = Number(order.amount_submitted) + sizing.amount;
+  const fullySubmitted = Number(order.total_amount) - amountSubmitted <= AMOUNT_EPSILON;
+
+  await supabase
+    .from('sliced_orders')
+    .update({
+      slices_submitted: sliceIndex + 1,
+      amount_submitted: amountSubmitted,
+      consecutive_errors: 0,
+      last_error: null,
+      next_slice_at: new Date(now + interval).toISOString(),
+      status: fullySubmitted ? 'AWAITING_RECEIPTS' : 'RUNNING',
+    })
+    .eq('id', order.id);
+
+  return { ok: true, action: 'submitted', amount: sizing.amount, txHash: result.tx_hash };
+}
+
+// ========================================================================
+// Step 2: roll children up into the parent mock_trades lot
+// ========================================================================
+async function finalizeIfComplete(orderId: string): Promise<{ finalized: boolean; status?: string }> {
+  const { data, error } = await supabase.rpc('claim_sliced_order_finalization', { p_order_id: orderId });
+  if (error) {
+    logger.error('SLICE_FINALIZE_CLAIM_FAILED', { orderId, error: error.message });
+    return { finalized: false };
+  }
+  // RETURNS sliced_orders: a row of NULLs when the claim matched nothing
+  const order = data as SlicedOrderRow | null;
+  if (!order?.id) return { finalized: false };
+
+  const fill = rollUpFill(Number(order.filled_amount), Number(order.filled_value));
+  const sliceSummary = `slices:${order.slices_confirmed}/${order.slices_submitted} confirmed, ${order.slices_failed} failed`;
+
+  if (!fill) {
+    // Nothing filled: same cleanup as a failed single-swap placeholder
+    await supabase
+      .from('mock_trades')
+      .update({
+        execution_source: 'onchain_failed',
+        is_open_position: false,
+        notes: `FAILED: sliced order ${order.id} filled nothing | ${sliceSummary} | last_error:${order.last_error ?? 'none'}`,
+      })
+      .eq('id', order.mock_trade_id)
+      .eq('execution_confirmed', false);
+    await supabase.from('sliced_orders').update({ status: 'FAILED' }).eq('id', order.id);
+    logger.error('SLICED_ORDER_FAILED', { orderId: order.id, sliceSummary, last_error: order.last_error });
+    return { finalized: true, status: 'FAILED' };
+  }
+
+  const executedAt = new Date().toISOString();
+  const gasCostEth = Number(order.gas_cost_eth);
+  const { error: updateError } = await supabase
+    .from('mock_trades')
+    .update({
+      amount: fill.amount,
+      price: fill.price,
+      total_value: fill.totalValue,
+      execution_confirmed: true,
+      execution_source: 'onchain_confirmed',
+      execution_ts: executedAt,
+      executed_at: executedAt,
+      tx_hash: order.last_tx_hash,
+      chain_id: order.chain_id ?? BASE_CHAIN_ID,
+      gas_cost_eth: gasCostEth,
+      notes: `Sliced on-chain execution confirmed | order:${order.id} | mode:${order.slice_mode} | ${sliceSummary} | vwap:${fill.price.toFixed(6)}`,
+    })
+    .eq('id', order.mock_trade_id)
+    .eq('is_archived', false);
+
+  if (updateError) {
+    logger.error('SLICED_ORDER_FINALIZE_FAILED', { orderId: order.id, error: updateError.message });
+    // Release the claim so the next run retries
+    await supabase.from('sliced_orders').update({ status: 'AWAITING_RECEIPTS' }).eq('id', order.id);
+    return { finalized: false };
+  }
+
+  // Settlement once for the whole lot (best-effort, mirrors onchain-receipts)
+  const ethPriceEur = gasCostEth > 0 ? await latestEthPriceEur() : null;
+  if (gasCostEth > 0 && ethPriceEur == null) {
+    logger.warn('SLICED_ORDER_GAS_UNPRICED', { orderId: order.id, gasCostEth });
+  }
+  try {
+    const settlementRes = await fetch(`${PROJECT_URL}/functions/v1/onchain-settlement`, {
+      method: 'POST',
+      headers: serviceHeaders,
+      body: JSON.stringify({
+        mockTradeId: order.mock_trade_id,
+        side: order.side,
+        symbol: order.symbol,
+        userId: order.user_id,
+        strategyId: order.strategy_id,
+        actualAmount: fill.amount,
+        actualPrice: fill.price,
+        totalValueEur: fill.totalValue,
+        gasCostEur: ethPriceEur != null ? gasCostEth * ethPriceEur : 0,
+        txHash: order.last_tx_hash,
+      }),
+    });
+    const settlementResult = await settlementRes.json();
+    if (!settlementResult.ok) {
+      logger.error('SLICED_ORDER_SETTLEMENT_FAILED', { orderId: order.id, error: settlementResult.error });
+    }
+  } catch (settlementErr) {
+    logger.error('SLICED_ORDER_SETTLEMENT_FAILED', { orderId: order.id, error: (settlementErr as Error).message });
+  }
+
+  await supabase.from('sliced_orders').update({ status: 'COMPLETED' }).eq('id', order.id);
+  logger.info('SLICED_ORDER_COMPLETED', {
+    orderId: order.id,
+    mockTradeId: order.mock_trade_id,
+    amount: fill.amount,
+    vwap: fill.price,
+    sliceSummary,
+  });
+  return { finalized: true, status: 'COMPLETED' };
+}
+
+async function processOrder(order: SlicedOrderRow) {
+  const slice = order.status === 'RUNNING' && new Date(order.next_slice_at).getTime() <= Date.now()
+    ? await submitNextSlice(order)
+    : null;
+  const finalize = await finalizeIfComplete(order.id);
+  return { orderId: order.id, slice, finalize };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        logger.error('❌ SLICE_WORKER: CRON_SECRET mismatch or not set');
+        return new Response(
+          JSON.stringify({ success: false, error: 'forbidden' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    }
+
+    let orders: SlicedOrderRow[] = [];
+    if (body?.orderId) {
+      const { data, error } = await supabase
+        .from('sliced_orders')
+        .select('*')
+        .eq('id', body.orderId)
+        .maybeSingle();
+      if (error || !data) {
+        return new Response(
+          JSON.stringify({ ok: false, error: 'sliced order not found', orderId: body.orderId }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+      orders = [data as SlicedOrderRow];
+    } else {
+      const [due, awaiting] = await Promise.all([
+        supabase
+          .from('sliced_orders')
+          .select('*')
+          .eq('status', 'RUNNING')
+          .lte('next_slice_at', new Date().toISOString())
+          .order('next_slice_at', { ascending: true })
+          .limit(20),
+        supabase
+          .from('sliced_orders')
+          .select('*')
+          .eq('status', 'AWAITING_RECEIPTS')
+          .order('updated_at', { ascending: true })
+          .limit(20),
+      ]);
+      if (due.error) throw due.error;
+      if (awaiting.error) throw awaiting.error;
+      orders = [...((due.data ?? []) as SlicedOrderRow[]), ...((awaiting.data ?? []) as SlicedOrderRow[])];
+    }
+
+    // Sequential: children of different parents share the SYSTEM wallet nonce
+    const results = [];
+    for (const order of orders) {
+      results.push(await processOrder(order));
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, processed: results.length, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    logger.error('SLICE_WORKER_ERROR', { error: String((error as Error)?.message ?? error) });
+    return new Response(
+      JSON.stringify({ ok: false, error: String((error as Error)?.message ?? error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,130 @@
+/**
+ * order-book-collector — Coinbase level-2 book → order_book_snapshots
+ *
+ * Once a minute, for every active EUR pair (defaults + open positions):
+ * spread, EUR depth within ±10/25/50 bps of mid and the bid/ask imbalance
+ * (see _shared/orderBookDepth.ts). The coordinator's spread / liquidity
+ * gates and execution_quality_log read the latest row; the history is kept
+ * ORDER_BOOK_DEFAULTS.RETENTION_DAYS for threshold calibration.
+ *
+ * Invocation: cron { scheduled: true } with x-cron-secret
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  ORDER_BOOK_DEFAULTS,
+  computeOrderBookSnapshot,
+  type OrderBookSnapshot,
+} from '../_shared/orderBookDepth.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const COINBASE_API_BASE = 'https://api.exchange.coinbase.com';
+const FETCH_TIMEOUT_MS = 5000;
+
+// Same default universe as price-snapshot-refresh (EUR pairs)
+const DEFAULT_SYMBOLS = [
+  'BTC', 'ETH', 'SOL', 'XRP', 'AVAX', 'ADA',
+  'DOGE', 'DOT', 'LINK', 'MATIC', 'UNI', 'AAVE',
+];
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Open positions + defaults, as EUR pairs */
+async function getPairs(): Promise<string[]> {
+  const symbols = new Set(DEFAULT_SYMBOLS);
+  const { data, error } = await supabase
+    .from('mock_trades')
+    .select('cryptocurrency')
+    .eq('trade_type', 'buy')
+    .eq('is_open_position', true);
+  if (error) {
+    console.warn('ORDER_BOOK_SYMBOLS_FALLBACK', { error: error.message });
+  }
+  for (const row of data ?? []) {
+    const base = String(row.cryptocurrency ?? '').replace('-EUR', '').replace('-USD', '').toUpperCase();
+    if (base) symbols.add(base);
+  }
+  return [...symbols].map((s) => `${s}-EUR`);
+}
+
+async function snapshotPair(pair: string, ts: string): Promise<OrderBookSnapshot | { pair: string; reason: string }> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${COINBASE_API_BASE}/products/${pair}/book?level=2`, { signal: controller.signal });
+    if (!response.ok) return { pair, reason: response.status === 429 ? 'rate_limited' : `http_${response.status}` };
+    const book = await response.json();
+    return computeOrderBookSnapshot(pair, book?.bids, book?.asks, ts) ?? { pair, reason: 'empty_or_crossed_book' };
+  } catch (error) {
+    return { pair, reason: (error as Error).name === 'AbortError' ? 'timeout' : 'network_error' };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        console.error('❌ ORDER_BOOK_COLLECTOR: CRON_SECRET mismatch or not set');
+        return json({ success: false, error: 'forbidden' }, 403);
+      }
+    }
+
+    const pairs = await getPairs();
+    // One timestamp per run so a run's rows line up across symbols
+    const ts = new Date().toISOString();
+
+    // Sequential: the public book endpoint is rate limited per IP
+    const snapshots: OrderBookSnapshot[] = [];
+    const failed: { pair: string; reason: string }[] = [];
+    for (const pair of pairs) {
+      const result = await snapshotPair(pair, ts);
+      if ('reason' in result) failed.push(result);
+      else snapshots.push(result);
+    }
+
+    if (snapshots.length > 0) {
+      const { error } = await supabase
+        .from('order_book_snapshots')
+        .upsert(snapshots, { onConflict: 'symbol,ts', ignoreDuplicates: true });
+      if (error) throw new Error(`order_book_snapshots upsert failed: ${error.message}`);
+    }
+    if (failed.length > 0) {
+      console.warn('ORDER_BOOK_COLLECTOR_FAILED_PAIRS', failed);
+    }
+
+    // Retention: calibration history only needs RETENTION_DAYS
+    const cutoff = new Date(Date.now() - ORDER_BOOK_DEFAULTS.RETENTION_DAYS * 86_400_000).toISOString();
+    const { error: pruneError } = await supabase.from('order_book_snapshots').delete().lt('ts', cutoff);
+    if (pruneError) console.warn('ORDER_BOOK_COLLECTOR_PRUNE_FAILED', { error: pruneError.message });
+
+    console.log('ORDER_BOOK_COLLECTOR_RUN', {
+      ts,
+      written: snapshots.length,
+      failed: failed.length,
+      widestSpreadBps: Math.max(0, ...snapshots.map((s) => s.spread_bps)),
+    });
+
+    return json({ success: true, ts, written: snapshots.length, failed });
+  } catch (error) {
+    console.error('ORDER_BOOK_COLLECTOR_ERROR', { error: String((error as Error)?.message ?? error) });
+    return json({ success: false, error: String((error as Error)?.message ?? error) }, 500);
+  }
+});
@@ -2,6 +2,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { createLlmClient, LLM_DEFAULTS, llmProviderFromConfig, loadLlmConfiguration } from '../_shared/llm.ts';
+import { parseStrategyPrompt } from '../_shared/strategyParsing.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,19 +30,8 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Get LLM configuration
-    const { data: llmConfig } = await supabase
-      .from('llm_configurations')
-      .select('*')
-      .eq('is_active', true)
-      .single();
-
-    if (!llmConfig) {
-      return new Response(JSON.stringify({ error: 'No active LLM configuration found' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    // Get LLM configuration (provider, model and limits come from LLMConfigPanel)
+    const llmConfig = await loadLlmConfiguration(supabase);
 
     // Get available data categories
     const { data: categories } = await supabase
@@ -48,137 +39,27 @@ serve(async (req) => {
       .select('*')
       .eq('is_enabled', true);
 
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
-      return new Response(JSON.stringify({ error: 'OpenAI API key not configured' }), {
+    let provider;
+    try {
+      provider = llmProviderFromConfig(llmConfig, (key) => Deno.env.get(key));
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const systemPrompt = `You are an expert crypto trading strategy parser. Your job is to convert natural language trading instructions into structured JSON strategy configurations.
-
-Available data categories: ${categories?.map(c => c.category_name).join(', ')}
-
-Parse the user's prompt and extract:
-1. Assets/currencies mentioned
-2. Action type (buy, sell, hold, rebalance, etc.)
-3. Trigger conditions (price movements, indicators, sentiment, etc.)
-4. Amount or percentage
-5. Frequency/schedule
-6. Thresholds and risk controls
-7. Required data categories
-8. AI intelligence preferences (autonomy level, signal weights, decision style)
-
-Return a JSON object with this exact structure:
-{
-  "strategy_name": "Generated name based on the strategy",
-  "description": "Clear description of what the strategy does",
-  "configuration": {
-    "action": "buy|sell|hold|rebalance|stop",
-    "assets": ["BTC", "ETH", "XRP"],
-    "amount": {
-      "type": "fixed|percentage|portfolio_percentage",
-      "value": 100,
-      "currency": "USD|EUR|BTC"
-    },
-    "frequency": "once|daily|weekly|monthly|on_trigger",
-    "triggers": [
-      {
-        "type": "price_movement|sentiment|indicator|volume|time",
-        "asset": "BTC",
-        "condition": "drops|rises|above|below|equals",
-        "threshold": 2,
-        "timeframe": "24h|7d|1h",
-        "operator": "and|or"
-      }
-    ],
-    "risk_management": {
-      "stop_loss": 10,
-      "take_profit": 5,
-      "max_drawdown": 15,
-      "position_size": 1
-    },
-    "portfolio_allocation": {
-      "BTC": 60,
-      "ETH": 30,
-      "XRP": 10
-    },
-    "aiIntelligenceConfig": {
-      "enableAIOverride": true,
-      "aiAutonomyLevel": 50,
-      "aiConfidenceThreshold": 70,
-      "enablePatternRecognition": true,
-      "patternLookbackHours": 168,
-      "crossAssetCorrelation": true,
-      "marketStructureAnalysis": true,
-      "enableExternalSignals": true,
-      "whaleActivityWeight": 25,
-      "sentimentWeight": 20,
-      "newsImpactWeight": 30,
-      "socialSignalsWeight": 15,
-      "decisionMode": "balanced",
-      "escalationThreshold": 80,
-      "riskOverrideAllowed": false,
-      "enableLearning": true,
-      "adaptToPerformance": true,
-      "learningRate": 50,
-      "explainDecisions": true,
-      "alertOnAnomalies": true,
-      "alertOnOverrides": true,
-      "customInstructions": ""
-    }
-  },
-  "required_categories": ["Social Sentiment", "Market Data"],
-  "risk_level": "low|medium|high",
-  "complexity": "simple|intermediate|advanced"
-}
-
-AI Intelligence Configuration Guidelines:
-- If the user mentions "be conservative" or "careful", set aiAutonomyLevel lower (20-40)
-- If they want "aggressive" or "fast decisions", set aiAutonomyLevel higher (60-80)
-- If they mention specific external signals (whale moves, sentiment, news), increase those weights
-- If they want explanations or transparency, enable explainDecisions
-- For complex strategies requiring pattern recognition, enable relevant AI features
-- Set decisionMode based on user's risk appetite: conservative/balanced/aggressive
-
-Be precise and extract all relevant information. If information is missing, use reasonable defaults based on the strategy's complexity and risk level.`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: llmConfig.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt }
-        ],
-        temperature: llmConfig.temperature,
-        max_tokens: llmConfig.max_tokens,
-      }),
+    const llm = createLlmClient(provider, {
+      supabase,
+      userId,
+      functionName: 'parse-strategy',
+      temperature: Number(llmConfig.temperature ?? LLM_DEFAULTS.TEMPERATURE),
+      maxTokens: llmConfig.max_tokens ?? LLM_DEFAULTS.MAX_TOKENS,
     });
 
-    const aiResponse = await response.json();
-    
-    if (!aiResponse.choices || !aiResponse.choices[0]) {
-      throw new Error('Invalid AI response');
-    }
-
-    let parsedStrategy;
-    try {
-      parsedStrategy = JSON.parse(aiResponse.choices[0].message.content);
-    } catch (e) {
-      throw new Error('Failed to parse AI response as JSON');
-    }
-
-    // Check which required categories are available and which are missing
     const availableCategoryNames = categories?.map(c => c.category_name) || [];
-    const missingCategories = parsedStrategy.required_categories?.filter(
-      (cat: string) => !availableCategoryNames.includes(cat)
-    ) || [];
+    const { strategy: parsedStrategy, missing_categories: missingCategories } =
+      await parseStrategyPrompt(llm, prompt, availableCategoryNames);
 
     // Get data sources for required categories
     const { data: dataSources } = await supabase
@@ -1,14 +1,17 @@
 /**
  * price-snapshot-refresh — CANONICAL PRICE WRITER
  * 
- * This Edge Function is the ONLY writer to the price_snapshots table.
- * It runs every 5 minutes (via GitHub Action or pg_cron) and fetches
- * current prices from Coinbase for all active trading symbols.
+ * REST writer to the price_snapshots table. It runs every 5 minutes (via
+ * GitHub Action or pg_cron) and fetches current prices from Coinbase for
+ * all active trading symbols. price-stream writes the same rows every few
+ * seconds from the Coinbase websocket (source = 'coinbase_ws'); this
+ * function is the fallback when the stream is down.
  * 
  * INVARIANTS:
- * - Single authoritative writer to price_snapshots
- * - Max staleness: 5 minutes
+ * - Only price-snapshot-refresh and price-stream write price_snapshots
+ * - Max staleness: 5 minutes (seconds while price-stream is live)
  * - All other components READ from price_snapshots
+ * - Each successful write triggers resting-orders-evaluator
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -26,6 +29,7 @@ const ACTIVE_SYMBOLS = [
 
 const COINBASE_API_BASE = 'https://api.exchange.coinbase.com';
 const FETCH_TIMEOUT_MS = 5000;
+const EVALUATOR_TIMEOUT_MS = 60000;
 
 interface PriceResult {
   symbol: string;
@@ -85,6 +89,40 @@ async function fetchCoinbasePrice(symbol: string): Promise<PriceResult | FailedS
   }
 }
 
+/**
+ * Evaluate resting limit/stop orders against the snapshots just written
+ */
+async function triggerRestingOrders(): Promise<{ processed: number; fired: number } | null> {
+  const url = Deno.env.get('SUPABASE_URL') ?? '';
+  const serviceRole = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), EVALUATOR_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${url}/functions/v1/resting-orders-evaluator`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceRole}`,
+      },
+      body: JSON.stringify({}),
+      signal: controller.signal,
+    });
+    clearTimeout(timeout);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data?.ok) {
+      console.warn('[price-snapshot-refresh] Resting orders evaluator failed:', response.status, data?.error);
+      return null;
+    }
+    return { processed: data.processed ?? 0, fired: data.fired ?? 0 };
+  } catch (err) {
+    clearTimeout(timeout);
+    console.warn('[price-snapshot-refresh] Resting orders evaluator unreachable:', err);
+    return null;
+  }
+}
+
 /**
  * Get symbols with open positions (optional optimization)
  */
@@ -155,6 +193,7 @@ Deno.serve(async (req) => {
     console.log(`[price-snapshot-refresh] Fetched ${prices.length} prices, ${failed.length} failed`);
 
     // Upsert successful prices into price_snapshots
+    let restingOrders: { processed: number; fired: number } | null = null;
     if (prices.length > 0) {
       // Insert with multiple key formats for compatibility
       const snapshots = prices.flatMap(p => [
@@ -175,6 +214,7 @@ Deno.serve(async (req) => {
         console.error('[price-snapshot-refresh] Upsert error:', upsertError);
       } else {
         console.log(`[price-snapshot-refresh] Upserted ${snapshots.length} snapshot rows`);
+        restingOrders = await triggerRestingOrders();
       }
     }
 
@@ -190,6 +230,7 @@ Deno.serve(async (req) => {
       failed: failed.length,
       symbols_refreshed: prices.map(p => p.symbol),
       symbols_failed: failed,
+      resting_orders: restingOrders,
       elapsed_ms: elapsed,
       timestamp: new Date().toISOString(),
     };
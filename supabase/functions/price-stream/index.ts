@@ -0,0 +1,347 @@
+/**
+ * price-stream — Coinbase websocket → price_snapshots + Supabase Realtime
+ *
+ * Each cron invocation (every minute) holds one streaming session of
+ * SESSION_MS on the Coinbase Exchange feed (heartbeat, ticker, level2_batch):
+ * - reconnects with exponential backoff on close, error or a silent socket
+ * - re-syncs a product from the REST ticker on a sequence gap
+ * - leaves products whose heartbeat went stale out of price_snapshots
+ * - writes price_snapshots every SNAPSHOT_INTERVAL_MS (source = coinbase_ws)
+ * - broadcasts changed prices on the 'market-prices' Realtime topic
+ *   every BROADCAST_INTERVAL_MS (MarketDataContext listens)
+ * - triggers resting-orders-evaluator after a snapshot write, at most every
+ *   RESTING_ORDERS_INTERVAL_MS and never while a previous run is in flight
+ *
+ * price-snapshot-refresh stays scheduled as the REST fallback writer.
+ * compact_price_snapshots() (hourly cron) thins old rows to one per minute.
+ *
+ * Invocation: cron { scheduled: true } with x-cron-secret
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  PRICE_STREAM_DEFAULTS,
+  createPriceStreamState,
+  reconnectDelayMs,
+  subscribeMessage,
+  type PriceStreamState,
+  type StreamedPrice,
+} from '../_shared/priceStream.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const REST_TIMEOUT_MS = 5000;
+
+// Same default universe as price-snapshot-refresh (EUR pairs)
+const DEFAULT_SYMBOLS = [
+  'BTC', 'ETH', 'SOL', 'XRP', 'AVAX', 'ADA',
+  'DOGE', 'DOT', 'LINK', 'MATIC', 'UNI', 'AAVE',
+];
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+interface SessionStats {
+  connections: number;
+  messages: number;
+  gaps: number;
+  resyncs: number;
+  snapshotWrites: number;
+  broadcasts: number;
+  restingOrderRuns: number;
+  restingOrdersFired: number;
+  staleProducts: string[];
+  errors: string[];
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Open positions + defaults, as EUR product ids */
+async function getProductIds(): Promise<string[]> {
+  const symbols = new Set(DEFAULT_SYMBOLS);
+  const { data, error } = await supabase
+    .from('mock_trades')
+    .select('cryptocurrency')
+    .eq('trade_type', 'buy')
+    .eq('is_open_position', true);
+  if (error) {
+    logger.warn('PRICE_STREAM_SYMBOLS_FALLBACK', { error: error.message });
+  }
+  for (const row of data ?? []) {
+    const base = String(row.cryptocurrency ?? '').replace('-EUR', '').replace('-USD', '').toUpperCase();
+    if (base) symbols.add(base);
+  }
+  return [...symbols].map((s) => `${s}-EUR`);
+}
+
+async function resyncFromRest(state: PriceStreamState, productId: string): Promise<boolean> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${PRICE_STREAM_DEFAULTS.REST_URL}/products/${productId}/ticker`, { signal: controller.signal });
+    if (!response.ok) return false;
+    return state.applyRestTicker(productId, await response.json(), Date.now());
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function writeSnapshots(state: PriceStreamState, stats: SessionStats): Promise<boolean> {
+  const rows = state.snapshotRows(Date.now());
+  if (rows.length === 0) return false;
+  const { error } = await supabase
+    .from('price_snapshots')
+    .upsert(rows, { onConflict: 'symbol,ts', ignoreDuplicates: false });
+  if (error) {
+    logger.error('PRICE_STREAM_SNAPSHOT_FAILED', { error: error.message });
+    stats.errors.push(`snapshot: ${error.message}`);
+    return false;
+  }
+  stats.snapshotWrites++;
+  return true;
+}
+
+/**
+ * Throttled resting-orders-evaluator trigger: snapshots land every few
+ * seconds, the evaluator only needs to see a fresh price a few times a minute.
+ */
+function createRestingOrdersTrigger(stats: SessionStats) {
+  let lastRunAt = 0;
+  let inFlight = false;
+
+  return async (now: number) => {
+    if (inFlight || now - lastRunAt < PRICE_STREAM_DEFAULTS.RESTING_ORDERS_INTERVAL_MS) return;
+    inFlight = true;
+    lastRunAt = now;
+    try {
+      const response = await fetch(`${PROJECT_URL}/functions/v1/resting-orders-evaluator`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${SERVICE_ROLE}`,
+        },
+        body: JSON.stringify({}),
+        signal: AbortSignal.timeout(PRICE_STREAM_DEFAULTS.RESTING_ORDERS_TIMEOUT_MS),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data?.ok) {
+        logger.warn('PRICE_STREAM_RESTING_ORDERS_FAILED', { status: response.status, error: data?.error });
+        return;
+      }
+      stats.restingOrderRuns++;
+      stats.restingOrdersFired += Number(data.fired ?? 0);
+    } catch (err) {
+      logger.warn('PRICE_STREAM_RESTING_ORDERS_UNREACHABLE', { error: (err as Error).message });
+    } finally {
+      inFlight = false;
+    }
+  };
+}
+
+type RestingOrdersTrigger = ReturnType<typeof createRestingOrdersTrigger>;
+
+/** Realtime REST broadcast: no socket needed on the server side */
+async function broadcast(prices: StreamedPrice[], stats: SessionStats) {
+  if (prices.length === 0) return;
+  try {
+    const response = await fetch(`${PROJECT_URL}/realtime/v1/api/broadcast`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: SERVICE_ROLE,
+        Authorization: `Bearer ${SERVICE_ROLE}`,
+      },
+      body: JSON.stringify({
+        messages: [{
+          topic: PRICE_STREAM_DEFAULTS.REALTIME_TOPIC,
+          event: PRICE_STREAM_DEFAULTS.REALTIME_EVENT,
+          payload: { prices, sent_at: new Date().toISOString() },
+        }],
+      }),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    stats.broadcasts++;
+  } catch (err) {
+    logger.warn('PRICE_STREAM_BROADCAST_FAILED', { error: (err as Error).message });
+  }
+}
+
+/**
+ * One websocket connection; resolves when it closes, goes silent or the
+ * session deadline passes. Returns true if the connection ever subscribed.
+ */
+function runConnection(
+  state: PriceStreamState,
+  productIds: string[],
+  deadline: number,
+  stats: SessionStats,
+  triggerRestingOrders: RestingOrdersTrigger,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const ws = new WebSocket(PRICE_STREAM_DEFAULTS.WS_URL);
+    const connectedAt = Date.now();
+    const resyncing = new Set<string>();
+    let subscribed = false;
+    let finished = false;
+    let lastSnapshotAt = 0;
+    let lastBroadcastAt = 0;
+    const reportedStale = new Set<string>();
+
+    const finish = (reason: string) => {
+      if (finished) return;
+      finished = true;
+      clearInterval(ticker);
+      try { ws.close(); } catch { /* already closed */ }
+      logger.log('PRICE_STREAM_DISCONNECTED', { reason, subscribed, ms: Date.now() - connectedAt });
+      resolve(subscribed);
+    };
+
+    const resync = (productId: string) => {
+      if (resyncing.has(productId)) return;
+      resyncing.add(productId);
+      stats.resyncs++;
+      resyncFromRest(state, productId).finally(() => resyncing.delete(productId));
+    };
+
+    ws.onopen = () => {
+      state.resetConnection();
+      ws.send(JSON.stringify(subscribeMessage(productIds)));
+    };
+
+    ws.onmessage = (event) => {
+      stats.messages++;
+      let msg: unknown;
+      try {
+        msg = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      for (const ev of state.handle(msg, Date.now())) {
+        if (ev.type === 'subscribed') {
+          subscribed = true;
+          // Quiet products may not trade for a while: seed every price from REST
+          for (const productId of productIds) resync(productId);
+        } else if (ev.type === 'gap') {
+          stats.gaps++;
+          logger.warn('PRICE_STREAM_SEQUENCE_GAP', ev);
+          resync(ev.productId);
+        } else if (ev.type === 'error') {
+          stats.errors.push(ev.message);
+          logger.error('PRICE_STREAM_FEED_ERROR', { message: ev.message });
+        }
+      }
+    };
+
+    ws.onerror = () => finish('error');
+    ws.onclose = () => finish('closed');
+
+    // Housekeeping: staleness, snapshot writes, broadcasts, deadline
+    const ticker = setInterval(() => {
+      const now = Date.now();
+      if (now >= deadline) return finish('session_deadline');
+      if (state.isSocketStale(now, connectedAt)) return finish('socket_stale');
+
+      // First heartbeats need a moment after subscribing
+      if (subscribed && now - connectedAt > PRICE_STREAM_DEFAULTS.HEARTBEAT_STALE_MS) {
+        const stale = state.staleProducts(now);
+        if (stale.length === productIds.length) return finish('heartbeat_stale');
+        for (const productId of stale) {
+          if (reportedStale.has(productId)) continue;
+          reportedStale.add(productId);
+          logger.warn('PRICE_STREAM_HEARTBEAT_STALE', { productId });
+        }
+        for (const productId of [...reportedStale]) {
+          if (!stale.includes(productId)) reportedStale.delete(productId);
+        }
+        stats.staleProducts = [...reportedStale];
+      }
+
+      if (now - lastBroadcastAt >= PRICE_STREAM_DEFAULTS.BROADCAST_INTERVAL_MS) {
+        lastBroadcastAt = now;
+        broadcast(state.drainChanged(), stats);
+      }
+      if (subscribed && now - lastSnapshotAt >= PRICE_STREAM_DEFAULTS.SNAPSHOT_INTERVAL_MS) {
+        lastSnapshotAt = now;
+        writeSnapshots(state, stats).then((written) => {
+          if (written) triggerRestingOrders(Date.now());
+        });
+      }
+    }, 250);
+  });
+}
+
+async function runSession(productIds: string[]): Promise<SessionStats> {
+  const stats: SessionStats = {
+    connections: 0,
+    messages: 0,
+    gaps: 0,
+    resyncs: 0,
+    snapshotWrites: 0,
+    broadcasts: 0,
+    restingOrderRuns: 0,
+    restingOrdersFired: 0,
+    staleProducts: [],
+    errors: [],
+  };
+  const state = createPriceStreamState(productIds);
+  const deadline = Date.now() + PRICE_STREAM_DEFAULTS.SESSION_MS;
+  const triggerRestingOrders = createRestingOrdersTrigger(stats);
+
+  let attempt = 0;
+  while (Date.now() < deadline) {
+    stats.connections++;
+    const subscribed = await runConnection(state, productIds, deadline, stats, triggerRestingOrders);
+    if (Date.now() >= deadline) break;
+
+    // A connection that got as far as subscribing resets the backoff
+    attempt = subscribed ? 0 : attempt + 1;
+    const delay = Math.min(reconnectDelayMs(attempt), deadline - Date.now());
+    logger.warn('PRICE_STREAM_RECONNECT', { attempt, delayMs: delay });
+    await sleep(delay);
+  }
+
+  // Final flush so the last seconds of the session are not lost
+  await broadcast(state.drainChanged(), stats);
+  await writeSnapshots(state, stats);
+  return stats;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        logger.error('❌ PRICE_STREAM: CRON_SECRET mismatch or not set');
+        return json({ success: false, error: 'forbidden' }, 403);
+      }
+    } else if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE}`) {
+      return json({ success: false, error: 'forbidden' }, 403);
+    }
+
+    const productIds = await getProductIds();
+    logger.log('PRICE_STREAM_SESSION_START', { products: productIds.length });
+    const stats = await runSession(productIds);
+    logger.log('PRICE_STREAM_SESSION_END', stats);
+
+    return json({ success: true, products: productIds, ...stats });
+  } catch (error) {
+    logger.error('PRICE_STREAM_ERROR', { error: String((error as Error)?.message ?? error) });
+    return json({ success: false, error: String((error as Error)?.message ?? error) }, 500);
+  }
+});
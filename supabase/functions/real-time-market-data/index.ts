@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5'
+import { PRICE_STREAM_DEFAULTS } from '../_shared/priceStream.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -76,6 +77,26 @@ serve(async (req) => {
     if (req.method === 'POST') {
       const { symbols, action }: MarketDataRequest = await req.json()
       
+      // Live prices are pushed by price-stream over Supabase Realtime; a
+      // subscription is a Realtime channel join, not a server-side session
+      if (action === 'subscribe' || action === 'unsubscribe') {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            action,
+            symbols,
+            realtime: {
+              channel: PRICE_STREAM_DEFAULTS.REALTIME_TOPIC,
+              event: PRICE_STREAM_DEFAULTS.REALTIME_EVENT
+            }
+          }),
+          { 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200 
+          }
+        )
+      }
+      
       if (action === 'get_current') {
         console.log(`📊 Fetching current market data for symbols: ${symbols.join(', ')}`)
         const marketData: Record<string, any> = {}
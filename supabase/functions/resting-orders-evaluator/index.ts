@@ -0,0 +1,291 @@
+/**
+ * Resting orders evaluator (limit / stop-loss / stop-limit)
+ *
+ * Runs right after every price-snapshot-refresh:
+ * 1. Load OPEN resting_orders and the latest price_snapshots row per symbol
+ *    (snapshots older than MAX_SNAPSHOT_AGE_MS never trigger anything)
+ * 2. evaluateRestingOrder() per order → EXPIRE / ARM_STOP / FIRE
+ * 3. FIRE claims the row (OPEN → TRIGGERED) and sends a manual intent with
+ *    context RESTING_ORDER to trading-decision-coordinator, so the same gates
+ *    as any other intent apply and the fill lands in mock_trades as a lot
+ *
+ * Coordinator outcome:
+ * - executed (action === side)   → FILLED
+ * - DEFER                        → back to OPEN, retried on the next refresh
+ *                                  (REJECTED after MAX_FIRE_ATTEMPTS)
+ * - BLOCK / HOLD / error         → REJECTED
+ *
+ * Invocation (service role or x-cron-secret only; fired orders trade for
+ * their owners, so anonymous callers must not be able to force a pass):
+ * - price-snapshot-refresh (service role, fire-and-forget)
+ * - cron: x-cron-secret
+ * - direct: { orderId } to evaluate a single order
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  RESTING_ORDER_DEFAULTS,
+  evaluateRestingOrder,
+  type RestingOrderRow,
+} from '../_shared/restingOrders.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const MAX_ORDERS_PER_RUN = 200;
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+const serviceHeaders = {
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${SERVICE_ROLE}`,
+  apikey: SERVICE_ROLE,
+};
+
+/** trading-decision-coordinator response, as far as the evaluator reads it */
+interface CoordinatorResponse {
+  error?: string;
+  tradeId?: string;
+  tx_hash?: string;
+  decision?: {
+    action?: string;
+    reason?: string;
+    request_id?: string;
+    trade_id?: string;
+    tx_hash?: string;
+  };
+}
+
+type OrderOutcome = {
+  orderId: string;
+  action: 'NONE' | 'ARM_STOP' | 'EXPIRE' | 'FIRE' | 'SKIPPED';
+  status?: string;
+  reason?: string;
+};
+
+// ========================================================================
+// Prices
+// ========================================================================
+async function latestPrices(symbols: string[]): Promise<Map<string, { price: number; ts: string }>> {
+  const prices = new Map<string, { price: number; ts: string }>();
+  const cutoff = new Date(Date.now() - RESTING_ORDER_DEFAULTS.MAX_SNAPSHOT_AGE_MS).toISOString();
+
+  await Promise.all(symbols.map(async (symbol) => {
+    const { data, error } = await supabase
+      .from('price_snapshots')
+      .select('price, ts')
+      .eq('symbol', symbol)
+      .gte('ts', cutoff)
+      .order('ts', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      logger.warn('RESTING_ORDERS: snapshot read failed', { symbol, error: error.message });
+      return;
+    }
+    const price = Number(data?.price);
+    if (data && Number.isFinite(price) && price > 0) {
+      prices.set(symbol, { price, ts: data.ts });
+    }
+  }));
+
+  return prices;
+}
+
+// ========================================================================
+// Firing
+// ========================================================================
+async function finishOrder(orderId: string, patch: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('resting_orders')
+    .update(patch)
+    .eq('id', orderId)
+    .eq('status', 'TRIGGERED');
+  if (error) logger.error('RESTING_ORDERS: outcome update failed', { orderId, error: error.message });
+}
+
+async function fireOrder(order: RestingOrderRow, price: number): Promise<OrderOutcome> {
+  const attempt = (order.fire_attempts ?? 0) + 1;
+
+  // Claim: only one evaluator run moves the order out of OPEN
+  const { data: claimed, error: claimError } = await supabase
+    .from('resting_orders')
+    .update({
+      status: 'TRIGGERED',
+      triggered_at: new Date().toISOString(),
+      triggered_price: price,
+      fire_attempts: attempt,
+    })
+    .eq('id', order.id)
+    .eq('status', 'OPEN')
+    .select('id')
+    .maybeSingle();
+  if (claimError || !claimed) {
+    return { orderId: order.id, action: 'SKIPPED', reason: claimError?.message ?? 'already_claimed' };
+  }
+
+  const isBuy = order.side === 'BUY';
+  const intent = {
+    userId: order.user_id,
+    strategyId: order.strategy_id,
+    symbol: order.symbol,
+    side: order.side,
+    source: 'manual',
+    confidence: 1.0,
+    reason: `Resting ${order.order_type} ${order.side} ${order.id}`,
+    qtySuggested: isBuy ? undefined : Number(order.amount),
+    metadata: {
+      context: RESTING_ORDER_DEFAULTS.INTENT_CONTEXT,
+      resting_order_id: order.id,
+      order_type: order.order_type,
+      limit_price: order.limit_price,
+      stop_price: order.stop_price,
+      slippage_bps: order.slippage_bps,
+      eurAmount: isBuy ? Number(order.amount) : undefined,
+      currentPrice: price,
+    },
+    ts: new Date().toISOString(),
+    idempotencyKey: `resting_${order.id}_${attempt}`,
+  };
+
+  let data: CoordinatorResponse;
+  try {
+    const res = await fetch(`${PROJECT_URL}/functions/v1/trading-decision-coordinator`, {
+      method: 'POST',
+      headers: serviceHeaders,
+      body: JSON.stringify({ intent }),
+    });
+    data = (await res.json().catch(() => ({}))) as CoordinatorResponse;
+    if (!res.ok) {
+      const reason = String(data?.error || `coordinator_http_${res.status}`);
+      await finishOrder(order.id, { status: 'REJECTED', decision_reason: reason });
+      return { orderId: order.id, action: 'FIRE', status: 'REJECTED', reason };
+    }
+  } catch (err) {
+    // The coordinator may or may not have executed: never re-fire blindly
+    const reason = `coordinator_unreachable: ${String((err as Error)?.message ?? err)}`;
+    await finishOrder(order.id, { status: 'REJECTED', decision_reason: reason });
+    return { orderId: order.id, action: 'FIRE', status: 'REJECTED', reason };
+  }
+
+  const decision = data.decision || {};
+  const action = String(decision.action || 'UNKNOWN');
+  const reason = String(decision.reason || data?.error || 'unknown');
+  const common = {
+    coordinator_request_id: decision.request_id ?? null,
+    decision_action: action,
+    decision_reason: reason,
+  };
+
+  if (action === order.side) {
+    await finishOrder(order.id, {
+      ...common,
+      status: 'FILLED',
+      trade_id: decision.trade_id ?? data?.tradeId ?? null,
+      tx_hash: decision.tx_hash ?? data?.tx_hash ?? null,
+    });
+    return { orderId: order.id, action: 'FIRE', status: 'FILLED', reason };
+  }
+
+  if (action === 'DEFER' && attempt < RESTING_ORDER_DEFAULTS.MAX_FIRE_ATTEMPTS) {
+    await finishOrder(order.id, { ...common, status: 'OPEN', triggered_at: null });
+    return { orderId: order.id, action: 'FIRE', status: 'OPEN', reason };
+  }
+
+  await finishOrder(order.id, { ...common, status: 'REJECTED' });
+  return { orderId: order.id, action: 'FIRE', status: 'REJECTED', reason };
+}
+
+async function processOrder(order: RestingOrderRow, prices: Map<string, { price: number; ts: string }>): Promise<OrderOutcome> {
+  const snapshot = prices.get(order.symbol);
+  const evaluation = evaluateRestingOrder(order, snapshot?.price ?? NaN);
+
+  switch (evaluation.action) {
+    case 'EXPIRE': {
+      await supabase
+        .from('resting_orders')
+        .update({ status: 'EXPIRED' })
+        .eq('id', order.id)
+        .eq('status', 'OPEN');
+      return { orderId: order.id, action: 'EXPIRE', status: 'EXPIRED' };
+    }
+    case 'ARM_STOP': {
+      await supabase
+        .from('resting_orders')
+        .update({ stop_triggered_at: new Date().toISOString() })
+        .eq('id', order.id)
+        .eq('status', 'OPEN')
+        .is('stop_triggered_at', null);
+      return { orderId: order.id, action: 'ARM_STOP' };
+    }
+    case 'FIRE':
+      return fireOrder(order, snapshot!.price);
+    default:
+      return { orderId: order.id, action: 'NONE' };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  const isServiceRole = req.headers.get('Authorization') === `Bearer ${SERVICE_ROLE}`;
+  const isCron = !!cronSecret && req.headers.get('x-cron-secret') === cronSecret;
+  if (!isServiceRole && !isCron) {
+    logger.error('❌ RESTING_ORDERS: caller is neither service role nor cron');
+    return new Response(
+      JSON.stringify({ ok: false, error: 'forbidden' }),
+      { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    let query = supabase
+      .from('resting_orders')
+      .select('*')
+      .eq('status', 'OPEN')
+      .order('created_at', { ascending: true })
+      .limit(MAX_ORDERS_PER_RUN);
+    if (body?.orderId) query = query.eq('id', body.orderId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const orders = (data ?? []) as RestingOrderRow[];
+
+    if (orders.length === 0) {
+      return new Response(
+        JSON.stringify({ ok: true, processed: 0, results: [] }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const prices = await latestPrices([...new Set(orders.map((o) => o.symbol))]);
+
+    // Sequential: fired orders share the SYSTEM wallet nonce on REAL strategies
+    const results: OrderOutcome[] = [];
+    for (const order of orders) {
+      results.push(await processOrder(order, prices));
+    }
+
+    const fired = results.filter((r) => r.action === 'FIRE');
+    if (fired.length > 0) {
+      logger.info('RESTING_ORDERS: fired', fired);
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, processed: results.length, fired: fired.length, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    logger.error('RESTING_ORDERS_ERROR', { error: String((error as Error)?.message ?? error) });
+    return new Response(
+      JSON.stringify({ ok: false, error: String((error as Error)?.message ?? error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { classifySourceHealth, SIGNAL_SOURCE_DEFAULTS } from "../_shared/signalSource.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,7 +20,8 @@ serve(async (req) => {
 
     console.info('[SIGNAL_HEALTH] Running staleness check...');
 
-    // Get all known sources and their expected intervals
+    // Get all known sources, their expected intervals and runner heartbeats
+    // (every collector going through runSignalSource upserts its own row)
     const { data: sources, error: srcErr } = await supabase
       .from('signal_source_health')
       .select('*');
@@ -52,18 +54,24 @@ serve(async (req) => {
       const lastSignalAt = latest?.[0]?.timestamp || null;
       const signalCount24h = count || 0;
 
-      // Staleness: no signal for > 2× expected interval
-      let status = 'healthy';
-      if (!lastSignalAt) {
-        status = 'dead';
-        console.warn(`[SIGNAL_STALE_WARNING] source=${src.source} status=dead (no signals ever)`);
-      } else {
-        const ageMs = now - new Date(lastSignalAt).getTime();
-        const thresholdMs = src.expected_interval_seconds * 2 * 1000;
-        if (ageMs > thresholdMs) {
-          status = 'stale';
-          console.warn(`[SIGNAL_STALE_WARNING] source=${src.source} age_min=${Math.round(ageMs / 60000)} threshold_min=${Math.round(thresholdMs / 60000)}`);
-        }
+      // healthy: signal within 2× expected interval
+      // idle:    no fresh signal, but the collector ran within that window
+      // failing: the collector's last run errored
+      // stale / dead: nothing recent / nothing ever
+      const status = classifySourceHealth({
+        expectedIntervalSeconds: src.expected_interval_seconds,
+        lastSignalAt,
+        lastRunAt: src.last_run_at,
+        lastRunStatus: src.last_run_status,
+      }, now);
+
+      if (status === 'dead') {
+        console.warn(`[SIGNAL_STALE_WARNING] source=${src.source} status=dead (no signals or runs ever)`);
+      } else if (status === 'stale' || status === 'failing') {
+        const lastSeen = lastSignalAt ?? src.last_run_at;
+        const ageMin = lastSeen ? Math.round((now - new Date(lastSeen).getTime()) / 60000) : 'n/a';
+        const thresholdMs = src.expected_interval_seconds * SIGNAL_SOURCE_DEFAULTS.STALE_INTERVALS * 1000;
+        console.warn(`[SIGNAL_STALE_WARNING] source=${src.source} status=${status} age_min=${ageMin} threshold_min=${Math.round(thresholdMs / 60000)}${src.last_error ? ` last_error=${src.last_error}` : ''}`);
       }
 
       // Update health row
@@ -82,6 +90,9 @@ serve(async (req) => {
         status,
         last_signal_at: lastSignalAt,
         signal_count_24h: signalCount24h,
+        last_run_at: src.last_run_at ?? null,
+        last_run_status: src.last_run_status ?? null,
+        last_error: src.last_error ?? null,
       });
 
       console.info(`[SIGNAL_INGESTION_EVENT] source=${src.source} status=${status} count_24h=${signalCount24h}`);
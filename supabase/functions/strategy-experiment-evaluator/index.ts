@@ -0,0 +1,151 @@
+/**
+ * strategy-experiment-evaluator — A/B comparison of running strategy_experiments
+ *
+ * Hourly, for every running experiment: closed MOCK sells of each arm since
+ * started_at → win-rate and per-trade P&L differences with confidence
+ * intervals (see _shared/strategyExperiments.ts). The latest evaluation is
+ * stored on the row; the experiment is completed automatically when the
+ * primary metric is significant (winner = leading arm) or after
+ * max_duration_days (winner = inconclusive).
+ *
+ * Invocation: cron { scheduled: true } with x-cron-secret, or
+ *             { experimentId } to evaluate a single experiment on demand
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  evaluateExperiment,
+  experimentOutcome,
+  type StrategyExperimentRow,
+} from '../_shared/strategyExperiments.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Realized EUR P&L of the arm's closed MOCK trades since the experiment started */
+async function armPnls(strategyId: string, userId: string, since: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('mock_trades')
+    .select('profit_loss')
+    .eq('user_id', userId)
+    .eq('strategy_id', strategyId)
+    .eq('trade_type', 'sell')
+    .eq('is_test_mode', true)
+    .eq('is_corrupted', false)
+    .gte('executed_at', since);
+  if (error) throw new Error(`mock_trades query failed for ${strategyId}: ${error.message}`);
+  return (data ?? [])
+    .filter((row) => row.profit_loss !== null && row.profit_loss !== undefined)
+    .map((row) => Number(row.profit_loss))
+    .filter((pnl) => Number.isFinite(pnl));
+}
+
+async function evaluate(experiment: StrategyExperimentRow, nowMs: number) {
+  const [controlPnls, variantPnls] = await Promise.all([
+    armPnls(experiment.control_strategy_id, experiment.user_id, experiment.started_at),
+    armPnls(experiment.variant_strategy_id, experiment.user_id, experiment.started_at),
+  ]);
+
+  const evaluation = evaluateExperiment(controlPnls, variantPnls, {
+    alpha: Number(experiment.alpha),
+    minTradesPerArm: experiment.min_trades_per_arm,
+    primaryMetric: experiment.primary_metric,
+  });
+  const outcome = experimentOutcome(evaluation, experiment, nowMs);
+  const evaluatedAt = new Date(nowMs).toISOString();
+
+  const { error } = await supabase
+    .from('strategy_experiments')
+    .update({
+      result: evaluation,
+      last_evaluated_at: evaluatedAt,
+      ...(outcome.stop
+        ? { status: 'completed', winner: outcome.winner, stopped_reason: outcome.reason, ended_at: evaluatedAt }
+        : {}),
+    })
+    .eq('id', experiment.id)
+    .eq('status', 'running');
+  if (error) throw new Error(`strategy_experiments update failed: ${error.message}`);
+
+  if (outcome.stop) {
+    console.log('STRATEGY_EXPERIMENT_COMPLETED', {
+      experimentId: experiment.id,
+      reason: outcome.reason,
+      winner: outcome.winner,
+      controlTrades: evaluation.control.trades,
+      variantTrades: evaluation.variant.trades,
+    });
+  }
+
+  return { id: experiment.id, stopped: outcome.stop, winner: outcome.winner, evaluation };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        console.error('❌ STRATEGY_EXPERIMENT_EVALUATOR: CRON_SECRET mismatch or not set');
+        return json({ success: false, error: 'forbidden' }, 403);
+      }
+    }
+
+    let query = supabase
+      .from('strategy_experiments')
+      .select('id, user_id, control_strategy_id, variant_strategy_id, split_mode, split_config, primary_metric, alpha, min_trades_per_arm, max_duration_days, status, started_at')
+      .eq('status', 'running');
+
+    // On-demand evaluation of one experiment must come from its owner
+    if (body?.scheduled !== true) {
+      if (!body?.experimentId) return json({ success: false, error: 'experimentId required' }, 400);
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) return json({ success: false, error: 'unauthorized' }, 401);
+      query = query.eq('id', body.experimentId).eq('user_id', user.id);
+    }
+
+    const { data: experiments, error } = await query;
+    if (error) throw new Error(`strategy_experiments query failed: ${error.message}`);
+
+    const nowMs = Date.now();
+    const results = [];
+    const failed: { id: string; error: string }[] = [];
+    for (const experiment of (experiments ?? []) as StrategyExperimentRow[]) {
+      try {
+        results.push(await evaluate(experiment, nowMs));
+      } catch (err) {
+        failed.push({ id: experiment.id, error: String((err as Error)?.message ?? err) });
+      }
+    }
+    if (failed.length > 0) {
+      console.warn('STRATEGY_EXPERIMENT_EVALUATOR_FAILED', failed);
+    }
+
+    console.log('STRATEGY_EXPERIMENT_EVALUATOR_RUN', {
+      evaluated: results.length,
+      completed: results.filter((r) => r.stopped).length,
+      failed: failed.length,
+    });
+
+    return json({ success: true, evaluated: results.length, results, failed });
+  } catch (error) {
+    console.error('STRATEGY_EXPERIMENT_EVALUATOR_ERROR', { error: String((error as Error)?.message ?? error) });
+    return json({ success: false, error: String((error as Error)?.message ?? error) }, 500);
+  }
+});
@@ -208,22 +208,36 @@ serve(async (req) => {
       optimizer_history: [...optimizerHistory, newHistoryEntry],
     };
 
-    // Update strategy_parameters with new value and metadata
+    // Update strategy_parameters through the versioned write so the change is
+    // recorded in strategy_config_versions (actor optimizer, linked suggestion)
     const updatePayload: any = {
       [columnName]: suggestion.suggested_value,
       metadata: updatedMetadata,
       last_updated_by: 'optimizer-v3',
-      updated_at: new Date().toISOString(),
     };
 
-    const { data: updatedParams, error: paramsError } = await supabase
-      .from('strategy_parameters')
-      .update(updatePayload)
-      .eq('user_id', suggestion.user_id)
-      .eq('strategy_id', suggestion.strategy_id)
-      .eq('symbol', suggestion.symbol)
-      .select()
-      .maybeSingle();
+    // The 'optimizer' actor is reserved for the service role. Ownership is
+    // already proven: the suggestion and its parameters row were read under RLS.
+    if (suggestion.user_id !== user.id) {
+      return new Response(JSON.stringify({ ok: false, error: 'Suggestion not found or not pending' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+    const serviceClient = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: updatedParams, error: paramsError } = await serviceClient.rpc('apply_strategy_parameter_change', {
+      p_strategy_id: suggestion.strategy_id,
+      p_symbol: suggestion.symbol,
+      p_changes: updatePayload,
+      p_actor: 'optimizer',
+      p_reason: `${suggestion.suggestion_type} ${suggestion.symbol}: ${parameterName} ${oldValue} → ${suggestion.suggested_value} (${suggestion.horizon})`,
+      p_suggestion_id: suggestion.id,
+    });
 
     if (paramsError) {
       console.error('Error updating strategy_parameters:', paramsError);
@@ -0,0 +1,318 @@
+/**
+ * strategy-promotion — server-side paper-to-live gate and live demotion
+ *
+ * { action: 'check', strategyId }    evaluate the promotion checklist for an
+ *                                    own MOCK strategy (nothing is stored)
+ * { action: 'promote', strategyId }  evaluate, store a signed report and, when
+ *                                    every check passed, create the LIVE copy
+ *                                    via promote_strategy_to_live
+ * cron { scheduled: true }           demotion pass: promoted LIVE strategies
+ *                                    far behind their paper stats are paused
+ *                                    to manage-only with a signed report; the
+ *                                    enforce_live_promotion_gate trigger keeps
+ *                                    users from re-activating them until a new
+ *                                    promotion of the paper source passes
+ *
+ * Checklist and thresholds: _shared/promotionGate.ts
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  calibrationQuality,
+  demotionCheck,
+  evaluatePromotion,
+  fetchClosedTrades,
+  PROMOTION_DEFAULTS,
+  signPromotionReport,
+  tradeStats,
+  type PromotionReport,
+  type TradeStats,
+} from '../_shared/promotionGate.ts';
+import { experimentPromotionGate, type StrategyExperimentRow } from '../_shared/strategyExperiments.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const REPORT_SECRET = Deno.env.get('PROMOTION_REPORT_SECRET');
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function capital(userId: string, isTestMode: boolean) {
+  const { data } = await supabase
+    .from('portfolio_capital')
+    .select('cash_balance_eur, starting_capital_eur')
+    .eq('user_id', userId)
+    .eq('is_test_mode', isTestMode)
+    .maybeSingle();
+  return {
+    cash: Number(data?.cash_balance_eur ?? 0),
+    starting: Number(data?.starting_capital_eur ?? 0),
+  };
+}
+
+/** Breakers that block trading for the user: active per-symbol breakers and a tripped PANIC */
+async function activeBreakers(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('execution_circuit_breakers')
+    .select('*')
+    .eq('user_id', userId);
+  if (error) throw new Error(`execution_circuit_breakers query failed: ${error.message}`);
+  return (data ?? [])
+    .filter((b) => b.is_active === true || b.tripped === true)
+    .map((b) => [b.breaker_type ?? b.breaker, b.symbol].filter(Boolean).join(':'));
+}
+
+async function evaluateStrategy(userId: string, strategyId: string) {
+  const since = new Date(Date.now() - PROMOTION_DEFAULTS.PAPER_LOOKBACK_DAYS * 86_400_000).toISOString();
+
+  const [trades, mockCapital, realCapital, calibration, breakers, experiments, prerequisites] = await Promise.all([
+    fetchClosedTrades(supabase, { userId, strategyId, isTestMode: true, since }),
+    capital(userId, true),
+    capital(userId, false),
+    supabase
+      .from('calibration_metrics')
+      .select('confidence_band, sample_count, win_rate_pct')
+      .eq('user_id', userId)
+      .eq('strategy_id', strategyId),
+    activeBreakers(userId),
+    supabase
+      .from('strategy_experiments')
+      .select('id, user_id, control_strategy_id, variant_strategy_id, split_mode, split_config, primary_metric, alpha, min_trades_per_arm, max_duration_days, status, started_at, winner')
+      .eq('user_id', userId),
+    supabase.rpc('check_live_trading_prerequisites', { p_user_id: userId }),
+  ]);
+  if (calibration.error) throw new Error(`calibration_metrics query failed: ${calibration.error.message}`);
+  if (experiments.error) throw new Error(`strategy_experiments query failed: ${experiments.error.message}`);
+  if (prerequisites.error) throw new Error(`check_live_trading_prerequisites failed: ${prerequisites.error.message}`);
+  const account = prerequisites.data?.checks ?? {};
+
+  const paper = tradeStats(trades, mockCapital.starting);
+  const calibrationStats = calibrationQuality(calibration.data ?? []);
+  const experiment = experimentPromotionGate((experiments.data ?? []) as StrategyExperimentRow[], strategyId);
+
+  const evaluation = evaluatePromotion({
+    paper,
+    calibration: calibrationStats,
+    real_cash_eur: realCapital.cash,
+    wallet_exists: account.wallet_exists === true,
+    rules_accepted: account.rules_accepted === true,
+    active_breakers: breakers,
+    experiment,
+  });
+
+  return {
+    evaluation,
+    metrics: {
+      paper,
+      calibration: calibrationStats,
+      real_cash_eur: realCapital.cash,
+      wallet_exists: account.wallet_exists === true,
+      rules_accepted: account.rules_accepted === true,
+      active_breakers: breakers,
+      experiment,
+      lookback_days: PROMOTION_DEFAULTS.PAPER_LOOKBACK_DAYS,
+    },
+  };
+}
+
+async function storeReport(report: PromotionReport) {
+  const signature = await signPromotionReport(report, REPORT_SECRET!);
+  const { error } = await supabase
+    .from('strategy_promotion_reports')
+    .insert({ ...report, signature, signature_alg: 'HMAC-SHA256' });
+  if (error) throw new Error(`strategy_promotion_reports insert failed: ${error.message}`);
+  return signature;
+}
+
+async function handleUserRequest(req: Request, body: { action?: string; strategyId?: string }) {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return json({ success: false, error: 'unauthorized' }, 401);
+
+  if (body.action !== 'check' && body.action !== 'promote') {
+    return json({ success: false, error: 'action must be check or promote' }, 400);
+  }
+  if (!body.strategyId) return json({ success: false, error: 'strategyId required' }, 400);
+
+  const { data: strategy } = await supabase
+    .from('trading_strategies')
+    .select('id, user_id, execution_target')
+    .eq('id', body.strategyId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (!strategy) return json({ success: false, error: 'strategy_not_found' }, 404);
+  if ((strategy.execution_target ?? 'MOCK') !== 'MOCK') {
+    return json({ success: false, error: 'source_must_be_mock' }, 400);
+  }
+
+  const { evaluation, metrics } = await evaluateStrategy(user.id, strategy.id);
+  if (body.action === 'check') {
+    return json({ success: true, passed: evaluation.passed, checks: evaluation.checks, metrics });
+  }
+
+  if (!REPORT_SECRET) {
+    logger.error('❌ STRATEGY_PROMOTION: PROMOTION_REPORT_SECRET not set');
+    return json({ success: false, error: 'promotion_signing_unavailable' }, 500);
+  }
+
+  const report: PromotionReport = {
+    id: crypto.randomUUID(),
+    user_id: user.id,
+    kind: 'promotion',
+    strategy_id: strategy.id,
+    promotion_report_id: null,
+    passed: evaluation.passed,
+    checks: evaluation.checks,
+    metrics,
+    thresholds: PROMOTION_DEFAULTS,
+    created_at: new Date().toISOString(),
+  };
+  await storeReport(report);
+
+  logger.log('STRATEGY_PROMOTION_EVALUATED', {
+    userId: user.id,
+    strategyId: strategy.id,
+    reportId: report.id,
+    passed: evaluation.passed,
+    failed: evaluation.checks.filter((c) => !c.passed).map((c) => c.id),
+  });
+
+  // Gate failures are a normal outcome for the modal: 200 with success=false
+  if (!evaluation.passed) {
+    return json({
+      success: false,
+      error: 'promotion_gate_failed',
+      report_id: report.id,
+      checks: evaluation.checks,
+    });
+  }
+
+  const { data: promoted, error } = await supabase.rpc('promote_strategy_to_live', {
+    p_strategy_id: strategy.id,
+    p_user_id: user.id,
+    p_report_id: report.id,
+  });
+  if (error) throw new Error(`promote_strategy_to_live failed: ${error.message}`);
+
+  return json({ ...promoted, report_id: report.id, checks: evaluation.checks });
+}
+
+/** Demotion pass over promoted LIVE strategies that are trading */
+async function runDemotionPass() {
+  const { data: promotions, error } = await supabase
+    .from('strategy_promotion_reports')
+    .select('id, user_id, live_strategy_id, metrics, created_at')
+    .eq('kind', 'promotion')
+    .eq('passed', true)
+    .not('live_strategy_id', 'is', null);
+  if (error) throw new Error(`strategy_promotion_reports query failed: ${error.message}`);
+
+  const demoted: { strategyId: string; reasons: string[] }[] = [];
+  const failed: { reportId: string; error: string }[] = [];
+  let evaluated = 0;
+
+  for (const promotion of promotions ?? []) {
+    try {
+      const { data: live } = await supabase
+        .from('trading_strategies')
+        .select('id, state, execution_target')
+        .eq('id', promotion.live_strategy_id)
+        .maybeSingle();
+      if (!live || live.state !== 'ACTIVE' || live.execution_target !== 'REAL') continue;
+
+      const paper = promotion.metrics?.paper as TradeStats | undefined;
+      if (!paper) continue;
+
+      const [trades, realCapital] = await Promise.all([
+        fetchClosedTrades(supabase, {
+          userId: promotion.user_id,
+          strategyId: live.id,
+          isTestMode: false,
+          since: promotion.created_at,
+        }),
+        capital(promotion.user_id, false),
+      ]);
+      const liveStats = tradeStats(trades, realCapital.starting > 0 ? realCapital.starting : realCapital.cash);
+      const decision = demotionCheck(paper, liveStats);
+      evaluated++;
+      if (!decision.demote) continue;
+
+      const { error: updateError } = await supabase
+        .from('trading_strategies')
+        .update({ state: 'PAUSED_MANAGE_ONLY', on_disable_policy: 'MANAGE_ONLY', updated_at: new Date().toISOString() })
+        .eq('id', live.id)
+        .eq('state', 'ACTIVE');
+      if (updateError) throw new Error(`trading_strategies update failed: ${updateError.message}`);
+
+      await storeReport({
+        id: crypto.randomUUID(),
+        user_id: promotion.user_id,
+        kind: 'demotion',
+        strategy_id: live.id,
+        promotion_report_id: promotion.id,
+        passed: false,
+        checks: decision.reasons,
+        metrics: { paper, live: liveStats },
+        thresholds: PROMOTION_DEFAULTS,
+        created_at: new Date().toISOString(),
+      });
+
+      demoted.push({ strategyId: live.id, reasons: decision.reasons });
+      logger.warn('STRATEGY_DEMOTED', {
+        userId: promotion.user_id,
+        strategyId: live.id,
+        promotionReportId: promotion.id,
+        reasons: decision.reasons,
+        liveTrades: liveStats.trades,
+        liveWinRate: liveStats.win_rate,
+        paperWinRate: paper.win_rate,
+      });
+    } catch (err) {
+      failed.push({ reportId: promotion.id, error: String((err as Error)?.message ?? err) });
+    }
+  }
+
+  if (failed.length > 0) {
+    logger.warn('STRATEGY_DEMOTION_FAILED', failed);
+  }
+  logger.log('STRATEGY_DEMOTION_RUN', { evaluated, demoted: demoted.length, failed: failed.length });
+
+  return { evaluated, demoted, failed };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        logger.error('❌ STRATEGY_PROMOTION: CRON_SECRET mismatch or not set');
+        return json({ success: false, error: 'forbidden' }, 403);
+      }
+      if (!REPORT_SECRET) {
+        logger.error('❌ STRATEGY_PROMOTION: PROMOTION_REPORT_SECRET not set');
+        return json({ success: false, error: 'promotion_signing_unavailable' }, 500);
+      }
+      return json({ success: true, ...(await runDemotionPass()) });
+    }
+
+    return await handleUserRequest(req, body ?? {});
+  } catch (error) {
+    logger.error('STRATEGY_PROMOTION_ERROR', { error: String((error as Error)?.message ?? error) });
+    return json({ success: false, error: String((error as Error)?.message ?? error) }, 500);
+  }
+});
@@ -2,12 +2,31 @@
  * system-wallet-withdraw
  *
  * Withdraw ETH or ERC20 tokens from the SYSTEM wallet (BOT_ADDRESS) on Base.
- * Uses BOT_PRIVATE_KEY directly from environment.
+ * Uses BOT_PRIVATE_KEY directly from environment; nonce and fees come from
+ * _shared/txManager.ts so this never collides with trades sent from the
+ * same address.
  * 
- * ADMIN ONLY - requires admin role check.
+ * ADMIN ONLY - requires admin role check. BOT_ADDRESS holds user funds, so the
+ * withdrawal policy (_shared/withdrawalPolicy.ts) applies to the beneficiary
+ * (body.user_id, default the caller); above the approval threshold the request
+ * is queued and a second admin approves it, after which it is executed with
+ * { request_id } once the policy checks pass again.
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2?target=deno";
+import { signWithPrivateKey } from "../_shared/signer.ts";
+import { createTxManager, jsonRpc, type TxCall, type TxFees } from "../_shared/txManager.ts";
+import {
+  claimApprovedWithdrawal,
+  createWithdrawalRequest,
+  evaluateWithdrawal,
+  loadWithdrawalContext,
+  recheckApprovedWithdrawal,
+  recordWithdrawalStep,
+  type CreateWithdrawalRequestResult,
+  type WithdrawalEvaluation,
+  type WithdrawalRequestRow,
+} from "../_shared/withdrawalPolicy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,37 +63,14 @@ function jsonSuccess(data: Record<string, unknown>) {
   });
 }
 
-function hexToBytes(hex: string): Uint8Array {
-  const h = hex.startsWith("0x") ? hex.slice(2) : hex;
-  const out = new Uint8Array(h.length / 2);
-  for (let i = 0; i < out.length; i++) {
-    out[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
-  }
-  return out;
-}
-
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-function concatBytes(arrays: Uint8Array[]): Uint8Array {
-  const total = arrays.reduce((acc, a) => acc + a.length, 0);
-  const out = new Uint8Array(total);
-  let off = 0;
-  for (const a of arrays) {
-    out.set(a, off);
-    off += a.length;
-  }
-  return out;
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204, headers: corsHeaders });
   }
 
+  // Set once a withdrawal_requests row is open, cleared once the tx is sent
+  let failOpenRequest: ((message: string) => Promise<Response>) | null = null;
+
   try {
     logStep("request_received");
 
@@ -83,29 +79,35 @@ Deno.serve(async (req) => {
     if (!authHeader) return jsonError(401, "Missing authorization header");
 
     // 2) Parse body
-    let body: { asset?: string; to_address?: string; amount?: number };
+    let body: { asset?: string; to_address?: string; amount?: number; user_id?: string; request_id?: string };
     try {
       body = await req.json();
     } catch {
       return jsonError(400, "Invalid JSON body");
     }
 
-    const { asset, to_address, amount } = body;
-    logStep("request_payload", { asset, to_address, amount });
-
-    // Validate inputs
-    if (!asset || typeof asset !== "string") return jsonError(400, "Missing or invalid asset");
-    if (!["ETH", "WETH", "USDC"].includes(asset)) return jsonError(400, "Invalid asset. Must be ETH, WETH, or USDC");
-    if (!to_address || typeof to_address !== "string") return jsonError(400, "Missing destination address");
-    if (!/^0x[a-fA-F0-9]{40}$/.test(to_address)) return jsonError(400, "Invalid destination address format");
-    if (amount === undefined || amount === null || typeof amount !== "number")
-      return jsonError(400, "Missing or invalid amount");
-    if (!Number.isFinite(amount) || amount <= 0) return jsonError(400, "Amount must be a finite number > 0");
+    // request_id: execute a withdrawal approved from the queue
+    const executingApproved = typeof body.request_id === "string";
+    if (!executingApproved) {
+      const { asset, to_address, amount, user_id } = body;
+      logStep("request_payload", { asset, to_address, amount, user_id });
+
+      // Validate inputs
+      if (!asset || typeof asset !== "string") return jsonError(400, "Missing or invalid asset");
+      if (!["ETH", "WETH", "USDC"].includes(asset)) return jsonError(400, "Invalid asset. Must be ETH, WETH, or USDC");
+      if (!to_address || typeof to_address !== "string") return jsonError(400, "Missing destination address");
+      if (!/^0x[a-fA-F0-9]{40}$/.test(to_address)) return jsonError(400, "Invalid destination address format");
+      if (amount === undefined || amount === null || typeof amount !== "number")
+        return jsonError(400, "Missing or invalid amount");
+      if (!Number.isFinite(amount) || amount <= 0) return jsonError(400, "Amount must be a finite number > 0");
+      if (user_id !== undefined && typeof user_id !== "string") return jsonError(400, "Invalid user_id");
+    }
 
     // 3) Auth check - must be admin
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
-    if (!supabaseUrl || !supabaseAnonKey) return jsonError(500, "Server configuration error");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) return jsonError(500, "Server configuration error");
 
     const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
       global: { headers: { Authorization: authHeader } },
@@ -129,162 +131,253 @@ Deno.serve(async (req) => {
 
     logStep("admin_auth_ok", { user_id: user.id });
 
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    // BOT_ADDRESS holds user funds: limits apply to the beneficiary (default: the caller)
+    let beneficiaryId = body.user_id ?? user.id;
+    let asset = body.asset as string;
+    let to_address = body.to_address as string;
+    let amount = body.amount as number;
+    let requestId: string | null = null;
+    let request: WithdrawalRequestRow | null = null;
+
+    if (executingApproved) {
+      try {
+        request = await claimApprovedWithdrawal(supabaseAdmin, body.request_id as string, "system_wallet");
+      } catch (e) {
+        return jsonError(500, e instanceof Error ? e.message : "Failed to claim withdrawal request", { step: "claim" });
+      }
+      if (!request) return jsonError(409, "Withdrawal request is not approved", { step: "claim" });
+
+      requestId = request.id;
+      beneficiaryId = request.user_id;
+      asset = request.asset;
+      to_address = request.to_address;
+      amount = Number(request.amount);
+      logStep("request_claimed", { request_id: requestId, beneficiary_id: beneficiaryId, asset, amount });
+    }
+
+    const auditStep = (status: string, extra: { tx_hash?: string; details?: Record<string, unknown> } = {}) =>
+      recordWithdrawalStep(supabaseAdmin, {
+        status,
+        user_id: beneficiaryId,
+        actor_id: user.id,
+        source: "system_wallet",
+        wallet_id: null, // System wallet, no DB entry
+        asset,
+        amount,
+        to_address,
+        request_id: requestId,
+        ...extra,
+      }).then((auditError) => {
+        if (auditError) logStep("audit_log_failed", { status, message: auditError });
+      });
+
+    // Once a request exists, every failure is recorded on it
+    const fail = async (status: number, message: string, meta: Record<string, unknown> = {}) => {
+      if (requestId) {
+        await supabaseAdmin
+          .from("withdrawal_requests")
+          .update({ status: "failed", error: message })
+          .eq("id", requestId);
+        await auditStep("failed", { details: { error: message, ...meta } });
+      }
+      return jsonError(status, message, meta);
+    };
+    failOpenRequest = (message) => fail(500, message, { step: "unhandled" });
+
+    if (request) {
+      // 3b) Approved while queued: allowlist, cooling-off and velocity must still hold
+      let evaluation: WithdrawalEvaluation;
+      try {
+        evaluation = await recheckApprovedWithdrawal(supabaseAdmin, request, TOKENS[asset].decimals);
+      } catch (e) {
+        return fail(500, e instanceof Error ? e.message : "Withdrawal policy check failed", { step: "policy" });
+      }
+      logStep("policy_rechecked", { decision: evaluation.decision, reasons: evaluation.reasons.map((r) => r.code) });
+
+      if (evaluation.decision === "deny") {
+        return fail(403, evaluation.reasons.map((r) => r.message).join("; "), {
+          step: "policy",
+          reasons: evaluation.reasons,
+          cooling_off_until: evaluation.cooling_off_until ?? null,
+        });
+      }
+    } else {
+      // 3b) Withdrawal policy: allowlist, cooling-off, velocity, approval threshold
+      let evaluation: WithdrawalEvaluation;
+      try {
+        const context = await loadWithdrawalContext(supabaseAdmin, {
+          userId: beneficiaryId,
+          asset,
+          toAddress: to_address,
+          chainId: 8453,
+        });
+        evaluation = evaluateWithdrawal({ ...context, amount, decimals: TOKENS[asset].decimals });
+      } catch (e) {
+        return jsonError(500, e instanceof Error ? e.message : "Withdrawal policy check failed", { step: "policy" });
+      }
+      logStep("policy_evaluated", { decision: evaluation.decision, reasons: evaluation.reasons.map((r) => r.code) });
+
+      if (evaluation.decision === "deny") {
+        await auditStep("blocked", { details: { evaluation } });
+        return jsonError(403, evaluation.reasons.map((r) => r.message).join("; "), {
+          step: "policy",
+          reasons: evaluation.reasons,
+          cooling_off_until: evaluation.cooling_off_until ?? null,
+        });
+      }
+
+      // Above the threshold a second admin must approve; velocity is counted
+      // again under a per-user lock as the row is inserted
+      let created: CreateWithdrawalRequestResult;
+      try {
+        created = await createWithdrawalRequest(supabaseAdmin, {
+          userId: beneficiaryId,
+          requestedBy: user.id,
+          source: "system_wallet",
+          walletId: null,
+          asset,
+          amount,
+          toAddress: to_address,
+          chainId: 8453,
+          evaluation,
+        });
+      } catch (e) {
+        return jsonError(500, e instanceof Error ? e.message : "Failed to record withdrawal request", { step: "policy" });
+      }
+      if (!created.ok) {
+        await auditStep("blocked", { details: { evaluation, reason: created.reason } });
+        return jsonError(403, created.reason.message, { step: "policy", reasons: [created.reason] });
+      }
+      requestId = created.requestId;
+
+      if (created.status === "pending_approval") {
+        await auditStep("pending_approval", { details: { evaluation } });
+        return jsonSuccess({ status: "pending_approval", request_id: requestId, reasons: evaluation.reasons });
+      }
+      await auditStep("approved", { details: { automatic: true, evaluation } });
+    }
+
     // 4) Get BOT_PRIVATE_KEY from environment
     const botPrivateKey = Deno.env.get("BOT_PRIVATE_KEY");
     const botAddress = Deno.env.get("BOT_ADDRESS");
     
-    if (!botPrivateKey) return jsonError(500, "BOT_PRIVATE_KEY not configured");
-    if (!botAddress) return jsonError(500, "BOT_ADDRESS not configured");
+    if (!botPrivateKey) return fail(500, "BOT_PRIVATE_KEY not configured");
+    if (!botAddress) return fail(500, "BOT_ADDRESS not configured");
 
     // Strip 0x prefix if present
     const privateKey = botPrivateKey.startsWith("0x") ? botPrivateKey.slice(2) : botPrivateKey;
 
     if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
-      return jsonError(500, "BOT_PRIVATE_KEY is not valid 32-byte hex");
+      return fail(500, "BOT_PRIVATE_KEY is not valid 32-byte hex");
     }
 
     if (to_address.toLowerCase() === botAddress.toLowerCase()) {
-      return jsonError(400, "Cannot send to the same wallet");
+      return fail(400, "Cannot send to the same wallet");
     }
 
     logStep("bot_key_ok", { bot_address: botAddress });
 
-    // 5) Load crypto libs
-    let keccak_256: (data: Uint8Array) => Uint8Array;
-    let secp256k1: { sign: (hash: Uint8Array, privKey: Uint8Array) => { r: bigint; s: bigint; recovery: number } };
-
-    try {
-      const sha3Module = await import("https://esm.sh/@noble/hashes@1.3.3/sha3");
-      keccak_256 = sha3Module.keccak_256;
-
-      const curvesModule = await import("https://esm.sh/@noble/curves@1.3.0/secp256k1");
-      secp256k1 = curvesModule.secp256k1;
-    } catch {
-      return jsonError(500, "Failed to load crypto libraries");
-    }
-
-    // 6) Chain state
+    // 5) Tx manager: reserved nonce + EIP-1559 fees for BOT_ADDRESS
     logStep("tx_build", { asset });
 
-    let nonce: bigint;
-    let gasPrice: bigint;
+    const txManager = createTxManager({
+      supabase: supabaseAdmin,
+      rpc: jsonRpc(BASE_RPC),
+      chainId: 8453,
+      from: botAddress,
+    });
 
+    let fees: TxFees;
     try {
-      nonce = await getNonce(botAddress);
-      gasPrice = await getGasPrice();
+      fees = await txManager.estimateFees();
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Failed to fetch blockchain state";
-      return jsonError(500, msg, { step: "tx_build" });
+      return fail(500, msg, { step: "tx_build" });
     }
 
-    // 7) Balance checks
+    // 6) Balance checks (worst case: maxFeePerGas for every unit of gas)
     const gasLimit = asset === "ETH" ? 21000n : 100000n;
+    let call: TxCall;
+
+    let balanceWei: bigint;
+    let tokenBal = 0n;
+    try {
+      balanceWei = await getEthBalance(botAddress);
+      if (asset !== "ETH") tokenBal = await getErc20Balance(TOKENS[asset].address, botAddress);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Failed to fetch balances";
+      return fail(502, msg, { step: "balance_check" });
+    }
 
     if (asset === "ETH") {
       const amountWei = BigInt(Math.floor(amount * 1e18));
-      const balanceWei = await getEthBalance(botAddress);
-      const requiredWei = amountWei + gasLimit * gasPrice;
+      const requiredWei = amountWei + gasLimit * fees.maxFeePerGas;
 
       if (balanceWei < requiredWei) {
-        return jsonError(422, "Insufficient ETH for amount + gas", {
+        return fail(422, "Insufficient ETH for amount + gas", {
           step: "balance_check",
           balance_wei: balanceWei.toString(),
           required_wei: requiredWei.toString(),
         });
       }
+
+      call = { to: to_address, value: amountWei, data: "0x", gas: gasLimit };
     } else {
       const token = TOKENS[asset];
       const amountRaw = BigInt(Math.floor(amount * 10 ** token.decimals));
 
-      const tokenBal = await getErc20Balance(token.address, botAddress);
       if (tokenBal < amountRaw) {
-        return jsonError(422, `Insufficient ${asset} balance`, {
+        return fail(422, `Insufficient ${asset} balance`, {
           step: "balance_check",
           balance_raw: tokenBal.toString(),
           required_raw: amountRaw.toString(),
         });
       }
 
-      const balanceWei = await getEthBalance(botAddress);
-      const gasWei = gasLimit * gasPrice;
+      const gasWei = gasLimit * fees.maxFeePerGas;
       if (balanceWei < gasWei) {
-        return jsonError(422, "Insufficient ETH to pay gas", {
+        return fail(422, "Insufficient ETH to pay gas", {
           step: "balance_check",
           required_wei: gasWei.toString(),
         });
       }
+
+      const paddedTo = to_address.slice(2).toLowerCase().padStart(64, "0");
+      const paddedAmount = amountRaw.toString(16).padStart(64, "0");
+      call = { to: token.address, value: 0n, data: ERC20_TRANSFER_SELECTOR + paddedTo + paddedAmount, gas: gasLimit };
     }
 
-    // 8) Build + sign + send tx
+    // 7) Sign + send
     logStep("tx_send", { asset });
 
-    let txHash: string;
-
-    try {
-      if (asset === "ETH") {
-        const amountWei = BigInt(Math.floor(amount * 1e18));
-
-        const tx = {
-          nonce,
-          gasPrice,
-          gasLimit,
-          to: to_address,
-          value: amountWei,
-          data: "0x",
-          chainId: 8453n,
-        };
-
-        txHash = await signAndSendTransaction(tx, privateKey, keccak_256, secp256k1);
-      } else {
-        const token = TOKENS[asset];
-        const amountRaw = BigInt(Math.floor(amount * 10 ** token.decimals));
-
-        const paddedTo = to_address.slice(2).toLowerCase().padStart(64, "0");
-        const paddedAmount = amountRaw.toString(16).padStart(64, "0");
-        const data = ERC20_TRANSFER_SELECTOR + paddedTo + paddedAmount;
-
-        const tx = {
-          nonce,
-          gasPrice,
-          gasLimit,
-          to: token.address,
-          value: 0n,
-          data,
-          chainId: 8453n,
-        };
-
-        txHash = await signAndSendTransaction(tx, privateKey, keccak_256, secp256k1);
-      }
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : "Transaction failed";
-      return jsonError(500, msg, { step: "tx_send" });
+    // From here the tx may be on the network: an unexpected error must not fail the request
+    failOpenRequest = null;
+    const sent = await txManager.send(call, (tx) => signWithPrivateKey(privateKey, tx), {
+      kind: "withdrawal",
+      signerKind: "system",
+      userId: beneficiaryId,
+    });
+    if (!sent.ok) {
+      return fail(500, sent.error, { step: sent.stage === "prepare" ? "tx_build" : "tx_send" });
     }
+    const txHash = sent.txHash;
 
     logStep("tx_send_ok", { tx_hash: txHash });
 
-    // 9) Audit log
-    try {
-      const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-      if (supabaseServiceKey) {
-        const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
-          auth: { persistSession: false, autoRefreshToken: false },
-        });
-
-        await supabaseAdmin.from("withdrawal_audit_log").insert({
-          user_id: user.id,
-          wallet_id: null, // System wallet, no DB entry
-          asset,
-          amount,
-          to_address,
-          tx_hash: txHash,
-          status: "submitted",
-        });
-      }
-    } catch (e) {
-      logStep("audit_log_failed", { message: e instanceof Error ? e.message : String(e) });
-    }
+    // 8) Request + audit log
+    await supabaseAdmin
+      .from("withdrawal_requests")
+      .update({ status: "submitted", tx_hash: txHash })
+      .eq("id", requestId);
+    await auditStep("submitted", { tx_hash: txHash });
 
     return jsonSuccess({ 
+      status: "submitted",
+      request_id: requestId,
       tx_hash: txHash,
       from_address: botAddress,
       to_address,
@@ -294,6 +387,14 @@ Deno.serve(async (req) => {
   } catch (error) {
     const message = error instanceof Error ? error.message : "Internal server error";
     console.error("[system-wallet-withdraw] Unhandled error:", error);
+    if (failOpenRequest) {
+      // The open request would otherwise stay processing and count towards velocity
+      try {
+        return await failOpenRequest(message);
+      } catch (markError) {
+        console.error("[system-wallet-withdraw] Failed to mark request failed:", markError);
+      }
+    }
     return jsonError(500, message);
   }
 });
@@ -302,23 +403,6 @@ Deno.serve(async (req) => {
 // RPC Helpers
 // ─────────────────────────────────────────────────────────────
 
-async function getNonce(address: string): Promise<bigint> {
-  const response = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_getTransactionCount",
-      params: [address, "latest"],
-    }),
-  });
-
-  const data = await response.json();
-  if (data?.error) throw new Error(data.error.message || "eth_getTransactionCount failed");
-  return BigInt(data.result || "0x0");
-}
-
 async function getEthBalance(address: string): Promise<bigint> {
   const response = await fetch(BASE_RPC, {
     method: "POST",
@@ -336,25 +420,6 @@ async function getEthBalance(address: string): Promise<bigint> {
   return BigInt(data.result || "0x0");
 }
 
-async function getGasPrice(): Promise<bigint> {
-  const response = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_gasPrice",
-      params: [],
-    }),
-  });
-
-  const data = await response.json();
-  if (data?.error) throw new Error(data.error.message || "eth_gasPrice failed");
-
-  const basePrice = BigInt(data.result || "0x1");
-  return basePrice + basePrice / 10n; // +10% buffer
-}
-
 async function getErc20Balance(tokenAddress: string, holder: string): Promise<bigint> {
   const selector = "70a08231";
   const paddedHolder = holder.slice(2).toLowerCase().padStart(64, "0");
@@ -376,101 +441,3 @@ async function getErc20Balance(tokenAddress: string, holder: string): Promise<bi
 
   return BigInt(data.result || "0x0");
 }
-
-// ─────────────────────────────────────────────────────────────
-// Transaction Signing
-// ─────────────────────────────────────────────────────────────
-
-async function signAndSendTransaction(
-  tx: {
-    nonce: bigint;
-    gasPrice: bigint;
-    gasLimit: bigint;
-    to: string;
-    value: bigint;
-    data: string;
-    chainId: bigint;
-  },
-  privateKey: string,
-  keccak_256: (data: Uint8Array) => Uint8Array,
-  secp256k1: {
-    sign: (hash: Uint8Array, privKey: Uint8Array) => { r: bigint; s: bigint; recovery: number };
-  },
-): Promise<string> {
-  const rlpForSigning = rlpEncode([tx.nonce, tx.gasPrice, tx.gasLimit, tx.to, tx.value, tx.data, tx.chainId, 0n, 0n]);
-  const txHash = keccak_256(rlpForSigning);
-  const pkBytes = hexToBytes(privateKey);
-  const sig = secp256k1.sign(txHash, pkBytes);
-
-  const r = sig.r;
-  const s = sig.s;
-  const v = tx.chainId * 2n + 35n + BigInt(sig.recovery);
-
-  const signedRlp = rlpEncode([tx.nonce, tx.gasPrice, tx.gasLimit, tx.to, tx.value, tx.data, v, r, s]);
-  const rawTx = "0x" + bytesToHex(signedRlp);
-
-  const response = await fetch(BASE_RPC, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_sendRawTransaction",
-      params: [rawTx],
-    }),
-  });
-
-  const result = await response.json();
-  if (result?.error) {
-    throw new Error(result.error.message || "eth_sendRawTransaction failed");
-  }
-  if (!result?.result) {
-    throw new Error("No transaction hash returned");
-  }
-
-  return result.result as string;
-}
-
-// ─────────────────────────────────────────────────────────────
-// RLP Encoding
-// ─────────────────────────────────────────────────────────────
-
-function rlpEncode(items: (bigint | string | number)[]): Uint8Array {
-  const encodedItems = items.map(encodeRlpItem);
-  const totalLen = encodedItems.reduce((acc, b) => acc + b.length, 0);
-  return concatBytes([rlpLength(totalLen, 0xc0), ...encodedItems]);
-}
-
-function encodeRlpItem(item: bigint | string | number): Uint8Array {
-  if (typeof item === "bigint") {
-    if (item === 0n) return new Uint8Array([0x80]);
-    let hex = item.toString(16);
-    if (hex.length % 2) hex = "0" + hex;
-    const bytes = hexToBytes(hex);
-    if (bytes.length === 1 && bytes[0] < 0x80) return bytes;
-    return concatBytes([rlpLength(bytes.length, 0x80), bytes]);
-  }
-
-  if (typeof item === "string") {
-    if (item === "" || item === "0x") return new Uint8Array([0x80]);
-    const clean = item.startsWith("0x") ? item.slice(2) : item;
-    if (clean === "") return new Uint8Array([0x80]);
-    const bytes = hexToBytes(clean);
-    if (bytes.length === 1 && bytes[0] < 0x80) return bytes;
-    return concatBytes([rlpLength(bytes.length, 0x80), bytes]);
-  }
-
-  if (typeof item === "number") {
-    return encodeRlpItem(BigInt(item));
-  }
-
-  return new Uint8Array([0x80]);
-}
-
-function rlpLength(len: number, offset: number): Uint8Array {
-  if (len < 56) return new Uint8Array([offset + len]);
-  let hex = len.toString(16);
-  if (hex.length % 2) hex = "0" + hex;
-  const lenBytes = hexToBytes(hex);
-  return concatBytes([new Uint8Array([offset + 55 + lenBytes.length]), lenBytes]);
-}
@@ -1,6 +1,12 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  runSignalSource,
+  SIGNAL_SOURCE_DEFAULTS,
+  type SignalDraft,
+  type SignalSource,
+} from "../_shared/signalSource.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -83,96 +89,37 @@ serve(async (req) => {
       }
     }
 
-    const actualSourceId = sourceId || dataSource?.id;
+    const actualSourceId = sourceId || dataSource?.id || null;
     
     // P2 FIX: Use SYSTEM_USER_ID sentinel for system-wide signals
     // live_signals.user_id is NOT NULL, so we need a valid UUID
-    // Use a fixed sentinel UUID: 00000000-0000-0000-0000-000000000000
-    const SYSTEM_USER_ID = '00000000-0000-0000-0000-000000000000';
-    const resolvedUserId = SYSTEM_USER_ID;
+    const SYSTEM_USER_ID = SIGNAL_SOURCE_DEFAULTS.SYSTEM_USER_ID;
 
     console.log(`🔍 Analyzing technical indicators for symbols: ${symbols.join(', ')}`);
     console.log(`📊 System-wide signals (user_id = ${SYSTEM_USER_ID}), sourceId: ${actualSourceId}`);
 
-    const signals = [];
-    const now = new Date();
-    const fourHoursAgo = new Date(now.getTime() - 4 * 60 * 60 * 1000);
-
-    for (const symbol of symbols) {
-      try {
-        // Get recent price data (last 4 hours for technical analysis)
-        const { data: priceData, error: priceError } = await supabaseClient
-          .from('price_data')
-          .select('*')
-          .eq('symbol', symbol)
-          .gte('timestamp', fourHoursAgo.toISOString())
-          .order('timestamp', { ascending: true });
-
-        if (priceError) {
-          console.error(`❌ Error fetching price data for ${symbol}:`, priceError);
-          continue;
-        }
-
-        if (!priceData || priceData.length < 2) {
-          console.log(`⚠️ Insufficient price data for ${symbol} (${priceData?.length || 0} points)`);
-          continue;
-        }
-
-        console.log(`📈 Analyzing ${priceData.length} price points for ${symbol}`);
-
-        // Generate technical signals with NULL user_id (system-wide)
-        const technicalSignals = await generateTechnicalSignals(symbol, priceData, resolvedUserId, actualSourceId);
-        signals.push(...technicalSignals);
-
-        // Cache calculated indicators in price_data metadata
-        await cacheIndicators(symbol, priceData, supabaseClient);
-
-      } catch (error) {
-        console.error(`❌ Error analyzing ${symbol}:`, error);
-      }
-    }
+    const source = technicalAnalysisSource(supabaseClient, symbols);
+    const run = await runSignalSource(supabaseClient, source, {
+      userId: SYSTEM_USER_ID,
+      sourceId: actualSourceId,
+      now: new Date(),
+    });
 
-    // Insert all generated signals with detailed error logging
-    if (signals.length > 0) {
-      console.log(`📤 Attempting to insert ${signals.length} signals...`);
-      console.log(`📋 First signal sample:`, JSON.stringify(signals[0]));
-      
-      const { data: insertedSignals, error: signalError } = await supabaseClient
-        .from('live_signals')
-        .upsert(signals, {
-          onConflict: 'source,signal_type,symbol,timestamp',
-          ignoreDuplicates: true
-        });
-
-      if (signalError) {
-        console.error('❌ Error inserting technical signals:', signalError);
-        console.error('❌ Error code:', signalError.code);
-        console.error('❌ Error details:', signalError.details);
-        console.error('❌ Error hint:', signalError.hint);
-        console.error('❌ Failed signals count:', signals.length);
-      } else {
-        console.info(`[SIGNAL_INGESTION_EVENT] source=technical_analysis count=${signals.length} symbols=${[...new Set(signals.map(s => s.symbol))].join(',')}`);
-        console.log(`✅ Generated ${signals.length} system-wide technical signals for symbols: ${[...new Set(signals.map(s => s.symbol))].join(', ')}`);
-      }
+    if (run.error) {
+      console.error(`❌ Error inserting technical signals: ${run.error} (${run.drafted} drafted)`);
+    } else if (run.inserted > 0) {
+      console.log(`✅ Generated ${run.inserted} system-wide technical signals`);
     } else {
       console.log('ℹ️ No technical signals generated this cycle');
     }
 
-    // Update last sync timestamp
-    if (actualSourceId) {
-      await supabaseClient
-        .from('ai_data_sources')
-        .update({ last_sync: new Date().toISOString() })
-        .eq('id', actualSourceId);
-    }
-
     return new Response(JSON.stringify({
       success: true,
-      signals_generated: signals.length,
+      signals_generated: run.inserted,
       symbols_analyzed: symbols.length,
       user_id: null, // System-wide signals
       timestamp: new Date().toISOString(),
-      message: `Generated ${signals.length} system-wide technical signals`
+      message: `Generated ${run.inserted} system-wide technical signals`
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
@@ -189,8 +136,65 @@ serve(async (req) => {
   }
 });
 
-async function generateTechnicalSignals(symbol: string, priceData: any[], userId: string | null, sourceId: string) {
-  const signals = [];
+// SignalSource plug-in: one item per symbol with enough recent price_data
+function technicalAnalysisSource(
+  supabaseClient: any,
+  symbols: string[],
+): SignalSource<{ symbol: string; priceData: any[] }> {
+  return {
+    name: 'technical_analysis',
+    expectedIntervalSeconds: 300,
+    symbolFormat: 'base',
+    async fetch(ctx) {
+      const fourHoursAgo = new Date(ctx.now.getTime() - 4 * 60 * 60 * 1000);
+      const items = [];
+
+      for (const symbol of symbols) {
+        try {
+          // Get recent price data (last 4 hours for technical analysis)
+          const { data: priceData, error: priceError } = await supabaseClient
+            .from('price_data')
+            .select('*')
+            .eq('symbol', symbol)
+            .gte('timestamp', fourHoursAgo.toISOString())
+            .order('timestamp', { ascending: true });
+
+          if (priceError) {
+            console.error(`❌ Error fetching price data for ${symbol}:`, priceError);
+            continue;
+          }
+
+          if (!priceData || priceData.length < 2) {
+            console.log(`⚠️ Insufficient price data for ${symbol} (${priceData?.length || 0} points)`);
+            continue;
+          }
+
+          console.log(`📈 Analyzing ${priceData.length} price points for ${symbol}`);
+          items.push({ symbol, priceData });
+
+          // Cache calculated indicators in price_data metadata
+          await cacheIndicators(symbol, priceData, supabaseClient);
+        } catch (error) {
+          console.error(`❌ Error analyzing ${symbol}:`, error);
+        }
+      }
+      return items;
+    },
+    normalize(items) {
+      return items.flatMap(({ symbol, priceData }) => {
+        try {
+          return generateTechnicalSignals(symbol, priceData);
+        } catch (error) {
+          console.error(`❌ Error analyzing ${symbol}:`, error);
+          return [];
+        }
+      });
+    },
+  };
+}
+
+function generateTechnicalSignals(symbol: string, priceData: any[]): SignalDraft[] {
+  const signals: SignalDraft[] = [];
   const latest = priceData[priceData.length - 1];
   const previous = priceData[priceData.length - 2];
   const earlier = priceData[0];
@@ -232,13 +236,10 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
     console.log(`🚀 ${symbol} BREAKOUT via ${dominant.window}: ${dominant.change.toFixed(2)}% (threshold ${dominant.threshold}%)`);
 
     signals.push({
-      source_id: sourceId,
-      user_id: userId,
       timestamp: new Date().toISOString(),
       symbol: baseSymbol,
       signal_type: signalType,
       signal_strength: strength,
-      source: 'technical_analysis',
       data: {
         change_5m: change5m,
         change_1h: change1h,
@@ -248,8 +249,7 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
         current_price: latest.close_price,
         indicator: 'price_movement',
         triggered_windows: triggeredWindows.map(w => `${w.window}:${w.change.toFixed(2)}%`).join(', ')
-      },
-      processed: false
+      }
     });
   }
 
@@ -260,57 +260,45 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
 
     if (rsi <= 35) {
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: 'rsi_oversold_bullish',
         signal_strength: Math.min(100, (35 - rsi) * 3),
-        source: 'technical_analysis',
         data: {
           rsi_value: rsi,
           rsi_level: 'oversold',
           current_price: latest.close_price,
           indicator: 'rsi'
-        },
-        processed: false
+        }
       });
     } else if (rsi >= 65) {
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: 'rsi_overbought_bearish',
         signal_strength: Math.min(100, (rsi - 65) * 3),
-        source: 'technical_analysis',
         data: {
           rsi_value: rsi,
           rsi_level: 'overbought',
           current_price: latest.close_price,
           indicator: 'rsi'
-        },
-        processed: false
+        }
       });
     }
     
     // Add neutral RSI signal for momentum tracking
     if (rsi > 45 && rsi < 55) {
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: 'momentum_neutral',
         signal_strength: 50,
-        source: 'technical_analysis',
         data: {
           rsi_value: rsi,
           rsi_level: 'neutral',
           current_price: latest.close_price,
           indicator: 'rsi'
-        },
-        processed: false
+        }
       });
     }
   }
@@ -325,21 +313,17 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
       console.log(`📊 ${symbol} Volume spike detected: ${volumeRatio.toFixed(2)}x average`);
 
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: 'volume_spike',
         signal_strength: Math.min(100, (volumeRatio - 1) * 50),
-        source: 'technical_analysis',
         data: {
           current_volume: latest.volume,
           average_volume: avgVolume,
           volume_ratio: volumeRatio,
           price_change: change5m,
           indicator: 'volume'
-        },
-        processed: false
+        }
       });
     }
   }
@@ -360,13 +344,10 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
     if (ema9 > ema21) {
       const strength = Math.min(100, Math.abs(emaSpreadPct) * 500);
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: 'ma_cross_bullish',
         signal_strength: Math.max(10, strength),
-        source: 'technical_analysis',
         data: {
           ema_short: ema9,
           ema_long: ema21,
@@ -374,20 +355,16 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
           current_price: currentPrice,
           cross_type: 'ema_bullish',
           indicator: 'ema_crossover'
-        },
-        processed: false
+        }
       });
       console.log(`✅ ${symbol} EMA BULLISH: EMA9 ${ema9.toFixed(2)} > EMA21 ${ema21.toFixed(2)}`);
     } else if (ema9 < ema21) {
       const strength = Math.min(100, Math.abs(emaSpreadPct) * 500);
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: 'ma_cross_bearish',
         signal_strength: Math.max(10, strength),
-        source: 'technical_analysis',
         data: {
           ema_short: ema9,
           ema_long: ema21,
@@ -395,8 +372,7 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
           current_price: currentPrice,
           cross_type: 'ema_bearish',
           indicator: 'ema_crossover'
-        },
-        processed: false
+        }
       });
       console.log(`🔻 ${symbol} EMA BEARISH: EMA9 ${ema9.toFixed(2)} < EMA21 ${ema21.toFixed(2)}`);
     }
@@ -412,21 +388,17 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
 
     if (trendCoherent) {
       signals.push({
-        source_id: sourceId,
-        user_id: userId,
         timestamp: new Date().toISOString(),
         symbol: baseSymbol,
         signal_type: trendStrength > 0 ? 'trend_bullish' : 'trend_bearish',
         signal_strength: Math.min(100, Math.abs(trendStrength) * 30),
-        source: 'technical_analysis',
         data: {
           trend_strength: trendStrength,
           current_price: currentPrice,
           ema_reference: ema21,
           indicator: 'trend',
           directional_filter: 'coherent_with_ma_cross'
-        },
-        processed: false
+        }
       });
       console.log(`📊 ${symbol} Trend signal COHERENT: ${trendStrength > 0 ? 'bullish' : 'bearish'} (strength: ${Math.abs(trendStrength).toFixed(2)}%)`);
     } else if (Math.abs(trendStrength) > 0.1) {
@@ -444,13 +416,10 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
     console.log(`🔄 ${symbol} MEAN REVERSION detected: RSI oversold (${hasRsiOversold.signal_strength.toFixed(1)}) + MA bearish (${hasMaBearish.signal_strength.toFixed(1)}) → composite ${compositeStrength.toFixed(1)}`);
 
     signals.push({
-      source_id: sourceId,
-      user_id: userId,
       timestamp: new Date().toISOString(),
       symbol: baseSymbol,
       signal_type: 'mean_reversion_bullish',
       signal_strength: compositeStrength,
-      source: 'technical_analysis',
       data: {
         rsi_value: hasRsiOversold.data?.rsi_value,
         rsi_strength: hasRsiOversold.signal_strength,
@@ -460,8 +429,7 @@ async function generateTechnicalSignals(symbol: string, priceData: any[], userId
         current_price: latest.close_price,
         indicator: 'mean_reversion',
         composite_of: ['rsi_oversold_bullish', 'ma_cross_bearish']
-      },
-      processed: false
+      }
     });
   }
 
@@ -15,6 +15,36 @@ import {
   logExecutionClass,
 } from "../_shared/execution-semantics.ts";
 import { fetchOpenLotsAuthoritative } from "../_shared/openLots.ts";
+import {
+  resolveSlicingConfig,
+  resolveSliceMode,
+  shouldSliceOrder,
+} from "../_shared/orderSlicing.ts";
+import {
+  chainLabel,
+  getEnabledExecutionChainIds,
+  isExecutionChainEnabled,
+  resolveStrategyChainId,
+} from "../_shared/chains.ts";
+import {
+  RESTING_ORDER_DEFAULTS,
+  loadFiringRestingOrder,
+  restingOrderAllocationEur,
+  type RestingOrderRow,
+} from "../_shared/restingOrders.ts";
+import {
+  alignReturns,
+  assessPortfolioRisk,
+  resolvePortfolioRiskConfig,
+} from "../_shared/portfolioRisk.ts";
+import {
+  evaluateLiquidityGate,
+  fetchLatestOrderBook,
+  liquidityContext,
+  takerSideDepthEur,
+} from "../_shared/orderBookDepth.ts";
+import { applyRegimeProfile, fetchLatestRegime, regimeTpSlMultipliers } from "../_shared/volatilityRegime.ts";
+import { fetchRunningExperiment, isExperimentEntryAllowed } from "../_shared/strategyExperiments.ts";
 
 /**
  * B5 GUARD (HARDENED 2026-05-13): Verifies original_trade_id points to a VALID
@@ -746,6 +776,7 @@ type Reason =
   | "insufficient_price_freshness"
   | "spread_too_wide"
   | "blocked_by_liquidity"
+  | "blocked_by_experiment_split"
   | "blocked_by_whale_conflict"
   | "tp_hit"
   | "manual_override_precedence"
@@ -781,6 +812,11 @@ type Reason =
   | "blocked_wallet_not_ready"
   | "real_execution_job_queued"
   | "execution_job_insert_failed"
+  // PORTFOLIO RISK (VaR budget + correlation clusters)
+  | "portfolio_var_budget_exceeded"
+  | "cluster_exposure_cap_reached"
+  | "portfolio_risk_insufficient_history"
+  | "portfolio_risk_query_failed"
   // TEMPLATE LITERAL PATTERNS for dynamic reasons
   | `blocked_missing_config:${string}`;
 
@@ -1232,6 +1268,9 @@ interface UnifiedConfig {
 //   - spreadThresholdBps (integer, bps)
 //   - minHoldPeriodMs (integer, ms)
 //   - cooldownBetweenOppositeActionsMs (integer, ms)
+//
+// REGIME PROFILES: configuration.regimeProfiles[<market regime>] overrides a
+// subset of root keys (REGIME_PROFILE_FIELDS) before the keys are read.
 // =============================================================================
 
 interface CanonicalConfig {
@@ -1250,6 +1289,9 @@ interface CanonicalConfigResult {
   success: boolean;
   config?: CanonicalConfig;
   missingKeys?: string[];
+  // Regime profile applied on top of the flat configuration (null = none)
+  regimeProfile?: string | null;
+  regimeOverrides?: Record<string, number>;
 }
 
 /**
@@ -1257,11 +1299,16 @@ interface CanonicalConfigResult {
  * Used by BOTH executeWithMinimalLock AND executeTradeOrder.
  *
  * @param strategyConfig - Either the raw DB row (with .configuration) or already the configuration object
+ * @param regime - Current market regime (intent.metadata.market_regime); selects configuration.regimeProfiles[regime]
  * @returns Resolved config with all required canonical keys, or list of missing keys
  */
-function resolveCanonicalConfig(strategyConfig: any): CanonicalConfigResult {
+function resolveCanonicalConfig(strategyConfig: any, regime: string | null = null): CanonicalConfigResult {
   // Normalize: if strategyConfig has .configuration, use that; otherwise use strategyConfig directly
-  const cfg = strategyConfig?.configuration || strategyConfig || {};
+  const profiled = applyRegimeProfile(strategyConfig?.configuration || strategyConfig || {}, regime);
+  const cfg = profiled.config;
+  if (profiled.regime) {
+    console.log(`[CanonicalConfig] Regime profile ${profiled.regime}: ${JSON.stringify(profiled.overrides)}`);
+  }
 
   const missingKeys: string[] = [];
 
@@ -1309,6 +1356,8 @@ function resolveCanonicalConfig(strategyConfig: any): CanonicalConfigResult {
 
   return {
     success: true,
+    regimeProfile: profiled.regime,
+    regimeOverrides: profiled.overrides,
     config: {
       takeProfitPercentage: Number(takeProfitPercentage),
       stopLossPercentage: Number(stopLossPercentage),
@@ -1646,6 +1695,40 @@ serve(async (req) => {
 
     const intent: TradeIntent = body.intent || body;
 
+    // ============= RESTING ORDER VERIFICATION =============
+    // context RESTING_ORDER sizes the trade from the order (see
+    // restingOrderAllocationEur), so the claimed order must be a TRIGGERED row
+    // of this user; its amount replaces whatever size the caller sent.
+    if (intent?.metadata?.context === RESTING_ORDER_DEFAULTS.INTENT_CONTEXT) {
+      let firingOrder: RestingOrderRow | null = null;
+      try {
+        firingOrder = await loadFiringRestingOrder(supabaseClient, intent);
+      } catch (err) {
+        console.error("[Coordinator] resting order lookup failed:", (err as Error).message);
+      }
+      if (!firingOrder) {
+        console.log("[Coordinator] Blocked RESTING_ORDER intent without a triggered order:", intent.metadata?.resting_order_id);
+        return new Response(
+          JSON.stringify({
+            decision: {
+              action: "BLOCK",
+              reason: "resting_order_not_triggered",
+              fusion_score: 0,
+              request_id: `blocked_${Date.now()}`,
+              retry_in_ms: 0,
+            },
+          }),
+          { headers: corsHeaders },
+        );
+      }
+      const orderAmount = Number(firingOrder.amount);
+      intent.metadata = {
+        ...intent.metadata,
+        eurAmount: firingOrder.side === "BUY" ? orderAmount : undefined,
+      };
+      intent.qtySuggested = firingOrder.side === "SELL" ? orderAmount : undefined;
+    }
+
     // ============= PHASE D: BLOCK FRONTEND AUTOMATIC BUYs =============
     // Frontend intelligent engine is NO LONGER allowed to generate automatic BUYs.
     // Only backend engine (BACKEND_LIVE) and manual UI (UI_MANUAL) can create BUYs.
@@ -2293,7 +2376,7 @@ serve(async (req) => {
       // Fetch strategy config including state/policy fields
       const { data: strategyConfig, error: stratConfigError } = await supabaseClient
         .from("trading_strategies")
-        .select("unified_config, configuration, state, execution_target, on_disable_policy, panic_active")
+        .select("unified_config, configuration, state, execution_target, on_disable_policy, panic_active, current_config_version_id")
         .eq("id", intent.strategyId)
         .eq("user_id", intent.userId)
         .single();
@@ -2303,6 +2386,9 @@ serve(async (req) => {
         return respond("HOLD", "internal_error", requestId);
       }
 
+      // Config version the decision is made with (decision_events.config_version_id)
+      intent.metadata = { ...(intent.metadata || {}), config_version_id: strategyConfig.current_config_version_id ?? null };
+
       // State/execution gate for intelligent trades (early check)
       const intStrategyState = strategyConfig.state || "ACTIVE";
       const intExecutionTarget = strategyConfig.execution_target || "MOCK";
@@ -2701,7 +2787,12 @@ serve(async (req) => {
     // - If metadata.originalTradeId is provided, we close THAT specific BUY.
     // - We pre-fill original_purchase_* from that BUY.
     // - mt_on_sell_snapshot will treat this as a targeted close, not global FIFO.
-    if (intent.side === "SELL" && intent.source === "manual" && (intent.metadata?.force === true || mode === "mock")) {
+    // Resting orders never take this path: they must pass the gates below.
+    const isRestingOrderIntent = intent.metadata?.context === RESTING_ORDER_DEFAULTS.INTENT_CONTEXT;
+    if (
+      intent.side === "SELL" && intent.source === "manual" && !isRestingOrderIntent &&
+      (intent.metadata?.force === true || mode === "mock")
+    ) {
       console.log("[coordinator] fast-path triggered for manual/mock/force (non-system-operator)");
 
       const exitPrice = Number(intent?.metadata?.currentPrice);
@@ -3106,7 +3197,7 @@ serve(async (req) => {
     const { data: strategy, error: strategyError } = await supabaseClient
       .from("trading_strategies")
       .select(
-        "unified_config, configuration, state, execution_target, on_disable_policy, liquidation_batch_id, panic_active",
+        "unified_config, configuration, state, execution_target, on_disable_policy, liquidation_batch_id, panic_active, current_config_version_id",
       )
       .eq("id", intent.strategyId)
       .eq("user_id", intent.userId)
@@ -3117,6 +3208,9 @@ serve(async (req) => {
       return respond("HOLD", "internal_error", requestId);
     }
 
+    // Config version the decision is made with (decision_events.config_version_id)
+    intent.metadata = { ...(intent.metadata || {}), config_version_id: strategy.current_config_version_id ?? null };
+
     // ============= STRATEGY STATE & EXECUTION MODE ENFORCEMENT =============
     // New columns: state, execution_target, on_disable_policy, liquidation_batch_id, panic_active
     const strategyState = strategy.state || "ACTIVE"; // Default ACTIVE for legacy rows
@@ -3163,6 +3257,12 @@ serve(async (req) => {
       execClass_intent: execClass.intent,
     });
 
+    // ============= MARKET REGIME: latest 5m label (features-refresh) =============
+    // Carried on intent.metadata so fusion, gates, TP/SL and the decision/quality logs see the same label.
+    const marketRegime = await fetchLatestRegime(supabaseClient, toPairSymbol(toBaseSymbol(intent.symbol)), Date.now());
+    intent.metadata = { ...(intent.metadata || {}), market_regime: marketRegime?.regime ?? null };
+    console.log(`[REGIME] ${intent.symbol}: ${marketRegime ? `${marketRegime.regime} @ ${marketRegime.ts}` : "unknown (no fresh 5m features)"}`);
+
     // ============= FUSION GATE: Compute fusion for BUY intents BEFORE any gates =============
     // Moved here so ALL early-return paths (panic, state, cooldown, etc.) include fusion metadata.
     // This is the SINGLE authoritative fusion computation. Backend engine delegates here.
@@ -3197,9 +3297,10 @@ serve(async (req) => {
           deduplicated_signal_count: fusionResult.deduplicated_signal_count,
           per_source_capped_contributions: fusionResult.per_source_capped_contributions,
           insufficient_diversity: fusionResult.insufficient_diversity || false,
+          market_regime: intent.metadata.market_regime,
         };
 
-        console.log(`[FUSION_GATE] ${baseSymbolForFusion}: score=${fusionResult.fusedScore.toFixed(2)}, signals=${fusionResult.enabledSignals}/${fusionResult.totalSignals}`);
+        console.log(`[FUSION_GATE] ${baseSymbolForFusion}: score=${fusionResult.fusedScore.toFixed(2)}, signals=${fusionResult.enabledSignals}/${fusionResult.totalSignals}, regime=${intent.metadata.market_regime ?? "unknown"}`);
 
         // === A1: SHADOW LOGGING — fear_greed dominance analysis (Phase 1 observation only) ===
         if (precomputedFusionData.source_contributions) {
@@ -3376,10 +3477,112 @@ serve(async (req) => {
       panicActive,
     );
 
+    // ============= EXPERIMENT SPLIT GATE =============
+    // A/B experiments (strategy_experiments) give each symbol / time slot to one
+    // arm; the other arm may not open a position on it. Exits are never split.
+    if (intent.side === "BUY" && intent.source !== "manual" && isMockExecution) {
+      const experiment = await fetchRunningExperiment(supabaseClient, intent.userId, intent.strategyId);
+      if (experiment) {
+        const split = isExperimentEntryAllowed(experiment, intent.strategyId, toBaseSymbol(intent.symbol), Date.now());
+        intent.metadata = {
+          ...(intent.metadata || {}),
+          experiment: { id: experiment.id, arm: split.arm, owner: split.owner, split_mode: experiment.split_mode },
+        };
+
+        if (!split.allowed) {
+          console.log(`🧪 COORDINATOR: EXPERIMENT_SPLIT — ${intent.symbol} belongs to ${split.owner}, ${split.arm} arm BUY held (experiment=${experiment.id})`);
+          await logDecisionAsync(
+            supabaseClient,
+            intent,
+            "HOLD",
+            "blocked_by_experiment_split",
+            unifiedConfig,
+            requestId,
+            undefined,
+            undefined,
+            Number(intent.metadata?.currentPrice) || undefined,
+            { ...strategy.configuration, canonicalIsTestMode },
+            undefined,
+            precomputedFusionData,
+          );
+          return new Response(
+            withFusion({
+              ok: true,
+              decision: {
+                action: "HOLD",
+                reason: "blocked_by_experiment_split",
+                request_id: requestId,
+                retry_in_ms: 0,
+              },
+            }),
+            { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+          );
+        }
+      }
+    }
+
+    // ============= RESTING ORDER GATE =============
+    // Limit/stop orders arrive as manual intents from resting-orders-evaluator,
+    // but fire unattended: run detectConflicts for both modes and both sides
+    // before any manual fast-path can execute them. DEFER keeps the order OPEN
+    // for the next price refresh.
+    if (isRestingOrderIntent) {
+      console.log(`🛡️ COORDINATOR: RESTING_ORDER gate — invoking detectConflicts for ${intent.side} ${intent.symbol} (order=${intent.metadata?.resting_order_id})`);
+      const conflictResult = await detectConflicts(supabaseClient, intent, unifiedConfig, {
+        ...strategy,
+        configuration: { ...strategy.configuration, canonicalIsTestMode, canonicalExecutionMode },
+        canonicalIsTestMode,
+        canonicalExecutionMode,
+      });
+
+      if (conflictResult.hasConflict) {
+        const guardReport = conflictResult.guardReport || {};
+        const guardNames =
+          Object.entries(guardReport)
+            .filter(([, v]) => v)
+            .map(([k]) => k)
+            .join(", ") || "unknown";
+
+        console.log(`🚫 COORDINATOR: RESTING_ORDER deferred — reason=${conflictResult.reason} symbol=${intent.symbol} guards=${guardNames}`);
+
+        await logDecisionAsync(
+          supabaseClient,
+          intent,
+          "DEFER",
+          conflictResult.reason as Reason,
+          unifiedConfig,
+          requestId,
+          undefined,
+          undefined,
+          Number(intent.metadata?.currentPrice) || undefined,
+          { ...strategy.configuration, canonicalIsTestMode },
+          undefined,
+          precomputedFusionData,
+        );
+
+        return new Response(
+          withFusion({
+            ok: true,
+            decision: {
+              action: "DEFER",
+              reason: `Guards tripped: ${guardNames}`,
+              request_id: requestId,
+            },
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+      console.log(`✅ COORDINATOR: RESTING_ORDER gate PASSED for ${intent.symbol}`);
+    }
+
     // ============= REAL MODE EXECUTION PATH (Phase 1) =============
     // REAL mode: Check prerequisites, then execute
     // MANUAL trades with execution_wallet_id → DIRECT SYNCHRONOUS EXECUTION
-    // AUTOMATED trades → route to execution_jobs (async) for worker processing
+    // AUTOMATED trades → synchronous onchain-sign-and-send (or sliced_orders)
+    // Queued execution_jobs (panic liquidations) are drained by execution-job-worker
     if (execClass.target === "REAL") {
       // Phase 2: Use execClass-derived flags instead of raw flag checks
       // Deprecated: Direct checks like `intent.source === "manual"`
@@ -3570,6 +3773,31 @@ serve(async (req) => {
         }
       }
 
+      // Strategy execution chain (configuration.executionChainId, default Base).
+      // Fail closed: a strategy pinned to an unknown or disabled chain never falls back to Base.
+      const executionChainId = resolveStrategyChainId(strategy.configuration);
+      if (executionChainId === null || !isExecutionChainEnabled(executionChainId)) {
+        console.error("❌ COORDINATOR: Strategy execution chain not enabled", {
+          strategyId: intent.strategyId,
+          configured: strategy.configuration?.executionChainId,
+          enabled: getEnabledExecutionChainIds(),
+        });
+        return new Response(
+          JSON.stringify({
+            ok: false,
+            success: false,
+            error: "blocked_chain_not_enabled",
+            decision: {
+              action: "BLOCK",
+              reason: "blocked_chain_not_enabled",
+              request_id: requestId,
+              message: `Execution chain ${strategy.configuration?.executionChainId} is not enabled.`,
+            },
+          }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
       // Get wallet address - for system_operator_mode use metadata or skip user lookup
       let walletAddress: string;
       
@@ -3873,6 +4101,7 @@ serve(async (req) => {
               amount: tradeAmount,
               taker: walletAddress,
               slippageBps,
+              chainId: executionChainId,
               // Pass system_operator_mode flag for auto-wrap policy
               system_operator_mode: isSystemOperatorMode,
               mock_trade_id: mockTradeId, // PHASE 3B: Pass to link real_trades FK
@@ -3912,6 +4141,7 @@ serve(async (req) => {
             confidence: intent.confidence,
             reason: "manual_execution_failed",
             decision_ts: new Date().toISOString(),
+            config_version_id: intent.metadata?.config_version_id ?? null,
             metadata: buildDecisionMetadata({
               error: execError.message,
               request_id: requestId,
@@ -3957,6 +4187,7 @@ serve(async (req) => {
           entry_price: signSendData.executedPrice,
           reason: "manual_execution_submitted",
           decision_ts: new Date().toISOString(),
+          config_version_id: intent.metadata?.config_version_id ?? null,
           trade_id: signSendData.tradeId,
           metadata: buildDecisionMetadata({
             tx_hash: signSendData.tx_hash,
@@ -4104,18 +4335,18 @@ serve(async (req) => {
         console.log(`🔒 COORDINATOR: Lock acquired: ${lockKey}`);
 
         // ████████████████████████████████████████████████████████████████████
-        // █ C4 STRICT GUARD: BASE-EXECUTABLE SYMBOL WHITELIST (HARDCODED)    █
+        // █ C4 STRICT GUARD: EXECUTABLE SYMBOL WHITELIST PER CHAIN (HARDCODED)█
         // ████████████████████████████████████████████████████████████████████
         // █                                                                  █
         // █  ⚠️ READ BEFORE EDITING ⚠️                                       █
         // █                                                                  █
-        // █  Only symbols in this list can produce on-chain trades on Base   █
-        // █  (chainId 8453) via the 0x aggregator. Any BUY intent for a      █
-        // █  symbol NOT in this list is REJECTED here, before placeholder.   █
+        // █  Only symbols listed for the strategy chain can produce on-chain █
+        // █  trades via the 0x aggregator. Any BUY intent for a symbol NOT   █
+        // █  in the list is REJECTED here, before placeholder.               █
         // █                                                                  █
         // █  TO ADD A NEW SYMBOL (e.g. when XRP support ships):              █
         // █    1. Verify on-chain execution path works (manual swap test)    █
-        // █    2. Add the symbol to BASE_EXECUTABLE_SYMBOLS below            █
+        // █    2. Add the symbol to EXECUTABLE_SYMBOLS_BY_CHAIN below        █
         // █    3. Update PROJECT_LOG.md section "C4 — Hardcoded whitelist"   █
         // █    4. Update UI Coins & Amounts note                             █
         // █                                                                  █
@@ -4125,14 +4356,20 @@ serve(async (req) => {
         // █                                                                  █
         // █  See PROJECT_LOG.md → "C4 — Hardcoded executable symbol list"    █
         // ████████████████████████████████████████████████████████████████████
-        const BASE_EXECUTABLE_SYMBOLS: ReadonlySet<string> = new Set(['ETH']);
+        const EXECUTABLE_SYMBOLS_BY_CHAIN: Record<number, ReadonlySet<string>> = {
+          8453: new Set(['ETH']),  // Base
+          42161: new Set(['ETH']), // Arbitrum
+          10: new Set(['ETH']),    // Optimism
+        };
+        const EXECUTABLE_SYMBOLS: ReadonlySet<string> = EXECUTABLE_SYMBOLS_BY_CHAIN[executionChainId] ?? new Set();
 
-        if (intent.side.toLowerCase() === 'buy' && !BASE_EXECUTABLE_SYMBOLS.has(baseSymbol)) {
-          console.error('❌ COORDINATOR: BUY intent rejected — symbol not executable on Base', {
+        if (intent.side.toLowerCase() === 'buy' && !EXECUTABLE_SYMBOLS.has(baseSymbol)) {
+          console.error('❌ COORDINATOR: BUY intent rejected — symbol not executable on chain', {
             userId: intent.userId,
             strategyId: intent.strategyId,
             symbol: baseSymbol,
-            allowed: Array.from(BASE_EXECUTABLE_SYMBOLS),
+            chainId: executionChainId,
+            allowed: Array.from(EXECUTABLE_SYMBOLS),
           });
 
           try {
@@ -4145,7 +4382,8 @@ serve(async (req) => {
               reason: 'blocked_non_base_executable_symbol',
               metadata: {
                 context: 'C4_strict_guard_coordinator',
-                allowed_symbols: Array.from(BASE_EXECUTABLE_SYMBOLS),
+                chain_id: executionChainId,
+                allowed_symbols: Array.from(EXECUTABLE_SYMBOLS),
                 request_id: requestId,
               }
             });
@@ -4160,10 +4398,12 @@ serve(async (req) => {
               error: 'blocked_non_base_executable_symbol',
               decision: {
                 action: 'REJECTED',
-                reason: 'symbol_not_executable_on_base_chain_8453',
+                reason: executionChainId === 8453
+                  ? 'symbol_not_executable_on_base_chain_8453'
+                  : `symbol_not_executable_on_chain_${executionChainId}`,
                 request_id: requestId,
-                message: `Symbol ${baseSymbol} is not executable on Base chain. Allowed: ${Array.from(BASE_EXECUTABLE_SYMBOLS).join(', ')}.`,
-                allowed_symbols: Array.from(BASE_EXECUTABLE_SYMBOLS),
+                message: `Symbol ${baseSymbol} is not executable on ${chainLabel(executionChainId)}. Allowed: ${Array.from(EXECUTABLE_SYMBOLS).join(', ')}.`,
+                allowed_symbols: Array.from(EXECUTABLE_SYMBOLS),
               },
             }),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -4371,6 +4611,142 @@ serve(async (req) => {
           source: "automated_intelligent",
         });
 
+        // ============= ORDER SLICING (TWAP / max price impact) =============
+        // Large orders go to onchain-slice-worker as a parent intent instead of
+        // one swap; its child swaps roll back up into this same placeholder lot.
+        const slicingConfig = resolveSlicingConfig(strategy.configuration);
+        let sliceNotionalEur = isBuySide ? tradeAmount : 0;
+        if (!isBuySide && slicingConfig.enabled) {
+          const sellPrice = await getMarketPrice(baseSymbol, 15000);
+          sliceNotionalEur = tradeAmount * (sellPrice?.price || 0);
+        }
+
+        if (shouldSliceOrder(slicingConfig, sliceNotionalEur)) {
+          const sliceMode = resolveSliceMode(slicingConfig);
+          const { data: slicedOrder, error: sliceError } = await supabaseClient
+            .from("sliced_orders")
+            .insert({
+              user_id: intent.userId,
+              strategy_id: intent.strategyId,
+              mock_trade_id: mockTradeId,
+              symbol: baseSymbol,
+              side: intent.side,
+              total_amount: tradeAmount,
+              slippage_bps: slippageBps,
+              slice_mode: sliceMode,
+              slice_count: slicingConfig.sliceCount,
+              window_ms: slicingConfig.windowMs,
+              max_price_impact_bps: slicingConfig.maxPriceImpactBps,
+              chain_id: executionChainId,
+            })
+            .select("id")
+            .single();
+
+          if (sliceError || !slicedOrder) {
+            console.error("❌ COORDINATOR: Failed to create sliced order:", sliceError);
+            // Fail closed: never fall back to one full-size swap for a sliced-size order
+            await supabaseClient
+              .from("mock_trades")
+              .update({
+                execution_source: "onchain_failed",
+                is_open_position: false,
+                notes: `FAILED: sliced_order_insert_failed ${sliceError?.message ?? ""}`,
+              })
+              .eq("id", mockTradeId)
+              .eq("execution_confirmed", false);
+            return new Response(
+              JSON.stringify({
+                ok: false,
+                success: false,
+                error: "sliced_order_insert_failed",
+                decision: {
+                  action: "DEFER",
+                  reason: "sliced_order_insert_failed",
+                  request_id: requestId,
+                  message: `Failed to create sliced order: ${sliceError?.message}`,
+                },
+              }),
+              { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+            );
+          }
+
+          console.log("SLICED_ORDER_CREATED", {
+            sliced_order_id: slicedOrder.id,
+            trade_id: mockTradeId,
+            symbol: baseSymbol,
+            side: intent.side,
+            amount: tradeAmount,
+            notional_eur: sliceNotionalEur,
+            mode: sliceMode,
+            slice_count: slicingConfig.sliceCount,
+            window_ms: slicingConfig.windowMs,
+            max_price_impact_bps: slicingConfig.maxPriceImpactBps,
+          });
+
+          // Kick off the first child now; cron picks up the rest
+          fetch(`${PROJECT_URL}/functions/v1/onchain-slice-worker`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${SERVICE_ROLE}`,
+              apikey: SERVICE_ROLE!,
+            },
+            body: JSON.stringify({ orderId: slicedOrder.id, source: "coordinator" }),
+          }).catch((err) => {
+            console.warn("⚠️ COORDINATOR: Failed to trigger onchain-slice-worker (cron will retry):", err.message);
+          });
+
+          const { data: _diAutoSliced } = await supabaseClient.from("decision_events").insert({
+            user_id: intent.userId,
+            strategy_id: intent.strategyId,
+            symbol: baseSymbol,
+            side: intent.side,
+            source: intent.source,
+            confidence: intent.confidence,
+            reason: "real_execution_sliced",
+            decision_ts: new Date().toISOString(),
+            config_version_id: intent.metadata?.config_version_id ?? null,
+            trade_id: mockTradeId,
+            metadata: buildDecisionMetadata({
+              trade_id: mockTradeId,
+              sliced_order_id: slicedOrder.id,
+              slice_mode: sliceMode,
+              slice_count: slicingConfig.sliceCount,
+              slice_window_ms: slicingConfig.windowMs,
+              max_price_impact_bps: slicingConfig.maxPriceImpactBps,
+              wallet_address: BOT_ADDRESS,
+              fast_path: "AUTOMATED_INTELLIGENT",
+              amount: tradeAmount,
+              slippage_bps: slippageBps,
+              request_id: requestId,
+              ml_shadow: intent.metadata?.ml_shadow ?? null,
+              ml_signal_threshold: intent.metadata?.ml_shadow?.ml_signal_threshold ?? null,
+              ensemble_prob: intent.metadata?.ml_shadow?.ensemble_prob ?? null,
+              intent_reason: intent.reason ?? null,
+            }, false),
+          }).select("id");
+          await writeSnapshotForDirectInsert(supabaseClient, _diAutoSliced?.[0]?.id, intent.userId, intent.strategyId, baseSymbol, intent.side, intent.side, "real_execution_sliced", false);
+
+          return new Response(
+            JSON.stringify({
+              ok: true,
+              success: true,
+              tradeId: mockTradeId,
+              sliced_order_id: slicedOrder.id,
+              qty: tradeAmount,
+              decision: {
+                action: intent.side,
+                reason: "real_execution_sliced",
+                request_id: requestId,
+                trade_id: mockTradeId,
+                message: `Automated REAL trade sliced (${sliceMode}) and handed to slice worker.`,
+              },
+            }),
+            { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+          );
+        }
+        // ============= END ORDER SLICING =============
+
         // STEP 4: Synchronous call to onchain-sign-and-send
         console.log("📡 COORDINATOR: AUTOMATED calling onchain-sign-and-send", {
           symbol: baseSymbol,
@@ -4396,6 +4772,7 @@ serve(async (req) => {
               amount: tradeAmount,
               taker: BOT_ADDRESS,
               slippageBps,
+              chainId: executionChainId,
               system_operator_mode: true,
               mock_trade_id: mockTradeId,
               user_id: intent.userId,         // PHASE 3C: Ensure user_id propagation to real_trades
@@ -4449,6 +4826,7 @@ serve(async (req) => {
             confidence: intent.confidence,
             reason: "automated_execution_failed",
             decision_ts: new Date().toISOString(),
+            config_version_id: intent.metadata?.config_version_id ?? null,
             metadata: buildDecisionMetadata({
               error: execError.message,
               request_id: requestId,
@@ -4498,6 +4876,7 @@ serve(async (req) => {
           entry_price: signSendData.executedPrice,
           reason: "real_execution_synchronous",
           decision_ts: new Date().toISOString(),
+          config_version_id: intent.metadata?.config_version_id ?? null,
           trade_id: signSendData.tradeId,
           metadata: buildDecisionMetadata({
             tx_hash: signSendData.tx_hash,
@@ -5590,7 +5969,8 @@ async function executeTradeDirectly(
     }
 
     // CRITICAL FIX: Check available EUR balance BEFORE executing BUY trades
-    const tradeAllocation = sc?.perTradeAllocation || 50; // match app defaults
+    // Fired resting BUYs carry their own EUR size
+    const tradeAllocation = restingOrderAllocationEur(intent.metadata) ?? (sc?.perTradeAllocation || 50); // match app defaults
     let qty: number;
 
     if (intent.side === "BUY") {
@@ -5940,6 +6320,7 @@ async function executeTradeDirectly(
           source: "coordinator_direct",
           reason: "cash_ledger_settle_failed",
           decision_ts: new Date().toISOString(),
+          config_version_id: intent.metadata?.config_version_id ?? null,
           metadata: buildDecisionMetadata({
             path: "direct_ud_off",
             trade_id: insertResults?.[0]?.id,
@@ -6084,7 +6465,45 @@ async function executeTradeDirectly(
   }
 }
 
-// Get real-time prices from Coinbase API with freshness tracking (Phase 3)
+// Latest price-stream snapshot (websocket-fed, with top of book); null when
+// the stream is down or the row is older than maxStaleMs
+let streamedPriceClient: any = null;
+async function getStreamedPrice(
+  pairSymbol: string,
+  maxStaleMs: number,
+): Promise<{ price: number; tickAgeMs: number; spreadBps: number } | null> {
+  try {
+    streamedPriceClient ??= createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+    const { data, error } = await streamedPriceClient
+      .from("price_snapshots")
+      .select("price, bid, ask, ts")
+      .eq("symbol", pairSymbol)
+      .eq("source", "coinbase_ws")
+      .gte("ts", new Date(Date.now() - maxStaleMs).toISOString())
+      .order("ts", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error || !data) return null;
+
+    const price = Number(data.price);
+    const bid = Number(data.bid) || price;
+    const ask = Number(data.ask) || price;
+    if (!(price > 0)) return null;
+    return {
+      price,
+      tickAgeMs: Math.max(0, Date.now() - new Date(data.ts).getTime()),
+      spreadBps: ((ask - bid) / price) * 10000,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Get real-time prices with freshness tracking (Phase 3): the streamed
+// snapshot when it is fresh enough, otherwise the Coinbase REST ticker
 async function getMarketPrice(
   symbol: string,
   maxStaleMs: number = 15000,
@@ -6092,6 +6511,15 @@ async function getMarketPrice(
   try {
     const baseSymbol = toBaseSymbol(symbol);
     const pairSymbol = toPairSymbol(baseSymbol);
+
+    const streamed = await getStreamedPrice(pairSymbol, maxStaleMs);
+    if (streamed) {
+      console.log(
+        `💱 COORDINATOR: Streamed price for ${pairSymbol}: €${streamed.price} (spread: ${streamed.spreadBps.toFixed(1)}bps, age: ${streamed.tickAgeMs}ms)`,
+      );
+      return streamed;
+    }
+
     const fetchStartTime = Date.now();
     console.log(
       "💱 EXECUTION PRICE LOOKUP: base=",
@@ -6382,6 +6810,8 @@ async function logDecisionAsync(
           price: intent.metadata?.price ?? null,
           symbol_normalized: intent.metadata?.symbol_normalized ?? baseSymbol,
           trigger: intent.metadata?.trigger ?? null,
+          market_regime: intent.metadata?.market_regime ?? null,
+          experiment: intent.metadata?.experiment ?? null,
           idempotencyKey: intent.idempotencyKey ?? null,
           origin: derivedOrigin,
           engineMode: derivedEngineMode,
@@ -6391,6 +6821,7 @@ async function logDecisionAsync(
           idempotency_key: intent.idempotencyKey ?? null,
         }, isTestMode),
         raw_intent: intent as any,
+        config_version_id: intent.metadata?.config_version_id ?? null,
       };
 
       // CRITICAL: Log exactly what will be inserted for debugging
@@ -6566,11 +6997,14 @@ async function logDecisionAsync(
 // Compute dynamic thresholds based on recent price volatility
 // This fixes the "TP never hit / SL always hit" problem in crypto
 
+// The volatility multipliers depend on the market regime (_shared/volatilityRegime.ts)
+
 interface DynamicThresholds {
   dynamicTpPct: number;
   dynamicSlPct: number;
   microVolatility: number;
   source: "dynamic" | "static";
+  regime: string | null;
 }
 
 async function computeDynamicTpSlThresholds(
@@ -6578,9 +7012,11 @@ async function computeDynamicTpSlThresholds(
   symbol: string,
   baseTpPct: number,
   baseSlPct: number,
+  regime: string | null = null,
 ): Promise<DynamicThresholds> {
   try {
     const baseSymbol = symbol.includes("-") ? symbol.split("-")[0] : symbol;
+    const volMult = regimeTpSlMultipliers(regime);
 
     // Fetch recent price snapshots (last 5 minutes) for micro-volatility calculation
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
@@ -6607,12 +7043,12 @@ async function computeDynamicTpSlThresholds(
         const vol = features[0].vol_1h || features[0].vol_4h || features[0].vol_24h || 0;
         const volPct = vol * 100; // Convert to percentage
 
-        // Dynamic adjustment: TP = max(baseTp, vol * 1.0), SL = max(baseSl, vol * 1.2)
-        const dynamicTpPct = Math.max(baseTpPct, volPct * 1.0);
-        const dynamicSlPct = Math.max(baseSlPct, volPct * 1.2);
+        // Dynamic adjustment: TP = max(baseTp, vol * tpMult), SL = max(baseSl, vol * slMult) (1.0 / 1.2 in range)
+        const dynamicTpPct = Math.max(baseTpPct, volPct * volMult.tp);
+        const dynamicSlPct = Math.max(baseSlPct, volPct * volMult.sl);
 
         console.log(
-          `[DynamicTPSL] Using market_features volatility for ${baseSymbol}: vol=${volPct.toFixed(2)}%, TP=${dynamicTpPct.toFixed(2)}%, SL=${dynamicSlPct.toFixed(2)}%`,
+          `[DynamicTPSL] Using market_features volatility for ${baseSymbol}: vol=${volPct.toFixed(2)}%, regime=${regime ?? "unknown"}, TP=${dynamicTpPct.toFixed(2)}%, SL=${dynamicSlPct.toFixed(2)}%`,
         );
 
         return {
@@ -6620,12 +7056,13 @@ async function computeDynamicTpSlThresholds(
           dynamicSlPct: Math.min(dynamicSlPct, 5.0), // Cap at 5%
           microVolatility: volPct,
           source: "dynamic",
+          regime,
         };
       }
 
       // Fallback to static thresholds
       console.log(`[DynamicTPSL] No volatility data for ${baseSymbol}, using static thresholds`);
-      return { dynamicTpPct: baseTpPct, dynamicSlPct: baseSlPct, microVolatility: 0, source: "static" };
+      return { dynamicTpPct: baseTpPct, dynamicSlPct: baseSlPct, microVolatility: 0, source: "static", regime };
     }
 
     // Compute micro-volatility from price snapshots
@@ -6644,12 +7081,12 @@ async function computeDynamicTpSlThresholds(
     // Use the larger of micro-volatility and half the max swing
     const effectiveVol = Math.max(microVolatility, maxSwing * 0.5);
 
-    // Dynamic adjustment: wider thresholds in volatile markets
-    const dynamicTpPct = Math.max(baseTpPct, effectiveVol * 1.0);
-    const dynamicSlPct = Math.max(baseSlPct, effectiveVol * 1.2);
+    // Dynamic adjustment: wider thresholds in volatile markets, multipliers per regime
+    const dynamicTpPct = Math.max(baseTpPct, effectiveVol * volMult.tp);
+    const dynamicSlPct = Math.max(baseSlPct, effectiveVol * volMult.sl);
 
     console.log(
-      `[DynamicTPSL] ${baseSymbol}: microVol=${microVolatility.toFixed(3)}%, maxSwing=${maxSwing.toFixed(3)}%, TP=${dynamicTpPct.toFixed(2)}% (base ${baseTpPct}%), SL=${dynamicSlPct.toFixed(2)}% (base ${baseSlPct}%)`,
+      `[DynamicTPSL] ${baseSymbol}: microVol=${microVolatility.toFixed(3)}%, maxSwing=${maxSwing.toFixed(3)}%, regime=${regime ?? "unknown"}, TP=${dynamicTpPct.toFixed(2)}% (base ${baseTpPct}%), SL=${dynamicSlPct.toFixed(2)}% (base ${baseSlPct}%)`,
     );
 
     return {
@@ -6657,11 +7094,12 @@ async function computeDynamicTpSlThresholds(
       dynamicSlPct: Math.min(dynamicSlPct, 5.0), // Cap at 5%
       microVolatility: effectiveVol,
       source: "dynamic",
+      regime,
     };
   } catch (error) {
     console.error(`[DynamicTPSL] Error computing thresholds for ${symbol}:`, error);
     // Fallback to static on error
-    return { dynamicTpPct: baseTpPct, dynamicSlPct: baseSlPct, microVolatility: 0, source: "static" };
+    return { dynamicTpPct: baseTpPct, dynamicSlPct: baseSlPct, microVolatility: 0, source: "static", regime };
   }
 }
 
@@ -6678,12 +7116,19 @@ async function evaluatePositionStatus(
   try {
     const baseSymbol = toBaseSymbol(intent.symbol);
 
-    // Extract base TP/SL config
-    const baseTpPct = strategyConfig?.takeProfitPercentage || 0.7;
-    const baseSlPct = strategyConfig?.stopLossPercentage || 0.7;
+    // Extract base TP/SL config (regime profile applied, same as resolveCanonicalConfig)
+    const regimeConfig = applyRegimeProfile(strategyConfig || {}, intent.metadata?.market_regime).config;
+    const baseTpPct = regimeConfig?.takeProfitPercentage || 0.7;
+    const baseSlPct = regimeConfig?.stopLossPercentage || 0.7;
 
     // Compute dynamic thresholds based on recent volatility
-    const dynamicThresholds = await computeDynamicTpSlThresholds(supabaseClient, baseSymbol, baseTpPct, baseSlPct);
+    const dynamicThresholds = await computeDynamicTpSlThresholds(
+      supabaseClient,
+      baseSymbol,
+      baseTpPct,
+      baseSlPct,
+      intent.metadata?.market_regime ?? null,
+    );
 
     const effectiveTpPct = dynamicThresholds.dynamicTpPct;
     const effectiveSlPct = dynamicThresholds.dynamicSlPct;
@@ -6757,6 +7202,7 @@ async function evaluatePositionStatus(
       baseSlPct: baseSlPct.toFixed(2),
       microVolatility: dynamicThresholds.microVolatility.toFixed(3),
       thresholdSource: dynamicThresholds.source,
+      regime: dynamicThresholds.regime,
       positionSize: totalPurchaseAmount.toFixed(8),
       evaluation: "tp_sl_detection",
     };
@@ -6854,6 +7300,8 @@ async function detectConflicts(
     marketClosed: false,
     holdPeriodNotMet: false,
     exposureLimitExceeded: false, // PHASE 5: Exposure guard
+    portfolioVarExceeded: false, // PHASE 5b: Portfolio VaR budget
+    clusterExposureExceeded: false, // PHASE 5b: Correlated cluster cap
     // NEW STABILIZATION GATES (Omniscient AI Agent)
     stopLossCooldownActive: false,
     signalAlignmentFailed: false,
@@ -7094,6 +7542,81 @@ async function detectConflicts(
     console.log(
       `✅ COORDINATOR: Exposure check passed for ${baseSymbol} BUY (symbol: €${currentSymbolExposure.toFixed(0)}, total: €${totalExposureEUR.toFixed(0)})`,
     );
+
+    // ========= PHASE 5b: PORTFOLIO RISK (VaR budget + cluster cap) =========
+    // Opt-in via portfolioRiskEnabled. Per-coin caps above treat coins as
+    // independent; this evaluates the post-trade book with return correlations.
+    const riskConfig = resolvePortfolioRiskConfig(cfg);
+    if (riskConfig.enabled) {
+      const riskSymbols = [...new Set([...Object.keys(positionsBySymbol), baseSymbol])];
+      const riskCutoff = new Date(Date.now() - riskConfig.lookbackHours * 3600_000).toISOString();
+
+      let riskRows: any[] = [];
+      try {
+        const perSymbol = await Promise.all(riskSymbols.map(async (sym) => {
+          const { data, error } = await supabaseClient
+            .from("market_features_v0")
+            .select("symbol, ts_utc, ret_1h")
+            .eq("symbol", `${sym}-EUR`)
+            .eq("granularity", "1h")
+            .gte("ts_utc", riskCutoff)
+            .order("ts_utc", { ascending: false })
+            .limit(riskConfig.lookbackHours);
+          if (error) throw error;
+          return data || [];
+        }));
+        riskRows = perSymbol.flat();
+      } catch (e) {
+        console.error(`🚫 COORDINATOR: BUY blocked - portfolio risk returns query failed`, {
+          message: e instanceof Error ? e.message : String(e?.message ?? e),
+        });
+        guardReport.other = "portfolio_risk_query_failed";
+        return { hasConflict: true, reason: "portfolio_risk_query_failed", guardReport };
+      }
+
+      const risk = assessPortfolioRisk({
+        exposuresEur: positionsBySymbol,
+        symbol: baseSymbol,
+        tradeValueEur: tradeValueEUR,
+        walletValueEur: walletValueEUR,
+        returns: alignReturns(riskRows, riskSymbols),
+        config: riskConfig,
+      });
+
+      console.log(`[PORTFOLIO_RISK]`, JSON.stringify({
+        symbol: baseSymbol,
+        method: risk.method,
+        observations: risk.observations,
+        varEur: Number(risk.varEur.toFixed(2)),
+        varBudgetEur: Number(risk.varBudgetEur.toFixed(2)),
+        cluster: risk.cluster,
+        clusterExposureEur: Number(risk.clusterExposureEur.toFixed(2)),
+        clusterCapEur: Number(risk.clusterCapEur.toFixed(2)),
+        breach: risk.breach,
+      }));
+
+      if (risk.breach === "insufficient_history") {
+        console.log(
+          `🚫 COORDINATOR: BUY blocked - insufficient aligned return history for portfolio risk (${risk.observations} obs)`,
+        );
+        guardReport.other = "portfolio_risk_insufficient_history";
+        return { hasConflict: true, reason: "portfolio_risk_insufficient_history", guardReport };
+      }
+      if (risk.breach === "var_budget") {
+        console.log(
+          `🚫 COORDINATOR: BUY blocked - portfolio VaR over budget (€${risk.varEur.toFixed(0)} > €${risk.varBudgetEur.toFixed(0)})`,
+        );
+        guardReport.portfolioVarExceeded = true;
+        return { hasConflict: true, reason: "portfolio_var_budget_exceeded", guardReport };
+      }
+      if (risk.breach === "cluster_cap") {
+        console.log(
+          `🚫 COORDINATOR: BUY blocked - correlated cluster [${risk.cluster.join(", ")}] over cap (€${risk.clusterExposureEur.toFixed(0)} > €${risk.clusterCapEur.toFixed(0)})`,
+        );
+        guardReport.clusterExposureExceeded = true;
+        return { hasConflict: true, reason: "cluster_exposure_cap_reached", guardReport };
+      }
+    }
   }
   // =====================================================================
   // END PHASE 5 EXPOSURE CHECK
@@ -7422,12 +7945,13 @@ async function detectConflicts(
     // B17: count derived from authoritative remaining-amount lots, not is_open_position flag.
     // Semantically: "lots with remaining > 1e-8" replaces "rows with flag_open=true".
     // These agree under healthy invariants; this is the more correct source.
+    const lotCountIsTestMode = strategyConfig?.canonicalIsTestMode === true;
     let openLotCount: number | null = null;
     let lotCountError: any = null;
     try {
       const lots = await fetchOpenLotsAuthoritative(supabaseClient, {
         userId: intent.userId, strategyId: intent.strategyId,
-        isTestMode: canonicalIsTestMode, symbol: baseSymbol,
+        isTestMode: lotCountIsTestMode, symbol: baseSymbol,
       });
       openLotCount = lots.length;
     } catch (e) {
@@ -7437,7 +7961,7 @@ async function detectConflicts(
         stack: e instanceof Error ? e.stack : undefined,
         user: intent.userId?.slice(0, 8),
         strategy: intent.strategyId?.slice(0, 8),
-        isTestMode: canonicalIsTestMode,
+        isTestMode: lotCountIsTestMode,
         symbol: baseSymbol,
         idempotencyKey: intent.idempotencyKey,
       });
@@ -7678,6 +8202,38 @@ async function detectConflicts(
 }
 
 // Execute with minimal advisory lock (atomic section only)
+/**
+ * Quantity a SELL will close, for sizing the liquidity gate. Intents without
+ * qtySuggested close the targeted lot (metadata.originalTradeId) or every
+ * open lot, so size by the remaining lot amount instead of 0.
+ */
+async function resolveSellQtyForGate(
+  supabaseClient: any,
+  intent: TradeIntent,
+  strategyConfig: any,
+  baseSymbol: string,
+): Promise<number> {
+  const suggested = Number(intent.qtySuggested);
+  if (suggested > 0) return suggested;
+  try {
+    const lots = await fetchOpenLotsAuthoritative(supabaseClient, {
+      userId: intent.userId,
+      strategyId: intent.strategyId,
+      isTestMode: strategyConfig?.canonicalIsTestMode === true,
+      symbol: baseSymbol,
+    });
+    const targetId = intent.metadata?.originalTradeId;
+    const selling = targetId ? lots.filter((lot) => lot.id === targetId) : lots;
+    return selling.reduce((sum, lot) => sum + (Number(lot.remaining_amount) || 0), 0);
+  } catch (e) {
+    console.warn("[LiquidityGate] open lots unavailable, sizing SELL at 0", {
+      symbol: baseSymbol,
+      message: e instanceof Error ? e.message : String(e),
+    });
+    return 0;
+  }
+}
+
 async function executeWithMinimalLock(
   supabaseClient: any,
   intent: TradeIntent,
@@ -7696,7 +8252,7 @@ async function executeWithMinimalLock(
     // =========================================================================
     const baseSymbol = toBaseSymbol(intent.symbol);
 
-    const canonicalResult = resolveCanonicalConfig(strategyConfig);
+    const canonicalResult = resolveCanonicalConfig(strategyConfig, intent.metadata?.market_regime ?? null);
 
     // Allow force override to bypass config validation for manual trades
     const isForceOverride = intent.metadata?.force === true && intent.source === "manual";
@@ -7751,10 +8307,14 @@ async function executeWithMinimalLock(
       return { action: "DEFER", reason: "insufficient_price_freshness", request_id: requestId, retry_in_ms: 0 };
     }
 
+    // Latest order-book snapshot (order-book-collector): spread + depth for the gates below
+    const orderBook = await fetchLatestOrderBook(supabaseClient, toPairSymbol(baseSymbol), Date.now());
+    const gateSpreadBps = orderBook ? Number(orderBook.spread_bps) : priceData.spreadBps;
+
     // Spread gate - BYPASS IN MOCK MODE (paper trading)
-    if (!localIsMockExecution && priceData.spreadBps > spreadThresholdBps) {
+    if (!localIsMockExecution && gateSpreadBps > spreadThresholdBps) {
       console.log(
-        `🚫 COORDINATOR: Trade blocked - spread too wide (${priceData.spreadBps.toFixed(1)}bps > ${spreadThresholdBps}bps)`,
+        `🚫 COORDINATOR: Trade blocked - spread too wide (${gateSpreadBps.toFixed(1)}bps > ${spreadThresholdBps}bps, source=${orderBook ? "order_book" : "ticker"})`,
       );
       await logDecisionAsync(
         supabaseClient,
@@ -7771,12 +8331,55 @@ async function executeWithMinimalLock(
       return { action: "DEFER", reason: "spread_too_wide", request_id: requestId, retry_in_ms: 0 };
     }
 
-    if (localIsMockExecution && priceData.spreadBps > spreadThresholdBps) {
+    if (localIsMockExecution && gateSpreadBps > spreadThresholdBps) {
       console.log(
-        `🧪 MOCK MODE: Bypassing spread gate (${priceData.spreadBps.toFixed(1)}bps > ${spreadThresholdBps}bps)`,
+        `🧪 MOCK MODE: Bypassing spread gate (${gateSpreadBps.toFixed(1)}bps > ${spreadThresholdBps}bps)`,
       );
     }
 
+    // Liquidity gate - taker-side depth within 25bps vs order notional, per context policy
+    // (TP exits not enforced). BYPASS IN MOCK MODE, like the spread gate.
+    const gateContext = liquidityContext({
+      source: intent.source,
+      trigger: intent.metadata?.trigger || intent.metadata?.exit_trigger || "",
+    });
+    const liquidityNotionalEur = intent.side === "BUY"
+      ? restingOrderAllocationEur(intent.metadata) ?? (strategyConfig?.perTradeAllocation || 50)
+      : (await resolveSellQtyForGate(supabaseClient, intent, strategyConfig, baseSymbol)) * priceData.price;
+    const liquidity = evaluateLiquidityGate({
+      snapshot: orderBook,
+      side: intent.side,
+      notionalEur: liquidityNotionalEur,
+      context: gateContext,
+      nowMs: Date.now(),
+    });
+    if (liquidity.status === "block") {
+      if (localIsMockExecution) {
+        console.log(
+          `🧪 MOCK MODE: Bypassing liquidity gate (depth ratio ${liquidity.depthRatio} < ${liquidity.minDepthRatio})`,
+        );
+      } else {
+        console.log(
+          `🚫 COORDINATOR: Trade blocked - insufficient liquidity (${gateContext}: €${liquidity.sideDepthEur.toFixed(0)} within 25bps = ${liquidity.depthRatio}x of €${liquidity.notionalEur.toFixed(2)} < ${liquidity.minDepthRatio}x)`,
+        );
+        await logDecisionAsync(
+          supabaseClient,
+          intent,
+          "DEFER",
+          "blocked_by_liquidity",
+          config,
+          requestId,
+          { liquidity, context: gateContext, order_book_ts: orderBook?.ts ?? null, regime: intent.metadata?.market_regime ?? null },
+          undefined,
+          priceData.price,
+          strategyConfig,
+        );
+        return { action: "DEFER", reason: "blocked_by_liquidity", request_id: requestId, retry_in_ms: 0 };
+      }
+    } else if (liquidity.status === "skipped" && liquidity.reason !== "not_enforced") {
+      console.log(`⚠️ LIQUIDITY GATE: skipped (${liquidity.reason}) for ${intent.symbol}`);
+    }
+
     // PHASE 3.1: PRE-EXECUTION CIRCUIT BREAKER GATE
     const breakerCheck = await checkCircuitBreakers(supabaseClient, intent);
     if (breakerCheck.blocked) {
@@ -7970,7 +8573,7 @@ async function executeWithMinimalLock(
       console.log(`🎯 UD_MODE=ON → EXECUTE: action=${intent.side} symbol=${intent.symbol} lock=OK`);
 
       // PHASE 3.1: Post-execution quality logging and breaker evaluation
-      await logExecutionQuality(supabaseClient, intent, executionResult, decision_at, priceData);
+      await logExecutionQuality(supabaseClient, intent, executionResult, decision_at, priceData, orderBook);
       await evaluateCircuitBreakers(supabaseClient, intent);
 
       // Log ENTER/EXIT on successful execution with trade_id, execution price, and EFFECTIVE config (with overrides)
@@ -8285,7 +8888,7 @@ async function executeTradeOrder(
     // CANONICAL CONFIG RESOLUTION - use same resolver as executeWithMinimalLock
     // =========================================================================
     const baseSymbol = toBaseSymbol(intent.symbol);
-    const canonicalResult = resolveCanonicalConfig(strategyConfig);
+    const canonicalResult = resolveCanonicalConfig(strategyConfig, intent.metadata?.market_regime ?? null);
 
     // Allow force override to bypass config validation for manual trades
     const isForceOverride =
@@ -8328,6 +8931,8 @@ async function executeTradeOrder(
     // Create effective config by merging overrides
     let effectiveConfig = {
       ...strategyConfig,
+      // Regime profile (non-canonical keys such as perTradeAllocation)
+      ...(canonicalResult.regimeOverrides || {}),
       // Ensure canonical values are present
       takeProfitPercentage: canonical.takeProfitPercentage,
       stopLossPercentage: canonical.stopLossPercentage,
@@ -8385,7 +8990,8 @@ async function executeTradeOrder(
 
     // CRITICAL FIX: Check available EUR balance BEFORE executing BUY trades
     let qty: number;
-    const tradeAllocation = effectiveConfig?.perTradeAllocation || 50; // match app defaults
+    // Fired resting BUYs carry their own EUR size
+    const tradeAllocation = restingOrderAllocationEur(intent.metadata) ?? (effectiveConfig?.perTradeAllocation || 50); // match app defaults
 
     if (intent.side === "BUY") {
       // Derive isTestMode from canonical execution mode for balance queries
@@ -9296,6 +9902,7 @@ async function executeTradeOrder(
             source: intent.source || "coordinator_per_lot",
             reason: "cash_ledger_settle_failed",
             decision_ts: new Date().toISOString(),
+            config_version_id: intent.metadata?.config_version_id ?? null,
             metadata: buildDecisionMetadata({
               cash_before: cashResult.cash_before,
               delta: cashResult.delta,
@@ -9480,6 +10087,7 @@ async function executeTradeOrder(
           source: intent.source || "coordinator_standard",
           reason: "cash_ledger_settle_failed",
           decision_ts: new Date().toISOString(),
+          config_version_id: intent.metadata?.config_version_id ?? null,
           metadata: buildDecisionMetadata({
             cash_before: cashResult.cash_before,
             delta: cashResult.delta,
@@ -9565,6 +10173,7 @@ async function logExecutionQuality(
   executionResult: any,
   decision_at: string,
   priceData: any,
+  orderBook?: any,
 ): Promise<void> {
   try {
     const executed_at = executionResult.executed_at || new Date().toISOString();
@@ -9576,10 +10185,12 @@ async function logExecutionQuality(
     const executed_qty = executionResult.qty || 0;
     const partial_fill = executed_qty < decision_qty;
 
-    // Optional context fields - best effort
-    const spread_bps = priceData?.spread || null;
-    const market_depth = null; // Could be enhanced later
-    const volatility_regime = null; // Could be enhanced later
+    // Optional context fields - best effort (order book from order-book-collector)
+    const spread_bps = orderBook ? Number(orderBook.spread_bps) : (priceData?.spreadBps ?? null);
+    const market_depth = orderBook ? takerSideDepthEur(orderBook, intent.side) : null;
+    const executed_notional = (executed_qty || decision_qty) * (executed_price || decision_price);
+    const depth_ratio = market_depth !== null && executed_notional > 0 ? market_depth / executed_notional : null;
+    const volatility_regime = intent.metadata?.market_regime ?? null;
 
     const qualityLog = {
       user_id: intent.userId,
@@ -9597,6 +10208,8 @@ async function logExecutionQuality(
       slippage_bps,
       spread_bps,
       market_depth,
+      depth_ratio,
+      order_book_snapshot_id: orderBook?.id ?? null,
       volatility_regime,
       trade_id: executionResult.tradeId,
     };
@@ -0,0 +1,200 @@
+/**
+ * training-dataset-export — labelled decision datasets for model training
+ *
+ * Admin only. POST { horizons?: string[], asOf?: string, from?: string,
+ * validationFraction?: number, name?: string }
+ *
+ * Per horizon: joins decision_outcomes to decision_events / decision_snapshots
+ * point-in-time (see _shared/trainingDataset.ts), splits train/validation by
+ * time, writes train.csv, validation.csv and manifest.json to the
+ * training-datasets bucket under <dataset id>/ and records the export in
+ * training_datasets. A failed horizon is recorded as failed; the others still run.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  buildDatasetRows,
+  DATASET_COLUMNS,
+  DATASET_DEFAULTS,
+  datasetFile,
+  fetchDecisionContext,
+  fetchOutcomes,
+  horizonMs,
+  splitByTime,
+  type DatasetManifest,
+} from '../_shared/trainingDataset.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function upload(path: string, bytes: Uint8Array, contentType: string) {
+  const { error } = await supabase.storage
+    .from(DATASET_DEFAULTS.BUCKET)
+    .upload(path, bytes, { contentType, upsert: false });
+  if (error) throw new Error(`upload ${path} failed: ${error.message}`);
+}
+
+async function exportHorizon(options: {
+  horizon: string;
+  asOf: string;
+  from: string | null;
+  validationFraction: number;
+  name: string;
+  userId: string;
+}) {
+  const { horizon, asOf, from, validationFraction } = options;
+  const name = `${options.name}-${horizon}`;
+
+  const { data: registered, error: registerError } = await supabase
+    .from('training_datasets')
+    .insert({
+      name,
+      horizon,
+      as_of: asOf,
+      from_ts: from,
+      validation_fraction: validationFraction,
+      status: 'running',
+      created_by: options.userId,
+    })
+    .select('id')
+    .single();
+  if (registerError || !registered) throw new Error(`registry insert failed: ${registerError?.message}`);
+  const datasetId = registered.id as string;
+
+  try {
+    const outcomes = await fetchOutcomes(supabase, { horizon, asOf });
+    const { events, snapshots } = await fetchDecisionContext(
+      supabase,
+      [...new Set(outcomes.map((o) => o.decision_id))],
+      { from },
+    );
+    const build = buildDatasetRows({ horizon, asOf, events, snapshots, outcomes });
+    const split = splitByTime(build.rows, horizon, validationFraction);
+
+    const train = await datasetFile(`${datasetId}/train.csv`, split.train);
+    const validation = await datasetFile(`${datasetId}/validation.csv`, split.validation);
+    const manifest: DatasetManifest = {
+      dataset_id: datasetId,
+      name,
+      horizon,
+      as_of: asOf,
+      from,
+      created_at: new Date().toISOString(),
+      format: 'csv',
+      schema_version: DATASET_DEFAULTS.SCHEMA_VERSION,
+      columns: DATASET_COLUMNS,
+      splits: { train: train.info, validation: validation.info },
+      split_ts: split.split_ts,
+      validation_fraction: validationFraction,
+      dropped: { ...build.dropped, purged: split.purged },
+      leakage_sample: build.leakage.slice(0, DATASET_DEFAULTS.LEAKAGE_SAMPLE),
+    };
+    const manifestPath = `${datasetId}/manifest.json`;
+
+    await upload(train.info.path, train.bytes, 'text/csv');
+    await upload(validation.info.path, validation.bytes, 'text/csv');
+    await upload(manifestPath, new TextEncoder().encode(JSON.stringify(manifest, null, 2)), 'application/json');
+
+    const summary = {
+      status: 'completed',
+      train_rows: split.train.length,
+      validation_rows: split.validation.length,
+      split_ts: split.split_ts,
+      dropped: manifest.dropped,
+      manifest_path: manifestPath,
+      manifest,
+      completed_at: new Date().toISOString(),
+    };
+    const { error: updateError } = await supabase.from('training_datasets').update(summary).eq('id', datasetId);
+    if (updateError) throw new Error(`registry update failed: ${updateError.message}`);
+
+    console.log('DATASET_EXPORTED', {
+      datasetId,
+      horizon,
+      train: split.train.length,
+      validation: split.validation.length,
+      dropped: manifest.dropped,
+    });
+    return { id: datasetId, horizon, ...summary, manifest: undefined };
+  } catch (err) {
+    const message = String((err as Error)?.message ?? err);
+    console.error('DATASET_EXPORT_FAILED', { datasetId, horizon, error: message });
+    await supabase
+      .from('training_datasets')
+      .update({ status: 'failed', error: message, completed_at: new Date().toISOString() })
+      .eq('id', datasetId);
+    return { id: datasetId, horizon, status: 'failed', error: message };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ success: false, error: 'method_not_allowed' }, 405);
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return json({ success: false, error: 'unauthorized' }, 401);
+  const { data: userData, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !userData?.user) return json({ success: false, error: 'unauthorized' }, 401);
+  const userId = userData.user.id;
+
+  const { data: role } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('role', 'admin')
+    .maybeSingle();
+  if (!role) return json({ success: false, error: 'admin_required' }, 403);
+
+  let body: {
+    horizons?: string[];
+    asOf?: string;
+    from?: string;
+    validationFraction?: number;
+    name?: string;
+  };
+  try {
+    body = await req.json();
+  } catch {
+    body = {};
+  }
+
+  const horizons = body.horizons?.length ? body.horizons : [...DATASET_DEFAULTS.HORIZONS];
+  const asOf = body.asOf ?? new Date().toISOString();
+  const validationFraction = body.validationFraction ?? DATASET_DEFAULTS.VALIDATION_FRACTION;
+  try {
+    horizons.forEach(horizonMs);
+  } catch (err) {
+    return json({ success: false, error: String((err as Error).message) }, 400);
+  }
+  if (!Number.isFinite(Date.parse(asOf)) || (body.from && !Number.isFinite(Date.parse(body.from)))) {
+    return json({ success: false, error: 'invalid_timestamp' }, 400);
+  }
+  if (!(validationFraction >= 0 && validationFraction < 1)) {
+    return json({ success: false, error: 'validationFraction must be in [0, 1)' }, 400);
+  }
+
+  const name = body.name?.trim() || `decisions-${asOf.slice(0, 10)}`;
+  const datasets = [];
+  for (const horizon of horizons) {
+    datasets.push(await exportHorizon({
+      horizon,
+      asOf: new Date(asOf).toISOString(),
+      from: body.from ? new Date(body.from).toISOString() : null,
+      validationFraction,
+      name,
+      userId,
+    }));
+  }
+
+  return json({ success: datasets.every((d) => d.status === 'completed'), datasets });
+});
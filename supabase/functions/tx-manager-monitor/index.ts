@@ -0,0 +1,220 @@
+/**
+ * Transaction manager monitor
+ *
+ * Polls PENDING managed_transactions (written by _shared/txManager.ts):
+ * 1. receipt on any broadcast version → MINED / REVERTED / CANCELLED
+ * 2. nonce consumed without one of our hashes mining → DROPPED
+ * 3. pending past STUCK_AFTER_SECONDS → speed-up (same nonce, bumped fees)
+ *
+ * A replacement changes the tx hash, so the new hash is copied onto the
+ * rows that track the old one (trades, real_trades, execution_jobs,
+ * withdrawal_requests, withdrawal_audit_log); onchain-receipts keeps polling
+ * real_trades by hash.
+ *
+ * Invocation:
+ * - cron: { scheduled: true } with x-cron-secret
+ * - manual (service role only): { action: 'speed_up' | 'cancel', id }
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getConfiguredRpcUrl } from '../_shared/chains.ts';
+import { getSigner, signWithPrivateKey } from '../_shared/signer.ts';
+import { loadExecutionWalletPrivateKey } from '../_shared/envelope-encryption.ts';
+import {
+  createTxManager,
+  jsonRpc,
+  toSignerPayload,
+  type ManagedTxRow,
+  type TxManager,
+  type TxSignFn,
+} from '../_shared/txManager.ts';
+
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const BATCH_SIZE = 25;
+
+const supabase = createClient(PROJECT_URL, SERVICE_ROLE);
+
+type RowOutcome =
+  | { id: string; action: 'mined' | 'reverted' | 'cancelled' | 'dropped'; txHash: string | null }
+  | { id: string; action: 'wait' | 'stuck' }
+  | { id: string; action: 'speed_up' | 'cancel'; txHash: string; replacedTxHash: string }
+  | { id: string; action: 'error'; error: string };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// One manager per (chain, from) so nonce reservations stay scoped correctly
+const managers = new Map<string, TxManager>();
+function managerFor(row: ManagedTxRow): TxManager {
+  const key = `${row.chain_id}:${row.from_address}`;
+  let manager = managers.get(key);
+  if (!manager) {
+    const rpcUrl = getConfiguredRpcUrl(row.chain_id);
+    if (!rpcUrl) throw new Error(`No RPC configured for chain ${row.chain_id}`);
+    manager = createTxManager({ supabase, rpc: jsonRpc(rpcUrl), chainId: row.chain_id, from: row.from_address });
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+/** Re-signing path by signer kind; external (user-signed) txs cannot be replaced. */
+async function signerFor(row: ManagedTxRow): Promise<TxSignFn | null> {
+  if (row.signer_kind === 'system') {
+    const signer = getSigner();
+    return (tx) => signer.sign(toSignerPayload(tx), tx.chainId);
+  }
+  if (row.signer_kind === 'execution_wallet' && row.wallet_id) {
+    const privateKey = await loadExecutionWalletPrivateKey(supabase, row.wallet_id);
+    return (tx) => signWithPrivateKey(privateKey, tx);
+  }
+  return null;
+}
+
+// ========================================================================
+// Keep downstream rows pointing at the live hash
+// ========================================================================
+async function propagateHash(oldHash: string, newHash: string) {
+  const updates = [
+    supabase.from('trades').update({ tx_hash: newHash }).eq('tx_hash', oldHash),
+    supabase.from('real_trades').update({ tx_hash: newHash }).eq('tx_hash', oldHash).eq('execution_status', 'SUBMITTED'),
+    supabase.from('execution_jobs').update({ tx_hash: newHash }).eq('tx_hash', oldHash).eq('status', 'SUBMITTED'),
+    supabase.from('withdrawal_requests').update({ tx_hash: newHash }).eq('tx_hash', oldHash).eq('status', 'submitted'),
+    supabase.from('withdrawal_audit_log').update({ tx_hash: newHash }).eq('tx_hash', oldHash),
+  ];
+  for (const update of updates) {
+    const { error } = await update;
+    if (error) console.error('TX_MANAGER_HASH_PROPAGATION_FAILED', { oldHash, newHash, error: error.message });
+  }
+}
+
+/** A cancelled swap never filled: fail its real_trades row and open placeholder. */
+async function markCancelled(hashes: string[]) {
+  const { data: rows, error } = await supabase
+    .from('real_trades')
+    .update({ execution_status: 'DROPPED', error_reason: 'cancelled_by_tx_manager' })
+    .in('tx_hash', hashes)
+    .eq('execution_status', 'SUBMITTED')
+    .select('trade_id');
+  if (error) {
+    console.error('TX_MANAGER_CANCEL_PROPAGATION_FAILED', { hashes, error: error.message });
+    return;
+  }
+  const mockTradeIds = (rows || []).map((r: any) => r.trade_id).filter(Boolean);
+  if (!mockTradeIds.length) return;
+  await supabase
+    .from('mock_trades')
+    .update({
+      execution_source: 'onchain_failed',
+      is_open_position: false,
+      notes: 'FAILED: transaction cancelled by tx manager',
+    })
+    .in('id', mockTradeIds)
+    .eq('execution_confirmed', false);
+}
+
+async function replaceRow(row: ManagedTxRow, mode: 'speed_up' | 'cancel'): Promise<RowOutcome> {
+  const sign = await signerFor(row);
+  if (!sign) return { id: row.id, action: 'error', error: `signer_kind ${row.signer_kind} cannot be replaced` };
+
+  const result = await managerFor(row).replace(row, sign, mode);
+  if (!result.ok) {
+    console.error('TX_MANAGER_REPLACE_FAILED', { id: row.id, mode, stage: result.stage, error: result.error });
+    return { id: row.id, action: 'error', error: result.error };
+  }
+
+  console.warn(mode === 'cancel' ? 'TX_MANAGER_CANCEL' : 'TX_MANAGER_SPEED_UP', {
+    id: row.id,
+    nonce: row.nonce,
+    replaced: row.tx_hash,
+    txHash: result.txHash,
+    replacement: row.replacement_count + 1,
+  });
+  await propagateHash(row.tx_hash, result.txHash);
+  return { id: row.id, action: mode, txHash: result.txHash, replacedTxHash: row.tx_hash };
+}
+
+async function processRow(row: ManagedTxRow, nowMs: number): Promise<RowOutcome> {
+  const result = await managerFor(row).refresh(row, nowMs);
+  if (result.status === 'PENDING') {
+    if (result.action === 'speed_up') return replaceRow(row, 'speed_up');
+    if (result.action === 'stuck') {
+      console.warn('TX_MANAGER_STUCK', { id: row.id, nonce: row.nonce, txHash: row.tx_hash, replacements: row.replacement_count });
+    }
+    return { id: row.id, action: result.action };
+  }
+
+  console.log('TX_MANAGER_FINAL', { id: row.id, status: result.status, txHash: result.minedTxHash });
+  if (result.minedTxHash && result.minedTxHash !== row.tx_hash) {
+    // An earlier version mined after a replacement: point rows back at it
+    await propagateHash(row.tx_hash, result.minedTxHash);
+  }
+  if (result.status === 'CANCELLED') await markCancelled(row.tx_hashes ?? [row.tx_hash]);
+  return { id: row.id, action: result.status.toLowerCase() as 'mined' | 'reverted' | 'cancelled' | 'dropped', txHash: result.minedTxHash };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.scheduled === true) {
+      const cronSecret = Deno.env.get('CRON_SECRET');
+      const headerSecret = req.headers.get('x-cron-secret');
+      if (!cronSecret || headerSecret !== cronSecret) {
+        console.error('❌ TX_MANAGER_MONITOR: CRON_SECRET mismatch or not set');
+        return json({ success: false, error: 'forbidden' }, 403);
+      }
+    }
+
+    if (body?.action === 'speed_up' || body?.action === 'cancel') {
+      if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE}`) {
+        return json({ ok: false, error: 'forbidden' }, 403);
+      }
+      const { data: row, error } = await supabase
+        .from('managed_transactions')
+        .select('*')
+        .eq('id', body.id)
+        .eq('status', 'PENDING')
+        .maybeSingle();
+      if (error) throw error;
+      if (!row) return json({ ok: false, error: 'pending transaction not found' }, 404);
+
+      const result = await replaceRow(row as ManagedTxRow, body.action);
+      return json({ ok: result.action !== 'error', result }, result.action === 'error' ? 500 : 200);
+    }
+
+    const { data: rows, error } = await supabase
+      .from('managed_transactions')
+      .select('*')
+      .eq('status', 'PENDING')
+      .order('last_broadcast_at', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+
+    // Sequential: replacements from one address must not race each other
+    const nowMs = Date.now();
+    const results: RowOutcome[] = [];
+    for (const row of (rows || []) as ManagedTxRow[]) {
+      try {
+        results.push(await processRow(row, nowMs));
+      } catch (err) {
+        console.error('TX_MANAGER_ROW_ERROR', { id: row.id, error: (err as Error).message });
+        results.push({ id: row.id, action: 'error', error: (err as Error).message });
+      }
+    }
+
+    return json({ ok: true, processed: results.length, results });
+  } catch (error) {
+    console.error('TX_MANAGER_MONITOR_ERROR', { error: String((error as Error)?.message ?? error) });
+    return json({ ok: false, error: String((error as Error)?.message ?? error) }, 500);
+  }
+});
@@ -14,14 +14,21 @@
  * Performs TWO approvals:
  * 1. ERC20 approval: token → Permit2 (MaxUint256)
  * 2. Permit2 internal allowance: token → 0x Router (MaxUint160)
+ *
+ * Both go through _shared/txManager.ts, which reserves consecutive nonces
+ * for BOT_ADDRESS (the second approval no longer races the first).
  */
 
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { getSigner, TxPayload } from "../_shared/signer.ts";
+import { getSigner } from "../_shared/signer.ts";
 import { logger } from "../_shared/logger.ts";
+import { createTxManager, jsonRpc, toSignerPayload, type TxSignFn } from "../_shared/txManager.ts";
 
 const CHAIN_ID = 8453; // Base
 const BASE_RPC = Deno.env.get("RPC_URL_8453") || "https://mainnet.base.org";
+const PROJECT_URL = Deno.env.get("SB_URL") ?? Deno.env.get("SUPABASE_URL")!;
+const SERVICE_ROLE = Deno.env.get("SB_SERVICE_ROLE") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 // Hard-coded contract addresses (Base chain) - NO arbitrary tokens allowed
 const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
@@ -193,6 +200,14 @@ Deno.serve(async (req) => {
       token: tokenUpper,
     });
 
+    const txManager = createTxManager({
+      supabase: createClient(PROJECT_URL, SERVICE_ROLE),
+      rpc: jsonRpc(BASE_RPC),
+      chainId: CHAIN_ID,
+      from: botAddress,
+    });
+    const sign: TxSignFn = (tx) => signer.sign(toSignerPayload(tx), CHAIN_ID);
+
     // Check ETH balance for gas
     const ethBalance = await getEthBalance(botAddress);
     const MIN_ETH_FOR_GAS = BigInt("100000000000000"); // 0.0001 ETH
@@ -223,14 +238,6 @@ Deno.serve(async (req) => {
       // Build approve transaction
       const approveData = encodeApprove(PERMIT2, MAX_UINT256);
 
-      const txPayload: TxPayload = {
-        to: tokenAddress,
-        data: approveData,
-        value: "0",
-        gas: "100000", // ERC20 approve typically uses ~50k gas
-        from: botAddress,
-      };
-
       logger.info("wallet-approve-permit2.building_erc20_tx", {
         to: tokenAddress,
         from: botAddress,
@@ -238,28 +245,18 @@ Deno.serve(async (req) => {
         token: tokenUpper,
       });
 
-      const signedTx = await signer.sign(txPayload, CHAIN_ID);
-      logger.info("wallet-approve-permit2.erc20_tx_signed", { from: botAddress });
-
-      // Broadcast transaction
-      const sendRes = await fetch(BASE_RPC, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: "eth_sendRawTransaction",
-          params: [signedTx],
-        }),
-      });
-
-      const sendData = await sendRes.json();
-      if (sendData.error) {
-        logger.error("wallet-approve-permit2.erc20_broadcast_error", { error: sendData.error });
-        return jsonError(500, `ERC20 approval broadcast failed: ${sendData.error.message}`);
+      // ERC20 approve typically uses ~50k gas
+      const sent = await txManager.send(
+        { to: tokenAddress, data: approveData, value: 0n, gas: 100000n },
+        sign,
+        { kind: "approval", signerKind: "system" },
+      );
+      if (!sent.ok) {
+        logger.error("wallet-approve-permit2.erc20_broadcast_error", { stage: sent.stage, error: sent.rpcError ?? sent.error });
+        return jsonError(500, `ERC20 approval broadcast failed: ${sent.error}`);
       }
 
-      erc20TxHash = sendData.result;
+      erc20TxHash = sent.txHash;
       logger.info("wallet-approve-permit2.erc20_approved", {
         tx_hash: erc20TxHash,
         token: tokenUpper,
@@ -299,35 +296,17 @@ Deno.serve(async (req) => {
 
       const permit2ApproveData = encodePermit2Approve(tokenAddress, OX_PROXY, MAX_UINT160, MAX_UINT48);
 
-      const permit2TxPayload: TxPayload = {
-        to: PERMIT2,
-        data: permit2ApproveData,
-        value: "0",
-        gas: "80000",
-        from: botAddress,
-      };
-
-      const signedPermit2Tx = await signer.sign(permit2TxPayload, CHAIN_ID);
-      logger.info("wallet-approve-permit2.permit2_internal_tx_signed", { from: botAddress });
-
-      const sendRes = await fetch(BASE_RPC, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: "eth_sendRawTransaction",
-          params: [signedPermit2Tx],
-        }),
-      });
-
-      const sendData = await sendRes.json();
-      if (sendData.error) {
-        logger.error("wallet-approve-permit2.permit2_internal_broadcast_error", { error: sendData.error });
-        return jsonError(500, `Permit2 internal approval broadcast failed: ${sendData.error.message}`);
+      const sent = await txManager.send(
+        { to: PERMIT2, data: permit2ApproveData, value: 0n, gas: 80000n },
+        sign,
+        { kind: "approval", signerKind: "system" },
+      );
+      if (!sent.ok) {
+        logger.error("wallet-approve-permit2.permit2_internal_broadcast_error", { stage: sent.stage, error: sent.rpcError ?? sent.error });
+        return jsonError(500, `Permit2 internal approval broadcast failed: ${sent.error}`);
       }
 
-      permit2TxHash = sendData.result;
+      permit2TxHash = sent.txHash;
       logger.info("wallet-approve-permit2.permit2_internal_approved", {
         tx_hash: permit2TxHash,
         token: tokenUpper,
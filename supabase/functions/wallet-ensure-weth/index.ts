@@ -1,7 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { BASE_CHAIN_ID, BASE_TOKENS, formatTokenAmount } from '../_shared/addresses.ts';
 import { getSigner } from '../_shared/signer.ts';
-import { sendRawTransaction, waitForReceipt } from '../_shared/eth.ts';
+import { waitForReceipt } from '../_shared/eth.ts';
+import { createTxManager, jsonRpc, toSignerPayload } from '../_shared/txManager.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,6 +17,8 @@ const SERVER_SIGNER_MODE = Deno.env.get('SERVER_SIGNER_MODE');
 const BOT_PRIVATE_KEY = Deno.env.get('BOT_PRIVATE_KEY');
 const SIGNER_WEBHOOK_URL = Deno.env.get('SIGNER_WEBHOOK_URL');
 const SIGNER_WEBHOOK_AUTH = Deno.env.get('SIGNER_WEBHOOK_AUTH');
+const PROJECT_URL = Deno.env.get('SB_URL') ?? Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE = Deno.env.get('SB_SERVICE_ROLE') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 // Safety controls
 const EXECUTION_DRY_RUN = Deno.env.get('EXECUTION_DRY_RUN') !== 'false'; // default: true
@@ -435,38 +439,34 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Build transaction
-    const txPayload = {
-      to: BASE_TOKENS.WETH,
-      data: '0xd0e30db0', // deposit()
-      value: deficitWei.toString(),
-      gas: '30000', // WETH deposit is simple, ~27k gas
-      from: BOT_ADDRESS,
-    };
-
-    // Sign transaction
-    let signedTx: string;
-    try {
-      const signer = getSigner();
-      console.log(`wrap.submit.sign: Signing with ${signer.type} signer`);
-      signedTx = await signer.sign(txPayload, BASE_CHAIN_ID);
-    } catch (signError: any) {
-      console.error('signer.error', { code: 'signing_failed', message: signError.message });
-      return new Response(
-        JSON.stringify({ 
-          ok: false, 
-          code: 'signer_unavailable', 
-          message: 'Failed to sign transaction',
-          detail: signError.message 
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Broadcast transaction
-    console.log('tx.broadcast: Sending to Base RPC');
-    const sendResult = await sendRawTransaction(BASE_CHAIN_ID, signedTx);
-    if (!sendResult.success || !sendResult.txHash) {
+    // Sign + broadcast via the shared tx manager (reserved BOT_ADDRESS nonce, EIP-1559 fees)
+    const signer = getSigner();
+    console.log(`wrap.submit.sign: Signing with ${signer.type} signer`);
+    const txManager = createTxManager({
+      supabase: createClient(PROJECT_URL, SERVICE_ROLE),
+      rpc: jsonRpc(RPC_URL),
+      chainId: BASE_CHAIN_ID,
+      from: BOT_ADDRESS!,
+    });
+    const sendResult = await txManager.send(
+      // WETH deposit is simple, ~27k gas
+      { to: BASE_TOKENS.WETH, data: '0xd0e30db0', value: deficitWei, gas: 30000n },
+      (tx) => signer.sign(toSignerPayload(tx), BASE_CHAIN_ID),
+      { kind: 'wrap', signerKind: 'system' },
+    );
+    if (!sendResult.ok) {
+      if (sendResult.stage === 'sign') {
+        console.error('signer.error', { code: 'signing_failed', message: sendResult.error });
+        return new Response(
+          JSON.stringify({ 
+            ok: false, 
+            code: 'signer_unavailable', 
+            message: 'Failed to sign transaction',
+            detail: sendResult.error 
+          }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
       console.error('error', { code: 'tx_failed', message: sendResult.error });
       return new Response(
         JSON.stringify({ 
@@ -1,20 +1,19 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  defaultDedupKey,
+  resolveSignalUserId,
+  runSignalSource,
+  type SignalDraft,
+  type SignalSource,
+} from "../_shared/signalSource.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// B1 Step 3: Normalize symbols to *-EUR for tradeable pairs
-const EUR_PAIR_SYMBOLS = new Set(['BTC','ETH','XRP','SOL','ADA','AVAX','DOT','LINK','LTC','BCH']);
-function normalizeSymbolForSignal(rawSymbol: string): string {
-  const upper = rawSymbol.toUpperCase();
-  if (EUR_PAIR_SYMBOLS.has(upper)) return `${upper}-EUR`;
-  return upper;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -89,218 +88,27 @@ serve(async (req) => {
     }
 
     // CRITICAL: Resolve user_id - sources may have NULL user_id
-    let userId = dataSource.user_id;
-    if (!userId) {
-      // Fallback: find an active trading user
-      const { data: activeUser } = await supabaseClient
-        .from('trading_strategies')
-        .select('user_id')
-        .eq('is_active', true)
-        .limit(1);
-      
-      if (activeUser && activeUser.length > 0) {
-        userId = activeUser[0].user_id;
-        console.log(`✅ Using active trading user: ${userId}`);
-      } else {
-        // Ultimate fallback: known system user
-        userId = '25a0c221-1f0e-431d-8d79-db9fb4db9cb3';
-        console.log(`✅ Using system fallback user: ${userId}`);
-      }
-    }
+    const userId = await resolveSignalUserId(supabaseClient, [dataSource.user_id]);
     
     const sourceId = dataSource.id;
     const thresholdAmount = dataSource.threshold_amount || 50000;
 
-    // Process webhook payload and extract whale transaction data
-    const whaleEvents = [];
-    
-    if (payload.transactions && Array.isArray(payload.transactions)) {
-      for (const tx of payload.transactions) {
-        // Skip if below threshold
-        if (tx.amount_usd && tx.amount_usd < thresholdAmount) {
-          continue;
-        }
-
-        // Determine transaction type and signal type based on from/to addresses
-        const fromOwner = tx.from?.owner || '';
-        const toOwner = tx.to?.owner || '';
-        const isExchangeInflow = toOwner && !fromOwner;
-        const isExchangeOutflow = fromOwner && !toOwner;
-        const isStablecoin = ['USDT', 'USDC', 'DAI', 'BUSD'].includes(tx.symbol?.toUpperCase());
-        
-        let transactionType = 'transfer';
-        let signalType = 'whale_transfer';
-        
-        if (isExchangeInflow) {
-          transactionType = 'inflow';
-          signalType = isStablecoin ? 'whale_usdt_injection' : 'whale_exchange_inflow';
-        } else if (isExchangeOutflow) {
-          transactionType = 'outflow';
-          signalType = 'whale_exchange_outflow';
-        } else if (isStablecoin && fromOwner === 'Tether Treasury') {
-          transactionType = 'mint';
-          signalType = 'whale_stablecoin_mint';
-        } else if (isStablecoin && toOwner === 'Tether Treasury') {
-          transactionType = 'burn';
-          signalType = 'whale_stablecoin_burn';
-        }
-
-        const whaleEvent = {
-          source_id: sourceId,
-          user_id: userId,
-          timestamp: new Date(tx.timestamp * 1000).toISOString(),
-          event_type: 'whale_transaction',
-          blockchain: tx.blockchain || 'ethereum',
-          transaction_hash: tx.hash,
-          from_address: tx.from?.address || null,
-          to_address: tx.to?.address || null,
-          token_symbol: tx.symbol || 'ETH',
-          amount: parseFloat(tx.amount || 0),
-          raw_data: tx,
-          processed: false
-        };
-
-        whaleEvents.push(whaleEvent);
-
-        // Create live signal with specific signal type and tracked entity metadata
-        const amountUsd = tx.amount_usd || 0;
-        const signal = {
-          source_id: sourceId,
-          user_id: userId,
-          timestamp: whaleEvent.timestamp,
-          symbol: normalizeSymbolForSignal(whaleEvent.token_symbol),
-          signal_type: signalType,
-          signal_strength: Math.min(100, amountUsd / 1000000 * 100),
-          source: 'whale_alert_tracked', // Tracked wallets via webhook
-          data: {
-            hash: tx.hash,
-            from: tx.from?.address,
-            to: tx.to?.address,
-            amount: parseFloat(tx.amount || 0),
-            amount_usd: amountUsd,
-            asset: tx.symbol || 'ETH',
-            blockchain: tx.blockchain || 'ethereum',
-            timestamp: tx.timestamp,
-            transaction_type: transactionType,
-            exchange: toOwner || fromOwner || null,
-            tracked_entity: fromOwner || toOwner || null, 
-            tracked_entity_type: (fromOwner || toOwner) ? 'exchange' : 'other',
-            tracked_entity_id: null // Will be enhanced with specific IDs in future
-          },
-          processed: false
-        };
-
-        // Insert live signal
-        const { error: signalError } = await supabaseClient
-          .from('live_signals')
-          .insert([signal]);
-
-        if (signalError) {
-          console.error('❌ Error inserting whale signal:', signalError);
-        } else {
-          console.log(`[WhaleSignals] Inserted signal into live_signals for ${signal.symbol} (${signalType})`);
-        }
-      }
-      // Handle single transaction format
-      const tx = payload;
-      
-      if (tx.amount_usd >= thresholdAmount) {
-        // Determine transaction type and signal type
-        const fromOwner = tx.from?.owner || '';
-        const toOwner = tx.to?.owner || '';
-        const isExchangeInflow = toOwner && !fromOwner;
-        const isExchangeOutflow = fromOwner && !toOwner;
-        const isStablecoin = ['USDT', 'USDC', 'DAI', 'BUSD'].includes(tx.symbol?.toUpperCase());
-        
-        let transactionType = 'transfer';
-        let signalType = 'whale_transfer';
-        
-        if (isExchangeInflow) {
-          transactionType = 'inflow';
-          signalType = isStablecoin ? 'whale_usdt_injection' : 'whale_exchange_inflow';
-        } else if (isExchangeOutflow) {
-          transactionType = 'outflow';
-          signalType = 'whale_exchange_outflow';
-        } else if (isStablecoin && fromOwner === 'Tether Treasury') {
-          transactionType = 'mint';
-          signalType = 'whale_stablecoin_mint';
-        } else if (isStablecoin && toOwner === 'Tether Treasury') {
-          transactionType = 'burn';
-          signalType = 'whale_stablecoin_burn';
-        }
-
-        const whaleEvent = {
-          source_id: sourceId,
-          user_id: userId,
-          timestamp: new Date(tx.timestamp * 1000).toISOString(),
-          event_type: 'whale_transaction',
-          blockchain: tx.blockchain || 'ethereum',
-          transaction_hash: tx.hash,
-          from_address: tx.from?.address || null,
-          to_address: tx.to?.address || null,
-          token_symbol: tx.symbol || 'ETH',
-          amount: parseFloat(tx.amount || 0),
-          raw_data: tx,
-          processed: false
-        };
-
-        whaleEvents.push(whaleEvent);
-
-        // Create live signal with specific signal type and tracked entity metadata
-        const amountUsd = tx.amount_usd || 0;
-        const signal = {
-          source_id: sourceId,
-          user_id: userId,
-          timestamp: whaleEvent.timestamp,
-          symbol: normalizeSymbolForSignal(whaleEvent.token_symbol),
-          signal_type: signalType,
-          signal_strength: Math.min(100, amountUsd / 1000000 * 100),
-          source: 'whale_alert_tracked',
-          data: {
-            hash: tx.hash,
-            from: tx.from?.address,
-            to: tx.to?.address,
-            amount: parseFloat(tx.amount || 0),
-            amount_usd: amountUsd,
-            asset: tx.symbol || 'ETH',
-            blockchain: tx.blockchain || 'ethereum',
-            timestamp: tx.timestamp,
-            transaction_type: transactionType,
-            exchange: toOwner || fromOwner || null,
-            tracked_entity: fromOwner || toOwner || null,
-            tracked_entity_type: (fromOwner || toOwner) ? 'exchange' : 'other',
-            tracked_entity_id: null
-          },
-          processed: false
-        };
-
-        const { error: signalError } = await supabaseClient
-          .from('live_signals')
-          .insert([signal]);
-
-        if (signalError) {
-          console.error('❌ Error inserting whale signal:', signalError);
-        } else {
-          console.log(`[WhaleSignals] Inserted signal into live_signals for ${signal.symbol} (${signalType})`);
-        }
-      }
-    }
+    // Process webhook payload (batch or single transaction) into live_signals
+    const run = await runSignalSource(
+      supabaseClient,
+      whaleAlertSource(payload, thresholdAmount),
+      { userId, sourceId, now: new Date() },
+    );
 
     // Legacy whale_signal_events table insert removed - now using live_signals only
-    console.log(`[WhaleSignals] Processed ${whaleEvents.length} whale transactions into live_signals (source: whale_alert_tracked)`);
+    console.log(`[WhaleSignals] Processed ${run.fetched} whale transactions into live_signals (source: whale_alert_tracked)`);
 
-    // Update last_sync timestamp
-    await supabaseClient
-      .from('ai_data_sources')
-      .update({ last_sync: new Date().toISOString() })
-      .eq('id', sourceId);
-
-    console.log(`🐋 Processed ${whaleEvents.length} whale events`);
+    console.log(`🐋 Processed ${run.fetched} whale events`);
 
     // Return fast 200 OK response
     return new Response(JSON.stringify({ 
       success: true, 
-      events_processed: whaleEvents.length,
+      events_processed: run.fetched,
       message: 'Webhook processed successfully'
     }), {
       status: 200,
@@ -349,120 +157,20 @@ async function processQuickNodeWebhook(supabaseClient: any, payload: any) {
   const source = sources[0];
   
   // CRITICAL: Resolve user_id - sources may have NULL user_id
-  let effectiveUserId = source.user_id;
-  if (!effectiveUserId) {
-    // Fallback: find an active trading user
-    const { data: activeUser } = await supabaseClient
-      .from('trading_strategies')
-      .select('user_id')
-      .eq('is_active', true)
-      .limit(1);
-    
-    if (activeUser && activeUser.length > 0) {
-      effectiveUserId = activeUser[0].user_id;
-      console.log(`✅ QuickNode: Using active trading user: ${effectiveUserId}`);
-    } else {
-      // Ultimate fallback: known system user
-      effectiveUserId = '25a0c221-1f0e-431d-8d79-db9fb4db9cb3';
-      console.log(`✅ QuickNode: Using system fallback user: ${effectiveUserId}`);
-    }
-  }
-  
-  const whaleEvents = [];
+  const effectiveUserId = await resolveSignalUserId(supabaseClient, [source.user_id]);
   
-  // Process matching transactions from QuickNode payload
-  const matchingTransactions = payload.matchingTransactions || [];
-  console.log(`🔍 Processing ${matchingTransactions.length} QuickNode transactions`);
-  
-  for (const transaction of matchingTransactions) {
-    try {
-      // Convert hex value to decimal (Wei to ETH)
-      const valueInWei = parseInt(transaction.value, 16);
-      const valueInEth = valueInWei / Math.pow(10, 18);
-      
-      // Skip small transactions (less than 10 ETH)
-      if (valueInEth < 10) {
-        continue;
-      }
-      
-      // Determine blockchain from chainId
-      const chainId = parseInt(transaction.chainId, 16);
-      const blockchain = getBlockchainName(chainId);
-      
-      const whaleEvent = {
-        source_id: source.id,
-        user_id: effectiveUserId,
-        timestamp: new Date().toISOString(),
-        event_type: 'large_transaction',
-        blockchain: blockchain,
-        transaction_hash: transaction.hash,
-        from_address: transaction.from,
-        to_address: transaction.to,
-        token_symbol: 'ETH',
-        amount: valueInEth,
-        raw_data: transaction,
-        processed: false
-      };
-      
-      whaleEvents.push(whaleEvent);
-      
-      // Create live signal for large QuickNode transactions
-      const estimatedUsd = valueInEth * 3200; // Approximate
-      const signalType = valueInEth > 100 ? 'whale_exchange_inflow' : 'whale_transfer';
-      
-      const signal = {
-        source_id: source.id,
-        user_id: effectiveUserId,
-        timestamp: whaleEvent.timestamp,
-        symbol: normalizeSymbolForSignal('ETH'),
-        signal_type: signalType,
-        signal_strength: Math.min(100, valueInEth / 10),
-        source: 'whale_alert_tracked', // QuickNode tracked wallets
-        data: {
-          hash: transaction.hash,
-          from: transaction.from,
-          to: transaction.to,
-          amount: valueInEth,
-          amount_usd: estimatedUsd,
-          asset: 'ETH',
-          blockchain: blockchain,
-          timestamp: Math.floor(Date.now() / 1000),
-          transaction_type: 'transfer',
-          exchange: null,
-          tracked_entity: null, // Can be enhanced with wallet labels
-          tracked_entity_type: null,
-          tracked_entity_id: null
-        },
-        processed: false
-      };
-      
-      // Insert live signal
-      const { error: signalError } = await supabaseClient
-        .from('live_signals')
-        .insert([signal]);
-        
-      if (signalError) {
-        console.error('❌ Error inserting QuickNode signal:', signalError);
-      } else {
-        console.log(`[WhaleSignals] Inserted QuickNode signal for ${valueInEth.toFixed(4)} ETH on ${blockchain}`);
-      }
-    } catch (error) {
-      console.error('❌ Error processing QuickNode transaction:', error);
-    }
-  }
+  const run = await runSignalSource(
+    supabaseClient,
+    quickNodeSource(payload),
+    { userId: effectiveUserId, sourceId: source.id, now: new Date() },
+  );
   
   // Legacy whale_signal_events table insert removed - now using live_signals only
-  console.log(`[WhaleSignals] Processed ${whaleEvents.length} QuickNode transactions into live_signals (source: whale_alert_tracked)`);
-  
-  // Update last_sync timestamp
-  await supabaseClient
-    .from('ai_data_sources')
-    .update({ last_sync: new Date().toISOString() })
-    .eq('id', source.id);
+  console.log(`[WhaleSignals] Processed ${run.fetched} QuickNode transactions into live_signals (source: whale_alert_tracked)`);
   
   return new Response(JSON.stringify({ 
     success: true, 
-    events_processed: whaleEvents.length,
+    events_processed: run.fetched,
     message: 'QuickNode webhook processed successfully'
   }), {
     status: 200,
@@ -470,6 +178,132 @@ async function processQuickNodeWebhook(supabaseClient: any, payload: any) {
   });
 }
 
+// Webhook retries resend the same transaction; the hash is its identity
+function whaleDedupKey(signal: Pick<SignalDraft, 'symbol' | 'signal_type' | 'timestamp' | 'data'>): string {
+  return signal.data?.hash ? `${signal.signal_type}|${signal.data.hash}` : defaultDedupKey(signal);
+}
+
+// Determine transaction type and signal type based on from/to owners
+function classifyWhaleTransaction(tx: any): { transactionType: string; signalType: string } {
+  const fromOwner = tx.from?.owner || '';
+  const toOwner = tx.to?.owner || '';
+  const isExchangeInflow = toOwner && !fromOwner;
+  const isExchangeOutflow = fromOwner && !toOwner;
+  const isStablecoin = ['USDT', 'USDC', 'DAI', 'BUSD'].includes(tx.symbol?.toUpperCase());
+  
+  if (isExchangeInflow) {
+    return { transactionType: 'inflow', signalType: isStablecoin ? 'whale_usdt_injection' : 'whale_exchange_inflow' };
+  } else if (isExchangeOutflow) {
+    return { transactionType: 'outflow', signalType: 'whale_exchange_outflow' };
+  } else if (isStablecoin && fromOwner === 'Tether Treasury') {
+    return { transactionType: 'mint', signalType: 'whale_stablecoin_mint' };
+  } else if (isStablecoin && toOwner === 'Tether Treasury') {
+    return { transactionType: 'burn', signalType: 'whale_stablecoin_burn' };
+  }
+  return { transactionType: 'transfer', signalType: 'whale_transfer' };
+}
+
+// SignalSource plug-in: Whale Alert payload, either { transactions: [...] }
+// or a single transaction object. Strength scales 1M USD → 100.
+function whaleAlertSource(payload: any, thresholdAmount: number): SignalSource<any> {
+  return {
+    name: 'whale_alert_tracked', // Tracked wallets via webhook
+    expectedIntervalSeconds: 86400,
+    symbolFormat: 'pair',
+    dedupLookbackSeconds: 86400,
+    async fetch() {
+      if (Array.isArray(payload.transactions)) {
+        // Skip if below threshold
+        return payload.transactions.filter((tx: any) => !(tx.amount_usd && tx.amount_usd < thresholdAmount));
+      }
+      // Handle single transaction format
+      return payload.amount_usd >= thresholdAmount ? [payload] : [];
+    },
+    normalize(txs) {
+      return txs.map((tx) => {
+        const { transactionType, signalType } = classifyWhaleTransaction(tx);
+        const fromOwner = tx.from?.owner || '';
+        const toOwner = tx.to?.owner || '';
+        const amountUsd = tx.amount_usd || 0;
+
+        // Create live signal with specific signal type and tracked entity metadata
+        return {
+          timestamp: new Date(tx.timestamp * 1000).toISOString(),
+          symbol: tx.symbol || 'ETH',
+          signal_type: signalType,
+          signal_strength: amountUsd,
+          data: {
+            hash: tx.hash,
+            from: tx.from?.address,
+            to: tx.to?.address,
+            amount: parseFloat(tx.amount || 0),
+            amount_usd: amountUsd,
+            asset: tx.symbol || 'ETH',
+            blockchain: tx.blockchain || 'ethereum',
+            timestamp: tx.timestamp,
+            transaction_type: transactionType,
+            exchange: toOwner || fromOwner || null,
+            tracked_entity: fromOwner || toOwner || null,
+            tracked_entity_type: (fromOwner || toOwner) ? 'exchange' : 'other',
+            tracked_entity_id: null // Will be enhanced with specific IDs in future
+          }
+        };
+      });
+    },
+    scale: (draft) => draft.signal_strength / 1000000 * 100,
+    dedupKey: whaleDedupKey,
+  };
+}
+
+// SignalSource plug-in: QuickNode matchingTransactions, native ETH ≥ 10.
+// Strength scales 1000 ETH → 100.
+function quickNodeSource(payload: any): SignalSource<any> {
+  return {
+    name: 'whale_alert_tracked', // QuickNode tracked wallets
+    expectedIntervalSeconds: 86400,
+    symbolFormat: 'pair',
+    dedupLookbackSeconds: 86400,
+    async fetch() {
+      const matchingTransactions = payload.matchingTransactions || [];
+      console.log(`🔍 Processing ${matchingTransactions.length} QuickNode transactions`);
+      // Convert hex value to decimal (Wei to ETH), skip small transactions (less than 10 ETH)
+      return matchingTransactions.filter((transaction: any) => parseInt(transaction.value, 16) / Math.pow(10, 18) >= 10);
+    },
+    normalize(transactions, ctx) {
+      return transactions.map((transaction) => {
+        const valueInEth = parseInt(transaction.value, 16) / Math.pow(10, 18);
+        // Determine blockchain from chainId
+        const blockchain = getBlockchainName(parseInt(transaction.chainId, 16));
+        const estimatedUsd = valueInEth * 3200; // Approximate
+
+        console.log(`[WhaleSignals] QuickNode transaction ${valueInEth.toFixed(4)} ETH on ${blockchain}`);
+        return {
+          timestamp: ctx.now.toISOString(),
+          symbol: 'ETH',
+          signal_type: valueInEth > 100 ? 'whale_exchange_inflow' : 'whale_transfer',
+          signal_strength: valueInEth / 10,
+          data: {
+            hash: transaction.hash,
+            from: transaction.from,
+            to: transaction.to,
+            amount: valueInEth,
+            amount_usd: estimatedUsd,
+            asset: 'ETH',
+            blockchain: blockchain,
+            timestamp: Math.floor(ctx.now.getTime() / 1000),
+            transaction_type: 'transfer',
+            exchange: null,
+            tracked_entity: null, // Can be enhanced with wallet labels
+            tracked_entity_type: null,
+            tracked_entity_id: null
+          }
+        };
+      });
+    },
+    dedupKey: whaleDedupKey,
+  };
+}
+
 function getBlockchainName(chainId: number): string {
   const blockchainMap: { [key: number]: string } = {
     1: 'ethereum',
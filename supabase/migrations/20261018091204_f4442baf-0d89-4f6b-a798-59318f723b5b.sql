@@ -0,0 +1,5 @@
+-- MetaRouter connectors build through onchain-execute with any supported aggregator,
+-- so the transport-layer trades row must accept more than 0x.
+ALTER TABLE public.trades DROP CONSTRAINT IF EXISTS trades_provider_check;
+ALTER TABLE public.trades
+  ADD CONSTRAINT trades_provider_check CHECK (provider IN ('0x', '1inch', 'cow', 'uniswap'));
@@ -0,0 +1,156 @@
+-- ============================================================================
+-- Order slicing / TWAP for large REAL orders
+--
+-- A sliced order is a parent intent executed as N child swaps. Each child is a
+-- normal onchain-sign-and-send execution (trades + trade_events + real_trades),
+-- tagged with parent_order_id. Child real_trades all point at the parent
+-- mock_trades placeholder; onchain-receipts accumulates their fills here and
+-- onchain-slice-worker rolls the totals up into that single lot.
+-- ============================================================================
+
+CREATE TABLE public.sliced_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  user_id uuid NOT NULL,
+  strategy_id uuid,
+  mock_trade_id uuid NOT NULL REFERENCES public.mock_trades(id),
+  symbol text NOT NULL,
+  side text NOT NULL CHECK (side IN ('BUY', 'SELL')),
+  total_amount numeric NOT NULL CHECK (total_amount > 0),  -- BUY: EUR to spend, SELL: base qty
+  slippage_bps int NOT NULL DEFAULT 50,
+
+  -- Slicing plan
+  slice_mode text NOT NULL CHECK (slice_mode IN ('TWAP', 'IMPACT')),
+  slice_count int NOT NULL DEFAULT 1 CHECK (slice_count >= 1),
+  window_ms bigint NOT NULL DEFAULT 0 CHECK (window_ms >= 0),
+  max_price_impact_bps int CHECK (max_price_impact_bps IS NULL OR max_price_impact_bps > 0),
+
+  -- Progress
+  status text NOT NULL DEFAULT 'RUNNING'
+    CHECK (status IN ('RUNNING', 'AWAITING_RECEIPTS', 'FINALIZING', 'COMPLETED', 'FAILED')),
+  next_slice_at timestamptz NOT NULL DEFAULT now(),
+  slices_submitted int NOT NULL DEFAULT 0,
+  slices_confirmed int NOT NULL DEFAULT 0,
+  slices_failed int NOT NULL DEFAULT 0,
+  consecutive_errors int NOT NULL DEFAULT 0,
+  amount_submitted numeric NOT NULL DEFAULT 0,
+
+  -- Roll-up of confirmed child fills (EUR, same convention as onchain-receipts)
+  filled_amount numeric NOT NULL DEFAULT 0,
+  filled_value numeric NOT NULL DEFAULT 0,
+  gas_cost_eth numeric NOT NULL DEFAULT 0,
+  last_tx_hash text,
+  last_error text
+);
+
+CREATE INDEX idx_sliced_orders_status_next ON public.sliced_orders (status, next_slice_at);
+CREATE INDEX idx_sliced_orders_mock_trade ON public.sliced_orders (mock_trade_id);
+
+DROP TRIGGER IF EXISTS trg_sliced_orders_updated_at ON public.sliced_orders;
+CREATE TRIGGER trg_sliced_orders_updated_at
+BEFORE UPDATE ON public.sliced_orders
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.sliced_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sliced orders"
+  ON public.sliced_orders FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Child linkage
+ALTER TABLE public.trades
+  ADD COLUMN IF NOT EXISTS parent_order_id uuid REFERENCES public.sliced_orders(id);
+ALTER TABLE public.real_trades
+  ADD COLUMN IF NOT EXISTS parent_order_id uuid REFERENCES public.sliced_orders(id),
+  ADD COLUMN IF NOT EXISTS slice_index int;
+
+CREATE INDEX IF NOT EXISTS idx_real_trades_parent_order ON public.real_trades (parent_order_id)
+  WHERE parent_order_id IS NOT NULL;
+
+-- ============================================================================
+-- Atomic child fill accumulation (receipts for sibling slices can land in the
+-- same batch poll, so counters must not be read-modify-written from Deno).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.record_sliced_order_fill(
+  p_order_id uuid,
+  p_success boolean,
+  p_amount numeric DEFAULT 0,
+  p_value numeric DEFAULT 0,
+  p_gas_cost_eth numeric DEFAULT 0,
+  p_tx_hash text DEFAULT NULL
+)
+RETURNS public.sliced_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row public.sliced_orders;
+BEGIN
+  UPDATE public.sliced_orders
+  SET slices_confirmed = slices_confirmed + CASE WHEN p_success THEN 1 ELSE 0 END,
+      slices_failed = slices_failed + CASE WHEN p_success THEN 0 ELSE 1 END,
+      filled_amount = filled_amount + CASE WHEN p_success THEN COALESCE(p_amount, 0) ELSE 0 END,
+      filled_value = filled_value + CASE WHEN p_success THEN COALESCE(p_value, 0) ELSE 0 END,
+      gas_cost_eth = gas_cost_eth + COALESCE(p_gas_cost_eth, 0),
+      last_tx_hash = COALESCE(p_tx_hash, last_tx_hash)
+  WHERE id = p_order_id
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$function$;
+
+-- Claims the roll-up exactly once: only one caller moves a fully-receipted
+-- order from AWAITING_RECEIPTS to FINALIZING.
+CREATE OR REPLACE FUNCTION public.claim_sliced_order_finalization(p_order_id uuid)
+RETURNS public.sliced_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row public.sliced_orders;
+BEGIN
+  UPDATE public.sliced_orders
+  SET status = 'FINALIZING'
+  WHERE id = p_order_id
+    AND status = 'AWAITING_RECEIPTS'
+    AND slices_confirmed + slices_failed >= slices_submitted
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_sliced_order_fill(uuid, boolean, numeric, numeric, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_sliced_order_finalization(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- Slice worker: due slices + roll-up of fully-receipted parents
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'onchain-slice-worker-1min') THEN
+    PERFORM cron.unschedule('onchain-slice-worker-1min');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'onchain-slice-worker-1min',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/onchain-slice-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_1min"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,32 @@
+-- ============================================================
+-- MULTI-CHAIN EXECUTION (Base + Arbitrum + Optimism)
+-- Chain registry lives in supabase/functions/_shared/chains.ts;
+-- which chains actually trade is gated by ONCHAIN_ENABLED_CHAIN_IDS.
+-- ============================================================
+
+-- 1. Deposit attribution is chain-scoped (address registered per chain)
+ALTER TABLE public.user_external_addresses
+  DROP CONSTRAINT IF EXISTS user_external_addresses_chain_supported;
+ALTER TABLE public.user_external_addresses
+  ADD CONSTRAINT user_external_addresses_chain_supported
+  CHECK (chain_id IN (8453, 42161, 10));
+
+ALTER TABLE public.deposit_attributions
+  DROP CONSTRAINT IF EXISTS deposit_attributions_chain_supported;
+ALTER TABLE public.deposit_attributions
+  ADD CONSTRAINT deposit_attributions_chain_supported
+  CHECK (chain_id IN (8453, 42161, 10));
+
+ALTER TABLE public.unattributed_deposits
+  DROP CONSTRAINT IF EXISTS unattributed_deposits_chain_supported;
+ALTER TABLE public.unattributed_deposits
+  ADD CONSTRAINT unattributed_deposits_chain_supported
+  CHECK (chain_id IN (8453, 42161, 10));
+
+-- 2. Sliced parents remember the strategy chain so every child lands on it
+ALTER TABLE public.sliced_orders
+  ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 8453;
+
+ALTER TABLE public.sliced_orders
+  ADD CONSTRAINT sliced_orders_chain_supported
+  CHECK (chain_id IN (8453, 42161, 10));
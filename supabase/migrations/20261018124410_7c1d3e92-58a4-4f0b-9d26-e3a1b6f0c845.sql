@@ -0,0 +1,113 @@
+-- ============================================================================
+-- Resting orders (limit / stop-loss / stop-limit)
+--
+-- Orders wait here until price_snapshots crosses their trigger. On every
+-- price-snapshot-refresh, resting-orders-evaluator claims triggered rows
+-- (OPEN → TRIGGERED) and fires them as manual intents through
+-- trading-decision-coordinator, so the normal gates apply and fills land in
+-- mock_trades as ordinary lots. Trigger rules: _shared/restingOrders.ts
+-- ============================================================================
+
+CREATE TABLE public.resting_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  user_id uuid NOT NULL,
+  strategy_id uuid NOT NULL REFERENCES public.trading_strategies(id) ON DELETE CASCADE,
+  symbol text NOT NULL,
+  side text NOT NULL CHECK (side IN ('BUY', 'SELL')),
+  order_type text NOT NULL CHECK (order_type IN ('LIMIT', 'STOP_LOSS', 'STOP_LIMIT')),
+  amount numeric NOT NULL CHECK (amount > 0),  -- BUY: EUR to spend, SELL: base qty
+  limit_price numeric CHECK (limit_price IS NULL OR limit_price > 0),
+  stop_price numeric CHECK (stop_price IS NULL OR stop_price > 0),
+  slippage_bps int NOT NULL DEFAULT 50,
+  expires_at timestamptz,
+
+  -- Lifecycle
+  status text NOT NULL DEFAULT 'OPEN'
+    CHECK (status IN ('OPEN', 'TRIGGERED', 'FILLED', 'REJECTED', 'CANCELLED', 'EXPIRED')),
+  stop_triggered_at timestamptz,   -- STOP_LIMIT: stop crossed, waiting on limit
+  triggered_at timestamptz,
+  triggered_price numeric,
+  fire_attempts int NOT NULL DEFAULT 0,
+  -- Coordinator outcome (request_id links to decision_events for the lot)
+  coordinator_request_id text,
+  trade_id text,
+  tx_hash text,
+  decision_action text,
+  decision_reason text,
+
+  CONSTRAINT resting_orders_prices_match_type CHECK (
+    (order_type = 'LIMIT' AND limit_price IS NOT NULL)
+    OR (order_type = 'STOP_LOSS' AND stop_price IS NOT NULL)
+    OR (order_type = 'STOP_LIMIT' AND limit_price IS NOT NULL AND stop_price IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_resting_orders_status_symbol ON public.resting_orders (status, symbol);
+CREATE INDEX idx_resting_orders_user_status ON public.resting_orders (user_id, status);
+
+DROP TRIGGER IF EXISTS trg_resting_orders_updated_at ON public.resting_orders;
+CREATE TRIGGER trg_resting_orders_updated_at
+BEFORE UPDATE ON public.resting_orders
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.resting_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own resting orders"
+  ON public.resting_orders FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Users place orders on their own strategies; lifecycle columns stay server-owned
+CREATE POLICY "Users can place resting orders on their own strategies"
+  ON public.resting_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND status = 'OPEN'
+    AND stop_triggered_at IS NULL
+    AND triggered_at IS NULL
+    AND trade_id IS NULL
+    AND fire_attempts = 0
+    AND EXISTS (
+      SELECT 1 FROM public.trading_strategies s
+      WHERE s.id = strategy_id AND s.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- Cancel: only an OPEN order can be cancelled. A TRIGGERED order is already in
+-- flight at the coordinator and must resolve on its own.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.cancel_resting_order(p_order_id uuid)
+RETURNS public.resting_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row public.resting_orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.resting_orders
+  SET status = 'CANCELLED'
+  WHERE id = p_order_id
+    AND user_id = auth.uid()
+    AND status = 'OPEN'
+  RETURNING * INTO v_row;
+
+  IF v_row.id IS NULL THEN
+    RAISE EXCEPTION 'Resting order % is not open', p_order_id;
+  END IF;
+
+  RETURN v_row;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.cancel_resting_order(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_resting_order(uuid) TO authenticated;
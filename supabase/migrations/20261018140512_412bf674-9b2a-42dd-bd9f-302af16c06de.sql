@@ -0,0 +1,18 @@
+-- ============================================================
+-- SIGNAL SOURCE HEARTBEAT
+-- Every collector now runs through runSignalSource()
+-- (supabase/functions/_shared/signalSource.ts), which upserts a
+-- per-run heartbeat here. signal-ingestion-health grades all rows
+-- with the same rules (healthy / idle / stale / failing / dead).
+-- ============================================================
+
+ALTER TABLE public.signal_source_health
+  ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_run_status TEXT,
+  ADD COLUMN IF NOT EXISTS last_run_fetched INT,
+  ADD COLUMN IF NOT EXISTS last_run_inserted INT,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+INSERT INTO public.signal_source_health (source, expected_interval_seconds, status) VALUES
+  ('bigquery', 86400, 'unknown')
+ON CONFLICT (source) DO NOTHING;
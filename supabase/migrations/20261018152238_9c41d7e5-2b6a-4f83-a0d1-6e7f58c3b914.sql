@@ -0,0 +1,96 @@
+-- ============================================================
+-- EXECUTION JOB WORKER
+-- execution-job-worker drains REAL execution_jobs (today: panic
+-- liquidations) through onchain-sign-and-send. Rows get a lease,
+-- retry bookkeeping and a DEAD_LETTER state; see
+-- supabase/functions/_shared/executionJobs.ts for the lifecycle.
+-- ============================================================
+
+ALTER TABLE public.execution_jobs
+  ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INT NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS mock_trade_id UUID,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS attempt_log JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.execution_jobs DROP CONSTRAINT IF EXISTS execution_jobs_status_check;
+ALTER TABLE public.execution_jobs
+  ADD CONSTRAINT execution_jobs_status_check
+  CHECK (status IN ('READY', 'LOCKED', 'SUBMITTED', 'CONFIRMED', 'FAILED', 'DEAD_LETTER'));
+
+CREATE INDEX IF NOT EXISTS idx_execution_jobs_due
+ON public.execution_jobs(next_attempt_at)
+WHERE status IN ('READY', 'LOCKED');
+
+CREATE INDEX IF NOT EXISTS idx_execution_jobs_submitted
+ON public.execution_jobs(submitted_at)
+WHERE status = 'SUBMITTED';
+
+-- Claims due READY jobs plus LOCKED jobs whose lease lapsed (worker died
+-- mid-job). Every claim counts as an attempt.
+CREATE OR REPLACE FUNCTION public.claim_execution_jobs(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_lease_seconds integer DEFAULT 180
+)
+RETURNS SETOF public.execution_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.execution_jobs
+    WHERE execution_target = 'REAL'
+      AND (
+        (status = 'READY' AND next_attempt_at <= now())
+        OR (status = 'LOCKED' AND lease_expires_at IS NOT NULL AND lease_expires_at < now())
+      )
+    ORDER BY next_attempt_at, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT p_limit
+  )
+  UPDATE public.execution_jobs j
+  SET status = 'LOCKED',
+      locked_at = now(),
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + 1
+  FROM due
+  WHERE j.id = due.id
+  RETURNING j.*;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.claim_execution_jobs(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- Worker schedule
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'execution-job-worker-1min') THEN
+    PERFORM cron.unschedule('execution-job-worker-1min');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'execution-job-worker-1min',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/execution-job-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_1min"}'::jsonb
+  );
+  $$
+);
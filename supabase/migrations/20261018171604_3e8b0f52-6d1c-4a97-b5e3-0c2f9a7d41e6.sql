@@ -0,0 +1,184 @@
+-- ============================================================
+-- TRANSACTION MANAGER
+-- Every on-chain sender goes through _shared/txManager.ts:
+--   tx_nonces             per (chain, address) nonce reservation
+--   managed_transactions  current state of each broadcast nonce
+--   trade_events          status log (submit / replace / cancel /
+--                         mined / dropped / error), now also for
+--                         txs that have no trades row (withdrawals,
+--                         approvals, wraps)
+-- tx-manager-monitor speeds up or cancels stuck transactions.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.tx_nonces (
+  chain_id INT NOT NULL,
+  address TEXT NOT NULL,
+  next_nonce BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (chain_id, address)
+);
+
+ALTER TABLE public.tx_nonces ENABLE ROW LEVEL SECURITY;
+
+-- Next nonce for the address: never below the chain's pending count, and
+-- re-synced to it when the counter has been idle (a reserved nonce that was
+-- never broadcast would otherwise leave a gap that blocks every later tx).
+CREATE OR REPLACE FUNCTION public.reserve_tx_nonce(
+  p_chain_id integer,
+  p_address text,
+  p_chain_nonce bigint,
+  p_resync_after_seconds integer DEFAULT 120
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row public.tx_nonces;
+  v_nonce bigint;
+BEGIN
+  INSERT INTO public.tx_nonces (chain_id, address, next_nonce, updated_at)
+  VALUES (p_chain_id, lower(p_address), p_chain_nonce, now())
+  ON CONFLICT (chain_id, address) DO NOTHING;
+
+  SELECT * INTO v_row
+  FROM public.tx_nonces
+  WHERE chain_id = p_chain_id AND address = lower(p_address)
+  FOR UPDATE;
+
+  IF v_row.updated_at < now() - make_interval(secs => p_resync_after_seconds) THEN
+    v_nonce := p_chain_nonce;
+  ELSE
+    v_nonce := GREATEST(v_row.next_nonce, p_chain_nonce);
+  END IF;
+
+  UPDATE public.tx_nonces
+  SET next_nonce = v_nonce + 1,
+      updated_at = now()
+  WHERE chain_id = p_chain_id AND address = lower(p_address);
+
+  RETURN v_nonce;
+END;
+$function$;
+
+-- Hand back a nonce whose tx was never broadcast, only if nothing was
+-- reserved after it.
+CREATE OR REPLACE FUNCTION public.release_tx_nonce(
+  p_chain_id integer,
+  p_address text,
+  p_nonce bigint
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.tx_nonces
+  SET next_nonce = p_nonce,
+      updated_at = now()
+  WHERE chain_id = p_chain_id
+    AND address = lower(p_address)
+    AND next_nonce = p_nonce + 1;
+  RETURN FOUND;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.reserve_tx_nonce(integer, text, bigint, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_tx_nonce(integer, text, bigint) FROM PUBLIC, anon, authenticated;
+
+-- Wei amounts are TEXT: PostgREST returns NUMERIC as JSON numbers, which
+-- loses precision above 2^53.
+CREATE TABLE IF NOT EXISTS public.managed_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chain_id INT NOT NULL,
+  from_address TEXT NOT NULL,
+  nonce BIGINT NOT NULL,
+  kind TEXT NOT NULL,
+  signer_kind TEXT NOT NULL CHECK (signer_kind IN ('system', 'execution_wallet', 'external')),
+  wallet_id UUID,
+  user_id UUID,
+  trade_id UUID,
+  to_address TEXT NOT NULL,
+  data TEXT NOT NULL DEFAULT '0x',
+  value_wei TEXT NOT NULL DEFAULT '0',
+  gas_limit TEXT NOT NULL,
+  max_fee_per_gas TEXT NOT NULL,
+  max_priority_fee_per_gas TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  tx_hashes TEXT[] NOT NULL DEFAULT '{}',
+  cancel_tx_hashes TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'MINED', 'REVERTED', 'DROPPED', 'CANCELLED')),
+  replacement_count INT NOT NULL DEFAULT 0,
+  mined_tx_hash TEXT,
+  block_number BIGINT,
+  last_error TEXT,
+  last_broadcast_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  mined_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One live tx per nonce; a dropped nonce may be reused later
+CREATE UNIQUE INDEX IF NOT EXISTS idx_managed_transactions_pending_nonce
+ON public.managed_transactions(chain_id, from_address, nonce)
+WHERE status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_managed_transactions_pending
+ON public.managed_transactions(last_broadcast_at)
+WHERE status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_managed_transactions_user
+ON public.managed_transactions(user_id, created_at DESC);
+
+ALTER TABLE public.managed_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own managed transactions"
+ON public.managed_transactions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_managed_transactions_updated_at
+BEFORE UPDATE ON public.managed_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- trade_events: tx-level status for sends without a trades row.
+-- phase now also covers replace|cancel|dropped|reverted|cancelled.
+ALTER TABLE public.trade_events
+  ALTER COLUMN trade_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS chain_id INT,
+  ADD COLUMN IF NOT EXISTS from_address TEXT,
+  ADD COLUMN IF NOT EXISTS nonce BIGINT;
+
+CREATE INDEX IF NOT EXISTS trade_events_tx_hash
+ON public.trade_events(tx_hash)
+WHERE tx_hash IS NOT NULL;
+
+-- ============================================================================
+-- Monitor schedule
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'tx-manager-monitor-1min') THEN
+    PERFORM cron.unschedule('tx-manager-monitor-1min');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'tx-manager-monitor-1min',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/tx-manager-monitor',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_1min"}'::jsonb
+  );
+  $$
+);
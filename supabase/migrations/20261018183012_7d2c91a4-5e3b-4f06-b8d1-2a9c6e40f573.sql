@@ -0,0 +1,58 @@
+-- ============================================================
+-- KNOWLEDGE RETRIEVAL
+-- knowledge-collector now chunks and embeds every document it
+-- stores (_shared/knowledgeEmbeddings.ts); ai-trading-assistant
+-- retrieves matching chunks and cites their documents.
+-- ============================================================
+
+-- Which provider/model produced the vector; similarity is only
+-- meaningful between vectors of the same model.
+ALTER TABLE public.knowledge_embeddings
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+-- Re-indexing a document replaces its chunks one-for-one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_knowledge_embeddings_document_chunk
+  ON public.knowledge_embeddings(document_id, chunk_index);
+
+-- Nearest chunks of the user's own documents by cosine similarity.
+-- SECURITY INVOKER: callers with a user JWT are still bound by the RLS
+-- policies on knowledge_documents / knowledge_embeddings.
+CREATE OR REPLACE FUNCTION public.match_knowledge_embeddings(
+  query_embedding vector(1536),
+  p_user_id uuid,
+  p_embedding_model text,
+  match_count integer DEFAULT 6,
+  min_similarity double precision DEFAULT 0.25
+)
+RETURNS TABLE (
+  embedding_id uuid,
+  document_id uuid,
+  source_id uuid,
+  chunk_index integer,
+  title text,
+  content text,
+  metadata jsonb,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    e.id,
+    e.document_id,
+    d.source_id,
+    e.chunk_index,
+    d.title,
+    e.content,
+    d.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM public.knowledge_embeddings e
+  JOIN public.knowledge_documents d ON d.id = e.document_id
+  WHERE d.user_id = p_user_id
+    AND e.embedding_model = p_embedding_model
+    AND e.embedding IS NOT NULL
+    AND 1 - (e.embedding <=> query_embedding) >= min_similarity
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$function$;
@@ -0,0 +1,41 @@
+-- ============================================================
+-- STREAMED PRICES
+-- price-stream holds a Coinbase websocket session every minute
+-- and writes price_snapshots every few seconds, with top of book.
+-- price-snapshot-refresh keeps writing REST prices as fallback.
+-- ============================================================
+
+ALTER TABLE public.price_snapshots
+  ADD COLUMN IF NOT EXISTS bid numeric(38,18),
+  ADD COLUMN IF NOT EXISTS ask numeric(38,18),
+  ADD COLUMN IF NOT EXISTS source text;
+
+COMMENT ON COLUMN public.price_snapshots.source IS
+  'coinbase_ws (price-stream) or NULL (REST writers); bid/ask only set by price-stream';
+
+-- ============================================================================
+-- Stream schedule: one ~55s session per minute
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'price-stream-1min') THEN
+    PERFORM cron.unschedule('price-stream-1min');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'price-stream-1min',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/price-stream',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_1min"}'::jsonb,
+    timeout_milliseconds := 70000
+  );
+  $$
+);
@@ -0,0 +1,81 @@
+-- ============================================================
+-- ORDER BOOK DEPTH
+-- order-book-collector snapshots the Coinbase level-2 book every
+-- minute (spread, depth at ±10/25/50 bps, imbalance). The
+-- coordinator's spread / liquidity gates and execution_quality_log
+-- read the latest row; history is kept 90 days for calibration.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.order_book_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol TEXT NOT NULL,
+  ts TIMESTAMPTZ NOT NULL,
+  best_bid NUMERIC(38,18) NOT NULL,
+  best_ask NUMERIC(38,18) NOT NULL,
+  mid NUMERIC(38,18) NOT NULL,
+  spread_bps NUMERIC NOT NULL,
+  -- EUR notional resting within N bps of mid
+  bid_depth_10bps NUMERIC NOT NULL,
+  ask_depth_10bps NUMERIC NOT NULL,
+  bid_depth_25bps NUMERIC NOT NULL,
+  ask_depth_25bps NUMERIC NOT NULL,
+  bid_depth_50bps NUMERIC NOT NULL,
+  ask_depth_50bps NUMERIC NOT NULL,
+  -- (bid - ask) / (bid + ask) depth within 25 bps, -1..1
+  imbalance NUMERIC NOT NULL,
+  bid_levels INTEGER NOT NULL,
+  ask_levels INTEGER NOT NULL,
+  -- REST book ended inside ±50 bps: the 50 bps depth is a lower bound
+  depth_truncated BOOLEAN NOT NULL DEFAULT false,
+  source TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (symbol, ts)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_book_snapshots_symbol_ts
+  ON public.order_book_snapshots(symbol, ts DESC);
+CREATE INDEX IF NOT EXISTS idx_order_book_snapshots_ts
+  ON public.order_book_snapshots(ts);
+
+ALTER TABLE public.order_book_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Market data, same visibility as price_snapshots
+CREATE POLICY "order_book_snapshots_read"
+  ON public.order_book_snapshots FOR SELECT
+  USING (true);
+
+-- Which book an execution was measured against
+ALTER TABLE public.execution_quality_log
+  ADD COLUMN IF NOT EXISTS order_book_snapshot_id UUID REFERENCES public.order_book_snapshots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS depth_ratio NUMERIC;
+
+COMMENT ON COLUMN public.execution_quality_log.market_depth IS
+  'EUR depth within 25 bps on the side the order took (asks for buys, bids for sells)';
+COMMENT ON COLUMN public.execution_quality_log.depth_ratio IS
+  'market_depth / order notional at decision time';
+
+-- ============================================================================
+-- Collector schedule
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'order-book-collector-1min') THEN
+    PERFORM cron.unschedule('order-book-collector-1min');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'order-book-collector-1min',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/order-book-collector',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_1min"}'::jsonb
+  );
+  $$
+);
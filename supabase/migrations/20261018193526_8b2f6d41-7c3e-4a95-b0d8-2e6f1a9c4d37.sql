@@ -0,0 +1,17 @@
+-- ============================================================
+-- VOLATILITY REGIME
+-- features-refresh labels every market_features_v0 row
+-- (_shared/volatilityRegime.ts). The coordinator reads the latest
+-- 5m label for TP/SL scaling, decision metadata and
+-- execution_quality_log.volatility_regime.
+-- ============================================================
+
+ALTER TABLE public.market_features_v0
+  ADD COLUMN IF NOT EXISTS volatility_regime text
+  CHECK (volatility_regime IN ('low_vol_range', 'trend_up', 'trend_down', 'high_vol_shock'));
+
+COMMENT ON COLUMN public.market_features_v0.volatility_regime IS
+  'low_vol_range | trend_up | trend_down | high_vol_shock; NULL when vol_* is not available yet';
+
+COMMENT ON COLUMN public.execution_quality_log.volatility_regime IS
+  'Latest 5m market_features_v0.volatility_regime at decision time';
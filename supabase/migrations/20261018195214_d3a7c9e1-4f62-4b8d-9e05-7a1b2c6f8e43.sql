@@ -0,0 +1,365 @@
+-- ============================================================
+-- STRATEGY CONFIG VERSIONS
+-- Every change to trading_strategies.configuration or to the
+-- strategy's strategy_parameters rows is snapshotted into an
+-- immutable, numbered version with who made it (actor), why
+-- (reason) and the calibration suggestion that triggered it.
+--
+-- Versions are written by deferred constraint triggers, so one
+-- transaction produces at most one version and plain UI updates
+-- are covered too (actor 'user'). Writers that want to record an
+-- actor / reason go through apply_strategy_config_change /
+-- apply_strategy_parameter_change, which set the transaction-local
+-- app.config_* settings read by record_strategy_config_version.
+--
+-- decision_events.config_version_id tags every decision with the
+-- version that was current when the coordinator loaded the strategy.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.strategy_config_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  strategy_id UUID NOT NULL REFERENCES public.trading_strategies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  version_no INTEGER NOT NULL,
+  configuration JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- symbol -> { tp_pct, sl_pct, min_confidence, technical_weight, ai_weight }
+  symbol_parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor TEXT NOT NULL CHECK (actor IN ('user', 'optimizer', 'assistant', 'system', 'rollback')),
+  reason TEXT,
+  suggestion_id UUID REFERENCES public.calibration_suggestions(id) ON DELETE SET NULL,
+  rolled_back_from UUID REFERENCES public.strategy_config_versions(id) ON DELETE SET NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (strategy_id, version_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_config_versions_strategy
+  ON public.strategy_config_versions(strategy_id, version_no DESC);
+CREATE INDEX IF NOT EXISTS idx_strategy_config_versions_user
+  ON public.strategy_config_versions(user_id, created_at DESC);
+
+ALTER TABLE public.strategy_config_versions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for owners; rows are only written by record_strategy_config_version
+CREATE POLICY "Users can view their own strategy config versions"
+  ON public.strategy_config_versions
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all strategy config versions"
+  ON public.strategy_config_versions
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.prevent_strategy_config_version_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'strategy_config_versions rows are immutable';
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS strategy_config_versions_immutable ON public.strategy_config_versions;
+CREATE TRIGGER strategy_config_versions_immutable
+  BEFORE UPDATE ON public.strategy_config_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_strategy_config_version_update();
+
+-- Not a foreign key: versions cascade away with the strategy itself
+ALTER TABLE public.trading_strategies
+  ADD COLUMN IF NOT EXISTS current_config_version_id UUID;
+
+ALTER TABLE public.decision_events
+  ADD COLUMN IF NOT EXISTS config_version_id UUID REFERENCES public.strategy_config_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_decision_events_config_version
+  ON public.decision_events(config_version_id)
+  WHERE config_version_id IS NOT NULL;
+
+COMMENT ON COLUMN public.trading_strategies.current_config_version_id IS
+  'strategy_config_versions row matching the current configuration + strategy_parameters';
+COMMENT ON COLUMN public.decision_events.config_version_id IS
+  'Strategy config version that was current when the coordinator made the decision';
+
+-- ============================================================================
+-- Snapshot
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.record_strategy_config_version(p_strategy_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_strategy public.trading_strategies;
+  v_params jsonb;
+  v_latest public.strategy_config_versions;
+  v_actor text := nullif(current_setting('app.config_actor', true), '');
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_strategy
+  FROM public.trading_strategies
+  WHERE id = p_strategy_id
+  FOR UPDATE;
+
+  -- Strategy deleted in the same transaction
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(symbol, jsonb_build_object(
+           'tp_pct', tp_pct,
+           'sl_pct', sl_pct,
+           'min_confidence', min_confidence,
+           'technical_weight', technical_weight,
+           'ai_weight', ai_weight
+         )), '{}'::jsonb)
+  INTO v_params
+  FROM public.strategy_parameters
+  WHERE strategy_id = p_strategy_id;
+
+  SELECT * INTO v_latest
+  FROM public.strategy_config_versions
+  WHERE strategy_id = p_strategy_id
+  ORDER BY version_no DESC
+  LIMIT 1;
+
+  IF FOUND
+     AND v_latest.configuration = COALESCE(v_strategy.configuration, '{}'::jsonb)
+     AND v_latest.symbol_parameters = v_params THEN
+    RETURN v_latest.id;
+  END IF;
+
+  INSERT INTO public.strategy_config_versions (
+    strategy_id, user_id, version_no, configuration, symbol_parameters,
+    actor, reason, suggestion_id, rolled_back_from, created_by
+  ) VALUES (
+    p_strategy_id,
+    v_strategy.user_id,
+    COALESCE(v_latest.version_no, 0) + 1,
+    COALESCE(v_strategy.configuration, '{}'::jsonb),
+    v_params,
+    COALESCE(v_actor, CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END),
+    nullif(current_setting('app.config_reason', true), ''),
+    nullif(current_setting('app.config_suggestion_id', true), '')::uuid,
+    nullif(current_setting('app.config_rolled_back_from', true), '')::uuid,
+    auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  UPDATE public.trading_strategies
+  SET current_config_version_id = v_id
+  WHERE id = p_strategy_id;
+
+  RETURN v_id;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_strategy_config_version(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.trg_record_strategy_config_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_TABLE_NAME = 'trading_strategies' THEN
+    PERFORM public.record_strategy_config_version(COALESCE(NEW.id, OLD.id));
+  ELSE
+    PERFORM public.record_strategy_config_version(COALESCE(NEW.strategy_id, OLD.strategy_id));
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+-- Deferred: runs at commit, after every statement of the transaction, so a
+-- config + parameter change lands as one version (later calls dedupe)
+DROP TRIGGER IF EXISTS record_config_version_strategies ON public.trading_strategies;
+CREATE CONSTRAINT TRIGGER record_config_version_strategies
+  AFTER INSERT OR UPDATE OF configuration ON public.trading_strategies
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.trg_record_strategy_config_version();
+
+DROP TRIGGER IF EXISTS record_config_version_parameters ON public.strategy_parameters;
+CREATE CONSTRAINT TRIGGER record_config_version_parameters
+  AFTER INSERT OR UPDATE OR DELETE ON public.strategy_parameters
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.trg_record_strategy_config_version();
+
+-- ============================================================================
+-- Attributed writes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.set_strategy_config_change_context(
+  p_actor text,
+  p_reason text DEFAULT NULL,
+  p_suggestion_id uuid DEFAULT NULL,
+  p_rolled_back_from uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF p_actor NOT IN ('user', 'optimizer', 'assistant', 'system', 'rollback') THEN
+    RAISE EXCEPTION 'invalid config change actor: %', p_actor;
+  END IF;
+  PERFORM set_config('app.config_actor', p_actor, true);
+  PERFORM set_config('app.config_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('app.config_suggestion_id', COALESCE(p_suggestion_id::text, ''), true);
+  PERFORM set_config('app.config_rolled_back_from', COALESCE(p_rolled_back_from::text, ''), true);
+END;
+$function$;
+
+-- SECURITY INVOKER: RLS on trading_strategies still applies to user callers
+CREATE OR REPLACE FUNCTION public.apply_strategy_config_change(
+  p_strategy_id uuid,
+  p_configuration jsonb,
+  p_actor text,
+  p_reason text DEFAULT NULL,
+  p_suggestion_id uuid DEFAULT NULL
+)
+RETURNS public.trading_strategies
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row public.trading_strategies;
+BEGIN
+  PERFORM public.set_strategy_config_change_context(p_actor, p_reason, p_suggestion_id);
+
+  UPDATE public.trading_strategies
+  SET configuration = p_configuration,
+      updated_at = now()
+  WHERE id = p_strategy_id
+  RETURNING * INTO v_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'strategy % not found', p_strategy_id;
+  END IF;
+
+  RETURN v_row;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.apply_strategy_parameter_change(
+  p_strategy_id uuid,
+  p_symbol text,
+  p_changes jsonb,
+  p_actor text,
+  p_reason text DEFAULT NULL,
+  p_suggestion_id uuid DEFAULT NULL
+)
+RETURNS public.strategy_parameters
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row public.strategy_parameters;
+BEGIN
+  PERFORM public.set_strategy_config_change_context(p_actor, p_reason, p_suggestion_id);
+
+  UPDATE public.strategy_parameters
+  SET tp_pct = COALESCE((p_changes->>'tp_pct')::numeric, tp_pct),
+      sl_pct = COALESCE((p_changes->>'sl_pct')::numeric, sl_pct),
+      min_confidence = COALESCE((p_changes->>'min_confidence')::numeric, min_confidence),
+      metadata = COALESCE(p_changes->'metadata', metadata),
+      last_updated_by = COALESCE(p_changes->>'last_updated_by', last_updated_by),
+      updated_at = now()
+  WHERE strategy_id = p_strategy_id
+    AND symbol = p_symbol
+  RETURNING * INTO v_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'no_strategy_parameters_row';
+  END IF;
+
+  RETURN v_row;
+END;
+$function$;
+
+-- ============================================================================
+-- Rollback: restore a version's configuration and symbol parameters. The
+-- restore itself becomes a new version (actor 'rollback'), so history is
+-- never rewritten.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.rollback_strategy_config(
+  p_version_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_version public.strategy_config_versions;
+  v_symbol text;
+  v_params jsonb;
+BEGIN
+  SELECT * INTO v_version
+  FROM public.strategy_config_versions
+  WHERE id = p_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'config version % not found', p_version_id;
+  END IF;
+
+  -- Service role (no auth.uid()) may roll back any strategy
+  IF auth.uid() IS NOT NULL AND v_version.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'not allowed to roll back this strategy';
+  END IF;
+
+  PERFORM public.set_strategy_config_change_context(
+    'rollback',
+    COALESCE(p_reason, format('Rollback to version %s', v_version.version_no)),
+    NULL,
+    v_version.id
+  );
+
+  UPDATE public.trading_strategies
+  SET configuration = v_version.configuration,
+      updated_at = now()
+  WHERE id = v_version.strategy_id;
+
+  DELETE FROM public.strategy_parameters
+  WHERE strategy_id = v_version.strategy_id
+    AND NOT (v_version.symbol_parameters ? symbol);
+
+  FOR v_symbol, v_params IN SELECT * FROM jsonb_each(v_version.symbol_parameters) LOOP
+    INSERT INTO public.strategy_parameters (
+      user_id, strategy_id, symbol, tp_pct, sl_pct, min_confidence,
+      technical_weight, ai_weight, last_updated_by
+    ) VALUES (
+      v_version.user_id,
+      v_version.strategy_id,
+      v_symbol,
+      (v_params->>'tp_pct')::numeric,
+      (v_params->>'sl_pct')::numeric,
+      (v_params->>'min_confidence')::numeric,
+      (v_params->>'technical_weight')::numeric,
+      (v_params->>'ai_weight')::numeric,
+      'rollback'
+    )
+    ON CONFLICT (strategy_id, symbol) DO UPDATE
+    SET tp_pct = EXCLUDED.tp_pct,
+        sl_pct = EXCLUDED.sl_pct,
+        min_confidence = EXCLUDED.min_confidence,
+        technical_weight = EXCLUDED.technical_weight,
+        ai_weight = EXCLUDED.ai_weight,
+        last_updated_by = 'rollback',
+        updated_at = now();
+  END LOOP;
+
+  -- Record now rather than at commit so the caller gets the new version id
+  RETURN public.record_strategy_config_version(v_version.strategy_id);
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.rollback_strategy_config(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rollback_strategy_config(uuid, text) TO authenticated, service_role;
+
+-- ============================================================================
+-- Baseline: version 1 for every existing strategy
+-- ============================================================================
+SELECT public.set_strategy_config_change_context('system', 'Baseline when config versioning was enabled');
+SELECT public.record_strategy_config_version(id) FROM public.trading_strategies;
@@ -0,0 +1,159 @@
+-- ============================================================
+-- STRATEGY EXPERIMENTS (A/B)
+-- A control and a variant MOCK strategy run side by side on the
+-- same signal stream, with entries split by symbol or by time
+-- slot (see _shared/strategyExperiments.ts). The coordinator
+-- enforces the split; strategy-experiment-evaluator compares the
+-- arms' closed trades hourly and completes the experiment when
+-- the primary metric is significant or max_duration_days passes.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.strategy_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  hypothesis TEXT,
+  control_strategy_id UUID NOT NULL REFERENCES public.trading_strategies(id) ON DELETE CASCADE,
+  variant_strategy_id UUID NOT NULL REFERENCES public.trading_strategies(id) ON DELETE CASCADE,
+  split_mode TEXT NOT NULL CHECK (split_mode IN ('symbol', 'time')),
+  -- { control_symbols?, variant_symbols? } | { slot_minutes? }
+  split_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  primary_metric TEXT NOT NULL DEFAULT 'pnl' CHECK (primary_metric IN ('pnl', 'win_rate')),
+  alpha NUMERIC NOT NULL DEFAULT 0.01 CHECK (alpha > 0 AND alpha < 0.5),
+  min_trades_per_arm INTEGER NOT NULL DEFAULT 30 CHECK (min_trades_per_arm >= 5),
+  max_duration_days INTEGER NOT NULL DEFAULT 30 CHECK (max_duration_days BETWEEN 1 AND 365),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'stopped')),
+  winner TEXT CHECK (winner IN ('control', 'variant', 'inconclusive')),
+  stopped_reason TEXT,
+  -- Latest ExperimentEvaluation (arm summaries + intervals)
+  result JSONB,
+  last_evaluated_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (control_strategy_id <> variant_strategy_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_experiments_user_status
+  ON public.strategy_experiments(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_strategy_experiments_running
+  ON public.strategy_experiments(status)
+  WHERE status = 'running';
+
+ALTER TABLE public.strategy_experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own experiments"
+  ON public.strategy_experiments
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own experiments"
+  ON public.strategy_experiments
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own experiments"
+  ON public.strategy_experiments
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER set_updated_at_strategy_experiments
+  BEFORE UPDATE ON public.strategy_experiments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- Start: both arms must be the caller's MOCK strategies and not already in a
+-- running experiment; both are activated so the engine evaluates them.
+-- SECURITY INVOKER: RLS on trading_strategies / strategy_experiments applies.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.start_strategy_experiment(
+  p_name text,
+  p_control_strategy_id uuid,
+  p_variant_strategy_id uuid,
+  p_split_mode text,
+  p_split_config jsonb DEFAULT '{}'::jsonb,
+  p_primary_metric text DEFAULT 'pnl',
+  p_alpha numeric DEFAULT 0.01,
+  p_min_trades_per_arm integer DEFAULT 30,
+  p_max_duration_days integer DEFAULT 30,
+  p_hypothesis text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user uuid := auth.uid();
+  v_arms integer;
+  v_id uuid;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_arms
+  FROM public.trading_strategies
+  WHERE id IN (p_control_strategy_id, p_variant_strategy_id)
+    AND user_id = v_user
+    AND COALESCE(execution_target, 'MOCK') = 'MOCK';
+
+  IF v_arms <> 2 THEN
+    RAISE EXCEPTION 'both arms must be your own MOCK strategies';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.strategy_experiments
+    WHERE status = 'running'
+      AND (control_strategy_id IN (p_control_strategy_id, p_variant_strategy_id)
+        OR variant_strategy_id IN (p_control_strategy_id, p_variant_strategy_id))
+  ) THEN
+    RAISE EXCEPTION 'a strategy can only be in one running experiment';
+  END IF;
+
+  INSERT INTO public.strategy_experiments (
+    user_id, name, hypothesis, control_strategy_id, variant_strategy_id,
+    split_mode, split_config, primary_metric, alpha, min_trades_per_arm, max_duration_days
+  ) VALUES (
+    v_user, p_name, p_hypothesis, p_control_strategy_id, p_variant_strategy_id,
+    p_split_mode, COALESCE(p_split_config, '{}'::jsonb), p_primary_metric, p_alpha,
+    p_min_trades_per_arm, p_max_duration_days
+  )
+  RETURNING id INTO v_id;
+
+  UPDATE public.trading_strategies
+  SET is_active = true,
+      state = 'ACTIVE',
+      updated_at = now()
+  WHERE id IN (p_control_strategy_id, p_variant_strategy_id);
+
+  RETURN v_id;
+END;
+$function$;
+
+-- ============================================================================
+-- Evaluator schedule
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'strategy-experiment-evaluator-hourly') THEN
+    PERFORM cron.unschedule('strategy-experiment-evaluator-hourly');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'strategy-experiment-evaluator-hourly',
+  '7 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/strategy-experiment-evaluator',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_hourly"}'::jsonb
+  );
+  $$
+);
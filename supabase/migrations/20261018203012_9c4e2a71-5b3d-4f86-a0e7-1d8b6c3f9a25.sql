@@ -0,0 +1,247 @@
+-- ============================================================
+-- PAPER-TO-LIVE PROMOTION GATE
+-- A MOCK strategy is copied to LIVE only through the
+-- strategy-promotion edge function, which evaluates the
+-- checklist server-side (see _shared/promotionGate.ts) and
+-- stores an HMAC-signed report. promote_strategy_to_live now
+-- requires a fresh, passed, unused report and is service-role
+-- only; users can no longer set execution_target = 'REAL'
+-- themselves. The same function demotes promoted strategies
+-- hourly when live results fall far behind paper.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.strategy_promotion_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('promotion', 'demotion')),
+  -- promotion: the MOCK source; demotion: the LIVE strategy
+  strategy_id UUID NOT NULL REFERENCES public.trading_strategies(id) ON DELETE CASCADE,
+  -- demotion: the promotion report whose paper stats were compared
+  promotion_report_id UUID REFERENCES public.strategy_promotion_reports(id) ON DELETE SET NULL,
+  -- promotion: the LIVE strategy created from this report (set once)
+  live_strategy_id UUID REFERENCES public.trading_strategies(id) ON DELETE SET NULL,
+  passed BOOLEAN NOT NULL,
+  checks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  thresholds JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Hex HMAC over the canonical JSON of every column except
+  -- live_strategy_id, signature and signature_alg
+  signature TEXT NOT NULL,
+  signature_alg TEXT NOT NULL DEFAULT 'HMAC-SHA256',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_promotion_reports_strategy
+  ON public.strategy_promotion_reports(strategy_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_strategy_promotion_reports_live
+  ON public.strategy_promotion_reports(live_strategy_id)
+  WHERE kind = 'promotion' AND live_strategy_id IS NOT NULL;
+
+ALTER TABLE public.strategy_promotion_reports ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only
+CREATE POLICY "Users can view their own promotion reports"
+  ON public.strategy_promotion_reports
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all promotion reports"
+  ON public.strategy_promotion_reports
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Signed rows never change; only the LIVE strategy link is filled in once
+CREATE OR REPLACE FUNCTION public.prevent_strategy_promotion_report_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF OLD.live_strategy_id IS NULL
+     AND NEW.live_strategy_id IS NOT NULL
+     AND (to_jsonb(NEW) - 'live_strategy_id') = (to_jsonb(OLD) - 'live_strategy_id') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'strategy_promotion_reports rows are immutable';
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS strategy_promotion_reports_immutable ON public.strategy_promotion_reports;
+CREATE TRIGGER strategy_promotion_reports_immutable
+  BEFORE UPDATE ON public.strategy_promotion_reports
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_strategy_promotion_report_update();
+
+-- ============================================================================
+-- Users cannot switch a strategy to REAL directly
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enforce_live_promotion_gate()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF NEW.execution_target = 'REAL'
+     AND (TG_OP = 'INSERT' OR OLD.execution_target IS DISTINCT FROM 'REAL')
+     AND COALESCE(auth.role(), '') IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'LIVE strategies are created through the promotion gate (strategy-promotion)';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trading_strategies_live_promotion_gate ON public.trading_strategies;
+CREATE TRIGGER trading_strategies_live_promotion_gate
+  BEFORE INSERT OR UPDATE OF execution_target ON public.trading_strategies
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_live_promotion_gate();
+
+-- ============================================================================
+-- promote_strategy_to_live: requires a passed promotion report
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.promote_strategy_to_live(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.promote_strategy_to_live(
+  p_strategy_id UUID,
+  p_user_id UUID,
+  p_report_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_source RECORD;
+  v_report RECORD;
+  v_new_id UUID;
+  v_new_name TEXT;
+BEGIN
+  SELECT * INTO v_report
+  FROM strategy_promotion_reports
+  WHERE id = p_report_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR v_report.kind <> 'promotion'
+     OR v_report.user_id <> p_user_id
+     OR v_report.strategy_id <> p_strategy_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'promotion_report_not_found');
+  END IF;
+
+  IF NOT v_report.passed THEN
+    RETURN jsonb_build_object('success', false, 'error', 'promotion_gate_failed');
+  END IF;
+
+  IF v_report.live_strategy_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'promotion_report_used');
+  END IF;
+
+  IF v_report.created_at < now() - interval '15 minutes' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'promotion_report_expired');
+  END IF;
+
+  SELECT * INTO v_source
+  FROM trading_strategies
+  WHERE id = p_strategy_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'strategy_not_found');
+  END IF;
+
+  IF v_source.execution_target IS DISTINCT FROM 'MOCK' AND v_source.test_mode IS NOT TRUE THEN
+    RETURN jsonb_build_object('success', false, 'error', 'source_must_be_mock');
+  END IF;
+
+  v_new_name := v_source.strategy_name || ' (LIVE)';
+
+  WHILE EXISTS (
+    SELECT 1 FROM trading_strategies
+    WHERE user_id = p_user_id AND strategy_name = v_new_name
+  ) LOOP
+    v_new_name := v_new_name || '_' || substr(gen_random_uuid()::text, 1, 4);
+  END LOOP;
+
+  INSERT INTO trading_strategies (
+    user_id,
+    strategy_name,
+    description,
+    configuration,
+    unified_config,
+    execution_target,
+    test_mode,
+    is_active,
+    is_active_test,
+    is_active_live,
+    state,
+    chain_id,
+    slippage_bps_default,
+    preferred_providers,
+    mev_policy,
+    max_gas_cost_pct,
+    max_price_impact_bps,
+    max_quote_age_ms,
+    on_disable_policy,
+    panic_active
+  )
+  VALUES (
+    p_user_id,
+    v_new_name,
+    COALESCE(v_source.description, '') || ' [Promoted from MOCK]',
+    v_source.configuration,
+    v_source.unified_config,
+    'REAL',
+    false,
+    false,  -- is_active = false (must be explicitly activated)
+    false,
+    false,  -- is_active_live = false (must be explicitly activated)
+    'PAUSED',
+    v_source.chain_id,
+    v_source.slippage_bps_default,
+    v_source.preferred_providers,
+    v_source.mev_policy,
+    v_source.max_gas_cost_pct,
+    v_source.max_price_impact_bps,
+    v_source.max_quote_age_ms,
+    'MANAGE_ONLY',
+    false
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE strategy_promotion_reports
+  SET live_strategy_id = v_new_id
+  WHERE id = p_report_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'new_strategy_id', v_new_id,
+    'new_strategy_name', v_new_name,
+    'source_strategy_id', p_strategy_id
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.promote_strategy_to_live(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_strategy_to_live(UUID, UUID, UUID) TO service_role;
+
+-- ============================================================================
+-- Demotion schedule
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'strategy-promotion-demotion-hourly') THEN
+    PERFORM cron.unschedule('strategy-promotion-demotion-hourly');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'strategy-promotion-demotion-hourly',
+  '17 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/strategy-promotion',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_hourly"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,61 @@
+-- ============================================================
+-- LLM PROVIDER LAYER
+-- Every edge function that calls a language model goes through
+-- _shared/llm.ts, which reads the active llm_configurations row
+-- (openai | anthropic | local OpenAI-compatible endpoint) and
+-- writes one llm_usage row per call with token counts and an
+-- estimated USD cost, attributed to the calling user.
+-- ============================================================
+
+ALTER TABLE public.llm_configurations
+  ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+-- 'google' was selectable in LLMConfigPanel but never served; the
+-- Claude entries stored display aliases rather than API model ids
+UPDATE public.llm_configurations
+  SET provider = 'openai', model = 'gpt-4o-mini'
+  WHERE provider NOT IN ('openai', 'anthropic', 'local');
+UPDATE public.llm_configurations SET model = 'claude-3-5-haiku-latest' WHERE model = 'claude-3-haiku';
+UPDATE public.llm_configurations SET model = 'claude-3-5-sonnet-latest' WHERE model = 'claude-3-sonnet';
+
+ALTER TABLE public.llm_configurations
+  DROP CONSTRAINT IF EXISTS llm_configurations_provider_check;
+ALTER TABLE public.llm_configurations
+  ADD CONSTRAINT llm_configurations_provider_check
+  CHECK (provider IN ('openai', 'anthropic', 'local'));
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL for calls made outside a user request
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  -- Structured calls count every schema retry in one row
+  attempts INTEGER NOT NULL DEFAULT 1,
+  structured BOOLEAN NOT NULL DEFAULT false,
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created
+  ON public.llm_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created
+  ON public.llm_usage(created_at DESC);
+
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Written by edge functions with the service role only
+CREATE POLICY "Users can view their own LLM usage"
+  ON public.llm_usage
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all LLM usage"
+  ON public.llm_usage
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,28 @@
+-- ============================================================
+-- IN-PROCESS ML MODELS
+-- backend-shadow-engine scores ml_shadow with a model bundle
+-- read from this private bucket (ML_MODEL_PATH, default
+-- shadow/current.json; format in _shared/mlInference.ts). The
+-- Railway /predict service is only called when the bundle is
+-- missing or fails. Edge functions read it with the service
+-- role; admins upload new bundles.
+-- ============================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ml-models', 'ml-models', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can read ML models"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'ml-models' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can upload ML models"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'ml-models' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can replace ML models"
+  ON storage.objects
+  FOR UPDATE
+  USING (bucket_id = 'ml-models' AND public.has_role(auth.uid(), 'admin'::app_role));
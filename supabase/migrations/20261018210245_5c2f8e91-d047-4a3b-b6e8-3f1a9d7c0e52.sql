@@ -0,0 +1,51 @@
+-- ============================================================
+-- TRAINING DATASET REGISTRY
+-- training-dataset-export joins decision_snapshots (features)
+-- with decision_outcomes (labels) per horizon, point-in-time
+-- correct, and writes train.csv / validation.csv / manifest.json
+-- to the training-datasets bucket under <id>/. Each export is
+-- one row here; the manifest (columns, split boundary, dropped
+-- row counts, leakage sample) is copied into the row.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.training_datasets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  horizon TEXT NOT NULL,
+  -- Only decisions whose label window closed by as_of are included
+  as_of TIMESTAMPTZ NOT NULL,
+  from_ts TIMESTAMPTZ,
+  validation_fraction NUMERIC NOT NULL CHECK (validation_fraction >= 0 AND validation_fraction < 1),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  train_rows INTEGER,
+  validation_rows INTEGER,
+  split_ts TIMESTAMPTZ,
+  -- { immature, leakage, no_snapshot, purged }
+  dropped JSONB,
+  manifest_path TEXT,
+  manifest JSONB,
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_training_datasets_horizon_created
+  ON public.training_datasets(horizon, created_at DESC);
+
+ALTER TABLE public.training_datasets ENABLE ROW LEVEL SECURITY;
+
+-- Written by training-dataset-export with the service role only
+CREATE POLICY "Admins can view training datasets"
+  ON public.training_datasets
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('training-datasets', 'training-datasets', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can download training datasets"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'training-datasets' AND public.has_role(auth.uid(), 'admin'::app_role));
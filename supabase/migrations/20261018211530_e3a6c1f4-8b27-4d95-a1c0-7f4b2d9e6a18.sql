@@ -0,0 +1,177 @@
+-- ============================================================
+-- ML MODEL REGISTRY (champion / challenger / shadow)
+-- Every model bundle in the ml-models bucket is registered
+-- here with its training dataset, offline metrics and its own
+-- signal threshold. backend-shadow-engine scores all active
+-- models on each entry; the single champion gates entries
+-- (ML_SIGNAL_THRESHOLD only applies while none is registered).
+-- ml-model-evaluation refreshes online_metrics hourly from
+-- decision_outcomes. promote_ml_model swaps the champion and
+-- records the change in ml_model_promotions.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.ml_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  version TEXT NOT NULL,
+  -- Object path in the ml-models bucket (bundle format: _shared/mlInference.ts)
+  storage_path TEXT NOT NULL,
+  dataset_id UUID REFERENCES public.training_datasets(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'shadow' CHECK (status IN ('shadow', 'challenger', 'champion', 'retired')),
+  signal_threshold NUMERIC NOT NULL DEFAULT 0.94 CHECK (signal_threshold > 0 AND signal_threshold < 1),
+  -- Validation-set metrics reported by the training run (auc, precision, recall, ...)
+  offline_metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Written by ml-model-evaluation (see ModelOnlineMetrics)
+  online_metrics JSONB,
+  online_metrics_at TIMESTAMPTZ,
+  notes TEXT,
+  promoted_at TIMESTAMPTZ,
+  promoted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (name, version)
+);
+
+-- At most one champion
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ml_models_single_champion
+  ON public.ml_models(status)
+  WHERE status = 'champion';
+
+CREATE INDEX IF NOT EXISTS idx_ml_models_status
+  ON public.ml_models(status, created_at);
+
+DROP TRIGGER IF EXISTS update_ml_models_updated_at ON public.ml_models;
+CREATE TRIGGER update_ml_models_updated_at
+  BEFORE UPDATE ON public.ml_models
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ml_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ml models"
+  ON public.ml_models
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can register ml models"
+  ON public.ml_models
+  FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND status <> 'champion');
+
+-- Champion changes go through promote_ml_model only
+CREATE POLICY "Admins can update ml models"
+  ON public.ml_models
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'::app_role) AND status <> 'champion')
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND status <> 'champion');
+
+CREATE TABLE IF NOT EXISTS public.ml_model_promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id UUID NOT NULL REFERENCES public.ml_models(id) ON DELETE CASCADE,
+  previous_champion_id UUID REFERENCES public.ml_models(id) ON DELETE SET NULL,
+  reason TEXT,
+  -- Both models' online_metrics at promotion time
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  promoted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ml_model_promotions_created
+  ON public.ml_model_promotions(created_at DESC);
+
+ALTER TABLE public.ml_model_promotions ENABLE ROW LEVEL SECURITY;
+
+-- Written by promote_ml_model only
+CREATE POLICY "Admins can view ml model promotions"
+  ON public.ml_model_promotions
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- ============================================================================
+-- promote_ml_model: new champion, previous champion becomes a challenger
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.promote_ml_model(
+  p_model_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_model RECORD;
+  v_previous RECORD;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'admin role required';
+  END IF;
+
+  SELECT * INTO v_model FROM ml_models WHERE id = p_model_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ml model % not found', p_model_id;
+  END IF;
+  IF v_model.status = 'champion' THEN
+    RETURN jsonb_build_object('success', true, 'model_id', v_model.id, 'unchanged', true);
+  END IF;
+  IF v_model.status = 'retired' THEN
+    RAISE EXCEPTION 'retired models cannot be promoted';
+  END IF;
+
+  SELECT * INTO v_previous FROM ml_models WHERE status = 'champion' FOR UPDATE;
+  IF FOUND THEN
+    UPDATE ml_models SET status = 'challenger' WHERE id = v_previous.id;
+  END IF;
+
+  UPDATE ml_models
+  SET status = 'champion', promoted_at = now(), promoted_by = auth.uid()
+  WHERE id = v_model.id;
+
+  INSERT INTO ml_model_promotions (model_id, previous_champion_id, reason, metrics, promoted_by)
+  VALUES (
+    v_model.id,
+    v_previous.id,
+    p_reason,
+    jsonb_build_object(
+      'model', v_model.online_metrics,
+      'previous_champion', v_previous.online_metrics
+    ),
+    auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'model_id', v_model.id,
+    'previous_champion_id', v_previous.id
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.promote_ml_model(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.promote_ml_model(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Hourly online evaluation
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'ml-model-evaluation-hourly') THEN
+    PERFORM cron.unschedule('ml-model-evaluation-hourly');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'ml-model-evaluation-hourly',
+  '41 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fuieplftlcxdfkxyqzlt.supabase.co/functions/v1/ml-model-evaluation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key' LIMIT 1),
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'CRON_SECRET' LIMIT 1)
+    ),
+    body := '{"scheduled": true, "trigger": "cron_hourly"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,191 @@
+-- ============================================================
+-- WITHDRAWAL POLICY ENGINE
+-- execution-wallet-withdraw and system-wallet-withdraw evaluate
+-- every withdrawal against withdrawal_policies (see
+-- _shared/withdrawalPolicy.ts): allowlisted destination, a
+-- cooling-off period after an address is added, daily / weekly
+-- velocity per user and asset, and admin approval above a
+-- threshold. Withdrawals are tracked in withdrawal_requests;
+-- those needing approval wait as pending_approval until an
+-- admin other than the requester reviews them
+-- (review_withdrawal_request). Every step is appended to
+-- withdrawal_audit_log.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.withdrawal_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL = global default for the asset; a user row overrides it
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset TEXT NOT NULL,
+  -- Asset units; NULL = no limit
+  daily_limit NUMERIC CHECK (daily_limit IS NULL OR daily_limit >= 0),
+  weekly_limit NUMERIC CHECK (weekly_limit IS NULL OR weekly_limit >= 0),
+  approval_threshold NUMERIC CHECK (approval_threshold IS NULL OR approval_threshold >= 0),
+  cooling_off_hours INTEGER NOT NULL DEFAULT 24 CHECK (cooling_off_hours >= 0),
+  require_allowlist BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_policies_user_asset
+  ON public.withdrawal_policies(user_id, asset)
+  WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_policies_global_asset
+  ON public.withdrawal_policies(asset)
+  WHERE user_id IS NULL;
+
+DROP TRIGGER IF EXISTS update_withdrawal_policies_updated_at ON public.withdrawal_policies;
+CREATE TRIGGER update_withdrawal_policies_updated_at
+  BEFORE UPDATE ON public.withdrawal_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.withdrawal_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their withdrawal policies"
+  ON public.withdrawal_policies
+  FOR SELECT
+  USING (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Admins can manage withdrawal policies"
+  ON public.withdrawal_policies
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.withdrawal_policies (user_id, asset, daily_limit, weekly_limit, approval_threshold, cooling_off_hours)
+VALUES
+  (NULL, 'ETH', 2, 5, 0.5, 24),
+  (NULL, 'WETH', 2, 5, 0.5, 24),
+  (NULL, 'USDC', 5000, 15000, 1000, 24)
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.withdrawal_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Whose funds / limits; requested_by differs for admin system withdrawals
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('execution_wallet', 'system_wallet')),
+  wallet_id UUID REFERENCES public.execution_wallets(id) ON DELETE SET NULL,
+  asset TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  to_address TEXT NOT NULL,
+  chain_id INTEGER NOT NULL DEFAULT 8453,
+  status TEXT NOT NULL CHECK (status IN ('pending_approval', 'approved', 'processing', 'submitted', 'rejected', 'failed')),
+  -- evaluateWithdrawal() output at request time
+  evaluation JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  tx_hash TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_velocity
+  ON public.withdrawal_requests(user_id, asset, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_pending
+  ON public.withdrawal_requests(created_at)
+  WHERE status = 'pending_approval';
+
+DROP TRIGGER IF EXISTS update_withdrawal_requests_updated_at ON public.withdrawal_requests;
+CREATE TRIGGER update_withdrawal_requests_updated_at
+  BEFORE UPDATE ON public.withdrawal_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.withdrawal_requests ENABLE ROW LEVEL SECURITY;
+
+-- Written by the withdraw edge functions (service role) and review_withdrawal_request only
+CREATE POLICY "Users can view their own withdrawal requests"
+  ON public.withdrawal_requests
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all withdrawal requests"
+  ON public.withdrawal_requests
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- ============================================================================
+-- withdrawal_audit_log: one row per step, system wallet rows have no wallet
+-- ============================================================================
+ALTER TABLE public.withdrawal_audit_log ALTER COLUMN wallet_id DROP NOT NULL;
+ALTER TABLE public.withdrawal_audit_log
+  ADD COLUMN IF NOT EXISTS request_id UUID REFERENCES public.withdrawal_requests(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source TEXT,
+  ADD COLUMN IF NOT EXISTS details JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_audit_request
+  ON public.withdrawal_audit_log(request_id, created_at)
+  WHERE request_id IS NOT NULL;
+
+-- The old insert policy allowed any caller; the edge functions use the service role
+DROP POLICY IF EXISTS "Service role can insert withdrawals" ON public.withdrawal_audit_log;
+
+CREATE POLICY "Admins can view all withdrawal audit entries"
+  ON public.withdrawal_audit_log
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- ============================================================================
+-- review_withdrawal_request: admin approves or rejects a queued withdrawal
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.review_withdrawal_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_request RECORD;
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'admin role required';
+  END IF;
+
+  SELECT * INTO v_request FROM withdrawal_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'withdrawal request % not found', p_request_id;
+  END IF;
+  IF v_request.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'withdrawal request is %, not pending_approval', v_request.status;
+  END IF;
+  IF v_request.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'a withdrawal cannot be reviewed by its requester';
+  END IF;
+
+  v_status := CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END;
+
+  UPDATE withdrawal_requests
+  SET status = v_status, reviewed_by = auth.uid(), reviewed_at = now(), review_note = p_note
+  WHERE id = v_request.id;
+
+  INSERT INTO withdrawal_audit_log (
+    user_id, wallet_id, asset, amount, to_address, status, request_id, actor_id, source, details
+  )
+  VALUES (
+    v_request.user_id,
+    v_request.wallet_id,
+    v_request.asset,
+    v_request.amount,
+    v_request.to_address,
+    v_status,
+    v_request.id,
+    auth.uid(),
+    v_request.source,
+    jsonb_build_object('note', p_note)
+  );
+
+  RETURN jsonb_build_object('success', true, 'request_id', v_request.id, 'status', v_status, 'source', v_request.source);
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.review_withdrawal_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_withdrawal_request(UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,15 @@
+-- ============================================================
+-- BROADCAST INTENT KEYS
+-- onchain-sign-and-send records the caller's mock_trades
+-- placeholder (per slice for sliced orders) on the tx manager
+-- row, so execution-job-worker and a retried sign-and-send can
+-- find a broadcast whose response was lost before real_trades
+-- was written (see _shared/realTrades.ts findIntentBroadcast).
+-- ============================================================
+
+ALTER TABLE public.managed_transactions
+  ADD COLUMN IF NOT EXISTS intent_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_managed_transactions_intent_key
+ON public.managed_transactions(intent_key, created_at DESC)
+WHERE intent_key IS NOT NULL;
@@ -0,0 +1,11 @@
+-- ============================================================
+-- TRADES PROVIDER: 0x ONLY
+-- onchain-execute builds signable swaps for 0x only (1inch,
+-- CoW and Uniswap are quote-only connectors), so restore the
+-- original check. NOT VALID keeps any rows written while the
+-- wider check was live; new rows must be 0x.
+-- ============================================================
+
+ALTER TABLE public.trades DROP CONSTRAINT IF EXISTS trades_provider_check;
+ALTER TABLE public.trades
+  ADD CONSTRAINT trades_provider_check CHECK (provider IN ('0x')) NOT VALID;
@@ -0,0 +1,69 @@
+-- ============================================================
+-- PRICE SNAPSHOT COMPACTION
+-- price-stream writes every product every few seconds (~400k
+-- rows/day). Readers only need the latest seconds (coordinator,
+-- resting-orders-evaluator) or a price near a past timestamp
+-- (backfills, valuation), so rows older than the raw window are
+-- thinned to the last row per (symbol, minute).
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_ts
+ON public.price_snapshots(ts);
+
+CREATE OR REPLACE FUNCTION public.compact_price_snapshots(
+  p_raw_window interval DEFAULT interval '48 hours',
+  p_lookback interval DEFAULT interval '1 day'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_cutoff timestamptz := now() - p_raw_window;
+  v_deleted integer;
+BEGIN
+  -- Only the band that crossed the raw window since recent runs: older
+  -- rows are already one per minute
+  WITH ranked AS (
+    SELECT symbol, ts,
+           row_number() OVER (
+             PARTITION BY symbol, date_trunc('minute', ts)
+             ORDER BY ts DESC
+           ) AS rn
+    FROM public.price_snapshots
+    WHERE ts < v_cutoff
+      AND ts >= date_trunc('minute', v_cutoff - p_lookback)
+  )
+  DELETE FROM public.price_snapshots p
+  USING ranked r
+  WHERE p.symbol = r.symbol
+    AND p.ts = r.ts
+    AND r.rn > 1;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.compact_price_snapshots(interval, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.compact_price_snapshots(interval, interval) TO service_role;
+
+-- Rows streamed before this job existed
+SELECT public.compact_price_snapshots(interval '48 hours', interval '7 days');
+
+-- ============================================================================
+-- Hourly compaction
+-- ============================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'price-snapshots-compact-hourly') THEN
+    PERFORM cron.unschedule('price-snapshots-compact-hourly');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'price-snapshots-compact-hourly',
+  '17 * * * *',
+  $$ SELECT public.compact_price_snapshots(); $$
+);
@@ -0,0 +1,35 @@
+-- ============================================================
+-- CONFIG CHANGE ACTOR: NO SPOOFING
+-- set_strategy_config_change_context() (and the apply_* writes
+-- that call it) accepted any actor from any caller, so a user
+-- could label their own edit 'optimizer' or 'assistant'. Only
+-- 'user' is open to API callers now; other actors need the
+-- service role, or a trusted SECURITY DEFINER caller such as
+-- rollback_strategy_config() (current_user is then the owner).
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.set_strategy_config_change_context(
+  p_actor text,
+  p_reason text DEFAULT NULL,
+  p_suggestion_id uuid DEFAULT NULL,
+  p_rolled_back_from uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF p_actor NOT IN ('user', 'optimizer', 'assistant', 'system', 'rollback') THEN
+    RAISE EXCEPTION 'invalid config change actor: %', p_actor;
+  END IF;
+  IF p_actor <> 'user'
+     AND COALESCE(auth.role(), '') <> 'service_role'
+     AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'config change actor % requires the service role', p_actor
+      USING ERRCODE = '42501';
+  END IF;
+  PERFORM set_config('app.config_actor', p_actor, true);
+  PERFORM set_config('app.config_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('app.config_suggestion_id', COALESCE(p_suggestion_id::text, ''), true);
+  PERFORM set_config('app.config_rolled_back_from', COALESCE(p_rolled_back_from::text, ''), true);
+END;
+$function$;
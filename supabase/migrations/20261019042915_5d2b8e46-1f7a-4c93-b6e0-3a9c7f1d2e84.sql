@@ -0,0 +1,62 @@
+-- ============================================================
+-- DEMOTED STRATEGIES STAY DOWN
+-- The demotion pass pauses a LIVE strategy to manage-only, but
+-- users could set state back to ACTIVE through RLS (directly
+-- or via PAUSED). enforce_live_promotion_gate now also blocks
+-- re-activating a REAL strategy whose latest demotion report is
+-- newer than every passed promotion report of its paper source.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_live_promotion_gate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_demoted_at timestamptz;
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.execution_target = 'REAL'
+     AND (TG_OP = 'INSERT' OR OLD.execution_target IS DISTINCT FROM 'REAL') THEN
+    RAISE EXCEPTION 'LIVE strategies are created through the promotion gate (strategy-promotion)';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.execution_target = 'REAL'
+     AND (
+       (NEW.state = 'ACTIVE' AND OLD.state IS DISTINCT FROM 'ACTIVE')
+       OR (NEW.is_active IS TRUE AND OLD.is_active IS NOT TRUE)
+       OR (NEW.is_active_live IS TRUE AND OLD.is_active_live IS NOT TRUE)
+     ) THEN
+    SELECT max(created_at) INTO v_demoted_at
+    FROM strategy_promotion_reports
+    WHERE kind = 'demotion'
+      AND strategy_id = NEW.id;
+
+    IF v_demoted_at IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM strategy_promotion_reports origin
+      JOIN strategy_promotion_reports fresh
+        ON fresh.strategy_id = origin.strategy_id
+      WHERE origin.kind = 'promotion'
+        AND origin.live_strategy_id = NEW.id
+        AND fresh.kind = 'promotion'
+        AND fresh.passed
+        AND fresh.created_at > v_demoted_at
+    ) THEN
+      RAISE EXCEPTION 'strategy % was demoted; re-activation needs a new passed promotion report (strategy-promotion)', NEW.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trading_strategies_live_promotion_gate ON public.trading_strategies;
+CREATE TRIGGER trading_strategies_live_promotion_gate
+  BEFORE INSERT OR UPDATE OF execution_target, state, is_active, is_active_live ON public.trading_strategies
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_live_promotion_gate();
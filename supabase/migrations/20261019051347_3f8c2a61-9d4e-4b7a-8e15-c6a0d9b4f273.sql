@@ -0,0 +1,112 @@
+-- ============================================================
+-- ATOMIC WITHDRAWAL REQUESTS
+-- The withdraw edge functions read the last week of
+-- withdrawal_requests, evaluated the limits and inserted the
+-- new row separately, so two concurrent withdrawals could both
+-- pass the daily / weekly limits; the 1-minute rate limit read
+-- 'submitted' audit rows, which a parallel request had not
+-- written yet. create_withdrawal_request re-counts live
+-- requests under a per-user advisory lock and inserts the row
+-- in the same transaction. tx-manager-monitor now moves
+-- withdrawal_requests.tx_hash to replacement hashes, looked up
+-- by the index at the end.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_withdrawal_request(
+  p_user_id UUID,
+  p_requested_by UUID,
+  p_source TEXT,
+  p_wallet_id UUID,
+  p_asset TEXT,
+  p_amount NUMERIC,
+  p_to_address TEXT,
+  p_chain_id INTEGER,
+  p_pending BOOLEAN,
+  p_evaluation JSONB DEFAULT '{}'::jsonb,
+  p_rate_limit_seconds INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_counted CONSTANT TEXT[] := ARRAY['pending_approval', 'approved', 'processing', 'submitted'];
+  v_daily_limit NUMERIC;
+  v_weekly_limit NUMERIC;
+  v_daily_used NUMERIC;
+  v_weekly_used NUMERIC;
+  v_status TEXT := CASE WHEN p_pending THEN 'pending_approval' ELSE 'processing' END;
+  v_id UUID;
+BEGIN
+  -- Serialises every withdrawal of this user until commit
+  PERFORM pg_advisory_xact_lock(hashtextextended('withdrawal_requests:' || p_user_id::text, 0));
+
+  IF p_rate_limit_seconds > 0 AND EXISTS (
+    SELECT 1
+    FROM withdrawal_requests
+    WHERE user_id = p_user_id
+      AND source = p_source
+      AND status = ANY (v_counted)
+      AND created_at > now() - make_interval(secs => p_rate_limit_seconds)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'rate_limited',
+      'message', format('Rate limited. Please wait %s seconds between withdrawals.', p_rate_limit_seconds)
+    );
+  END IF;
+
+  -- Same resolution as resolveWithdrawalPolicy(): the user's row, else the global one
+  SELECT daily_limit, weekly_limit INTO v_daily_limit, v_weekly_limit
+  FROM withdrawal_policies
+  WHERE asset = p_asset
+    AND is_active
+    AND (user_id = p_user_id OR user_id IS NULL)
+  ORDER BY user_id NULLS LAST
+  LIMIT 1;
+
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE created_at > now() - interval '1 day'), 0),
+    COALESCE(sum(amount), 0)
+  INTO v_daily_used, v_weekly_used
+  FROM withdrawal_requests
+  WHERE user_id = p_user_id
+    AND asset = p_asset
+    AND status = ANY (v_counted)
+    AND created_at > now() - interval '7 days';
+
+  IF v_daily_limit IS NOT NULL AND v_daily_used + p_amount > v_daily_limit THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'daily_limit_exceeded',
+      'message', format('Daily limit %s reached (%s used)', v_daily_limit, v_daily_used)
+    );
+  END IF;
+  IF v_weekly_limit IS NOT NULL AND v_weekly_used + p_amount > v_weekly_limit THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'weekly_limit_exceeded',
+      'message', format('Weekly limit %s reached (%s used)', v_weekly_limit, v_weekly_used)
+    );
+  END IF;
+
+  INSERT INTO withdrawal_requests (
+    user_id, requested_by, source, wallet_id, asset, amount, to_address, chain_id, status, evaluation
+  )
+  VALUES (
+    p_user_id, p_requested_by, p_source, p_wallet_id, p_asset, p_amount, p_to_address, p_chain_id, v_status,
+    COALESCE(p_evaluation, '{}'::jsonb)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('success', true, 'request_id', v_id, 'status', v_status);
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.create_withdrawal_request(UUID, UUID, TEXT, UUID, TEXT, NUMERIC, TEXT, INTEGER, BOOLEAN, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_withdrawal_request(UUID, UUID, TEXT, UUID, TEXT, NUMERIC, TEXT, INTEGER, BOOLEAN, JSONB, INTEGER) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_tx_hash
+  ON public.withdrawal_requests(tx_hash)
+  WHERE tx_hash IS NOT NULL;